@@ -170,6 +170,33 @@ describe('Tool Executor', () => {
       expect(mealsService.createMeal).toHaveBeenCalledOnce();
     });
 
+    it('should pass on dietary conflicts from plan_meal', async () => {
+      const { mealsService } = await import('@/lib/services/meals-service');
+      vi.mocked(mealsService.createMeal).mockResolvedValueOnce({
+        id: 'meal-2',
+        meal_type: 'dinner',
+        name: 'Satay',
+        scheduled_date: '2026-02-10',
+        dietary_conflicts: [{
+          user_id: 'user-2',
+          member_name: 'Sam',
+          kind: 'allergy',
+          restriction: 'peanut',
+          ingredients: ['peanut butter'],
+        }],
+      } as never);
+
+      const result = await executeTool('plan_meal', {
+        meal_type: 'dinner',
+        scheduled_date: '2026-02-10',
+        name: 'Satay',
+      }, context);
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('Sam: peanut allergy (peanut butter)');
+      expect(result.data).toMatchObject({ dietary_warning: 'Sam: peanut allergy (peanut butter)' });
+    });
+
     it('should route create_project to projectsOnlyService.createProject', async () => {
       const { projectsOnlyService } = await import('@/lib/services/projects-service');
       const result = await executeTool('create_project', { name: 'Kitchen Remodel', start_date: null, target_date: null }, context);
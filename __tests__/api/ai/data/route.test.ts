@@ -155,6 +155,7 @@ describe('/api/ai/data', () => {
       const { createClient } = await import('@/lib/supabase/server');
 
       const mockConversations = [{ id: CONV_ID_1 }, { id: CONV_ID_2 }];
+      const memoriesOrMock = vi.fn().mockReturnThis();
 
       const fromMock = vi.fn((table: string) => {
         if (table === 'ai_conversations') {
@@ -185,6 +186,13 @@ describe('/api/ai/data', () => {
             eq: vi.fn().mockResolvedValue({ error: null }),
           };
         }
+        if (table === 'ai_memories') {
+          return {
+            delete: vi.fn().mockReturnThis(),
+            or: memoriesOrMock,
+            select: vi.fn().mockResolvedValue({ data: [{ id: 'mem-1' }, { id: 'mem-2' }], error: null }),
+          };
+        }
         return {
           select: vi.fn().mockReturnThis(),
           delete: vi.fn().mockReturnThis(),
@@ -210,6 +218,8 @@ describe('/api/ai/data', () => {
       expect(data.success).toBe(true);
       expect(data.deleted).toBeDefined();
       expect(data.deleted.settings_reset).toBe(true);
+      expect(data.deleted.memories).toBe(2);
+      expect(memoriesOrMock).toHaveBeenCalledWith(`created_by.eq.${USER_ID},subject_user_id.eq.${USER_ID}`);
     });
   });
 });
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { PATCH, DELETE } from '@/app/api/ai/memories/[id]/route';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@/lib/services/authorization-service', () => ({
+  verifySpaceAccess: vi.fn(),
+}));
+
+vi.mock('@/lib/constants/feature-flags', () => ({
+  featureFlags: {
+    isAICompanionEnabled: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/services/ai/ai-access-guard', () => ({
+  validateAIAccess: vi.fn(),
+  buildAIAccessDeniedResponse: vi.fn(() =>
+    new Response(JSON.stringify({ error: 'AI access denied' }), { status: 403 })
+  ),
+}));
+
+vi.mock('@/lib/services/ai/ai-context-service', () => ({
+  aiContextService: {
+    invalidateSpace: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/services/ai/memory-service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/services/ai/memory-service')>();
+  return {
+    AIMemoryError: actual.AIMemoryError,
+    getMemory: vi.fn(),
+    updateMemory: vi.fn(),
+    deleteMemory: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+import { createClient } from '@/lib/supabase/server';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { featureFlags } from '@/lib/constants/feature-flags';
+import { validateAIAccess } from '@/lib/services/ai/ai-access-guard';
+import { aiContextService } from '@/lib/services/ai/ai-context-service';
+import { AIMemoryError, deleteMemory, getMemory, updateMemory } from '@/lib/services/ai/memory-service';
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const SPACE_ID = '00000000-0000-4000-8000-000000000010';
+const MEMORY_ID = '00000000-0000-4000-8000-000000000020';
+
+const supabase = {
+  auth: {
+    getUser: vi.fn(),
+  },
+};
+
+const params = { params: Promise.resolve({ id: MEMORY_ID }) };
+
+function request(method: string, body?: unknown) {
+  return new NextRequest(`http://localhost/api/ai/memories/${MEMORY_ID}`, {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe('/api/ai/memories/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: true } as never);
+    vi.mocked(featureFlags.isAICompanionEnabled).mockReturnValue(true);
+    vi.mocked(createClient).mockResolvedValue(supabase as never);
+    vi.mocked(validateAIAccess).mockResolvedValue({ allowed: true } as never);
+    vi.mocked(getMemory).mockResolvedValue({ id: MEMORY_ID, space_id: SPACE_ID } as never);
+    supabase.auth.getUser.mockResolvedValue({ data: { user: { id: USER_ID } }, error: null });
+  });
+
+  describe('PATCH', () => {
+    it('should return 400 for an empty update', async () => {
+      const response = await PATCH(request('PATCH', {}), params);
+
+      expect(response.status).toBe(400);
+      expect(updateMemory).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for a memory the user cannot see', async () => {
+      vi.mocked(getMemory).mockRejectedValue(new AIMemoryError('Memory not found', 404));
+
+      const response = await PATCH(request('PATCH', { content: 'Sam is allergic to cashews' }), params);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should update the memory and refresh the assistant context', async () => {
+      vi.mocked(updateMemory).mockResolvedValue({ id: MEMORY_ID, content: 'Sam is allergic to cashews' } as never);
+
+      const response = await PATCH(request('PATCH', { content: 'Sam is allergic to cashews' }), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(updateMemory).toHaveBeenCalledWith(supabase, MEMORY_ID, { content: 'Sam is allergic to cashews' });
+      expect(data.data.content).toBe('Sam is allergic to cashews');
+      expect(aiContextService.invalidateSpace).toHaveBeenCalledWith(SPACE_ID);
+    });
+  });
+
+  describe('DELETE', () => {
+    it('should return 401 when not authenticated', async () => {
+      supabase.auth.getUser.mockResolvedValue({ data: { user: null }, error: { message: 'Not authenticated' } });
+
+      const response = await DELETE(request('DELETE'), params);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should delete even when the AI companion is turned off', async () => {
+      vi.mocked(featureFlags.isAICompanionEnabled).mockReturnValue(false);
+
+      const response = await DELETE(request('DELETE'), params);
+
+      expect(response.status).toBe(200);
+      expect(deleteMemory).toHaveBeenCalledWith(supabase, MEMORY_ID);
+      expect(aiContextService.invalidateSpace).toHaveBeenCalledWith(SPACE_ID);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/ai/memories/route';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@/lib/services/authorization-service', () => ({
+  verifySpaceAccess: vi.fn(),
+}));
+
+vi.mock('@/lib/constants/feature-flags', () => ({
+  featureFlags: {
+    isAICompanionEnabled: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/services/ai/ai-access-guard', () => ({
+  validateAIAccess: vi.fn(),
+  buildAIAccessDeniedResponse: vi.fn(() =>
+    new Response(JSON.stringify({ error: 'AI access denied' }), { status: 403 })
+  ),
+}));
+
+vi.mock('@/lib/services/ai/ai-context-service', () => ({
+  aiContextService: {
+    invalidateSpace: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/services/ai/memory-service', () => ({
+  listMemories: vi.fn(),
+  createMemory: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+import { createClient } from '@/lib/supabase/server';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { verifySpaceAccess } from '@/lib/services/authorization-service';
+import { featureFlags } from '@/lib/constants/feature-flags';
+import { validateAIAccess } from '@/lib/services/ai/ai-access-guard';
+import { aiContextService } from '@/lib/services/ai/ai-context-service';
+import { createMemory, listMemories } from '@/lib/services/ai/memory-service';
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const MEMBER_ID = '00000000-0000-4000-8000-000000000002';
+const SPACE_ID = '00000000-0000-4000-8000-000000000010';
+
+const supabase = {
+  auth: {
+    getUser: vi.fn(),
+  },
+};
+
+function postRequest(body: unknown) {
+  return new NextRequest('http://localhost/api/ai/memories', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/ai/memories', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: true } as never);
+    vi.mocked(featureFlags.isAICompanionEnabled).mockReturnValue(true);
+    vi.mocked(createClient).mockResolvedValue(supabase as never);
+    vi.mocked(verifySpaceAccess).mockResolvedValue(undefined);
+    vi.mocked(validateAIAccess).mockResolvedValue({ allowed: true } as never);
+    supabase.auth.getUser.mockResolvedValue({ data: { user: { id: USER_ID } }, error: null });
+  });
+
+  describe('GET', () => {
+    it('should return 401 when not authenticated', async () => {
+      supabase.auth.getUser.mockResolvedValue({ data: { user: null }, error: { message: 'Not authenticated' } });
+
+      const response = await GET(new NextRequest(`http://localhost/api/ai/memories?spaceId=${SPACE_ID}`));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 400 without a spaceId', async () => {
+      const response = await GET(new NextRequest('http://localhost/api/ai/memories'));
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 403 for a space the user is not in', async () => {
+      vi.mocked(verifySpaceAccess).mockRejectedValue(new Error('Unauthorized'));
+
+      const response = await GET(new NextRequest(`http://localhost/api/ai/memories?spaceId=${SPACE_ID}`));
+
+      expect(response.status).toBe(403);
+      expect(listMemories).not.toHaveBeenCalled();
+    });
+
+    it('should list the space memories', async () => {
+      vi.mocked(listMemories).mockResolvedValue([{ id: 'mem-1', content: 'Sam is allergic to peanuts' }] as never);
+
+      const response = await GET(new NextRequest(`http://localhost/api/ai/memories?spaceId=${SPACE_ID}`));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(listMemories).toHaveBeenCalledWith(supabase, SPACE_ID);
+      expect(data.data).toHaveLength(1);
+    });
+  });
+
+  describe('POST', () => {
+    it('should return 400 for empty content', async () => {
+      const response = await POST(postRequest({ spaceId: SPACE_ID, content: '   ' }));
+
+      expect(response.status).toBe(400);
+      expect(createMemory).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 when the subject is not a member of the space', async () => {
+      vi.mocked(verifySpaceAccess)
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Unauthorized'));
+
+      const response = await POST(postRequest({ spaceId: SPACE_ID, content: 'Likes tea', subjectUserId: MEMBER_ID }));
+
+      expect(response.status).toBe(403);
+      expect(createMemory).not.toHaveBeenCalled();
+    });
+
+    it('should create a memory and refresh the assistant context', async () => {
+      vi.mocked(createMemory).mockResolvedValue({ id: 'mem-1' } as never);
+
+      const response = await POST(postRequest({
+        spaceId: SPACE_ID,
+        content: 'Sam is allergic to peanuts',
+        category: 'allergy',
+        subjectUserId: MEMBER_ID,
+      }));
+
+      expect(response.status).toBe(201);
+      expect(createMemory).toHaveBeenCalledWith(supabase, USER_ID, {
+        spaceId: SPACE_ID,
+        content: 'Sam is allergic to peanuts',
+        category: 'allergy',
+        subjectUserId: MEMBER_ID,
+      });
+      expect(aiContextService.invalidateSpace).toHaveBeenCalledWith(SPACE_ID);
+    });
+  });
+});
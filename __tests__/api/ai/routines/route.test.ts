@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/ai/routines/route';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@/lib/services/authorization-service', () => ({
+  verifySpaceAccess: vi.fn(),
+}));
+
+vi.mock('@/lib/constants/feature-flags', () => ({
+  featureFlags: {
+    isAICompanionEnabled: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/services/ai/ai-access-guard', () => ({
+  validateAIAccess: vi.fn(),
+  buildAIAccessDeniedResponse: vi.fn(() =>
+    new Response(JSON.stringify({ error: 'AI access denied' }), { status: 403 })
+  ),
+}));
+
+vi.mock('@/lib/services/ai/routine-service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/services/ai/routine-service')>();
+  return {
+    AIRoutineError: actual.AIRoutineError,
+    listRoutines: vi.fn(),
+    createRoutine: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+import { createClient } from '@/lib/supabase/server';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { verifySpaceAccess } from '@/lib/services/authorization-service';
+import { featureFlags } from '@/lib/constants/feature-flags';
+import { validateAIAccess } from '@/lib/services/ai/ai-access-guard';
+import { AIRoutineError, createRoutine, listRoutines } from '@/lib/services/ai/routine-service';
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const SPACE_ID = '00000000-0000-4000-8000-000000000010';
+
+const supabase = {
+  auth: {
+    getUser: vi.fn(),
+  },
+};
+
+const validBody = {
+  spaceId: SPACE_ID,
+  name: 'Weekly meal plan',
+  instructions: "Plan next week's dinners and build the shopping list",
+  rrule: 'FREQ=WEEKLY;BYDAY=SU',
+  time: '18:00',
+  timezone: 'Europe/London',
+};
+
+function postRequest(body: unknown) {
+  return new NextRequest('http://localhost/api/ai/routines', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/ai/routines', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: true } as never);
+    vi.mocked(featureFlags.isAICompanionEnabled).mockReturnValue(true);
+    vi.mocked(createClient).mockResolvedValue(supabase as never);
+    vi.mocked(verifySpaceAccess).mockResolvedValue(undefined);
+    vi.mocked(validateAIAccess).mockResolvedValue({ allowed: true } as never);
+    supabase.auth.getUser.mockResolvedValue({ data: { user: { id: USER_ID } }, error: null });
+  });
+
+  describe('GET', () => {
+    it('should return 403 for a space the user is not in', async () => {
+      vi.mocked(verifySpaceAccess).mockRejectedValue(new Error('Unauthorized'));
+
+      const response = await GET(new NextRequest(`http://localhost/api/ai/routines?spaceId=${SPACE_ID}`));
+
+      expect(response.status).toBe(403);
+      expect(listRoutines).not.toHaveBeenCalled();
+    });
+
+    it('should list the space routines', async () => {
+      vi.mocked(listRoutines).mockResolvedValue([{ id: 'routine-1' }] as never);
+
+      const response = await GET(new NextRequest(`http://localhost/api/ai/routines?spaceId=${SPACE_ID}`));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(listRoutines).toHaveBeenCalledWith(supabase, SPACE_ID);
+      expect(data.data).toHaveLength(1);
+    });
+  });
+
+  describe('POST', () => {
+    it('should return 400 for a malformed time', async () => {
+      const response = await POST(postRequest({ ...validBody, time: '6pm' }));
+
+      expect(response.status).toBe(400);
+      expect(createRoutine).not.toHaveBeenCalled();
+    });
+
+    it('should return the service error for an invalid schedule', async () => {
+      vi.mocked(createRoutine).mockRejectedValue(new AIRoutineError('Routines can run at most once a day'));
+
+      const response = await POST(postRequest({ ...validBody, rrule: 'FREQ=HOURLY' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Routines can run at most once a day');
+    });
+
+    it('should create a routine that runs as the user', async () => {
+      vi.mocked(createRoutine).mockResolvedValue({ id: 'routine-1' } as never);
+
+      const response = await POST(postRequest(validBody));
+
+      expect(response.status).toBe(201);
+      expect(createRoutine).toHaveBeenCalledWith(supabase, USER_ID, validBody);
+    });
+  });
+});
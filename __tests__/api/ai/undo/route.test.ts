@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/ai/undo/route';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/services/ai/action-journal-service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/services/ai/action-journal-service')>();
+  return {
+    ActionJournalError: actual.ActionJournalError,
+    describeUndo: actual.describeUndo,
+    undoActions: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/services/ai/chat-orchestrator-service', () => ({
+  chatOrchestratorService: {
+    recordUndo: vi.fn(),
+  },
+}));
+
+import { createClient } from '@/lib/supabase/server';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { ActionJournalError, undoActions } from '@/lib/services/ai/action-journal-service';
+import { chatOrchestratorService } from '@/lib/services/ai/chat-orchestrator-service';
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const CONVERSATION_ID = '00000000-0000-4000-8000-000000000050';
+const TURN_ID = '00000000-0000-4000-8000-000000000060';
+
+const supabase = {
+  auth: {
+    getUser: vi.fn(),
+  },
+};
+
+function request(body: unknown) {
+  return new NextRequest('http://localhost/api/ai/undo', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/ai/undo', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: true } as never);
+    vi.mocked(createClient).mockResolvedValue(supabase as never);
+    supabase.auth.getUser.mockResolvedValue({ data: { user: { id: USER_ID } }, error: null });
+  });
+
+  describe('POST', () => {
+    it('should return 429 when rate limited', async () => {
+      vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: false } as never);
+
+      const response = await POST(request({ conversationId: CONVERSATION_ID }));
+
+      expect(response.status).toBe(429);
+    });
+
+    it('should return 401 when not authenticated', async () => {
+      supabase.auth.getUser.mockResolvedValue({ data: { user: null }, error: { message: 'Not authenticated' } });
+
+      const response = await POST(request({ conversationId: CONVERSATION_ID }));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 400 for an invalid conversation id', async () => {
+      const response = await POST(request({ conversationId: 'not-a-uuid' }));
+
+      expect(response.status).toBe(400);
+      expect(undoActions).not.toHaveBeenCalled();
+    });
+
+    it('should undo a turn and tell the assistant about it', async () => {
+      vi.mocked(undoActions).mockResolvedValue({
+        turnId: TURN_ID,
+        undone: ['batch_complete_tasks'],
+        irreversible: [],
+        conflicts: [],
+        turnFullyUndone: true,
+      });
+
+      const response = await POST(request({ conversationId: CONVERSATION_ID, turnId: TURN_ID }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(undoActions).toHaveBeenCalledWith(supabase, USER_ID, CONVERSATION_ID, TURN_ID);
+      expect(data).toMatchObject({
+        turnId: TURN_ID,
+        turnFullyUndone: true,
+        message: 'Undid the last action (batch_complete_tasks).',
+      });
+      expect(chatOrchestratorService.recordUndo).toHaveBeenCalledWith(CONVERSATION_ID, data.message);
+    });
+
+    it('should return 404 when there is nothing to undo', async () => {
+      vi.mocked(undoActions).mockRejectedValue(new ActionJournalError('There is nothing to undo', 404));
+
+      const response = await POST(request({ conversationId: CONVERSATION_ID }));
+      const data = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(data.error).toBe('There is nothing to undo');
+    });
+
+    it('should return 500 on unexpected errors', async () => {
+      vi.mocked(undoActions).mockRejectedValue(new Error('db down'));
+
+      const response = await POST(request({ conversationId: CONVERSATION_ID }));
+
+      expect(response.status).toBe(500);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { DELETE, GET, POST } from '@/app/api/caldav/[[...path]]/route';
+
+vi.mock('@/lib/supabase/admin', () => ({
+  supabaseAdmin: { from: vi.fn() },
+}));
+
+vi.mock('@/lib/services/caldav/server', () => ({
+  handleDavRequest: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkDavRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@sentry/nextjs', () => ({
+  captureException: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+function makeContext(path?: string[]) {
+  return { params: Promise.resolve({ path }) };
+}
+
+function makeRequest(method: string, headers: Record<string, string> = {}) {
+  return new NextRequest('http://localhost/api/caldav/calendars/user-1/', { method, headers });
+}
+
+describe('/api/caldav/[[...path]]', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { checkDavRateLimit } = await import('@/lib/ratelimit');
+    const { handleDavRequest } = await import('@/lib/services/caldav/server');
+    vi.mocked(checkDavRateLimit).mockResolvedValue({ success: true });
+    vi.mocked(handleDavRequest).mockResolvedValue(new Response(null, { status: 207 }));
+  });
+
+  it('should return 429 when rate limit is exceeded', async () => {
+    const { checkDavRateLimit } = await import('@/lib/ratelimit');
+    vi.mocked(checkDavRateLimit).mockResolvedValue({ success: false });
+
+    const response = await GET(makeRequest('GET'), makeContext());
+
+    expect(response.status).toBe(429);
+  });
+
+  it('should pass the method and path to the DAV server', async () => {
+    const { handleDavRequest } = await import('@/lib/services/caldav/server');
+    const { supabaseAdmin } = await import('@/lib/supabase/admin');
+
+    await DELETE(makeRequest('DELETE'), makeContext(['calendars', 'user-1', 'space-1', 'a.ics']));
+
+    expect(handleDavRequest).toHaveBeenCalledWith(expect.any(NextRequest), {
+      method: 'DELETE',
+      path: ['calendars', 'user-1', 'space-1', 'a.ics'],
+      supabase: supabaseAdmin,
+    });
+  });
+
+  it('should dispatch forwarded WebDAV methods from POST', async () => {
+    const { handleDavRequest } = await import('@/lib/services/caldav/server');
+
+    const response = await POST(makeRequest('POST', { 'x-dav-method': 'propfind' }), makeContext(['calendars', 'user-1']));
+
+    expect(response.status).toBe(207);
+    expect(handleDavRequest).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ method: 'PROPFIND' }));
+  });
+
+  it('should reject plain POST requests', async () => {
+    const { handleDavRequest } = await import('@/lib/services/caldav/server');
+
+    const response = await POST(makeRequest('POST'), makeContext());
+
+    expect(response.status).toBe(405);
+    expect(handleDavRequest).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 when the DAV server throws', async () => {
+    const { handleDavRequest } = await import('@/lib/services/caldav/server');
+    vi.mocked(handleDavRequest).mockRejectedValue(new Error('db down'));
+
+    const response = await GET(makeRequest('GET'), makeContext());
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { PATCH, DELETE } from '@/app/api/calendar/feeds/[id]/route';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/services/calendar/calendar-feed-service', () => ({
+  calendarFeedService: {
+    getCalendarFeed: vi.fn(),
+    updateCalendarFeed: vi.fn(),
+    revokeCalendarFeed: vi.fn(),
+    getFeedUrl: vi.fn((token: string, protocol = 'webcal') => `${protocol}://rowanapp.com/api/calendar/webcal/${token}.ics`),
+  },
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@sentry/nextjs', () => ({
+  captureException: vi.fn(),
+}));
+
+vi.mock('@/lib/sentry-utils', () => ({
+  setSentryUser: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const FEED_ID = '00000000-0000-4000-8000-000000000020';
+
+const FEED = {
+  id: FEED_ID,
+  space_id: '00000000-0000-4000-8000-000000000002',
+  created_by: USER_ID,
+  member_id: null,
+  name: 'Family',
+  token: 'b'.repeat(64),
+  domains: ['events', 'chores', 'bills', 'tasks'],
+  revoked_at: null,
+  last_accessed_at: null,
+  created_at: '2026-10-19T00:00:00Z',
+  updated_at: '2026-10-19T00:00:00Z',
+};
+
+function makeParams(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+function makeRequest(method: string, body?: unknown) {
+  return new NextRequest(`http://localhost/api/calendar/feeds/${FEED_ID}`, {
+    method,
+    ...(body !== undefined && {
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    }),
+  });
+}
+
+async function setupAuthorized() {
+  const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+  const { createClient } = await import('@/lib/supabase/server');
+
+  const client = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({ data: { user: { id: USER_ID } }, error: null }),
+    },
+  };
+  vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: true } as any);
+  vi.mocked(createClient).mockResolvedValue(client as any);
+  return client;
+}
+
+describe('/api/calendar/feeds/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('PATCH', () => {
+    it('should return 401 when not authenticated', async () => {
+      const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+      const { createClient } = await import('@/lib/supabase/server');
+      vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: true } as any);
+      vi.mocked(createClient).mockResolvedValue({
+        auth: { getUser: vi.fn().mockResolvedValue({ data: { user: null }, error: { message: 'No session' } }) },
+      } as any);
+
+      const response = await PATCH(makeRequest('PATCH', { name: 'Home' }), makeParams(FEED_ID));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 400 for an empty update', async () => {
+      await setupAuthorized();
+
+      const response = await PATCH(makeRequest('PATCH', {}), makeParams(FEED_ID));
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for a revoked or unknown feed', async () => {
+      await setupAuthorized();
+      const { calendarFeedService } = await import('@/lib/services/calendar/calendar-feed-service');
+      vi.mocked(calendarFeedService.getCalendarFeed).mockResolvedValue({ ...FEED, revoked_at: '2026-10-19T00:00:00Z' } as any);
+
+      const response = await PATCH(makeRequest('PATCH', { domains: ['events'] }), makeParams(FEED_ID));
+
+      expect(response.status).toBe(404);
+      expect(calendarFeedService.updateCalendarFeed).not.toHaveBeenCalled();
+    });
+
+    it('should update the domain filter', async () => {
+      const client = await setupAuthorized();
+      const { calendarFeedService } = await import('@/lib/services/calendar/calendar-feed-service');
+      vi.mocked(calendarFeedService.getCalendarFeed).mockResolvedValue(FEED as any);
+      vi.mocked(calendarFeedService.updateCalendarFeed).mockResolvedValue({ ...FEED, domains: ['events', 'bills'] } as any);
+
+      const response = await PATCH(makeRequest('PATCH', { domains: ['events', 'bills'] }), makeParams(FEED_ID));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(calendarFeedService.getCalendarFeed).toHaveBeenCalledWith(client, FEED_ID, USER_ID);
+      expect(calendarFeedService.updateCalendarFeed).toHaveBeenCalledWith(client, FEED_ID, { domains: ['events', 'bills'] });
+      expect(data.data.domains).toEqual(['events', 'bills']);
+    });
+  });
+
+  describe('DELETE', () => {
+    it('should return 404 for a feed the caller cannot see', async () => {
+      await setupAuthorized();
+      const { calendarFeedService } = await import('@/lib/services/calendar/calendar-feed-service');
+      vi.mocked(calendarFeedService.getCalendarFeed).mockResolvedValue(null);
+
+      const response = await DELETE(makeRequest('DELETE'), makeParams(FEED_ID));
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should revoke the feed', async () => {
+      const client = await setupAuthorized();
+      const { calendarFeedService } = await import('@/lib/services/calendar/calendar-feed-service');
+      vi.mocked(calendarFeedService.getCalendarFeed).mockResolvedValue(FEED as any);
+      vi.mocked(calendarFeedService.revokeCalendarFeed).mockResolvedValue(undefined);
+
+      const response = await DELETE(makeRequest('DELETE'), makeParams(FEED_ID));
+
+      expect(response.status).toBe(200);
+      // Not limited to the caller's feeds, so space admins can revoke any
+      expect(calendarFeedService.getCalendarFeed).toHaveBeenCalledWith(client, FEED_ID);
+      expect(calendarFeedService.revokeCalendarFeed).toHaveBeenCalledWith(client, FEED_ID);
+    });
+
+    it('should return 500 when revoking fails', async () => {
+      await setupAuthorized();
+      const { calendarFeedService } = await import('@/lib/services/calendar/calendar-feed-service');
+      vi.mocked(calendarFeedService.getCalendarFeed).mockResolvedValue(FEED as any);
+      vi.mocked(calendarFeedService.revokeCalendarFeed).mockRejectedValue(new Error('db error'));
+
+      const response = await DELETE(makeRequest('DELETE'), makeParams(FEED_ID));
+
+      expect(response.status).toBe(500);
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/calendar/feeds/route';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/services/calendar/calendar-feed-service', () => ({
+  calendarFeedService: {
+    listCalendarFeeds: vi.fn(),
+    createCalendarFeed: vi.fn(),
+    getFeedUrl: vi.fn((token: string, protocol = 'webcal') => `${protocol}://rowanapp.com/api/calendar/webcal/${token}.ics`),
+  },
+}));
+
+vi.mock('@/lib/services/authorization-service', () => ({
+  verifySpaceAccess: vi.fn(),
+  isUserSpaceMember: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@sentry/nextjs', () => ({
+  captureException: vi.fn(),
+}));
+
+vi.mock('@/lib/sentry-utils', () => ({
+  setSentryUser: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const SPACE_ID = '00000000-0000-4000-8000-000000000002';
+const MEMBER_ID = '00000000-0000-4000-8000-000000000003';
+const TOKEN = 'a'.repeat(64);
+
+const FEED = {
+  id: 'feed-1',
+  space_id: SPACE_ID,
+  created_by: USER_ID,
+  member_id: null,
+  name: 'Family',
+  token: TOKEN,
+  domains: ['events', 'chores', 'bills', 'tasks'],
+  revoked_at: null,
+  last_accessed_at: null,
+  created_at: '2026-10-19T00:00:00Z',
+  updated_at: '2026-10-19T00:00:00Z',
+};
+
+function mockRateLimitOk() {
+  return { success: true, limit: 60, remaining: 59, reset: Date.now() + 60000 };
+}
+
+function mockClient() {
+  return {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: USER_ID } },
+        error: null,
+      }),
+    },
+  };
+}
+
+async function setupAuthorized() {
+  const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+  const { createClient } = await import('@/lib/supabase/server');
+  const { verifySpaceAccess, isUserSpaceMember } = await import('@/lib/services/authorization-service');
+
+  const client = mockClient();
+  vi.mocked(checkGeneralRateLimit).mockResolvedValue(mockRateLimitOk());
+  vi.mocked(createClient).mockResolvedValue(client as any);
+  vi.mocked(verifySpaceAccess).mockResolvedValue(undefined);
+  vi.mocked(isUserSpaceMember).mockResolvedValue(true);
+  return client;
+}
+
+function makePostRequest(body: unknown) {
+  return new NextRequest('http://localhost/api/calendar/feeds', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('/api/calendar/feeds', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('GET', () => {
+    it('should return 429 when rate limit is exceeded', async () => {
+      const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+      vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: false } as any);
+
+      const response = await GET(new NextRequest(`http://localhost/api/calendar/feeds?space_id=${SPACE_ID}`));
+
+      expect(response.status).toBe(429);
+    });
+
+    it('should return 401 when not authenticated', async () => {
+      const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+      const { createClient } = await import('@/lib/supabase/server');
+
+      vi.mocked(checkGeneralRateLimit).mockResolvedValue(mockRateLimitOk());
+      vi.mocked(createClient).mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({ data: { user: null }, error: { message: 'Not authenticated' } }),
+        },
+      } as any);
+
+      const response = await GET(new NextRequest(`http://localhost/api/calendar/feeds?space_id=${SPACE_ID}`));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 400 without a valid space_id', async () => {
+      await setupAuthorized();
+
+      const response = await GET(new NextRequest('http://localhost/api/calendar/feeds'));
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 403 when the user is not a space member', async () => {
+      await setupAuthorized();
+      const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+      vi.mocked(verifySpaceAccess).mockRejectedValue(new Error('Unauthorized'));
+
+      const response = await GET(new NextRequest(`http://localhost/api/calendar/feeds?space_id=${SPACE_ID}`));
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should list feeds with their subscription URLs', async () => {
+      const client = await setupAuthorized();
+      const { calendarFeedService } = await import('@/lib/services/calendar/calendar-feed-service');
+      vi.mocked(calendarFeedService.listCalendarFeeds).mockResolvedValue([FEED] as any);
+
+      const response = await GET(new NextRequest(`http://localhost/api/calendar/feeds?space_id=${SPACE_ID}`));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(calendarFeedService.listCalendarFeeds).toHaveBeenCalledWith(client, SPACE_ID, USER_ID);
+      expect(data.data[0].webcal_url).toBe(`webcal://rowanapp.com/api/calendar/webcal/${TOKEN}.ics`);
+      expect(data.data[0].https_url).toBe(`https://rowanapp.com/api/calendar/webcal/${TOKEN}.ics`);
+    });
+  });
+
+  describe('POST', () => {
+    it('should return 400 for invalid domains', async () => {
+      await setupAuthorized();
+
+      const response = await POST(makePostRequest({ space_id: SPACE_ID, name: 'Family', domains: ['meals'] }));
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 when the member is outside the space', async () => {
+      await setupAuthorized();
+      const { isUserSpaceMember } = await import('@/lib/services/authorization-service');
+      vi.mocked(isUserSpaceMember).mockResolvedValue(false);
+
+      const response = await POST(makePostRequest({ space_id: SPACE_ID, name: 'Kid', member_id: MEMBER_ID }));
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should create a member feed with the chosen domains', async () => {
+      const client = await setupAuthorized();
+      const { calendarFeedService } = await import('@/lib/services/calendar/calendar-feed-service');
+      vi.mocked(calendarFeedService.createCalendarFeed).mockResolvedValue({
+        ...FEED,
+        member_id: MEMBER_ID,
+        domains: ['chores', 'tasks'],
+      } as any);
+
+      const response = await POST(makePostRequest({
+        space_id: SPACE_ID,
+        name: 'Kid',
+        member_id: MEMBER_ID,
+        domains: ['chores', 'tasks', 'chores'],
+      }));
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(calendarFeedService.createCalendarFeed).toHaveBeenCalledWith(client, {
+        space_id: SPACE_ID,
+        name: 'Kid',
+        member_id: MEMBER_ID,
+        domains: ['chores', 'tasks'],
+        created_by: USER_ID,
+      });
+      expect(data.data.webcal_url).toContain('webcal://');
+    });
+
+    it('should return 500 when creation fails', async () => {
+      await setupAuthorized();
+      const { calendarFeedService } = await import('@/lib/services/calendar/calendar-feed-service');
+      vi.mocked(calendarFeedService.createCalendarFeed).mockRejectedValue(new Error('db error'));
+
+      const response = await POST(makePostRequest({ space_id: SPACE_ID, name: 'Family' }));
+
+      expect(response.status).toBe(500);
+    });
+  });
+});
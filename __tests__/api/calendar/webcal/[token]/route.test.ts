@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/calendar/webcal/[token]/route';
+
+vi.mock('@/lib/supabase/admin', () => ({
+  supabaseAdmin: { from: vi.fn() },
+}));
+
+vi.mock('@/lib/services/calendar/calendar-feed-service', () => ({
+  calendarFeedService: {
+    getCalendarFeedByToken: vi.fn(),
+    recordCalendarFeedAccess: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/services/calendar/ics-export-service', () => ({
+  renderCalendarFeed: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@sentry/nextjs', () => ({
+  captureException: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+const TOKEN = 'c'.repeat(64);
+const FEED = { id: 'feed-1', space_id: 'space-1', token: TOKEN, name: 'Family', domains: ['events'] };
+
+function makeContext(token: string) {
+  return { params: Promise.resolve({ token }) };
+}
+
+function makeRequest(token: string) {
+  return new NextRequest(`http://localhost/api/calendar/webcal/${token}`);
+}
+
+describe('/api/calendar/webcal/[token]', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: true } as any);
+  });
+
+  it('should return 429 when rate limit is exceeded', async () => {
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: false } as any);
+
+    const response = await GET(makeRequest(TOKEN), makeContext(TOKEN));
+
+    expect(response.status).toBe(429);
+  });
+
+  it('should return 404 for a malformed token without querying', async () => {
+    const { calendarFeedService } = await import('@/lib/services/calendar/calendar-feed-service');
+
+    const response = await GET(makeRequest('short'), makeContext('short'));
+
+    expect(response.status).toBe(404);
+    expect(calendarFeedService.getCalendarFeedByToken).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown or revoked token', async () => {
+    const { calendarFeedService } = await import('@/lib/services/calendar/calendar-feed-service');
+    vi.mocked(calendarFeedService.getCalendarFeedByToken).mockResolvedValue(null);
+
+    const response = await GET(makeRequest(TOKEN), makeContext(TOKEN));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should serve the feed as text/calendar and accept an .ics suffix', async () => {
+    const { calendarFeedService } = await import('@/lib/services/calendar/calendar-feed-service');
+    const { renderCalendarFeed } = await import('@/lib/services/calendar/ics-export-service');
+    const { supabaseAdmin } = await import('@/lib/supabase/admin');
+    vi.mocked(calendarFeedService.getCalendarFeedByToken).mockResolvedValue(FEED as any);
+    vi.mocked(calendarFeedService.recordCalendarFeedAccess).mockResolvedValue(undefined);
+    vi.mocked(renderCalendarFeed).mockResolvedValue('BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n');
+
+    const response = await GET(makeRequest(`${TOKEN}.ics`), makeContext(`${TOKEN}.ics`));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/calendar; charset=utf-8');
+    expect(await response.text()).toBe('BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n');
+    expect(calendarFeedService.getCalendarFeedByToken).toHaveBeenCalledWith(supabaseAdmin, TOKEN);
+    expect(calendarFeedService.recordCalendarFeedAccess).toHaveBeenCalledWith(supabaseAdmin, 'feed-1');
+  });
+
+  it('should still serve the feed when recording access fails', async () => {
+    const { calendarFeedService } = await import('@/lib/services/calendar/calendar-feed-service');
+    const { renderCalendarFeed } = await import('@/lib/services/calendar/ics-export-service');
+    vi.mocked(calendarFeedService.getCalendarFeedByToken).mockResolvedValue(FEED as any);
+    vi.mocked(calendarFeedService.recordCalendarFeedAccess).mockRejectedValue(new Error('db error'));
+    vi.mocked(renderCalendarFeed).mockResolvedValue('BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n');
+
+    const response = await GET(makeRequest(TOKEN), makeContext(TOKEN));
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should return 500 when rendering fails', async () => {
+    const { calendarFeedService } = await import('@/lib/services/calendar/calendar-feed-service');
+    const { renderCalendarFeed } = await import('@/lib/services/calendar/ics-export-service');
+    vi.mocked(calendarFeedService.getCalendarFeedByToken).mockResolvedValue(FEED as any);
+    vi.mocked(renderCalendarFeed).mockRejectedValue(new Error('db down'));
+
+    const response = await GET(makeRequest(TOKEN), makeContext(TOKEN));
+
+    expect(response.status).toBe(500);
+  });
+});
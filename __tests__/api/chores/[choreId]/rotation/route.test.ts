@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/chores/[choreId]/rotation/route';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/services/chore-workload-service', () => ({
+  suggestNextAssignee: vi.fn(),
+}));
+
+vi.mock('@/lib/services/authorization-service', () => ({
+  verifySpaceAccess: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@sentry/nextjs', () => ({
+  captureException: vi.fn(),
+}));
+
+vi.mock('@/lib/sentry-utils', () => ({
+  setSentryUser: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+const context = { params: Promise.resolve({ choreId: 'chore-1' }) };
+const ROTATION = {
+  id: 'rotation-1',
+  chore_id: 'chore-1',
+  rotation_type: 'balanced',
+  user_order: ['a', 'b'],
+  rotation_frequency: 'weekly',
+  next_rotation_date: '2026-10-26',
+  last_assigned_to: 'a',
+  is_active: true,
+};
+
+async function mockAuth(rotation: unknown = ROTATION) {
+  const { createClient } = await import('@/lib/supabase/server');
+  const chain = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({ data: { id: 'chore-1', space_id: 'space-1' }, error: null }),
+    maybeSingle: vi.fn().mockResolvedValue({ data: rotation, error: null }),
+  };
+  const supabase = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: 'a' } }, error: null }) },
+    from: vi.fn(() => chain),
+  };
+  vi.mocked(createClient).mockResolvedValue(supabase as never);
+  return supabase;
+}
+
+describe('/api/chores/[choreId]/rotation', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: true } as never);
+    const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+    vi.mocked(verifySpaceAccess).mockResolvedValue(undefined);
+  });
+
+  it('should return 404 when the chore has no rotation', async () => {
+    await mockAuth(null);
+
+    const response = await GET(new NextRequest('http://localhost/api/chores/chore-1/rotation'), context);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return workloads and the suggested next assignee', async () => {
+    const supabase = await mockAuth();
+    const { suggestNextAssignee } = await import('@/lib/services/chore-workload-service');
+    vi.mocked(suggestNextAssignee).mockResolvedValue({
+      pick: { userId: 'b', available: true },
+      workloads: [{ userId: 'a', score: 3 }, { userId: 'b', score: 1 }] as never,
+      unavailable: [],
+    });
+
+    const response = await GET(new NextRequest('http://localhost/api/chores/chore-1/rotation'), context);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.next_assignee).toBe('b');
+    expect(body.data.next_assignee_available).toBe(true);
+    expect(suggestNextAssignee).toHaveBeenCalledWith(supabase, 'space-1', ROTATION, '2026-10-26');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { PATCH } from '@/app/api/chores/[choreId]/rotation/swaps/[swapId]/route';
+import { ChoreRotationSwapError } from '@/lib/services/chore-rotation-swap-service';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/services/chore-rotation-swap-service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/services/chore-rotation-swap-service')>();
+  return {
+    ...actual,
+    respondToSwap: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/services/authorization-service', () => ({
+  verifySpaceAccess: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@sentry/nextjs', () => ({
+  captureException: vi.fn(),
+}));
+
+vi.mock('@/lib/sentry-utils', () => ({
+  setSentryUser: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+const context = { params: Promise.resolve({ choreId: 'chore-1', swapId: 'swap-1' }) };
+
+async function mockAuth(user: unknown = { id: 'user-1' }) {
+  const { createClient } = await import('@/lib/supabase/server');
+  const chain = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({ data: { id: 'chore-1', space_id: 'space-1' }, error: null }),
+  };
+  const supabase = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user }, error: user ? null : { message: 'Unauthorized' } }) },
+    from: vi.fn(() => chain),
+  };
+  vi.mocked(createClient).mockResolvedValue(supabase as never);
+  return supabase;
+}
+
+function patchRequest(body: unknown) {
+  return new NextRequest('http://localhost/api/chores/chore-1/rotation/swaps/swap-1', {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/chores/[choreId]/rotation/swaps/[swapId]', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: true } as never);
+    const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+    vi.mocked(verifySpaceAccess).mockResolvedValue(undefined);
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    await mockAuth(null);
+
+    const response = await PATCH(patchRequest({ action: 'approve' }), context);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject unknown actions', async () => {
+    await mockAuth();
+
+    const response = await PATCH(patchRequest({ action: 'maybe' }), context);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should approve a swap as the caller', async () => {
+    const supabase = await mockAuth();
+    const { respondToSwap } = await import('@/lib/services/chore-rotation-swap-service');
+    vi.mocked(respondToSwap).mockResolvedValue({ id: 'swap-1', status: 'approved' } as never);
+
+    const response = await PATCH(patchRequest({ action: 'approve' }), context);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.status).toBe('approved');
+    expect(respondToSwap).toHaveBeenCalledWith(supabase, {
+      chore_id: 'chore-1',
+      swap_id: 'swap-1',
+      user_id: 'user-1',
+      action: 'approve',
+    });
+  });
+
+  it('should surface permission errors from the service', async () => {
+    await mockAuth();
+    const { respondToSwap } = await import('@/lib/services/chore-rotation-swap-service');
+    vi.mocked(respondToSwap).mockRejectedValue(new ChoreRotationSwapError('Only the requested member can respond to a swap', 403));
+
+    const response = await PATCH(patchRequest({ action: 'approve' }), context);
+
+    expect(response.status).toBe(403);
+  });
+});
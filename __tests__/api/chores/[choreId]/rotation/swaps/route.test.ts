@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/chores/[choreId]/rotation/swaps/route';
+import { ChoreRotationSwapError } from '@/lib/services/chore-rotation-swap-service';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/services/chore-rotation-swap-service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/services/chore-rotation-swap-service')>();
+  return {
+    ...actual,
+    listSwaps: vi.fn(),
+    requestSwap: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/services/authorization-service', () => ({
+  verifySpaceAccess: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@sentry/nextjs', () => ({
+  captureException: vi.fn(),
+}));
+
+vi.mock('@/lib/sentry-utils', () => ({
+  setSentryUser: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+const USER_ID = '550e8400-e29b-41d4-a716-446655440001';
+const OTHER_ID = '550e8400-e29b-41d4-a716-446655440002';
+const CHORE_ID = '550e8400-e29b-41d4-a716-446655440003';
+const context = { params: Promise.resolve({ choreId: CHORE_ID }) };
+
+async function mockAuth(user: unknown = { id: USER_ID }, chore: unknown = { id: CHORE_ID, space_id: 'space-1' }) {
+  const { createClient } = await import('@/lib/supabase/server');
+  const chain = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({ data: chore, error: chore ? null : { message: 'not found' } }),
+  };
+  const supabase = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user }, error: user ? null : { message: 'Unauthorized' } }) },
+    from: vi.fn(() => chain),
+  };
+  vi.mocked(createClient).mockResolvedValue(supabase as never);
+  return supabase;
+}
+
+function postRequest(body: unknown) {
+  return new NextRequest(`http://localhost/api/chores/${CHORE_ID}/rotation/swaps`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/chores/[choreId]/rotation/swaps', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: true } as never);
+    const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+    vi.mocked(verifySpaceAccess).mockResolvedValue(undefined);
+  });
+
+  it('should return 429 when rate limited', async () => {
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: false } as never);
+
+    const response = await GET(new NextRequest(`http://localhost/api/chores/${CHORE_ID}/rotation/swaps`), context);
+
+    expect(response.status).toBe(429);
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    await mockAuth(null);
+
+    const response = await GET(new NextRequest(`http://localhost/api/chores/${CHORE_ID}/rotation/swaps`), context);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return 404 when the chore does not exist', async () => {
+    await mockAuth(undefined, null);
+
+    const response = await GET(new NextRequest(`http://localhost/api/chores/${CHORE_ID}/rotation/swaps`), context);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 403 when not a space member', async () => {
+    await mockAuth();
+    const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+    vi.mocked(verifySpaceAccess).mockRejectedValue(new Error('Unauthorized'));
+
+    const response = await GET(new NextRequest(`http://localhost/api/chores/${CHORE_ID}/rotation/swaps`), context);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should list swaps filtered by status', async () => {
+    const supabase = await mockAuth();
+    const { listSwaps } = await import('@/lib/services/chore-rotation-swap-service');
+    vi.mocked(listSwaps).mockResolvedValue([{ id: 'swap-1' }] as never);
+
+    const response = await GET(new NextRequest(`http://localhost/api/chores/${CHORE_ID}/rotation/swaps?status=pending`), context);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual([{ id: 'swap-1' }]);
+    expect(listSwaps).toHaveBeenCalledWith(supabase, CHORE_ID, 'pending');
+  });
+
+  it('should reject an unknown status filter', async () => {
+    await mockAuth();
+
+    const response = await GET(new NextRequest(`http://localhost/api/chores/${CHORE_ID}/rotation/swaps?status=maybe`), context);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should validate the swap request', async () => {
+    await mockAuth();
+
+    const response = await POST(postRequest({ requested_with: 'not-a-uuid' }), context);
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toBe('Validation failed');
+  });
+
+  it('should create a swap request for the caller', async () => {
+    const supabase = await mockAuth();
+    const { requestSwap } = await import('@/lib/services/chore-rotation-swap-service');
+    vi.mocked(requestSwap).mockResolvedValue({ id: 'swap-1', status: 'pending' } as never);
+
+    const response = await POST(postRequest({ requested_with: OTHER_ID, reason: 'Away this weekend' }), context);
+
+    expect(response.status).toBe(201);
+    expect(requestSwap).toHaveBeenCalledWith(supabase, {
+      chore_id: CHORE_ID,
+      requested_by: USER_ID,
+      requested_with: OTHER_ID,
+      reason: 'Away this weekend',
+    });
+  });
+
+  it('should surface swap errors with their status', async () => {
+    await mockAuth();
+    const { requestSwap } = await import('@/lib/services/chore-rotation-swap-service');
+    vi.mocked(requestSwap).mockRejectedValue(new ChoreRotationSwapError('A swap request with this member is already pending', 409));
+
+    const response = await POST(postRequest({ requested_with: OTHER_ID }), context);
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body.error).toBe('A swap request with this member is already pending');
+  });
+
+  it('should return 500 on unexpected errors', async () => {
+    await mockAuth();
+    const { requestSwap } = await import('@/lib/services/chore-rotation-swap-service');
+    vi.mocked(requestSwap).mockRejectedValue(new Error('db down'));
+
+    const response = await POST(postRequest({ requested_with: OTHER_ID }), context);
+
+    expect(response.status).toBe(500);
+  });
+});
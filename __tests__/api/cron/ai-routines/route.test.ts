@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/cron/ai-routines/route';
+
+vi.mock('@/lib/jobs/ai-routines-job', () => ({ processDueRoutines: vi.fn() }));
+vi.mock('@/lib/security/verify-secret', () => ({ verifyCronSecret: vi.fn() }));
+vi.mock('@/lib/logger', () => ({ logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() } }));
+
+import { processDueRoutines } from '@/lib/jobs/ai-routines-job';
+import { verifyCronSecret } from '@/lib/security/verify-secret';
+
+const CRON_SECRET = 'test-cron-secret';
+
+beforeEach(() => {
+  process.env.CRON_SECRET = CRON_SECRET;
+  vi.clearAllMocks();
+});
+
+describe('/api/cron/ai-routines', () => {
+  describe('GET', () => {
+    it('returns 500 when CRON_SECRET is not configured', async () => {
+      delete process.env.CRON_SECRET;
+
+      const res = await GET(new NextRequest('http://localhost/api/cron/ai-routines'));
+      expect(res.status).toBe(500);
+      process.env.CRON_SECRET = CRON_SECRET;
+    });
+
+    it('returns 401 when cron secret is invalid', async () => {
+      vi.mocked(verifyCronSecret).mockReturnValue(false);
+
+      const res = await GET(new NextRequest('http://localhost/api/cron/ai-routines', {
+        headers: { authorization: 'Bearer wrong' },
+      }));
+      expect(res.status).toBe(401);
+      expect(processDueRoutines).not.toHaveBeenCalled();
+    });
+
+    it('returns 200 with the job result on success', async () => {
+      vi.mocked(verifyCronSecret).mockReturnValue(true);
+      vi.mocked(processDueRoutines).mockResolvedValue({
+        success: true, routinesRun: 3, draftsCreated: 2, errors: [],
+      });
+
+      const res = await GET(new NextRequest('http://localhost/api/cron/ai-routines', {
+        headers: { authorization: `Bearer ${CRON_SECRET}` },
+      }));
+      const data = await res.json();
+      expect(res.status).toBe(200);
+      expect(data.routinesRun).toBe(3);
+      expect(data.draftsCreated).toBe(2);
+    });
+
+    it('returns 500 on unexpected error', async () => {
+      vi.mocked(verifyCronSecret).mockReturnValue(true);
+      vi.mocked(processDueRoutines).mockRejectedValue(new Error('boom'));
+
+      const res = await GET(new NextRequest('http://localhost/api/cron/ai-routines', {
+        headers: { authorization: `Bearer ${CRON_SECRET}` },
+      }));
+      expect(res.status).toBe(500);
+    });
+  });
+});
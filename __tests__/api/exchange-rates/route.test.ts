@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST, PATCH, DELETE } from '@/app/api/exchange-rates/route';
+
+vi.mock('@/lib/supabase/server', () => ({ createClient: vi.fn() }));
+vi.mock('@/lib/services/currency-service', () => ({
+  getSpaceBaseCurrency: vi.fn(),
+  getExchangeRates: vi.fn(),
+  upsertExchangeRate: vi.fn(),
+  setSpaceBaseCurrency: vi.fn(),
+  deleteExchangeRate: vi.fn(),
+}));
+vi.mock('@/lib/services/authorization-service', () => ({
+  verifySpaceAccess: vi.fn(),
+}));
+vi.mock('@/lib/ratelimit', () => ({ checkGeneralRateLimit: vi.fn() }));
+vi.mock('@/lib/ratelimit-fallback', () => ({ extractIP: vi.fn(() => '127.0.0.1') }));
+vi.mock('@/lib/utils/cache-headers', () => ({ withUserDataCache: vi.fn((r) => r) }));
+vi.mock('@sentry/nextjs', () => ({ captureException: vi.fn() }));
+vi.mock('@/lib/sentry-utils', () => ({ setSentryUser: vi.fn() }));
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+const SPACE_ID = '550e8400-e29b-41d4-a716-446655440001';
+const USER_ID = '550e8400-e29b-41d4-a716-446655440002';
+
+const mockRateLimitOk = { success: true, limit: 60, remaining: 59, reset: Date.now() + 60000 };
+const mockRateLimitFail = { success: false, limit: 60, remaining: 0, reset: Date.now() + 60000 };
+
+function makeMockSupabase(userOverride?: unknown) {
+  return {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: userOverride !== undefined ? userOverride : { id: USER_ID, email: 'test@example.com' } },
+        error: null,
+      }),
+    },
+  };
+}
+
+function jsonRequest(method: string, body: unknown) {
+  return new NextRequest('http://localhost/api/exchange-rates', {
+    method,
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+async function setupAuthenticated() {
+  const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+  const { createClient } = await import('@/lib/supabase/server');
+  const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+  vi.mocked(checkGeneralRateLimit).mockResolvedValue(mockRateLimitOk);
+  vi.mocked(createClient).mockResolvedValue(makeMockSupabase() as never);
+  vi.mocked(verifySpaceAccess).mockResolvedValue(undefined as never);
+}
+
+describe('/api/exchange-rates', () => {
+  beforeEach(() => { vi.clearAllMocks(); });
+
+  describe('GET', () => {
+    it('returns 429 when rate limit exceeded', async () => {
+      const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+      vi.mocked(checkGeneralRateLimit).mockResolvedValue(mockRateLimitFail);
+
+      const res = await GET(new NextRequest(`http://localhost/api/exchange-rates?space_id=${SPACE_ID}`));
+
+      expect(res.status).toBe(429);
+    });
+
+    it('returns 401 when not authenticated', async () => {
+      const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+      const { createClient } = await import('@/lib/supabase/server');
+      vi.mocked(checkGeneralRateLimit).mockResolvedValue(mockRateLimitOk);
+      vi.mocked(createClient).mockResolvedValue(makeMockSupabase(null) as never);
+
+      const res = await GET(new NextRequest(`http://localhost/api/exchange-rates?space_id=${SPACE_ID}`));
+
+      expect(res.status).toBe(401);
+    });
+
+    it('returns 400 when space_id is missing', async () => {
+      await setupAuthenticated();
+
+      const res = await GET(new NextRequest('http://localhost/api/exchange-rates'));
+
+      expect(res.status).toBe(400);
+    });
+
+    it('returns 403 when user lacks space access', async () => {
+      await setupAuthenticated();
+      const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+      vi.mocked(verifySpaceAccess).mockRejectedValue(new Error('denied'));
+
+      const res = await GET(new NextRequest(`http://localhost/api/exchange-rates?space_id=${SPACE_ID}`));
+
+      expect(res.status).toBe(403);
+    });
+
+    it('returns base currency and rates', async () => {
+      await setupAuthenticated();
+      const { getSpaceBaseCurrency, getExchangeRates } = await import('@/lib/services/currency-service');
+      vi.mocked(getSpaceBaseCurrency).mockResolvedValue('EUR');
+      vi.mocked(getExchangeRates).mockResolvedValue([]);
+
+      const res = await GET(new NextRequest(`http://localhost/api/exchange-rates?space_id=${SPACE_ID}`));
+      const data = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(data.data).toEqual({ base_currency: 'EUR', rates: [] });
+    });
+  });
+
+  describe('POST', () => {
+    it('returns 400 for identical currencies', async () => {
+      await setupAuthenticated();
+
+      const res = await POST(jsonRequest('POST', {
+        space_id: SPACE_ID, base_currency: 'USD', quote_currency: 'usd', rate: 1,
+      }));
+
+      expect(res.status).toBe(400);
+    });
+
+    it('saves a rate with the current user as creator', async () => {
+      await setupAuthenticated();
+      const { upsertExchangeRate } = await import('@/lib/services/currency-service');
+      vi.mocked(upsertExchangeRate).mockResolvedValue({ id: 'rate-1' } as never);
+
+      const res = await POST(jsonRequest('POST', {
+        space_id: SPACE_ID, base_currency: 'eur', quote_currency: 'USD', rate: 1.1,
+      }));
+
+      expect(res.status).toBe(200);
+      expect(upsertExchangeRate).toHaveBeenCalledWith(
+        expect.objectContaining({ base_currency: 'EUR', quote_currency: 'USD', created_by: USER_ID }),
+        expect.anything()
+      );
+    });
+
+    it('returns 500 when the service fails', async () => {
+      await setupAuthenticated();
+      const { upsertExchangeRate } = await import('@/lib/services/currency-service');
+      vi.mocked(upsertExchangeRate).mockRejectedValue(new Error('DB down'));
+
+      const res = await POST(jsonRequest('POST', {
+        space_id: SPACE_ID, base_currency: 'EUR', quote_currency: 'USD', rate: 1.1,
+      }));
+
+      expect(res.status).toBe(500);
+    });
+  });
+
+  describe('PATCH', () => {
+    it('returns 400 for an invalid currency', async () => {
+      await setupAuthenticated();
+
+      const res = await PATCH(jsonRequest('PATCH', { space_id: SPACE_ID, base_currency: 'euro' }));
+
+      expect(res.status).toBe(400);
+    });
+
+    it('updates the base currency', async () => {
+      await setupAuthenticated();
+      const { setSpaceBaseCurrency } = await import('@/lib/services/currency-service');
+
+      const res = await PATCH(jsonRequest('PATCH', { space_id: SPACE_ID, base_currency: 'eur' }));
+      const data = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(data.data.base_currency).toBe('EUR');
+      expect(setSpaceBaseCurrency).toHaveBeenCalledWith(SPACE_ID, 'EUR', expect.anything());
+    });
+  });
+
+  describe('DELETE', () => {
+    it('returns 400 when id is missing', async () => {
+      await setupAuthenticated();
+
+      const res = await DELETE(new NextRequest(`http://localhost/api/exchange-rates?space_id=${SPACE_ID}`, { method: 'DELETE' }));
+
+      expect(res.status).toBe(400);
+    });
+
+    it('deletes the rate', async () => {
+      await setupAuthenticated();
+      const { deleteExchangeRate } = await import('@/lib/services/currency-service');
+
+      const res = await DELETE(new NextRequest(`http://localhost/api/exchange-rates?space_id=${SPACE_ID}&id=rate-1`, { method: 'DELETE' }));
+
+      expect(res.status).toBe(200);
+      expect(deleteExchangeRate).toHaveBeenCalledWith(SPACE_ID, 'rate-1', expect.anything());
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, PUT } from '@/app/api/expenses/[id]/item-splits/route';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/services/budgets-service', () => ({
+  projectsService: {
+    getExpenseById: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/services/expense-splitting-service', () => ({
+  createItemizedExpenseSplits: vi.fn(),
+  getExpenseSplitItems: vi.fn(),
+  getExpenseSplits: vi.fn(),
+}));
+
+vi.mock('@/lib/services/authorization-service', () => ({
+  verifyResourceAccess: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@sentry/nextjs', () => ({
+  captureException: vi.fn(),
+}));
+
+vi.mock('@/lib/sentry-utils', () => ({
+  setSentryUser: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+const EXPENSE_ID = '00000000-0000-4000-8000-000000000010';
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const PARTNER_ID = '00000000-0000-4000-8000-000000000003';
+const SPACE_ID = '00000000-0000-4000-8000-000000000002';
+
+const VALID_BODY = {
+  participants: [USER_ID, PARTNER_ID],
+  items: [
+    { name: 'Milk', amount: 4, assigned_to: [USER_ID] },
+    { name: 'Wine', amount: 12, assigned_to: [PARTNER_ID] },
+    { name: 'Bread', amount: 4, assigned_to: 'shared' },
+  ],
+  tax_amount: 2,
+  tip_amount: 1,
+};
+
+function makeParams(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+function mockRateLimitOk() {
+  return { success: true, limit: 60, remaining: 59, reset: Date.now() + 60000 };
+}
+
+function mockClient(memberIds: string[] = [USER_ID, PARTNER_ID]) {
+  const membersQuery = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    in: vi.fn().mockResolvedValue({ data: memberIds.map((user_id) => ({ user_id })), error: null }),
+  };
+  return {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: USER_ID } },
+        error: null,
+      }),
+    },
+    from: vi.fn(() => membersQuery),
+  };
+}
+
+function makeRequest(method: string, body?: unknown) {
+  return new NextRequest(`http://localhost/api/expenses/${EXPENSE_ID}/item-splits`, {
+    method,
+    ...(body !== undefined && {
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    }),
+  });
+}
+
+async function setupAuthorized(client = mockClient()) {
+  const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+  const { createClient } = await import('@/lib/supabase/server');
+  const { projectsService } = await import('@/lib/services/budgets-service');
+  const { verifyResourceAccess } = await import('@/lib/services/authorization-service');
+
+  vi.mocked(checkGeneralRateLimit).mockResolvedValue(mockRateLimitOk());
+  vi.mocked(createClient).mockResolvedValue(client as any);
+  vi.mocked(projectsService.getExpenseById).mockResolvedValue({ id: EXPENSE_ID, space_id: SPACE_ID } as any);
+  vi.mocked(verifyResourceAccess).mockResolvedValue(undefined as any);
+  return client;
+}
+
+describe('/api/expenses/[id]/item-splits', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('GET', () => {
+    it('should return 429 when rate limit is exceeded', async () => {
+      const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+      vi.mocked(checkGeneralRateLimit).mockResolvedValue({
+        success: false,
+        limit: 60,
+        remaining: 0,
+        reset: Date.now() + 60000,
+      });
+
+      const response = await GET(makeRequest('GET'), makeParams(EXPENSE_ID));
+
+      expect(response.status).toBe(429);
+    });
+
+    it('should return 401 when not authenticated', async () => {
+      const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+      const { createClient } = await import('@/lib/supabase/server');
+
+      vi.mocked(checkGeneralRateLimit).mockResolvedValue(mockRateLimitOk());
+      vi.mocked(createClient).mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({ data: { user: null }, error: { message: 'Not authenticated' } }),
+        },
+      } as any);
+
+      const response = await GET(makeRequest('GET'), makeParams(EXPENSE_ID));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 404 when expense is not found', async () => {
+      await setupAuthorized();
+      const { projectsService } = await import('@/lib/services/budgets-service');
+      vi.mocked(projectsService.getExpenseById).mockResolvedValue(null);
+
+      const response = await GET(makeRequest('GET'), makeParams(EXPENSE_ID));
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 403 when user lacks access', async () => {
+      await setupAuthorized();
+      const { verifyResourceAccess } = await import('@/lib/services/authorization-service');
+      vi.mocked(verifyResourceAccess).mockRejectedValue(new Error('Forbidden'));
+
+      const response = await GET(makeRequest('GET'), makeParams(EXPENSE_ID));
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should return items and splits', async () => {
+      await setupAuthorized();
+      const service = await import('@/lib/services/expense-splitting-service');
+      vi.mocked(service.getExpenseSplitItems).mockResolvedValue([{ id: 'item-1' }] as any);
+      vi.mocked(service.getExpenseSplits).mockResolvedValue([{ id: 'split-1' }] as any);
+
+      const response = await GET(makeRequest('GET'), makeParams(EXPENSE_ID));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toEqual({ items: [{ id: 'item-1' }], splits: [{ id: 'split-1' }] });
+    });
+  });
+
+  describe('PUT', () => {
+    it('should return 400 for invalid input', async () => {
+      await setupAuthorized();
+
+      const response = await PUT(makeRequest('PUT', { participants: [USER_ID], items: [] }), makeParams(EXPENSE_ID));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Validation failed');
+    });
+
+    it('should return 400 when an item is assigned to a non-participant', async () => {
+      await setupAuthorized();
+
+      const response = await PUT(
+        makeRequest('PUT', {
+          participants: [USER_ID],
+          items: [{ name: 'Wine', amount: 12, assigned_to: [PARTNER_ID] }],
+        }),
+        makeParams(EXPENSE_ID)
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 when a participant is not a space member', async () => {
+      await setupAuthorized(mockClient([USER_ID]));
+      const { createItemizedExpenseSplits } = await import('@/lib/services/expense-splitting-service');
+
+      const response = await PUT(makeRequest('PUT', VALID_BODY), makeParams(EXPENSE_ID));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('members of the space');
+      expect(createItemizedExpenseSplits).not.toHaveBeenCalled();
+    });
+
+    it('should replace the splits of the expense', async () => {
+      const client = await setupAuthorized();
+      const { createItemizedExpenseSplits } = await import('@/lib/services/expense-splitting-service');
+      vi.mocked(createItemizedExpenseSplits).mockResolvedValue([{ id: 'split-1' }] as any);
+
+      const response = await PUT(makeRequest('PUT', VALID_BODY), makeParams(EXPENSE_ID));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.success).toBe(true);
+      expect(createItemizedExpenseSplits).toHaveBeenCalledWith(
+        EXPENSE_ID,
+        expect.objectContaining({ participants: VALID_BODY.participants, tax_amount: 2 }),
+        client
+      );
+    });
+
+    it('should return 500 when the split fails', async () => {
+      await setupAuthorized();
+      const { createItemizedExpenseSplits } = await import('@/lib/services/expense-splitting-service');
+      vi.mocked(createItemizedExpenseSplits).mockRejectedValue(new Error('DB error'));
+
+      const response = await PUT(makeRequest('PUT', VALID_BODY), makeParams(EXPENSE_ID));
+
+      expect(response.status).toBe(500);
+    });
+  });
+});
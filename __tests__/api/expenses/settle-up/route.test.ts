@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/expenses/settle-up/route';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase/admin', () => ({
+  supabaseAdmin: { rpc: vi.fn() },
+}));
+
+vi.mock('@/lib/services/expense-splitting-service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/services/expense-splitting-service')>();
+  return {
+    matchesSettleUpPlan: actual.matchesSettleUpPlan,
+    getSettleUpPlan: vi.fn(),
+    recordSettleUp: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/services/authorization-service', () => ({
+  verifySpaceAccess: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@sentry/nextjs', () => ({
+  captureException: vi.fn(),
+}));
+
+vi.mock('@/lib/sentry-utils', () => ({
+  setSentryUser: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const PARTNER_ID = '00000000-0000-4000-8000-000000000003';
+const SPACE_ID = '00000000-0000-4000-8000-000000000002';
+
+const PLAN = {
+  space_id: SPACE_ID,
+  currency: 'USD',
+  balances: [],
+  transfers: [{ from_user_id: PARTNER_ID, to_user_id: USER_ID, amount: 25 }],
+  split_ids: ['split-1'],
+  expense_ids: ['exp-1'],
+  unconverted_currencies: [],
+};
+
+const VALID_BODY = {
+  space_id: SPACE_ID,
+  transfers: [{ from_user_id: PARTNER_ID, to_user_id: USER_ID, amount: 25 }],
+  payment_method: 'Venmo',
+};
+
+function mockRateLimitOk() {
+  return { success: true, limit: 60, remaining: 59, reset: Date.now() + 60000 };
+}
+
+function mockClient() {
+  return {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: USER_ID } },
+        error: null,
+      }),
+    },
+  };
+}
+
+function makeRequest(body: unknown) {
+  return new NextRequest('http://localhost/api/expenses/settle-up', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+async function setupAuthorized(client = mockClient()) {
+  const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+  const { createClient } = await import('@/lib/supabase/server');
+  const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+  const { getSettleUpPlan } = await import('@/lib/services/expense-splitting-service');
+
+  vi.mocked(checkGeneralRateLimit).mockResolvedValue(mockRateLimitOk());
+  vi.mocked(createClient).mockResolvedValue(client as any);
+  vi.mocked(verifySpaceAccess).mockResolvedValue(undefined);
+  vi.mocked(getSettleUpPlan).mockResolvedValue(PLAN);
+  return client;
+}
+
+describe('/api/expenses/settle-up', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('POST', () => {
+    it('should return 429 when rate limit is exceeded', async () => {
+      const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+      vi.mocked(checkGeneralRateLimit).mockResolvedValue({ ...mockRateLimitOk(), success: false });
+
+      const response = await POST(makeRequest(VALID_BODY));
+
+      expect(response.status).toBe(429);
+    });
+
+    it('should return 401 when not authenticated', async () => {
+      const client = mockClient();
+      client.auth.getUser.mockResolvedValue({ data: { user: null }, error: null } as any);
+      await setupAuthorized(client);
+
+      const response = await POST(makeRequest(VALID_BODY));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 400 for invalid transfers', async () => {
+      await setupAuthorized();
+
+      const response = await POST(makeRequest({ space_id: SPACE_ID, transfers: [] }));
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 403 when the user is not a member of the space', async () => {
+      await setupAuthorized();
+      const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+      vi.mocked(verifySpaceAccess).mockRejectedValue(new Error('Forbidden'));
+
+      const response = await POST(makeRequest(VALID_BODY));
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should return 409 when the transfers do not match the server plan', async () => {
+      await setupAuthorized();
+      const { recordSettleUp } = await import('@/lib/services/expense-splitting-service');
+
+      const response = await POST(makeRequest({
+        ...VALID_BODY,
+        transfers: [{ from_user_id: PARTNER_ID, to_user_id: USER_ID, amount: 250 }],
+      }));
+
+      expect(response.status).toBe(409);
+      expect(recordSettleUp).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when a planned split was settled in the meantime', async () => {
+      await setupAuthorized();
+      const { recordSettleUp } = await import('@/lib/services/expense-splitting-service');
+      vi.mocked(recordSettleUp).mockRejectedValue({ code: '40001', message: 'Balances changed' });
+
+      const response = await POST(makeRequest(VALID_BODY));
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should record the server plan with the service-role client', async () => {
+      await setupAuthorized();
+      const { recordSettleUp } = await import('@/lib/services/expense-splitting-service');
+      const { supabaseAdmin } = await import('@/lib/supabase/admin');
+      vi.mocked(recordSettleUp).mockResolvedValue([{ id: 'settle-1' }] as any);
+
+      const response = await POST(makeRequest(VALID_BODY));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toEqual([{ id: 'settle-1' }]);
+      expect(recordSettleUp).toHaveBeenCalledWith(
+        expect.objectContaining({
+          space_id: SPACE_ID,
+          transfers: PLAN.transfers,
+          split_ids: ['split-1'],
+          expense_ids: ['exp-1'],
+          currency: 'USD',
+          payment_method: 'Venmo',
+          created_by: USER_ID,
+        }),
+        supabaseAdmin
+      );
+    });
+
+    it('should return 500 when recording fails', async () => {
+      await setupAuthorized();
+      const { recordSettleUp } = await import('@/lib/services/expense-splitting-service');
+      vi.mocked(recordSettleUp).mockRejectedValue(new Error('Database error'));
+
+      const response = await POST(makeRequest(VALID_BODY));
+
+      expect(response.status).toBe(500);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/mcp/route';
+import { McpConfigurationError } from '@/lib/services/mcp/types';
+
+vi.mock('@/lib/supabase/admin', () => ({
+  supabaseAdmin: {},
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkMcpRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@/lib/services/ai/ai-access-guard', () => ({
+  validateAIAccess: vi.fn(),
+  buildAIAccessDeniedResponse: vi.fn(() => new Response(JSON.stringify({ error: 'Upgrade required' }), { status: 403 })),
+}));
+
+vi.mock('@/lib/services/mcp/tokens', () => ({
+  authenticateMcpRequest: vi.fn(),
+}));
+
+vi.mock('@/lib/services/mcp/user-client', () => ({
+  createUserScopedClient: vi.fn(),
+}));
+
+vi.mock('@/lib/services/mcp/server', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/services/mcp/server')>();
+  return {
+    countToolCalls: actual.countToolCalls,
+    handleMcpPayload: vi.fn(),
+  };
+});
+
+vi.mock('@sentry/nextjs', () => ({
+  captureException: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+const PRINCIPAL = { tokenId: 'tok-1', userId: 'user-1', spaceId: 'space-1', scope: 'read' };
+const USER_CLIENT = { from: vi.fn() };
+
+function mcpRequest(body: string) {
+  return new NextRequest('http://localhost/api/mcp', {
+    method: 'POST',
+    headers: { authorization: 'Bearer rowan_mcp_abc', 'content-type': 'application/json' },
+    body,
+  });
+}
+
+describe('/api/mcp', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { checkMcpRateLimit } = await import('@/lib/ratelimit');
+    const { authenticateMcpRequest } = await import('@/lib/services/mcp/tokens');
+    const { createUserScopedClient } = await import('@/lib/services/mcp/user-client');
+    const { validateAIAccess } = await import('@/lib/services/ai/ai-access-guard');
+    vi.mocked(checkMcpRateLimit).mockResolvedValue({ success: true } as never);
+    vi.mocked(authenticateMcpRequest).mockResolvedValue(PRINCIPAL as never);
+    vi.mocked(createUserScopedClient).mockReturnValue(USER_CLIENT as never);
+    vi.mocked(validateAIAccess).mockResolvedValue({ allowed: true } as never);
+  });
+
+  it('should return 429 when rate limited', async () => {
+    const { checkMcpRateLimit } = await import('@/lib/ratelimit');
+    vi.mocked(checkMcpRateLimit).mockResolvedValue({ success: false } as never);
+
+    const response = await POST(mcpRequest('{}'));
+
+    expect(response.status).toBe(429);
+  });
+
+  it('should return 401 with a Bearer challenge for invalid tokens', async () => {
+    const { authenticateMcpRequest } = await import('@/lib/services/mcp/tokens');
+    vi.mocked(authenticateMcpRequest).mockResolvedValue(null);
+
+    const response = await POST(mcpRequest('{}'));
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('WWW-Authenticate')).toContain('Bearer');
+    expect(authenticateMcpRequest).toHaveBeenCalledWith({}, 'Bearer rowan_mcp_abc');
+  });
+
+  it('should return 503 when the JWT secret is missing', async () => {
+    const { createUserScopedClient } = await import('@/lib/services/mcp/user-client');
+    vi.mocked(createUserScopedClient).mockImplementation(() => {
+      throw new McpConfigurationError('SUPABASE_JWT_SECRET environment variable is not set');
+    });
+
+    const response = await POST(mcpRequest('{}'));
+
+    expect(response.status).toBe(503);
+  });
+
+  it('should apply the AI tier check without the token budget', async () => {
+    const { validateAIAccess } = await import('@/lib/services/ai/ai-access-guard');
+    vi.mocked(validateAIAccess).mockResolvedValue({ allowed: false, statusCode: 403 } as never);
+
+    const response = await POST(mcpRequest('{}'));
+
+    expect(response.status).toBe(403);
+    expect(validateAIAccess).toHaveBeenCalledWith(USER_CLIENT, 'user-1', 'space-1', false);
+  });
+
+  it('should return a JSON-RPC parse error for malformed bodies', async () => {
+    const response = await POST(mcpRequest('{not json'));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error.code).toBe(-32700);
+  });
+
+  it('should answer messages with the user-scoped session', async () => {
+    const { handleMcpPayload } = await import('@/lib/services/mcp/server');
+    vi.mocked(handleMcpPayload).mockResolvedValue({ jsonrpc: '2.0', id: 1, result: {} });
+
+    const response = await POST(mcpRequest('{"jsonrpc":"2.0","id":1,"method":"ping"}'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+    expect(handleMcpPayload).toHaveBeenCalledWith(
+      { jsonrpc: '2.0', id: 1, method: 'ping' },
+      { principal: PRINCIPAL, supabase: USER_CLIENT }
+    );
+  });
+
+  it('should count every tool call in a batch against the rate limit', async () => {
+    const { checkMcpRateLimit } = await import('@/lib/ratelimit');
+    const { handleMcpPayload } = await import('@/lib/services/mcp/server');
+    vi.mocked(checkMcpRateLimit)
+      .mockResolvedValueOnce({ success: true } as never)
+      .mockResolvedValueOnce({ success: true } as never)
+      .mockResolvedValueOnce({ success: false } as never);
+    const call = (id: number) => ({ jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'list_tasks' } });
+
+    const response = await POST(mcpRequest(JSON.stringify([call(1), call(2), call(3), { jsonrpc: '2.0', id: 4, method: 'ping' }])));
+
+    expect(response.status).toBe(429);
+    expect(checkMcpRateLimit).toHaveBeenCalledTimes(3);
+    expect(handleMcpPayload).not.toHaveBeenCalled();
+  });
+
+  it('should return 202 when there is nothing to answer', async () => {
+    const { handleMcpPayload } = await import('@/lib/services/mcp/server');
+    vi.mocked(handleMcpPayload).mockResolvedValue(null);
+
+    const response = await POST(mcpRequest('{"jsonrpc":"2.0","method":"notifications/initialized"}'));
+
+    expect(response.status).toBe(202);
+  });
+
+  it('should return 500 when handling fails', async () => {
+    const { handleMcpPayload } = await import('@/lib/services/mcp/server');
+    vi.mocked(handleMcpPayload).mockRejectedValue(new Error('boom'));
+
+    const response = await POST(mcpRequest('{"jsonrpc":"2.0","id":1,"method":"ping"}'));
+
+    expect(response.status).toBe(500);
+  });
+
+  it('should not offer an event stream', async () => {
+    const response = await GET();
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get('Allow')).toBe('POST');
+  });
+});
@@ -11,10 +11,14 @@ vi.mock('@/lib/utils/file-validation', () => ({
   isFormatAllowed: vi.fn(),
   ALLOWED_RECEIPT_FORMATS: ['jpeg', 'png', 'webp', 'tiff', 'bmp'],
 }));
-const { mockGenerateContent } = vi.hoisted(() => {
-  return { mockGenerateContent: vi.fn() };
+const { mockGenerateContent, mockTesseractRecognize } = vi.hoisted(() => {
+  return { mockGenerateContent: vi.fn(), mockTesseractRecognize: vi.fn() };
 });
 
+vi.mock('tesseract.js', () => ({
+  createWorker: vi.fn(async () => ({ recognize: mockTesseractRecognize, terminate: vi.fn() })),
+}));
+
 vi.mock('@google/generative-ai', () => ({
   GoogleGenerativeAI: vi.fn(function() {
     return {
@@ -50,8 +54,20 @@ describe('/api/ocr/scan-receipt', () => {
     vi.clearAllMocks();
     // Default: GOOGLE_GEMINI_API_KEY is present
     process.env.GOOGLE_GEMINI_API_KEY = 'test-key';
+    delete process.env.OCR_PROVIDER;
   });
 
+  async function setupValidUpload() {
+    const { createClient } = await import('@/lib/supabase/server');
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    const { validateImageMagicBytes, isFormatAllowed } = await import('@/lib/utils/file-validation');
+
+    vi.mocked(createClient).mockResolvedValue(makeSupabase({ id: 'user-1' }) as any);
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue(makeRateLimit(true));
+    vi.mocked(validateImageMagicBytes).mockResolvedValue({ valid: true, format: 'jpeg' });
+    vi.mocked(isFormatAllowed).mockReturnValue(true);
+  }
+
   describe('POST', () => {
     it('returns 401 when user is not authenticated', async () => {
       const { createClient } = await import('@/lib/supabase/server');
@@ -161,6 +177,7 @@ describe('/api/ocr/scan-receipt', () => {
     });
 
     it('returns OCR result on successful scan', async () => {
+      process.env.OCR_PROVIDER = 'gemini';
       const { createClient } = await import('@/lib/supabase/server');
       const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
       const { validateImageMagicBytes, isFormatAllowed } = await import('@/lib/utils/file-validation');
@@ -195,5 +212,68 @@ describe('/api/ocr/scan-receipt', () => {
       expect(data.total_amount).toBe(45.99);
       expect(data.category).toBe('Groceries');
     });
+
+    it('uses the local tesseract provider by default and returns line items', async () => {
+      await setupValidUpload();
+      mockTesseractRecognize.mockResolvedValue({
+        data: {
+          text: '',
+          confidence: 90,
+          blocks: [{
+            paragraphs: [{
+              lines: [
+                { text: 'Corner Shop', confidence: 92 },
+                { text: '2026-10-19', confidence: 90 },
+                { text: 'Soap 2.99', confidence: 91 },
+                { text: '2 x Sponge 3.00', confidence: 55 },
+                { text: 'Subtotal 5.99', confidence: 90 },
+                { text: 'Tax 0.48', confidence: 90 },
+                { text: 'Total 6.47', confidence: 90 },
+              ],
+            }],
+          }],
+        },
+      });
+
+      const formData = new FormData();
+      formData.append('image', makeImageFile());
+
+      const res = await POST(new NextRequest('http://localhost/api/ocr/scan-receipt', {
+        method: 'POST',
+        body: formData,
+      }));
+      const data = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(mockGenerateContent).not.toHaveBeenCalled();
+      expect(data.provider).toBe('tesseract');
+      expect(data.merchant_name).toBe('Corner Shop');
+      expect(data.total_amount).toBe(6.47);
+      expect(data.tax_amount).toBe(0.48);
+      expect(data.items).toHaveLength(2);
+      expect(data.items[1]).toMatchObject({ name: 'Sponge', quantity: 2, unit_price: 1.5 });
+      expect(data.field_confidence.total_amount).toBe(100);
+      expect(data.low_confidence_fields).toContain('items[1]');
+    });
+
+    it('returns a fallback response when the provider output cannot be parsed', async () => {
+      process.env.OCR_PROVIDER = 'gemini';
+      await setupValidUpload();
+      mockGenerateContent.mockResolvedValue({
+        response: { text: () => 'not json' },
+      });
+
+      const formData = new FormData();
+      formData.append('image', makeImageFile());
+
+      const res = await POST(new NextRequest('http://localhost/api/ocr/scan-receipt', {
+        method: 'POST',
+        body: formData,
+      }));
+      const data = await res.json();
+
+      expect(res.status).toBe(500);
+      expect(data.fallback).toBe(true);
+    });
   });
 });
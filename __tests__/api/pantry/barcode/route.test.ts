@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/pantry/barcode/route';
+
+// Mock dependencies
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/services/authorization-service', () => ({
+  verifySpaceAccess: vi.fn(),
+}));
+
+vi.mock('@/lib/services/product-lookup-service', () => ({
+  lookupOpenFoodFacts: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@/lib/sentry-utils', () => ({
+  setSentryUser: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+const SPACE_ID = 'space-123';
+
+function mockSupabase(previous: Record<string, unknown> | null, user: { id: string } | null = { id: 'user-123' }) {
+  const chain = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    order: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockReturnThis(),
+    maybeSingle: vi.fn().mockResolvedValue({ data: previous, error: null }),
+  };
+  return {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({ data: { user }, error: user ? null : new Error('No session') }),
+    },
+    from: vi.fn(() => chain),
+  };
+}
+
+function request(code: string) {
+  return new NextRequest(`http://localhost/api/pantry/barcode?spaceId=${SPACE_ID}&code=${code}`);
+}
+
+describe('/api/pantry/barcode', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({
+      success: true,
+      limit: 60,
+      remaining: 59,
+      reset: Date.now() + 60000,
+    });
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    const { createClient } = await import('@/lib/supabase/server');
+    vi.mocked(createClient).mockResolvedValue(mockSupabase(null, null) as never);
+
+    const response = await GET(request('5000112548167'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject malformed barcodes', async () => {
+    const { createClient } = await import('@/lib/supabase/server');
+    vi.mocked(createClient).mockResolvedValue(mockSupabase(null) as never);
+
+    const response = await GET(request('12%3B'));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 403 without access to the space', async () => {
+    const { createClient } = await import('@/lib/supabase/server');
+    const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+    vi.mocked(createClient).mockResolvedValue(mockSupabase(null) as never);
+    vi.mocked(verifySpaceAccess).mockRejectedValue(new Error('Not a member'));
+
+    const response = await GET(request('5000112548167'));
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should reuse a product the space has stocked before', async () => {
+    const { createClient } = await import('@/lib/supabase/server');
+    const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+    const { lookupOpenFoodFacts } = await import('@/lib/services/product-lookup-service');
+    vi.mocked(createClient).mockResolvedValue(mockSupabase({
+      name: 'Oat milk',
+      quantity: 1,
+      unit: 'l',
+      category: 'dairy',
+      location: 'fridge',
+    }) as never);
+    vi.mocked(verifySpaceAccess).mockResolvedValue(undefined);
+
+    const response = await GET(request('5000112548167'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toMatchObject({ barcode: '5000112548167', name: 'Oat milk', location: 'fridge', source: 'pantry' });
+    expect(lookupOpenFoodFacts).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to Open Food Facts', async () => {
+    const { createClient } = await import('@/lib/supabase/server');
+    const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+    const { lookupOpenFoodFacts } = await import('@/lib/services/product-lookup-service');
+    vi.mocked(createClient).mockResolvedValue(mockSupabase(null) as never);
+    vi.mocked(verifySpaceAccess).mockResolvedValue(undefined);
+    vi.mocked(lookupOpenFoodFacts).mockResolvedValue({
+      barcode: '5000112548167',
+      name: 'Cola',
+      category: 'beverages',
+      location: 'pantry',
+      source: 'open_food_facts',
+    });
+
+    const response = await GET(request('5000112548167'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.name).toBe('Cola');
+    expect(lookupOpenFoodFacts).toHaveBeenCalledWith('5000112548167');
+  });
+
+  it('should return 404 for unknown products', async () => {
+    const { createClient } = await import('@/lib/supabase/server');
+    const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+    const { lookupOpenFoodFacts } = await import('@/lib/services/product-lookup-service');
+    vi.mocked(createClient).mockResolvedValue(mockSupabase(null) as never);
+    vi.mocked(verifySpaceAccess).mockResolvedValue(undefined);
+    vi.mocked(lookupOpenFoodFacts).mockResolvedValue(null);
+
+    const response = await GET(request('5000112548167'));
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { NextRequest } from 'next/server';
+import fs from 'fs';
+import path from 'path';
 import { POST } from '@/app/api/recipes/parse/route';
 
 vi.mock('@/lib/supabase/server', () => ({
@@ -52,6 +54,27 @@ vi.mock('@/lib/logger', () => ({
 
 const USER_ID = '00000000-0000-4000-8000-000000000001';
 
+const FIXTURES_DIR = path.join(__dirname, '../../../lib/services/recipe-import/fixtures');
+
+async function allowRequest() {
+  const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+  const { createClient } = await import('@/lib/supabase/server');
+  const { canAccessFeature } = await import('@/lib/services/feature-access-service');
+
+  vi.mocked(checkGeneralRateLimit).mockResolvedValue({
+    success: true, limit: 60, remaining: 59, reset: Date.now() + 60000,
+  });
+  vi.mocked(createClient).mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: USER_ID } },
+        error: null,
+      }),
+    },
+  } as any);
+  vi.mocked(canAccessFeature).mockResolvedValue({ allowed: true, tier: 'pro' });
+}
+
 const validRecipeJson = JSON.stringify({
   name: 'Spaghetti Carbonara',
   description: 'Classic Italian pasta',
@@ -152,7 +175,7 @@ describe('/api/recipes/parse', () => {
     expect(response.status).toBe(403);
   });
 
-  it('should return 400 when neither text nor image provided', async () => {
+  it('should return 400 when no url, text or image provided', async () => {
     const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
     const { createClient } = await import('@/lib/supabase/server');
     const { canAccessFeature } = await import('@/lib/services/feature-access-service');
@@ -181,7 +204,7 @@ describe('/api/recipes/parse', () => {
     const data = await response.json();
 
     expect(response.status).toBe(400);
-    expect(data.error).toBe('Please provide either text or an image');
+    expect(data.error).toBe('Please provide a URL, text or an image');
   });
 
   it('should return 400 when text exceeds maximum length', async () => {
@@ -254,4 +277,40 @@ describe('/api/recipes/parse', () => {
     expect(data.recipe.name).toBe('Spaghetti Carbonara');
     expect(data.recipe.ingredients).toHaveLength(2);
   });
+
+  it('should read structured data from saved page HTML without calling the AI', async () => {
+    await allowRequest();
+
+    const request = new NextRequest('http://localhost/api/recipes/parse', {
+      method: 'POST',
+      body: JSON.stringify({
+        html: fs.readFileSync(path.join(FIXTURES_DIR, 'json-ld-graph.html'), 'utf8'),
+        url: 'https://kitchen.example.com/weeknight-lasagne/',
+      }),
+    });
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.source).toBe('json-ld');
+    expect(data.recipe.name).toBe('Weeknight Lasagne');
+    expect(data.recipe.source_url).toBe('https://kitchen.example.com/weeknight-lasagne/');
+    expect(mockGenerateContent).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for a URL on a private network', async () => {
+    await allowRequest();
+
+    const request = new NextRequest('http://localhost/api/recipes/parse', {
+      method: 'POST',
+      body: JSON.stringify({ url: 'http://192.168.1.10/recipe' }),
+    });
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toContain('private or internal networks');
+  });
 });
@@ -32,7 +32,9 @@ vi.mock('@/lib/logger', () => ({
 
 vi.mock('@/lib/services/ingredient-parser', () => ({
   generateShoppingList: vi.fn(),
+  subtractPantryStock: vi.fn((ingredients: unknown[]) => ({ toBuy: ingredients, inPantry: [] })),
   categorizeIngredient: vi.fn((name: string) => 'Other'),
+  getServingsScale: vi.fn(() => 1),
 }));
 
 vi.mock('@/lib/services/email-service', () => ({
@@ -298,10 +300,11 @@ describe('/api/shopping/generate-from-meals', () => {
       callIndex++;
       if (callIndex === 1) return createChainMock({ data: membership, error: null }); // membership
       if (callIndex === 2) return createChainMock({ data: meals, error: null }); // meals
-      if (callIndex === 3) return createChainMock({ data: shoppingList, error: null }); // create list
-      if (callIndex === 4) return createChainMock({ error: null }); // create items
-      if (callIndex === 5) return createChainMock({ data: { name: 'My Space' }, error: null }); // space
-      if (callIndex === 6) return createChainMock({ data: { name: 'John', email: 'john@example.com' }, error: null }); // user
+      if (callIndex === 3) return createChainMock({ data: [], error: null }); // pantry
+      if (callIndex === 4) return createChainMock({ data: shoppingList, error: null }); // create list
+      if (callIndex === 5) return createChainMock({ error: null }); // create items
+      if (callIndex === 6) return createChainMock({ data: { name: 'My Space' }, error: null }); // space
+      if (callIndex === 7) return createChainMock({ data: { name: 'John', email: 'john@example.com' }, error: null }); // user
       return createChainMock({ data: null, error: null }); // prefs
     });
 
@@ -333,4 +336,61 @@ describe('/api/shopping/generate-from-meals', () => {
     expect(data.data.recipeCount).toBe(1);
     expect(data.message).toBe('Shopping list generated successfully');
   });
+
+  it('should not create a list when the pantry covers every ingredient', async () => {
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    const { createClient } = await import('@/lib/supabase/server');
+    const { generateShoppingList, subtractPantryStock } = await import('@/lib/services/ingredient-parser');
+
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({
+      success: true,
+      limit: 10,
+      remaining: 9,
+      reset: Date.now() + 60000,
+    });
+
+    const membership = { space_id: VALID_SPACE_ID, user_id: 'user-123', role: 'member' };
+    const meals = [
+      { id: VALID_MEAL_ID_1, space_id: VALID_SPACE_ID, recipes: { id: 'recipe-1', name: 'Pasta', ingredients: ['200g pasta'] } },
+    ];
+    const pasta = { name: 'pasta', amount: 200, unit: 'g', recipes: [{ id: 'recipe-1', name: 'Pasta' }] };
+    const pantry = [{ name: 'pasta', quantity: 500, unit: 'g' }];
+
+    vi.mocked(generateShoppingList).mockReturnValue([pasta]);
+    vi.mocked(subtractPantryStock).mockReturnValueOnce({ toBuy: [], inPantry: [pasta] });
+
+    const chains: ReturnType<typeof createChainMock>[] = [];
+    const fromMock = vi.fn(() => {
+      const results = [
+        { data: membership, error: null },
+        { data: meals, error: null },
+        { data: pantry, error: null },
+      ];
+      const chain = createChainMock(results[chains.length] ?? { data: null, error: null });
+      chains.push(chain);
+      return chain;
+    });
+
+    vi.mocked(createClient).mockResolvedValue({
+      auth: {
+        getUser: vi.fn().mockResolvedValue({ data: { user: { id: 'user-123' } }, error: null }),
+      },
+      from: fromMock,
+    } as any);
+
+    const request = new NextRequest('http://localhost/api/shopping/generate-from-meals', {
+      method: 'POST',
+      body: JSON.stringify({ mealIds: [VALID_MEAL_ID_1], spaceId: VALID_SPACE_ID }),
+    });
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.list).toBeNull();
+    expect(data.data.pantryCoveredCount).toBe(1);
+    expect(subtractPantryStock).toHaveBeenCalledWith([pasta], pantry);
+    expect(fromMock).toHaveBeenCalledTimes(3);
+    expect(fromMock).toHaveBeenNthCalledWith(3, 'pantry_items');
+  });
 });
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/spaces/[spaceId]/unavailability/route';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/services/chore-workload-service', () => ({
+  addUnavailability: vi.fn(),
+  listUnavailability: vi.fn(),
+}));
+
+vi.mock('@/lib/services/authorization-service', () => ({
+  verifySpaceAccess: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@sentry/nextjs', () => ({
+  captureException: vi.fn(),
+}));
+
+vi.mock('@/lib/sentry-utils', () => ({
+  setSentryUser: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+const SPACE_ID = '550e8400-e29b-41d4-a716-446655440000';
+const context = { params: Promise.resolve({ spaceId: SPACE_ID }) };
+
+async function mockAuth(user: unknown = { id: 'user-1' }) {
+  const { createClient } = await import('@/lib/supabase/server');
+  const supabase = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user }, error: user ? null : { message: 'Unauthorized' } }) },
+  };
+  vi.mocked(createClient).mockResolvedValue(supabase as never);
+  return supabase;
+}
+
+function postRequest(body: unknown) {
+  return new NextRequest(`http://localhost/api/spaces/${SPACE_ID}/unavailability`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/spaces/[spaceId]/unavailability', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: true } as never);
+    const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+    vi.mocked(verifySpaceAccess).mockResolvedValue(undefined);
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    await mockAuth(null);
+
+    const response = await GET(new NextRequest(`http://localhost/api/spaces/${SPACE_ID}/unavailability`), context);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject an invalid space id', async () => {
+    await mockAuth();
+
+    const response = await GET(
+      new NextRequest('http://localhost/api/spaces/nope/unavailability'),
+      { params: Promise.resolve({ spaceId: 'nope' }) }
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 403 when not a space member', async () => {
+    await mockAuth();
+    const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+    vi.mocked(verifySpaceAccess).mockRejectedValue(new Error('Unauthorized'));
+
+    const response = await GET(new NextRequest(`http://localhost/api/spaces/${SPACE_ID}/unavailability`), context);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should list upcoming ranges', async () => {
+    const supabase = await mockAuth();
+    const { listUnavailability } = await import('@/lib/services/chore-workload-service');
+    vi.mocked(listUnavailability).mockResolvedValue([{ id: 'range-1' }] as never);
+
+    const response = await GET(new NextRequest(`http://localhost/api/spaces/${SPACE_ID}/unavailability`), context);
+    const body = await response.json();
+
+    expect(body.data).toEqual([{ id: 'range-1' }]);
+    expect(listUnavailability).toHaveBeenCalledWith(supabase, SPACE_ID);
+  });
+
+  it('should reject a range that ends before it starts', async () => {
+    await mockAuth();
+
+    const response = await POST(postRequest({ starts_on: '2026-10-25', ends_on: '2026-10-20' }), context);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should record a range for the caller', async () => {
+    const supabase = await mockAuth();
+    const { addUnavailability } = await import('@/lib/services/chore-workload-service');
+    vi.mocked(addUnavailability).mockResolvedValue({ id: 'range-1' } as never);
+
+    const response = await POST(postRequest({ starts_on: '2026-10-20', ends_on: '2026-10-25', reason: 'Trip' }), context);
+
+    expect(response.status).toBe(201);
+    expect(addUnavailability).toHaveBeenCalledWith(supabase, {
+      space_id: SPACE_ID,
+      user_id: 'user-1',
+      starts_on: '2026-10-20',
+      ends_on: '2026-10-25',
+      reason: 'Trip',
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/tasks/dependency-graph/route';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/services/task-dependencies-service', () => ({
+  taskDependenciesService: {
+    getDependencyGraph: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/services/authorization-service', () => ({
+  verifySpaceAccess: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@sentry/nextjs', () => ({
+  captureException: vi.fn(),
+}));
+
+vi.mock('@/lib/sentry-utils', () => ({
+  setSentryUser: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+const SPACE_ID = '550e8400-e29b-41d4-a716-446655440000';
+const TASK_ID = '550e8400-e29b-41d4-a716-446655440001';
+
+async function mockAuth(user: unknown = { id: 'user-1' }) {
+  const { createClient } = await import('@/lib/supabase/server');
+  const supabase = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user }, error: user ? null : { message: 'Unauthorized' } }) },
+  };
+  vi.mocked(createClient).mockResolvedValue(supabase as never);
+  return supabase;
+}
+
+function request(query: string) {
+  return new NextRequest(`http://localhost/api/tasks/dependency-graph${query}`);
+}
+
+describe('/api/tasks/dependency-graph', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: true } as never);
+    const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+    vi.mocked(verifySpaceAccess).mockResolvedValue(undefined);
+  });
+
+  it('should return 429 when rate limited', async () => {
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: false } as never);
+
+    const response = await GET(request(`?space_id=${SPACE_ID}`));
+
+    expect(response.status).toBe(429);
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    await mockAuth(null);
+
+    const response = await GET(request(`?space_id=${SPACE_ID}`));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should require a valid space_id', async () => {
+    await mockAuth();
+
+    const response = await GET(request('?space_id=nope'));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 403 when not a space member', async () => {
+    await mockAuth();
+    const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+    vi.mocked(verifySpaceAccess).mockRejectedValue(new Error('Unauthorized'));
+
+    const response = await GET(request(`?space_id=${SPACE_ID}`));
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should return the graph around a task', async () => {
+    const supabase = await mockAuth();
+    const { taskDependenciesService } = await import('@/lib/services/task-dependencies-service');
+    const graph = { nodes: [], edges: [], criticalPath: [], projectedFinish: null, cycleTaskIds: [] };
+    vi.mocked(taskDependenciesService.getDependencyGraph).mockResolvedValue(graph);
+
+    const response = await GET(request(`?space_id=${SPACE_ID}&task_id=${TASK_ID}`));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual(graph);
+    expect(taskDependenciesService.getDependencyGraph).toHaveBeenCalledWith(SPACE_ID, { rootTaskId: TASK_ID }, supabase);
+  });
+
+  it('should return 500 when loading fails', async () => {
+    await mockAuth();
+    const { taskDependenciesService } = await import('@/lib/services/task-dependencies-service');
+    vi.mocked(taskDependenciesService.getDependencyGraph).mockRejectedValue(new Error('boom'));
+
+    const response = await GET(request(`?space_id=${SPACE_ID}`));
+
+    expect(response.status).toBe(500);
+  });
+});
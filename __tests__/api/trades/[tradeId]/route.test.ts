@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { PATCH } from '@/app/api/trades/[tradeId]/route';
+import { AssignmentTradeError } from '@/lib/services/assignment-trade-service';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase/admin', () => ({
+  supabaseAdmin: { admin: true },
+}));
+
+vi.mock('@/lib/services/assignment-trade-service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/services/assignment-trade-service')>();
+  return {
+    ...actual,
+    acceptTrade: vi.fn(),
+    closeTrade: vi.fn(),
+    notifyTradeParticipants: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@sentry/nextjs', () => ({
+  captureException: vi.fn(),
+}));
+
+vi.mock('@/lib/sentry-utils', () => ({
+  setSentryUser: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+const context = { params: Promise.resolve({ tradeId: 'trade-1' }) };
+
+async function mockAuth(user: unknown = { id: 'bob' }) {
+  const { createClient } = await import('@/lib/supabase/server');
+  const supabase = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user }, error: user ? null : { message: 'Unauthorized' } }) },
+  };
+  vi.mocked(createClient).mockResolvedValue(supabase as never);
+  return supabase;
+}
+
+function patchRequest(body: unknown) {
+  return new NextRequest('http://localhost/api/trades/trade-1', {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/trades/[tradeId]', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: true } as never);
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    await mockAuth(null);
+
+    const response = await PATCH(patchRequest({ action: 'accept' }), context);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject unknown actions', async () => {
+    await mockAuth();
+
+    const response = await PATCH(patchRequest({ action: 'haggle' }), context);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should accept the trade and notify the offering member', async () => {
+    const supabase = await mockAuth();
+    const { acceptTrade, notifyTradeParticipants } = await import('@/lib/services/assignment-trade-service');
+    const trade = { id: 'trade-1', status: 'accepted' };
+    vi.mocked(acceptTrade).mockResolvedValue(trade as never);
+
+    const response = await PATCH(patchRequest({ action: 'accept' }), context);
+
+    expect(response.status).toBe(200);
+    expect(acceptTrade).toHaveBeenCalledWith(supabase, 'trade-1');
+    expect(notifyTradeParticipants).toHaveBeenCalledWith({ admin: true }, trade, 'accepted', 'bob');
+  });
+
+  it('should decline through closeTrade', async () => {
+    const supabase = await mockAuth();
+    const { closeTrade, notifyTradeParticipants } = await import('@/lib/services/assignment-trade-service');
+    vi.mocked(closeTrade).mockResolvedValue({ id: 'trade-1', status: 'declined' } as never);
+
+    const response = await PATCH(patchRequest({ action: 'decline' }), context);
+
+    expect(response.status).toBe(200);
+    expect(closeTrade).toHaveBeenCalledWith(supabase, 'trade-1', 'bob', 'decline');
+    expect(vi.mocked(notifyTradeParticipants).mock.calls[0][2]).toBe('declined');
+  });
+
+  it('should surface conflicts from the accept transaction', async () => {
+    await mockAuth();
+    const { acceptTrade, notifyTradeParticipants } = await import('@/lib/services/assignment-trade-service');
+    vi.mocked(acceptTrade).mockRejectedValue(new AssignmentTradeError('Trade is already accepted', 409));
+
+    const response = await PATCH(patchRequest({ action: 'accept' }), context);
+
+    expect(response.status).toBe(409);
+    expect(notifyTradeParticipants).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/trades/route';
+import { AssignmentTradeError } from '@/lib/services/assignment-trade-service';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase/admin', () => ({
+  supabaseAdmin: { admin: true },
+}));
+
+vi.mock('@/lib/services/assignment-trade-service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/services/assignment-trade-service')>();
+  return {
+    ...actual,
+    createTrade: vi.fn(),
+    listTrades: vi.fn(),
+    notifyTradeParticipants: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/services/authorization-service', () => ({
+  verifySpaceAccess: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@sentry/nextjs', () => ({
+  captureException: vi.fn(),
+}));
+
+vi.mock('@/lib/sentry-utils', () => ({
+  setSentryUser: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+const USER_ID = '550e8400-e29b-41d4-a716-446655440001';
+const OTHER_ID = '550e8400-e29b-41d4-a716-446655440002';
+const SPACE_ID = '550e8400-e29b-41d4-a716-446655440000';
+const CHORE_ID = '550e8400-e29b-41d4-a716-446655440003';
+
+async function mockAuth(user: unknown = { id: USER_ID }) {
+  const { createClient } = await import('@/lib/supabase/server');
+  const supabase = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user }, error: user ? null : { message: 'Unauthorized' } }) },
+  };
+  vi.mocked(createClient).mockResolvedValue(supabase as never);
+  return supabase;
+}
+
+function postRequest(body: unknown) {
+  return new NextRequest('http://localhost/api/trades', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/trades', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: true } as never);
+    const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+    vi.mocked(verifySpaceAccess).mockResolvedValue(undefined);
+  });
+
+  it('should return 429 when rate limited', async () => {
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: false } as never);
+
+    const response = await GET(new NextRequest(`http://localhost/api/trades?space_id=${SPACE_ID}`));
+
+    expect(response.status).toBe(429);
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    await mockAuth(null);
+
+    const response = await GET(new NextRequest(`http://localhost/api/trades?space_id=${SPACE_ID}`));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should require a valid space_id', async () => {
+    await mockAuth();
+
+    const response = await GET(new NextRequest('http://localhost/api/trades'));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 403 when not a space member', async () => {
+    await mockAuth();
+    const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+    vi.mocked(verifySpaceAccess).mockRejectedValue(new Error('Unauthorized'));
+
+    const response = await GET(new NextRequest(`http://localhost/api/trades?space_id=${SPACE_ID}`));
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should list the caller\'s trades', async () => {
+    const supabase = await mockAuth();
+    const { listTrades } = await import('@/lib/services/assignment-trade-service');
+    vi.mocked(listTrades).mockResolvedValue([{ id: 'trade-1' }] as never);
+
+    const response = await GET(new NextRequest(`http://localhost/api/trades?space_id=${SPACE_ID}&status=open&mine=true`));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual([{ id: 'trade-1' }]);
+    expect(listTrades).toHaveBeenCalledWith(supabase, SPACE_ID, { status: 'open', userId: USER_ID });
+  });
+
+  it('should reject a bounty over the limit', async () => {
+    await mockAuth();
+
+    const response = await POST(postRequest({ space_id: SPACE_ID, item_type: 'chore', item_id: CHORE_ID, bounty_points: 10000 }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should create the offer and notify the other member', async () => {
+    const supabase = await mockAuth();
+    const { createTrade, notifyTradeParticipants } = await import('@/lib/services/assignment-trade-service');
+    const trade = { id: 'trade-1', status: 'open' };
+    vi.mocked(createTrade).mockResolvedValue(trade as never);
+
+    const response = await POST(postRequest({
+      space_id: SPACE_ID,
+      item_type: 'chore',
+      item_id: CHORE_ID,
+      offered_to: OTHER_ID,
+      bounty_points: 15,
+    }));
+
+    expect(response.status).toBe(201);
+    expect(createTrade).toHaveBeenCalledWith(supabase, expect.objectContaining({
+      item_id: CHORE_ID,
+      offered_by: USER_ID,
+      offered_to: OTHER_ID,
+      bounty_points: 15,
+    }));
+    expect(notifyTradeParticipants).toHaveBeenCalledWith({ admin: true }, trade, 'offered', USER_ID);
+  });
+
+  it('should surface trade errors with their status', async () => {
+    await mockAuth();
+    const { createTrade } = await import('@/lib/services/assignment-trade-service');
+    vi.mocked(createTrade).mockRejectedValue(new AssignmentTradeError('You can only trade chores assigned to you', 403));
+
+    const response = await POST(postRequest({ space_id: SPACE_ID, item_type: 'chore', item_id: CHORE_ID }));
+    const body = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(body.error).toBe('You can only trade chores assigned to you');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET, POST } from '@/app/api/user/app-passwords/route';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/services/caldav/app-passwords', () => ({
+  createAppPassword: vi.fn(),
+  listAppPasswords: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@/lib/utils/app-url', () => ({
+  getAppUrl: vi.fn(() => 'https://rowan.test'),
+}));
+
+vi.mock('@sentry/nextjs', () => ({
+  captureException: vi.fn(),
+}));
+
+vi.mock('@/lib/sentry-utils', () => ({
+  setSentryUser: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+const USER = { id: 'user-1', email: 'me@example.com' };
+
+async function mockAuth(user: unknown = USER) {
+  const { createClient } = await import('@/lib/supabase/server');
+  const supabase = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user }, error: user ? null : { message: 'Unauthorized' } }) },
+  };
+  vi.mocked(createClient).mockResolvedValue(supabase as never);
+  return supabase;
+}
+
+function postRequest(body: unknown) {
+  return new Request('http://localhost/api/user/app-passwords', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/user/app-passwords', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: true } as never);
+  });
+
+  it('should return 429 when rate limited', async () => {
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: false } as never);
+
+    const response = await GET(new Request('http://localhost/api/user/app-passwords'));
+
+    expect(response.status).toBe(429);
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    await mockAuth(null);
+
+    const response = await GET(new Request('http://localhost/api/user/app-passwords'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should list the user\'s app passwords', async () => {
+    const supabase = await mockAuth();
+    const { listAppPasswords } = await import('@/lib/services/caldav/app-passwords');
+    vi.mocked(listAppPasswords).mockResolvedValue([{ id: 'pw-1', label: 'iPhone' }] as never);
+
+    const response = await GET(new Request('http://localhost/api/user/app-passwords'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data).toEqual([{ id: 'pw-1', label: 'iPhone' }]);
+    expect(listAppPasswords).toHaveBeenCalledWith(supabase, 'user-1');
+  });
+
+  it('should return 400 for a missing label', async () => {
+    await mockAuth();
+
+    const response = await POST(postRequest({ label: '  ' }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return the new password with connection details once', async () => {
+    await mockAuth();
+    const { createAppPassword } = await import('@/lib/services/caldav/app-passwords');
+    vi.mocked(createAppPassword).mockResolvedValue({
+      appPassword: { id: 'pw-1', label: 'iPhone' },
+      password: 'abcd-efgh-ijkm-npqr-stuv-wxyz',
+    } as never);
+
+    const response = await POST(postRequest({ label: 'iPhone' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.data).toMatchObject({
+      id: 'pw-1',
+      password: 'abcd-efgh-ijkm-npqr-stuv-wxyz',
+      username: 'me@example.com',
+      server_url: 'https://rowan.test/api/caldav/',
+    });
+  });
+
+  it('should return 500 when creation fails', async () => {
+    await mockAuth();
+    const { createAppPassword } = await import('@/lib/services/caldav/app-passwords');
+    vi.mocked(createAppPassword).mockRejectedValue(new Error('db down'));
+
+    const response = await POST(postRequest({ label: 'iPhone' }));
+
+    expect(response.status).toBe(500);
+  });
+});
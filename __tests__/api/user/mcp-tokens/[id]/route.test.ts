@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { DELETE } from '@/app/api/user/mcp-tokens/[id]/route';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/services/mcp/tokens', () => ({
+  revokeMcpToken: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@sentry/nextjs', () => ({
+  captureException: vi.fn(),
+}));
+
+vi.mock('@/lib/sentry-utils', () => ({
+  setSentryUser: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+const ID = '550e8400-e29b-41d4-a716-446655440000';
+
+function callDelete(id: string) {
+  return DELETE(
+    new NextRequest(`http://localhost/api/user/mcp-tokens/${id}`, { method: 'DELETE' }),
+    { params: Promise.resolve({ id }) }
+  );
+}
+
+describe('/api/user/mcp-tokens/[id] DELETE', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    const { createClient } = await import('@/lib/supabase/server');
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: true } as never);
+    vi.mocked(createClient).mockResolvedValue({
+      auth: { getUser: vi.fn().mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null }) },
+    } as never);
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    const { createClient } = await import('@/lib/supabase/server');
+    vi.mocked(createClient).mockResolvedValue({
+      auth: { getUser: vi.fn().mockResolvedValue({ data: { user: null }, error: { message: 'Unauthorized' } }) },
+    } as never);
+
+    const response = await callDelete(ID);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return 400 for an invalid ID', async () => {
+    const response = await callDelete('not-a-uuid');
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 404 when nothing was revoked', async () => {
+    const { revokeMcpToken } = await import('@/lib/services/mcp/tokens');
+    vi.mocked(revokeMcpToken).mockResolvedValue(false);
+
+    const response = await callDelete(ID);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should revoke the user\'s MCP token', async () => {
+    const { revokeMcpToken } = await import('@/lib/services/mcp/tokens');
+    vi.mocked(revokeMcpToken).mockResolvedValue(true);
+
+    const response = await callDelete(ID);
+
+    expect(response.status).toBe(200);
+    expect(revokeMcpToken).toHaveBeenCalledWith(expect.anything(), 'user-1', ID);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET, POST } from '@/app/api/user/mcp-tokens/route';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/services/mcp/tokens', () => ({
+  createMcpToken: vi.fn(),
+  listMcpTokens: vi.fn(),
+}));
+
+vi.mock('@/lib/services/authorization-service', () => ({
+  verifySpaceAccess: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit', () => ({
+  checkGeneralRateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/ratelimit-fallback', () => ({
+  extractIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@/lib/utils/app-url', () => ({
+  getAppUrl: vi.fn(() => 'https://rowan.test'),
+}));
+
+vi.mock('@sentry/nextjs', () => ({
+  captureException: vi.fn(),
+}));
+
+vi.mock('@/lib/sentry-utils', () => ({
+  setSentryUser: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+const USER = { id: 'user-1', email: 'me@example.com' };
+const SPACE_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+async function mockAuth(user: unknown = USER) {
+  const { createClient } = await import('@/lib/supabase/server');
+  const supabase = {
+    auth: { getUser: vi.fn().mockResolvedValue({ data: { user }, error: user ? null : { message: 'Unauthorized' } }) },
+  };
+  vi.mocked(createClient).mockResolvedValue(supabase as never);
+  return supabase;
+}
+
+function postRequest(body: unknown) {
+  return new Request('http://localhost/api/user/mcp-tokens', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/user/mcp-tokens', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { checkGeneralRateLimit } = await import('@/lib/ratelimit');
+    const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+    vi.mocked(checkGeneralRateLimit).mockResolvedValue({ success: true } as never);
+    vi.mocked(verifySpaceAccess).mockResolvedValue(undefined);
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    await mockAuth(null);
+
+    const response = await GET(new Request('http://localhost/api/user/mcp-tokens'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should list the user\'s MCP tokens', async () => {
+    const supabase = await mockAuth();
+    const { listMcpTokens } = await import('@/lib/services/mcp/tokens');
+    vi.mocked(listMcpTokens).mockResolvedValue([{ id: 'tok-1', label: 'Desktop' }] as never);
+
+    const response = await GET(new Request('http://localhost/api/user/mcp-tokens'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data).toEqual([{ id: 'tok-1', label: 'Desktop' }]);
+    expect(listMcpTokens).toHaveBeenCalledWith(supabase, 'user-1');
+  });
+
+  it('should return 400 for an invalid scope or space', async () => {
+    await mockAuth();
+
+    expect((await POST(postRequest({ label: 'Desktop', space_id: SPACE_ID, scope: 'admin' }))).status).toBe(400);
+    expect((await POST(postRequest({ label: 'Desktop', space_id: 'space-1' }))).status).toBe(400);
+  });
+
+  it('should return 403 for a space the user does not belong to', async () => {
+    await mockAuth();
+    const { verifySpaceAccess } = await import('@/lib/services/authorization-service');
+    const { createMcpToken } = await import('@/lib/services/mcp/tokens');
+    vi.mocked(verifySpaceAccess).mockRejectedValue(new Error('Access denied'));
+
+    const response = await POST(postRequest({ label: 'Desktop', space_id: SPACE_ID }));
+
+    expect(response.status).toBe(403);
+    expect(createMcpToken).not.toHaveBeenCalled();
+  });
+
+  it('should create a read-only token by default and return it once', async () => {
+    const supabase = await mockAuth();
+    const { createMcpToken } = await import('@/lib/services/mcp/tokens');
+    vi.mocked(createMcpToken).mockResolvedValue({
+      mcpToken: { id: 'tok-1', label: 'Desktop', scope: 'read' },
+      token: 'rowan_mcp_abc',
+    } as never);
+
+    const response = await POST(postRequest({ label: 'Desktop', space_id: SPACE_ID }));
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(createMcpToken).toHaveBeenCalledWith(supabase, 'user-1', {
+      label: 'Desktop',
+      spaceId: SPACE_ID,
+      scope: 'read',
+    });
+    expect(data.data).toMatchObject({
+      id: 'tok-1',
+      token: 'rowan_mcp_abc',
+      server_url: 'https://rowan.test/api/mcp',
+    });
+  });
+
+  it('should return 500 when creation fails', async () => {
+    await mockAuth();
+    const { createMcpToken } = await import('@/lib/services/mcp/tokens');
+    vi.mocked(createMcpToken).mockRejectedValue(new Error('db down'));
+
+    const response = await POST(postRequest({ label: 'Desktop', space_id: SPACE_ID, scope: 'read_write' }));
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -25,6 +25,16 @@ vi.mock('@/lib/services/budgets-service', () => ({
       spentThisMonth: 2000,
       remaining: 3000,
       pendingBills: 2,
+      unconvertedCurrencies: [],
+    }),
+    getGroceryProjection: vi.fn().mockResolvedValue({
+      budget: 400,
+      actual: 150,
+      planned: 85.5,
+      projected: 235.5,
+      plannedMeals: 6,
+      currency: 'USD',
+      unconvertedCurrencies: [],
     }),
   },
 }));
@@ -98,6 +108,31 @@ describe('BudgetOverviewClient', () => {
     });
   });
 
+  it('shows projected grocery spend from the meal plan', async () => {
+    render(<BudgetOverviewClient spaceId="space-1" />);
+    await waitFor(() => {
+      expect(screen.getByText('Groceries')).toBeInTheDocument();
+    });
+    expect(screen.getByText(/\$235\.50 projected/)).toBeInTheDocument();
+    expect(screen.getByText(/\$85\.50 for 6 planned meals/)).toBeInTheDocument();
+  });
+
+  it('names currencies left out for lack of an exchange rate', async () => {
+    const { projectsService } = await import('@/lib/services/budgets-service');
+    vi.mocked(projectsService.getBudgetStats).mockResolvedValueOnce({
+      monthlyBudget: 5000,
+      spentThisMonth: 2000,
+      remaining: 3000,
+      pendingBills: 0,
+      currency: 'USD',
+      unconvertedCurrencies: ['JPY'],
+    });
+    render(<BudgetOverviewClient spaceId="space-1" />);
+    await waitFor(() => {
+      expect(screen.getByText(/Amounts in JPY are left out of these totals/)).toBeInTheDocument();
+    });
+  });
+
   it('shows all quick action links', async () => {
     render(<BudgetOverviewClient spaceId="space-1" />);
     await waitFor(() => {
@@ -114,6 +149,7 @@ describe('BudgetOverviewClient', () => {
       spentThisMonth: 0,
       remaining: 0,
       pendingBills: 0,
+      unconvertedCurrencies: [],
     });
     render(<BudgetOverviewClient spaceId="space-1" />);
     await waitFor(() => {
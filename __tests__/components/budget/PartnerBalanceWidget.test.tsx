@@ -15,6 +15,11 @@ vi.mock('@/lib/services/expense-splitting-service', () => ({
   }),
 }));
 
+// The settle-up panel loads its own plan through services not mocked here
+vi.mock('@/components/budget/SettleUpPanel', () => ({
+  SettleUpPanel: () => null,
+}));
+
 vi.mock('@/lib/logger', () => ({
   logger: { error: vi.fn(), info: vi.fn() },
 }));
@@ -74,6 +79,8 @@ describe('PartnerBalanceWidget', () => {
         amount_owed: 75,
         amount_owed_to_them: 0,
         net_balance: 75,
+        currency: 'USD',
+        unconverted_currencies: [],
       },
     ]);
     render(<PartnerBalanceWidget spaceId="space-1" />);
@@ -83,6 +90,24 @@ describe('PartnerBalanceWidget', () => {
     });
   });
 
+  it('names currencies left out for lack of an exchange rate', async () => {
+    const { calculateCurrentBalance } = await import('@/lib/services/expense-splitting-service');
+    vi.mocked(calculateCurrentBalance).mockResolvedValueOnce([
+      {
+        user_id: 'user-1',
+        amount_owed: 20,
+        amount_owed_to_them: 0,
+        net_balance: -20,
+        currency: 'USD',
+        unconverted_currencies: ['JPY'],
+      },
+    ]);
+    render(<PartnerBalanceWidget spaceId="space-1" />);
+    await waitFor(() => {
+      expect(screen.getByText(/Splits in JPY are left out of these balances/)).toBeInTheDocument();
+    });
+  });
+
   it('accepts className prop', async () => {
     const { container } = render(<PartnerBalanceWidget spaceId="space-1" className="custom-class" />);
     await waitFor(() => {
@@ -13,6 +13,8 @@ vi.mock('@/lib/services/variance-analysis-service', () => ({
       total_actual: 4200,
       total_variance: -800,
       variance_percentage: -16,
+      currency: 'USD',
+      unconverted_currencies: [],
       categories: [],
     }),
     getProjectedMonthEndVariance: vi.fn().mockResolvedValue({
@@ -21,6 +23,8 @@ vi.mock('@/lib/services/variance-analysis-service', () => ({
       total_actual: 5500,
       total_variance: 500,
       variance_percentage: 10,
+      currency: 'USD',
+      unconverted_currencies: [],
       categories: [],
     }),
     getProblematicCategories: vi.fn().mockResolvedValue([]),
@@ -71,6 +75,24 @@ describe('VarianceDashboard', () => {
     });
   });
 
+  it('notes currencies left out for lack of an exchange rate', async () => {
+    const { varianceAnalysisService } = await import('@/lib/services/variance-analysis-service');
+    vi.mocked(varianceAnalysisService.getCurrentMonthVariance).mockResolvedValueOnce({
+      month: '2026-02',
+      total_budgeted: 5000,
+      total_actual: 4200,
+      total_variance: -800,
+      variance_percentage: -16,
+      currency: 'USD',
+      unconverted_currencies: ['JPY'],
+      categories: [],
+    });
+    render(<VarianceDashboard spaceId="space-1" />);
+    await waitFor(() => {
+      expect(screen.getByText(/Expenses in JPY are left out/)).toBeInTheDocument();
+    });
+  });
+
   it('shows Over Budget categories section when categories have over status', async () => {
     const { varianceAnalysisService } = await import('@/lib/services/variance-analysis-service');
     vi.mocked(varianceAnalysisService.getProblematicCategories).mockResolvedValueOnce([
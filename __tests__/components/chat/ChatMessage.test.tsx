@@ -168,4 +168,48 @@ describe('ChatMessage', () => {
     fireEvent.click(screen.getByLabelText('Not helpful'));
     expect(onFeedback).toHaveBeenCalledWith('msg-1', 'negative');
   });
+
+  it('shows an undo button for assistant turns that took actions', () => {
+    const onUndo = vi.fn();
+    render(
+      <ChatMessage
+        message={makeMessage({
+          role: 'assistant',
+          content: 'Done',
+          turnId: 'turn-1',
+          toolCalls: [{ id: 'call-1', toolName: 'batch_complete_tasks', parameters: {} }],
+        })}
+        onUndo={onUndo}
+      />
+    );
+    fireEvent.click(screen.getByLabelText('Undo this turn'));
+    expect(onUndo).toHaveBeenCalledWith('turn-1');
+  });
+
+  it('does not offer undo for replies without actions', () => {
+    render(
+      <ChatMessage
+        message={makeMessage({ role: 'assistant', content: 'Hi', turnId: 'turn-1' })}
+        onUndo={vi.fn()}
+      />
+    );
+    expect(screen.queryByLabelText('Undo this turn')).not.toBeInTheDocument();
+  });
+
+  it('shows undone turns as undone', () => {
+    render(
+      <ChatMessage
+        message={makeMessage({
+          role: 'assistant',
+          content: 'Done',
+          turnId: 'turn-1',
+          toolCalls: [{ id: 'call-1', toolName: 'complete_task', parameters: {} }],
+          undone: true,
+        })}
+        onUndo={vi.fn()}
+      />
+    );
+    expect(screen.getByText('Undone')).toBeInTheDocument();
+    expect(screen.queryByLabelText('Undo this turn')).not.toBeInTheDocument();
+  });
 });
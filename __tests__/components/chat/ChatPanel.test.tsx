@@ -28,6 +28,7 @@ const mockUseChat = vi.fn(() => ({
   sendMessage: vi.fn(),
   clearChat: vi.fn(),
   stopStreaming: vi.fn(),
+  undo: vi.fn(),
   clearError: vi.fn(),
 }));
 
@@ -15,6 +15,7 @@ vi.mock('@/lib/utils/date-utils', () => ({
 }));
 
 vi.mock('@/lib/constants/shopping-categories', () => ({
+  SHOPPING_CATEGORIES: [],
   getCategoryIcon: vi.fn((cat: string) => `[${cat}]`),
   getCategoryLabel: vi.fn((cat: string) => cat.charAt(0).toUpperCase() + cat.slice(1)),
 }));
@@ -79,6 +79,7 @@ describe('ChoreRotationConfig', () => {
     await waitFor(() => {
       expect(screen.getByText('Round Robin')).toBeDefined();
       expect(screen.getByText('Random')).toBeDefined();
+      expect(screen.getByText('Balanced')).toBeDefined();
     });
   });
 
@@ -54,6 +54,8 @@ import {
   mfaRateLimit,
   expensiveOperationRateLimit,
   sensitiveOperationRateLimit,
+  davRateLimit,
+  mcpRateLimit,
   aiChatRateLimitPro,
   aiChatRateLimitFamily,
   aiBriefingRateLimit,
@@ -65,6 +67,8 @@ import {
   checkMfaRateLimit,
   checkExpensiveOperationRateLimit,
   checkSensitiveOperationRateLimit,
+  checkDavRateLimit,
+  checkMcpRateLimit,
   checkAIChatRateLimit,
   checkAIBriefingRateLimit,
   checkAISuggestionsRateLimit,
@@ -98,6 +102,14 @@ describe('Rate limiter instances — no Redis env vars', () => {
     expect(sensitiveOperationRateLimit).toBeNull();
   });
 
+  it('davRateLimit is null', () => {
+    expect(davRateLimit).toBeNull();
+  });
+
+  it('mcpRateLimit is null', () => {
+    expect(mcpRateLimit).toBeNull();
+  });
+
   it('aiChatRateLimitPro is null', () => {
     expect(aiChatRateLimitPro).toBeNull();
   });
@@ -207,6 +219,16 @@ describe('Rate limit helper delegates', () => {
     const result = await checkSensitiveOperationRateLimit('1.2.3.4');
     expect(result).toHaveProperty('success');
   });
+
+  it('checkDavRateLimit returns success', async () => {
+    const result = await checkDavRateLimit('1.2.3.4');
+    expect(result).toHaveProperty('success');
+  });
+
+  it('checkMcpRateLimit returns success', async () => {
+    const result = await checkMcpRateLimit('1.2.3.4');
+    expect(result).toHaveProperty('success');
+  });
 });
 
 // ---------------------------------------------------------------------------
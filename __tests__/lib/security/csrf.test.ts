@@ -112,5 +112,7 @@ describe('CSRF_EXEMPT_ROUTES constant', () => {
     expect(CSRF_EXEMPT_ROUTES).toContain('/api/cron/');
     expect(CSRF_EXEMPT_ROUTES).toContain('/api/health');
     expect(CSRF_EXEMPT_ROUTES).toContain('/api/csrf/token');
+    expect(CSRF_EXEMPT_ROUTES).toContain('/api/caldav/');
+    expect(CSRF_EXEMPT_ROUTES).toContain('/api/mcp');
   });
 });
@@ -11,6 +11,7 @@ const mockSupabaseClient = vi.hoisted(() => {
   chainable.delete = vi.fn(() => chainable);
   chainable.eq = vi.fn(() => chainable);
   chainable.in = vi.fn(() => chainable);
+  chainable.or = vi.fn(() => chainable);
   chainable.single = vi.fn(() => Promise.resolve({ data: null, error: null }));
   chainable.maybeSingle = vi.fn(() => Promise.resolve({ data: null, error: null }));
   return chainable;
@@ -93,6 +94,38 @@ describe('accountDeletionService', () => {
 
       expect(result.success).toBe(true);
     });
+
+    it('should delete AI memories added by or about the user', async () => {
+      const userId = 'user-123';
+
+      mockSupabaseClient.eq.mockResolvedValueOnce({
+        data: [{ space_id: 'space-1' }],
+        error: null,
+      });
+
+      const result = await accountDeletionService.deleteUserAccount(userId, mockSupabaseClient as never);
+
+      expect(result.success).toBe(true);
+      expect(mockSupabaseClient.from).toHaveBeenCalledWith('ai_memories');
+      expect(mockSupabaseClient.or).toHaveBeenCalledWith('created_by.eq.user-123,subject_user_id.eq.user-123');
+    });
+
+    it('should keep deleting when AI memories cannot be removed', async () => {
+      const userId = 'user-123';
+
+      mockSupabaseClient.eq.mockResolvedValueOnce({
+        data: [{ space_id: 'space-1' }],
+        error: null,
+      });
+      mockSupabaseClient.or.mockReturnValueOnce({
+        select: vi.fn().mockResolvedValue({ data: null, error: { message: 'Database error' } }),
+      });
+
+      const result = await accountDeletionService.deleteUserAccount(userId, mockSupabaseClient as never);
+
+      expect(result.success).toBe(true);
+      expect(mockSupabaseClient.from).toHaveBeenCalledWith('push_tokens');
+    });
   });
 
   describe('isAccountMarkedForDeletion', () => {
@@ -0,0 +1,359 @@
+/**
+ * Tests for the AI action journal (lib/services/ai/action-journal-service.ts)
+ * Verifies before/after snapshots of tool writes and how undo reverses them.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  ActionJournalError,
+  captureBefore,
+  describeUndo,
+  isWriteTool,
+  recordAction,
+  undoActions,
+  type ActionJournalEntry,
+} from '@/lib/services/ai/action-journal-service';
+import { logger } from '@/lib/logger';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+const SPACE_ID = 'space-1';
+const USER_ID = 'user-1';
+const TURN = { conversationId: 'conv-1', turnId: 'turn-1' };
+
+function createChainMock(resolvedValue: unknown) {
+  const mock: Record<string, unknown> = {};
+  const handler = () => mock;
+  ['select', 'eq', 'in', 'is', 'insert', 'update', 'delete', 'order', 'limit', 'maybeSingle'].forEach((m) => {
+    mock[m] = vi.fn(handler);
+  });
+  mock.then = vi.fn((resolve: (v: unknown) => unknown) => resolve(resolvedValue));
+  return mock;
+}
+
+/** Supabase mock answering each table and function from a queue of results, in call order. */
+function createSupabaseMock(results: Record<string, unknown[]>, rpcResults: Record<string, unknown[]> = {}) {
+  const chains: Record<string, Record<string, ReturnType<typeof vi.fn>>[]> = {};
+  const next = (queue: unknown[] = []) => (queue.length > 1 ? queue.shift() : queue[0] ?? { data: null, error: null });
+  const supabase = {
+    from: vi.fn((table: string) => {
+      const chain = createChainMock(next(results[table]));
+      (chains[table] ??= []).push(chain as Record<string, ReturnType<typeof vi.fn>>);
+      return chain;
+    }),
+    rpc: vi.fn((fn: string) => Promise.resolve(next(rpcResults[fn]))),
+  };
+  return { supabase: supabase as unknown as SupabaseClient & { rpc: ReturnType<typeof vi.fn> }, chains };
+}
+
+function entry(overrides: Partial<ActionJournalEntry> = {}): ActionJournalEntry {
+  return {
+    id: 'entry-1',
+    conversation_id: TURN.conversationId,
+    turn_id: TURN.turnId,
+    space_id: SPACE_ID,
+    user_id: USER_ID,
+    tool_name: 'complete_task',
+    parameters: {},
+    changes: [],
+    reversible: true,
+    undone_at: null,
+    created_at: '2026-10-19T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('action-journal-service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('isWriteTool', () => {
+    it('treats list, get and search tools as reads', () => {
+      expect(isWriteTool('list_tasks')).toBe(false);
+      expect(isWriteTool('get_points_balance')).toBe(false);
+      expect(isWriteTool('search_recipes')).toBe(false);
+      expect(isWriteTool('batch_complete_tasks')).toBe(true);
+      expect(isWriteTool('send_message')).toBe(true);
+    });
+  });
+
+  describe('captureBefore / recordAction', () => {
+    it('journals each row a batch tool changed and skips unchanged ones', async () => {
+      const { supabase, chains } = createSupabaseMock({
+        tasks: [
+          { data: [
+            { id: 't1', status: 'pending', updated_at: 'a' },
+            { id: 't2', status: 'completed', updated_at: 'a' },
+          ], error: null },
+          { data: [
+            { id: 't1', status: 'completed', updated_at: 'b' },
+            { id: 't2', status: 'completed', updated_at: 'b' },
+          ], error: null },
+        ],
+        ai_action_journal: [{ data: null, error: null }],
+      });
+
+      const pending = await captureBefore(supabase, 'batch_complete_tasks', { task_ids: ['t1', 't2'] }, { spaceId: SPACE_ID, userId: USER_ID });
+      await recordAction(supabase, TURN, pending!, { completed_count: 2 });
+
+      expect(chains.tasks[0].in).toHaveBeenCalledWith('id', ['t1', 't2']);
+      const inserted = chains.ai_action_journal[0].insert.mock.calls[0][0];
+      expect(inserted).toMatchObject({
+        conversation_id: 'conv-1',
+        turn_id: 'turn-1',
+        tool_name: 'batch_complete_tasks',
+        reversible: true,
+      });
+      expect(inserted.changes).toEqual([
+        {
+          table: 'tasks',
+          id: 't1',
+          before: { id: 't1', status: 'pending', updated_at: 'a' },
+          after: { id: 't1', status: 'completed', updated_at: 'b' },
+        },
+      ]);
+    });
+
+    it('records the row a create tool made from the result id', async () => {
+      const meal = { id: 'meal-1', name: 'Pasta' };
+      const { supabase, chains } = createSupabaseMock({
+        meals: [{ data: [meal], error: null }],
+        ai_action_journal: [{ data: null, error: null }],
+      });
+
+      const pending = await captureBefore(supabase, 'plan_meal', { name: 'Pasta' }, { spaceId: SPACE_ID, userId: USER_ID });
+      await recordAction(supabase, TURN, pending!, { id: 'meal-1' });
+
+      expect(chains.ai_action_journal[0].insert.mock.calls[0][0].changes).toEqual([
+        { table: 'meals', id: 'meal-1', before: null, after: meal },
+      ]);
+    });
+
+    it('snapshots the point balance of tools that award points', async () => {
+      const { supabase, chains } = createSupabaseMock({
+        chores: [
+          { data: [{ id: 'c1', status: 'pending' }], error: null },
+          { data: [{ id: 'c1', status: 'completed' }], error: null },
+        ],
+        reward_points: [
+          { data: { id: 'rp-1', points: 10, current_streak: 1 }, error: null },
+          { data: { id: 'rp-1', points: 20, current_streak: 2 }, error: null },
+        ],
+        ai_action_journal: [{ data: null, error: null }],
+      });
+
+      const pending = await captureBefore(supabase, 'complete_chore', { chore_id: 'c1' }, { spaceId: SPACE_ID, userId: USER_ID });
+      await recordAction(supabase, TURN, pending!, { id: 'c1' });
+
+      expect(chains.reward_points[0].eq).toHaveBeenCalledWith('user_id', USER_ID);
+      const changes = chains.ai_action_journal[0].insert.mock.calls[0][0].changes;
+      expect(changes).toContainEqual({
+        table: 'reward_points',
+        id: USER_ID,
+        before: { id: 'rp-1', points: 10, current_streak: 1 },
+        after: { id: 'rp-1', points: 20, current_streak: 2 },
+      });
+    });
+
+    it('records writes it cannot reverse as irreversible', async () => {
+      const { supabase, chains } = createSupabaseMock({
+        ai_action_journal: [{ data: null, error: null }],
+      });
+
+      const pending = await captureBefore(supabase, 'send_message', { content: 'hi' }, { spaceId: SPACE_ID, userId: USER_ID });
+      await recordAction(supabase, TURN, pending!, { id: 'msg-1' });
+
+      expect(chains.ai_action_journal[0].insert.mock.calls[0][0]).toMatchObject({
+        tool_name: 'send_message',
+        changes: [],
+        reversible: false,
+      });
+    });
+
+    it('returns null instead of throwing when the snapshot fails', async () => {
+      const { supabase } = createSupabaseMock({
+        tasks: [{ data: null, error: { message: 'boom' } }],
+      });
+
+      const pending = await captureBefore(supabase, 'update_task', { task_id: 't1' }, { spaceId: SPACE_ID, userId: USER_ID });
+
+      expect(pending).toBeNull();
+      expect(logger.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('undoActions', () => {
+    it('restores the columns an update changed and marks the entry undone', async () => {
+      const journal = entry({
+        changes: [{
+          table: 'tasks',
+          id: 't1',
+          before: { id: 't1', status: 'pending', completed_at: null, updated_at: 'a' },
+          after: { id: 't1', status: 'completed', completed_at: '2026-10-19', updated_at: 'b' },
+        }],
+      });
+      const { supabase, chains } = createSupabaseMock({
+        ai_action_journal: [{ data: [], error: null }],
+        tasks: [
+          { data: { id: 't1', status: 'completed', completed_at: '2026-10-19', title: 'Renamed' }, error: null },
+          { data: null, error: null },
+        ],
+      }, {
+        claim_ai_actions_for_undo: [{ data: [journal], error: null }],
+      });
+
+      const result = await undoActions(supabase, USER_ID, 'conv-1');
+
+      expect(supabase.rpc).toHaveBeenCalledWith('claim_ai_actions_for_undo', { p_conversation_id: 'conv-1', p_turn_id: null });
+      expect(chains.tasks[1].update).toHaveBeenCalledWith({ status: 'pending', completed_at: null });
+      expect(chains.ai_action_journal[0].update).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        turnId: 'turn-1',
+        undone: ['complete_task'],
+        irreversible: [],
+        conflicts: [],
+        turnFullyUndone: true,
+      });
+    });
+
+    it('leaves rows edited since the action alone', async () => {
+      const journal = entry({
+        tool_name: 'update_task',
+        changes: [{
+          table: 'tasks',
+          id: 't1',
+          before: { id: 't1', title: 'Old' },
+          after: { id: 't1', title: 'New' },
+        }],
+      });
+      const { supabase, chains } = createSupabaseMock({
+        tasks: [{ data: { id: 't1', title: 'Edited by hand' }, error: null }],
+      }, {
+        claim_ai_actions_for_undo: [{ data: [journal], error: null }],
+      });
+
+      const result = await undoActions(supabase, USER_ID, 'conv-1', 'turn-1');
+
+      expect(chains.tasks).toHaveLength(1);
+      expect(result.conflicts).toEqual([{ toolName: 'update_task', table: 'tasks', id: 't1' }]);
+    });
+
+    it('deletes created rows and re-inserts deleted ones, newest first', async () => {
+      const created = { id: 'e1', title: 'Dinner' };
+      const deleted = { id: 'r1', name: 'Movie night' };
+      const { supabase, chains } = createSupabaseMock({
+        rewards_catalog: [{ data: null, error: null }, { data: null, error: null }],
+        expenses: [{ data: { ...created, updated_at: 'later' }, error: null }, { data: null, error: null }],
+      }, {
+        // Claimed rows come back in no particular order
+        claim_ai_actions_for_undo: [{ data: [
+          entry({ id: 'entry-1', tool_name: 'create_expense', changes: [{ table: 'expenses', id: 'e1', before: null, after: created }] }),
+          entry({
+            id: 'entry-2',
+            tool_name: 'delete_reward',
+            created_at: '2026-10-19T10:05:00.000Z',
+            changes: [{ table: 'rewards_catalog', id: 'r1', before: deleted, after: null }],
+          }),
+        ], error: null }],
+      });
+
+      const result = await undoActions(supabase, USER_ID, 'conv-1', 'turn-1');
+
+      expect(chains.rewards_catalog[1].insert).toHaveBeenCalledWith(deleted);
+      expect(chains.expenses[1].delete).toHaveBeenCalled();
+      expect(chains.expenses[1].eq).toHaveBeenCalledWith('id', 'e1');
+      expect(result.undone).toEqual(['delete_reward', 'create_expense']);
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it('takes awarded points back out of the current balance with a ledger row', async () => {
+      const journal = entry({
+        tool_name: 'batch_complete_chores',
+        changes: [
+          { table: 'chores', id: 'c1', before: { id: 'c1', status: 'pending' }, after: { id: 'c1', status: 'completed' } },
+          {
+            table: 'reward_points',
+            id: USER_ID,
+            before: { points: 10, current_streak: 1, level: 1 },
+            after: { points: 40, current_streak: 2, level: 1 },
+          },
+        ],
+      });
+      const { supabase, chains } = createSupabaseMock({
+        // Five points earned elsewhere since
+        reward_points: [{ data: { points: 45, current_streak: 2, level: 1 }, error: null }, { data: null, error: null }],
+        point_transactions: [{ data: null, error: null }],
+        chores: [{ data: { id: 'c1', status: 'completed' }, error: null }, { data: null, error: null }],
+      }, {
+        claim_ai_actions_for_undo: [{ data: [journal], error: null }],
+      });
+
+      await undoActions(supabase, USER_ID, 'conv-1', 'turn-1');
+
+      expect(chains.reward_points[1].update).toHaveBeenCalledWith({ points: 15, current_streak: 1 });
+      expect(chains.point_transactions[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+        user_id: USER_ID,
+        source_type: 'adjustment',
+        points: -30,
+        reason: 'Undid assistant action: batch_complete_chores',
+      }));
+      expect(chains.chores[1].update).toHaveBeenCalledWith({ status: 'pending' });
+    });
+
+    it('reports irreversible entries without touching data', async () => {
+      const { supabase } = createSupabaseMock({}, {
+        claim_ai_actions_for_undo: [{ data: [entry({ tool_name: 'send_message', reversible: false })], error: null }],
+      });
+
+      const result = await undoActions(supabase, USER_ID, 'conv-1', 'turn-1');
+
+      expect(result.irreversible).toEqual(['send_message']);
+      expect(result.undone).toEqual([]);
+    });
+
+    it('releases the entries it could not revert so the undo can be retried', async () => {
+      const change = { table: 'tasks', id: 't1', before: { id: 't1', title: 'Old' }, after: { id: 't1', title: 'New' } };
+      const { supabase } = createSupabaseMock({
+        tasks: [
+          { data: { id: 't1', title: 'New' }, error: null },
+          { data: null, error: { message: 'Update failed' } },
+        ],
+      }, {
+        claim_ai_actions_for_undo: [{ data: [
+          entry({ id: 'entry-2', tool_name: 'send_message', reversible: false, created_at: '2026-10-19T10:05:00.000Z' }),
+          entry({ id: 'entry-1', tool_name: 'update_task', changes: [change] }),
+        ], error: null }],
+      });
+
+      await expect(undoActions(supabase, USER_ID, 'conv-1', 'turn-1')).rejects.toMatchObject({ message: 'Update failed' });
+      expect(supabase.rpc).toHaveBeenCalledWith('release_ai_action_claims', { p_ids: ['entry-1'] });
+    });
+
+    it('throws a 404 when there is nothing to undo', async () => {
+      const { supabase } = createSupabaseMock({}, {
+        claim_ai_actions_for_undo: [{ data: [], error: null }],
+      });
+
+      await expect(undoActions(supabase, USER_ID, 'conv-1')).rejects.toThrow(ActionJournalError);
+      await expect(undoActions(supabase, USER_ID, 'conv-1')).rejects.toMatchObject({ status: 404 });
+    });
+  });
+
+  describe('describeUndo', () => {
+    it('summarizes undone, conflicting and irreversible actions', () => {
+      expect(describeUndo({
+        turnId: 'turn-1',
+        undone: ['complete_task', 'complete_task'],
+        irreversible: ['send_message'],
+        conflicts: [{ toolName: 'complete_task', table: 'tasks', id: 't1' }],
+        turnFullyUndone: true,
+      })).toBe(
+        'Undid 2 actions (complete_task). Left 1 item alone because it was changed since. Could not undo: send_message.'
+      );
+    });
+  });
+});
@@ -1,5 +1,6 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
+  deleteUserMemories,
   detectPIIInUserInput,
   redactPII,
   sanitizeContextForLLM,
@@ -182,4 +183,32 @@ describe('AI Privacy Service', () => {
       expect(() => sanitizeContextForLLM(context)).not.toThrow();
     });
   });
+
+  describe('deleteUserMemories()', () => {
+    function makeSupabase(result: { data: unknown; error: unknown }) {
+      const chain = {
+        from: vi.fn(() => chain),
+        delete: vi.fn(() => chain),
+        or: vi.fn(() => chain),
+        select: vi.fn(() => Promise.resolve(result)),
+      };
+      return chain;
+    }
+
+    it('should delete memories added by or about the user and return the count', async () => {
+      const supabase = makeSupabase({ data: [{ id: 'mem-1' }, { id: 'mem-2' }], error: null });
+
+      const count = await deleteUserMemories(supabase as never, 'user-1');
+
+      expect(count).toBe(2);
+      expect(supabase.from).toHaveBeenCalledWith('ai_memories');
+      expect(supabase.or).toHaveBeenCalledWith('created_by.eq.user-1,subject_user_id.eq.user-1');
+    });
+
+    it('should throw when the delete fails', async () => {
+      const supabase = makeSupabase({ data: null, error: new Error('DB error') });
+
+      await expect(deleteUserMemories(supabase as never, 'user-1')).rejects.toThrow('DB error');
+    });
+  });
 });
@@ -88,6 +88,7 @@ const CONTEXT = {
 describe('ChatOrchestratorService', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    process.env.LLM_PROVIDER = 'openrouter';
     process.env.OPENROUTER_API_KEY = 'test-openrouter-key';
   });
 
@@ -271,6 +272,55 @@ describe('ChatOrchestratorService', () => {
     });
   });
 
+  describe('restricted mode', () => {
+    it('should neither offer nor run tools that allowTool rejects', async () => {
+      const mockCreate = await getMockCreate();
+
+      mockCreate.mockResolvedValueOnce(
+        makeAsyncIterable([
+          {
+            choices: [{
+              delta: {
+                tool_calls: [{
+                  index: 0,
+                  id: 'call-1',
+                  function: { name: 'create_task', arguments: '{"title":"Buy milk"}' },
+                }],
+              },
+            }],
+          },
+        ])
+      );
+      mockCreate.mockResolvedValueOnce(
+        makeAsyncIterable([{ choices: [{ delta: { content: 'I cannot do that here.' } }] }])
+      );
+
+      const { ChatOrchestratorService } = await import('@/lib/services/ai/chat-orchestrator-service');
+      const executeTool = vi.fn();
+      const orchestrator = new ChatOrchestratorService({
+        executeTool,
+        allowTool: (name) => name !== 'create_task',
+      });
+
+      const events: unknown[] = [];
+      for await (const event of orchestrator.processMessage({
+        message: 'Create a task to buy milk',
+        conversationId: 'test-conv-restricted',
+        context: CONTEXT,
+      })) {
+        events.push(event);
+      }
+      orchestrator.clearConversation('test-conv-restricted');
+
+      const offeredTools = (mockCreate.mock.calls[0][0] as { tools?: Array<{ function: { name: string } }> }).tools ?? [];
+      expect(offeredTools.map((tool) => tool.function.name)).not.toContain('create_task');
+      expect(executeTool).not.toHaveBeenCalled();
+
+      const resultEvent = events.find((e) => (e as { type: string }).type === 'result') as { data: { success: boolean } };
+      expect(resultEvent.data.success).toBe(false);
+    });
+  });
+
   describe('clearConversation()', () => {
     it('should clear conversation history', async () => {
       const { chatOrchestratorService } = await import('@/lib/services/ai/chat-orchestrator-service');
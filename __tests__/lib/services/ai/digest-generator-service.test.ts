@@ -4,9 +4,8 @@
  * and JSON cleanup / schema validation logic.
  *
  * Strategy: mock @google/generative-ai so getGenerativeModel always returns
- * a fresh model object using the same mockGenerateContent function.
- * We reset the singleton's cached client+model before each test so the lazy
- * init runs again and picks up freshly queued mockResolvedValueOnce calls.
+ * a fresh model object using the same mockGenerateContent function. With no
+ * OPENROUTER_API_KEY or LLM_PROVIDER set, the LLM layer resolves to Gemini.
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
@@ -28,19 +27,9 @@ vi.mock('@google/generative-ai', () => ({
   }),
 }));
 
-// ---------------------------------------------------------------------------
-// Reset singleton state before each test so the lazy init fires again
-// This ensures mockGenerateContent calls land on a freshly constructed model.
-// ---------------------------------------------------------------------------
-
 beforeEach(() => {
   vi.clearAllMocks();
   process.env.GOOGLE_GEMINI_API_KEY = 'test-key';
-  // Force the singleton to rebuild its client on next generateDigest call
-   
-  (digestGeneratorService as any).genAI = null;
-   
-  (digestGeneratorService as any).model = null;
 });
 
 // ---------------------------------------------------------------------------
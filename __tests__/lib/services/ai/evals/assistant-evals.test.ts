@@ -0,0 +1,43 @@
+/**
+ * Replays the recorded assistant conversations in ./fixtures through the chat
+ * orchestrator without network access. A failure means a change to the
+ * orchestrator, the tool definitions or the executor's contract broke a
+ * conversation that used to work. Stale cases were recorded against an
+ * older prompt or tool set; re-record them with scripts/record-ai-evals.ts.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { formatEvalReport, runEvalSuite, type EvalCase } from '@/lib/services/ai/evals';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+function loadCases(): EvalCase[] {
+  return fs
+    .readdirSync(FIXTURES_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8')) as EvalCase);
+}
+
+describe('assistant evals', () => {
+  it('replays every recorded conversation with the expected tool calls', async () => {
+    const report = await runEvalSuite(loadCases());
+    const summary = formatEvalReport(report);
+
+    if (report.stale > 0) {
+      console.warn(summary);
+    }
+
+    expect(report.cases.length).toBeGreaterThan(0);
+    expect(report.failed, summary).toBe(0);
+    expect(report.toolChoiceAccuracy, summary).toBe(1);
+    expect(report.argumentAccuracy, summary).toBe(1);
+    expect(report.hallucinatedIds, summary).toBe(0);
+  });
+});
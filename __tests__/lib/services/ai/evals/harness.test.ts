@@ -0,0 +1,174 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  FixtureExhaustedError,
+  createFixturePlayer,
+  createInMemoryToolRunner,
+  matchesExpectedValue,
+  runEvalCase,
+  scoreTurn,
+  type EvalCase,
+} from '@/lib/services/ai/evals';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+const SPACE_CONTEXT = {
+  spaceId: 'space-1',
+  spaceName: 'Home',
+  members: [{ id: 'member-sam', displayName: 'Sam', role: 'member' }],
+  timezone: 'UTC',
+  userName: 'Alex',
+  userId: 'member-alex',
+};
+
+const WORLD = {
+  tasks: [{ id: 'task-1', title: 'Grocery run', status: 'pending' }],
+};
+
+const CONTEXT = { userId: 'member-alex', spaceId: 'space-1', supabase: {} as never };
+
+describe('assistant eval harness', () => {
+  describe('matchesExpectedValue', () => {
+    it('compares strings loosely and objects partially', () => {
+      expect(matchesExpectedValue(' milk ', 'Milk')).toBe(true);
+      expect(matchesExpectedValue({ $match: '^\\d{4}-' }, '2026-10-20')).toBe(true);
+      expect(matchesExpectedValue({ $present: true }, undefined)).toBe(false);
+      expect(matchesExpectedValue({ unit: 'g' }, { unit: 'G', amount: 5 })).toBe(true);
+      expect(matchesExpectedValue(['a'], ['a', 'b'])).toBe(false);
+      expect(matchesExpectedValue(3, '3')).toBe(false);
+    });
+  });
+
+  describe('scoreTurn', () => {
+    it('matches calls in order and counts missing and extra calls', () => {
+      const score = scoreTurn(
+        1,
+        [{ name: 'list_tasks' }, { name: 'complete_task', args: { task_id: 'task-1' } }],
+        [
+          { name: 'list_tasks', args: {} },
+          { name: 'complete_task', args: { task_id: 'task-2' } },
+          { name: 'create_task', args: { title: 'x' } },
+        ]
+      );
+
+      expect(score).toMatchObject({ matchedCalls: 2, possibleCalls: 3, matchedArgs: 0, checkedArgs: 1 });
+      expect(score.failures).toEqual([
+        'turn 1: complete_task.task_id expected "task-1", got "task-2"',
+        'turn 1: 1 unexpected call (create_task)',
+      ]);
+    });
+  });
+
+  describe('createInMemoryToolRunner', () => {
+    it('reads seeded rows and makes created rows addressable', async () => {
+      const tools = createInMemoryToolRunner(WORLD, SPACE_CONTEXT);
+
+      const listed = await tools.executeTool('list_tasks', { status: 'pending' }, CONTEXT);
+      const created = await tools.executeTool('create_task', { title: 'Mow', assigned_to: 'member-sam' }, CONTEXT);
+      const completed = await tools.executeTool('complete_task', { task_id: String(created.data?.id) }, CONTEXT);
+
+      expect(listed.data).toMatchObject({ count: 1, tasks: [{ id: 'task-1' }] });
+      expect(completed.success).toBe(true);
+      expect(tools.world.tasks[1]).toMatchObject({ title: 'Mow', status: 'completed' });
+      expect(WORLD.tasks).toHaveLength(1);
+    });
+
+    it('rejects arguments that do not match the tool schema', async () => {
+      const tools = createInMemoryToolRunner(WORLD, SPACE_CONTEXT);
+
+      const missing = await tools.executeTool('create_task', {}, CONTEXT);
+      const badEnum = await tools.executeTool('create_task', { title: 'Mow', priority: 'asap' }, CONTEXT);
+      const unknown = await tools.executeTool('launch_rocket', {}, CONTEXT);
+
+      expect(missing.message).toContain('title: Required');
+      expect(badEnum.message).toContain('priority: Expected one of');
+      expect(unknown).toMatchObject({ success: false, message: 'Unknown tool: launch_rocket' });
+    });
+
+    it('flags IDs that name no row or member', async () => {
+      const tools = createInMemoryToolRunner(WORLD, SPACE_CONTEXT);
+
+      const result = await tools.executeTool('complete_task', { task_id: 'task-404' }, CONTEXT);
+
+      expect(result.success).toBe(false);
+      expect(tools.calls[0].unknownIds).toEqual([{ argument: 'task_id', value: 'task-404' }]);
+    });
+  });
+
+  describe('createFixturePlayer', () => {
+    it('replays a turn\'s responses in order, then runs out', async () => {
+      const player = createFixturePlayer();
+      player.startTurn([{ toolCalls: [{ name: 'list_tasks', args: {} }] }, { text: 'Done' }]);
+
+      const first = await player.chat({ messages: [] });
+      const second = await player.chat({ messages: [] });
+
+      expect(first.toolCalls).toEqual([{ id: 'call_1', name: 'list_tasks', args: {} }]);
+      expect(second.text).toBe('Done');
+      expect(player.remaining()).toBe(0);
+      await expect(player.chat({ messages: [] })).rejects.toThrow(FixtureExhaustedError);
+    });
+  });
+
+  describe('runEvalCase', () => {
+    const evalCase: EvalCase = {
+      id: 'complete-task',
+      description: 'Completes a seeded task',
+      spaceContext: SPACE_CONTEXT,
+      world: WORLD,
+      turns: [
+        {
+          user: 'I did the grocery run',
+          responses: [
+            { toolCalls: [{ name: 'complete_task', args: { task_id: 'task-1' } }] },
+            { text: 'Nice!' },
+          ],
+          expectedToolCalls: [{ name: 'complete_task', args: { task_id: 'task-1' } }],
+        },
+      ],
+    };
+
+    it('passes a conversation that makes the expected calls', async () => {
+      const result = await runEvalCase(evalCase);
+
+      expect(result).toMatchObject({ passed: true, toolChoiceAccuracy: 1, argumentAccuracy: 1, stale: true });
+      expect(result.toolCalls).toEqual([
+        expect.objectContaining({ turn: 1, name: 'complete_task', success: true }),
+      ]);
+    });
+
+    it('reports hallucinated IDs and responses the orchestrator never asked for', async () => {
+      const result = await runEvalCase({
+        ...evalCase,
+        turns: [
+          {
+            ...evalCase.turns[0],
+            responses: [
+              { toolCalls: [{ name: 'complete_task', args: { task_id: 'task-99' } }] },
+              { text: 'Nice!' },
+              { text: 'Anything else?' },
+            ],
+          },
+        ],
+      });
+
+      expect(result.passed).toBe(false);
+      expect(result.argumentAccuracy).toBe(0);
+      expect(result.hallucinatedIds).toEqual([
+        { turn: 1, toolName: 'complete_task', argument: 'task_id', value: 'task-99' },
+      ]);
+      expect(result.failures).toContain('turn 1: 1 recorded response(s) were never requested');
+    });
+
+    it('reports an orchestrator that asks for more responses than were recorded', async () => {
+      const result = await runEvalCase({
+        ...evalCase,
+        turns: [{ ...evalCase.turns[0], responses: [evalCase.turns[0].responses[0]] }],
+      });
+
+      expect(result.passed).toBe(false);
+      expect(result.failures[0]).toMatch(/^turn 1: assistant error/);
+    });
+  });
+});
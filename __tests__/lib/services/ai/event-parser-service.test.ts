@@ -223,7 +223,8 @@ describe('EventParserService', () => {
         referenceDate: refDate,
       });
 
-      const callArg = mockFn.mock.calls[0][0] as string;
+      const request = mockFn.mock.calls[0][0] as { contents: Array<{ parts: Array<{ text?: string }> }> };
+      const callArg = request.contents[0].parts[0].text;
       expect(callArg).toContain('America/Los_Angeles');
       expect(callArg).toContain(refDate.toISOString());
     });
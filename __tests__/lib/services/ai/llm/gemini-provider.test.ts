@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createGeminiProvider } from '@/lib/services/ai/llm/gemini-provider';
+import { LLMConfigurationError } from '@/lib/services/ai/llm/llm-provider';
+
+const { mockGenerateContent, mockGenerateContentStream, mockGetGenerativeModel } = vi.hoisted(() => ({
+  mockGenerateContent: vi.fn(),
+  mockGenerateContentStream: vi.fn(),
+  mockGetGenerativeModel: vi.fn(),
+}));
+
+vi.mock('@google/generative-ai', () => ({
+  GoogleGenerativeAI: vi.fn(function () {
+    return { getGenerativeModel: mockGetGenerativeModel };
+  }),
+}));
+
+describe('gemini-provider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.LLM_MODEL;
+    mockGetGenerativeModel.mockReturnValue({
+      generateContent: mockGenerateContent,
+      generateContentStream: mockGenerateContentStream,
+    });
+  });
+
+  it('throws a configuration error when no key is available', async () => {
+    const previous = process.env.GOOGLE_GEMINI_API_KEY;
+    delete process.env.GOOGLE_GEMINI_API_KEY;
+
+    await expect(createGeminiProvider().chat({ messages: [{ role: 'user', content: 'Hi' }] }))
+      .rejects.toBeInstanceOf(LLMConfigurationError);
+
+    if (previous !== undefined) process.env.GOOGLE_GEMINI_API_KEY = previous;
+  });
+
+  it('lifts system messages out and maps tool turns to function parts', async () => {
+    mockGenerateContent.mockResolvedValue({ response: { text: () => 'All set' } });
+    const provider = createGeminiProvider('key');
+
+    const response = await provider.chat({
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Add milk' },
+        { role: 'assistant', content: null, toolCalls: [{ id: 'c1', name: 'create_task', args: { title: 'Milk' } }] },
+        { role: 'tool', content: '{"success":true}', toolCallId: 'c1', name: 'create_task' },
+      ],
+      tools: [{
+        name: 'create_task',
+        description: 'Create a task',
+        parameters: { type: 'object', properties: { title: { type: 'string' } }, required: ['title'] },
+      }],
+      temperature: 0.1,
+      json: true,
+    });
+
+    expect(mockGetGenerativeModel).toHaveBeenCalledWith({
+      model: 'gemini-2.5-flash',
+      generationConfig: { temperature: 0.1, responseMimeType: 'application/json' },
+    });
+    expect(mockGenerateContent).toHaveBeenCalledWith({
+      contents: [
+        { role: 'user', parts: [{ text: 'Add milk' }] },
+        { role: 'model', parts: [{ functionCall: { name: 'create_task', args: { title: 'Milk' } } }] },
+        { role: 'function', parts: [{ functionResponse: { name: 'create_task', response: { success: true } } }] },
+      ],
+      systemInstruction: 'Be brief.',
+      tools: [{
+        functionDeclarations: [{
+          name: 'create_task',
+          description: 'Create a task',
+          parameters: { type: 'OBJECT', properties: { title: { type: 'STRING' } }, required: ['title'] },
+        }],
+      }],
+    });
+    expect(response).toEqual({ text: 'All set', toolCalls: [], model: 'gemini-2.5-flash', usage: undefined });
+  });
+
+  it('streams text parts and returns function calls from the final response', async () => {
+    mockGenerateContentStream.mockResolvedValue({
+      stream: (async function* () {
+        yield { candidates: [{ content: { parts: [{ text: 'Adding ' }] } }] };
+        yield { candidates: [{ content: { parts: [{ text: 'it.' }] } }] };
+      })(),
+      response: Promise.resolve({
+        functionCalls: () => [{ name: 'create_task', args: { title: 'Milk' } }],
+        usageMetadata: { promptTokenCount: 20, candidatesTokenCount: 5 },
+      }),
+    });
+    const provider = createGeminiProvider('key');
+
+    const generator = provider.stream({ messages: [{ role: 'user', content: 'Add milk' }] });
+    const deltas: string[] = [];
+    let step = await generator.next();
+    while (!step.done) {
+      deltas.push(step.value);
+      step = await generator.next();
+    }
+
+    expect(deltas).toEqual(['Adding ', 'it.']);
+    expect(step.value).toMatchObject({
+      text: 'Adding it.',
+      toolCalls: [{ id: expect.any(String), name: 'create_task', args: { title: 'Milk' } }],
+      usage: { inputTokens: 20, outputTokens: 5 },
+    });
+  });
+});
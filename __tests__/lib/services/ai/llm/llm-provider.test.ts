@@ -0,0 +1,140 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { SchemaType } from '@google/generative-ai';
+import {
+  convertFunctionDeclarations,
+  getLLMProvider,
+  isLLMConfigurationError,
+  LLMConfigurationError,
+  listLLMProviders,
+  parseToolArguments,
+  registerLLMProvider,
+  resolveLLMProviderName,
+  stripCodeFences,
+  type LLMProvider,
+} from '@/lib/services/ai/llm/llm-provider';
+
+const ENV_KEYS = ['LLM_PROVIDER', 'OPENROUTER_API_KEY'] as const;
+const savedEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+
+function fakeProvider(name: string): LLMProvider {
+  return {
+    name,
+    models: ['fake-model'],
+    chat: async () => ({ text: '', toolCalls: [], model: 'fake-model' }),
+    stream: async function* () {
+      return { text: '', toolCalls: [], model: 'fake-model' };
+    },
+  };
+}
+
+describe('llm-provider', () => {
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+  });
+
+  describe('resolveLLMProviderName', () => {
+    it('prefers an explicit name, then LLM_PROVIDER', () => {
+      process.env.LLM_PROVIDER = 'local';
+
+      expect(resolveLLMProviderName(' Gemini ')).toBe('gemini');
+      expect(resolveLLMProviderName()).toBe('local');
+    });
+
+    it('uses OpenRouter when its key is set and Gemini otherwise', () => {
+      delete process.env.LLM_PROVIDER;
+      process.env.OPENROUTER_API_KEY = 'key';
+      expect(resolveLLMProviderName()).toBe('openrouter');
+
+      delete process.env.OPENROUTER_API_KEY;
+      expect(resolveLLMProviderName()).toBe('gemini');
+    });
+  });
+
+  describe('getLLMProvider', () => {
+    it('lists the built-in providers', () => {
+      expect(listLLMProviders()).toEqual(expect.arrayContaining(['openrouter', 'gemini', 'local']));
+    });
+
+    it('rejects unknown providers', async () => {
+      await expect(getLLMProvider('nope')).rejects.toThrow('Unknown LLM provider "nope"');
+    });
+
+    it('creates registered providers once', async () => {
+      let created = 0;
+      registerLLMProvider('Fake', async () => {
+        created++;
+        return fakeProvider('fake');
+      });
+
+      const first = await getLLMProvider('fake');
+      const second = await getLLMProvider('FAKE');
+
+      expect(first).toBe(second);
+      expect(created).toBe(1);
+    });
+
+    it('retries a provider whose initialization failed', async () => {
+      let attempts = 0;
+      registerLLMProvider('flaky', async () => {
+        attempts++;
+        if (attempts === 1) throw new Error('not ready');
+        return fakeProvider('flaky');
+      });
+
+      await expect(getLLMProvider('flaky')).rejects.toThrow('not ready');
+      await expect(getLLMProvider('flaky')).resolves.toMatchObject({ name: 'flaky' });
+    });
+  });
+
+  describe('helpers', () => {
+    it('strips markdown code fences', () => {
+      expect(stripCodeFences('```json\n{"a":1}\n```')).toBe('{"a":1}');
+      expect(stripCodeFences('```\n{"a":1}```')).toBe('{"a":1}');
+      expect(stripCodeFences(' {"a":1} ')).toBe('{"a":1}');
+    });
+
+    it('parses tool arguments leniently', () => {
+      expect(parseToolArguments('{"title":"Milk"}')).toEqual({ title: 'Milk' });
+      expect(parseToolArguments('{"title":')).toEqual({});
+      expect(parseToolArguments('[1]')).toEqual({});
+      expect(parseToolArguments(undefined)).toEqual({});
+    });
+
+    it('recognizes configuration errors', () => {
+      expect(isLLMConfigurationError(new LLMConfigurationError('missing'))).toBe(true);
+      expect(isLLMConfigurationError(new Error('API key not valid'))).toBe(true);
+      expect(isLLMConfigurationError(new Error('429 Too Many Requests'))).toBe(false);
+    });
+
+    it('converts Google function declarations to JSON Schema tools', () => {
+      const [tool] = convertFunctionDeclarations([{
+        name: 'create_task',
+        description: 'Create a task',
+        parameters: {
+          type: SchemaType.OBJECT,
+          properties: {
+            title: { type: SchemaType.STRING, description: 'Title' },
+            tags: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+          },
+          required: ['title'],
+        },
+      }]);
+
+      expect(tool).toEqual({
+        name: 'create_task',
+        description: 'Create a task',
+        parameters: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', description: 'Title' },
+            tags: { type: 'array', items: { type: 'string' } },
+          },
+          required: ['title'],
+        },
+      });
+    });
+  });
+});
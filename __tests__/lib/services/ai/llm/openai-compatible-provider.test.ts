@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createLocalProvider,
+  createOpenAICompatibleProvider,
+  createOpenRouterProvider,
+} from '@/lib/services/ai/llm/openai-compatible-provider';
+import { LLMConfigurationError } from '@/lib/services/ai/llm/llm-provider';
+
+const { mockCreate, mockConstructor } = vi.hoisted(() => ({
+  mockCreate: vi.fn(),
+  mockConstructor: vi.fn(),
+}));
+
+vi.mock('openai', () => ({
+  default: vi.fn(function (options: unknown) {
+    mockConstructor(options);
+    return { chat: { completions: { create: mockCreate } } };
+  }),
+}));
+
+function makeStream(chunks: unknown[]) {
+  return {
+    async *[Symbol.asyncIterator]() {
+      for (const chunk of chunks) yield chunk;
+    },
+  };
+}
+
+async function drain(generator: AsyncGenerator<string, unknown>) {
+  const deltas: string[] = [];
+  let step = await generator.next();
+  while (!step.done) {
+    deltas.push(step.value);
+    step = await generator.next();
+  }
+  return { deltas, result: step.value };
+}
+
+describe('openai-compatible-provider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.LLM_LOCAL_BASE_URL;
+    delete process.env.LLM_LOCAL_MODEL;
+    delete process.env.LLM_LOCAL_API_KEY;
+    delete process.env.LLM_MODEL;
+  });
+
+  describe('chat', () => {
+    it('converts messages, tools and JSON mode to the chat completions API', async () => {
+      mockCreate.mockResolvedValue({
+        model: 'test-model',
+        choices: [{ message: { content: '{"ok":true}' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 4 },
+      });
+      const provider = createOpenAICompatibleProvider({
+        name: 'test',
+        baseURL: 'http://llm.test/v1',
+        apiKey: 'key',
+        models: ['test-model'],
+      });
+
+      const response = await provider.chat({
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'Read this', images: [{ mimeType: 'image/png', data: 'AAAA' }] },
+        ],
+        tools: [{ name: 'create_task', description: 'Create a task', parameters: { type: 'object', properties: {} } }],
+        temperature: 0.2,
+        maxTokens: 100,
+        json: true,
+      });
+
+      expect(mockCreate).toHaveBeenCalledWith({
+        model: 'test-model',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'Read this' },
+              { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+            ],
+          },
+        ],
+        tools: [{
+          type: 'function',
+          function: { name: 'create_task', description: 'Create a task', parameters: { type: 'object', properties: {} } },
+        }],
+        temperature: 0.2,
+        max_tokens: 100,
+        response_format: { type: 'json_object' },
+        stream: false,
+      });
+      expect(response).toEqual({
+        text: '{"ok":true}',
+        toolCalls: [],
+        model: 'test-model',
+        usage: { inputTokens: 12, outputTokens: 4 },
+      });
+    });
+
+    it('sends tool calls and tool results back in OpenAI form', async () => {
+      mockCreate.mockResolvedValue({ choices: [{ message: { content: 'Done' } }] });
+      const provider = createOpenAICompatibleProvider({ name: 'test', baseURL: 'http://llm.test/v1', models: ['m'] });
+
+      await provider.chat({
+        messages: [
+          { role: 'assistant', content: null, toolCalls: [{ id: 'call-1', name: 'create_task', args: { title: 'Milk' } }] },
+          { role: 'tool', content: '{"success":true}', toolCallId: 'call-1', name: 'create_task' },
+        ],
+      });
+
+      expect(mockCreate.mock.calls[0][0].messages).toEqual([
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'call-1', type: 'function', function: { name: 'create_task', arguments: '{"title":"Milk"}' } }],
+        },
+        { role: 'tool', tool_call_id: 'call-1', content: '{"success":true}' },
+      ]);
+    });
+  });
+
+  describe('stream', () => {
+    it('yields text deltas and assembles fragmented tool calls', async () => {
+      mockCreate.mockResolvedValue(makeStream([
+        { choices: [{ delta: { content: 'On it. ' } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call-1', function: { name: 'create_task', arguments: '{"title":' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '"Milk"}' } }] } }] },
+        { choices: [] },
+      ]));
+      const provider = createOpenAICompatibleProvider({ name: 'test', baseURL: 'http://llm.test/v1', models: ['m'] });
+
+      const { deltas, result } = await drain(provider.stream({ messages: [{ role: 'user', content: 'Add milk' }] }));
+
+      expect(deltas).toEqual(['On it. ']);
+      expect(result).toEqual({
+        text: 'On it. ',
+        toolCalls: [{ id: 'call-1', name: 'create_task', args: { title: 'Milk' } }],
+        model: 'm',
+      });
+      expect(mockCreate.mock.calls[0][0].stream).toBe(true);
+    });
+  });
+
+  describe('createOpenRouterProvider', () => {
+    it('throws a configuration error on first use when the key is missing', async () => {
+      const provider = createOpenRouterProvider('');
+
+      await expect(provider.chat({ messages: [{ role: 'user', content: 'Hi' }] }))
+        .rejects.toBeInstanceOf(LLMConfigurationError);
+      expect(mockConstructor).not.toHaveBeenCalled();
+    });
+
+    it('lists a fallback model after the primary', () => {
+      expect(createOpenRouterProvider('key').models).toEqual([
+        'google/gemini-2.5-flash',
+        'meta-llama/llama-4-maverick',
+      ]);
+    });
+  });
+
+  describe('createLocalProvider', () => {
+    it('defaults to an Ollama endpoint and needs no key', async () => {
+      mockCreate.mockResolvedValue({ choices: [{ message: { content: 'Hi' } }] });
+      const provider = createLocalProvider();
+
+      await provider.chat({ messages: [{ role: 'user', content: 'Hi' }] });
+
+      expect(provider.models).toEqual(['llama3.1']);
+      expect(mockConstructor).toHaveBeenCalledWith(expect.objectContaining({
+        baseURL: 'http://localhost:11434/v1',
+        apiKey: 'not-needed',
+      }));
+    });
+
+    it('reads the endpoint and model from the environment', async () => {
+      process.env.LLM_LOCAL_BASE_URL = 'http://llama:8080/v1';
+      process.env.LLM_LOCAL_MODEL = 'qwen2.5:7b';
+      mockCreate.mockResolvedValue({ choices: [{ message: { content: 'Hi' } }] });
+
+      const provider = createLocalProvider();
+      await provider.chat({ messages: [{ role: 'user', content: 'Hi' }] });
+
+      expect(provider.models).toEqual(['qwen2.5:7b']);
+      expect(mockConstructor).toHaveBeenCalledWith(expect.objectContaining({ baseURL: 'http://llama:8080/v1' }));
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Tests for the AI memory store (lib/services/ai/memory-service.ts)
+ * Verifies CRUD, relevance ranking for the prompt, and chat proposals.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  AIMemoryError,
+  approveMemory,
+  createMemory,
+  deleteMemory,
+  looksLikeDurableFact,
+  proposeMemoriesFromMessage,
+  selectRelevantMemories,
+} from '@/lib/services/ai/memory-service';
+import { getLLMProvider } from '@/lib/services/ai/llm';
+import type { AIMemory } from '@/lib/types/ai';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+vi.mock('@/lib/services/ai/llm', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/services/ai/llm')>();
+  return { ...actual, getLLMProvider: vi.fn() };
+});
+
+const SPACE_ID = 'space-1';
+const USER_ID = 'user-1';
+const MEMBERS = [
+  { id: 'user-1', displayName: 'Alice' },
+  { id: 'user-2', displayName: 'Sam' },
+];
+
+function createChainMock(resolvedValue: unknown) {
+  const mock: Record<string, unknown> = {};
+  const handler = () => mock;
+  ['select', 'eq', 'insert', 'update', 'delete', 'order', 'single', 'maybeSingle'].forEach((m) => {
+    mock[m] = vi.fn(handler);
+  });
+  mock.then = vi.fn((resolve: (v: unknown) => unknown) => resolve(resolvedValue));
+  return mock;
+}
+
+/** Supabase mock answering each table from a queue of results, in call order. */
+function createSupabaseMock(results: Record<string, unknown[]>) {
+  const chains: Record<string, Record<string, ReturnType<typeof vi.fn>>[]> = {};
+  const supabase = {
+    from: vi.fn((table: string) => {
+      const queue = results[table] ?? [];
+      const chain = createChainMock(queue.length > 1 ? queue.shift() : queue[0] ?? { data: null, error: null });
+      (chains[table] ??= []).push(chain as Record<string, ReturnType<typeof vi.fn>>);
+      return chain;
+    }),
+  };
+  return { supabase: supabase as unknown as SupabaseClient, chains };
+}
+
+function memory(overrides: Partial<AIMemory> = {}): AIMemory {
+  return {
+    id: 'mem-1',
+    space_id: SPACE_ID,
+    created_by: USER_ID,
+    subject_user_id: null,
+    category: 'other',
+    content: 'Bins go out on Tuesday night',
+    status: 'active',
+    source: 'user',
+    source_conversation_id: null,
+    approved_at: '2026-10-01T10:00:00.000Z',
+    created_at: '2026-10-01T10:00:00.000Z',
+    updated_at: '2026-10-01T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function mockProviderReply(text: string) {
+  const chat = vi.fn().mockResolvedValue({ text, toolCalls: [], model: 'test-model' });
+  vi.mocked(getLLMProvider).mockResolvedValue({ name: 'test', models: {}, chat, stream: vi.fn() } as never);
+  return chat;
+}
+
+describe('memory-service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createMemory', () => {
+    it('stores an active, user-written memory', async () => {
+      const { supabase, chains } = createSupabaseMock({ ai_memories: [{ data: memory(), error: null }] });
+
+      await createMemory(supabase, USER_ID, { spaceId: SPACE_ID, content: '  Sam is allergic to peanuts ', category: 'allergy' });
+
+      expect(chains.ai_memories[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+        space_id: SPACE_ID,
+        created_by: USER_ID,
+        content: 'Sam is allergic to peanuts',
+        category: 'allergy',
+        status: 'active',
+        source: 'user',
+      }));
+    });
+  });
+
+  describe('approveMemory', () => {
+    it('only approves proposals', async () => {
+      const { supabase, chains } = createSupabaseMock({
+        ai_memories: [{ data: memory({ status: 'active' }), error: null }],
+      });
+
+      await approveMemory(supabase, 'mem-1');
+
+      expect(chains.ai_memories[0].update).toHaveBeenCalledWith(expect.objectContaining({ status: 'active' }));
+      expect(chains.ai_memories[0].eq).toHaveBeenCalledWith('status', 'proposed');
+    });
+
+    it('throws a 404 when there is no proposal to approve', async () => {
+      const { supabase } = createSupabaseMock({ ai_memories: [{ data: null, error: null }] });
+
+      await expect(approveMemory(supabase, 'mem-1')).rejects.toMatchObject({ status: 404 });
+    });
+  });
+
+  describe('deleteMemory', () => {
+    it('throws AIMemoryError when nothing was deleted', async () => {
+      const { supabase } = createSupabaseMock({ ai_memories: [{ data: [], error: null }] });
+
+      await expect(deleteMemory(supabase, 'mem-1')).rejects.toBeInstanceOf(AIMemoryError);
+    });
+  });
+
+  describe('selectRelevantMemories', () => {
+    const memories = [
+      memory({ id: 'bins', content: 'Bins go out on Tuesday night', created_at: '2026-10-03T00:00:00Z' }),
+      memory({ id: 'pizza', category: 'preference', content: 'Friday dinner is pizza night', created_at: '2026-10-01T00:00:00Z' }),
+      memory({ id: 'peanuts', category: 'allergy', content: 'Sam is allergic to peanuts', created_at: '2026-09-01T00:00:00Z' }),
+    ];
+
+    it('always puts allergies and diets first', () => {
+      const result = selectRelevantMemories(memories, 'When do the bins go out?');
+
+      expect(result.map((m) => m.id)).toEqual(['peanuts', 'bins', 'pizza']);
+    });
+
+    it('ranks the rest by words shared with the message', () => {
+      const result = selectRelevantMemories(memories, 'Plan dinners for this week');
+
+      expect(result.map((m) => m.id)).toEqual(['peanuts', 'pizza', 'bins']);
+    });
+
+    it('respects the limit', () => {
+      expect(selectRelevantMemories(memories, undefined, 2)).toHaveLength(2);
+    });
+  });
+
+  describe('looksLikeDurableFact', () => {
+    it.each([
+      "We're vegetarian on Mondays",
+      'Sam is allergic to peanuts',
+      'Alice prefers oat milk',
+      "Bob doesn't eat mushrooms",
+    ])('accepts "%s"', (message) => {
+      expect(looksLikeDurableFact(message)).toBe(true);
+    });
+
+    it.each([
+      'Add milk to the shopping list',
+      'What is on the calendar tomorrow?',
+    ])('rejects "%s"', (message) => {
+      expect(looksLikeDurableFact(message)).toBe(false);
+    });
+  });
+
+  describe('proposeMemoriesFromMessage', () => {
+    const input = {
+      spaceId: SPACE_ID,
+      userId: USER_ID,
+      conversationId: 'conv-1',
+      members: MEMBERS,
+    };
+
+    it('skips the model for one-off requests', async () => {
+      const { supabase } = createSupabaseMock({});
+
+      const result = await proposeMemoriesFromMessage(supabase, { ...input, message: 'Add milk to the list' });
+
+      expect(result).toEqual([]);
+      expect(getLLMProvider).not.toHaveBeenCalled();
+    });
+
+    it('stores new facts as proposals and links the member they are about', async () => {
+      const { supabase, chains } = createSupabaseMock({
+        ai_memories: [
+          { data: [memory({ content: 'The household eats vegetarian on Mondays' })], error: null },
+          { data: [memory({ id: 'mem-2', status: 'proposed' })], error: null },
+        ],
+      });
+      const chat = mockProviderReply(JSON.stringify({
+        memories: [
+          { content: 'Sam is allergic to peanuts', category: 'allergy', about: 'sam' },
+          { content: 'The household eats vegetarian on Mondays.', category: 'dietary', about: null },
+        ],
+      }));
+
+      const result = await proposeMemoriesFromMessage(supabase, {
+        ...input,
+        message: "Remember that Sam is allergic to peanuts, and we're vegetarian on Mondays",
+      });
+
+      expect(result).toHaveLength(1);
+      expect(chat).toHaveBeenCalledWith(expect.objectContaining({ json: true }));
+      expect(chains.ai_memories[1].insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          content: 'Sam is allergic to peanuts',
+          category: 'allergy',
+          subject_user_id: 'user-2',
+          status: 'proposed',
+          source: 'chat',
+          source_conversation_id: 'conv-1',
+        }),
+      ]);
+    });
+
+    it('never throws when the model returns invalid JSON', async () => {
+      const { supabase } = createSupabaseMock({ ai_memories: [{ data: [], error: null }] });
+      mockProviderReply('not json');
+
+      const result = await proposeMemoriesFromMessage(supabase, { ...input, message: 'We always eat vegan' });
+
+      expect(result).toEqual([]);
+    });
+  });
+});
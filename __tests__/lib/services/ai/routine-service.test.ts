@@ -0,0 +1,343 @@
+/**
+ * Tests for AI routines (lib/services/ai/routine-service.ts)
+ * Verifies schedules, drafting in restricted mode, and applying approved drafts.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  AIRoutineError,
+  approveRoutineRun,
+  computeNextRunAt,
+  createDraftingToolRunner,
+  draftRoutineRun,
+  isRoutineToolAllowed,
+  rejectRoutineRun,
+  resolveRoutineSchedule,
+} from '@/lib/services/ai/routine-service';
+import { executeTool } from '@/lib/services/ai/tool-executor';
+import { logger } from '@/lib/logger';
+import type { LLMChatResponse, LLMProvider } from '@/lib/services/ai/llm';
+import type { AIRoutineRun, ProposedAction } from '@/lib/types/ai';
+import type { SpaceContext } from '@/lib/services/ai/system-prompt';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+vi.mock('@/lib/services/ai/tool-executor', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/services/ai/tool-executor')>();
+  return { ...actual, executeTool: vi.fn() };
+});
+
+const SPACE_ID = 'space-1';
+const USER_ID = 'user-1';
+const supabase = {} as SupabaseClient;
+const CONTEXT = { spaceId: SPACE_ID, userId: USER_ID, supabase };
+
+function createChainMock(resolvedValue: unknown) {
+  const mock: Record<string, unknown> = {};
+  const handler = () => mock;
+  ['select', 'eq', 'insert', 'update', 'delete', 'order', 'limit', 'single', 'maybeSingle'].forEach((m) => {
+    mock[m] = vi.fn(handler);
+  });
+  mock.then = vi.fn((resolve: (v: unknown) => unknown) => resolve(resolvedValue));
+  return mock;
+}
+
+/** Supabase mock answering each table from a queue of results, in call order. */
+function createSupabaseMock(results: Record<string, unknown[]>) {
+  const chains: Record<string, Record<string, ReturnType<typeof vi.fn>>[]> = {};
+  const client = {
+    from: vi.fn((table: string) => {
+      const queue = results[table] ?? [];
+      const chain = createChainMock(queue.length > 1 ? queue.shift() : queue[0] ?? { data: null, error: null });
+      (chains[table] ??= []).push(chain as Record<string, ReturnType<typeof vi.fn>>);
+      return chain;
+    }),
+  };
+  return { supabase: client as unknown as SupabaseClient, chains };
+}
+
+function run(proposedActions: ProposedAction[], overrides: Partial<AIRoutineRun> = {}): AIRoutineRun {
+  return {
+    id: 'run-1',
+    routine_id: 'routine-1',
+    space_id: SPACE_ID,
+    status: 'applying',
+    summary: 'Planned dinners for next week',
+    proposed_actions: proposedActions,
+    results: null,
+    error: null,
+    reviewed_by: USER_ID,
+    reviewed_at: '2026-10-19T10:00:00.000Z',
+    created_at: '2026-10-18T18:00:00.000Z',
+    ...overrides,
+  };
+}
+
+/** Provider that answers each model call with the next scripted reply */
+function scriptedProvider(replies: Array<Partial<LLMChatResponse>>): LLMProvider {
+  const queue = [...replies];
+  return {
+    name: 'test',
+    models: ['test-model'],
+    chat: vi.fn(),
+    stream: vi.fn(async function* () {
+      const reply = { text: '', toolCalls: [], model: 'test-model', ...queue.shift() };
+      if (reply.text) yield reply.text;
+      return reply;
+    }),
+  };
+}
+
+const SPACE_CONTEXT: SpaceContext = {
+  spaceId: SPACE_ID,
+  spaceName: 'Home',
+  members: [{ id: USER_ID, displayName: 'Alice', role: 'owner' }],
+  timezone: 'Europe/London',
+  userName: 'Alice',
+  userId: USER_ID,
+};
+
+describe('routine-service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('resolveRoutineSchedule', () => {
+    it('starts today at the given local time', () => {
+      const { rrule, dtstart } = resolveRoutineSchedule(
+        { rrule: 'freq=weekly;byday=su', time: '18:00', timezone: 'Europe/London' },
+        new Date('2026-10-19T09:00:00Z')
+      );
+
+      expect(rrule).toBe('FREQ=WEEKLY;BYDAY=SU');
+      // BST: 18:00 local is 17:00 UTC
+      expect(dtstart.toISOString()).toBe('2026-10-19T17:00:00.000Z');
+    });
+
+    it.each([
+      ['FREQ=HOURLY', 'at most once a day'],
+      ['FREQ=DAILY;BYHOUR=6,18', 'time of day'],
+      ['FREQ=SOMETIMES', 'Invalid schedule'],
+    ])('rejects %s', (rrule, message) => {
+      expect(() => resolveRoutineSchedule({ rrule, time: '18:00', timezone: 'UTC' })).toThrow(message);
+    });
+
+    it('rejects an unknown timezone', () => {
+      expect(() => resolveRoutineSchedule({ rrule: 'FREQ=DAILY', time: '18:00', timezone: 'Mars/Olympus' }))
+        .toThrow(AIRoutineError);
+    });
+  });
+
+  describe('computeNextRunAt', () => {
+    it('follows the routine timezone across a DST change', () => {
+      const routine = { rrule: 'FREQ=WEEKLY;BYDAY=SU', dtstart: '2026-10-18T17:00:00Z', timezone: 'Europe/London' };
+
+      // Clocks go back on 25 October; 18:00 local is then 18:00 UTC
+      expect(computeNextRunAt(routine, new Date('2026-10-19T00:00:00Z'))?.toISOString()).toBe('2026-10-25T18:00:00.000Z');
+    });
+  });
+
+  describe('isRoutineToolAllowed', () => {
+    it('never offers delete tools', () => {
+      expect(isRoutineToolAllowed('delete_task')).toBe(false);
+      expect(isRoutineToolAllowed('create_shopping_list')).toBe(true);
+      expect(isRoutineToolAllowed('list_meals')).toBe(true);
+    });
+  });
+
+  describe('createDraftingToolRunner', () => {
+    it('records writes instead of making them', async () => {
+      const actions: ProposedAction[] = [];
+      const runner = createDraftingToolRunner(actions);
+
+      const result = await runner('create_shopping_list', { title: 'Weekly shop' }, CONTEXT);
+
+      expect(executeTool).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ success: true, data: { id: 'draft-1', draft: true } });
+      expect(actions).toEqual([{
+        ref: 'draft-1',
+        toolName: 'create_shopping_list',
+        parameters: { title: 'Weekly shop' },
+        description: 'Create shopping list: "Weekly shop"',
+      }]);
+    });
+
+    it('runs reads for real', async () => {
+      vi.mocked(executeTool).mockResolvedValue({ success: true, message: 'Found 2 meals', featureType: 'meal' });
+      const runner = createDraftingToolRunner([]);
+
+      await runner('list_meals', {}, CONTEXT);
+
+      expect(executeTool).toHaveBeenCalledWith('list_meals', {}, CONTEXT);
+    });
+
+    it('does not look up items that only exist in the draft', async () => {
+      const runner = createDraftingToolRunner([]);
+
+      const result = await runner('get_budget', { list_id: 'draft-1' }, CONTEXT);
+
+      expect(result.success).toBe(false);
+      expect(executeTool).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('draftRoutineRun', () => {
+    it('collects the summary and the proposed writes', async () => {
+      const provider = scriptedProvider([
+        {
+          toolCalls: [
+            { id: 'call-1', name: 'create_shopping_list', args: { title: 'Weekly shop' } },
+            { id: 'call-2', name: 'add_shopping_item', args: { list_id: 'draft-1', name: 'Pasta' } },
+          ],
+        },
+        { text: 'Drafted a shopping list for next week.' },
+      ]);
+
+      const draft = await draftRoutineRun(
+        supabase,
+        { id: 'routine-1', space_id: SPACE_ID, created_by: USER_ID, name: 'Weekly shop', instructions: 'Build the shopping list' },
+        SPACE_CONTEXT,
+        { getProvider: async () => provider }
+      );
+
+      expect(executeTool).not.toHaveBeenCalled();
+      expect(draft.summary).toBe('Drafted a shopping list for next week.');
+      expect(draft.proposedActions.map((a) => a.toolName)).toEqual(['create_shopping_list', 'add_shopping_item']);
+
+      const offered = vi.mocked(provider.stream).mock.calls[0][0].tools ?? [];
+      expect(offered.some((tool) => tool.name.startsWith('delete_'))).toBe(false);
+    });
+  });
+
+  describe('approveRoutineRun', () => {
+    /** Supabase mock answering the review functions in call order */
+    function createRpcMock(...results: Array<{ data: unknown; error: unknown }>) {
+      const rpc = vi.fn();
+      results.forEach((result) => rpc.mockResolvedValueOnce(result));
+      return { client: { rpc } as unknown as SupabaseClient, rpc };
+    }
+
+    it('applies actions in order and resolves draft ids', async () => {
+      const actions: ProposedAction[] = [
+        { ref: 'draft-1', toolName: 'create_shopping_list', parameters: { title: 'Weekly shop' }, description: '' },
+        { ref: 'draft-2', toolName: 'add_shopping_item', parameters: { list_id: 'draft-1', name: 'Pasta' }, description: '' },
+      ];
+      const { client, rpc } = createRpcMock(
+        { data: run(actions), error: null },
+        { data: run(actions, { status: 'applied' }), error: null }
+      );
+      vi.mocked(executeTool)
+        .mockResolvedValueOnce({ success: true, message: 'Created', data: { id: 'list-42' }, featureType: 'shopping' })
+        .mockResolvedValueOnce({ success: true, message: 'Added', data: { id: 'item-1' }, featureType: 'shopping' });
+
+      await approveRoutineRun(client, USER_ID, 'run-1');
+
+      expect(rpc).toHaveBeenNthCalledWith(1, 'review_ai_routine_run', { p_run_id: 'run-1', p_status: 'applying' });
+      expect(executeTool).toHaveBeenNthCalledWith(2, 'add_shopping_item', { list_id: 'list-42', name: 'Pasta' }, {
+        spaceId: SPACE_ID,
+        userId: USER_ID,
+        supabase: client,
+      });
+      expect(rpc).toHaveBeenNthCalledWith(2, 'finish_ai_routine_run', {
+        p_run_id: 'run-1',
+        p_results: [
+          expect.objectContaining({ ref: 'draft-1', success: true }),
+          expect.objectContaining({ ref: 'draft-2', success: true }),
+        ],
+      });
+    });
+
+    it('skips actions that depend on a failed one', async () => {
+      const actions: ProposedAction[] = [
+        { ref: 'draft-1', toolName: 'create_shopping_list', parameters: { title: 'Weekly shop' }, description: '' },
+        { ref: 'draft-2', toolName: 'add_shopping_item', parameters: { list_id: 'draft-1', name: 'Pasta' }, description: '' },
+      ];
+      const { client, rpc } = createRpcMock({ data: run(actions), error: null }, { data: run(actions), error: null });
+      vi.mocked(executeTool).mockResolvedValueOnce({ success: false, message: 'Failed', featureType: 'shopping' });
+
+      await approveRoutineRun(client, USER_ID, 'run-1');
+
+      expect(executeTool).toHaveBeenCalledTimes(1);
+      expect(rpc).toHaveBeenLastCalledWith('finish_ai_routine_run', {
+        p_run_id: 'run-1',
+        p_results: [
+          expect.objectContaining({ ref: 'draft-1', success: false }),
+          expect.objectContaining({ ref: 'draft-2', success: false }),
+        ],
+      });
+    });
+
+    it('finishes the run even when applying stops with an error', async () => {
+      const actions: ProposedAction[] = [
+        { ref: 'draft-1', toolName: 'create_shopping_list', parameters: { title: 'Weekly shop' }, description: '' },
+        { ref: 'draft-2', toolName: 'create_task', parameters: { title: 'Mow the lawn' }, description: '' },
+      ];
+      const { client, rpc } = createRpcMock({ data: run(actions), error: null }, { data: run(actions), error: null });
+      vi.mocked(executeTool).mockRejectedValueOnce(new Error('Network error'));
+      vi.mocked(logger.error).mockImplementationOnce(() => {
+        throw new Error('Logger unavailable');
+      });
+
+      await expect(approveRoutineRun(client, USER_ID, 'run-1')).rejects.toThrow('Logger unavailable');
+
+      expect(rpc).toHaveBeenLastCalledWith('finish_ai_routine_run', {
+        p_run_id: 'run-1',
+        p_results: [
+          expect.objectContaining({ ref: 'draft-1', success: false }),
+          expect.objectContaining({
+            ref: 'draft-2',
+            success: false,
+            message: 'Not applied because applying the draft stopped early',
+          }),
+        ],
+      });
+    });
+
+    it('never runs deletes or reads stored on a draft', async () => {
+      const actions: ProposedAction[] = [
+        { ref: 'draft-1', toolName: 'delete_task', parameters: { task_id: 'task-1' }, description: 'Add milk' },
+        { ref: 'draft-2', toolName: 'get_tasks', parameters: {}, description: '' },
+        { ref: 'draft-3', toolName: 'create_task', parameters: { title: 'Buy milk' }, description: '' },
+      ];
+      const { client, rpc } = createRpcMock({ data: run(actions), error: null }, { data: run(actions), error: null });
+      vi.mocked(executeTool).mockResolvedValueOnce({ success: true, message: 'Created', featureType: 'task' });
+
+      await approveRoutineRun(client, USER_ID, 'run-1');
+
+      expect(executeTool).toHaveBeenCalledTimes(1);
+      expect(executeTool).toHaveBeenCalledWith('create_task', { title: 'Buy milk' }, expect.anything());
+      expect(rpc).toHaveBeenLastCalledWith('finish_ai_routine_run', {
+        p_run_id: 'run-1',
+        p_results: [
+          expect.objectContaining({ ref: 'draft-1', success: false }),
+          expect.objectContaining({ ref: 'draft-2', success: false }),
+          expect.objectContaining({ ref: 'draft-3', success: true }),
+        ],
+      });
+    });
+
+    it('returns 409 when the draft was already reviewed', async () => {
+      const { client } = createRpcMock({
+        data: null,
+        error: { code: 'P0001', message: 'This draft was already reviewed' },
+      });
+
+      await expect(approveRoutineRun(client, USER_ID, 'run-1')).rejects.toMatchObject({ status: 409 });
+      expect(executeTool).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rejectRoutineRun', () => {
+    it('marks a pending draft rejected without running anything', async () => {
+      const rpc = vi.fn().mockResolvedValue({ data: run([], { status: 'rejected' }), error: null });
+
+      await rejectRoutineRun({ rpc } as unknown as SupabaseClient, 'run-1');
+
+      expect(rpc).toHaveBeenCalledWith('review_ai_routine_run', { p_run_id: 'run-1', p_status: 'rejected' });
+      expect(executeTool).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -199,6 +199,25 @@ describe('buildSystemPrompt', () => {
     expect(prompt).not.toContain('LAST 24 HOURS');
   });
 
+  it('includes household memories with the member they are about', () => {
+    const context: SpaceContext = {
+      ...baseContext,
+      memories: [
+        { content: 'Bob is allergic to peanuts', category: 'allergy', about: 'Bob' },
+        { content: 'The household eats vegetarian on Mondays', category: 'dietary', about: null },
+      ],
+    };
+    const prompt = buildSystemPrompt(context);
+    expect(prompt).toContain('HOUSEHOLD MEMORY');
+    expect(prompt).toContain('Bob is allergic to peanuts (about Bob)');
+    expect(prompt).toContain('- The household eats vegetarian on Mondays\n');
+  });
+
+  it('omits HOUSEHOLD MEMORY block when there are no memories', () => {
+    const prompt = buildSystemPrompt({ ...baseContext, memories: [] });
+    expect(prompt).not.toContain('HOUSEHOLD MEMORY');
+  });
+
   it('does not expose member UUIDs as instructions to hide them', () => {
     const prompt = buildSystemPrompt(baseContext);
     // The prompt should instruct the AI not to reveal UUIDs to end users
@@ -174,6 +174,14 @@ vi.mock('@/lib/services/rewards/late-penalty-service', () => ({
   updateSpacePenaltySettings: vi.fn().mockResolvedValue(undefined),
 }));
 
+vi.mock('@/lib/services/ai/action-journal-service', () => ({
+  actionJournalService: {
+    isWriteTool: vi.fn((name: string) => !/^(list|get|search)_/.test(name)),
+    captureBefore: vi.fn().mockResolvedValue({ toolName: 'pending' }),
+    recordAction: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
 vi.mock('@/lib/validations/task-schemas', () => ({
   createTaskSchema: {
     parse: vi.fn((data) => data),
@@ -345,6 +353,42 @@ describe('executeTool()', () => {
     });
   });
 
+  describe('action journal', () => {
+    const journaled: ToolExecutionContext = {
+      ...context,
+      journal: { conversationId: 'conv-1', turnId: 'turn-1' },
+    };
+
+    it('should snapshot writes and record them under the turn', async () => {
+      const { actionJournalService } = await import('@/lib/services/ai/action-journal-service');
+
+      await executeTool('complete_task', { task_id: 'task-abc' }, journaled);
+
+      expect(vi.mocked(actionJournalService.captureBefore)).toHaveBeenCalledWith(
+        context.supabase,
+        'complete_task',
+        { task_id: 'task-abc' },
+        { spaceId: SPACE_ID, userId: USER_ID }
+      );
+      expect(vi.mocked(actionJournalService.recordAction)).toHaveBeenCalledWith(
+        context.supabase,
+        { conversationId: 'conv-1', turnId: 'turn-1' },
+        { toolName: 'pending' },
+        { id: 'task-abc' }
+      );
+    });
+
+    it('should not journal reads, failed writes or calls without a turn', async () => {
+      const { actionJournalService } = await import('@/lib/services/ai/action-journal-service');
+
+      await executeTool('list_tasks', {}, journaled);
+      await executeTool('complete_task', {}, journaled);
+      await executeTool('complete_task', { task_id: 'task-abc' }, context);
+
+      expect(vi.mocked(actionJournalService.recordAction)).not.toHaveBeenCalled();
+    });
+  });
+
   describe('error handling', () => {
     it('should return failure when service throws, without leaking stack trace', async () => {
       const { tasksService } = await import('@/lib/services/tasks-service');
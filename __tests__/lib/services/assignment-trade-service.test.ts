@@ -0,0 +1,263 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/services/enhanced-notification-service', () => ({
+  enhancedNotificationService: {
+    sendAssignmentTradeNotification: vi.fn().mockResolvedValue({ inApp: 1, email: 0, push: 0, errors: [] }),
+  },
+}));
+
+vi.mock('@/lib/utils/app-url', () => ({
+  getAppUrl: vi.fn(() => 'https://rowan.test'),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+import {
+  AssignmentTradeError,
+  acceptTrade,
+  closeTrade,
+  createTrade,
+  listTrades,
+  notifyTradeParticipants,
+  type AssignmentTrade,
+} from '@/lib/services/assignment-trade-service';
+import { enhancedNotificationService } from '@/lib/services/enhanced-notification-service';
+
+function createChainMock(resolvedValue: unknown) {
+  const mock: Record<string, unknown> = {};
+  const handler = () => mock;
+  ['select', 'eq', 'or', 'order', 'limit', 'insert', 'update', 'single', 'maybeSingle'].forEach((m) => {
+    mock[m] = vi.fn(handler);
+  });
+  mock.then = vi.fn((resolve: (v: unknown) => unknown) => resolve(resolvedValue));
+  return mock;
+}
+
+/** Supabase mock answering each table from a queue of results, in call order. */
+function createSupabaseMock(results: Record<string, unknown[]>, rpcResult: unknown = { data: null, error: null }) {
+  const chains: Record<string, Record<string, unknown>[]> = {};
+  const supabase = {
+    from: vi.fn((table: string) => {
+      const queue = results[table] ?? [];
+      const chain = createChainMock(queue.length > 1 ? queue.shift() : queue[0] ?? { data: null, error: null });
+      (chains[table] ??= []).push(chain);
+      return chain;
+    }),
+    rpc: vi.fn().mockResolvedValue(rpcResult),
+  };
+  return { supabase, chains };
+}
+
+function makeTrade(overrides: Partial<AssignmentTrade> = {}): AssignmentTrade {
+  return {
+    id: 'trade-1',
+    space_id: 'space-1',
+    item_type: 'chore',
+    item_id: 'chore-1',
+    offered_by: 'alice',
+    offered_to: 'bob',
+    accepted_by: null,
+    bounty_points: 20,
+    note: null,
+    status: 'open',
+    expires_at: null,
+    responded_at: null,
+    created_at: '2026-10-19T00:00:00Z',
+    updated_at: '2026-10-19T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const OFFER = {
+  space_id: 'space-1',
+  item_type: 'chore' as const,
+  item_id: 'chore-1',
+  offered_by: 'alice',
+  offered_to: 'bob',
+  bounty_points: 20,
+};
+
+describe('assignment-trade-service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('listTrades', () => {
+    it('hides open trades past their expiry', async () => {
+      const { supabase } = createSupabaseMock({
+        assignment_trades: [{
+          data: [
+            makeTrade({ id: 'fresh' }),
+            makeTrade({ id: 'stale', expires_at: '2000-01-01T00:00:00Z' }),
+            makeTrade({ id: 'done', status: 'accepted', expires_at: '2000-01-01T00:00:00Z' }),
+          ],
+          error: null,
+        }],
+      });
+
+      const trades = await listTrades(supabase as never, 'space-1');
+
+      expect(trades.map(t => t.id)).toEqual(['fresh', 'done']);
+    });
+  });
+
+  describe('createTrade', () => {
+    it('only lets members trade items assigned to them', async () => {
+      const { supabase } = createSupabaseMock({
+        chores: [{ data: { id: 'chore-1', space_id: 'space-1', assigned_to: 'carol', status: 'pending' }, error: null }],
+      });
+
+      await expect(createTrade(supabase as never, OFFER)).rejects.toMatchObject({ status: 403 });
+    });
+
+    it('rejects bounties the member cannot afford', async () => {
+      const { supabase } = createSupabaseMock({
+        chores: [{ data: { id: 'chore-1', space_id: 'space-1', assigned_to: 'alice', status: 'pending' }, error: null }],
+        space_members: [{ data: { user_id: 'bob' }, error: null }],
+        reward_points: [{ data: { points: 5 }, error: null }],
+      });
+
+      await expect(createTrade(supabase as never, OFFER)).rejects.toThrow('You do not have enough points for this bounty');
+    });
+
+    it('rejects recipients outside the space', async () => {
+      const { supabase } = createSupabaseMock({
+        tasks: [{ data: { id: 'task-1', space_id: 'space-1', assigned_to: 'alice', status: 'pending' }, error: null }],
+        space_members: [{ data: null, error: null }],
+      });
+
+      await expect(createTrade(supabase as never, { ...OFFER, item_type: 'task', item_id: 'task-1', bounty_points: 0 }))
+        .rejects.toThrow('That member is not part of this space');
+    });
+
+    it('maps a second open offer for the same item to 409', async () => {
+      const { supabase } = createSupabaseMock({
+        chores: [{ data: { id: 'chore-1', space_id: 'space-1', assigned_to: 'alice', status: 'pending' }, error: null }],
+        space_members: [{ data: { user_id: 'bob' }, error: null }],
+        reward_points: [{ data: { points: 100 }, error: null }],
+        assignment_trades: [{ data: null, error: { code: '23505', message: 'duplicate' } }],
+      });
+
+      await expect(createTrade(supabase as never, OFFER)).rejects.toMatchObject({ status: 409 });
+    });
+
+    it('creates an open offer', async () => {
+      const { supabase, chains } = createSupabaseMock({
+        chores: [{ data: { id: 'chore-1', space_id: 'space-1', assigned_to: 'alice', status: 'pending' }, error: null }],
+        space_members: [{ data: { user_id: 'bob' }, error: null }],
+        reward_points: [{ data: { points: 100 }, error: null }],
+        assignment_trades: [{ data: makeTrade(), error: null }],
+      });
+
+      const trade = await createTrade(supabase as never, { ...OFFER, note: 'Swap for Sunday?' });
+
+      expect(trade.status).toBe('open');
+      expect(chains.assignment_trades[0].insert).toHaveBeenCalledWith({
+        space_id: 'space-1',
+        item_type: 'chore',
+        item_id: 'chore-1',
+        offered_by: 'alice',
+        offered_to: 'bob',
+        bounty_points: 20,
+        note: 'Swap for Sunday?',
+        expires_at: null,
+      });
+    });
+  });
+
+  describe('acceptTrade', () => {
+    it('accepts through the transactional database function', async () => {
+      const { supabase } = createSupabaseMock({}, { data: makeTrade({ status: 'accepted', accepted_by: 'bob' }), error: null });
+
+      const trade = await acceptTrade(supabase as never, 'trade-1');
+
+      expect(supabase.rpc).toHaveBeenCalledWith('accept_assignment_trade', { p_trade_id: 'trade-1' });
+      expect(trade.accepted_by).toBe('bob');
+    });
+
+    it.each([
+      ['P0002', 404],
+      ['42501', 403],
+      ['P0001', 409],
+    ])('maps SQLSTATE %s to HTTP %i', async (code, status) => {
+      const { supabase } = createSupabaseMock({}, { data: null, error: { code, message: 'nope' } });
+
+      const error = await acceptTrade(supabase as never, 'trade-1').catch(e => e);
+
+      expect(error).toBeInstanceOf(AssignmentTradeError);
+      expect(error.status).toBe(status);
+      expect(error.message).toBe('nope');
+    });
+
+    it('rethrows unexpected database errors', async () => {
+      const { supabase } = createSupabaseMock({}, { data: null, error: { code: '08006', message: 'connection lost' } });
+
+      await expect(acceptTrade(supabase as never, 'trade-1')).rejects.not.toBeInstanceOf(AssignmentTradeError);
+    });
+  });
+
+  describe('closeTrade', () => {
+    it('only lets the offered member decline', async () => {
+      const { supabase } = createSupabaseMock({ assignment_trades: [{ data: makeTrade(), error: null }] });
+
+      await expect(closeTrade(supabase as never, 'trade-1', 'alice', 'decline')).rejects.toMatchObject({ status: 403 });
+    });
+
+    it('cancels an open trade for the offering member', async () => {
+      const { supabase, chains } = createSupabaseMock({
+        assignment_trades: [
+          { data: makeTrade(), error: null },
+          { data: makeTrade({ status: 'cancelled' }), error: null },
+        ],
+      });
+
+      const trade = await closeTrade(supabase as never, 'trade-1', 'alice', 'cancel');
+
+      expect(trade.status).toBe('cancelled');
+      expect(chains.assignment_trades[1].update).toHaveBeenCalledWith(expect.objectContaining({ status: 'cancelled' }));
+      expect(chains.assignment_trades[1].eq).toHaveBeenCalledWith('status', 'open');
+    });
+
+    it('rejects trades that were already answered', async () => {
+      const { supabase } = createSupabaseMock({ assignment_trades: [{ data: makeTrade({ status: 'accepted' }), error: null }] });
+
+      await expect(closeTrade(supabase as never, 'trade-1', 'bob', 'decline')).rejects.toMatchObject({ status: 409 });
+    });
+  });
+
+  describe('notifyTradeParticipants', () => {
+    it('notifies every other member about an open offer', async () => {
+      const { supabase } = createSupabaseMock({
+        space_members: [{ data: [{ user_id: 'alice' }, { user_id: 'bob' }, { user_id: 'carol' }], error: null }],
+        users: [{ data: { name: 'Alice' }, error: null }],
+        spaces: [{ data: { name: 'Home' }, error: null }],
+        chores: [{ data: { title: 'Dishes' }, error: null }],
+      });
+
+      await notifyTradeParticipants(supabase as never, makeTrade({ offered_to: null }), 'offered', 'alice');
+
+      expect(enhancedNotificationService.sendAssignmentTradeNotification).toHaveBeenCalledWith(
+        ['bob', 'carol'],
+        expect.objectContaining({ event: 'offered', actorName: 'Alice', itemTitle: 'Dishes', spaceName: 'Home' }),
+        supabase
+      );
+    });
+
+    it('notifies the offering member when accepted', async () => {
+      const { supabase } = createSupabaseMock({});
+
+      await notifyTradeParticipants(supabase as never, makeTrade({ status: 'accepted' }), 'accepted', 'bob');
+
+      expect(vi.mocked(enhancedNotificationService.sendAssignmentTradeNotification).mock.calls[0][0]).toEqual(['alice']);
+    });
+
+    it('does not throw when notifications fail', async () => {
+      const { supabase } = createSupabaseMock({});
+      vi.mocked(enhancedNotificationService.sendAssignmentTradeNotification).mockRejectedValueOnce(new Error('down'));
+
+      await expect(notifyTradeParticipants(supabase as never, makeTrade(), 'declined', 'bob')).resolves.toBeUndefined();
+    });
+  });
+});
@@ -105,6 +105,16 @@ describe('bill-calendar-service', () => {
 
       expect(result).toEqual([]);
     });
+
+    it('uses a provided client instead of the browser client', async () => {
+      const serverClient = { rpc: vi.fn().mockResolvedValue({ data: MOCK_BILLS, error: null }) };
+
+      const result = await getUpcomingBills('space-1', 365, serverClient as never);
+
+      expect(result).toHaveLength(2);
+      expect(serverClient.rpc).toHaveBeenCalledWith('get_upcoming_bills', { p_space_id: 'space-1', p_days_ahead: 365 });
+      expect(mockClient.rpc).not.toHaveBeenCalled();
+    });
   });
 
   // ── getBillsDueThisWeek ───────────────────────────────────────────────────
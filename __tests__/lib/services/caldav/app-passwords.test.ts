@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  authenticateDavRequest,
+  createAppPassword,
+  generateAppPassword,
+  hashAppPassword,
+  parseBasicAuth,
+  revokeAppPassword,
+} from '@/lib/services/caldav/app-passwords';
+
+function createChainMock(resolvedValue: unknown) {
+  const mock: Record<string, unknown> = {};
+  const handler = () => mock;
+  ['select', 'eq', 'order', 'insert', 'update', 'single', 'maybeSingle', 'is'].forEach((m) => {
+    mock[m] = vi.fn(handler);
+  });
+  mock.then = vi.fn((resolve: (v: unknown) => unknown) => resolve(resolvedValue));
+  return mock;
+}
+
+function basic(username: string, password: string): string {
+  return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+}
+
+describe('caldav app-passwords', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('generates grouped passwords without look-alike characters', () => {
+    const password = generateAppPassword();
+    expect(password).toMatch(/^([a-km-np-z2-9]{4}-){5}[a-km-np-z2-9]{4}$/);
+    expect(generateAppPassword()).not.toBe(password);
+  });
+
+  it('hashes passwords ignoring case and separators', () => {
+    expect(hashAppPassword('ABCD-efgh')).toBe(hashAppPassword('abcdefgh'));
+    expect(hashAppPassword('abcd efgh')).toMatch(/^[a-f0-9]{64}$/);
+  });
+
+  it('parses Basic authorization headers', () => {
+    expect(parseBasicAuth(basic('me@example.com', 'pa:ss'))).toEqual({ username: 'me@example.com', password: 'pa:ss' });
+    expect(parseBasicAuth('Bearer token')).toBeNull();
+    expect(parseBasicAuth(null)).toBeNull();
+  });
+
+  it('stores only the hash and returns the plaintext once', async () => {
+    const chain = createChainMock({ data: { id: 'pw-1', label: 'iPhone' }, error: null });
+    const supabase = { from: vi.fn(() => chain) };
+
+    const result = await createAppPassword(supabase as never, 'user-1', 'iPhone');
+
+    expect(chain.insert).toHaveBeenCalledWith({
+      user_id: 'user-1',
+      label: 'iPhone',
+      password_hash: hashAppPassword(result.password),
+    });
+    expect(result.appPassword).toEqual({ id: 'pw-1', label: 'iPhone' });
+  });
+
+  it('reports whether a revoke matched an active password', async () => {
+    const chain = createChainMock({ data: [], error: null });
+    const supabase = { from: vi.fn(() => chain) };
+
+    expect(await revokeAppPassword(supabase as never, 'user-1', 'pw-1')).toBe(false);
+    expect(chain.eq).toHaveBeenCalledWith('user_id', 'user-1');
+    expect(chain.is).toHaveBeenCalledWith('revoked_at', null);
+  });
+
+  describe('authenticateDavRequest', () => {
+    function setup(user: unknown) {
+      const passwordChain = createChainMock({ data: { id: 'pw-1', user_id: 'user-1' }, error: null });
+      const userChain = createChainMock({ data: user, error: null });
+      const touchChain = createChainMock({ error: null });
+      const from = vi.fn()
+        .mockReturnValueOnce(passwordChain)
+        .mockReturnValueOnce(userChain)
+        .mockReturnValueOnce(touchChain);
+      return { supabase: { from }, passwordChain, touchChain };
+    }
+
+    it('accepts the account email as username and records use', async () => {
+      const { supabase, passwordChain, touchChain } = setup({ id: 'user-1', email: 'Me@Example.com', name: 'Me' });
+
+      const principal = await authenticateDavRequest(supabase as never, basic('me@example.com', 'abcd-efgh'));
+
+      expect(principal).toEqual({ userId: 'user-1', email: 'Me@Example.com', name: 'Me' });
+      expect(passwordChain.eq).toHaveBeenCalledWith('password_hash', hashAppPassword('abcdefgh'));
+      expect(touchChain.update).toHaveBeenCalledWith({ last_used_at: expect.any(String) });
+    });
+
+    it('rejects a username that does not own the password', async () => {
+      const { supabase, touchChain } = setup({ id: 'user-1', email: 'me@example.com', name: 'Me' });
+
+      expect(await authenticateDavRequest(supabase as never, basic('other@example.com', 'abcd'))).toBeNull();
+      expect(touchChain.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown passwords', async () => {
+      const chain = createChainMock({ data: null, error: null });
+      const supabase = { from: vi.fn(() => chain) };
+
+      expect(await authenticateDavRequest(supabase as never, basic('me@example.com', 'nope'))).toBeNull();
+      expect(supabase.from).toHaveBeenCalledTimes(1);
+    });
+  });
+});
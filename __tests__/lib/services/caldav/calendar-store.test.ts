@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  deleteCalendarObject,
+  getCalendarObject,
+  parseCalendarObject,
+  putCalendarObject,
+} from '@/lib/services/caldav/calendar-store';
+import { DavError } from '@/lib/services/caldav/types';
+
+function createChainMock(resolvedValue: unknown) {
+  const mock: Record<string, unknown> = {};
+  const handler = () => mock;
+  ['select', 'eq', 'or', 'is', 'lt', 'order', 'limit', 'insert', 'update', 'single', 'maybeSingle'].forEach((m) => {
+    mock[m] = vi.fn(handler);
+  });
+  mock.then = vi.fn((resolve: (v: unknown) => unknown) => resolve(resolvedValue));
+  return mock;
+}
+
+function ics(...lines: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Test//EN', ...lines, 'END:VCALENDAR'].join('\r\n');
+}
+
+const PRINCIPAL = { userId: 'user-1', email: 'me@example.com', name: 'Me' };
+const EVENT = {
+  id: '11111111-2222-3333-4444-555555555555',
+  title: 'Dinner',
+  description: null,
+  location: null,
+  start_time: '2026-10-20T18:00:00Z',
+  end_time: '2026-10-20T19:00:00Z',
+  timezone: 'UTC',
+  is_recurring: false,
+  recurrence_pattern: null,
+  updated_at: '2026-10-19T10:00:00Z',
+  is_all_day: false,
+  ical_uid: null,
+  dav_resource_name: 'dinner',
+};
+
+describe('caldav calendar-store', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('parseCalendarObject', () => {
+    it('converts TZID local times to UTC and keeps the zone', () => {
+      const parsed = parseCalendarObject(ics(
+        'BEGIN:VEVENT',
+        'UID:abc@device',
+        'DTSTART;TZID=America/New_York:20261020T090000',
+        'DTEND;TZID=America/New_York:20261020T100000',
+        'SUMMARY:Standup',
+        'RRULE:FREQ=WEEKLY;BYDAY=TU',
+        'END:VEVENT'
+      ));
+
+      expect(parsed).toMatchObject({
+        ical_uid: 'abc@device',
+        title: 'Standup',
+        start_time: '2026-10-20T13:00:00.000Z',
+        end_time: '2026-10-20T14:00:00.000Z',
+        timezone: 'America/New_York',
+        is_all_day: false,
+        is_recurring: true,
+      });
+      expect(parsed.recurrence_pattern).toContain('RRULE:FREQ=WEEKLY;BYDAY=TU');
+    });
+
+    it('stores DATE values as all-day events lasting one day by default', () => {
+      const parsed = parseCalendarObject(ics('BEGIN:VEVENT', 'UID:a', 'DTSTART;VALUE=DATE:20261224', 'END:VEVENT'));
+
+      expect(parsed).toMatchObject({
+        title: 'Untitled Event',
+        is_all_day: true,
+        start_time: '2026-12-24T00:00:00.000Z',
+        end_time: '2026-12-25T00:00:00.000Z',
+      });
+    });
+
+    it('uses DURATION when DTEND is missing', () => {
+      const parsed = parseCalendarObject(ics('BEGIN:VEVENT', 'UID:a', 'DTSTART:20261020T180000Z', 'DURATION:PT30M', 'END:VEVENT'));
+      expect(parsed.end_time).toBe('2026-10-20T18:30:00.000Z');
+    });
+
+    it('stores the master event of a series with overrides', () => {
+      const parsed = parseCalendarObject(ics(
+        'BEGIN:VEVENT', 'UID:a', 'RECURRENCE-ID:20261027T180000Z', 'DTSTART:20261027T190000Z', 'SUMMARY:Moved', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:a', 'DTSTART:20261020T180000Z', 'RRULE:FREQ=WEEKLY', 'SUMMARY:Series', 'END:VEVENT'
+      ));
+      expect(parsed.title).toBe('Series');
+    });
+
+    it('rejects non-event objects and invalid data', () => {
+      expect(() => parseCalendarObject(ics('BEGIN:VTODO', 'UID:a', 'END:VTODO'))).toThrow(
+        expect.objectContaining({ status: 403 })
+      );
+      expect(() => parseCalendarObject('garbage')).toThrow(DavError);
+      expect(() => parseCalendarObject(ics('BEGIN:VEVENT', 'UID:a', 'END:VEVENT'))).toThrow(
+        expect.objectContaining({ status: 400 })
+      );
+    });
+  });
+
+  describe('getCalendarObject', () => {
+    it('matches Rowan events by ID when the name is a UUID', async () => {
+      const chain = createChainMock({ data: { ...EVENT, dav_resource_name: null }, error: null });
+      const supabase = { from: vi.fn(() => chain) };
+
+      const object = await getCalendarObject(supabase as never, 'space-1', EVENT.id);
+
+      expect(object?.resourceName).toBe(EVENT.id);
+      expect(object?.etag).toMatch(/^"[a-f0-9]{20}"$/);
+      expect(chain.or).toHaveBeenCalledWith(expect.stringContaining(`id.eq.${EVENT.id}`));
+    });
+
+    it('does not query names with unsafe characters', async () => {
+      const supabase = { from: vi.fn() };
+      expect(await getCalendarObject(supabase as never, 'space-1', 'a,b)')).toBeNull();
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('putCalendarObject', () => {
+    const body = ics('BEGIN:VEVENT', 'UID:new@device', 'DTSTART:20261020T180000Z', 'SUMMARY:Dinner', 'END:VEVENT');
+
+    it('inserts new objects with the client resource name', async () => {
+      const lookup = createChainMock({ data: null, error: null });
+      const insert = createChainMock({ data: { ...EVENT, id: 'new-id' }, error: null });
+      const supabase = { from: vi.fn().mockReturnValueOnce(lookup).mockReturnValueOnce(insert) };
+
+      const result = await putCalendarObject(supabase as never, {
+        principal: PRINCIPAL,
+        spaceId: 'space-1',
+        resourceName: 'new-event',
+        body,
+        ifNoneMatch: '*',
+      });
+
+      expect(result.created).toBe(true);
+      expect(insert.insert).toHaveBeenCalledWith(expect.objectContaining({
+        space_id: 'space-1',
+        created_by: 'user-1',
+        dav_resource_name: 'new-event',
+        ical_uid: 'new@device',
+        title: 'Dinner',
+      }));
+    });
+
+    it('fails If-None-Match: * when the object exists', async () => {
+      const lookup = createChainMock({ data: EVENT, error: null });
+      const supabase = { from: vi.fn(() => lookup) };
+
+      await expect(putCalendarObject(supabase as never, {
+        principal: PRINCIPAL, spaceId: 'space-1', resourceName: 'dinner', body, ifNoneMatch: '*',
+      })).rejects.toMatchObject({ status: 412 });
+    });
+
+    it('fails If-Match with a stale ETag', async () => {
+      const lookup = createChainMock({ data: EVENT, error: null });
+      const supabase = { from: vi.fn(() => lookup) };
+
+      await expect(putCalendarObject(supabase as never, {
+        principal: PRINCIPAL, spaceId: 'space-1', resourceName: 'dinner', body, ifMatch: '"stale"',
+      })).rejects.toMatchObject({ status: 412 });
+    });
+
+    it('updates existing objects in place', async () => {
+      const lookup = createChainMock({ data: EVENT, error: null });
+      const update = createChainMock({ data: { ...EVENT, updated_at: '2026-10-19T11:00:00Z' }, error: null });
+      const supabase = { from: vi.fn().mockReturnValueOnce(lookup).mockReturnValueOnce(update) };
+
+      const result = await putCalendarObject(supabase as never, {
+        principal: PRINCIPAL, spaceId: 'space-1', resourceName: 'dinner', body,
+      });
+
+      expect(result.created).toBe(false);
+      expect(update.eq).toHaveBeenCalledWith('id', EVENT.id);
+    });
+  });
+
+  it('soft-deletes objects', async () => {
+    const lookup = createChainMock({ data: EVENT, error: null });
+    const update = createChainMock({ error: null });
+    const supabase = { from: vi.fn().mockReturnValueOnce(lookup).mockReturnValueOnce(update) };
+
+    expect(await deleteCalendarObject(supabase as never, PRINCIPAL, 'space-1', 'dinner')).toBe(true);
+    expect(update.update).toHaveBeenCalledWith(expect.objectContaining({ deleted_by: 'user-1', deleted_at: expect.any(String) }));
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/services/caldav/app-passwords', () => ({
+  authenticateDavRequest: vi.fn(),
+}));
+
+vi.mock('@/lib/services/caldav/calendar-store', () => ({
+  deleteCalendarObject: vi.fn(),
+  getCalendarCtag: vi.fn(),
+  getCalendarObject: vi.fn(),
+  getUserSpace: vi.fn(),
+  listCalendarObjects: vi.fn(),
+  listUserSpaces: vi.fn(),
+  putCalendarObject: vi.fn(),
+}));
+
+vi.mock('@/lib/services/caldav/address-book', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/services/caldav/address-book')>()),
+  getAddressObject: vi.fn(),
+  listAddressObjects: vi.fn(),
+}));
+
+import { handleDavRequest } from '@/lib/services/caldav/server';
+import { authenticateDavRequest } from '@/lib/services/caldav/app-passwords';
+import * as store from '@/lib/services/caldav/calendar-store';
+import { listAddressObjects } from '@/lib/services/caldav/address-book';
+import { DavError } from '@/lib/services/caldav/types';
+
+const PRINCIPAL = { userId: 'user-1', email: 'me@example.com', name: 'Me' };
+const SPACE = { id: 'space-1', name: 'Home' };
+const OBJECT = {
+  resourceName: 'dinner',
+  etag: '"etag-1"',
+  event: {
+    id: 'event-1',
+    title: 'Dinner',
+    description: null,
+    location: null,
+    start_time: '2026-10-20T18:00:00Z',
+    end_time: '2026-10-20T19:00:00Z',
+    timezone: 'UTC',
+    is_recurring: false,
+    recurrence_pattern: null,
+    updated_at: '2026-10-19T10:00:00Z',
+    is_all_day: false,
+    ical_uid: 'dinner@device',
+    dav_resource_name: 'dinner',
+  },
+};
+
+const supabase = {} as never;
+
+function request(method: string, path: string, body?: string, headers: Record<string, string> = {}) {
+  return {
+    req: new Request(`http://localhost/api/caldav/${path}`, {
+      method: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'].includes(method) ? method : 'POST',
+      headers: { authorization: 'Basic x', ...headers },
+      body,
+    }),
+    options: { method, path: path.split('/').filter(Boolean), supabase },
+  };
+}
+
+async function dav(method: string, path: string, body?: string, headers?: Record<string, string>) {
+  const { req, options } = request(method, path, body, headers);
+  return handleDavRequest(req, options);
+}
+
+describe('caldav server', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(authenticateDavRequest).mockResolvedValue(PRINCIPAL);
+    vi.mocked(store.getUserSpace).mockResolvedValue(SPACE);
+    vi.mocked(store.listUserSpaces).mockResolvedValue([SPACE]);
+    vi.mocked(store.getCalendarCtag).mockResolvedValue('"ctag-1"');
+    vi.mocked(store.listCalendarObjects).mockResolvedValue([OBJECT]);
+    vi.mocked(store.getCalendarObject).mockResolvedValue(OBJECT);
+  });
+
+  it('answers OPTIONS without authentication', async () => {
+    const response = await dav('OPTIONS', '');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('DAV')).toContain('calendar-access');
+    expect(authenticateDavRequest).not.toHaveBeenCalled();
+  });
+
+  it('challenges requests without valid credentials', async () => {
+    vi.mocked(authenticateDavRequest).mockResolvedValue(null);
+
+    const response = await dav('PROPFIND', '');
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('WWW-Authenticate')).toContain('Basic');
+  });
+
+  it('points the root at the current user principal', async () => {
+    const response = await dav('PROPFIND', '', '<d:propfind xmlns:d="DAV:"><d:prop><d:current-user-principal/></d:prop></d:propfind>', { depth: '0' });
+    const xml = await response.text();
+
+    expect(response.status).toBe(207);
+    expect(xml).toContain('<d:current-user-principal><d:href>/api/caldav/principals/user-1/</d:href></d:current-user-principal>');
+  });
+
+  it('advertises calendar and address book homes on the principal', async () => {
+    const response = await dav('PROPFIND', 'principals/user-1', '', { depth: '0' });
+    const xml = await response.text();
+
+    expect(xml).toContain('<cal:calendar-home-set><d:href>/api/caldav/calendars/user-1/</d:href></cal:calendar-home-set>');
+    expect(xml).toContain('<card:addressbook-home-set><d:href>/api/caldav/addressbooks/user-1/</d:href></card:addressbook-home-set>');
+  });
+
+  it('forbids another user\'s paths', async () => {
+    const response = await dav('PROPFIND', 'calendars/user-2/', '');
+    expect(response.status).toBe(403);
+  });
+
+  it('returns 404 for spaces the user does not belong to', async () => {
+    vi.mocked(store.getUserSpace).mockResolvedValue(null);
+
+    const response = await dav('PROPFIND', 'calendars/user-1/space-9/', '');
+
+    expect(response.status).toBe(404);
+  });
+
+  it('lists each space as a calendar in the home', async () => {
+    const response = await dav('PROPFIND', 'calendars/user-1/', '', { depth: '1' });
+    const xml = await response.text();
+
+    expect(xml).toContain('<d:href>/api/caldav/calendars/user-1/space-1/</d:href>');
+    expect(xml).toContain('<d:displayname>Home</d:displayname>');
+    expect(xml).toContain('<cs:getctag>"ctag-1"</cs:getctag>');
+  });
+
+  it('lists calendar objects with ETags at depth 1', async () => {
+    const body = '<d:propfind xmlns:d="DAV:"><d:prop><d:getetag/><x:calendar-color xmlns:x="http://apple.com/ns/ical/"/></d:prop></d:propfind>';
+
+    const response = await dav('PROPFIND', 'calendars/user-1/space-1/', body, { depth: '1' });
+    const xml = await response.text();
+
+    expect(xml).toContain('<d:href>/api/caldav/calendars/user-1/space-1/dinner.ics</d:href>');
+    expect(xml).toContain('<d:getetag>"etag-1"</d:getetag>');
+    expect(xml).toContain('HTTP/1.1 404 Not Found');
+  });
+
+  it('returns calendar data for multiget hrefs and 404 for unknown ones', async () => {
+    vi.mocked(store.getCalendarObject).mockImplementation(async (_s, _space, name) => (name === 'dinner' ? OBJECT : null));
+    const body = `<c:calendar-multiget xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+      <d:prop><d:getetag/><c:calendar-data/></d:prop>
+      <d:href>/api/caldav/calendars/user-1/space-1/dinner.ics</d:href>
+      <d:href>/api/caldav/calendars/user-1/space-1/gone.ics</d:href>
+    </c:calendar-multiget>`;
+
+    const response = await dav('REPORT', 'calendars/user-1/space-1/', body);
+    const xml = await response.text();
+
+    expect(xml).toContain('UID:dinner@device');
+    expect(xml).toContain('<d:href>/api/caldav/calendars/user-1/space-1/gone.ics</d:href><d:status>HTTP/1.1 404 Not Found</d:status>');
+  });
+
+  it('passes the time range of a calendar-query to the store', async () => {
+    const body = `<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+      <d:prop><d:getetag/></d:prop>
+      <c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT">
+        <c:time-range start="20261001T000000Z"/>
+      </c:comp-filter></c:comp-filter></c:filter>
+    </c:calendar-query>`;
+
+    await dav('REPORT', 'calendars/user-1/space-1/', body);
+
+    expect(store.listCalendarObjects).toHaveBeenCalledWith(supabase, 'space-1', {
+      start: new Date('2026-10-01T00:00:00Z'),
+      end: null,
+    });
+  });
+
+  it('matches nothing for calendar-queries on other components', async () => {
+    const body = `<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+      <c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VTODO"/></c:comp-filter></c:filter>
+    </c:calendar-query>`;
+
+    const response = await dav('REPORT', 'calendars/user-1/space-1/', body);
+
+    expect(response.status).toBe(207);
+    expect(store.listCalendarObjects).not.toHaveBeenCalled();
+  });
+
+  it('serves objects over GET with their ETag', async () => {
+    const response = await dav('GET', 'calendars/user-1/space-1/dinner.ics');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('ETag')).toBe('"etag-1"');
+    expect(await response.text()).toContain('SUMMARY:Dinner');
+  });
+
+  it('creates objects over PUT', async () => {
+    vi.mocked(store.putCalendarObject).mockResolvedValue({ created: true, etag: '"etag-2"' });
+
+    const response = await dav('PUT', 'calendars/user-1/space-1/new.ics', 'BEGIN:VCALENDAR', { 'if-none-match': '*' });
+
+    expect(response.status).toBe(201);
+    expect(response.headers.get('ETag')).toBe('"etag-2"');
+    expect(store.putCalendarObject).toHaveBeenCalledWith(supabase, expect.objectContaining({
+      spaceId: 'space-1',
+      resourceName: 'new',
+      ifNoneMatch: '*',
+    }));
+  });
+
+  it('maps store precondition failures to their status', async () => {
+    vi.mocked(store.putCalendarObject).mockRejectedValue(new DavError(412, 'ETag does not match'));
+
+    const response = await dav('PUT', 'calendars/user-1/space-1/dinner.ics', 'BEGIN:VCALENDAR');
+
+    expect(response.status).toBe(412);
+  });
+
+  it('deletes objects and reports missing ones', async () => {
+    vi.mocked(store.deleteCalendarObject).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    expect((await dav('DELETE', 'calendars/user-1/space-1/dinner.ics')).status).toBe(204);
+    expect((await dav('DELETE', 'calendars/user-1/space-1/gone.ics')).status).toBe(404);
+  });
+
+  it('serves space members as a read-only address book', async () => {
+    vi.mocked(listAddressObjects).mockResolvedValue([{
+      contact: { id: 'user-2', name: 'Sam Smith', email: 'sam@example.com', updated_at: null },
+      resourceName: 'user-2',
+      etag: '"card-1"',
+    }]);
+    const body = `<card:addressbook-query xmlns:d="DAV:" xmlns:card="urn:ietf:params:xml:ns:carddav">
+      <d:prop><d:getetag/><card:address-data/></d:prop>
+    </card:addressbook-query>`;
+
+    const report = await (await dav('REPORT', 'addressbooks/user-1/space-1/', body)).text();
+    const put = await dav('PUT', 'addressbooks/user-1/space-1/user-2.vcf', 'BEGIN:VCARD');
+
+    expect(report).toContain('FN:Sam Smith');
+    expect(report).toContain('EMAIL;TYPE=INTERNET:sam@example.com');
+    expect(put.status).toBe(403);
+  });
+
+  it('rejects property changes and collection creation', async () => {
+    const proppatch = await dav(
+      'PROPPATCH',
+      'calendars/user-1/space-1/',
+      '<d:propertyupdate xmlns:d="DAV:"><d:set><d:prop><d:displayname>New</d:displayname></d:prop></d:set></d:propertyupdate>'
+    );
+    const mkcalendar = await dav('MKCALENDAR', 'calendars/user-1/space-2/');
+
+    expect(proppatch.status).toBe(207);
+    expect(await proppatch.text()).toContain('HTTP/1.1 403 Forbidden');
+    expect(mkcalendar.status).toBe(403);
+  });
+});
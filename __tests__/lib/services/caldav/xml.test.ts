@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CALDAV_NS,
+  CALENDARSERVER_NS,
+  DAV_NS,
+  buildMultistatus,
+  clark,
+  escapeXml,
+  parseDavBody,
+} from '@/lib/services/caldav/xml';
+import { DavError } from '@/lib/services/caldav/types';
+
+describe('caldav xml', () => {
+  describe('parseDavBody', () => {
+    it('treats an empty PROPFIND body as allprop', () => {
+      expect(parseDavBody('', 'PROPFIND')).toMatchObject({ kind: 'propfind', allProps: true, props: [] });
+    });
+
+    it('rejects an empty REPORT body', () => {
+      expect(() => parseDavBody('  ', 'REPORT')).toThrow(DavError);
+    });
+
+    it('reads requested properties in Clark notation', () => {
+      const body = `<?xml version="1.0"?>
+        <d:propfind xmlns:d="DAV:" xmlns:cs="http://calendarserver.org/ns/">
+          <d:prop><d:displayname/><cs:getctag/><x:color xmlns:x="http://apple.com/ns/ical/"/></d:prop>
+        </d:propfind>`;
+
+      expect(parseDavBody(body, 'PROPFIND')).toMatchObject({
+        kind: 'propfind',
+        allProps: false,
+        props: [
+          clark(DAV_NS, 'displayname'),
+          clark(CALENDARSERVER_NS, 'getctag'),
+          '{http://apple.com/ns/ical/}color',
+        ],
+      });
+    });
+
+    it('reads multiget hrefs', () => {
+      const body = `<c:calendar-multiget xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+          <d:prop><d:getetag/><c:calendar-data/></d:prop>
+          <d:href>/api/caldav/calendars/u/s/a.ics</d:href>
+          <d:href> /api/caldav/calendars/u/s/b.ics </d:href>
+        </c:calendar-multiget>`;
+
+      const parsed = parseDavBody(body, 'REPORT');
+      expect(parsed.kind).toBe('calendar-multiget');
+      expect(parsed.props).toContain(clark(CALDAV_NS, 'calendar-data'));
+      expect(parsed.hrefs).toEqual(['/api/caldav/calendars/u/s/a.ics', '/api/caldav/calendars/u/s/b.ics']);
+    });
+
+    it('reads the component and time range of a calendar-query', () => {
+      const body = `<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+          <d:prop><d:getetag/></d:prop>
+          <c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT">
+            <c:time-range start="20261001T000000Z" end="20261101T000000Z"/>
+          </c:comp-filter></c:comp-filter></c:filter>
+        </c:calendar-query>`;
+
+      const parsed = parseDavBody(body, 'REPORT');
+      expect(parsed.component).toBe('VEVENT');
+      expect(parsed.timeRange?.start?.toISOString()).toBe('2026-10-01T00:00:00.000Z');
+      expect(parsed.timeRange?.end?.toISOString()).toBe('2026-11-01T00:00:00.000Z');
+    });
+
+    it('rejects bodies without an XML document with 400 and unknown reports with 403', () => {
+      expect(() => parseDavBody('not xml', 'PROPFIND')).toThrow(
+        expect.objectContaining({ status: 400 })
+      );
+      expect(() => parseDavBody('<d:sync-collection xmlns:d="DAV:"/>', 'REPORT')).toThrow(
+        expect.objectContaining({ status: 403 })
+      );
+    });
+  });
+
+  describe('buildMultistatus', () => {
+    it('groups found and missing properties into propstats', () => {
+      const xml = buildMultistatus([{
+        href: '/api/caldav/calendars/u/s/',
+        found: {
+          [clark(DAV_NS, 'displayname')]: 'Smith & Co',
+          [clark(DAV_NS, 'resourcetype')]: [{ name: clark(DAV_NS, 'collection') }, { name: clark(CALDAV_NS, 'calendar') }],
+        },
+        notFound: ['{http://apple.com/ns/ical/}calendar-color'],
+      }]);
+
+      expect(xml).toContain('<d:href>/api/caldav/calendars/u/s/</d:href>');
+      expect(xml).toContain('<d:displayname>Smith &amp; Co</d:displayname>');
+      expect(xml).toContain('<d:resourcetype><d:collection/><cal:calendar/></d:resourcetype>');
+      expect(xml).toContain('<d:status>HTTP/1.1 200 OK</d:status>');
+      expect(xml).toContain('<x:calendar-color xmlns:x="http://apple.com/ns/ical/"/>');
+      expect(xml).toContain('<d:status>HTTP/1.1 404 Not Found</d:status>');
+    });
+
+    it('writes a bare status for responses without properties', () => {
+      const xml = buildMultistatus([{ href: '/missing.ics', status: 404 }]);
+      expect(xml).toContain('<d:response><d:href>/missing.ics</d:href><d:status>HTTP/1.1 404 Not Found</d:status></d:response>');
+    });
+
+    it('writes element attributes', () => {
+      const xml = buildMultistatus([{
+        href: '/c/',
+        found: { [clark(CALDAV_NS, 'supported-calendar-component-set')]: [{ name: clark(CALDAV_NS, 'comp'), attributes: { name: 'VEVENT' } }] },
+      }]);
+      expect(xml).toContain('<cal:comp name="VEVENT"/>');
+    });
+  });
+
+  it('escapes XML special characters', () => {
+    expect(escapeXml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;');
+  });
+});
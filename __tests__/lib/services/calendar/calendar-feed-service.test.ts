@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+import {
+  createCalendarFeed,
+  generateFeedToken,
+  getCalendarFeedByToken,
+  getFeedUrl,
+  revokeCalendarFeed,
+} from '@/lib/services/calendar/calendar-feed-service';
+
+function createChainMock(resolvedValue: unknown) {
+  const mock: Record<string, unknown> = {};
+  const handler = () => mock;
+  ['select', 'eq', 'in', 'order', 'insert', 'update', 'single', 'maybeSingle', 'is'].forEach((m) => {
+    mock[m] = vi.fn(handler);
+  });
+  mock.then = vi.fn((resolve: (v: unknown) => unknown) => resolve(resolvedValue));
+  return mock;
+}
+
+describe('calendar-feed-service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('generates unguessable hex tokens', () => {
+    const token = generateFeedToken();
+    expect(token).toMatch(/^[a-f0-9]{64}$/);
+    expect(generateFeedToken()).not.toBe(token);
+  });
+
+  it('builds webcal and https URLs', () => {
+    vi.stubEnv('NEXT_PUBLIC_APP_URL', 'http://localhost:3000');
+    expect(getFeedUrl('abc')).toBe('webcal://localhost:3000/api/calendar/webcal/abc.ics');
+    expect(getFeedUrl('abc', 'https')).toBe('http://localhost:3000/api/calendar/webcal/abc.ics');
+    vi.unstubAllEnvs();
+  });
+
+  it('creates feeds with every domain by default', async () => {
+    const chain = createChainMock({ data: { id: 'feed-1' }, error: null });
+    const supabase = { from: vi.fn(() => chain) };
+
+    await createCalendarFeed(supabase as never, { space_id: 'space-1', created_by: 'user-1', name: 'Family' });
+
+    expect(chain.insert).toHaveBeenCalledWith(expect.objectContaining({
+      member_id: null,
+      domains: ['events', 'chores', 'bills', 'tasks'],
+      token: expect.stringMatching(/^[a-f0-9]{64}$/),
+    }));
+  });
+
+  it('only resolves tokens of feeds that are not revoked', async () => {
+    const chain = createChainMock({ data: null, error: null });
+    const supabase = { from: vi.fn(() => chain) };
+
+    expect(await getCalendarFeedByToken(supabase as never, 'token')).toBeNull();
+    expect(chain.eq).toHaveBeenCalledWith('token', 'token');
+    expect(chain.is).toHaveBeenCalledWith('revoked_at', null);
+  });
+
+  it('stops serving a feed once its creator or member leaves the space', async () => {
+    const feed = { id: 'feed-1', space_id: 'space-1', created_by: 'user-1', member_id: 'user-2' };
+    const feedChain = createChainMock({ data: feed, error: null });
+    const membersChain = createChainMock({ data: [{ user_id: 'user-1' }], error: null });
+    const supabase = { from: vi.fn((table: string) => (table === 'space_members' ? membersChain : feedChain)) };
+
+    expect(await getCalendarFeedByToken(supabase as never, 'token')).toBeNull();
+    expect(membersChain.eq).toHaveBeenCalledWith('space_id', 'space-1');
+    expect(membersChain.in).toHaveBeenCalledWith('user_id', ['user-1', 'user-2']);
+
+    membersChain.then = vi.fn((resolve: (v: unknown) => unknown) =>
+      resolve({ data: [{ user_id: 'user-1' }, { user_id: 'user-2' }], error: null }));
+    expect(await getCalendarFeedByToken(supabase as never, 'token')).toEqual(feed);
+  });
+
+  it('revokes by stamping revoked_at and surfaces errors', async () => {
+    const chain = createChainMock({ error: new Error('denied') });
+    const supabase = { from: vi.fn(() => chain) };
+
+    await expect(revokeCalendarFeed(supabase as never, 'feed-1')).rejects.toThrow('denied');
+    expect(chain.update).toHaveBeenCalledWith({ revoked_at: expect.any(String) });
+  });
+});
@@ -252,4 +252,83 @@ describe('event-mapper', () => {
       expect(result.title).toBe('iCal Event');
     });
   });
+
+  describe('recurrence', () => {
+    const baseEvent = {
+      id: 'event-1',
+      space_id: 'space-1',
+      title: 'Standup',
+      start_time: '2026-10-05T07:00:00Z',
+      end_time: '2026-10-05T07:15:00Z',
+      timezone: 'Europe/Berlin',
+      created_at: '2026-01-01T00:00:00Z',
+      updated_at: '2026-01-01T00:00:00Z',
+      created_by: 'user-1',
+    };
+
+    it('exports legacy patterns as RRULEs with date exceptions at the event time', () => {
+      const result = eventMapper.mapRowanToGoogle({
+        ...baseEvent,
+        recurrence_pattern: JSON.stringify({ pattern: 'weekly', interval: 1, days_of_week: [1, 3], exceptions: ['2026-10-12'] }),
+      });
+
+      expect(result.recurrence).toEqual([
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE',
+        'EXDATE;TZID=Europe/Berlin:20261012T090000',
+      ]);
+    });
+
+    it('passes stored iCalendar recurrences through unchanged', () => {
+      const stored = 'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1\nEXDATE;TZID=Europe/Berlin:20261030T090000';
+      const ical = eventMapper.mapRowanToICalendar({ ...baseEvent, recurrence_pattern: stored });
+
+      expect(ical).toContain('\r\nRRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1\r\n');
+      expect(ical).toContain('\r\nEXDATE;TZID=Europe/Berlin:20261030T090000\r\n');
+    });
+
+    it('round-trips Google recurrence without loss', () => {
+      const recurrence = [
+        'RRULE:FREQ=WEEKLY;UNTIL=20261231T225959Z;BYDAY=TU,TH',
+        'EXDATE;TZID=Europe/Berlin:20261013T090000',
+        'RDATE;TZID=Europe/Berlin:20261017T090000',
+      ];
+      const imported = eventMapper.mapGoogleToRowan({
+        id: 'google-1',
+        summary: 'Gym',
+        start: { dateTime: '2026-10-06T09:00:00+02:00', timeZone: 'Europe/Berlin' },
+        end: { dateTime: '2026-10-06T10:00:00+02:00', timeZone: 'Europe/Berlin' },
+        status: 'confirmed',
+        etag: 'etag-1',
+        updated: '2026-01-01T00:00:00Z',
+        recurrence,
+      }, 'space-1');
+
+      expect(imported.is_recurring).toBe(true);
+
+      const exported = eventMapper.mapRowanToGoogle({
+        ...baseEvent,
+        start_time: imported.start_time as string,
+        recurrence_pattern: imported.recurrence_pattern as string,
+      });
+
+      expect(exported.recurrence).toEqual([
+        'RRULE:FREQ=WEEKLY;UNTIL=20261231T225959Z;BYDAY=TU,TH',
+        'RDATE;TZID=Europe/Berlin:20261017T090000',
+        'EXDATE;TZID=Europe/Berlin:20261013T090000',
+      ]);
+    });
+
+    it('keeps RDATE and EXDATE lines from CalDAV events', () => {
+      const result = eventMapper.mapICalendarToRowan({
+        uid: 'ical-1',
+        summary: 'Review',
+        dtstart: '20261005T090000Z',
+        dtstamp: '20261001T000000Z',
+        rrule: 'FREQ=DAILY;COUNT=5',
+        exdate: ['EXDATE:20261007T090000Z'],
+      }, 'space-1');
+
+      expect(result.recurrence_pattern).toBe('RRULE:FREQ=DAILY;COUNT=5\nEXDATE:20261007T090000Z');
+    });
+  });
 });
@@ -0,0 +1,326 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { CalendarFeed } from '@/lib/types/calendar-integration';
+
+// ---------------------------------------------------------------------------
+// Hoisted mocks
+// ---------------------------------------------------------------------------
+const { mockGetUpcomingBills, mockGetTaskDueDates } = vi.hoisted(() => ({
+  mockGetUpcomingBills: vi.fn(),
+  mockGetTaskDueDates: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: vi.fn(),
+}));
+
+vi.mock('@/lib/services/bill-calendar-service', () => ({
+  getUpcomingBills: mockGetUpcomingBills,
+}));
+
+vi.mock('@/lib/services/task-calendar-service', () => ({
+  taskCalendarService: { getTaskDueDates: mockGetTaskDueDates },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+import {
+  buildICalendar,
+  escapeICalText,
+  foldICalLine,
+  mapBillToVEvent,
+  mapChoreToVEvent,
+  mapEventToVEvent,
+  mapTaskToVEvent,
+  renderCalendarFeed,
+} from '@/lib/services/calendar/ics-export-service';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+function createChainMock(resolvedValue: unknown) {
+  const mock: Record<string, unknown> = {};
+  const handler = () => mock;
+  ['select', 'eq', 'order', 'is', 'not', 'or'].forEach((m) => {
+    mock[m] = vi.fn(handler);
+  });
+  mock.then = vi.fn((resolve: (v: unknown) => unknown) => resolve(resolvedValue));
+  return mock;
+}
+
+function makeFeed(overrides: Partial<CalendarFeed> = {}): CalendarFeed {
+  return {
+    id: 'feed-1',
+    space_id: 'space-1',
+    created_by: 'user-1',
+    member_id: null,
+    name: 'Family',
+    token: 'a'.repeat(64),
+    domains: ['events', 'chores', 'bills', 'tasks'],
+    revoked_at: null,
+    last_accessed_at: null,
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const baseEvent = {
+  id: 'evt-1',
+  title: 'Dinner, with Grandma',
+  description: 'Bring pie\nand flowers',
+  location: null,
+  start_time: '2026-10-20T17:00:00Z',
+  end_time: '2026-10-20T19:00:00Z',
+  timezone: null,
+  is_recurring: false,
+  recurrence_pattern: null,
+  updated_at: '2026-10-18T08:00:00Z',
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe('ics-export-service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('escapeICalText / foldICalLine', () => {
+    it('escapes backslashes, separators and newlines', () => {
+      expect(escapeICalText('a\\b;c,d\r\ne')).toBe('a\\\\b\\;c\\,d\\ne');
+    });
+
+    it('folds long lines at 75 octets without splitting characters', () => {
+      const folded = foldICalLine(`SUMMARY:${'🧹'.repeat(40)}`);
+      const physical = folded.split('\r\n');
+      expect(physical.length).toBeGreaterThan(1);
+      physical.forEach((line) => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+      expect(physical.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+      expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'🧹'.repeat(40)}`);
+    });
+
+    it('leaves short lines alone', () => {
+      expect(foldICalLine('VERSION:2.0')).toBe('VERSION:2.0');
+    });
+  });
+
+  describe('mapEventToVEvent', () => {
+    it('writes UTC times and escaped text for a one-off event', () => {
+      expect(mapEventToVEvent(baseEvent, NOW)).toEqual([
+        'BEGIN:VEVENT',
+        'UID:event-evt-1@rowan.app',
+        'DTSTAMP:20261019T120000Z',
+        'LAST-MODIFIED:20261018T080000Z',
+        'DTSTART:20261020T170000Z',
+        'DTEND:20261020T190000Z',
+        'SUMMARY:Dinner\\, with Grandma',
+        'DESCRIPTION:Bring pie\\nand flowers',
+        'END:VEVENT',
+      ]);
+    });
+
+    it('keeps the timezone and recurrence of a series', () => {
+      const lines = mapEventToVEvent({
+        ...baseEvent,
+        start_time: '2026-10-05T07:00:00Z',
+        end_time: '2026-10-05T08:00:00Z',
+        timezone: 'Europe/Berlin',
+        is_recurring: true,
+        recurrence_pattern: 'RRULE:FREQ=WEEKLY;BYDAY=MO\nEXDATE;TZID=Europe/Berlin:20261012T090000',
+      }, NOW);
+
+      expect(lines).toContain('DTSTART;TZID=Europe/Berlin:20261005T090000');
+      expect(lines).toContain('DTEND;TZID=Europe/Berlin:20261005T100000');
+      expect(lines).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO');
+      expect(lines).toContain('EXDATE;TZID=Europe/Berlin:20261012T090000');
+    });
+
+    it('converts legacy patterns and ignores malformed ones', () => {
+      const legacy = mapEventToVEvent({ ...baseEvent, is_recurring: true, recurrence_pattern: 'weekly:1,3' }, NOW);
+      expect(legacy).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO,WE');
+
+      const malformed = mapEventToVEvent({ ...baseEvent, is_recurring: true, recurrence_pattern: 'RRULE:FREQ=SOMETIMES' }, NOW);
+      expect(malformed?.some((line) => line.startsWith('RRULE'))).toBe(false);
+    });
+
+    it('writes DATE values for all-day events and keeps a client UID', () => {
+      const lines = mapEventToVEvent({
+        ...baseEvent,
+        start_time: '2026-12-24T00:00:00Z',
+        end_time: '2026-12-26T00:00:00Z',
+        timezone: 'Europe/Berlin',
+        is_all_day: true,
+        ical_uid: 'holiday@device',
+      }, NOW);
+
+      expect(lines).toContain('UID:holiday@device');
+      expect(lines).toContain('DTSTART;VALUE=DATE:20261224');
+      expect(lines).toContain('DTEND;VALUE=DATE:20261226');
+    });
+
+    it('falls back to a one-hour duration and skips invalid start times', () => {
+      expect(mapEventToVEvent({ ...baseEvent, end_time: null }, NOW)).toContain('DURATION:PT1H');
+      expect(mapEventToVEvent({ ...baseEvent, start_time: 'not a date' }, NOW)).toBeNull();
+    });
+  });
+
+  describe('mapChoreToVEvent', () => {
+    const chore = {
+      id: 'chore-1',
+      title: 'Take out trash',
+      description: null,
+      frequency: 'biweekly',
+      recurrence_rule: null,
+      due_date: '2026-10-21T00:00:00+00:00',
+      updated_at: null,
+    };
+
+    it('repeats an all-day event by frequency', () => {
+      expect(mapChoreToVEvent(chore, NOW)).toEqual([
+        'BEGIN:VEVENT',
+        'UID:chore-chore-1@rowan.app',
+        'DTSTAMP:20261019T120000Z',
+        'DTSTART;VALUE=DATE:20261021',
+        'RRULE:FREQ=WEEKLY;INTERVAL=2',
+        'SUMMARY:🧹 Take out trash',
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT',
+      ]);
+    });
+
+    it('prefers the recurrence rule and keeps excluded dates', () => {
+      const lines = mapChoreToVEvent({
+        ...chore,
+        recurrence_rule: 'RRULE:FREQ=MONTHLY;BYDAY=-1FR\nEXDATE;VALUE=DATE:20261127',
+      }, NOW);
+      expect(lines).toContain('RRULE:FREQ=MONTHLY;BYDAY=-1FR');
+      expect(lines).toContain('EXDATE;VALUE=DATE:20261127');
+    });
+
+    it('skips chores without a due date and does not repeat one-off chores', () => {
+      expect(mapChoreToVEvent({ ...chore, due_date: null }, NOW)).toBeNull();
+      expect(mapChoreToVEvent({ ...chore, frequency: 'once' }, NOW)?.some((l) => l.startsWith('RRULE'))).toBe(false);
+    });
+  });
+
+  describe('mapBillToVEvent / mapTaskToVEvent', () => {
+    it('writes bills as all-day events with the amount', () => {
+      const lines = mapBillToVEvent({
+        event_id: 'bill-evt-1',
+        expense_id: 'exp-1',
+        title: '💰 Bill Due: Rent',
+        amount: 1200,
+        due_date: '2026-11-01T00:00:00+00:00',
+        category: 'housing',
+        payment_method: null,
+        days_until_due: 13,
+      }, NOW);
+
+      expect(lines).toContain('UID:bill-bill-evt-1@rowan.app');
+      expect(lines).toContain('DTSTART;VALUE=DATE:20261101');
+      expect(lines).toContain('DESCRIPTION:Amount: 1200.00\\nCategory: housing');
+    });
+
+    it('writes timed and date-only task due dates', () => {
+      const task = {
+        id: 'task-1',
+        space_id: 'space-1',
+        title: 'File taxes',
+        description: null,
+        due_date: '2026-10-25T15:00:00Z',
+        status: 'pending',
+        priority: 'high',
+        assigned_to: null,
+        updated_at: '2026-10-18T08:00:00Z',
+      };
+
+      const timed = mapTaskToVEvent(task, NOW);
+      expect(timed).toContain('DTSTART:20261025T150000Z');
+      expect(timed).toContain('DURATION:PT1H');
+      expect(timed).toContain('SUMMARY:📋 File taxes');
+
+      expect(mapTaskToVEvent({ ...task, due_date: '2026-10-25' }, NOW)).toContain('DTSTART;VALUE=DATE:20261025');
+    });
+  });
+
+  describe('buildICalendar', () => {
+    it('wraps events in a published VCALENDAR with CRLF line endings', () => {
+      const ics = buildICalendar('Family; Home', [['BEGIN:VEVENT', 'END:VEVENT']]);
+      const lines = ics.split('\r\n');
+      expect(lines[0]).toBe('BEGIN:VCALENDAR');
+      expect(lines).toContain('METHOD:PUBLISH');
+      expect(lines).toContain('X-WR-CALNAME:Family\\; Home');
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+  });
+
+  describe('renderCalendarFeed', () => {
+    function makeSupabase(tables: Record<string, unknown[]>) {
+      const chains: Record<string, ReturnType<typeof createChainMock>> = {};
+      return {
+        chains,
+        client: {
+          from: vi.fn((table: string) => {
+            chains[table] = createChainMock({ data: tables[table] ?? [], error: null });
+            return chains[table];
+          }),
+        },
+      };
+    }
+
+    it('combines every enabled domain', async () => {
+      const { client } = makeSupabase({
+        events: [baseEvent],
+        chores: [{ id: 'c1', title: 'Dishes', description: null, frequency: 'daily', recurrence_rule: null, due_date: '2026-10-19', updated_at: null }],
+      });
+      mockGetUpcomingBills.mockResolvedValue([{
+        event_id: 'b1', expense_id: 'e1', title: 'Power', amount: 80, due_date: '2026-10-30T00:00:00+00:00',
+        category: null, payment_method: null, days_until_due: 11,
+      }]);
+      mockGetTaskDueDates.mockResolvedValue([{
+        id: 't1', space_id: 'space-1', title: 'Call plumber', description: null, due_date: '2026-10-22',
+        status: 'pending', priority: null, assigned_to: null, updated_at: '2026-10-18T08:00:00Z',
+      }]);
+
+      const ics = await renderCalendarFeed(makeFeed(), client as never, NOW);
+
+      expect(ics).toContain('UID:event-evt-1@rowan.app');
+      expect(ics).toContain('UID:chore-c1@rowan.app');
+      expect(ics).toContain('UID:bill-b1@rowan.app');
+      expect(ics).toContain('UID:task-t1@rowan.app');
+      expect(mockGetUpcomingBills).toHaveBeenCalledWith('space-1', 365, client);
+    });
+
+    it('only queries the selected domains', async () => {
+      const { client } = makeSupabase({});
+
+      await renderCalendarFeed(makeFeed({ domains: ['bills'] }), client as never, NOW);
+
+      expect(client.from).not.toHaveBeenCalled();
+      expect(mockGetTaskDueDates).not.toHaveBeenCalled();
+      expect(mockGetUpcomingBills).toHaveBeenCalled();
+    });
+
+    it('limits member feeds to the member and excludes derived events', async () => {
+      const { client, chains } = makeSupabase({});
+      mockGetTaskDueDates.mockResolvedValue([]);
+
+      await renderCalendarFeed(makeFeed({ member_id: 'user-2', domains: ['events', 'chores', 'tasks'] }), client as never, NOW);
+
+      expect(chains.events.or).toHaveBeenCalledWith('event_type.is.null,event_type.not.in.(task,chore,bill_due)');
+      expect(chains.events.or).toHaveBeenCalledWith('assigned_to.eq.user-2,assigned_to.is.null');
+      expect(chains.chores.eq).toHaveBeenCalledWith('assigned_to', 'user-2');
+      expect(mockGetTaskDueDates).toHaveBeenCalledWith('space-1', { assignedTo: 'user-2' }, client);
+    });
+
+    it('throws when a domain query fails', async () => {
+      const client = { from: vi.fn(() => createChainMock({ data: null, error: new Error('db down') })) };
+
+      await expect(renderCalendarFeed(makeFeed({ domains: ['events'] }), client as never, NOW)).rejects.toThrow('db down');
+    });
+  });
+});
@@ -297,6 +297,7 @@ describe('icsImportService.importICSFile', () => {
 
     const mockVevent = {
       getFirstProperty: vi.fn(() => null),
+      getAllProperties: vi.fn(() => []),
     };
     const compWithEvent = {
       getAllSubcomponents: vi.fn(() => [mockVevent]),
@@ -326,6 +327,47 @@ describe('icsImportService.importICSFile', () => {
   });
 });
 
+describe('icsImportService.importICSFile recurrence', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('stores RRULE/EXDATE lines and the DTSTART timezone verbatim', async () => {
+    setNextEvent({
+      uid: 'uid-2',
+      summary: 'Standup',
+      startDate: { isDate: false, toJSDate: () => new Date('2026-10-05T07:00:00Z') },
+      endDate: { toJSDate: () => new Date('2026-10-05T07:15:00Z') },
+    });
+
+    const lines: Record<string, string[]> = {
+      rrule: ['RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1'],
+      exdate: ['EXDATE;TZID=Europe/Berlin:20261030T090000'],
+    };
+    const mockVevent = {
+      getFirstProperty: vi.fn((name: string) =>
+        name === 'dtstart' ? { getParameter: () => 'Europe/Berlin' } : null
+      ),
+      getAllProperties: vi.fn((name: string) =>
+        (lines[name] ?? []).map((line) => ({ toICALString: () => line }))
+      ),
+    };
+    setNextComponent({
+      getAllSubcomponents: vi.fn(() => [mockVevent]),
+      getFirstProperty: vi.fn(() => null),
+    });
+
+    const insert = vi.fn(() => Promise.resolve({ data: null, error: null }));
+    mockSupabase.from.mockReturnValue({ insert });
+
+    await icsImportService.importICSFile('BEGIN:VCALENDAR\nEND:VCALENDAR', 'space-1', 'user-1');
+
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+      is_recurring: true,
+      recurrence_pattern: 'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1\nEXDATE;TZID=Europe/Berlin:20261030T090000',
+      timezone: 'Europe/Berlin',
+    }));
+  });
+});
+
 // ---------------------------------------------------------------------------
 // icsImportService aggregate
 // ---------------------------------------------------------------------------
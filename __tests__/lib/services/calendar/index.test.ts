@@ -23,6 +23,12 @@ describe('calendar barrel exports', () => {
     expect(mod.icsImportService).toBeDefined();
   });
 
+  it('re-exports icsExportService and calendarFeedService', async () => {
+    const mod = await import('@/lib/services/calendar');
+    expect(mod.icsExportService).toBeDefined();
+    expect(mod.calendarFeedService).toBeDefined();
+  });
+
   it('re-exports eventMapper', async () => {
     const mod = await import('@/lib/services/calendar');
     expect(mod.eventMapper).toBeDefined();
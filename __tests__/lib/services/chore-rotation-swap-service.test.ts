@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  ChoreRotationSwapError,
+  requestSwap,
+  respondToSwap,
+  swapRotationOrder,
+} from '@/lib/services/chore-rotation-swap-service';
+
+function createChainMock(resolvedValue: unknown) {
+  const mock: Record<string, unknown> = {};
+  const handler = () => mock;
+  ['select', 'eq', 'order', 'insert', 'update', 'single', 'maybeSingle'].forEach((m) => {
+    mock[m] = vi.fn(handler);
+  });
+  mock.then = vi.fn((resolve: (v: unknown) => unknown) => resolve(resolvedValue));
+  return mock;
+}
+
+/** Supabase mock answering each table from a queue of results, in call order. */
+function createSupabaseMock(results: Record<string, unknown[]>, rpcResult: unknown = { data: null, error: null }) {
+  const chains: Record<string, Record<string, unknown>[]> = {};
+  const supabase = {
+    rpc: vi.fn().mockResolvedValue(rpcResult),
+    from: vi.fn((table: string) => {
+      const queue = results[table] ?? [];
+      const chain = createChainMock(queue.length > 1 ? queue.shift() : queue[0] ?? { data: null, error: null });
+      (chains[table] ??= []).push(chain);
+      return chain;
+    }),
+  };
+  return { supabase, chains };
+}
+
+const ROTATION = { id: 'rotation-1', chore_id: 'chore-1', user_order: ['a', 'b', 'c'], last_assigned_to: 'a' };
+
+function makeSwap(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'swap-1',
+    rotation_id: 'rotation-1',
+    requested_by: 'a',
+    requested_with: 'c',
+    status: 'pending',
+    reason: null,
+    responded_at: null,
+    created_at: '2026-10-19T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('chore-rotation-swap-service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('exchanges two members in the rotation order', () => {
+    expect(swapRotationOrder(['a', 'b', 'c'], 'a', 'c')).toEqual(['c', 'b', 'a']);
+    expect(swapRotationOrder(['a', 'b'], 'a', 'z')).toEqual(['a', 'b']);
+  });
+
+  describe('requestSwap', () => {
+    it('rejects swapping with yourself', async () => {
+      const { supabase } = createSupabaseMock({});
+      await expect(requestSwap(supabase as never, { chore_id: 'chore-1', requested_by: 'a', requested_with: 'a' }))
+        .rejects.toBeInstanceOf(ChoreRotationSwapError);
+    });
+
+    it('rejects members outside the rotation', async () => {
+      const { supabase } = createSupabaseMock({ chore_rotations: [{ data: ROTATION, error: null }] });
+      await expect(requestSwap(supabase as never, { chore_id: 'chore-1', requested_by: 'a', requested_with: 'z' }))
+        .rejects.toThrow('Both members must be part of the rotation');
+    });
+
+    it('returns 404 when the chore has no rotation', async () => {
+      const { supabase } = createSupabaseMock({ chore_rotations: [{ data: null, error: null }] });
+      await expect(requestSwap(supabase as never, { chore_id: 'chore-1', requested_by: 'a', requested_with: 'b' }))
+        .rejects.toMatchObject({ status: 404 });
+    });
+
+    it('maps a duplicate pending request to 409', async () => {
+      const { supabase } = createSupabaseMock({
+        chore_rotations: [{ data: ROTATION, error: null }],
+        chore_rotation_swaps: [{ data: null, error: { code: '23505', message: 'duplicate' } }],
+      });
+      await expect(requestSwap(supabase as never, { chore_id: 'chore-1', requested_by: 'a', requested_with: 'b' }))
+        .rejects.toMatchObject({ status: 409 });
+    });
+
+    it('creates a pending request', async () => {
+      const { supabase, chains } = createSupabaseMock({
+        chore_rotations: [{ data: ROTATION, error: null }],
+        chore_rotation_swaps: [{ data: makeSwap(), error: null }],
+      });
+
+      const swap = await requestSwap(supabase as never, { chore_id: 'chore-1', requested_by: 'a', requested_with: 'c', reason: 'Away Saturday' });
+
+      expect(swap.status).toBe('pending');
+      expect(chains.chore_rotation_swaps[0].insert).toHaveBeenCalledWith({
+        rotation_id: 'rotation-1',
+        requested_by: 'a',
+        requested_with: 'c',
+        reason: 'Away Saturday',
+      });
+    });
+  });
+
+  describe('respondToSwap', () => {
+    it('only lets the requested member approve', async () => {
+      const { supabase } = createSupabaseMock({
+        chore_rotations: [{ data: ROTATION, error: null }],
+        chore_rotation_swaps: [{ data: makeSwap(), error: null }],
+      });
+
+      await expect(respondToSwap(supabase as never, { chore_id: 'chore-1', swap_id: 'swap-1', user_id: 'a', action: 'approve' }))
+        .rejects.toMatchObject({ status: 403 });
+    });
+
+    it('rejects requests that were already answered', async () => {
+      const { supabase } = createSupabaseMock({
+        chore_rotations: [{ data: ROTATION, error: null }],
+        chore_rotation_swaps: [{ data: makeSwap({ status: 'declined' }), error: null }],
+      });
+
+      await expect(respondToSwap(supabase as never, { chore_id: 'chore-1', swap_id: 'swap-1', user_id: 'c', action: 'approve' }))
+        .rejects.toMatchObject({ status: 409 });
+    });
+
+    it('approves through the database function', async () => {
+      const { supabase, chains } = createSupabaseMock(
+        {
+          chore_rotations: [{ data: ROTATION, error: null }],
+          chore_rotation_swaps: [{ data: makeSwap(), error: null }],
+        },
+        { data: makeSwap({ status: 'approved' }), error: null }
+      );
+
+      const swap = await respondToSwap(supabase as never, { chore_id: 'chore-1', swap_id: 'swap-1', user_id: 'c', action: 'approve' });
+
+      expect(swap.status).toBe('approved');
+      expect(supabase.rpc).toHaveBeenCalledWith('approve_chore_rotation_swap', { p_swap_id: 'swap-1' });
+      expect(chains.chore_rotation_swaps).toHaveLength(1);
+      expect(chains.chores).toBeUndefined();
+    });
+
+    it('maps a swap answered in the meantime to 409', async () => {
+      const { supabase } = createSupabaseMock(
+        {
+          chore_rotations: [{ data: ROTATION, error: null }],
+          chore_rotation_swaps: [{ data: makeSwap(), error: null }],
+        },
+        { data: null, error: { code: 'P0001', message: 'Swap request is already cancelled' } }
+      );
+
+      await expect(respondToSwap(supabase as never, { chore_id: 'chore-1', swap_id: 'swap-1', user_id: 'c', action: 'approve' }))
+        .rejects.toMatchObject({ status: 409, message: 'Swap request is already cancelled' });
+    });
+
+    it('leaves the rotation alone when declined', async () => {
+      const { supabase, chains } = createSupabaseMock({
+        chore_rotations: [{ data: ROTATION, error: null }],
+        chore_rotation_swaps: [
+          { data: makeSwap(), error: null },
+          { data: makeSwap({ status: 'declined' }), error: null },
+        ],
+      });
+
+      await respondToSwap(supabase as never, { chore_id: 'chore-1', swap_id: 'swap-1', user_id: 'c', action: 'decline' });
+
+      expect(chains.chore_rotations).toHaveLength(1);
+      expect(chains.chores).toBeUndefined();
+    });
+  });
+});
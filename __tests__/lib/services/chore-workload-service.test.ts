@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+import {
+  choreEffort,
+  getMemberWorkloads,
+  getUnavailableMembers,
+  isMemberUnavailable,
+  pickBalancedAssignee,
+  processBalancedRotation,
+  processDueBalancedRotations,
+  removeUnavailability,
+  type MemberWorkload,
+} from '@/lib/services/chore-workload-service';
+
+function createChainMock(resolvedValue: unknown) {
+  const mock: Record<string, unknown> = {};
+  const handler = () => mock;
+  ['select', 'eq', 'order', 'insert', 'update', 'delete', 'single', 'maybeSingle', 'in', 'is', 'gte', 'lte'].forEach((m) => {
+    mock[m] = vi.fn(handler);
+  });
+  mock.then = vi.fn((resolve: (v: unknown) => unknown) => resolve(resolvedValue));
+  return mock;
+}
+
+/** Supabase mock answering each table from a queue of results, in call order. */
+function createSupabaseMock(results: Record<string, unknown[]>) {
+  const chains: Record<string, Record<string, unknown>[]> = {};
+  const supabase = {
+    from: vi.fn((table: string) => {
+      const queue = results[table] ?? [];
+      const chain = createChainMock(queue.length > 1 ? queue.shift() : queue[0] ?? { data: null, error: null });
+      (chains[table] ??= []).push(chain);
+      return chain;
+    }),
+  };
+  return { supabase, chains };
+}
+
+function workload(userId: string, score: number, pointsEarned = 0): MemberWorkload {
+  return {
+    userId,
+    completedEffort: score,
+    missedEffort: 0,
+    pointsEarned,
+    completedCount: 0,
+    missedCount: 0,
+    score,
+  };
+}
+
+describe('chore-workload-service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('choreEffort', () => {
+    it('scales weight by half-hour blocks', () => {
+      expect(choreEffort({ effort_weight: 1, estimated_minutes: 30 })).toBe(1);
+      expect(choreEffort({ effort_weight: 3, estimated_minutes: 60 })).toBe(6);
+      expect(choreEffort({ effort_weight: 2, estimated_minutes: 15 })).toBe(1);
+    });
+
+    it('defaults to weight 1 and 30 minutes', () => {
+      expect(choreEffort(null)).toBe(1);
+      expect(choreEffort({ effort_weight: null, estimated_minutes: null })).toBe(1);
+    });
+
+    it('clamps weight to the 1-5 range', () => {
+      expect(choreEffort({ effort_weight: 9 })).toBe(5);
+      expect(choreEffort({ effort_weight: 0 })).toBe(1);
+    });
+  });
+
+  describe('isMemberUnavailable', () => {
+    const ranges = [{ user_id: 'a', starts_on: '2026-10-20', ends_on: '2026-10-25' }];
+
+    it('includes both ends of the range', () => {
+      expect(isMemberUnavailable('a', '2026-10-20', ranges)).toBe(true);
+      expect(isMemberUnavailable('a', '2026-10-25', ranges)).toBe(true);
+      expect(isMemberUnavailable('a', '2026-10-26', ranges)).toBe(false);
+      expect(isMemberUnavailable('b', '2026-10-22', ranges)).toBe(false);
+    });
+  });
+
+  describe('pickBalancedAssignee', () => {
+    it('picks the member with the least effort', () => {
+      const pick = pickBalancedAssignee(['a', 'b', 'c'], [workload('a', 5), workload('b', 2), workload('c', 4)], new Set());
+      expect(pick).toEqual({ userId: 'b', available: true });
+    });
+
+    it('skips unavailable members', () => {
+      const pick = pickBalancedAssignee(['a', 'b', 'c'], [workload('a', 5), workload('b', 2), workload('c', 4)], new Set(['b']));
+      expect(pick).toEqual({ userId: 'c', available: true });
+    });
+
+    it('falls back to the lowest score when everyone is away', () => {
+      const pick = pickBalancedAssignee(['a', 'b'], [workload('a', 3), workload('b', 1)], new Set(['a', 'b']));
+      expect(pick).toEqual({ userId: 'b', available: false });
+    });
+
+    it('breaks ties on points, then rotation order after the last assignee', () => {
+      expect(pickBalancedAssignee(['a', 'b'], [workload('a', 2, 30), workload('b', 2, 10)], new Set())?.userId).toBe('b');
+      expect(pickBalancedAssignee(['a', 'b', 'c'], [], new Set(), 'a')?.userId).toBe('b');
+      expect(pickBalancedAssignee(['a', 'b', 'c'], [], new Set(), 'c')?.userId).toBe('a');
+    });
+
+    it('returns null for an empty rotation', () => {
+      expect(pickBalancedAssignee([], [], new Set())).toBeNull();
+    });
+  });
+
+  describe('getMemberWorkloads', () => {
+    it('credits completed turns by effort and deducts penalized turns', async () => {
+      const { supabase } = createSupabaseMock({
+        point_transactions: [{
+          data: [
+            { user_id: 'a', source_id: 'dishes', points: 10 },
+            { user_id: 'a', source_id: 'dishes', points: 5 },
+            { user_id: 'b', source_id: 'trash', points: 10 },
+            { user_id: 'b', source_id: 'trash', points: -3 },
+          ],
+          error: null,
+        }],
+        late_penalties: [{
+          data: [
+            { user_id: 'b', chore_id: 'trash' },
+            { user_id: 'b', chore_id: 'trash' },
+          ],
+          error: null,
+        }],
+        chores: [{
+          data: [
+            { id: 'dishes', effort_weight: 2, estimated_minutes: 45 },
+            { id: 'trash', effort_weight: 1, estimated_minutes: 15 },
+          ],
+          error: null,
+        }],
+      });
+
+      const workloads = await getMemberWorkloads(supabase as never, 'space-1', ['a', 'b']);
+
+      expect(workloads).toEqual([
+        { userId: 'a', completedEffort: 3, missedEffort: 0, pointsEarned: 15, completedCount: 1, missedCount: 0, score: 3 },
+        { userId: 'b', completedEffort: 0.5, missedEffort: 0.5, pointsEarned: 10, completedCount: 1, missedCount: 1, score: 0 },
+      ]);
+    });
+
+    it('throws when the ledger query fails', async () => {
+      const { supabase } = createSupabaseMock({
+        point_transactions: [{ data: null, error: { message: 'boom' } }],
+        late_penalties: [{ data: [], error: null }],
+      });
+
+      await expect(getMemberWorkloads(supabase as never, 'space-1', ['a'])).rejects.toEqual({ message: 'boom' });
+    });
+  });
+
+  describe('getUnavailableMembers', () => {
+    it('combines vacation ranges with away events', async () => {
+      const { supabase, chains } = createSupabaseMock({
+        member_unavailability: [{ data: [{ user_id: 'a', starts_on: '2026-10-18', ends_on: '2026-10-22' }], error: null }],
+        events: [{
+          data: [
+            { assigned_to: 'b', created_by: 'a', start_time: '2026-10-19T08:00:00Z', end_time: '2026-10-21T08:00:00Z' },
+            { assigned_to: null, created_by: 'c', start_time: '2026-10-19T10:00:00Z', end_time: null },
+            { assigned_to: 'd', created_by: 'd', start_time: '2026-10-10T10:00:00Z', end_time: '2026-10-12T10:00:00Z' },
+          ],
+          error: null,
+        }],
+      });
+
+      const unavailable = await getUnavailableMembers(supabase as never, 'space-1', '2026-10-20');
+
+      expect([...unavailable].sort()).toEqual(['a', 'b']);
+      expect(chains.events[0].eq).toHaveBeenCalledWith('is_away', true);
+    });
+  });
+
+  describe('processBalancedRotation', () => {
+    it('assigns the least loaded member and schedules the next turn', async () => {
+      const { supabase, chains } = createSupabaseMock({
+        chores: [
+          { data: { id: 'chore-1', space_id: 'space-1' }, error: null },
+          { data: [], error: null },
+          { data: null, error: null },
+        ],
+        point_transactions: [{ data: [{ user_id: 'a', source_id: 'chore-1', points: 10 }], error: null }],
+        late_penalties: [{ data: [], error: null }],
+        member_unavailability: [{ data: [], error: null }],
+        events: [{ data: [], error: null }],
+        chore_rotations: [{ data: null, error: null }],
+      });
+
+      const result = await processBalancedRotation(supabase as never, {
+        id: 'rotation-1',
+        chore_id: 'chore-1',
+        user_order: ['a', 'b'],
+        rotation_frequency: 'weekly',
+        last_assigned_to: 'b',
+      }, '2026-10-19');
+
+      expect(result).toEqual({ rotationId: 'rotation-1', assignedTo: 'b', nextRotationDate: '2026-10-26' });
+      const assign = chains.chores.find(c => (c.update as ReturnType<typeof vi.fn>).mock.calls.length > 0);
+      expect(assign?.update).toHaveBeenCalledWith({ assigned_to: 'b' });
+      expect(chains.chore_rotations[0].update).toHaveBeenCalledWith({
+        current_index: 1,
+        last_assigned_to: 'b',
+        last_rotation_date: '2026-10-19',
+        next_rotation_date: '2026-10-26',
+      });
+    });
+  });
+
+  describe('processDueBalancedRotations', () => {
+    it('keeps going when one rotation fails', async () => {
+      const { supabase } = createSupabaseMock({
+        chore_rotations: [
+          {
+            data: [
+              { id: 'r1', chore_id: 'missing', user_order: ['a'], rotation_frequency: 'daily', last_assigned_to: null },
+              { id: 'r2', chore_id: 'missing', user_order: ['a'], rotation_frequency: 'daily', last_assigned_to: null },
+            ],
+            error: null,
+          },
+        ],
+        chores: [{ data: null, error: { message: 'not found' } }],
+      });
+
+      const result = await processDueBalancedRotations(supabase as never, '2026-10-19');
+
+      expect(result).toEqual({ processed: 0, failed: 2 });
+    });
+  });
+
+  describe('removeUnavailability', () => {
+    it('only removes the caller\'s own range', async () => {
+      const { supabase, chains } = createSupabaseMock({
+        member_unavailability: [{ data: [], error: null }],
+      });
+
+      await expect(removeUnavailability(supabase as never, 'range-1', 'user-1')).resolves.toBe(false);
+      expect(chains.member_unavailability[0].eq).toHaveBeenCalledWith('user_id', 'user-1');
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  normalizeCurrencyCode,
+  roundMoney,
+  formatMoney,
+  findExchangeRate,
+  convertAmount,
+  createCurrencyConverter,
+  getSpaceBaseCurrency,
+  setSpaceBaseCurrency,
+  getExchangeRates,
+  upsertExchangeRate,
+  deleteExchangeRate,
+  getCurrencyConverter,
+} from '@/lib/services/currency-service';
+
+// ── Supabase client mock ──────────────────────────────────────────────────────
+function createChainMock(resolvedValue: unknown) {
+  const mock: Record<string, unknown> = {};
+  const handler = () => mock;
+  ['select', 'eq', 'order', 'insert', 'update', 'delete', 'single', 'limit',
+    'maybeSingle', 'upsert'].forEach(m => {
+    mock[m] = vi.fn(handler);
+  });
+  mock.then = vi.fn((resolve: (v: unknown) => unknown) => resolve(resolvedValue));
+  return mock;
+}
+
+const mockClient = { from: vi.fn() };
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: () => mockClient,
+}));
+
+const RATES = [
+  { base_currency: 'EUR', quote_currency: 'USD', rate: 1.1, effective_date: '2026-01-01' },
+  { base_currency: 'EUR', quote_currency: 'USD', rate: 1.2, effective_date: '2026-06-01' },
+  { base_currency: 'GBP', quote_currency: 'EUR', rate: 1.25, effective_date: '2026-01-01' },
+];
+
+describe('currency-service', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  describe('normalizeCurrencyCode', () => {
+    it('upper-cases valid codes', () => {
+      expect(normalizeCurrencyCode(' eur ')).toBe('EUR');
+    });
+
+    it('falls back to USD for missing or malformed codes', () => {
+      expect(normalizeCurrencyCode(undefined)).toBe('USD');
+      expect(normalizeCurrencyCode('euro')).toBe('USD');
+    });
+  });
+
+  describe('roundMoney / formatMoney', () => {
+    it('rounds to cents', () => {
+      expect(roundMoney(10.005)).toBe(10.01);
+      expect(roundMoney(1 / 3)).toBe(0.33);
+    });
+
+    it('formats in the given currency', () => {
+      expect(formatMoney(12.5)).toBe('$12.50');
+      expect(formatMoney(12.5, 'EUR')).toBe('€12.50');
+    });
+  });
+
+  describe('findExchangeRate', () => {
+    it('returns 1 for the same currency', () => {
+      expect(findExchangeRate([], 'usd', 'USD')).toBe(1);
+    });
+
+    it('uses the latest direct rate when no date is given', () => {
+      expect(findExchangeRate(RATES, 'EUR', 'USD')).toBe(1.2);
+    });
+
+    it('uses the rate effective on the given date', () => {
+      expect(findExchangeRate(RATES, 'EUR', 'USD', '2026-03-15')).toBe(1.1);
+      expect(findExchangeRate(RATES, 'EUR', 'USD', '2026-07-01T10:00:00Z')).toBe(1.2);
+    });
+
+    it('falls back to the earliest rate for dates before any rate', () => {
+      expect(findExchangeRate(RATES, 'EUR', 'USD', '2025-12-01')).toBe(1.1);
+    });
+
+    it('inverts the rate for the opposite direction', () => {
+      expect(findExchangeRate(RATES, 'USD', 'EUR', '2026-03-01')).toBeCloseTo(1 / 1.1);
+    });
+
+    it('crosses through a shared currency', () => {
+      expect(findExchangeRate(RATES, 'GBP', 'USD', '2026-03-01')).toBeCloseTo(1.25 * 1.1);
+    });
+
+    it('returns null when no path exists', () => {
+      expect(findExchangeRate(RATES, 'JPY', 'USD')).toBeNull();
+    });
+  });
+
+  describe('convertAmount', () => {
+    it('converts and rounds to cents', () => {
+      expect(convertAmount(100, 'EUR', 'USD', RATES, '2026-02-01')).toBe(110);
+    });
+
+    it('throws when no rate is available', () => {
+      expect(() => convertAmount(10, 'JPY', 'USD', RATES)).toThrow('No exchange rate from JPY to USD');
+    });
+  });
+
+  describe('createCurrencyConverter', () => {
+    it('treats missing currency as the base currency', () => {
+      const converter = createCurrencyConverter('usd', RATES);
+
+      expect(converter.baseCurrency).toBe('USD');
+      expect(converter.toBase(42, null)).toBe(42);
+      expect(converter.toBase(10, 'EUR', '2026-06-02')).toBe(12);
+    });
+
+    it('returns null from tryToBase when no rate path exists', () => {
+      const converter = createCurrencyConverter('USD', RATES);
+
+      expect(converter.tryToBase(10, 'EUR', '2026-06-02')).toBe(12);
+      expect(converter.tryToBase(10, 'JPY')).toBeNull();
+      expect(() => converter.toBase(10, 'JPY')).toThrow();
+    });
+  });
+
+  describe('getSpaceBaseCurrency', () => {
+    it('returns the stored base currency', async () => {
+      mockClient.from.mockReturnValue(createChainMock({ data: { base_currency: 'EUR' }, error: null }));
+
+      expect(await getSpaceBaseCurrency('space-1')).toBe('EUR');
+      expect(mockClient.from).toHaveBeenCalledWith('spaces');
+    });
+
+    it('defaults to USD when the space has none', async () => {
+      mockClient.from.mockReturnValue(createChainMock({ data: null, error: null }));
+
+      expect(await getSpaceBaseCurrency('space-1')).toBe('USD');
+    });
+
+    it('throws on DB error', async () => {
+      mockClient.from.mockReturnValue(createChainMock({ data: null, error: { message: 'Error' } }));
+
+      await expect(getSpaceBaseCurrency('space-1')).rejects.toBeTruthy();
+    });
+  });
+
+  describe('setSpaceBaseCurrency', () => {
+    it('stores the normalized code', async () => {
+      const chain = createChainMock({ error: null });
+      mockClient.from.mockReturnValue(chain);
+
+      await setSpaceBaseCurrency('space-1', 'eur');
+
+      expect(chain.update).toHaveBeenCalledWith({ base_currency: 'EUR' });
+    });
+  });
+
+  describe('getExchangeRates', () => {
+    it('returns rates for a space', async () => {
+      mockClient.from.mockReturnValue(createChainMock({ data: RATES, error: null }));
+
+      expect(await getExchangeRates('space-1')).toHaveLength(3);
+    });
+
+    it('returns an empty array when no data', async () => {
+      mockClient.from.mockReturnValue(createChainMock({ data: null, error: null }));
+
+      expect(await getExchangeRates('space-1')).toEqual([]);
+    });
+  });
+
+  describe('upsertExchangeRate', () => {
+    it('upserts a normalized pair', async () => {
+      const chain = createChainMock({ data: { id: 'rate-1' }, error: null });
+      mockClient.from.mockReturnValue(chain);
+
+      const result = await upsertExchangeRate({
+        space_id: 'space-1',
+        base_currency: 'eur',
+        quote_currency: 'usd',
+        rate: 1.1,
+        effective_date: '2026-01-01',
+        created_by: 'user-1',
+      });
+
+      expect(result.id).toBe('rate-1');
+      expect(chain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ base_currency: 'EUR', quote_currency: 'USD', rate: 1.1 }),
+        { onConflict: 'space_id,base_currency,quote_currency,effective_date' }
+      );
+    });
+
+    it('rejects identical currencies', async () => {
+      await expect(upsertExchangeRate({
+        space_id: 'space-1', base_currency: 'USD', quote_currency: 'usd', rate: 1, created_by: 'user-1',
+      })).rejects.toThrow('must differ');
+    });
+
+    it('rejects non-positive rates', async () => {
+      await expect(upsertExchangeRate({
+        space_id: 'space-1', base_currency: 'EUR', quote_currency: 'USD', rate: 0, created_by: 'user-1',
+      })).rejects.toThrow('must be positive');
+    });
+  });
+
+  describe('deleteExchangeRate', () => {
+    it('deletes scoped to the space', async () => {
+      const chain = createChainMock({ error: null });
+      mockClient.from.mockReturnValue(chain);
+
+      await deleteExchangeRate('space-1', 'rate-1');
+
+      expect(chain.eq).toHaveBeenCalledWith('id', 'rate-1');
+      expect(chain.eq).toHaveBeenCalledWith('space_id', 'space-1');
+    });
+  });
+
+  describe('getCurrencyConverter', () => {
+    it('builds a converter from the space base currency and rates', async () => {
+      mockClient.from.mockImplementation((table: string) =>
+        table === 'spaces'
+          ? createChainMock({ data: { base_currency: 'EUR' }, error: null })
+          : createChainMock({ data: RATES, error: null })
+      );
+
+      const converter = await getCurrencyConverter('space-1');
+
+      expect(converter.baseCurrency).toBe('EUR');
+      expect(converter.toBase(110, 'USD', '2026-02-01')).toBe(100);
+    });
+  });
+});
@@ -252,4 +252,53 @@ describe('enhanced-notification-service', () => {
       expect(result.inApp).toBe(1);
     });
   });
+
+  // ── sendAssignmentTradeNotification ──────────────────────────────────────
+  describe('sendAssignmentTradeNotification', () => {
+    const tradeData = {
+      event: 'offered' as const,
+      tradeId: 'trade-1',
+      itemType: 'chore' as const,
+      itemTitle: 'Dishes',
+      actorId: 'user-1',
+      actorName: 'Alice',
+      bountyPoints: 20,
+      spaceId: 'space-1',
+      spaceName: 'Home',
+    };
+
+    it('creates an in-app notification per recipient with the passed client', async () => {
+      const chain = createChainMock({ data: null, error: null });
+      const adminClient = { from: vi.fn(() => chain) };
+
+      const result = await enhancedNotificationService.sendAssignmentTradeNotification(
+        ['user-2', 'user-3'],
+        tradeData,
+        adminClient as never
+      );
+
+      expect(result.inApp).toBe(2);
+      expect(adminClient.from).toHaveBeenCalledWith('in_app_notifications');
+      expect(chain.insert).toHaveBeenCalledWith([expect.objectContaining({
+        user_id: 'user-2',
+        title: '🔁 Alice wants to trade',
+        content: 'Take over the chore "Dishes" for 20 points?',
+        related_item_type: 'assignment_trade',
+        priority: 'high',
+      })]);
+    });
+
+    it('reports failed inserts as errors', async () => {
+      const chain = createChainMock({ data: null, error: { message: 'RLS' } });
+      mockClient.from.mockReturnValue(chain);
+
+      const result = await enhancedNotificationService.sendAssignmentTradeNotification(
+        ['user-2'],
+        { ...tradeData, event: 'accepted', bountyPoints: 0 }
+      );
+
+      expect(result.inApp).toBe(0);
+      expect(result.errors).toHaveLength(1);
+    });
+  });
 });
@@ -18,6 +18,18 @@ import {
   getExpensesByOwnership,
   getSplitExpenseStats,
   getMonthlySettlementTrends,
+  calculateItemizedSplit,
+  buildItemizedSplitFromReceipt,
+  getExpenseSplitItems,
+  createItemizedExpenseSplits,
+  simplifyDebts,
+  getBalanceLedger,
+  summarizeBalanceLedger,
+  getSettleUpPlan,
+  recordSettleUp,
+  matchesSettleUpPlan,
+  type BalanceLedgerEntry,
+  type SettleUpTransfer,
 } from '@/lib/services/expense-splitting-service';
 
 // ── Supabase client mock ──────────────────────────────────────────────────────
@@ -320,6 +332,50 @@ describe('expense-splitting-service', () => {
       expect(payer?.amount_owed_to_them).toBe(100);
     });
 
+    it('converts splits into the space base currency', async () => {
+      const splits = [
+        { ...MOCK_SPLIT, user_id: 'user-1', is_payer: true, amount_owed: 100, amount_paid: 0, expenses: { space_id: 'space-1', currency: 'EUR', date: '2026-02-01' }, users: { email: 'alice@test.com' } },
+        { ...MOCK_SPLIT, id: 'split-2', user_id: 'user-2', is_payer: false, amount_owed: 100, amount_paid: 0, expenses: { space_id: 'space-1', currency: 'EUR', date: '2026-02-01' }, users: { email: 'bob@test.com' } },
+        { ...MOCK_SPLIT, id: 'split-3', user_id: 'user-2', is_payer: false, amount_owed: 20, amount_paid: 0, expenses: { space_id: 'space-1', currency: 'USD', date: '2026-02-01' }, users: { email: 'bob@test.com' } },
+      ];
+      mockClient.from.mockImplementation((table: string) => {
+        if (table === 'spaces') return createChainMock({ data: { base_currency: 'USD' }, error: null });
+        if (table === 'exchange_rates') {
+          return createChainMock({
+            data: [{ base_currency: 'EUR', quote_currency: 'USD', rate: 1.1, effective_date: '2026-01-01' }],
+            error: null,
+          });
+        }
+        return createChainMock({ data: splits, error: null });
+      });
+
+      const result = await calculateCurrentBalance('space-1');
+
+      const payer = result.find(r => r.user_id === 'user-1');
+      const debtor = result.find(r => r.user_id === 'user-2');
+      expect(payer?.amount_owed_to_them).toBe(110);
+      expect(debtor?.amount_owed).toBe(130);
+      expect(debtor?.currency).toBe('USD');
+      expect(debtor?.unconverted_currencies).toEqual([]);
+    });
+
+    it('leaves out and reports splits with no exchange rate', async () => {
+      const splits = [
+        { ...MOCK_SPLIT, user_id: 'user-2', is_payer: false, amount_owed: 20, amount_paid: 0, expenses: { space_id: 'space-1', currency: 'USD', date: '2026-02-01' }, users: { email: 'bob@test.com' } },
+        { ...MOCK_SPLIT, id: 'split-2', user_id: 'user-2', is_payer: false, amount_owed: 500, amount_paid: 0, expenses: { space_id: 'space-1', currency: 'JPY', date: '2026-02-01' }, users: { email: 'bob@test.com' } },
+      ];
+      mockClient.from.mockImplementation((table: string) => {
+        if (table === 'spaces') return createChainMock({ data: { base_currency: 'USD' }, error: null });
+        if (table === 'exchange_rates') return createChainMock({ data: [], error: null });
+        return createChainMock({ data: splits, error: null });
+      });
+
+      const [debtor] = await calculateCurrentBalance('space-1');
+
+      expect(debtor.amount_owed).toBe(20);
+      expect(debtor.unconverted_currencies).toEqual(['JPY']);
+    });
+
     it('throws on DB error', async () => {
       const chain = createChainMock({ data: null, error: { message: 'Error' } });
       mockClient.from.mockReturnValue(chain);
@@ -468,4 +524,389 @@ describe('expense-splitting-service', () => {
       expect(result).toEqual([]);
     });
   });
+
+  // ── Itemized splits ──────────────────────────────────────────────────────
+  describe('calculateItemizedSplit', () => {
+    it('assigns items and allocates tax and tip proportionally', () => {
+      const shares = calculateItemizedSplit({
+        participants: ['alex', 'sam'],
+        items: [
+          { name: 'Milk', amount: 4, assigned_to: ['alex'] },
+          { name: 'Wine', amount: 12, assigned_to: ['sam'] },
+          { name: 'Bread', amount: 4, assigned_to: 'shared' },
+        ],
+        tax_amount: 2,
+        tip_amount: 1,
+      });
+
+      expect(shares).toEqual([
+        { user_id: 'alex', item_subtotal: 6, tax_share: 0.6, tip_share: 0.3, adjustment: 0, amount_owed: 6.9, percentage: 30 },
+        { user_id: 'sam', item_subtotal: 14, tax_share: 1.4, tip_share: 0.7, adjustment: 0, amount_owed: 16.1, percentage: 70 },
+      ]);
+    });
+
+    it('always adds up to the total when amounts do not divide evenly', () => {
+      const shares = calculateItemizedSplit({
+        participants: ['a', 'b', 'c'],
+        items: [{ name: 'Pizza', amount: 10, assigned_to: 'shared' }],
+        tax_amount: 1,
+      });
+
+      const total = shares.reduce((sum, s) => sum + s.amount_owed, 0);
+      expect(Math.round(total * 100) / 100).toBe(11);
+      expect(shares.map((s) => s.item_subtotal)).toEqual([3.34, 3.33, 3.33]);
+    });
+
+    it('spreads a discount on the total across participants', () => {
+      const shares = calculateItemizedSplit({
+        participants: ['a', 'b'],
+        items: [
+          { name: 'A', amount: 30, assigned_to: ['a'] },
+          { name: 'B', amount: 10, assigned_to: ['b'] },
+        ],
+        total_amount: 36,
+      });
+
+      expect(shares.map((s) => s.adjustment)).toEqual([-3, -1]);
+      expect(shares.map((s) => s.amount_owed)).toEqual([27, 9]);
+    });
+
+    it('splits an item between a subset of participants', () => {
+      const shares = calculateItemizedSplit({
+        participants: ['a', 'b', 'c'],
+        items: [{ name: 'Snacks', amount: 9, assigned_to: ['a', 'b'] }],
+      });
+
+      expect(shares.map((s) => s.amount_owed)).toEqual([4.5, 4.5, 0]);
+    });
+
+    it('rejects items assigned to non-participants', () => {
+      expect(() => calculateItemizedSplit({
+        participants: ['a'],
+        items: [{ name: 'Milk', amount: 4, assigned_to: ['z'] }],
+      })).toThrow('not a participant');
+    });
+
+    it('rejects splits without item amounts or participants', () => {
+      expect(() => calculateItemizedSplit({ participants: ['a'], items: [] })).toThrow('at least one item');
+      expect(() => calculateItemizedSplit({
+        participants: [],
+        items: [{ name: 'Milk', amount: 4, assigned_to: 'shared' }],
+      })).toThrow('participant');
+    });
+  });
+
+  describe('buildItemizedSplitFromReceipt', () => {
+    it('maps receipt items and defaults unassigned items to shared', () => {
+      const input = buildItemizedSplitFromReceipt(
+        {
+          items: [
+            { name: 'Milk', total_price: 3.99 },
+            { name: 'Eggs', quantity: 2, unit_price: 2.5 },
+          ],
+          tax_amount: 0.5,
+          total_amount: 9.49,
+        },
+        [['alex']],
+        ['alex', 'sam']
+      );
+
+      expect(input.items).toEqual([
+        { name: 'Milk', quantity: null, amount: 3.99, assigned_to: ['alex'] },
+        { name: 'Eggs', quantity: 2, amount: 5, assigned_to: 'shared' },
+      ]);
+      expect(input.tax_amount).toBe(0.5);
+      expect(input.total_amount).toBe(9.49);
+    });
+  });
+
+  describe('getExpenseSplitItems', () => {
+    it('returns items in receipt order', async () => {
+      const chain = createChainMock({ data: [{ id: 'item-1' }], error: null });
+      mockClient.from.mockReturnValue(chain);
+
+      const result = await getExpenseSplitItems('exp-1');
+
+      expect(mockClient.from).toHaveBeenCalledWith('expense_split_items');
+      expect(chain.order).toHaveBeenCalledWith('position', { ascending: true });
+      expect(result).toHaveLength(1);
+    });
+  });
+
+  describe('createItemizedExpenseSplits', () => {
+    it('stores assignments and replaces the splits in one call', async () => {
+      mockClient.from.mockReturnValue(createChainMock({ data: { id: 'exp-1', amount: 23, paid_by: 'alex' }, error: null }));
+      mockClient.rpc.mockResolvedValue({ data: [MOCK_SPLIT], error: null });
+
+      const result = await createItemizedExpenseSplits('exp-1', {
+        participants: ['alex', 'sam'],
+        items: [
+          { name: 'Milk', amount: 4, assigned_to: ['alex'] },
+          { name: 'Wine', amount: 12, assigned_to: ['sam'] },
+          { name: 'Bread', amount: 4, assigned_to: 'shared' },
+        ],
+        tax_amount: 2,
+        tip_amount: 1,
+        receipt_id: 'receipt-1',
+      });
+
+      expect(result).toEqual([MOCK_SPLIT]);
+      expect(mockClient.rpc).toHaveBeenCalledTimes(1);
+      expect(mockClient.rpc).toHaveBeenCalledWith('replace_itemized_expense_splits', {
+        p_expense_id: 'exp-1',
+        p_receipt_id: 'receipt-1',
+        p_items: [
+          expect.objectContaining({ name: 'Milk', position: 0, assigned_user_ids: ['alex'] }),
+          expect.objectContaining({ name: 'Wine', position: 1, assigned_user_ids: ['sam'] }),
+          expect.objectContaining({ name: 'Bread', position: 2, assigned_user_ids: [] }),
+        ],
+        p_splits: [
+          expect.objectContaining({ user_id: 'alex', amount_owed: 6.9, amount_paid: 6.9, is_payer: true, status: 'settled' }),
+          expect.objectContaining({ user_id: 'sam', amount_owed: 16.1, amount_paid: 0, is_payer: false, status: 'pending', tax_share: 1.4 }),
+        ],
+      });
+    });
+
+    it('surfaces a failed replacement', async () => {
+      mockClient.from.mockReturnValue(createChainMock({ data: { id: 'exp-1', amount: 4, paid_by: 'alex' }, error: null }));
+      mockClient.rpc.mockResolvedValue({ data: null, error: { code: 'P0002', message: 'Expense not found' } });
+
+      await expect(createItemizedExpenseSplits('exp-1', {
+        participants: ['alex'],
+        items: [{ name: 'Milk', amount: 4, assigned_to: 'shared' }],
+      })).rejects.toMatchObject({ message: 'Expense not found' });
+    });
+
+    it('throws when the expense cannot be loaded', async () => {
+      mockClient.from.mockReturnValue(createChainMock({ data: null, error: { message: 'Not found' } }));
+
+      await expect(createItemizedExpenseSplits('exp-1', {
+        participants: ['alex'],
+        items: [{ name: 'Milk', amount: 4, assigned_to: 'shared' }],
+      })).rejects.toBeTruthy();
+    });
+  });
+
+  // ── Settle up ────────────────────────────────────────────────────────────
+  describe('simplifyDebts', () => {
+    const applyTransfers = (balances: Record<string, number>, transfers: SettleUpTransfer[]) => {
+      const result = { ...balances };
+      for (const t of transfers) {
+        result[t.from_user_id] = Math.round((result[t.from_user_id] + t.amount) * 100) / 100;
+        result[t.to_user_id] = Math.round((result[t.to_user_id] - t.amount) * 100) / 100;
+      }
+      return result;
+    };
+
+    it('settles two members with a single transfer', () => {
+      expect(simplifyDebts([
+        { user_id: 'alex', net_balance: 25 },
+        { user_id: 'sam', net_balance: -25 },
+      ])).toEqual([{ from_user_id: 'sam', to_user_id: 'alex', amount: 25 }]);
+    });
+
+    it('finds fewer transfers than matching the largest debts first', () => {
+      const balances = { alex: 4, sam: 3, jo: -3, kim: -2, lee: -2 };
+      const transfers = simplifyDebts(Object.entries(balances).map(([user_id, net_balance]) => ({ user_id, net_balance })));
+
+      expect(transfers).toHaveLength(3);
+      expect(transfers).toContainEqual({ from_user_id: 'jo', to_user_id: 'sam', amount: 3 });
+      expect(Object.values(applyTransfers(balances, transfers)).every((b) => b === 0)).toBe(true);
+    });
+
+    it('returns no transfers when everyone is even', () => {
+      expect(simplifyDebts([{ user_id: 'alex', net_balance: 0 }, { user_id: 'sam', net_balance: 0.001 }])).toEqual([]);
+    });
+
+    it('absorbs rounding differences from currency conversion', () => {
+      const transfers = simplifyDebts([
+        { user_id: 'alex', net_balance: 10.01 },
+        { user_id: 'sam', net_balance: -5 },
+        { user_id: 'jo', net_balance: -5 },
+      ]);
+
+      expect(transfers.reduce((sum, t) => sum + t.amount, 0)).toBe(10);
+      expect(transfers.every((t) => t.to_user_id === 'alex')).toBe(true);
+    });
+
+    it('settles large households with at most n - 1 transfers', () => {
+      const balances: Record<string, number> = {};
+      for (let i = 0; i < 20; i++) balances[`user-${i}`] = i < 10 ? i + 1 : -(i - 9);
+      const transfers = simplifyDebts(Object.entries(balances).map(([user_id, net_balance]) => ({ user_id, net_balance })));
+
+      expect(transfers.length).toBeLessThanOrEqual(19);
+      expect(Object.values(applyTransfers(balances, transfers)).every((b) => b === 0)).toBe(true);
+    });
+  });
+
+  describe('getBalanceLedger', () => {
+    it('turns unsettled splits into debts owed to the payer', async () => {
+      const splits = [
+        { id: 'split-1', expense_id: 'exp-1', user_id: 'sam', amount_owed: 30, amount_paid: 10, expenses: { title: 'Groceries', currency: 'USD', date: '2026-10-02', paid_by: 'alex' } },
+        { id: 'split-2', expense_id: 'exp-2', user_id: 'jo', amount_owed: 10, amount_paid: 0, expenses: { title: 'Dinner', currency: 'EUR', date: '2026-10-01', paid_by: 'sam' } },
+        { id: 'split-3', expense_id: 'exp-3', user_id: 'jo', amount_owed: 5, amount_paid: 0, expenses: { title: 'No payer', currency: 'USD', date: '2026-10-03', paid_by: null } },
+      ];
+      mockClient.from.mockImplementation((table: string) => {
+        if (table === 'spaces') return createChainMock({ data: { base_currency: 'USD' }, error: null });
+        if (table === 'exchange_rates') {
+          return createChainMock({
+            data: [{ base_currency: 'EUR', quote_currency: 'USD', rate: 1.1, effective_date: '2026-01-01' }],
+            error: null,
+          });
+        }
+        return createChainMock({ data: splits, error: null });
+      });
+
+      const ledger = await getBalanceLedger('space-1');
+
+      expect(ledger.unconverted_currencies).toEqual([]);
+      expect(ledger.entries).toEqual([
+        expect.objectContaining({ split_id: 'split-2', debtor_id: 'jo', creditor_id: 'sam', amount: 11, original_amount: 10, original_currency: 'EUR' }),
+        expect.objectContaining({ split_id: 'split-1', debtor_id: 'sam', creditor_id: 'alex', amount: 20, expense_title: 'Groceries' }),
+      ]);
+    });
+
+    it('leaves out and reports splits with no exchange rate', async () => {
+      const splits = [
+        { id: 'split-1', expense_id: 'exp-1', user_id: 'sam', amount_owed: 20, amount_paid: 0, expenses: { currency: 'USD', date: '2026-10-01', paid_by: 'alex' } },
+        { id: 'split-2', expense_id: 'exp-2', user_id: 'jo', amount_owed: 3000, amount_paid: 0, expenses: { currency: 'JPY', date: '2026-10-02', paid_by: 'alex' } },
+      ];
+      mockClient.from.mockImplementation((table: string) => {
+        if (table === 'spaces') return createChainMock({ data: { base_currency: 'USD' }, error: null });
+        if (table === 'exchange_rates') return createChainMock({ data: [], error: null });
+        return createChainMock({ data: splits, error: null });
+      });
+
+      const ledger = await getBalanceLedger('space-1');
+
+      expect(ledger.entries.map((e) => e.split_id)).toEqual(['split-1']);
+      expect(ledger.unconverted_currencies).toEqual(['JPY']);
+    });
+
+    it('throws on DB error', async () => {
+      mockClient.from.mockReturnValue(createChainMock({ data: null, error: { message: 'Error' } }));
+
+      await expect(getBalanceLedger('space-1')).rejects.toBeTruthy();
+    });
+  });
+
+  describe('summarizeBalanceLedger', () => {
+    it('derives each balance from the splits involving the member', () => {
+      const entry = (split_id: string, debtor_id: string, creditor_id: string, amount: number): BalanceLedgerEntry => ({
+        split_id, expense_id: `exp-${split_id}`, expense_title: null, expense_date: null,
+        debtor_id, creditor_id, amount, original_amount: amount, original_currency: 'USD',
+      });
+
+      const balances = summarizeBalanceLedger([
+        entry('1', 'sam', 'alex', 20),
+        entry('2', 'jo', 'alex', 10),
+        entry('3', 'alex', 'sam', 5),
+      ]);
+
+      expect(balances.map((b) => [b.user_id, b.net_balance])).toEqual([['alex', 25], ['jo', -10], ['sam', -15]]);
+      expect(balances[0].entries.map((e) => e.split_id)).toEqual(['1', '2', '3']);
+      expect(balances[0]).toMatchObject({ amount_owed: 5, amount_owed_to_them: 30 });
+    });
+  });
+
+  describe('getSettleUpPlan', () => {
+    it('returns balances with emails, transfers and covered expenses', async () => {
+      const splits = [
+        { id: 'split-1', expense_id: 'exp-1', user_id: 'sam', amount_owed: 20, amount_paid: 0, expenses: { currency: 'USD', date: '2026-10-01', paid_by: 'alex' } },
+        { id: 'split-2', expense_id: 'exp-1', user_id: 'jo', amount_owed: 20, amount_paid: 0, expenses: { currency: 'USD', date: '2026-10-01', paid_by: 'alex' } },
+      ];
+      mockClient.from.mockImplementation((table: string) => {
+        if (table === 'spaces') return createChainMock({ data: { base_currency: 'USD' }, error: null });
+        if (table === 'exchange_rates') return createChainMock({ data: [], error: null });
+        if (table === 'users') return createChainMock({ data: [{ id: 'alex', email: 'alex@test.com' }], error: null });
+        return createChainMock({ data: splits, error: null });
+      });
+
+      const plan = await getSettleUpPlan('space-1');
+
+      expect(plan.currency).toBe('USD');
+      expect(plan.split_ids).toEqual(['split-1', 'split-2']);
+      expect(plan.expense_ids).toEqual(['exp-1']);
+      expect(plan.unconverted_currencies).toEqual([]);
+      expect(plan.balances[0]).toMatchObject({ user_id: 'alex', user_email: 'alex@test.com', net_balance: 40 });
+      expect(plan.transfers).toHaveLength(2);
+      expect(plan.transfers.every((t) => t.to_user_id === 'alex' && t.amount === 20)).toBe(true);
+    });
+  });
+
+  describe('matchesSettleUpPlan', () => {
+    const plan = {
+      transfers: [
+        { from_user_id: 'sam', to_user_id: 'alex', amount: 20 },
+        { from_user_id: 'jo', to_user_id: 'alex', amount: 15.5 },
+      ],
+    };
+
+    it('accepts the planned transfers in any order', () => {
+      expect(matchesSettleUpPlan(plan, [...plan.transfers].reverse())).toBe(true);
+    });
+
+    it('rejects altered, missing or extra transfers', () => {
+      expect(matchesSettleUpPlan(plan, [plan.transfers[0], { ...plan.transfers[1], amount: 15.49 }])).toBe(false);
+      expect(matchesSettleUpPlan(plan, [plan.transfers[0], { ...plan.transfers[1], to_user_id: 'sam' }])).toBe(false);
+      expect(matchesSettleUpPlan(plan, [plan.transfers[0]])).toBe(false);
+      expect(matchesSettleUpPlan(plan, [...plan.transfers, plan.transfers[0]])).toBe(false);
+      expect(matchesSettleUpPlan(plan, [plan.transfers[0], plan.transfers[0]])).toBe(false);
+    });
+  });
+
+  describe('recordSettleUp', () => {
+    it('records the transfers and settles the planned splits in one call', async () => {
+      mockClient.rpc.mockResolvedValue({ data: [MOCK_SETTLEMENT, MOCK_SETTLEMENT], error: null });
+
+      const result = await recordSettleUp({
+        space_id: 'space-1',
+        transfers: [
+          { from_user_id: 'sam', to_user_id: 'alex', amount: 20 },
+          { from_user_id: 'jo', to_user_id: 'alex', amount: 20 },
+        ],
+        split_ids: ['split-1', 'split-2'],
+        expense_ids: ['exp-1'],
+        currency: 'usd',
+        created_by: 'alex',
+      }, mockClient as never);
+
+      expect(result).toHaveLength(2);
+      expect(mockClient.from).not.toHaveBeenCalled();
+      expect(mockClient.rpc).toHaveBeenCalledTimes(1);
+      expect(mockClient.rpc).toHaveBeenCalledWith('record_settle_up', expect.objectContaining({
+        p_space_id: 'space-1',
+        p_created_by: 'alex',
+        p_transfers: [
+          { from_user_id: 'sam', to_user_id: 'alex', amount: 20 },
+          { from_user_id: 'jo', to_user_id: 'alex', amount: 20 },
+        ],
+        p_split_ids: ['split-1', 'split-2'],
+        p_expense_ids: ['exp-1'],
+        p_currency: 'USD',
+      }));
+    });
+
+    it('rejects empty or invalid transfers', async () => {
+      const base = { space_id: 'space-1', split_ids: [], expense_ids: [], created_by: 'alex' };
+      const client = mockClient as never;
+
+      await expect(recordSettleUp({ ...base, transfers: [] }, client)).rejects.toThrow('Nothing to settle');
+      await expect(recordSettleUp({ ...base, transfers: [{ from_user_id: 'a', to_user_id: 'a', amount: 5 }] }, client)).rejects.toThrow('different members');
+      await expect(recordSettleUp({ ...base, transfers: [{ from_user_id: 'a', to_user_id: 'b', amount: 0 }] }, client)).rejects.toThrow('positive');
+      expect(mockClient.rpc).not.toHaveBeenCalled();
+    });
+
+    it('throws when the transaction fails', async () => {
+      mockClient.rpc.mockResolvedValue({ data: null, error: { code: '40001', message: 'Balances changed' } });
+
+      await expect(recordSettleUp({
+        space_id: 'space-1',
+        transfers: [{ from_user_id: 'sam', to_user_id: 'alex', amount: 20 }],
+        split_ids: ['split-1'],
+        expense_ids: ['exp-1'],
+        created_by: 'alex',
+      }, mockClient as never)).rejects.toMatchObject({ code: '40001' });
+    });
+  });
 });
@@ -8,6 +8,8 @@ import {
   getSharingSettings,
   calculateDistance,
   isWithinGeofence,
+  getTriggeredLocationReminders,
+  type LocationReminderRule,
 } from '@/lib/services/family-location-service';
 
 const mockSupabase = vi.hoisted(() => ({
@@ -39,6 +41,7 @@ vi.mock('@/lib/logger', () => ({
 vi.mock('@/lib/services/push-notification-service', () => ({
   notifyLocationArrival: vi.fn(),
   notifyLocationDeparture: vi.fn(),
+  notifyLocationReminder: vi.fn(),
 }));
 
 beforeEach(() => {
@@ -79,6 +82,70 @@ describe('family-location-service', () => {
     });
   });
 
+  describe('getTriggeredLocationReminders', () => {
+    const home = { latitude: 40.7128, longitude: -74.0060 };
+    const away = { latitude: 40.7300, longitude: -74.0060 };
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    const reminder = (overrides: Partial<LocationReminderRule> = {}): LocationReminderRule => ({
+      id: 'rem-1',
+      title: 'Grab the mail',
+      assigned_to: undefined,
+      location: null,
+      place_id: 'place-1',
+      location_latitude: null,
+      location_longitude: null,
+      location_radius_meters: null,
+      location_trigger: 'arrive',
+      location_member_ids: [],
+      location_cooldown_minutes: 60,
+      location_last_triggered_at: null,
+      ...overrides,
+    });
+
+    const arrival = {
+      userId: 'user-1',
+      previous: away,
+      current: home,
+      events: [{ place_id: 'place-1', event_type: 'arrival' as const }],
+    };
+
+    it('should fire place reminders on the matching event', () => {
+      expect(getTriggeredLocationReminders([reminder()], arrival, now)).toHaveLength(1);
+      expect(getTriggeredLocationReminders([reminder({ location_trigger: 'leave' })], arrival, now)).toHaveLength(0);
+      expect(getTriggeredLocationReminders([reminder({ place_id: 'place-2' })], arrival, now)).toHaveLength(0);
+    });
+
+    it('should only fire for the reminder members, else the assignee', () => {
+      expect(getTriggeredLocationReminders([reminder({ location_member_ids: ['user-2'] })], arrival, now)).toHaveLength(0);
+      expect(getTriggeredLocationReminders([reminder({ assigned_to: 'user-2' })], arrival, now)).toHaveLength(0);
+      expect(
+        getTriggeredLocationReminders([reminder({ assigned_to: 'user-2', location_member_ids: ['user-1'] })], arrival, now)
+      ).toHaveLength(1);
+    });
+
+    it('should skip reminders still in their cooldown', () => {
+      const recent = reminder({ location_last_triggered_at: '2026-10-19T11:30:00Z' });
+      const earlier = reminder({ location_last_triggered_at: '2026-10-19T10:30:00Z' });
+
+      expect(getTriggeredLocationReminders([recent, earlier], arrival, now)).toEqual([earlier]);
+    });
+
+    it('should fire ad-hoc reminders when crossing their radius', () => {
+      const point = reminder({
+        place_id: null,
+        location_latitude: home.latitude,
+        location_longitude: home.longitude,
+        location_radius_meters: 200,
+      });
+      const leaving = { userId: 'user-1', previous: home, current: away, events: [] };
+
+      expect(getTriggeredLocationReminders([point], { ...arrival, events: [] }, now)).toHaveLength(1);
+      expect(getTriggeredLocationReminders([point], leaving, now)).toHaveLength(0);
+      expect(getTriggeredLocationReminders([{ ...point, location_trigger: 'leave' }], leaving, now)).toHaveLength(1);
+    });
+  });
+
   describe('updateUserLocation', () => {
     it('should update user location successfully', async () => {
       const mockLocation = { id: 'loc-1', latitude: 40.7128, longitude: -74.0060 };
@@ -251,6 +251,51 @@ describe('financial-reports-service', () => {
     });
   });
 
+  // ── generateReport ────────────────────────────────────────────────────────
+  describe('generateReport', () => {
+    it('leaves out amounts with no exchange rate and reports their currencies', async () => {
+      const reportsChain = createChainMock({ data: MOCK_REPORT, error: null });
+      mockClient.from.mockImplementation((table: string) => {
+        if (table === 'report_templates') return createChainMock({ data: MOCK_TEMPLATE, error: null });
+        if (table === 'spaces') return createChainMock({ data: { base_currency: 'USD' }, error: null });
+        if (table === 'exchange_rates') return createChainMock({ data: [], error: null });
+        return reportsChain;
+      });
+      mockRpc.mockResolvedValue({
+        data: {
+          expenses: [
+            { id: 'e1', amount: 40, currency: 'USD', category: 'Food', date: '2026-01-05', is_recurring: false },
+            { id: 'e2', amount: 5000, currency: 'JPY', category: 'Food', date: '2026-01-06', is_recurring: false },
+          ],
+          budgets: [
+            { category: 'Food', budgeted_amount: 200, currency: 'USD', period: 'monthly' },
+            { category: 'Travel', budgeted_amount: 300, currency: 'GBP', period: 'monthly' },
+          ],
+          goals: [],
+          metrics: {},
+          date_range: { start: '2026-01-01', end: '2026-01-31' },
+          generated_at: '2026-01-31T00:00:00Z',
+        },
+        error: null,
+      });
+
+      await financialReportsService.generateReport('user-1', {
+        template_id: 'tmpl-1',
+        space_id: 'space-1',
+        title: 'January Report',
+        date_range_start: '2026-01-01',
+        date_range_end: '2026-01-31',
+      });
+
+      const inserted = (reportsChain.insert as ReturnType<typeof vi.fn>).mock.calls[0][0];
+      expect(inserted.status).toBe('generated');
+      expect(inserted.data.expenses.map((e: { id: string }) => e.id)).toEqual(['e1']);
+      expect(inserted.data.budgets.map((b: { category: string }) => b.category)).toEqual(['Food']);
+      expect(inserted.data.metrics.total_expenses).toBe(40);
+      expect(inserted.data.unconverted_currencies).toEqual(['JPY', 'GBP']);
+    });
+  });
+
   // ── financialReportsService singleton ─────────────────────────────────────
   describe('financialReportsService singleton', () => {
     it('exposes required service methods', () => {
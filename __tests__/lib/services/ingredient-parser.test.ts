@@ -6,6 +6,13 @@ import {
   formatIngredient,
   generateShoppingList,
   categorizeIngredient,
+  splitIngredientLine,
+  normalizeIngredientName,
+  subtractPantryStock,
+  scaleIngredients,
+  getServingsScale,
+  scaleRecipeIngredient,
+  tagIngredient,
   type ParsedIngredient,
   type AggregatedIngredient,
 } from '@/lib/services/ingredient-parser';
@@ -126,15 +133,64 @@ describe('ingredient-parser', () => {
       expect(result[0].amount).toBe(3);
     });
 
-    it('should keep ingredients separate if units differ', () => {
+    it('should convert compatible units before summing', () => {
       const ingredients: ParsedIngredient[] = [
-        { name: 'butter', amount: 2, unit: 'tbsp', originalText: '2 tbsp butter' },
         { name: 'butter', amount: 1, unit: 'cup', originalText: '1 cup butter' },
+        { name: 'butter', amount: 2, unit: 'tbsp', originalText: '2 tbsp butter' },
+      ];
+      const result = aggregateIngredients(ingredients);
+      expect(result).toHaveLength(1);
+      expect(result[0].unit).toBe('cup');
+      expect(result[0].amount).toBeCloseTo(1.125);
+    });
+
+    it('should convert between volume and weight with a known density', () => {
+      const ingredients: ParsedIngredient[] = [
+        { name: 'flour', amount: 500, unit: 'g', originalText: '500g flour' },
+        { name: 'flour', amount: 1, unit: 'cup', originalText: '1 cup flour' },
+      ];
+      const result = aggregateIngredients(ingredients);
+      expect(result).toHaveLength(1);
+      expect(result[0].amount).toBeCloseTo(625, 0);
+    });
+
+    it('should keep ingredients separate if units cannot be converted', () => {
+      const ingredients: ParsedIngredient[] = [
+        { name: 'garlic', amount: 2, unit: 'clove', originalText: '2 cloves garlic' },
+        { name: 'garlic', amount: 1, unit: 'tsp', originalText: '1 tsp garlic' },
       ];
       const result = aggregateIngredients(ingredients);
       expect(result).toHaveLength(2);
     });
 
+    it('should express totals in the preferred measurement system', () => {
+      const ingredients: ParsedIngredient[] = [
+        { name: 'milk', amount: 2, unit: 'cup', originalText: '2 cups milk' },
+        { name: 'milk', amount: 500, unit: 'ml', originalText: '500 ml milk' },
+      ];
+      const [metric] = aggregateIngredients(ingredients, { system: 'metric' });
+      expect(metric.unit).toBe('ml');
+      expect(metric.amount).toBe(975);
+
+      const [imperial] = aggregateIngredients(ingredients, { system: 'imperial' });
+      expect(imperial.unit).toBe('cup');
+      expect(imperial.amount).toBeCloseTo(4.11, 1);
+    });
+
+    it('should round converted totals the way a recipe prints them', () => {
+      const ingredients: ParsedIngredient[] = [
+        { name: 'milk', amount: 250, unit: 'ml', originalText: '250 ml milk' },
+        { name: 'milk', amount: 1, unit: 'cup', originalText: '1 cup milk' },
+        { name: 'vanilla', amount: 3, unit: 'tsp', originalText: '3 tsp vanilla' },
+      ];
+      const [milk, vanilla] = aggregateIngredients(ingredients, { system: 'imperial' });
+      expect(milk).toMatchObject({ amount: 2, unit: 'cup' });
+      expect(vanilla).toMatchObject({ amount: 1, unit: 'tbsp' });
+
+      const [metricMilk] = aggregateIngredients(ingredients.slice(0, 2));
+      expect(metricMilk).toMatchObject({ amount: 485, unit: 'ml' });
+    });
+
     it('should track recipe sources', () => {
       const ingredients: ParsedIngredient[] = [
         { name: 'flour', amount: 2, unit: 'cup', originalText: '2 cups', recipeId: 'r1', recipeName: 'Recipe 1' },
@@ -166,14 +222,14 @@ describe('ingredient-parser', () => {
       expect(formatIngredient(ingredient)).toBe('2 cup flour');
     });
 
-    it('should format ingredient with decimal', () => {
+    it('should format ingredient with a kitchen fraction', () => {
       const ingredient: AggregatedIngredient = {
         name: 'sugar',
         amount: 1.5,
         unit: 'cup',
         recipes: [],
       };
-      expect(formatIngredient(ingredient)).toBe('1.50 cup sugar');
+      expect(formatIngredient(ingredient)).toBe('1 1/2 cup sugar');
     });
 
     it('should include recipe count', () => {
@@ -215,6 +271,168 @@ describe('ingredient-parser', () => {
       const result = generateShoppingList([]);
       expect(result).toEqual([]);
     });
+
+    it('should leave off what the pantry covers', () => {
+      const recipes = [{ id: 'r1', name: 'Cookies', ingredients: ['2 cups flour', '1 cup sugar'] }];
+      const result = generateShoppingList(recipes, [{ name: 'Sugar', quantity: null, unit: null }]);
+      expect(result.map(i => i.name)).toEqual(['flour']);
+    });
+  });
+
+  describe('normalizeIngredientName', () => {
+    it('should lowercase and singularize the last word', () => {
+      expect(normalizeIngredientName('Tomatoes')).toBe('tomato');
+      expect(normalizeIngredientName('Cherries')).toBe('cherry');
+      expect(normalizeIngredientName('Eggs')).toBe('egg');
+    });
+
+    it('should drop preparation notes', () => {
+      expect(normalizeIngredientName('onions, finely chopped')).toBe('onion');
+      expect(normalizeIngredientName('butter (softened)')).toBe('butter');
+    });
+
+    it('should not strip words ending in double s', () => {
+      expect(normalizeIngredientName('swiss')).toBe('swiss');
+    });
+  });
+
+  describe('subtractPantryStock', () => {
+    const ingredient = (name: string, amount: number, unit = ''): AggregatedIngredient => ({
+      name,
+      amount,
+      unit,
+      recipes: [{ id: 'r1', name: 'Soup' }],
+    });
+
+    it('should cover an ingredient when enough is in stock', () => {
+      const { toBuy, inPantry } = subtractPantryStock(
+        [ingredient('carrots', 3)],
+        [{ name: 'Carrot', quantity: 5, unit: null }]
+      );
+      expect(toBuy).toEqual([]);
+      expect(inPantry.map(i => i.name)).toEqual(['carrots']);
+    });
+
+    it('should reduce the amount when stock is short', () => {
+      const { toBuy, inPantry } = subtractPantryStock(
+        [ingredient('milk', 3, 'cup')],
+        [{ name: 'milk', quantity: 1, unit: 'cups' }, { name: 'milk', quantity: 0.5, unit: 'cup' }]
+      );
+      expect(inPantry).toEqual([]);
+      expect(toBuy[0].amount).toBe(1.5);
+    });
+
+    it('should treat an untracked quantity as enough', () => {
+      const { inPantry } = subtractPantryStock(
+        [ingredient('salt', 1, 'tsp')],
+        [{ name: 'Salt', quantity: null, unit: null }]
+      );
+      expect(inPantry).toHaveLength(1);
+    });
+
+    it('should convert stock in a compatible unit', () => {
+      const { toBuy, inPantry } = subtractPantryStock(
+        [ingredient('flour', 2, 'cup'), ingredient('milk', 1, 'L')],
+        [{ name: 'flour', quantity: 500, unit: 'g' }, { name: 'milk', quantity: 250, unit: 'ml' }]
+      );
+      expect(inPantry.map(i => i.name)).toEqual(['flour']);
+      expect(toBuy).toEqual([ingredient('milk', 0.75, 'L')]);
+    });
+
+    it('should ignore stock in a unit that cannot be converted', () => {
+      const { toBuy } = subtractPantryStock(
+        [ingredient('garlic', 2, 'clove')],
+        [{ name: 'garlic', quantity: 100, unit: 'g' }]
+      );
+      expect(toBuy).toEqual([ingredient('garlic', 2, 'clove')]);
+    });
+  });
+
+  describe('scaling', () => {
+    it('should scale parsed amounts by a factor', () => {
+      const scaled = scaleIngredients([
+        { name: 'flour', amount: 2, unit: 'cup', originalText: '2 cups flour' },
+      ], 1.5);
+      expect(scaled[0].amount).toBe(3);
+    });
+
+    it('should compute the servings scale', () => {
+      expect(getServingsScale(4, 6)).toBe(1.5);
+      expect(getServingsScale(null, 6)).toBe(1);
+      expect(getServingsScale(4, 0)).toBe(1);
+    });
+
+    it('should round scaled amounts to kitchen fractions', () => {
+      expect(scaleRecipeIngredient('1 cup sugar', 1 / 3)).toEqual({ name: 'sugar', amount: '1/3', unit: 'cup' });
+      expect(scaleRecipeIngredient({ name: 'milk', amount: '1 1/2', unit: 'cups' }, 2)).toEqual({ name: 'milk', amount: '3', unit: 'cup' });
+    });
+
+    it('should leave ingredients without an amount alone', () => {
+      expect(scaleRecipeIngredient('salt to taste', 2)).toEqual({ name: 'salt to taste', amount: '', unit: '' });
+    });
+
+    it('should convert to the preferred system', () => {
+      expect(scaleRecipeIngredient('1 lb ground beef', 1, 'metric')).toEqual({ name: 'ground beef', amount: '455', unit: 'g' });
+      expect(scaleRecipeIngredient('250 ml stock', 1, 'imperial')).toEqual({ name: 'stock', amount: '1', unit: 'cup' });
+    });
+
+    it('should scale each recipe when generating a list', () => {
+      const result = generateShoppingList([
+        { id: 'r1', name: 'Pancakes', ingredients: ['2 cups flour'], scale: 2 },
+        { id: 'r2', name: 'Bread', ingredients: ['1 cup flour'] },
+      ]);
+      expect(result[0].amount).toBe(5);
+    });
+  });
+
+  describe('splitIngredientLine', () => {
+    it.each([
+      ['1 ½ cups plain flour', { amount: '1 1/2', unit: 'cup', name: 'plain flour' }],
+      ['400g spaghetti', { amount: '400', unit: 'g', name: 'spaghetti' }],
+      ['2 fl oz milk', { amount: '2', unit: 'fl oz', name: 'milk' }],
+      ['3 – 4 tbsp olive oil', { amount: '3-4', unit: 'tbsp', name: 'olive oil' }],
+      ['1,5 l water', { amount: '1.5', unit: 'L', name: 'water' }],
+      ['salt and pepper to taste', { amount: '', unit: '', name: 'salt and pepper to taste' }],
+    ])('should split "%s"', (line, expected) => {
+      expect(splitIngredientLine(line)).toEqual(expected);
+    });
+
+    it('should not treat a plain word as a unit', () => {
+      expect(splitIngredientLine('2 large onions')).toEqual({ amount: '2', unit: '', name: 'large onions' });
+    });
+  });
+
+  describe('tagIngredient', () => {
+    it('should tag allergens', () => {
+      expect(tagIngredient('3 tbsp peanut butter')).toEqual(['peanut']);
+      expect(tagIngredient('soy sauce')).toEqual(['gluten', 'soy', 'high_sodium']);
+      expect(tagIngredient('2 large eggs')).toEqual(['egg']);
+      expect(tagIngredient('1/2 cup tahini')).toEqual(['sesame']);
+    });
+
+    it('should tag what diets rule out', () => {
+      expect(tagIngredient('4 slices bacon')).toEqual(['meat', 'pork', 'high_sodium']);
+      expect(tagIngredient('1 cup dry white wine')).toEqual(['alcohol']);
+      expect(tagIngredient('1 tbsp honey')).toEqual(['animal_product']);
+    });
+
+    it('should not tag look-alikes', () => {
+      expect(tagIngredient('eggplant')).toEqual([]);
+      expect(tagIngredient('butternut squash')).toEqual([]);
+      expect(tagIngredient('1 cup oat milk')).toEqual([]);
+      expect(tagIngredient('apple cider vinegar')).toEqual([]);
+      expect(tagIngredient('fresh ginger')).toEqual([]);
+      expect(tagIngredient('graham crackers')).toEqual(['gluten']);
+    });
+
+    it('should still tag the rest of a line that mixes in a look-alike', () => {
+      expect(tagIngredient('butter and almond milk')).toEqual(['dairy', 'tree_nut']);
+      expect(tagIngredient('vegan cheese and eggs')).toEqual(['egg']);
+      expect(tagIngredient('wheat flour and rice flour')).toEqual(['gluten']);
+      expect(tagIngredient('red wine vinegar and white wine')).toEqual(['alcohol']);
+      expect(tagIngredient('vegan cream cheese')).toEqual([]);
+      expect(tagIngredient('low-sodium soy sauce and capers')).toEqual(['gluten', 'soy', 'high_sodium']);
+    });
   });
 
   describe('categorizeIngredient', () => {
@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { countToolCalls, handleMcpMessage, handleMcpPayload, isToolAllowed, listMcpTools } from '@/lib/services/mcp/server';
+import type { McpSession } from '@/lib/services/mcp/server';
+
+vi.mock('@/lib/services/ai/tool-executor', () => ({
+  executeTool: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+function session(scope: 'read' | 'read_write' = 'read_write'): McpSession {
+  return {
+    principal: { tokenId: 'tok-1', userId: 'user-1', spaceId: 'space-1', scope },
+    supabase: { from: vi.fn() } as never,
+  };
+}
+
+function call(method: string, params?: Record<string, unknown>, id: number | string = 1) {
+  return { jsonrpc: '2.0', id, method, ...(params ? { params } : {}) };
+}
+
+describe('mcp server', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lets read-only tokens use lookup tools only', () => {
+    expect(isToolAllowed('list_tasks', 'read')).toBe(true);
+    expect(isToolAllowed('create_task', 'read')).toBe(false);
+    expect(isToolAllowed('create_task', 'read_write')).toBe(true);
+  });
+
+  it('lists tools with JSON Schema inputs and hints', () => {
+    const readTools = listMcpTools('read');
+    const allTools = listMcpTools('read_write');
+
+    expect(readTools.length).toBeGreaterThan(0);
+    expect(readTools.every((tool) => tool.annotations.readOnlyHint)).toBe(true);
+    expect(allTools.length).toBeGreaterThan(readTools.length);
+
+    const deleteTask = allTools.find((tool) => tool.name === 'delete_task');
+    expect(deleteTask?.annotations).toEqual({ readOnlyHint: false, destructiveHint: true });
+    expect(deleteTask?.inputSchema).toMatchObject({ type: 'object' });
+  });
+
+  it('negotiates the protocol version on initialize', async () => {
+    const supported = await handleMcpMessage(call('initialize', { protocolVersion: '2025-03-26' }), session());
+    const unknown = await handleMcpMessage(call('initialize', { protocolVersion: '1999-01-01' }), session());
+
+    expect(supported?.result).toMatchObject({
+      protocolVersion: '2025-03-26',
+      capabilities: { tools: { listChanged: false } },
+      serverInfo: { name: 'rowan' },
+    });
+    expect(unknown?.result).toMatchObject({ protocolVersion: '2025-06-18' });
+  });
+
+  it('does not answer notifications or posted responses', async () => {
+    expect(await handleMcpMessage({ jsonrpc: '2.0', method: 'notifications/initialized' }, session())).toBeNull();
+    expect(await handleMcpMessage({ jsonrpc: '2.0', id: 1, result: {} }, session())).toBeNull();
+  });
+
+  it('rejects invalid requests and unknown methods', async () => {
+    expect((await handleMcpMessage({ id: 3, method: 'ping' }, session()))?.error?.code).toBe(-32600);
+    expect((await handleMcpMessage(call('resources/list'), session()))?.error?.code).toBe(-32601);
+  });
+
+  it('runs tool calls as the token owner in the token\'s space', async () => {
+    const { executeTool } = await import('@/lib/services/ai/tool-executor');
+    vi.mocked(executeTool).mockResolvedValue({ success: true, message: 'Found 1 task', data: [{ id: 't-1' }] } as never);
+    const current = session('read');
+
+    const response = await handleMcpMessage(
+      call('tools/call', { name: 'list_tasks', arguments: { status: 'pending' } }),
+      current
+    );
+
+    expect(executeTool).toHaveBeenCalledWith('list_tasks', { status: 'pending' }, {
+      userId: 'user-1',
+      spaceId: 'space-1',
+      supabase: current.supabase,
+    });
+    expect(response?.result).toEqual({
+      content: [
+        { type: 'text', text: 'Found 1 task' },
+        { type: 'text', text: '[{"id":"t-1"}]' },
+      ],
+      isError: false,
+    });
+  });
+
+  it('reports failed tools as tool errors', async () => {
+    const { executeTool } = await import('@/lib/services/ai/tool-executor');
+    vi.mocked(executeTool).mockResolvedValue({ success: false, message: 'Task not found' } as never);
+
+    const response = await handleMcpMessage(call('tools/call', { name: 'complete_task', arguments: {} }), session());
+
+    expect(response?.result).toEqual({ content: [{ type: 'text', text: 'Task not found' }], isError: true });
+  });
+
+  it('refuses write tools for read-only tokens', async () => {
+    const { executeTool } = await import('@/lib/services/ai/tool-executor');
+
+    const response = await handleMcpMessage(
+      call('tools/call', { name: 'create_task', arguments: { title: 'Mow' } }),
+      session('read')
+    );
+
+    expect(response?.error).toEqual({ code: -32602, message: 'Tool "create_task" needs a read-write token' });
+    expect(executeTool).not.toHaveBeenCalled();
+  });
+
+  describe('space scope', () => {
+    /** Supabase mock answering `from(table).select().in()` with rows per table */
+    function scopedSession(rows: Record<string, Record<string, unknown>[]>): McpSession {
+      const from = vi.fn((table: string) => {
+        const chain: Record<string, unknown> = {};
+        chain.select = vi.fn(() => chain);
+        chain.eq = vi.fn(() => chain);
+        chain.in = vi.fn(() => Promise.resolve({ data: rows[table] ?? [], error: null }));
+        return chain;
+      });
+      return { ...session(), supabase: { from } as never };
+    }
+
+    it('refuses to touch a row in another of the owner\'s spaces', async () => {
+      const { executeTool } = await import('@/lib/services/ai/tool-executor');
+      const current = scopedSession({ tasks: [{ id: 'task-b', space_id: 'space-2' }] });
+
+      const response = await handleMcpMessage(
+        call('tools/call', { name: 'delete_task', arguments: { task_id: 'task-b' } }),
+        current
+      );
+
+      expect(response?.result).toEqual({
+        content: [{ type: 'text', text: 'No item matching task_id was found in this space.' }],
+        isError: true,
+      });
+      expect(executeTool).not.toHaveBeenCalled();
+    });
+
+    it('follows child rows to the space of their parent', async () => {
+      const { executeTool } = await import('@/lib/services/ai/tool-executor');
+      const current = scopedSession({
+        shopping_items: [{ id: 'item-b', list_id: 'list-b' }],
+        shopping_lists: [{ id: 'list-b', space_id: 'space-2' }],
+      });
+
+      const response = await handleMcpMessage(
+        call('tools/call', { name: 'batch_check_shopping_items', arguments: { item_ids: ['item-b'] } }),
+        current
+      );
+
+      expect(response?.result).toMatchObject({ isError: true });
+      expect(executeTool).not.toHaveBeenCalled();
+    });
+
+    it('refuses members of other spaces', async () => {
+      const { executeTool } = await import('@/lib/services/ai/tool-executor');
+      const current = scopedSession({ tasks: [{ id: 'task-a', space_id: 'space-1' }], space_members: [] });
+
+      const response = await handleMcpMessage(
+        call('tools/call', { name: 'update_task', arguments: { task_id: 'task-a', assigned_to: 'user-9' } }),
+        current
+      );
+
+      expect(response?.result).toMatchObject({ isError: true });
+      expect(executeTool).not.toHaveBeenCalled();
+    });
+
+    it('checks every member parameter the tool schemas name', async () => {
+      const { executeTool } = await import('@/lib/services/ai/tool-executor');
+      const current = scopedSession({ space_members: [{ user_id: 'user-1' }] });
+
+      const settlement = await handleMcpMessage(
+        call('tools/call', { name: 'create_settlement', arguments: { paid_by: 'user-1', paid_to: 'user-9', amount: 20 } }),
+        current
+      );
+      const chores = await handleMcpMessage(
+        call('tools/call', { name: 'batch_complete_chores', arguments: { user_id: 'user-9' } }),
+        current
+      );
+
+      expect(settlement?.result).toEqual({
+        content: [{ type: 'text', text: 'No item matching paid_to was found in this space.' }],
+        isError: true,
+      });
+      expect(chores?.result).toMatchObject({ isError: true });
+      expect(executeTool).not.toHaveBeenCalled();
+    });
+
+    it('runs tools on rows in the token\'s space', async () => {
+      const { executeTool } = await import('@/lib/services/ai/tool-executor');
+      vi.mocked(executeTool).mockResolvedValue({ success: true, message: 'Task completed' } as never);
+      const current = scopedSession({ tasks: [{ id: 'task-a', space_id: 'space-1' }] });
+
+      const response = await handleMcpMessage(
+        call('tools/call', { name: 'complete_task', arguments: { task_id: 'task-a' } }),
+        current
+      );
+
+      expect(executeTool).toHaveBeenCalledTimes(1);
+      expect(response?.result).toMatchObject({ isError: false });
+    });
+  });
+
+  it('rejects unknown tools and non-object arguments', async () => {
+    const unknown = await handleMcpMessage(call('tools/call', { name: 'drop_tables' }), session());
+    const badArgs = await handleMcpMessage(call('tools/call', { name: 'list_tasks', arguments: [1] }), session());
+
+    expect(unknown?.error?.code).toBe(-32602);
+    expect(badArgs?.error?.code).toBe(-32602);
+  });
+
+  it('answers batches, skipping notifications', async () => {
+    const responses = await handleMcpPayload(
+      [call('ping', undefined, 'a'), { jsonrpc: '2.0', method: 'notifications/initialized' }, call('ping', undefined, 'b')],
+      session()
+    );
+
+    expect(responses).toEqual([
+      { jsonrpc: '2.0', id: 'a', result: {} },
+      { jsonrpc: '2.0', id: 'b', result: {} },
+    ]);
+    expect(await handleMcpPayload([{ jsonrpc: '2.0', method: 'notifications/initialized' }], session())).toBeNull();
+    expect(await handleMcpPayload([], session())).toMatchObject({ error: { code: -32600 } });
+  });
+
+  it('refuses batches over the size limit', async () => {
+    const { executeTool } = await import('@/lib/services/ai/tool-executor');
+    const batch = Array.from({ length: 21 }, (_, i) => call('tools/call', { name: 'list_tasks', arguments: {} }, i));
+
+    expect(await handleMcpPayload(batch, session())).toMatchObject({ id: null, error: { code: -32600 } });
+    expect(executeTool).not.toHaveBeenCalled();
+  });
+
+  it('counts the tool calls in a payload', () => {
+    expect(countToolCalls(call('tools/call', { name: 'list_tasks' }))).toBe(1);
+    expect(countToolCalls([call('ping'), call('tools/call', { name: 'list_tasks' }, 2), { id: 3, method: 'tools/call' }])).toBe(1);
+    expect(countToolCalls(null)).toBe(0);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import crypto from 'crypto';
+import {
+  authenticateMcpRequest,
+  createMcpToken,
+  generateMcpToken,
+  hashMcpToken,
+  parseBearerToken,
+  revokeMcpToken,
+} from '@/lib/services/mcp/tokens';
+import { signUserAccessToken } from '@/lib/services/mcp/user-client';
+import { McpConfigurationError } from '@/lib/services/mcp/types';
+
+function createChainMock(resolvedValue: unknown) {
+  const mock: Record<string, unknown> = {};
+  const handler = () => mock;
+  ['select', 'eq', 'order', 'insert', 'update', 'single', 'maybeSingle', 'is'].forEach((m) => {
+    mock[m] = vi.fn(handler);
+  });
+  mock.then = vi.fn((resolve: (v: unknown) => unknown) => resolve(resolvedValue));
+  return mock;
+}
+
+describe('mcp tokens', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('generates prefixed 256-bit tokens', () => {
+    const token = generateMcpToken();
+    expect(token).toMatch(/^rowan_mcp_[A-Za-z0-9_-]{43}$/);
+    expect(generateMcpToken()).not.toBe(token);
+    expect(hashMcpToken(token)).toMatch(/^[a-f0-9]{64}$/);
+  });
+
+  it('parses Bearer headers carrying an MCP token', () => {
+    expect(parseBearerToken('Bearer rowan_mcp_abc')).toBe('rowan_mcp_abc');
+    expect(parseBearerToken('bearer rowan_mcp_abc ')).toBe('rowan_mcp_abc');
+    expect(parseBearerToken('Bearer some-session-jwt')).toBeNull();
+    expect(parseBearerToken('Basic dXNlcjpwYXNz')).toBeNull();
+    expect(parseBearerToken(null)).toBeNull();
+  });
+
+  it('stores only the hash and returns the plaintext once', async () => {
+    const chain = createChainMock({ data: { id: 'tok-1', label: 'Desktop' }, error: null });
+    const supabase = { from: vi.fn(() => chain) };
+
+    const result = await createMcpToken(supabase as never, 'user-1', {
+      label: 'Desktop',
+      spaceId: 'space-1',
+      scope: 'read',
+    });
+
+    expect(chain.insert).toHaveBeenCalledWith({
+      user_id: 'user-1',
+      space_id: 'space-1',
+      label: 'Desktop',
+      scope: 'read',
+      token_hash: hashMcpToken(result.token),
+    });
+    expect(result.mcpToken).toEqual({ id: 'tok-1', label: 'Desktop' });
+  });
+
+  it('reports whether a revoke matched an active token', async () => {
+    const chain = createChainMock({ data: [{ id: 'tok-1' }], error: null });
+    const supabase = { from: vi.fn(() => chain) };
+
+    expect(await revokeMcpToken(supabase as never, 'user-1', 'tok-1')).toBe(true);
+    expect(chain.eq).toHaveBeenCalledWith('user_id', 'user-1');
+    expect(chain.is).toHaveBeenCalledWith('revoked_at', null);
+  });
+
+  describe('authenticateMcpRequest', () => {
+    function setup(membership: unknown) {
+      const tokenChain = createChainMock({
+        data: { id: 'tok-1', user_id: 'user-1', space_id: 'space-1', scope: 'read_write' },
+        error: null,
+      });
+      const memberChain = createChainMock({ data: membership, error: null });
+      const touchChain = createChainMock({ error: null });
+      const from = vi.fn()
+        .mockReturnValueOnce(tokenChain)
+        .mockReturnValueOnce(memberChain)
+        .mockReturnValueOnce(touchChain);
+      return { supabase: { from }, tokenChain, touchChain };
+    }
+
+    it('resolves the token to its owner, space and scope and records use', async () => {
+      const { supabase, tokenChain, touchChain } = setup({ user_id: 'user-1' });
+
+      const principal = await authenticateMcpRequest(supabase as never, 'Bearer rowan_mcp_abc');
+
+      expect(principal).toEqual({ tokenId: 'tok-1', userId: 'user-1', spaceId: 'space-1', scope: 'read_write' });
+      expect(tokenChain.eq).toHaveBeenCalledWith('token_hash', hashMcpToken('rowan_mcp_abc'));
+      expect(tokenChain.is).toHaveBeenCalledWith('revoked_at', null);
+      expect(touchChain.update).toHaveBeenCalledWith({ last_used_at: expect.any(String) });
+    });
+
+    it('rejects tokens whose owner has left the space', async () => {
+      const { supabase, touchChain } = setup(null);
+
+      expect(await authenticateMcpRequest(supabase as never, 'Bearer rowan_mcp_abc')).toBeNull();
+      expect(touchChain.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown tokens without further queries', async () => {
+      const chain = createChainMock({ data: null, error: null });
+      const supabase = { from: vi.fn(() => chain) };
+
+      expect(await authenticateMcpRequest(supabase as never, 'Bearer rowan_mcp_abc')).toBeNull();
+      expect(supabase.from).toHaveBeenCalledTimes(1);
+    });
+
+    it('ignores headers that do not carry an MCP token', async () => {
+      const supabase = { from: vi.fn() };
+
+      expect(await authenticateMcpRequest(supabase as never, 'Bearer eyJhbGciOi')).toBeNull();
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('signUserAccessToken', () => {
+    it('signs a short-lived authenticated-role JWT for the user', () => {
+      const jwt = signUserAccessToken('user-1', 'secret', 1_000);
+      const [header, payload, signature] = jwt.split('.');
+
+      expect(JSON.parse(Buffer.from(payload, 'base64url').toString())).toEqual({
+        sub: 'user-1',
+        role: 'authenticated',
+        aud: 'authenticated',
+        iat: 1_000,
+        exp: 1_300,
+      });
+      expect(signature).toBe(crypto.createHmac('sha256', 'secret').update(`${header}.${payload}`).digest('base64url'));
+    });
+
+    it('requires the JWT secret', () => {
+      expect(() => signUserAccessToken('user-1', '')).toThrow(McpConfigurationError);
+    });
+  });
+});
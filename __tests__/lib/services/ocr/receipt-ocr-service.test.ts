@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  getOCRProvider,
+  listOCRProviders,
+  registerOCRProvider,
+  resolveOCRProviderName,
+  type OCRProvider,
+} from '@/lib/services/ocr/ocr-provider';
+import { buildReceiptScanResult, scanReceipt, toOCRResult } from '@/lib/services/ocr/receipt-ocr-service';
+
+function makeProvider(overrides: Partial<OCRProvider> = {}): OCRProvider {
+  return {
+    name: 'fake',
+    recognize: vi.fn().mockResolvedValue({
+      provider: 'fake',
+      text: 'Corner Shop\n2026-10-19\nSoap 2.99\nTotal 2.99',
+      confidence: 88,
+      lines: [
+        { text: 'Corner Shop', confidence: 90 },
+        { text: '2026-10-19', confidence: 90 },
+        { text: 'Soap 2.99', confidence: 90 },
+        { text: 'Total 2.99', confidence: 90 },
+      ],
+    }),
+    ...overrides,
+  };
+}
+
+describe('receipt-ocr-service', () => {
+  const originalProvider = process.env.OCR_PROVIDER;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.OCR_PROVIDER;
+  });
+
+  afterEach(() => {
+    process.env.OCR_PROVIDER = originalProvider;
+  });
+
+  describe('provider registry', () => {
+    it('defaults to the local tesseract provider', () => {
+      expect(resolveOCRProviderName()).toBe('tesseract');
+      expect(listOCRProviders()).toEqual(expect.arrayContaining(['tesseract', 'gemini']));
+    });
+
+    it('honours OCR_PROVIDER and explicit names', () => {
+      process.env.OCR_PROVIDER = 'Gemini';
+
+      expect(resolveOCRProviderName()).toBe('gemini');
+      expect(resolveOCRProviderName('tesseract')).toBe('tesseract');
+    });
+
+    it('rejects unknown providers', async () => {
+      await expect(getOCRProvider('nope')).rejects.toThrow('Unknown OCR provider "nope"');
+    });
+
+    it('creates a registered provider once and caches it', async () => {
+      const factory = vi.fn().mockResolvedValue(makeProvider());
+      registerOCRProvider('cached', factory);
+
+      const first = await getOCRProvider('cached');
+      const second = await getOCRProvider('cached');
+
+      expect(first).toBe(second);
+      expect(factory).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries initialization after a failure', async () => {
+      const factory = vi.fn()
+        .mockRejectedValueOnce(new Error('init failed'))
+        .mockResolvedValueOnce(makeProvider());
+      registerOCRProvider('flaky', factory);
+
+      await expect(getOCRProvider('flaky')).rejects.toThrow('init failed');
+      await expect(getOCRProvider('flaky')).resolves.toBeDefined();
+    });
+  });
+
+  describe('scanReceipt', () => {
+    it('recognizes with the selected provider and parses the result', async () => {
+      const provider = makeProvider();
+      registerOCRProvider('fake', async () => provider);
+
+      const result = await scanReceipt(Buffer.from('img'), { provider: 'fake', mimeType: 'image/png' });
+
+      expect(provider.recognize).toHaveBeenCalledWith(expect.any(Buffer), { mimeType: 'image/png' });
+      expect(result.provider).toBe('fake');
+      expect(result.merchant_name.value).toBe('Corner Shop');
+      expect(result.total_amount.value).toBe(2.99);
+      expect(result.items).toHaveLength(1);
+    });
+  });
+
+  describe('buildReceiptScanResult', () => {
+    it('splits plain text when the provider returns no lines and applies hints', () => {
+      const result = buildReceiptScanResult({
+        provider: 'gemini',
+        text: 'Shop\nTotal 5.00',
+        confidence: 80,
+        lines: [],
+        hints: { category: 'Groceries', total_amount: 5 },
+      });
+
+      expect(result.total_amount.value).toBe(5);
+      expect(result.category).toBe('Groceries');
+    });
+  });
+
+  describe('toOCRResult', () => {
+    it('flattens fields and exposes per-field confidence', () => {
+      const scan = buildReceiptScanResult({
+        provider: 'tesseract',
+        text: '',
+        confidence: 90,
+        lines: [
+          { text: 'Corner Shop', confidence: 90 },
+          { text: 'Soap 2.99', confidence: 90 },
+          { text: 'Total 2.99', confidence: 90 },
+        ],
+      });
+
+      const result = toOCRResult(scan);
+
+      expect(result).toMatchObject({
+        merchant_name: 'Corner Shop',
+        total_amount: 2.99,
+        receipt_date: null,
+        category: null,
+        provider: 'tesseract',
+      });
+      expect(result.field_confidence?.total_amount).toBeGreaterThan(90);
+      expect(result.low_confidence_fields).toContain('receipt_date');
+      expect(result.items?.[0]).toMatchObject({ name: 'Soap', total_price: 2.99 });
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LOW_CONFIDENCE_THRESHOLD,
+  applyReceiptHints,
+  parseAmount,
+  parseReceiptDate,
+  parseReceiptLines,
+  parseReceiptText,
+} from '@/lib/services/ocr/receipt-parser';
+
+const GROCERY_RECEIPT = `ACME GROCERY STORE
+123 Main Street
+Anytown, ST 12345
+(555) 123-4567
+
+Date: 10/19/2026
+Time: 12:30 PM
+
+Milk              $3.99
+Bread             $2.49
+2 x Eggs          $9.98
+Apples 2 @ 2.99/lb  5.98
+
+Subtotal:         $22.44
+Tax (8.5%):       $1.91
+Total:            $24.35
+
+Payment: VISA ****1234
+Thank you for shopping with us!`;
+
+describe('receipt-parser', () => {
+  describe('parseAmount', () => {
+    it('parses dot, comma and thousands separators', () => {
+      expect(parseAmount('3.99')).toBe(3.99);
+      expect(parseAmount('3,99')).toBe(3.99);
+      expect(parseAmount('1,234.56')).toBe(1234.56);
+    });
+  });
+
+  describe('parseReceiptDate', () => {
+    it('reads ISO dates with full certainty', () => {
+      expect(parseReceiptDate('2026-10-19 14:02')).toEqual({ date: '2026-10-19', certainty: 1 });
+    });
+
+    it('reads slash dates month-first and flags ambiguity', () => {
+      expect(parseReceiptDate('Date: 03/04/2026')).toEqual({ date: '2026-03-04', certainty: 0.8 });
+      expect(parseReceiptDate('19/10/2026')).toEqual({ date: '2026-10-19', certainty: 1 });
+    });
+
+    it('reads dotted dates day-first', () => {
+      expect(parseReceiptDate('19.10.26')?.date).toBe('2026-10-19');
+    });
+
+    it('reads month names', () => {
+      expect(parseReceiptDate('Oct 19, 2026')?.date).toBe('2026-10-19');
+      expect(parseReceiptDate('19 October 2026')?.date).toBe('2026-10-19');
+    });
+
+    it('rejects impossible dates', () => {
+      expect(parseReceiptDate('02/30/2026')).toBeNull();
+    });
+  });
+
+  describe('parseReceiptText', () => {
+    const receipt = parseReceiptText(GROCERY_RECEIPT, 95);
+
+    it('extracts header fields', () => {
+      expect(receipt.merchant_name.value).toBe('ACME GROCERY STORE');
+      expect(receipt.receipt_date.value).toBe('2026-10-19');
+      expect(receipt.currency.value).toBe('USD');
+    });
+
+    it('extracts line items with quantity and unit price', () => {
+      expect(receipt.items.map((i) => i.name)).toEqual(['Milk', 'Bread', 'Eggs', 'Apples']);
+      expect(receipt.items[2]).toMatchObject({ quantity: 2, unit_price: 4.99, total_price: 9.98 });
+      expect(receipt.items[3]).toMatchObject({ quantity: 2, unit_price: 2.99, total_price: 5.98 });
+    });
+
+    it('extracts subtotal, tax and total', () => {
+      expect(receipt.subtotal.value).toBe(22.44);
+      expect(receipt.tax_amount.value).toBe(1.91);
+      expect(receipt.tip_amount.value).toBeNull();
+      expect(receipt.total_amount.value).toBe(24.35);
+    });
+
+    it('boosts confidence when the receipt adds up', () => {
+      expect(receipt.total_amount.confidence).toBe(100);
+      expect(receipt.items.every((i) => i.confidence >= LOW_CONFIDENCE_THRESHOLD)).toBe(true);
+      expect(receipt.low_confidence_fields).toEqual([]);
+      expect(receipt.confidence).toBeGreaterThan(80);
+    });
+
+    it('does not treat payment lines as items', () => {
+      expect(receipt.items.some((i) => /visa/i.test(i.name))).toBe(false);
+    });
+  });
+
+  describe('parseReceiptLines', () => {
+    it('detects tips and sums multiple tax lines', () => {
+      const receipt = parseReceiptLines([
+        { text: 'Cafe Luna', confidence: 90 },
+        { text: 'Latte 4.50', confidence: 90 },
+        { text: 'Croissant 3.50', confidence: 90 },
+        { text: 'Subtotal 8.00', confidence: 90 },
+        { text: 'GST 0.40', confidence: 90 },
+        { text: 'PST 0.56', confidence: 90 },
+        { text: 'Tip 1.50', confidence: 90 },
+        { text: 'Total 10.46', confidence: 90 },
+      ]);
+
+      expect(receipt.tax_amount.value).toBe(0.96);
+      expect(receipt.tip_amount.value).toBe(1.5);
+      expect(receipt.total_amount.confidence).toBe(100);
+    });
+
+    it('flags low-confidence lines and missing fields for review', () => {
+      const receipt = parseReceiptLines([
+        { text: 'Corner Shop', confidence: 92 },
+        { text: 'Soap 2.99', confidence: 40 },
+        { text: 'Total 2.99', confidence: 55 },
+      ]);
+
+      expect(receipt.low_confidence_fields).toEqual(
+        expect.arrayContaining(['receipt_date', 'items[0]'])
+      );
+      expect(receipt.low_confidence_fields).not.toContain('merchant_name');
+    });
+
+    it('lowers confidence when the subtotal does not match the total', () => {
+      const receipt = parseReceiptLines([
+        { text: 'Shop', confidence: 90 },
+        { text: 'Subtotal 10.00', confidence: 90 },
+        { text: 'Tax 1.00', confidence: 90 },
+        { text: 'Total 15.00', confidence: 90 },
+      ]);
+
+      expect(receipt.total_amount.confidence).toBeLessThan(LOW_CONFIDENCE_THRESHOLD);
+      expect(receipt.low_confidence_fields).toContain('total_amount');
+    });
+
+    it('derives a missing total from the subtotal with low confidence', () => {
+      const receipt = parseReceiptLines([
+        { text: 'Shop', confidence: 90 },
+        { text: 'Subtotal 10.00', confidence: 90 },
+        { text: 'Tax 0.80', confidence: 90 },
+      ]);
+
+      expect(receipt.total_amount.value).toBe(10.8);
+      expect(receipt.low_confidence_fields).toContain('total_amount');
+    });
+
+    it('detects explicit currency codes and symbols', () => {
+      expect(parseReceiptLines([{ text: 'Total EUR 12,50', confidence: 90 }]).currency.value).toBe('EUR');
+      expect(parseReceiptLines([{ text: 'Total £12.50', confidence: 90 }]).currency.value).toBe('GBP');
+    });
+
+    it('returns empty fields for unreadable input', () => {
+      const receipt = parseReceiptLines([]);
+
+      expect(receipt.total_amount).toEqual({ value: null, confidence: 0 });
+      expect(receipt.items).toEqual([]);
+      expect(receipt.confidence).toBe(0);
+    });
+  });
+
+  describe('applyReceiptHints', () => {
+    it('prefers provider values and keeps the higher confidence when they agree', () => {
+      const parsed = parseReceiptText('Shop\nTotal 12.00', 60);
+      const merged = applyReceiptHints(parsed, { merchant_name: 'The Shop', total_amount: 12 }, 90);
+
+      expect(merged.merchant_name).toEqual({ value: 'The Shop', confidence: 90 });
+      expect(merged.total_amount).toEqual({ value: 12, confidence: 90 });
+    });
+
+    it('ignores out-of-range totals', () => {
+      const parsed = parseReceiptText('Shop', 60);
+
+      expect(applyReceiptHints(parsed, { total_amount: 500000 }, 90).total_amount.value).toBeNull();
+    });
+  });
+});
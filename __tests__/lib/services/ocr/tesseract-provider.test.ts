@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createTesseractProvider, extractTesseractLines } from '@/lib/services/ocr/tesseract-provider';
+
+const { mockCreateWorker, mockRecognize, mockTerminate } = vi.hoisted(() => ({
+  mockCreateWorker: vi.fn(),
+  mockRecognize: vi.fn(),
+  mockTerminate: vi.fn(),
+}));
+
+vi.mock('tesseract.js', () => ({
+  createWorker: mockCreateWorker,
+}));
+
+function makePage(lines: Array<{ text: string; confidence: number }>) {
+  return {
+    text: lines.map((l) => l.text).join('\n'),
+    confidence: 87,
+    blocks: [{ paragraphs: [{ lines }] }],
+  };
+}
+
+describe('tesseract-provider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreateWorker.mockResolvedValue({ recognize: mockRecognize, terminate: mockTerminate });
+  });
+
+  describe('extractTesseractLines', () => {
+    it('flattens blocks into trimmed lines with their confidence', () => {
+      const lines = extractTesseractLines(makePage([
+        { text: 'Milk 3.99\n', confidence: 91 },
+        { text: '   ', confidence: 10 },
+      ]) as never);
+
+      expect(lines).toEqual([{ text: 'Milk 3.99', confidence: 91 }]);
+    });
+
+    it('falls back to plain text when no layout is returned', () => {
+      const lines = extractTesseractLines({ text: 'A\n\nB', confidence: 70, blocks: null } as never);
+
+      expect(lines).toEqual([
+        { text: 'A', confidence: 70 },
+        { text: 'B', confidence: 70 },
+      ]);
+    });
+  });
+
+  describe('createTesseractProvider', () => {
+    it('recognizes with a reused worker', async () => {
+      mockRecognize.mockResolvedValue({ data: makePage([{ text: 'Total 5.00', confidence: 93 }]) });
+      const provider = createTesseractProvider({ language: 'eng', langPath: '/models' });
+
+      const first = await provider.recognize(Buffer.from('img'));
+      await provider.recognize(Buffer.from('img'));
+
+      expect(mockCreateWorker).toHaveBeenCalledTimes(1);
+      expect(mockCreateWorker).toHaveBeenCalledWith('eng', undefined, { langPath: '/models' });
+      expect(mockRecognize).toHaveBeenCalledWith(expect.any(Buffer), {}, { text: true, blocks: true });
+      expect(first).toEqual({
+        provider: 'tesseract',
+        text: 'Total 5.00',
+        confidence: 87,
+        lines: [{ text: 'Total 5.00', confidence: 93 }],
+      });
+    });
+
+    it('creates a new worker after a failed start', async () => {
+      mockCreateWorker.mockRejectedValueOnce(new Error('no language data'));
+      mockRecognize.mockResolvedValue({ data: makePage([]) });
+      const provider = createTesseractProvider();
+
+      await expect(provider.recognize(Buffer.from('img'))).rejects.toThrow('no language data');
+      await expect(provider.recognize(Buffer.from('img'))).resolves.toMatchObject({ provider: 'tesseract' });
+      expect(mockCreateWorker).toHaveBeenCalledTimes(2);
+    });
+
+    it('terminates the worker', async () => {
+      mockRecognize.mockResolvedValue({ data: makePage([]) });
+      const provider = createTesseractProvider();
+      await provider.recognize(Buffer.from('img'));
+
+      await provider.terminate();
+
+      expect(mockTerminate).toHaveBeenCalled();
+    });
+  });
+});
@@ -26,6 +26,14 @@ vi.mock('@/lib/logger', () => ({
   logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn() },
 }));
 
+const { mockRecognize } = vi.hoisted(() => ({ mockRecognize: vi.fn() }));
+
+vi.mock('tesseract.js', () => ({
+  createWorker: vi.fn(async () => ({ recognize: mockRecognize, terminate: vi.fn() })),
+}));
+
+import { receiptScanningService } from '@/lib/services/receipt-scanning-service';
+
 describe('service-placeholder', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -61,3 +69,108 @@ describe('service-placeholder', () => {
     expect([]).toHaveLength(0);
   });
 });
+
+describe('receiptScanningService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('extractTextFromImage', () => {
+    it('runs the local OCR provider and scales confidence to 0-1', async () => {
+      mockRecognize.mockResolvedValue({
+        data: {
+          text: 'Shop\nTotal 5.00',
+          confidence: 80,
+          blocks: [{ paragraphs: [{ lines: [{ text: 'Shop', confidence: 85 }, { text: 'Total 5.00', confidence: 75 }] }] }],
+        },
+      });
+
+      const result = await receiptScanningService.extractTextFromImage('https://example.com/r.jpg');
+
+      expect(result.confidence).toBe(0.8);
+      expect(result.lines).toEqual([{ text: 'Shop', confidence: 85 }, { text: 'Total 5.00', confidence: 75 }]);
+    });
+
+    it('returns empty text when OCR fails', async () => {
+      mockRecognize.mockRejectedValue(new Error('bad image'));
+
+      const result = await receiptScanningService.extractTextFromImage('https://example.com/r.jpg');
+
+      expect(result).toEqual({ text: '', confidence: 0, lines: [] });
+    });
+  });
+
+  describe('parseReceiptText', () => {
+    it('extracts items, tax, tip and field confidence', async () => {
+      const data = await receiptScanningService.parseReceiptText(
+        'Cafe Luna\n2026-10-19 08:15\nLatte 4.50\nSubtotal 4.50\nTax 0.36\nTip 1.00\nTotal 5.86\nVISA ****1234'
+      );
+
+      expect(data.merchant_name).toBe('Cafe Luna');
+      expect(data.date).toBe('2026-10-19');
+      expect(data.time).toBe('08:15');
+      expect(data.items).toEqual([
+        { name: 'Latte', quantity: 1, unit_price: 4.5, total_price: 4.5, confidence: 100 },
+      ]);
+      expect(data.tax_amount).toBe(0.36);
+      expect(data.tip_amount).toBe(1);
+      expect(data.total_amount).toBe(5.86);
+      expect(data.payment_method).toBe('VISA');
+      expect(data.field_confidence?.total_amount).toBe(100);
+      expect(data.low_confidence_fields).toEqual([]);
+    });
+
+    it('uses per-line OCR confidence when lines are provided', async () => {
+      const data = await receiptScanningService.parseReceiptText('', undefined, [
+        { text: 'Shop', confidence: 90 },
+        { text: 'Total 5.00', confidence: 40 },
+      ]);
+
+      expect(data.low_confidence_fields).toContain('total_amount');
+    });
+  });
+
+  describe('linkReceiptToExpense', () => {
+    it('stores reviewed values and clears their review flags', async () => {
+      mockSingle.mockResolvedValue({
+        data: {
+          id: 'receipt-1',
+          extracted_data: {
+            total_amount: 5,
+            low_confidence_fields: ['total_amount', 'receipt_date', 'items[0]'],
+          },
+        },
+        error: null,
+      });
+      mockEq.mockReturnValueOnce({ single: mockSingle }).mockResolvedValueOnce({ error: null });
+      mockSelect.mockReturnValue({ eq: mockEq });
+      mockUpdate.mockReturnValue({ eq: mockEq });
+      mockFrom.mockReturnValue({ select: mockSelect, update: mockUpdate });
+
+      const linked = await receiptScanningService.linkReceiptToExpense('receipt-1', 'expense-1', {
+        total_amount: 5.5,
+        items: [{ name: 'Soap', total_price: 5.5 }],
+      });
+
+      expect(linked).toBe(true);
+      expect(mockUpdate).toHaveBeenCalledWith({
+        expense_id: 'expense-1',
+        extracted_data: {
+          total_amount: 5.5,
+          items: [{ name: 'Soap', total_price: 5.5 }],
+          low_confidence_fields: ['receipt_date'],
+        },
+      });
+    });
+
+    it('only links when nothing was reviewed', async () => {
+      mockEq.mockResolvedValueOnce({ error: null });
+      mockUpdate.mockReturnValue({ eq: mockEq });
+      mockFrom.mockReturnValue({ update: mockUpdate });
+
+      await receiptScanningService.linkReceiptToExpense('receipt-1', 'expense-1');
+
+      expect(mockUpdate).toHaveBeenCalledWith({ expense_id: 'expense-1' });
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Tests for recipe import (lib/services/recipe-import)
+ * Runs the importer against saved recipe pages in ./fixtures; the LLM is only
+ * expected to see pages without structured data.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {
+  extractStructuredRecipe,
+  importRecipe,
+  mapSchemaRecipe,
+  parseDurationMinutes,
+  RecipeImportError,
+} from '@/lib/services/recipe-import';
+import { parseRecipeWithLLM } from '@/lib/services/recipe-import/llm-fallback';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+vi.mock('@/lib/services/recipe-import/llm-fallback', () => ({
+  parseRecipeWithLLM: vi.fn(),
+}));
+
+const PAGE_URL = 'https://kitchen.example.com/weeknight-lasagne/';
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+}
+
+function htmlResponse(html: string, init: ResponseInit = {}): Response {
+  return new Response(html, { status: 200, headers: { 'content-type': 'text/html; charset=utf-8' }, ...init });
+}
+
+describe('recipe-import', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('JSON-LD', () => {
+    it('maps a Recipe inside an @graph', () => {
+      const result = extractStructuredRecipe(fixture('json-ld-graph.html'), PAGE_URL);
+
+      expect(result?.source).toBe('json-ld');
+      expect(result?.recipe).toMatchObject({
+        name: 'Weeknight Lasagne',
+        description: 'A quick lasagne for busy evenings & leftovers.',
+        servings: 6,
+        prep_time: 20,
+        cook_time: 55,
+        cuisine_type: 'Italian',
+        tags: ['Dinner', 'low lactose', 'pasta', 'comfort food'],
+        image_url: 'https://kitchen.example.com/images/lasagne-16x9.jpg',
+        source_url: PAGE_URL,
+      });
+    });
+
+    it('splits ingredient lines into amount, unit and name', () => {
+      const { recipe } = extractStructuredRecipe(fixture('json-ld-graph.html'), PAGE_URL)!;
+
+      expect(recipe.ingredients).toEqual([
+        { name: 'beef mince', amount: '500', unit: 'g' },
+        { name: 'passata', amount: '1 1/2', unit: 'cup' },
+        { name: 'olive oil', amount: '2', unit: 'tbsp' },
+        { name: 'lasagne sheets', amount: '12', unit: '' },
+        { name: 'salt and pepper to taste', amount: '', unit: '' },
+      ]);
+    });
+
+    it('numbers HowToSteps across sections', () => {
+      const { recipe } = extractStructuredRecipe(fixture('json-ld-graph.html'), PAGE_URL)!;
+
+      expect(recipe.instructions).toBe([
+        'Ragù:',
+        '1. Brown the mince in the olive oil.',
+        '2. Stir in the passata and simmer for 20 minutes.',
+        'Assembly:',
+        '3. Layer sauce and sheets in a dish.',
+        '4. Bake at 190°C for 35 minutes.',
+      ].join('\n'));
+    });
+
+    it('reads nutrition in the stored units', () => {
+      const { recipe } = extractStructuredRecipe(fixture('json-ld-graph.html'), PAGE_URL)!;
+
+      expect(recipe.nutrition).toEqual({
+        calories: 520,
+        protein_g: 32,
+        fat_g: 24.5,
+        fiber_g: 4,
+        sodium_mg: 900,
+      });
+    });
+  });
+
+  describe('microdata', () => {
+    it('maps an itemscope Recipe', () => {
+      const result = extractStructuredRecipe(fixture('microdata.html'), 'https://nan.example.org/pancakes');
+
+      expect(result?.source).toBe('microdata');
+      expect(result?.recipe).toMatchObject({
+        name: 'Grandma’s Pancakes',
+        servings: 4,
+        prep_time: 10,
+        cook_time: 15,
+        tags: ['Breakfast'],
+        image_url: 'https://nan.example.org/photos/pancakes.jpg',
+        nutrition: { calories: 310, protein_g: 11 },
+      });
+      expect(result?.recipe.ingredients.map((i) => i.name)).toEqual(['plain flour', 'eggs', 'milk', 'baking powder']);
+      expect(result?.recipe.instructions).toBe(
+        '1. Whisk the flour, baking powder, eggs and milk into a smooth batter.\n' +
+        '2. Cook ladlefuls in a hot buttered pan until golden on both sides.'
+      );
+    });
+  });
+
+  describe('mapSchemaRecipe', () => {
+    it('skips recipes without ingredients', () => {
+      expect(mapSchemaRecipe({ '@type': 'Recipe', name: 'Toast' })).toBeNull();
+    });
+
+    it('accepts plain-string instructions and numeric yields', () => {
+      const recipe = mapSchemaRecipe({
+        '@type': 'Recipe',
+        name: 'Toast',
+        recipeIngredient: ['2 slices bread'],
+        recipeInstructions: 'Step 1: Toast the bread.\nStep 2: Butter it.',
+        recipeYield: 2,
+      });
+
+      expect(recipe?.instructions).toBe('1. Toast the bread.\n2. Butter it.');
+      expect(recipe?.servings).toBe(2);
+    });
+  });
+
+  describe('parseDurationMinutes', () => {
+    it.each([
+      ['PT1H30M', 90],
+      ['P0DT0H45M', 45],
+      ['PT90S', 2],
+      ['1 hour 15 mins', 75],
+      ['', null],
+    ])('parses %s', (value, minutes) => {
+      expect(parseDurationMinutes(value)).toBe(minutes);
+    });
+  });
+
+  describe('importRecipe', () => {
+    it('fetches the page and never calls the LLM when structured data exists', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(htmlResponse(fixture('json-ld-graph.html')));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await importRecipe({ url: PAGE_URL });
+
+      expect(result.source).toBe('json-ld');
+      expect(parseRecipeWithLLM).not.toHaveBeenCalled();
+      expect(fetchMock).toHaveBeenCalledWith(new URL(PAGE_URL), expect.objectContaining({ redirect: 'manual' }));
+    });
+
+    it('falls back to the LLM with the visible page text', async () => {
+      vi.mocked(parseRecipeWithLLM).mockResolvedValue({
+        name: 'Simple tomato soup',
+        ingredients: [{ name: 'tomatoes', amount: '1', unit: 'kg' }],
+      });
+
+      const result = await importRecipe({ html: fixture('no-structured-data.html') });
+
+      expect(result.source).toBe('ai');
+      const { text } = vi.mocked(parseRecipeWithLLM).mock.calls[0][0];
+      expect(text).toContain('Simple tomato soup');
+      expect(text).not.toContain('window.analytics');
+    });
+
+    it('reads structured data from pasted page source', async () => {
+      const result = await importRecipe({ text: fixture('microdata.html') });
+
+      expect(result.source).toBe('microdata');
+      expect(parseRecipeWithLLM).not.toHaveBeenCalled();
+    });
+
+    it('re-checks every redirect target', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+        new Response(null, { status: 302, headers: { location: 'http://169.254.169.254/latest/meta-data' } })
+      ));
+
+      await expect(importRecipe({ url: PAGE_URL })).rejects.toThrow('private or internal networks');
+    });
+
+    it('rejects private hosts without fetching', async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+
+      await expect(importRecipe({ url: 'http://localhost:3000/recipe' })).rejects.toBeInstanceOf(RecipeImportError);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('rejects responses that are not web pages', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+        new Response('{}', { status: 200, headers: { 'content-type': 'application/json' } })
+      ));
+
+      await expect(importRecipe({ url: PAGE_URL })).rejects.toMatchObject({ status: 422 });
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import {
+  expandRecurrence,
+  iterateRecurrence,
+  nextOccurrence,
+  occurrenceDateKey,
+  parseRRule,
+  type RecurrenceSet,
+} from '@/lib/services/recurrence';
+
+const iso = (dates: Date[]) => dates.map((d) => d.toISOString());
+
+describe('expandRecurrence', () => {
+  it('expands a daily rule with COUNT', () => {
+    const set: RecurrenceSet = {
+      dtstart: new Date('2026-01-01T09:00:00Z'),
+      rrule: parseRRule('FREQ=DAILY;COUNT=3'),
+    };
+    expect(iso(expandRecurrence(set))).toEqual([
+      '2026-01-01T09:00:00.000Z',
+      '2026-01-02T09:00:00.000Z',
+      '2026-01-03T09:00:00.000Z',
+    ]);
+  });
+
+  it('stops at an inclusive UNTIL', () => {
+    const set: RecurrenceSet = {
+      dtstart: new Date('2026-01-01T09:00:00Z'),
+      rrule: parseRRule('FREQ=WEEKLY;UNTIL=20260115T090000Z'),
+    };
+    expect(iso(expandRecurrence(set))).toEqual([
+      '2026-01-01T09:00:00.000Z',
+      '2026-01-08T09:00:00.000Z',
+      '2026-01-15T09:00:00.000Z',
+    ]);
+  });
+
+  it('treats a date-only UNTIL as the whole day', () => {
+    const set: RecurrenceSet = {
+      dtstart: new Date('2026-01-01T18:00:00Z'),
+      rrule: parseRRule('FREQ=DAILY;UNTIL=20260103'),
+    };
+    expect(expandRecurrence(set)).toHaveLength(3);
+  });
+
+  it('expands weekly BYDAY with an interval', () => {
+    const set: RecurrenceSet = {
+      dtstart: new Date('2026-01-05T10:00:00Z'), // Monday
+      rrule: parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=4'),
+    };
+    expect(iso(expandRecurrence(set))).toEqual([
+      '2026-01-05T10:00:00.000Z',
+      '2026-01-07T10:00:00.000Z',
+      '2026-01-19T10:00:00.000Z',
+      '2026-01-21T10:00:00.000Z',
+    ]);
+  });
+
+  it('finds the last weekday of each month with BYSETPOS', () => {
+    const set: RecurrenceSet = {
+      dtstart: new Date('2026-01-30T12:00:00Z'),
+      rrule: parseRRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=4'),
+    };
+    expect(iso(expandRecurrence(set))).toEqual([
+      '2026-01-30T12:00:00.000Z', // Friday
+      '2026-02-27T12:00:00.000Z', // Friday
+      '2026-03-31T12:00:00.000Z', // Tuesday
+      '2026-04-30T12:00:00.000Z', // Thursday
+    ]);
+  });
+
+  it('finds the last Friday of each month with an ordinal BYDAY', () => {
+    const set: RecurrenceSet = {
+      dtstart: new Date('2026-01-30T12:00:00Z'),
+      rrule: parseRRule('FREQ=MONTHLY;BYDAY=-1FR;COUNT=3'),
+    };
+    expect(iso(expandRecurrence(set))).toEqual([
+      '2026-01-30T12:00:00.000Z',
+      '2026-02-27T12:00:00.000Z',
+      '2026-03-27T12:00:00.000Z',
+    ]);
+  });
+
+  it('skips months without the requested day', () => {
+    const set: RecurrenceSet = {
+      dtstart: new Date('2026-01-31T08:00:00Z'),
+      rrule: parseRRule('FREQ=MONTHLY;COUNT=3'),
+    };
+    expect(iso(expandRecurrence(set))).toEqual([
+      '2026-01-31T08:00:00.000Z',
+      '2026-03-31T08:00:00.000Z',
+      '2026-05-31T08:00:00.000Z',
+    ]);
+  });
+
+  it('expands yearly rules such as Thanksgiving', () => {
+    const set: RecurrenceSet = {
+      dtstart: new Date('2026-11-26T17:00:00Z'),
+      rrule: parseRRule('FREQ=YEARLY;BYMONTH=11;BYDAY=4TH;COUNT=3'),
+    };
+    expect(iso(expandRecurrence(set))).toEqual([
+      '2026-11-26T17:00:00.000Z',
+      '2027-11-25T17:00:00.000Z',
+      '2028-11-23T17:00:00.000Z',
+    ]);
+  });
+
+  it('keeps the wall-clock time across daylight saving changes', () => {
+    const set: RecurrenceSet = {
+      dtstart: new Date('2026-10-24T07:00:00Z'), // 09:00 in Berlin (CEST)
+      tzid: 'Europe/Berlin',
+      rrule: parseRRule('FREQ=DAILY;COUNT=3'),
+    };
+    expect(iso(expandRecurrence(set))).toEqual([
+      '2026-10-24T07:00:00.000Z',
+      '2026-10-25T08:00:00.000Z', // 09:00 CET
+      '2026-10-26T08:00:00.000Z',
+    ]);
+  });
+
+  it('applies EXDATE instants and dates and merges RDATEs', () => {
+    const set: RecurrenceSet = {
+      dtstart: new Date('2026-03-02T09:00:00Z'),
+      rrule: parseRRule('FREQ=DAILY;COUNT=5'),
+      exdates: [new Date('2026-03-03T09:00:00Z'), '2026-03-05'],
+      rdates: [new Date('2026-03-10T15:00:00Z')],
+    };
+    expect(iso(expandRecurrence(set))).toEqual([
+      '2026-03-02T09:00:00.000Z',
+      '2026-03-04T09:00:00.000Z',
+      '2026-03-06T09:00:00.000Z',
+      '2026-03-10T15:00:00.000Z',
+    ]);
+  });
+
+  it('counts DTSTART as the first occurrence even if the rule skips it', () => {
+    const set: RecurrenceSet = {
+      dtstart: new Date('2026-01-01T09:00:00Z'), // Thursday
+      rrule: parseRRule('FREQ=WEEKLY;BYDAY=MO;COUNT=2'),
+    };
+    expect(iso(expandRecurrence(set))).toEqual([
+      '2026-01-01T09:00:00.000Z',
+      '2026-01-05T09:00:00.000Z',
+    ]);
+  });
+
+  it('respects after/before bounds and the limit', () => {
+    const set: RecurrenceSet = {
+      dtstart: new Date('2026-01-01T00:00:00Z'),
+      rrule: parseRRule('FREQ=DAILY'),
+    };
+    const result = expandRecurrence(set, {
+      after: new Date('2026-02-01T00:00:00Z'),
+      before: new Date('2026-02-28T23:59:59Z'),
+      limit: 5,
+    });
+    expect(result).toHaveLength(5);
+    expect(result[0].toISOString()).toBe('2026-02-01T00:00:00.000Z');
+  });
+
+  it('terminates for rules that can never match', () => {
+    const set: RecurrenceSet = {
+      dtstart: new Date('2026-01-01T00:00:00Z'),
+      rrule: parseRRule('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30'),
+    };
+    expect(expandRecurrence(set)).toEqual([new Date('2026-01-01T00:00:00Z')]);
+  });
+});
+
+describe('iterateRecurrence', () => {
+  it('keeps occurrence indexes stable when dates are excluded', () => {
+    const set: RecurrenceSet = {
+      dtstart: new Date('2026-01-01T09:00:00Z'),
+      rrule: parseRRule('FREQ=DAILY;COUNT=3'),
+      exdates: ['2026-01-02'],
+    };
+    expect([...iterateRecurrence(set)].map((i) => i.index)).toEqual([0, 2]);
+  });
+});
+
+describe('nextOccurrence', () => {
+  const set: RecurrenceSet = {
+    dtstart: new Date('2026-01-01T09:00:00Z'),
+    rrule: parseRRule('FREQ=WEEKLY;COUNT=3'),
+  };
+
+  it('returns the next occurrence after an instant', () => {
+    expect(nextOccurrence(set, new Date('2026-01-01T09:00:00Z'))?.toISOString()).toBe('2026-01-08T09:00:00.000Z');
+  });
+
+  it('includes an exact match when inclusive', () => {
+    expect(nextOccurrence(set, new Date('2026-01-01T09:00:00Z'), { inclusive: true })?.toISOString())
+      .toBe('2026-01-01T09:00:00.000Z');
+  });
+
+  it('returns null once the series has ended', () => {
+    expect(nextOccurrence(set, new Date('2026-02-01T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('occurrenceDateKey', () => {
+  it('uses the local date in the series timezone', () => {
+    expect(occurrenceDateKey(new Date('2026-06-30T23:30:00Z'), 'Europe/Berlin')).toBe('2026-07-01');
+    expect(occurrenceDateKey(new Date('2026-06-30T23:30:00Z'))).toBe('2026-06-30');
+  });
+});
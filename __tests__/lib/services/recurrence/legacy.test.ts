@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RecurrenceParseError,
+  formatRRule,
+  frequencyToRule,
+  fromLegacyPattern,
+  parseStoredRecurrence,
+  reminderRecurrence,
+  toStoredRecurrence,
+} from '@/lib/services/recurrence';
+
+const ruleOf = (value: ReturnType<typeof parseStoredRecurrence>) =>
+  value?.rrule ? formatRRule(value.rrule) : null;
+
+describe('frequencyToRule', () => {
+  it('maps chore and task frequencies', () => {
+    expect(frequencyToRule('daily')).toEqual({ freq: 'DAILY' });
+    expect(frequencyToRule('biweekly')).toEqual({ freq: 'WEEKLY', interval: 2 });
+    expect(frequencyToRule('monthly')).toEqual({ freq: 'MONTHLY' });
+  });
+
+  it('has no rule for one-off or unknown frequencies', () => {
+    expect(frequencyToRule('once')).toBeNull();
+    expect(frequencyToRule('fortnightly')).toBeNull();
+    expect(frequencyToRule(undefined)).toBeNull();
+  });
+});
+
+describe('fromLegacyPattern', () => {
+  it('converts weekly days and an end date', () => {
+    const result = fromLegacyPattern({ pattern: 'weekly', interval: 2, days_of_week: [1, 3], end_date: '2026-12-31' });
+    expect(ruleOf(result)).toBe('FREQ=WEEKLY;INTERVAL=2;UNTIL=20261231;BYDAY=MO,WE');
+  });
+
+  it('multiplies the interval of biweekly patterns', () => {
+    expect(ruleOf(fromLegacyPattern({ pattern: 'biweekly', interval: 2 }))).toBe('FREQ=WEEKLY;INTERVAL=4');
+  });
+
+  it('converts week_of_month to ordinal weekdays', () => {
+    const result = fromLegacyPattern({ pattern: 'monthly', interval: 1, days_of_week: [5], week_of_month: [1, 3] });
+    expect(ruleOf(result)).toBe('FREQ=MONTHLY;BYDAY=1FR,3FR');
+  });
+
+  it('converts yearly month/day, end_count and exceptions', () => {
+    const result = fromLegacyPattern({
+      pattern: 'yearly',
+      interval: 1,
+      month: 3,
+      day_of_month: 14,
+      end_count: 5,
+      exceptions: ['2027-03-14'],
+    });
+    expect(ruleOf(result)).toBe('FREQ=YEARLY;COUNT=5;BYMONTHDAY=14;BYMONTH=3');
+    expect(result?.exdates).toEqual(['2027-03-14']);
+  });
+
+  it('returns null for unknown patterns', () => {
+    expect(fromLegacyPattern({ pattern: 'hourly' })).toBeNull();
+  });
+});
+
+describe('parseStoredRecurrence', () => {
+  it('reads simple pattern strings', () => {
+    expect(ruleOf(parseStoredRecurrence('daily'))).toBe('FREQ=DAILY');
+    expect(ruleOf(parseStoredRecurrence('weekly:1,3,5'))).toBe('FREQ=WEEKLY;BYDAY=MO,WE,FR');
+    expect(ruleOf(parseStoredRecurrence('weekly:'))).toBe('FREQ=WEEKLY');
+    expect(ruleOf(parseStoredRecurrence('monthly:1,15'))).toBe('FREQ=MONTHLY;BYMONTHDAY=1,15');
+  });
+
+  it('reads JSON patterns', () => {
+    expect(ruleOf(parseStoredRecurrence('{"pattern":"daily","interval":3}'))).toBe('FREQ=DAILY;INTERVAL=3');
+  });
+
+  it('reads iCalendar values unchanged', () => {
+    const stored = 'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1\nEXDATE:20261030T090000Z';
+    const result = parseStoredRecurrence(stored);
+    expect(result && toStoredRecurrence(result)).toBe(stored);
+  });
+
+  it('refuses rules that repeat more often than daily', () => {
+    expect(() => parseStoredRecurrence('RRULE:FREQ=MINUTELY')).toThrow(RecurrenceParseError);
+    expect(() => parseStoredRecurrence('FREQ=HOURLY;INTERVAL=2')).toThrow(RecurrenceParseError);
+  });
+
+  it('returns null for empty or unrecognised values', () => {
+    expect(parseStoredRecurrence('')).toBeNull();
+    expect(parseStoredRecurrence('once')).toBeNull();
+    expect(parseStoredRecurrence('{not json')).toBeNull();
+  });
+
+  it('carries the timezone through', () => {
+    expect(parseStoredRecurrence('daily', { tzid: 'Asia/Tokyo' })?.tzid).toBe('Asia/Tokyo');
+  });
+});
+
+describe('reminderRecurrence', () => {
+  it('uses repeat_days as weekdays for weekly reminders', () => {
+    expect(ruleOf(reminderRecurrence('weekly', [0, 6]))).toBe('FREQ=WEEKLY;BYDAY=SU,SA');
+  });
+
+  it('uses repeat_days as days of the month for monthly reminders', () => {
+    expect(ruleOf(reminderRecurrence('monthly', [1, 15]))).toBe('FREQ=MONTHLY;BYMONTHDAY=1,15');
+  });
+
+  it('ignores repeat_days for daily reminders and passes RRULEs through', () => {
+    expect(ruleOf(reminderRecurrence('daily', []))).toBe('FREQ=DAILY');
+    expect(ruleOf(reminderRecurrence('RRULE:FREQ=YEARLY;BYMONTH=6', [1]))).toBe('FREQ=YEARLY;BYMONTH=6');
+  });
+
+  it('returns null when the reminder does not repeat', () => {
+    expect(reminderRecurrence(undefined, [])).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RecurrenceParseError,
+  formatICalDateValue,
+  formatRRule,
+  formatRecurrence,
+  isICalRecurrence,
+  parseICalDateValue,
+  parseRRule,
+  parseRecurrence,
+} from '@/lib/services/recurrence';
+
+describe('parseRRule', () => {
+  it('parses every supported part', () => {
+    expect(parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=MO,-1FR;BYSETPOS=1,-1;UNTIL=20261231T235959Z;WKST=SU'))
+      .toEqual({
+        freq: 'MONTHLY',
+        interval: 2,
+        byDay: [{ weekday: 'MO' }, { weekday: 'FR', n: -1 }],
+        bySetPos: [1, -1],
+        until: '20261231T235959Z',
+        wkst: 'SU',
+      });
+  });
+
+  it('ignores X- extensions', () => {
+    expect(parseRRule('FREQ=DAILY;X-NAME=foo')).toEqual({ freq: 'DAILY' });
+  });
+
+  it.each([
+    ['INTERVAL=2', 'missing FREQ'],
+    ['FREQ=FORTNIGHTLY', 'unknown FREQ'],
+    ['FREQ=DAILY;COUNT=2;UNTIL=20260101', 'COUNT with UNTIL'],
+    ['FREQ=MONTHLY;BYMONTHDAY=32', 'out of range'],
+    ['FREQ=WEEKLY;BYDAY=XX', 'bad weekday'],
+    ['FREQ=DAILY;BYSOMETHING=1', 'unknown part'],
+  ])('rejects %s (%s)', (value) => {
+    expect(() => parseRRule(value)).toThrow(RecurrenceParseError);
+  });
+});
+
+describe('formatRRule', () => {
+  it.each([
+    'FREQ=DAILY',
+    'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR',
+    'FREQ=MONTHLY;COUNT=10;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+    'FREQ=YEARLY;UNTIL=20301231;BYDAY=4TH;BYMONTH=11',
+    'FREQ=YEARLY;BYDAY=MO;BYWEEKNO=20;WKST=SU',
+  ])('round-trips %s', (value) => {
+    expect(formatRRule(parseRRule(value))).toBe(value);
+  });
+
+  it('omits an interval of 1', () => {
+    expect(formatRRule({ freq: 'DAILY', interval: 1 })).toBe('FREQ=DAILY');
+  });
+});
+
+describe('parseICalDateValue / formatICalDateValue', () => {
+  it('reads dates, UTC times and floating times in a timezone', () => {
+    expect(parseICalDateValue('20261026')).toBe('2026-10-26');
+    expect(parseICalDateValue('20261026T090000Z')).toEqual(new Date('2026-10-26T09:00:00Z'));
+    expect(parseICalDateValue('20261026T090000', 'Europe/Berlin')).toEqual(new Date('2026-10-26T08:00:00Z'));
+  });
+
+  it('writes values back in the same forms', () => {
+    expect(formatICalDateValue('2026-10-26')).toBe('20261026');
+    expect(formatICalDateValue(new Date('2026-10-26T09:00:00Z'))).toBe('20261026T090000Z');
+    expect(formatICalDateValue(new Date('2026-10-26T08:00:00Z'), { tzid: 'Europe/Berlin' })).toBe('20261026T090000');
+  });
+
+  it('rejects malformed values', () => {
+    expect(() => parseICalDateValue('2026-10-26')).toThrow(RecurrenceParseError);
+  });
+});
+
+describe('parseRecurrence / formatRecurrence', () => {
+  const lines = [
+    'DTSTART;TZID=Europe/Berlin:20261005T090000',
+    'RRULE:FREQ=WEEKLY;BYDAY=MO',
+    'RDATE;VALUE=DATE:20261224',
+    'EXDATE;TZID=Europe/Berlin:20261012T090000,20261019T090000',
+  ];
+
+  it('reads DTSTART, RRULE, EXDATE and RDATE lines', () => {
+    const parsed = parseRecurrence(lines.join('\r\n'));
+    expect(parsed.tzid).toBe('Europe/Berlin');
+    expect(parsed.dtstart).toEqual(new Date('2026-10-05T07:00:00Z'));
+    expect(parsed.rrule).toEqual({ freq: 'WEEKLY', byDay: [{ weekday: 'MO' }] });
+    expect(parsed.exdates).toEqual([new Date('2026-10-12T07:00:00Z'), new Date('2026-10-19T07:00:00Z')]);
+    expect(parsed.rdates).toEqual(['2026-12-24']);
+  });
+
+  it('round-trips without loss', () => {
+    expect(formatRecurrence(parseRecurrence(lines), { includeDtstart: true })).toEqual(lines);
+  });
+
+  it('accepts Google-style arrays and a bare rule', () => {
+    expect(parseRecurrence(['RRULE:FREQ=DAILY;COUNT=2']).rrule).toEqual({ freq: 'DAILY', count: 2 });
+    expect(parseRecurrence('FREQ=DAILY').rrule).toEqual({ freq: 'DAILY' });
+  });
+
+  it('unfolds continuation lines', () => {
+    expect(parseRecurrence('RRULE:FREQ=WEEKLY;\r\n BYDAY=TU').rrule).toEqual({ freq: 'WEEKLY', byDay: [{ weekday: 'TU' }] });
+  });
+
+  it('uses the default timezone for floating times', () => {
+    const parsed = parseRecurrence('EXDATE:20260701T090000', { tzid: 'America/New_York' });
+    expect(parsed.exdates).toEqual([new Date('2026-07-01T13:00:00Z')]);
+  });
+
+  it('marks VALUE=DATE start dates as all-day', () => {
+    const parsed = parseRecurrence('DTSTART;VALUE=DATE:20260101\nRRULE:FREQ=YEARLY');
+    expect(parsed.allDay).toBe(true);
+    expect(formatRecurrence(parsed, { includeDtstart: true })).toEqual(['DTSTART;VALUE=DATE:20260101', 'RRULE:FREQ=YEARLY']);
+  });
+});
+
+describe('isICalRecurrence', () => {
+  it('distinguishes iCalendar values from legacy patterns', () => {
+    expect(isICalRecurrence('RRULE:FREQ=DAILY')).toBe(true);
+    expect(isICalRecurrence('FREQ=WEEKLY;BYDAY=MO')).toBe(true);
+    expect(isICalRecurrence('EXDATE:20260101T000000Z')).toBe(true);
+    expect(isICalRecurrence('weekly:1,3')).toBe(false);
+    expect(isICalRecurrence('{"pattern":"daily"}')).toBe(false);
+    expect(isICalRecurrence(null)).toBe(false);
+  });
+});
@@ -1,4 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { recurringEventsService } from '@/lib/services/recurring-events-service';
+import type { CalendarEvent } from '@/lib/services/calendar-service';
 
 const mockFrom = vi.fn();
 const mockSelect = vi.fn();
@@ -61,3 +63,93 @@ describe('service-placeholder', () => {
     expect([]).toHaveLength(0);
   });
 });
+
+function makeEvent(overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id: 'event-1',
+    space_id: 'space-1',
+    title: 'Standup',
+    start_time: '2026-10-05T07:00:00.000Z', // Monday 09:00 in Berlin
+    end_time: '2026-10-05T07:15:00.000Z',
+    is_recurring: true,
+    recurrence_pattern: 'weekly:1',
+    timezone: 'Europe/Berlin',
+    created_by: 'user-1',
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+    ...overrides,
+  } as CalendarEvent;
+}
+
+describe('recurringEventsService.generateOccurrences', () => {
+  const rangeStart = new Date('2026-10-01T00:00:00Z');
+  const rangeEnd = new Date('2026-11-30T23:59:59Z');
+
+  it('expands simple patterns in the event timezone across DST', () => {
+    const occurrences = recurringEventsService.generateOccurrences(makeEvent(), rangeStart, rangeEnd, 4);
+
+    expect(occurrences.map((o) => o.start_time)).toEqual([
+      '2026-10-05T07:00:00.000Z',
+      '2026-10-12T07:00:00.000Z',
+      '2026-10-19T07:00:00.000Z',
+      '2026-10-26T08:00:00.000Z', // Still 09:00 after the switch to CET
+    ]);
+    expect(occurrences[3].end_time).toBe('2026-10-26T08:15:00.000Z');
+    expect(occurrences[3].id).toBe('event-1-3');
+  });
+
+  it('expands iCalendar rules such as the last weekday of the month', () => {
+    const occurrences = recurringEventsService.generateOccurrences(
+      makeEvent({
+        start_time: '2026-10-30T08:00:00.000Z',
+        end_time: undefined,
+        recurrence_pattern: 'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=3',
+      }),
+      rangeStart,
+      new Date('2027-06-01T00:00:00Z')
+    );
+
+    expect(occurrences.map((o) => o.occurrence_date)).toEqual(['2026-10-30', '2026-11-30', '2026-12-31']);
+  });
+
+  it('skips exceptions but keeps the indexes of later occurrences', () => {
+    const occurrences = recurringEventsService.generateOccurrences(
+      makeEvent({ recurrence_pattern: JSON.stringify({ pattern: 'weekly', interval: 1, exceptions: ['2026-10-12'] }) }),
+      rangeStart,
+      new Date('2026-10-20T00:00:00Z')
+    );
+
+    expect(occurrences.map((o) => [o.occurrence_date, o.occurrence_index])).toEqual([
+      ['2026-10-05', 0],
+      ['2026-10-19', 2],
+    ]);
+  });
+
+  it('returns nothing for malformed rules', () => {
+    expect(
+      recurringEventsService.generateOccurrences(makeEvent({ recurrence_pattern: 'RRULE:FREQ=SOMETIMES' }), rangeStart, rangeEnd)
+    ).toEqual([]);
+  });
+
+  it('returns nothing for imported sub-daily rules', () => {
+    expect(
+      recurringEventsService.generateOccurrences(makeEvent({ recurrence_pattern: 'RRULE:FREQ=MINUTELY' }), rangeStart, rangeEnd)
+    ).toEqual([]);
+  });
+});
+
+describe('recurringEventsService.addICalException', () => {
+  it('excludes the exact occurrence instant in the event timezone', () => {
+    const pattern = recurringEventsService.addICalException(
+      makeEvent({ recurrence_pattern: 'RRULE:FREQ=WEEKLY;BYDAY=MO' }),
+      '2026-10-26'
+    );
+
+    expect(pattern).toBe('RRULE:FREQ=WEEKLY;BYDAY=MO\nEXDATE;TZID=Europe/Berlin:20261026T090000');
+  });
+
+  it('does not duplicate an existing exclusion', () => {
+    const event = makeEvent({ recurrence_pattern: 'RRULE:FREQ=WEEKLY;BYDAY=MO\nEXDATE;TZID=Europe/Berlin:20261026T090000' });
+    expect(recurringEventsService.addICalException(event, '2026-10-26')).toBe(event.recurrence_pattern);
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
+import { remindersService } from '@/lib/services/reminders-service';
 
 vi.mock('@/lib/supabase/client', () => ({
   createClient: vi.fn(() => ({
@@ -41,3 +42,36 @@ describe('reminders-service', () => {
     });
   });
 });
+
+describe('remindersService.getNextOccurrence', () => {
+  const after = new Date('2026-10-19T12:00:00Z'); // Monday
+
+  it('returns the next selected weekday at the reminder time', () => {
+    const next = remindersService.getNextOccurrence(
+      { reminder_time: '2026-10-05T08:00:00Z', repeat_pattern: 'weekly', repeat_days: [3, 5] },
+      after
+    );
+    expect(next?.toISOString()).toBe('2026-10-21T08:00:00.000Z');
+  });
+
+  it('uses repeat_days as days of the month for monthly reminders', () => {
+    const next = remindersService.getNextOccurrence(
+      { reminder_time: '2026-10-01T08:00:00Z', repeat_pattern: 'monthly', repeat_days: [1, 15] },
+      after
+    );
+    expect(next?.toISOString()).toBe('2026-11-01T08:00:00.000Z');
+  });
+
+  it('supports RRULE patterns and the reminder timezone', () => {
+    const next = remindersService.getNextOccurrence(
+      { reminder_time: '2026-07-01T07:00:00Z', repeat_pattern: 'RRULE:FREQ=MONTHLY;BYDAY=1WE' },
+      after,
+      'Europe/Berlin'
+    );
+    expect(next?.toISOString()).toBe('2026-11-04T08:00:00.000Z'); // 09:00 CET
+  });
+
+  it('returns null for one-off reminders', () => {
+    expect(remindersService.getNextOccurrence({ reminder_time: '2026-10-05T08:00:00Z' }, after)).toBeNull();
+  });
+});
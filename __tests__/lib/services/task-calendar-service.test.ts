@@ -104,4 +104,31 @@ describe('taskCalendarService', () => {
       await expect(taskCalendarService.updateCalendarPreferences('user1', true)).resolves.toBeUndefined();
     });
   });
+
+  describe('getTaskDueDates', () => {
+    function createQuery(result: unknown) {
+      const query: Record<string, unknown> = {};
+      ['from', 'select', 'eq', 'not', 'neq', 'order'].forEach((m) => {
+        query[m] = vi.fn(() => query);
+      });
+      query.then = (resolve: (v: unknown) => unknown) => resolve(result);
+      return query;
+    }
+
+    it('should return open tasks with due dates for a member', async () => {
+      const client = createQuery({ data: [{ id: 'task1', due_date: '2026-10-25' }], error: null });
+
+      const result = await taskCalendarService.getTaskDueDates('space1', { assignedTo: 'user1' }, client as never);
+
+      expect(result).toHaveLength(1);
+      expect(client.neq).toHaveBeenCalledWith('status', 'completed');
+      expect(client.eq).toHaveBeenCalledWith('assigned_to', 'user1');
+    });
+
+    it('should throw on query errors', async () => {
+      const client = createQuery({ data: null, error: new Error('db error') });
+
+      await expect(taskCalendarService.getTaskDueDates('space1', {}, client as never)).rejects.toThrow('db error');
+    });
+  });
 });
@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { taskRecurrenceService } from '@/lib/services/task-recurrence-service';
 
 const mockSupabaseClient = vi.hoisted(() => ({
   from: vi.fn(() => mockSupabaseClient),
@@ -23,6 +24,10 @@ vi.mock('@/lib/supabase/server', () => ({
   createClient: vi.fn(async () => mockSupabaseClient),
 }));
 
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn() },
+}));
+
 describe('task-recurrence-service', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -32,3 +37,35 @@ describe('task-recurrence-service', () => {
     expect(true).toBe(true);
   });
 });
+
+describe('taskRecurrenceService.calculateNextDueDate', () => {
+  it('advances legacy patterns by their interval', () => {
+    expect(taskRecurrenceService.calculateNextDueDate('2026-10-19', { pattern: 'daily', interval: 3 })).toBe('2026-10-22');
+    expect(taskRecurrenceService.calculateNextDueDate('2026-10-19', { pattern: 'biweekly', interval: 1 })).toBe('2026-11-02');
+    expect(taskRecurrenceService.calculateNextDueDate('2026-10-19', { pattern: 'monthly', interval: 1, day_of_month: 5 }))
+      .toBe('2026-11-05');
+  });
+
+  it('skips exceptions and stops after the end date', () => {
+    const pattern = { pattern: 'weekly' as const, interval: 1, exceptions: ['2026-10-26'], end_date: '2026-11-05' };
+    expect(taskRecurrenceService.calculateNextDueDate('2026-10-19', pattern)).toBe('2026-11-02');
+    expect(taskRecurrenceService.calculateNextDueDate('2026-11-02', pattern)).toBeNull();
+  });
+
+  it('prefers an iCalendar rule and counts from the series start', () => {
+    const pattern = {
+      pattern: 'monthly' as const,
+      interval: 1,
+      recurrence_rule: 'RRULE:FREQ=MONTHLY;BYDAY=-1FR;COUNT=2',
+    };
+    expect(taskRecurrenceService.calculateNextDueDate('2026-10-30', pattern, '2026-10-30')).toBe('2026-11-27');
+    expect(taskRecurrenceService.calculateNextDueDate('2026-11-27', pattern, '2026-10-30')).toBeNull();
+  });
+
+  it('returns null for unknown patterns and malformed rules', () => {
+    expect(taskRecurrenceService.calculateNextDueDate('2026-10-19', { pattern: 'hourly' as never, interval: 1 })).toBeNull();
+    expect(
+      taskRecurrenceService.calculateNextDueDate('2026-10-19', { pattern: 'daily', interval: 1, recurrence_rule: 'RRULE:BAD' })
+    ).toBeNull();
+  });
+});
@@ -10,6 +10,8 @@ const mockSupabaseClient = vi.hoisted(() => ({
   gte: vi.fn(() => mockSupabaseClient),
   lte: vi.fn(() => mockSupabaseClient),
   is: vi.fn(() => mockSupabaseClient),
+  in: vi.fn(() => mockSupabaseClient),
+  not: vi.fn(),
   order: vi.fn(() => mockSupabaseClient),
   single: vi.fn(),
   rpc: vi.fn(),
@@ -23,6 +25,12 @@ vi.mock('@/lib/supabase/server', () => ({
   createClient: vi.fn(async () => mockSupabaseClient),
 }));
 
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+import { taskTimeTrackingService } from '@/lib/services/task-time-tracking-service';
+
 describe('task-time-tracking-service', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -31,4 +39,28 @@ describe('task-time-tracking-service', () => {
   it('should be tested', () => {
     expect(true).toBe(true);
   });
+
+  describe('getTotalDurations', () => {
+    it('sums finished entries per task', async () => {
+      mockSupabaseClient.not.mockResolvedValueOnce({
+        data: [
+          { task_id: 'a', duration: 30 },
+          { task_id: 'a', duration: 15 },
+          { task_id: 'b', duration: 20 },
+        ],
+        error: null,
+      });
+
+      const totals = await taskTimeTrackingService.getTotalDurations(['a', 'b', 'c']);
+
+      expect(totals).toEqual({ a: 45, b: 20 });
+      expect(mockSupabaseClient.in).toHaveBeenCalledWith('task_id', ['a', 'b', 'c']);
+      expect(mockSupabaseClient.not).toHaveBeenCalledWith('duration', 'is', null);
+    });
+
+    it('skips the query when there are no tasks', async () => {
+      await expect(taskTimeTrackingService.getTotalDurations([])).resolves.toEqual({});
+      expect(mockSupabaseClient.from).not.toHaveBeenCalled();
+    });
+  });
 });
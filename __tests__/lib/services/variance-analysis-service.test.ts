@@ -23,6 +23,18 @@ vi.mock('@/lib/supabase/server', () => ({
   createClient: vi.fn(async () => mockSupabaseClient),
 }));
 
+import { getMonthVariance } from '@/lib/services/variance-analysis-service';
+
+function createChainMock(resolvedValue: unknown) {
+  const mock: Record<string, unknown> = {};
+  const handler = () => mock;
+  ['select', 'eq', 'gte', 'lte', 'order', 'maybeSingle', 'single'].forEach(m => {
+    mock[m] = vi.fn(handler);
+  });
+  mock.then = vi.fn((resolve: (v: unknown) => unknown) => resolve(resolvedValue));
+  return mock;
+}
+
 describe('variance-analysis-service', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -31,4 +43,32 @@ describe('variance-analysis-service', () => {
   it('should be tested', () => {
     expect(true).toBe(true);
   });
+
+  describe('getMonthVariance', () => {
+    it('leaves out expenses with no exchange rate and reports their currencies', async () => {
+      mockSupabaseClient.from.mockImplementation(((table: string) => {
+        if (table === 'budget_categories') {
+          return createChainMock({
+            data: [{ id: 'bc-1', space_id: 'space-1', category_name: 'Food', allocated_amount: 100 }],
+            error: null,
+          });
+        }
+        if (table === 'spaces') return createChainMock({ data: { base_currency: 'USD' }, error: null });
+        if (table === 'exchange_rates') return createChainMock({ data: [], error: null });
+        return createChainMock({
+          data: [
+            { amount: 60, currency: 'USD', date: '2026-02-03' },
+            { amount: 9000, currency: 'JPY', date: '2026-02-04' },
+          ],
+          error: null,
+        });
+      }) as never);
+
+      const result = await getMonthVariance('space-1', new Date(2026, 1, 15));
+
+      expect(result.total_actual).toBe(60);
+      expect(result.categories[0].actual_amount).toBe(60);
+      expect(result.unconverted_currencies).toEqual(['JPY']);
+    });
+  });
 });
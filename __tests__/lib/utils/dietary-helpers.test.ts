@@ -0,0 +1,91 @@
+/**
+ * Unit tests for lib/utils/dietary-helpers.ts
+ *
+ * Tests checking recipe ingredients against household dietary profiles.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findDietaryConflicts,
+  formatDietaryConflict,
+  describeDietaryConflicts,
+} from '@/lib/utils/dietary-helpers';
+import type { MemberDietaryProfile } from '@/lib/services/dietary-profile-service';
+
+function profile(name: string, overrides: Partial<MemberDietaryProfile> = {}): MemberDietaryProfile {
+  return {
+    user_id: `user-${name}`,
+    name,
+    allergies: [],
+    intolerances: [],
+    diets: [],
+    notes: null,
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const satay = [
+  '500g chicken thighs',
+  '3 tbsp peanut butter',
+  { name: 'soy sauce', amount: '2', unit: 'tbsp' },
+  '1 cup coconut milk',
+];
+
+describe('findDietaryConflicts', () => {
+  it('flags allergies with the ingredients responsible', () => {
+    const conflicts = findDietaryConflicts(satay, [profile('Sam', { allergies: ['peanut'] })]);
+
+    expect(conflicts).toEqual([
+      expect.objectContaining({ member_name: 'Sam', kind: 'allergy', restriction: 'peanut', ingredients: ['3 tbsp peanut butter'] }),
+    ]);
+  });
+
+  it('flags diets by what they rule out', () => {
+    const conflicts = findDietaryConflicts(satay, [
+      profile('Jo', { diets: ['vegetarian', 'gluten_free', 'low_sodium'] }),
+    ]);
+
+    expect(conflicts.map((c) => c.restriction)).toEqual(['vegetarian', 'gluten_free', 'low_sodium']);
+    expect(conflicts[1].ingredients).toEqual(['soy sauce']);
+  });
+
+  it('does not mistake look-alike ingredients', () => {
+    const conflicts = findDietaryConflicts(
+      ['1 cup almond milk', '1 eggplant', '2 tbsp red wine vinegar', 'pinch of nutmeg'],
+      [profile('Ali', { allergies: ['dairy', 'egg'], diets: ['halal'] })]
+    );
+    expect(conflicts).toEqual([]);
+  });
+
+  it('treats meat cooked with dairy as not kosher', () => {
+    const profiles = [profile('Dan', { diets: ['kosher'] })];
+
+    expect(findDietaryConflicts(['1 lb beef', '2 tbsp butter'], profiles)[0].ingredients).toEqual(['2 tbsp butter']);
+    expect(findDietaryConflicts(['1 lb beef', '2 tbsp olive oil'], profiles)).toEqual([]);
+  });
+
+  it('checks every member', () => {
+    const conflicts = findDietaryConflicts(satay, [
+      profile('Sam', { allergies: ['peanut'] }),
+      profile('Lee', { intolerances: ['soy'] }),
+      profile('Kim'),
+    ]);
+    expect(conflicts.map((c) => c.member_name)).toEqual(['Sam', 'Lee']);
+  });
+});
+
+describe('describeDietaryConflicts', () => {
+  it('reads naturally, allergies first', () => {
+    const conflicts = findDietaryConflicts(satay, [
+      profile('Jo', { diets: ['vegetarian'] }),
+      profile('Sam', { allergies: ['peanut'] }),
+    ]);
+
+    expect(formatDietaryConflict(conflicts[0])).toBe('Jo: not vegetarian (500g chicken thighs)');
+    expect(describeDietaryConflicts(conflicts)).toBe(
+      'Sam: peanut allergy (3 tbsp peanut butter); Jo: not vegetarian (500g chicken thighs)'
+    );
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for lib/utils/geofence.ts
+ *
+ * Tests circle and polygon shapes, and replays recorded location traces
+ * through the per-place state machine to check dwell time, the exit buffer
+ * and rejection of inaccurate or out-of-order fixes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  distanceOutside,
+  getShapeRadius,
+  isInsideShape,
+  stepGeofence,
+  toGeofence,
+  type Geofence,
+  type GeofenceFix,
+  type GeofenceShape,
+  type GeofenceState,
+} from '@/lib/utils/geofence';
+
+// About 1.11 m per 0.00001 degrees of latitude
+const HOME = { latitude: 40.7128, longitude: -74.006 };
+const north = (meters: number) => ({ latitude: HOME.latitude + meters / 111195, longitude: HOME.longitude });
+
+const circle: GeofenceShape = { kind: 'circle', center: HOME, radiusMeters: 100 };
+
+// A square about 200 m a side, centered on HOME
+const square: GeofenceShape = {
+  kind: 'polygon',
+  vertices: [
+    { latitude: 40.7119, longitude: -74.0072 },
+    { latitude: 40.7137, longitude: -74.0072 },
+    { latitude: 40.7137, longitude: -74.0048 },
+    { latitude: 40.7119, longitude: -74.0048 },
+  ],
+};
+
+function fix(meters: number, second: number, accuracy: number | null = 10): GeofenceFix {
+  return { ...north(meters), accuracy, recorded_at: new Date(Date.UTC(2026, 9, 19, 12, 0, second)).toISOString() };
+}
+
+/** Replay a trace, returning the events it fires and the final state */
+function replay(fence: Geofence, trace: GeofenceFix[], state: GeofenceState | null = null) {
+  const events: string[] = [];
+  for (const point of trace) {
+    const step = stepGeofence(state, fence, point);
+    state = step.state;
+    if (step.event) events.push(`${step.event}@${point.recorded_at.slice(17, 19)}`);
+  }
+  return { events, state };
+}
+
+const fence: Geofence = { shape: circle, dwellSeconds: 30, exitBufferMeters: 40 };
+
+describe('shapes', () => {
+  it('measures signed distance to a circle edge', () => {
+    expect(distanceOutside(HOME, circle)).toBeCloseTo(-100, 0);
+    expect(distanceOutside(north(150), circle)).toBeCloseTo(50, 0);
+  });
+
+  it('tells inside from outside a polygon', () => {
+    expect(isInsideShape(HOME, square)).toBe(true);
+    expect(isInsideShape(north(90), square)).toBe(true);
+    expect(isInsideShape(north(110), square)).toBe(false);
+    expect(distanceOutside(north(150), square)).toBeCloseTo(150 - 100, -1);
+  });
+
+  it('uses the farthest corner as a polygon radius', () => {
+    expect(getShapeRadius(circle)).toBe(100);
+    expect(getShapeRadius(square)).toBeGreaterThan(130);
+    expect(getShapeRadius(square)).toBeLessThan(150);
+  });
+
+  it('builds a polygon fence only from a boundary of three or more points', () => {
+    const place = { ...HOME, radius_meters: 150, dwell_seconds: 60, exit_buffer_meters: 50 };
+
+    expect(toGeofence({ ...place, boundary: null }).shape.kind).toBe('circle');
+    expect(toGeofence({ ...place, boundary: square.vertices }).shape.kind).toBe('polygon');
+  });
+});
+
+describe('stepGeofence', () => {
+  it('establishes the state from the first fix without an event', () => {
+    expect(replay(fence, [fix(0, 0)])).toEqual({ events: [], state: { status: 'inside', since: fix(0, 0).recorded_at } });
+  });
+
+  it('arrives only after dwelling inside', () => {
+    const { events, state } = replay(fence, [fix(500, 0), fix(50, 10), fix(20, 20), fix(10, 40), fix(0, 50)]);
+
+    expect(events).toEqual(['arrival@40']);
+    expect(state?.status).toBe('inside');
+  });
+
+  it('does not arrive when passing through', () => {
+    expect(replay(fence, [fix(500, 0), fix(50, 10), fix(300, 50)]).events).toEqual([]);
+  });
+
+  it('ignores jitter around the edge once inside', () => {
+    const trace = [fix(0, 0), fix(95, 10), fix(120, 20), fix(98, 30), fix(135, 40), fix(90, 50), fix(130, 59)];
+
+    expect(replay(fence, trace).events).toEqual([]);
+  });
+
+  it('leaves once past the exit buffer, then needs to dwell again', () => {
+    const trace = [fix(0, 0), fix(145, 10), fix(80, 20), fix(70, 40), fix(60, 55)];
+
+    expect(replay(fence, trace).events).toEqual(['departure@10', 'arrival@55']);
+  });
+
+  it('rejects fixes less accurate than the place radius', () => {
+    const step = stepGeofence({ status: 'inside', since: fix(0, 0).recorded_at }, fence, fix(400, 10, 500));
+
+    expect(step.rejected).toBe(true);
+    expect(step.event).toBeNull();
+    expect(step.state?.status).toBe('inside');
+  });
+
+  it('rejects fixes older than the current state', () => {
+    const state: GeofenceState = { status: 'outside', since: fix(0, 30).recorded_at };
+
+    expect(stepGeofence(state, fence, fix(0, 20))).toEqual({ state, event: null, rejected: true });
+  });
+
+  it('arrives on the first fix inside when there is no dwell time', () => {
+    const immediate = { ...fence, dwellSeconds: 0 };
+
+    expect(replay(immediate, [fix(500, 0), fix(50, 10)]).events).toEqual(['arrival@10']);
+  });
+
+  it('runs the same rules against a polygon', () => {
+    const yard: Geofence = { shape: square, dwellSeconds: 30, exitBufferMeters: 40 };
+    const trace = [fix(400, 0), fix(50, 10), fix(110, 20), fix(60, 45), fix(130, 50), fix(200, 58)];
+
+    expect(replay(yard, trace).events).toEqual(['arrival@45', 'departure@58']);
+  });
+});
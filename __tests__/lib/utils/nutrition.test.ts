@@ -0,0 +1,129 @@
+/**
+ * Unit tests for lib/utils/nutrition.ts
+ *
+ * Tests ingredient matching, recipe nutrition estimates and the meal-plan
+ * summary split by assigned member.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findNutritionFood,
+  estimateIngredientsNutrition,
+  getRecipeNutrition,
+  summarizeMealPlanNutrition,
+  formatNutrient,
+} from '@/lib/utils/nutrition';
+import { NUTRITION_FOODS } from '@/lib/constants/nutrition-data';
+import type { Meal, Recipe } from '@/lib/services/meals-service';
+
+function recipe(ingredients: Recipe['ingredients'], servings?: number, nutrition?: Recipe['nutrition']): Recipe {
+  return {
+    id: 'recipe-1',
+    space_id: 'space-1',
+    name: 'Recipe',
+    ingredients,
+    servings,
+    nutrition,
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+  };
+}
+
+function meal(id: string, mealRecipe: Recipe | undefined, overrides: Partial<Meal> = {}): Meal {
+  return {
+    id,
+    space_id: 'space-1',
+    meal_type: 'dinner',
+    scheduled_date: '2026-10-20',
+    recipe: mealRecipe,
+    created_by: 'user-1',
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('findNutritionFood', () => {
+  it('matches the most specific entry', () => {
+    expect(findNutritionFood('boneless chicken thighs')).toBe(NUTRITION_FOODS['chicken thigh']);
+    expect(findNutritionFood('creamy peanut butter')).toBe(NUTRITION_FOODS['peanut butter']);
+    expect(findNutritionFood('large eggs, beaten')).toBe(NUTRITION_FOODS.egg);
+  });
+
+  it('returns null for unknown ingredients', () => {
+    expect(findNutritionFood('saffron threads')).toBeNull();
+  });
+});
+
+describe('estimateIngredientsNutrition', () => {
+  it('weighs ingredients given by weight, volume and count', () => {
+    const { total, matched } = estimateIngredientsNutrition([
+      '200g chicken breast',
+      '1 cup all-purpose flour',
+      '2 large eggs',
+      { name: 'butter', amount: '1', unit: 'stick' },
+    ]);
+
+    expect(matched).toBe(4);
+    // 240 + 456.6 + 143 + 810.2 kcal
+    expect(total.calories).toBeCloseTo(1650, -1);
+    expect(total.protein_g).toBeCloseTo(45 + 12.9 + 12.6 + 1, 0);
+  });
+
+  it('skips lines without a quantity and reports what it cannot measure', () => {
+    const { matched, unmatched } = estimateIngredientsNutrition([
+      'salt to taste',
+      '1 tsp saffron',
+      '2 cups chicken',
+    ]);
+    expect(matched).toBe(0);
+    expect(unmatched).toEqual(['1 tsp saffron', '2 cups chicken']);
+  });
+});
+
+describe('getRecipeNutrition', () => {
+  it('divides the estimate by servings', () => {
+    const estimate = getRecipeNutrition(recipe(['400g chicken breast', '2 tbsp olive oil'], 4));
+
+    expect(estimate?.source).toBe('estimated');
+    expect(estimate?.nutrition.calories).toBe(Math.round((480 + 2 * 14.7868 * 0.92 * 8.84) / 4));
+    expect(estimate?.nutrition.vitamin_c_mg).toBe(0);
+  });
+
+  it('prefers published nutrition facts', () => {
+    const estimate = getRecipeNutrition(recipe(['400g chicken breast'], 2, { calories: 310, protein_g: 30 }));
+    expect(estimate).toMatchObject({ source: 'published', nutrition: { calories: 310 } });
+  });
+
+  it('returns null when no ingredient is recognised', () => {
+    expect(getRecipeNutrition(recipe(['1 pinch saffron']))).toBeNull();
+  });
+});
+
+describe('summarizeMealPlanNutrition', () => {
+  const stew = recipe(['1 kg beef'], 4); // 2170 kcal, 543 per serving once rounded
+
+  it('totals the servings each meal cooks, split by assigned member', () => {
+    const summary = summarizeMealPlanNutrition([
+      meal('m1', stew, { assigned_to: 'user-2', assignee: { id: 'user-2', name: 'Sam', email: 'sam@example.com' } }),
+      meal('m2', stew, { servings: 2 }),
+      meal('m3', undefined),
+    ]);
+
+    expect(summary.counted).toBe(2);
+    expect(summary.skipped).toBe(1);
+    expect(summary.total.calories).toBe(3258);
+    expect(summary.byMember).toEqual([
+      expect.objectContaining({ memberId: 'user-2', name: 'Sam', meals: 1, nutrition: expect.objectContaining({ calories: 2172 }) }),
+      expect.objectContaining({ memberId: null, name: 'Unassigned', meals: 1, nutrition: expect.objectContaining({ calories: 1086 }) }),
+    ]);
+  });
+});
+
+describe('formatNutrient', () => {
+  it('shows the unit, or a dash when the value is unknown', () => {
+    expect(formatNutrient(320, 'kcal')).toBe('320 kcal');
+    expect(formatNutrient(12.5, 'g')).toBe('12.5 g');
+    expect(formatNutrient(undefined, 'mg')).toBe('–');
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for lib/utils/pantry-helpers.ts
+ *
+ * Tests expiry status and "use it up" recipe suggestions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getDaysUntilExpiry,
+  getExpiryStatus,
+  suggestRecipesForExpiringItems,
+} from '@/lib/utils/pantry-helpers';
+import type { PantryItem } from '@/lib/services/pantry-service';
+import type { Recipe } from '@/lib/services/meals-service';
+
+const TODAY = new Date(2026, 9, 19);
+
+function pantryItem(name: string, expiresOn: string | null): PantryItem {
+  return {
+    id: `item-${name}`,
+    space_id: 'space-1',
+    name,
+    quantity: 1,
+    unit: null,
+    location: 'fridge',
+    category: null,
+    expires_on: expiresOn,
+    barcode: null,
+    notes: null,
+    source: 'manual',
+    shopping_item_id: null,
+    added_by: null,
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+  };
+}
+
+function recipe(id: string, ingredients: string[]): Recipe {
+  return {
+    id,
+    space_id: 'space-1',
+    name: `Recipe ${id}`,
+    ingredients,
+    created_by: 'user-1',
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+  } as Recipe;
+}
+
+describe('getDaysUntilExpiry', () => {
+  it('counts calendar days from today', () => {
+    expect(getDaysUntilExpiry('2026-10-19', TODAY)).toBe(0);
+    expect(getDaysUntilExpiry('2026-10-22', TODAY)).toBe(3);
+    expect(getDaysUntilExpiry('2026-10-17', TODAY)).toBe(-2);
+  });
+
+  it('returns null without a date', () => {
+    expect(getDaysUntilExpiry(null, TODAY)).toBeNull();
+  });
+});
+
+describe('getExpiryStatus', () => {
+  it('classifies items by days left', () => {
+    expect(getExpiryStatus({ expires_on: '2026-10-18' }, TODAY)).toBe('expired');
+    expect(getExpiryStatus({ expires_on: '2026-10-19' }, TODAY)).toBe('expiring');
+    expect(getExpiryStatus({ expires_on: '2026-10-22' }, TODAY)).toBe('expiring');
+    expect(getExpiryStatus({ expires_on: '2026-10-23' }, TODAY)).toBe('fresh');
+    expect(getExpiryStatus({ expires_on: null }, TODAY)).toBe('none');
+  });
+
+  it('respects a custom window', () => {
+    expect(getExpiryStatus({ expires_on: '2026-10-25' }, TODAY, 7)).toBe('expiring');
+  });
+});
+
+describe('suggestRecipesForExpiringItems', () => {
+  const pantry = [
+    pantryItem('Spinach', '2026-10-20'),
+    pantryItem('Mushrooms', '2026-10-21'),
+    pantryItem('Rice', null),
+    pantryItem('Yogurt', '2026-10-10'),
+  ];
+
+  it('suggests recipes that use soon-to-expire items, most matches first', () => {
+    const suggestions = suggestRecipesForExpiringItems(
+      [
+        recipe('salad', ['200g baby spinach', '1 lemon']),
+        recipe('risotto', ['1 cup rice', '250g mushrooms, sliced', '2 cups spinach']),
+        recipe('bread', ['500g flour']),
+      ],
+      pantry,
+      { today: TODAY }
+    );
+
+    expect(suggestions.map((s) => s.recipe.id)).toEqual(['risotto', 'salad']);
+    expect(suggestions[0].expiringItems.map((i) => i.name)).toEqual(['Spinach', 'Mushrooms']);
+  });
+
+  it('ignores expired items and items without a date', () => {
+    const suggestions = suggestRecipesForExpiringItems(
+      [recipe('parfait', ['1 cup yogurt', '1/2 cup rice'])],
+      pantry,
+      { today: TODAY }
+    );
+    expect(suggestions).toEqual([]);
+  });
+
+  it('does not match an item that is only part of an ingredient name', () => {
+    const suggestions = suggestRecipesForExpiringItems(
+      [recipe('soup', ['1 cup mushroom stock'])],
+      pantry,
+      { today: TODAY }
+    );
+    expect(suggestions).toEqual([]);
+  });
+
+  it('limits the number of suggestions', () => {
+    const recipes = Array.from({ length: 8 }, (_, i) => recipe(`r${i}`, ['1 cup spinach']));
+    expect(suggestRecipesForExpiringItems(recipes, pantry, { today: TODAY, limit: 3 })).toHaveLength(3);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for lib/utils/price-helpers.ts
+ *
+ * Tests learning prices from price book entries, unit conversion when pricing
+ * items, and recipe, meal plan and shopping list estimates.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildPriceBook,
+  priceItem,
+  estimateRecipeCost,
+  estimateMealPlanCost,
+  estimateShoppingListTotal,
+} from '@/lib/utils/price-helpers';
+import type { PriceBookEntry } from '@/lib/services/price-book-service';
+import type { Meal, Recipe } from '@/lib/services/meals-service';
+
+type EntryInput = Pick<PriceBookEntry, 'name' | 'store_name' | 'unit' | 'unit_price' | 'observed_on'>;
+
+function entry(name: string, unitPrice: number, overrides: Partial<EntryInput> = {}): EntryInput {
+  return { name, store_name: 'Corner Market', unit: '', unit_price: unitPrice, observed_on: '2026-10-01', ...overrides };
+}
+
+const book = buildPriceBook([
+  entry('Eggs', 0.3),
+  entry('Flour', 2, { unit: 'kg' }),
+  entry('Chicken breast', 10, { unit: 'kg' }),
+  entry('Milk', 1.2, { unit: 'l', store_name: 'Corner Market' }),
+  entry('Milk', 0.9, { unit: 'l', store_name: 'Big Box' }),
+]);
+
+describe('buildPriceBook', () => {
+  it('averages the most recent prices for the same item, store and unit', () => {
+    const prices = buildPriceBook([
+      entry('Bananas', 0.2, { observed_on: '2026-06-01' }),
+      entry('Banana', 0.3, { observed_on: '2026-09-01' }),
+      entry('BANANAS', 0.3, { observed_on: '2026-09-15' }),
+      entry('Bananas', 0.36, { observed_on: '2026-10-01' }),
+    ]);
+
+    expect(prices.get('banana')).toEqual([
+      expect.objectContaining({ unit: '', lastSeen: '2026-10-01', unitPrice: expect.closeTo(0.32, 5) }),
+    ]);
+  });
+});
+
+describe('priceItem', () => {
+  it('prices counted items and converts measured units', () => {
+    expect(priceItem(book, 'large eggs', 6, '')).toBeCloseTo(1.8);
+    expect(priceItem(book, 'flour', 500, 'g')).toBeCloseTo(1);
+    expect(priceItem(book, 'chicken breast', 1, 'lb')).toBeCloseTo(4.54, 2);
+  });
+
+  it('converts volume to weight for ingredients with a known density', () => {
+    // 1 cup of flour is about 125 g
+    expect(priceItem(book, 'flour', 1, 'cup')).toBeCloseTo(0.25, 1);
+  });
+
+  it('prefers the given store and averages across stores otherwise', () => {
+    expect(priceItem(book, 'milk', 1, 'l', 'big box')).toBeCloseTo(0.9);
+    expect(priceItem(book, 'milk', 1, 'l')).toBeCloseTo(1.05);
+  });
+
+  it('returns null for unknown items and incompatible units', () => {
+    expect(priceItem(book, 'saffron', 1, 'g')).toBeNull();
+    expect(priceItem(book, 'chicken breast', 2, '')).toBeNull();
+  });
+});
+
+describe('estimateRecipeCost', () => {
+  it('totals priced ingredients and reports the rest', () => {
+    const recipe: Pick<Recipe, 'ingredients' | 'servings'> = {
+      ingredients: ['500 g chicken breast', '2 eggs', '1 tbsp saffron', 'salt to taste'],
+      servings: 4,
+    };
+
+    expect(estimateRecipeCost(recipe, book)).toEqual({
+      total: 5.6,
+      perServing: 1.4,
+      priced: 2,
+      unpriced: ['1 tbsp saffron'],
+    });
+  });
+});
+
+describe('estimateMealPlanCost', () => {
+  it('costs each meal at the servings it cooks and skips unpriced meals', () => {
+    const recipe = { ingredients: ['1 kg flour'], servings: 4 } as Recipe;
+    const meals = [
+      { servings: 8, recipe },
+      { servings: undefined, recipe },
+      { servings: 2, recipe: { ingredients: ['1 tbsp saffron'], servings: 2 } as Recipe },
+      { servings: 2, recipe: undefined },
+    ] as Pick<Meal, 'servings' | 'recipe'>[];
+
+    expect(estimateMealPlanCost(meals, book)).toEqual({ total: 6, counted: 2, skipped: 2 });
+  });
+});
+
+describe('estimateShoppingListTotal', () => {
+  it('uses the price paid for checked items and learned prices for the rest', () => {
+    const items = [
+      { name: 'Eggs', quantity: 12, unit: undefined, checked: false },
+      { name: 'Milk', quantity: 2, unit: 'L', checked: true, actual_price: 2.5 },
+      { name: 'Candles', quantity: 1, unit: undefined, checked: false },
+    ];
+
+    expect(estimateShoppingListTotal(items, book, 'Corner Market')).toEqual({
+      total: 6.1,
+      priced: 2,
+      unpriced: ['Candles'],
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for lib/utils/store-layout-helpers.ts
+ *
+ * Tests learning aisle order from past trips, custom orders on saved
+ * store layouts, sorting list items for a store and splitting a list between two.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  learnStoreLayout,
+  buildStoreLayouts,
+  findStoreLayout,
+  groupItemsForStore,
+  splitItemsBetweenStores,
+  findSplitStores,
+} from '@/lib/utils/store-layout-helpers';
+import { buildPriceBook } from '@/lib/utils/price-helpers';
+import type { StoreTrip } from '@/lib/services/store-layouts-service';
+
+function trip(store: string, items: [string, string][]): StoreTrip {
+  return {
+    store,
+    items: items.map(([name, category], index) => ({
+      name,
+      category,
+      checked_at: `2026-10-01T10:${String(index).padStart(2, '0')}:00Z`,
+    })),
+  };
+}
+
+function item(name: string, category: string, sortOrder = 0) {
+  return { name, category, sort_order: sortOrder };
+}
+
+const trips = [
+  trip('Corner Market', [['Bananas', 'produce'], ['Bread', 'bakery'], ['Milk', 'dairy'], ['Ice cream', 'frozen']]),
+  trip('Corner Market', [['Apples', 'produce'], ['Milk', 'dairy'], ['Peas', 'frozen']]),
+  trip('Big Box', [['Paper towels', 'household'], ['Milk', 'dairy'], ['Bananas', 'produce']]),
+];
+
+describe('learnStoreLayout', () => {
+  it('orders categories by where their items were checked off', () => {
+    const layout = learnStoreLayout('Corner Market', trips);
+
+    expect(layout.source).toBe('learned');
+    expect(layout.trips).toBe(2);
+    expect(layout.categoryOrder.slice(0, 4)).toEqual(['produce', 'bakery', 'dairy', 'frozen']);
+  });
+
+  it('matches store names ignoring case and spaces', () => {
+    expect(learnStoreLayout(' corner market ', trips).trips).toBe(2);
+  });
+
+  it('puts a custom order first, then the learned order for the rest', () => {
+    const layout = learnStoreLayout('Corner Market', trips, { id: 'l1', aisle_order: ['frozen', 'dairy'] });
+
+    expect(layout.source).toBe('custom');
+    expect(layout.savedId).toBe('l1');
+    expect(layout.categoryOrder.slice(0, 4)).toEqual(['frozen', 'dairy', 'produce', 'bakery']);
+  });
+
+  it('falls back to the default order for a store with no history', () => {
+    const layout = learnStoreLayout('New Store', trips);
+
+    expect(layout.source).toBe('default');
+    expect(layout.categoryOrder.length).toBeGreaterThan(0);
+    expect(layout.stocked.size).toBe(0);
+  });
+
+  it('counts items priced at the store as stocked there', () => {
+    const priceBook = buildPriceBook([
+      { name: 'Saffron', store_name: 'Corner Market', unit: 'g', unit_price: 5, observed_on: '2026-10-01' },
+    ]);
+
+    expect(learnStoreLayout('Corner Market', trips, null, priceBook).stocked.has('saffron')).toBe(true);
+  });
+});
+
+describe('buildStoreLayouts', () => {
+  it('includes saved stores and stores only seen on past lists', () => {
+    const layouts = buildStoreLayouts([{ id: 'l1', store_name: 'Corner Market', aisle_order: [] }], trips);
+
+    expect(layouts.map((layout) => layout.name)).toEqual(['Corner Market', 'Big Box']);
+    expect(findStoreLayout(layouts, 'big box')?.savedId).toBeNull();
+    expect(findStoreLayout(layouts, null)).toBeNull();
+  });
+});
+
+describe('groupItemsForStore', () => {
+  const items = [item('Milk', 'dairy', 0), item('Kale', 'produce', 1), item('Apples', 'produce', 2), item('Peas', 'frozen', 3)];
+
+  it('groups categories alphabetically without a layout', () => {
+    expect(groupItemsForStore(items, null).map((group) => group.category)).toEqual(['dairy', 'frozen', 'produce']);
+  });
+
+  it('groups categories and items in walking order, new items last', () => {
+    const groups = groupItemsForStore(items, learnStoreLayout('Corner Market', trips));
+
+    expect(groups.map((group) => group.category)).toEqual(['produce', 'dairy', 'frozen']);
+    expect(groups[0].items.map((groupItem) => groupItem.name)).toEqual(['Apples', 'Kale']);
+  });
+});
+
+describe('splitItemsBetweenStores', () => {
+  const corner = learnStoreLayout('Corner Market', trips);
+  const bigBox = learnStoreLayout('Big Box', trips);
+  const items = [item('Milk', 'dairy'), item('Paper towels', 'household'), item('Candles', 'household')];
+
+  it('moves items only sold at the second store there', () => {
+    const split = splitItemsBetweenStores(items, corner, bigBox);
+
+    expect(split.first.map((splitItem) => splitItem.name)).toEqual(['Milk', 'Candles']);
+    expect(split.second.map((splitItem) => splitItem.name)).toEqual(['Paper towels']);
+  });
+
+  it('offers only stores that would take something off the list', () => {
+    expect(findSplitStores(items, corner, [corner, bigBox]).map((layout) => layout.name)).toEqual(['Big Box']);
+    expect(findSplitStores([item('Milk', 'dairy')], corner, [corner, bigBox])).toEqual([]);
+  });
+});
@@ -18,6 +18,8 @@ import {
   FORMATS,
   formatEventTime,
   formatEventDateTime,
+  getZonedDateParts,
+  zonedTimeToUtc,
 } from '@/lib/utils/timezone-utils';
 
 describe('getUserTimezone', () => {
@@ -254,3 +256,34 @@ describe('formatEventDateTime', () => {
     expect(result).toContain('-');
   });
 });
+
+describe('getZonedDateParts', () => {
+  it('returns the wall-clock parts in a timezone', () => {
+    expect(getZonedDateParts(new Date('2026-10-25T00:30:00Z'), 'Europe/Berlin')).toEqual({
+      year: 2026, month: 10, day: 25, hour: 2, minute: 30, second: 0,
+    });
+  });
+
+  it('uses hour 0 rather than 24 at midnight', () => {
+    expect(getZonedDateParts(new Date('2026-01-01T05:00:00Z'), 'America/New_York').hour).toBe(0);
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  const wall = (month: number, day: number, hour: number, minute = 0) =>
+    ({ year: 2026, month, day, hour, minute, second: 0 });
+
+  it('converts a wall-clock time to UTC', () => {
+    expect(zonedTimeToUtc(wall(7, 1, 9), 'Europe/Berlin').toISOString()).toBe('2026-07-01T07:00:00.000Z');
+    expect(zonedTimeToUtc(wall(1, 1, 9), 'Europe/Berlin').toISOString()).toBe('2026-01-01T08:00:00.000Z');
+    expect(zonedTimeToUtc(wall(1, 1, 9), 'UTC').toISOString()).toBe('2026-01-01T09:00:00.000Z');
+  });
+
+  it('resolves repeated times to their first occurrence', () => {
+    expect(zonedTimeToUtc(wall(10, 25, 2, 30), 'Europe/Berlin').toISOString()).toBe('2026-10-25T00:30:00.000Z');
+  });
+
+  it('moves times skipped by daylight saving forward', () => {
+    expect(zonedTimeToUtc(wall(3, 29, 2, 30), 'Europe/Berlin').toISOString()).toBe('2026-03-29T01:30:00.000Z');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for lib/utils/units.ts
+ *
+ * Tests unit normalisation, conversion (including density-based
+ * volume↔weight), measurement-system selection and kitchen rounding.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeUnit,
+  getUnitDimension,
+  getIngredientDensity,
+  convertAmount,
+  toMeasurementSystem,
+  roundAmount,
+  formatAmount,
+} from '@/lib/utils/units';
+
+describe('normalizeUnit', () => {
+  it('maps spellings to canonical units', () => {
+    expect(normalizeUnit('Tablespoons')).toBe('tbsp');
+    expect(normalizeUnit('tsp.')).toBe('tsp');
+    expect(normalizeUnit('litres')).toBe('L');
+    expect(normalizeUnit('ounces')).toBe('oz');
+  });
+
+  it('lowercases unknown units', () => {
+    expect(normalizeUnit('Pinch')).toBe('pinch');
+  });
+});
+
+describe('getUnitDimension', () => {
+  it('classifies units', () => {
+    expect(getUnitDimension('cups')).toBe('volume');
+    expect(getUnitDimension('kg')).toBe('weight');
+    expect(getUnitDimension('clove')).toBe('count');
+    expect(getUnitDimension('')).toBe('count');
+  });
+});
+
+describe('getIngredientDensity', () => {
+  it('prefers the most specific match', () => {
+    expect(getIngredientDensity('light brown sugar')).toBe(0.93);
+    expect(getIngredientDensity('sugar')).toBe(0.85);
+  });
+
+  it('ignores preparation notes and plurals', () => {
+    expect(getIngredientDensity('rolled oats (old-fashioned)')).toBe(0.38);
+    expect(getIngredientDensity('all-purpose flour, sifted')).toBe(0.53);
+  });
+
+  it('does not match inside other words', () => {
+    expect(getIngredientDensity('foil')).toBeNull();
+    expect(getIngredientDensity('flour tortillas')).toBeNull();
+  });
+});
+
+describe('convertAmount', () => {
+  it('converts within a dimension', () => {
+    expect(convertAmount(3, 'tsp', 'tbsp')).toBeCloseTo(1);
+    expect(convertAmount(1, 'kg', 'lb')).toBeCloseTo(2.2046, 3);
+    expect(convertAmount(2, 'cups', 'ml')).toBeCloseTo(473.18, 1);
+  });
+
+  it('converts volume to weight with a known density', () => {
+    expect(convertAmount(1, 'cup', 'g', 'flour')).toBeCloseTo(125.4, 0);
+    expect(convertAmount(200, 'g', 'cup', 'sugar')).toBeCloseTo(0.995, 2);
+  });
+
+  it('refuses conversions it cannot make', () => {
+    expect(convertAmount(1, 'cup', 'g', 'chopped parsley')).toBeNull();
+    expect(convertAmount(1, 'cup', 'g')).toBeNull();
+    expect(convertAmount(2, 'clove', 'tsp', 'garlic')).toBeNull();
+  });
+
+  it('passes through identical units, including count units', () => {
+    expect(convertAmount(3, 'can', 'cans')).toBe(3);
+    expect(convertAmount(2, '', '')).toBe(2);
+  });
+});
+
+describe('toMeasurementSystem', () => {
+  it('picks the unit a cook would use', () => {
+    expect(toMeasurementSystem(1500, 'ml', 'metric')).toEqual({ amount: 1.5, unit: 'L' });
+    expect(toMeasurementSystem(16, 'tbsp', 'imperial').unit).toBe('cup');
+    expect(toMeasurementSystem(2, 'tbsp', 'metric').unit).toBe('tbsp');
+    expect(toMeasurementSystem(24, 'oz', 'imperial')).toEqual({ amount: 1.5, unit: 'lb' });
+  });
+
+  it('moves up a unit at the boundary despite rounding in the unit table', () => {
+    expect(toMeasurementSystem(3, 'tsp', 'imperial')).toEqual({ amount: 1, unit: 'tbsp' });
+    expect(toMeasurementSystem(4, 'tbsp', 'imperial')).toEqual({ amount: 0.25, unit: 'cup' });
+  });
+
+  it('leaves count units alone', () => {
+    expect(toMeasurementSystem(2, 'cans', 'metric')).toEqual({ amount: 2, unit: 'can' });
+  });
+});
+
+describe('rounding', () => {
+  it('rounds to kitchen fractions', () => {
+    expect(formatAmount(1 / 3, 'cup')).toBe('1/3');
+    expect(formatAmount(1.49, 'cup')).toBe('1 1/2');
+    expect(formatAmount(2.97, 'tbsp')).toBe('3');
+    expect(roundAmount(0.7, 'cup')).toBeCloseTo(2 / 3);
+  });
+
+  it('never rounds a real amount to zero', () => {
+    expect(formatAmount(0.01, 'tsp')).toBe('1/8');
+  });
+
+  it('uses tidy decimals for metric units', () => {
+    expect(formatAmount(453.592, 'g')).toBe('455');
+    expect(formatAmount(12.4, 'ml')).toBe('12');
+    expect(formatAmount(2.25, 'g')).toBe('2.3');
+    expect(formatAmount(1.234, 'kg')).toBe('1.23');
+  });
+
+  it('rounds large counts to whole numbers', () => {
+    expect(formatAmount(12.4)).toBe('12');
+    expect(formatAmount(1.5)).toBe('1 1/2');
+  });
+});
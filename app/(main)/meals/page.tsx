@@ -25,6 +25,9 @@ import { MealCardSkeleton, CalendarDaySkeleton, RecipeCardSkeleton, MobileCalend
 import { Meal, Recipe } from '@/lib/services/meals-service';
 import { format, isSameDay, isSameMonth } from 'date-fns';
 import { FeatureGateWrapper } from '@/components/subscription/FeatureGateWrapper';
+import { UseItUpSuggestions } from '@/components/meals/UseItUpSuggestions';
+import { WeeklyNutritionSummary } from '@/components/meals/WeeklyNutritionSummary';
+import { WeeklyMealCost } from '@/components/meals/WeeklyMealCost';
 
 // Hooks
 import { useMealsData } from '@/lib/hooks/useMealsData';
@@ -446,6 +449,13 @@ export default function MealsPage() {
             </Link>
           </CollapsibleStatsGrid>
 
+          {/* Recipes for pantry items about to expire */}
+          <UseItUpSuggestions spaceId={spaceId} recipes={recipes} onPlanMeal={handlePlanMealFromRecipe} />
+
+          {/* Planned nutrition for the week in view */}
+          <WeeklyNutritionSummary meals={meals} currentWeek={currentWeek} />
+          <WeeklyMealCost spaceId={spaceId} meals={meals} currentWeek={currentWeek} />
+
           {/* Search Bar - No container box on mobile */}
           <div className="sm:bg-gray-800 sm:border sm:border-gray-700 sm:rounded-xl sm:p-4">
             <div className="apple-search-container meals-search">
@@ -0,0 +1,272 @@
+'use client';
+
+// Force dynamic rendering to prevent useContext errors during static generation
+export const dynamic = 'force-dynamic';
+
+import { useMemo, useState, useCallback } from 'react';
+import { Refrigerator, Plus, ScanLine, Search, X } from 'lucide-react';
+import { EmptyState } from '@/components/shared/EmptyState';
+import { FeatureLayout } from '@/components/layout/FeatureLayout';
+import PageErrorBoundary from '@/components/shared/PageErrorBoundary';
+import { FeatureGateWrapper } from '@/components/subscription/FeatureGateWrapper';
+import { PantryItemModal } from '@/components/pantry/PantryItemModal';
+import { PantryItemRow } from '@/components/pantry/PantryItemRow';
+import { BarcodeScanModal } from '@/components/pantry/BarcodeScanModal';
+import { useAuthWithSpaces } from '@/lib/hooks/useAuthWithSpaces';
+import { usePantryItems } from '@/lib/hooks/usePantryItems';
+import {
+  pantryService,
+  PANTRY_LOCATIONS,
+  type BarcodeProduct,
+  type CreatePantryItemInput,
+  type PantryItem,
+  type PantryLocation,
+} from '@/lib/services/pantry-service';
+import { getExpiryStatus } from '@/lib/utils/pantry-helpers';
+import { showError, showSuccess } from '@/lib/utils/toast';
+import { logger } from '@/lib/logger';
+
+export default function PantryPage() {
+  const { currentSpace } = useAuthWithSpaces();
+  const spaceId = currentSpace?.id;
+  const { items, loading, invalidatePantry } = usePantryItems(spaceId);
+
+  const [searchQuery, setSearchQuery] = useState('');
+  const [locationFilter, setLocationFilter] = useState<PantryLocation | 'all'>('all');
+  const [isItemModalOpen, setIsItemModalOpen] = useState(false);
+  const [isScanModalOpen, setIsScanModalOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<PantryItem | null>(null);
+  const [scannedProduct, setScannedProduct] = useState<BarcodeProduct | null>(null);
+
+  const useSoonCount = useMemo(
+    () => items.filter((item) => ['expiring', 'expired'].includes(getExpiryStatus(item))).length,
+    [items]
+  );
+
+  const groupedItems = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    const visible = items.filter((item) =>
+      (locationFilter === 'all' || item.location === locationFilter) &&
+      (!query || item.name.toLowerCase().includes(query))
+    );
+    return PANTRY_LOCATIONS
+      .map((location) => ({ ...location, items: visible.filter((item) => item.location === location.value) }))
+      .filter((group) => group.items.length > 0);
+  }, [items, searchQuery, locationFilter]);
+
+  // ─── Modals ─────────────────────────────────────────────────────────────────
+
+  const handleOpenAdd = useCallback(() => {
+    setEditingItem(null);
+    setScannedProduct(null);
+    setIsItemModalOpen(true);
+  }, []);
+
+  const handleEdit = useCallback((item: PantryItem) => {
+    setEditingItem(item);
+    setScannedProduct(null);
+    setIsItemModalOpen(true);
+  }, []);
+
+  const handleScanned = useCallback((product: BarcodeProduct) => {
+    setIsScanModalOpen(false);
+    setEditingItem(null);
+    setScannedProduct(product);
+    setIsItemModalOpen(true);
+  }, []);
+
+  const handleCloseItemModal = useCallback(() => {
+    setIsItemModalOpen(false);
+    setEditingItem(null);
+    setScannedProduct(null);
+  }, []);
+
+  // ─── Mutations ──────────────────────────────────────────────────────────────
+
+  const handleSave = useCallback(async (input: Omit<CreatePantryItemInput, 'space_id'>) => {
+    if (!spaceId) return;
+    try {
+      if (editingItem) {
+        const { source: _source, ...updates } = input;
+        await pantryService.updateItem(editingItem.id, updates);
+      } else {
+        await pantryService.createItem({ ...input, space_id: spaceId });
+        showSuccess(`Added ${input.name} to the pantry`);
+      }
+      invalidatePantry();
+    } catch (error) {
+      logger.error('Failed to save pantry item:', error, { component: 'PantryPage', action: 'save' });
+      showError('Could not save the item. Please try again.');
+      throw error;
+    }
+  }, [spaceId, editingItem, invalidatePantry]);
+
+  const handleUseOne = useCallback(async (item: PantryItem) => {
+    try {
+      await pantryService.consumeItem(item, 1);
+      invalidatePantry();
+    } catch (error) {
+      logger.error('Failed to update pantry item:', error, { component: 'PantryPage', action: 'consume' });
+      showError('Could not update the item.');
+    }
+  }, [invalidatePantry]);
+
+  const handleRemove = useCallback(async (item: PantryItem) => {
+    try {
+      await pantryService.deleteItem(item.id);
+      invalidatePantry();
+    } catch (error) {
+      logger.error('Failed to remove pantry item:', error, { component: 'PantryPage', action: 'delete' });
+      showError('Could not remove the item.');
+    }
+  }, [invalidatePantry]);
+
+  return (
+    <FeatureGateWrapper
+      feature="mealPlanning"
+      title="Pantry"
+      description="Keep track of what is already at home so shopping lists only include what you need. Upgrade to Pro to unlock this feature."
+    >
+    <FeatureLayout breadcrumbItems={[{ label: 'Dashboard', href: '/dashboard' }, { label: 'Pantry' }]}>
+      <PageErrorBoundary>
+        <div className="p-4 sm:p-6 md:p-8 lg:p-5">
+        <div className="max-w-7xl mx-auto space-y-4 sm:space-y-6 md:space-y-8">
+          <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+            <div className="flex flex-row items-center gap-3 sm:gap-4">
+              <div className="w-10 h-10 sm:w-12 sm:h-12 rounded-lg bg-teal-500 flex items-center justify-center flex-shrink-0">
+                <Refrigerator className="w-5 h-5 sm:w-6 sm:h-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-xl sm:text-3xl md:text-3xl lg:text-4xl font-bold text-white">Pantry</h1>
+                <p className="text-sm sm:text-base text-gray-400">
+                  {useSoonCount > 0
+                    ? `${items.length} items • ${useSoonCount} to use soon`
+                    : 'What you already have at home'}
+                </p>
+              </div>
+            </div>
+            <div className="flex w-full sm:w-auto gap-2">
+              <button
+                onClick={() => setIsScanModalOpen(true)}
+                className="flex-1 sm:flex-none px-5 py-2.5 sm:py-3 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-full transition-colors flex items-center justify-center gap-2 font-medium"
+              >
+                <ScanLine className="w-5 h-5" />
+                Scan
+              </button>
+              <button
+                onClick={handleOpenAdd}
+                className="flex-1 sm:flex-none px-5 py-2.5 sm:px-6 sm:py-3 bg-emerald-500 hover:bg-emerald-600 text-white rounded-full transition-colors flex items-center justify-center gap-2 font-medium shadow-md"
+              >
+                <Plus className="w-5 h-5" />
+                Add Item
+              </button>
+            </div>
+          </div>
+
+          <div className="apple-search-container shopping-search group">
+            <Search className="apple-search-icon" />
+            <input
+              type="search"
+              inputMode="search"
+              autoComplete="off"
+              placeholder="Search pantry..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="apple-search-input"
+            />
+            {searchQuery && (
+              <button
+                onClick={() => setSearchQuery('')}
+                className="apple-search-clear visible"
+                aria-label="Clear search"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
+          <div className="bg-gray-800 border border-gray-700 rounded-xl p-3 sm:p-5 md:p-6">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+              <h2 className="text-lg sm:text-xl font-bold text-white">On Hand ({items.length})</h2>
+              <div className="flex-shrink-0">
+                <div className="bg-gray-900/80 border border-emerald-700/50 rounded-full p-0.5 flex gap-0.5">
+                  {[{ value: 'all' as const, label: 'All' }, ...PANTRY_LOCATIONS].map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setLocationFilter(option.value)}
+                      className={`flex-1 sm:flex-none px-3 py-1 text-[11px] font-medium rounded-full transition-all whitespace-nowrap active:scale-[0.97] ${
+                        locationFilter === option.value
+                          ? 'bg-emerald-500 text-white shadow-sm'
+                          : 'text-gray-400 hover:text-gray-200'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {loading ? (
+              <div className="space-y-2">
+                {[...Array(5)].map((_, i) => (
+                  <div key={i} className="h-16 bg-gray-900/50 rounded-lg animate-pulse" />
+                ))}
+              </div>
+            ) : groupedItems.length === 0 ? (
+              <EmptyState
+                icon={Refrigerator}
+                title={items.length === 0 ? 'Your pantry is empty' : 'No matching items'}
+                description={items.length === 0
+                  ? 'Items you check off on shopping lists land here. You can also add or scan them.'
+                  : 'Try a different search or location.'}
+                action={items.length === 0 ? { label: 'Add Item', onClick: handleOpenAdd } : undefined}
+              />
+            ) : (
+              <div className="space-y-6">
+                {groupedItems.map((group) => (
+                  <section key={group.value}>
+                    <h3 className="text-sm font-semibold text-gray-300 mb-2">
+                      {group.icon} {group.label} ({group.items.length})
+                    </h3>
+                    <div className="space-y-2">
+                      {group.items.map((item) => (
+                        <PantryItemRow
+                          key={item.id}
+                          item={item}
+                          onUseOne={handleUseOne}
+                          onEdit={handleEdit}
+                          onRemove={handleRemove}
+                        />
+                      ))}
+                    </div>
+                  </section>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+        </div>
+
+        {spaceId && (
+          <>
+            <PantryItemModal
+              isOpen={isItemModalOpen}
+              onClose={handleCloseItemModal}
+              onSave={handleSave}
+              editItem={editingItem}
+              scannedProduct={scannedProduct}
+            />
+            <BarcodeScanModal
+              isOpen={isScanModalOpen}
+              onClose={() => setIsScanModalOpen(false)}
+              spaceId={spaceId}
+              onProduct={handleScanned}
+            />
+          </>
+        )}
+      </PageErrorBoundary>
+    </FeatureLayout>
+    </FeatureGateWrapper>
+  );
+}
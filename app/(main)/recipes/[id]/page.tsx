@@ -2,9 +2,14 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
-import { ArrowLeft, Clock, Users, ChefHat, ExternalLink, Trash2, Loader2, Calendar, ShoppingCart } from 'lucide-react';
+import { ArrowLeft, Clock, Users, ChefHat, ExternalLink, Trash2, Loader2, Calendar, ShoppingCart, Minus, Plus, Wallet } from 'lucide-react';
 import { mealsService, type Recipe } from '@/lib/services/meals-service';
 import { shoppingService } from '@/lib/services/shopping-service';
+import { getServingsScale, scaleRecipeIngredient } from '@/lib/services/ingredient-parser';
+import { MEASUREMENT_SYSTEMS, type MeasurementSystem } from '@/lib/utils/units';
+import { NUTRIENTS, formatNutrient, getRecipeNutrition } from '@/lib/utils/nutrition';
+import { estimateRecipeCost } from '@/lib/utils/price-helpers';
+import { usePriceBook } from '@/lib/hooks/usePriceBook';
 import { useAuthWithSpaces } from '@/lib/hooks/useAuthWithSpaces';
 import { ConfirmDialog } from '@/components/shared/ConfirmDialog';
 import { toast } from 'sonner';
@@ -17,12 +22,15 @@ export default function RecipeDetailPage() {
   const params = useParams();
   const recipeId = params?.id as string;
   const { currentSpace } = useAuthWithSpaces();
+  const { priceBook } = usePriceBook(currentSpace?.id);
 
   const [recipe, setRecipe] = useState<Recipe | null>(null);
   const [loading, setLoading] = useState(true);
   const [deleting, setDeleting] = useState(false);
   const [addingToShoppingList, setAddingToShoppingList] = useState(false);
   const [confirmDialog, setConfirmDialog] = useState(false);
+  const [servings, setServings] = useState<number | null>(null);
+  const [measurementSystem, setMeasurementSystem] = useState<MeasurementSystem | undefined>(undefined);
 
   type RawIngredient = string | { name?: string; amount?: string | number; unit?: string };
   type RecipeIngredient = { name: string; amount?: string; unit?: string };
@@ -32,6 +40,7 @@ export default function RecipeDetailPage() {
       try {
         const data = await mealsService.getRecipeById(recipeId);
         setRecipe(data);
+        setServings(data?.servings ?? null);
       } catch (error) {
         logger.error('Failed to load recipe:', error, { component: 'page', action: 'execution' });
       } finally {
@@ -44,6 +53,28 @@ export default function RecipeDetailPage() {
     }
   }, [recipeId]);
 
+  useEffect(() => {
+    if (!currentSpace) return;
+    mealsService.getMeasurementSystem(currentSpace.id)
+      .then(setMeasurementSystem)
+      .catch((error) => {
+        logger.error('Failed to load measurement system:', error, { component: 'page', action: 'execution' });
+      });
+  }, [currentSpace]);
+
+  const handleMeasurementSystemChange = async (system: MeasurementSystem) => {
+    if (!currentSpace || system === measurementSystem) return;
+    const previous = measurementSystem;
+    setMeasurementSystem(system);
+    try {
+      await mealsService.setMeasurementSystem(currentSpace.id, system);
+    } catch (error) {
+      logger.error('Failed to save measurement system:', error, { component: 'page', action: 'execution' });
+      toast.error('Failed to save measurement preference');
+      setMeasurementSystem(previous);
+    }
+  };
+
   const handleDelete = async () => {
     setConfirmDialog(true);
   };
@@ -72,10 +103,13 @@ export default function RecipeDetailPage() {
     setAddingToShoppingList(true);
     try {
       // Create shopping list with recipe name
+      const scaled = servings && recipe.servings && servings !== recipe.servings;
       const list = await shoppingService.createList({
         space_id: currentSpace.id,
         title: `${recipe.name} Ingredients`,
-        description: `Ingredients for ${recipe.name}`,
+        description: scaled
+          ? `Ingredients for ${recipe.name} (${servings} servings)`
+          : `Ingredients for ${recipe.name}`,
         status: 'active',
       });
 
@@ -84,9 +118,7 @@ export default function RecipeDetailPage() {
       if (ingredients.length > 0) {
         await Promise.all(
           ingredients.map((ingredient) => {
-            const itemName = ingredient.amount && ingredient.unit
-              ? `${ingredient.amount} ${ingredient.unit} ${ingredient.name}`
-              : ingredient.name;
+            const itemName = [ingredient.amount, ingredient.unit, ingredient.name].filter(Boolean).join(' ');
 
             return shoppingService.createItem({
               list_id: list.id,
@@ -107,17 +139,19 @@ export default function RecipeDetailPage() {
     }
   };
 
-  // Parse ingredients to handle both string and object formats
+  // Parse ingredients (string or object format), scaled to the chosen servings
+  // and shown in the space's measurement system
   const parseIngredients = (): RecipeIngredient[] => {
     if (!recipe || !recipe.ingredients) return [];
+    const factor = getServingsScale(recipe.servings, servings);
     return recipe.ingredients.map((ingredient: RawIngredient) => {
-      if (typeof ingredient === 'string') {
-        return { name: ingredient };
-      }
-
-      const name = ingredient?.name?.trim() || '';
-      const amount = ingredient?.amount !== undefined ? String(ingredient.amount).trim() : '';
-      const unit = ingredient?.unit?.trim() || '';
+      const { name, amount, unit } = scaleRecipeIngredient(
+        typeof ingredient === 'string'
+          ? ingredient
+          : { name: ingredient?.name?.trim() || '', amount: ingredient?.amount, unit: ingredient?.unit?.trim() },
+        factor,
+        measurementSystem
+      );
       return {
         name: name || [amount, unit].filter(Boolean).join(' ') || 'Ingredient',
         amount: amount || undefined,
@@ -159,6 +193,8 @@ export default function RecipeDetailPage() {
   }
 
   const ingredients = parseIngredients();
+  const nutrition = getRecipeNutrition(recipe);
+  const cost = estimateRecipeCost(recipe, priceBook);
   const safeImageUrl = recipe.image_url ? sanitizeUrl(recipe.image_url) : '';
   const safeSourceUrl = recipe.source_url ? sanitizeUrl(recipe.source_url) : '';
 
@@ -178,7 +214,35 @@ export default function RecipeDetailPage() {
             <h1 className="text-2xl font-bold">Recipe Details</h1>
           </div>
 
-          {/* Action Buttons */}
+          {/* Nutrition */}
+        {nutrition && (
+          <div className="mt-8 bg-gray-800 rounded-xl shadow-md p-6">
+            <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+              <h3 className="text-xl font-semibold text-white">
+                Nutrition
+              </h3>
+              <span className="text-sm text-gray-400">
+                {nutrition.servings ? 'Per serving' : 'Whole recipe'}
+                {nutrition.source === 'estimated' && ' · estimated from ingredients'}
+              </span>
+            </div>
+            <dl className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+              {NUTRIENTS.filter(({ key }) => nutrition.nutrition[key] !== undefined).map(({ key, label, unit }) => (
+                <div key={key} className="p-3 bg-gray-900/50 border border-gray-700 rounded-lg">
+                  <dt className="text-xs text-gray-400">{label}</dt>
+                  <dd className="text-base font-semibold text-white">{formatNutrient(nutrition.nutrition[key], unit)}</dd>
+                </div>
+              ))}
+            </dl>
+            {nutrition.unmatched.length > 0 && (
+              <p className="mt-4 text-xs text-gray-500">
+                Not counted: {nutrition.unmatched.join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Action Buttons */}
           <div className="flex items-center gap-3">
             {safeSourceUrl && (
               <a
@@ -260,7 +324,40 @@ export default function RecipeDetailPage() {
             <div className="flex items-center gap-2 text-gray-400">
               <Users className="w-5 h-5" />
               <span className="font-medium">Servings:</span>
-              <span>{recipe.servings}</span>
+              <button
+                onClick={() => setServings((current) => Math.max(1, (current ?? recipe.servings ?? 1) - 1))}
+                disabled={(servings ?? recipe.servings) <= 1}
+                className="p-1 rounded-full bg-gray-700 hover:bg-gray-600 disabled:opacity-40 transition-colors"
+                aria-label="Fewer servings"
+              >
+                <Minus className="w-4 h-4" />
+              </button>
+              <span className="min-w-[1.5rem] text-center text-white">{servings ?? recipe.servings}</span>
+              <button
+                onClick={() => setServings((current) => Math.min(100, (current ?? recipe.servings ?? 1) + 1))}
+                disabled={(servings ?? recipe.servings) >= 100}
+                className="p-1 rounded-full bg-gray-700 hover:bg-gray-600 disabled:opacity-40 transition-colors"
+                aria-label="More servings"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+          {cost.priced > 0 && (
+            <div
+              className="flex items-center gap-2 text-gray-400"
+              title={cost.unpriced.length > 0 ? `No price yet for: ${cost.unpriced.join(', ')}` : 'Estimated from past prices'}
+            >
+              <Wallet className="w-5 h-5" />
+              <span className="font-medium">Est. cost:</span>
+              {cost.perServing !== null ? (
+                <span>
+                  ${cost.perServing.toFixed(2)}/serving (${(cost.perServing * (servings ?? recipe.servings ?? 1)).toFixed(2)})
+                </span>
+              ) : (
+                <span>${cost.total.toFixed(2)}</span>
+              )}
+              {cost.unpriced.length > 0 && <span className="text-xs text-gray-500">+ {cost.unpriced.length} unpriced</span>}
             </div>
           )}
         </div>
@@ -300,17 +397,35 @@ export default function RecipeDetailPage() {
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Ingredients */}
           <div className="bg-gray-800 rounded-xl shadow-md p-6">
-            <h3 className="text-xl font-semibold text-white mb-4">
-              Ingredients
-            </h3>
+            <div className="flex items-center justify-between gap-3 mb-4">
+              <h3 className="text-xl font-semibold text-white">
+                Ingredients
+              </h3>
+              {measurementSystem && (
+                <div className="flex rounded-lg bg-gray-900 p-1" role="group" aria-label="Measurement system">
+                  {MEASUREMENT_SYSTEMS.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      onClick={() => handleMeasurementSystemChange(value)}
+                      aria-pressed={measurementSystem === value}
+                      className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                        measurementSystem === value ? 'bg-orange-600 text-white' : 'text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
             <ul className="space-y-3">
               {ingredients.map((ingredient, idx: number) => (
                 <li key={idx} className="flex items-start gap-3">
                   <span className="w-2 h-2 bg-orange-500 rounded-full mt-2 flex-shrink-0" />
                   <span className="text-gray-300">
-                    {ingredient.amount && ingredient.unit ? (
+                    {ingredient.amount ? (
                       <>
-                        <span className="font-medium">{ingredient.amount} {ingredient.unit}</span>{' '}
+                        <span className="font-medium">{[ingredient.amount, ingredient.unit].filter(Boolean).join(' ')}</span>{' '}
                         {ingredient.name}
                       </>
                     ) : (
@@ -339,6 +454,34 @@ export default function RecipeDetailPage() {
           </div>
         </div>
 
+        {/* Nutrition */}
+        {nutrition && (
+          <div className="mt-8 bg-gray-800 rounded-xl shadow-md p-6">
+            <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+              <h3 className="text-xl font-semibold text-white">
+                Nutrition
+              </h3>
+              <span className="text-sm text-gray-400">
+                {nutrition.servings ? 'Per serving' : 'Whole recipe'}
+                {nutrition.source === 'estimated' && ' · estimated from ingredients'}
+              </span>
+            </div>
+            <dl className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+              {NUTRIENTS.filter(({ key }) => nutrition.nutrition[key] !== undefined).map(({ key, label, unit }) => (
+                <div key={key} className="p-3 bg-gray-900/50 border border-gray-700 rounded-lg">
+                  <dt className="text-xs text-gray-400">{label}</dt>
+                  <dd className="text-base font-semibold text-white">{formatNutrient(nutrition.nutrition[key], unit)}</dd>
+                </div>
+              ))}
+            </dl>
+            {nutrition.unmatched.length > 0 && (
+              <p className="mt-4 text-xs text-gray-500">
+                Not counted: {nutrition.unmatched.join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="mt-8 flex flex-col sm:flex-row justify-center gap-4">
           <button
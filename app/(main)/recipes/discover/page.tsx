@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Search, Plus, ExternalLink, Loader2, ChefHat, Clock, Users, Calendar, X } from 'lucide-react';
 import { useAuthWithSpaces } from '@/lib/hooks/useAuthWithSpaces';
 import { QuickPlanModal } from '@/components/meals/QuickPlanModal';
@@ -10,12 +10,15 @@ import {
   searchExternalRecipes,
   getRandomRecipes,
   searchByCuisine,
+  excludeDietaryConflicts,
   SUPPORTED_CUISINES,
   type ExternalRecipe
 } from '@/lib/services/external-recipes-service';
 import { mealsService } from '@/lib/services/meals-service';
+import { dietaryProfileService, type MemberDietaryProfile } from '@/lib/services/dietary-profile-service';
+import { describeDietaryConflicts } from '@/lib/utils/dietary-helpers';
 import { useDebouncedCallback } from 'use-debounce';
-import { showSuccess, showError, showInfo } from '@/lib/utils/toast';
+import { showSuccess, showError, showInfo, showWarning } from '@/lib/utils/toast';
 import { sanitizeUrl } from '@/lib/sanitize';
 
 export default function DiscoverRecipesPage() {
@@ -32,6 +35,14 @@ export default function DiscoverRecipesPage() {
   const [isQuickPlanOpen, setIsQuickPlanOpen] = useState(false);
   const [previewRecipe, setPreviewRecipe] = useState<ExternalRecipe | null>(null);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [dietaryProfiles, setDietaryProfiles] = useState<MemberDietaryProfile[]>([]);
+  const [showConflicting, setShowConflicting] = useState(false);
+
+  const visibleRecipes = useMemo(
+    () => (showConflicting ? recipes : excludeDietaryConflicts(recipes, dietaryProfiles)),
+    [recipes, dietaryProfiles, showConflicting]
+  );
+  const hiddenCount = recipes.length - visibleRecipes.length;
 
   const notifySpaceIssue = useCallback(() => {
     if (isSpaceLoading) {
@@ -52,6 +63,16 @@ export default function DiscoverRecipesPage() {
     loadRandomRecipes();
   }, []);
 
+  // Household dietary profiles, used to hide recipes someone can't eat
+  useEffect(() => {
+    if (!spaceId) return;
+    dietaryProfileService.getSpaceProfiles(spaceId)
+      .then(setDietaryProfiles)
+      .catch((error) => {
+        logger.error('Failed to load dietary profiles:', error, { component: 'page', action: 'execution' });
+      });
+  }, [spaceId]);
+
   const loadRandomRecipes = async () => {
     setLoading(true);
     try {
@@ -166,7 +187,10 @@ export default function DiscoverRecipesPage() {
         notes: '',
       };
 
-      await mealsService.createMeal(mealData);
+      const meal = await mealsService.createMeal(mealData);
+      if (meal.dietary_conflicts?.length) {
+        showWarning(`Check the menu: ${describeDietaryConflicts(meal.dietary_conflicts)}`);
+      }
 
       // Create shopping list if requested
       if (createShoppingList && planningRecipe.ingredients.length > 0) {
@@ -405,10 +429,27 @@ export default function DiscoverRecipesPage() {
           </div>
         )}
 
+        {/* Recipes hidden for household dietary profiles */}
+        {!loading && (hiddenCount > 0 || (showConflicting && dietaryProfiles.length > 0)) && (
+          <div className="flex items-center justify-between gap-3 mb-6 px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-sm text-gray-300">
+            <span>
+              {showConflicting
+                ? 'Showing recipes that conflict with household dietary profiles'
+                : `${hiddenCount} recipe${hiddenCount === 1 ? '' : 's'} hidden for household allergies and diets`}
+            </span>
+            <button
+              onClick={() => setShowConflicting((current) => !current)}
+              className="text-orange-400 hover:text-orange-300 font-medium whitespace-nowrap"
+            >
+              {showConflicting ? 'Hide them' : 'Show all'}
+            </button>
+          </div>
+        )}
+
         {/* Results Grid */}
-        {!loading && recipes.length > 0 && (
+        {!loading && visibleRecipes.length > 0 && (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {recipes.map((recipe) => {
+            {visibleRecipes.map((recipe) => {
               const safeImageUrl = recipe.image_url ? sanitizeUrl(recipe.image_url) : '';
               const safeSourceUrl = recipe.source_url ? sanitizeUrl(recipe.source_url) : '';
 
@@ -550,7 +591,7 @@ export default function DiscoverRecipesPage() {
         )}
 
         {/* Empty State */}
-        {!loading && recipes.length === 0 && (
+        {!loading && visibleRecipes.length === 0 && (
           <div className="text-center py-12">
             <ChefHat className="w-16 h-16 text-gray-400 mx-auto mb-4" />
             <h3 className="text-xl font-semibold text-white mb-2">
@@ -52,6 +52,14 @@ const AnalyticsTab = nextDynamic(
   () => import('@/components/settings/AnalyticsTab'),
   { loading: TabLoader }
 );
+const AssistantMemoryTab = nextDynamic(
+  () => import('@/components/settings/AssistantMemoryTab').then(m => ({ default: m.AssistantMemoryTab })),
+  { loading: TabLoader }
+);
+const AssistantRoutinesTab = nextDynamic(
+  () => import('@/components/settings/AssistantRoutinesTab').then(m => ({ default: m.AssistantRoutinesTab })),
+  { loading: TabLoader }
+);
 import {
   Settings,
   User,
@@ -63,9 +71,11 @@ import {
   Link2,
   BookOpen,
   BarChart3,
+  Brain,
+  Repeat,
 } from 'lucide-react';
 
-type SettingsTab = 'profile' | 'subscription' | 'security' | 'notifications' | 'privacy-data' | 'data-management' | 'integrations' | 'documentation' | 'analytics';
+type SettingsTab = 'profile' | 'subscription' | 'security' | 'notifications' | 'privacy-data' | 'data-management' | 'integrations' | 'assistant-memory' | 'assistant-routines' | 'documentation' | 'analytics';
 
 const tabs = [
   { id: 'profile' as SettingsTab, name: 'Profile & Spaces', icon: User, description: 'Manage your personal information and spaces' },
@@ -75,6 +85,8 @@ const tabs = [
   { id: 'privacy-data' as SettingsTab, name: 'Privacy & Compliance', icon: Eye, description: 'Privacy settings and compliance' },
   { id: 'data-management' as SettingsTab, name: 'Data Management', icon: Database, description: 'Storage usage and file management' },
   { id: 'integrations' as SettingsTab, name: 'Integrations', icon: Link2, description: 'Connect external calendars' },
+  { id: 'assistant-memory' as SettingsTab, name: 'Assistant Memory', icon: Brain, description: 'What the AI assistant remembers' },
+  { id: 'assistant-routines' as SettingsTab, name: 'Assistant Routines', icon: Repeat, description: 'Scheduled assistant jobs and drafts to review' },
   { id: 'documentation' as SettingsTab, name: 'Feature Manuals', icon: BookOpen, description: 'Browse our guides and tutorials' },
   { id: 'analytics' as SettingsTab, name: 'Analytics', icon: BarChart3, description: 'Track productivity trends' },
 ];
@@ -197,6 +209,8 @@ export default function SettingsPage() {
                     {activeTab === 'privacy-data' && <PrivacyDataManager />}
                     {activeTab === 'data-management' && <DataManagementTab />}
                     {activeTab === 'integrations' && <CalendarConnections />}
+                    {activeTab === 'assistant-memory' && <AssistantMemoryTab />}
+                    {activeTab === 'assistant-routines' && <AssistantRoutinesTab />}
                     {activeTab === 'documentation' && <DocumentationTab />}
                     {activeTab === 'analytics' && <AnalyticsTab />}
                   </motion.div>
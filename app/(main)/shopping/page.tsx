@@ -3,7 +3,7 @@
 // Force dynamic rendering to prevent useContext errors during static generation
 export const dynamic = 'force-dynamic';
 
-import { ShoppingCart, Search, Plus, List, CheckCircle2, Clock, Package, X, TrendingUp } from 'lucide-react';
+import { ShoppingCart, Search, Plus, List, CheckCircle2, Clock, Package, X, TrendingUp, Store } from 'lucide-react';
 import { EmptyState } from '@/components/shared/EmptyState';
 import { PullToRefresh } from '@/components/ui/PullToRefresh';
 import { AIContextualHint } from '@/components/ai/AIContextualHint';
@@ -18,12 +18,15 @@ import {
   LazySaveTemplateModal,
   LazyShoppingTemplatePickerModal,
   LazyScheduleTripModal,
+  LazyStoresModal,
   LazyConfirmDialog,
 } from '@/lib/utils/lazy-components';
 
 import { useShoppingData } from '@/lib/hooks/useShoppingData';
 import { useShoppingModals } from '@/lib/hooks/useShoppingModals';
 import { useShoppingHandlers } from '@/lib/hooks/useShoppingHandlers';
+import { usePriceBook } from '@/lib/hooks/usePriceBook';
+import { useStoreLayouts } from '@/lib/hooks/useStoreLayouts';
 
 export default function ShoppingPage() {
   // ─── Hooks ─────────────────────────────────────────────────────────────────
@@ -57,6 +60,9 @@ export default function ShoppingPage() {
     searchQuery, isSearchTyping, statusFilter, timeFilter, filteredLists,
   } = data;
 
+  const { priceBook } = usePriceBook(data.spaceId);
+  const { layouts: storeLayouts, invalidateStores } = useStoreLayouts(data.spaceId);
+
   const {
     isModalOpen, editingList, showTemplatePicker, showTemplateModal,
     listForTemplate, showScheduleTripModal, listToSchedule, confirmDialog,
@@ -67,8 +73,8 @@ export default function ShoppingPage() {
 
   const {
     handleCreateList, handleDeleteList, handleConfirmDelete, handleCompleteList,
-    handleToggleItem, handleUpdateQuantity, handleSelectTemplate,
-    handleSaveTemplate, handleScheduleTripSubmit, handleCreateTask,
+    handleToggleItem, handleUpdateQuantity, handleUpdatePrice, handleSelectTemplate,
+    handleSaveTemplate, handleScheduleTripSubmit, handleCreateTask, handleRemindAtStore,
     handleSearchChange, handleClearSearch,
     handleTotalListsClick, handleActiveListsClick, handleItemsThisWeekClick,
     handleCompletedListsClick,
@@ -90,10 +96,19 @@ export default function ShoppingPage() {
                 <p className="text-sm sm:text-base text-gray-400">Collaborative shopping made easy</p>
               </div>
             </div>
-            <button onClick={handleOpenNewListModal} className="w-full sm:w-auto px-5 py-2.5 sm:px-6 sm:py-3 bg-emerald-500 hover:bg-emerald-600 text-white rounded-full transition-colors flex items-center justify-center gap-2 font-medium shadow-md">
-              <Plus className="w-5 h-5" />
-              New Shopping List
-            </button>
+            <div className="flex w-full sm:w-auto items-center gap-2 sm:gap-3">
+              <button
+                onClick={() => modals.setShowStoresModal(true)}
+                className="px-4 py-2.5 sm:px-5 sm:py-3 bg-gray-800 border border-gray-700 hover:bg-gray-700 text-gray-200 rounded-full transition-colors flex items-center justify-center gap-2 font-medium"
+              >
+                <Store className="w-5 h-5" />
+                Stores
+              </button>
+              <button onClick={handleOpenNewListModal} className="flex-1 sm:flex-none px-5 py-2.5 sm:px-6 sm:py-3 bg-emerald-500 hover:bg-emerald-600 text-white rounded-full transition-colors flex items-center justify-center gap-2 font-medium shadow-md">
+                <Plus className="w-5 h-5" />
+                New Shopping List
+              </button>
+            </div>
           </div>
 
           {/* Stats Dashboard */}
@@ -326,7 +341,11 @@ export default function ShoppingPage() {
                     onSaveAsTemplate={handleSaveAsTemplate}
                     onScheduleTrip={handleScheduleTrip}
                     onCreateTask={handleCreateTask}
+                    onRemindAtStore={handleRemindAtStore}
                     onUpdateQuantity={handleUpdateQuantity}
+                    onUpdatePrice={handleUpdatePrice}
+                    priceBook={priceBook}
+                    storeLayouts={storeLayouts}
                   />
                 ))}
               </div>
@@ -368,6 +387,13 @@ export default function ShoppingPage() {
               list={listToSchedule}
             />
           )}
+          <LazyStoresModal
+            isOpen={modals.showStoresModal}
+            onClose={() => modals.setShowStoresModal(false)}
+            onChange={invalidateStores}
+            spaceId={currentSpace.id}
+            layouts={storeLayouts}
+          />
         </>
       )}
 
@@ -29,6 +29,7 @@ import {
 } from '@/lib/services/ai/ai-privacy-service';
 import { sanitizeUserInput } from '@/lib/services/ai/ai-input-sanitizer';
 import { aiContextService } from '@/lib/services/ai/ai-context-service';
+import { proposeMemoriesFromMessage } from '@/lib/services/ai/memory-service';
 import type { AIToolCall, AIToolResult } from '@/lib/types/ai';
 
 export const maxDuration = 60; // Allow up to 60s for AI responses
@@ -141,7 +142,7 @@ export async function POST(req: NextRequest) {
     const messageForLLM = piiResult.hasPII ? redactPII(safeMessage) : safeMessage;
 
     // -- Build space context for system prompt ----------------------------
-    const rawSpaceContext = await aiContextService.buildFullContext(supabase, spaceId, user);
+    const rawSpaceContext = await aiContextService.buildFullContext(supabase, spaceId, user, safeMessage);
     const spaceContext = sanitizeContextForLLM(rawSpaceContext);
 
     // -- Stream response via SSE ------------------------------------------
@@ -163,6 +164,10 @@ export async function POST(req: NextRequest) {
           })}\n\n`;
           controller.enqueue(encoder.encode(idEvent));
 
+          // Every write in this turn is journaled under turnId so it can be undone
+          const turnId = crypto.randomUUID();
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'turn_id', data: turnId })}\n\n`));
+
           // Warn about PII if detected (non-blocking)
           if (piiResult.hasPII && piiResult.warningMessage) {
             const piiWarning = `data: ${JSON.stringify({
@@ -175,7 +180,12 @@ export async function POST(req: NextRequest) {
           const events = chatOrchestratorService.processMessage({
             message: messageForLLM,
             conversationId: activeConversationId,
-            context: { spaceId, userId: user.id, supabase },
+            context: {
+              spaceId,
+              userId: user.id,
+              supabase,
+              journal: { conversationId: activeConversationId, turnId },
+            },
             spaceContext,
           });
 
@@ -215,6 +225,18 @@ export async function POST(req: NextRequest) {
               error: err instanceof Error ? err.message : String(err),
             });
           });
+
+          // -- Propose memories from durable facts (fire-and-forget) -------
+          // Proposals wait for the user's approval in settings
+          if (!piiResult.hasPII) {
+            void proposeMemoriesFromMessage(supabase, {
+              spaceId,
+              userId: user.id,
+              conversationId: activeConversationId,
+              message: safeMessage,
+              members: rawSpaceContext.members,
+            });
+          }
         } catch (error) {
           logger.error('[API] /api/ai/chat stream error:', error, {
             component: 'api-route',
@@ -2,7 +2,8 @@
  * AI Data Management — Export and Delete user AI data
  *
  * GET  /api/ai/data — Export all AI conversations + messages as JSON
- * DELETE /api/ai/data — Delete all AI conversations, messages, and usage for the user
+ * DELETE /api/ai/data — Delete all AI conversations, messages, usage, and
+ *   assistant memories added by or about the user
  *
  * Both operations are user-scoped (RLS enforced) and require authentication.
  */
@@ -12,6 +13,7 @@ import { createClient } from '@/lib/supabase/server';
 import { logger } from '@/lib/logger';
 import { checkGeneralRateLimit } from '@/lib/ratelimit';
 import { extractIP } from '@/lib/ratelimit-fallback';
+import { deleteUserMemories } from '@/lib/services/ai/ai-privacy-service';
 
 export const dynamic = 'force-dynamic';
 
@@ -79,6 +81,13 @@ export async function GET(req: NextRequest) {
       .eq('user_id', user.id)
       .order('date', { ascending: false });
 
+    // Fetch assistant memories added by or about the user
+    const { data: memories } = await supabase
+      .from('ai_memories')
+      .select('id, space_id, subject_user_id, category, content, status, source, approved_at, created_at, updated_at')
+      .or(`created_by.eq.${user.id},subject_user_id.eq.${user.id}`)
+      .order('created_at', { ascending: true });
+
     const exportData = {
       exported_at: new Date().toISOString(),
       user_id: user.id,
@@ -88,6 +97,7 @@ export async function GET(req: NextRequest) {
         messages: messages.filter((m) => m.conversation_id === conv.id),
       })),
       usage_history: usage ?? [],
+      memories: memories ?? [],
       total_conversations: conversations?.length ?? 0,
       total_messages: messages.length,
     };
@@ -162,7 +172,15 @@ export async function DELETE(req: NextRequest) {
       logger.error('[AI Data] Failed to delete usage data', usageError);
     }
 
-    // 4. Reset user settings to defaults (don't delete — just reset)
+    // 4. Delete assistant memories added by or about the user
+    let memoriesDeleted = 0;
+    try {
+      memoriesDeleted = await deleteUserMemories(supabase, user.id);
+    } catch (memoryError) {
+      logger.error('[AI Data] Failed to delete memories', memoryError);
+    }
+
+    // 5. Reset user settings to defaults (don't delete — just reset)
     const { error: settingsError } = await supabase
       .from('ai_user_settings')
       .update({
@@ -183,6 +201,7 @@ export async function DELETE(req: NextRequest) {
       action: 'delete_all',
       userId: user.id,
       conversationsDeleted: conversationIds.length,
+      memoriesDeleted,
     });
 
     return NextResponse.json({
@@ -191,6 +210,7 @@ export async function DELETE(req: NextRequest) {
         conversations: conversationIds.length,
         messages: true,
         usage: true,
+        memories: memoriesDeleted,
         settings_reset: true,
       },
     });
@@ -0,0 +1,65 @@
+/**
+ * POST /api/ai/memories/[id]/approve
+ *
+ * Approve a memory the assistant proposed from a chat, so it is used in
+ * future conversations.
+ */
+
+import { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { featureFlags } from '@/lib/constants/feature-flags';
+import { validateAIAccess, buildAIAccessDeniedResponse } from '@/lib/services/ai/ai-access-guard';
+import { aiContextService } from '@/lib/services/ai/ai-context-service';
+import { AIMemoryError, approveMemory, getMemory } from '@/lib/services/ai/memory-service';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ip = extractIP(req.headers);
+    const { success: rateLimitOk } = await checkGeneralRateLimit(ip);
+    if (!rateLimitOk) {
+      return Response.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+    }
+
+    if (!featureFlags.isAICompanionEnabled()) {
+      return Response.json({ error: 'AI companion is not enabled' }, { status: 403 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // RLS only shows a proposal to the member whose chat produced it
+    const memory = await getMemory(supabase, id);
+
+    const aiAccess = await validateAIAccess(supabase, user.id, memory.space_id, false);
+    if (!aiAccess.allowed) {
+      return buildAIAccessDeniedResponse(aiAccess);
+    }
+
+    const approved = await approveMemory(supabase, id);
+    aiContextService.invalidateSpace(memory.space_id);
+
+    return Response.json({ data: approved });
+  } catch (error) {
+    if (error instanceof AIMemoryError) {
+      return Response.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('[API] /api/ai/memories/[id]/approve POST error:', error, {
+      component: 'api-route',
+      action: 'api_request',
+    });
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * PATCH/DELETE /api/ai/memories/[id]
+ *
+ * Edit an assistant memory, or delete it. Deleting a proposal rejects it.
+ */
+
+import { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+import { verifySpaceAccess } from '@/lib/services/authorization-service';
+import { logger } from '@/lib/logger';
+import { featureFlags } from '@/lib/constants/feature-flags';
+import { validateAIAccess, buildAIAccessDeniedResponse } from '@/lib/services/ai/ai-access-guard';
+import { aiContextService } from '@/lib/services/ai/ai-context-service';
+import {
+  AIMemoryError,
+  deleteMemory,
+  getMemory,
+  updateMemory,
+} from '@/lib/services/ai/memory-service';
+import { MEMORY_CATEGORIES } from '@/lib/types/ai';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+
+export const dynamic = 'force-dynamic';
+
+const updateMemorySchema = z
+  .object({
+    content: z.string().trim().min(1).max(500).optional(),
+    category: z.enum(MEMORY_CATEGORIES).optional(),
+    subjectUserId: z.string().uuid().nullable().optional(),
+  })
+  .refine((value) => Object.keys(value).length > 0);
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ip = extractIP(req.headers);
+    const { success: rateLimitOk } = await checkGeneralRateLimit(ip);
+    if (!rateLimitOk) {
+      return Response.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+    }
+
+    if (!featureFlags.isAICompanionEnabled()) {
+      return Response.json({ error: 'AI companion is not enabled' }, { status: 403 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = updateMemorySchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return Response.json({ error: 'Invalid request' }, { status: 400 });
+    }
+
+    const { id } = await params;
+
+    // RLS hides memories of other spaces and other members' proposals
+    const memory = await getMemory(supabase, id);
+
+    const aiAccess = await validateAIAccess(supabase, user.id, memory.space_id, false);
+    if (!aiAccess.allowed) {
+      return buildAIAccessDeniedResponse(aiAccess);
+    }
+
+    if (parsed.data.subjectUserId) {
+      try {
+        await verifySpaceAccess(parsed.data.subjectUserId, memory.space_id);
+      } catch {
+        return Response.json({ error: 'Access denied' }, { status: 403 });
+      }
+    }
+
+    const updated = await updateMemory(supabase, id, parsed.data);
+    aiContextService.invalidateSpace(memory.space_id);
+
+    return Response.json({ data: updated });
+  } catch (error) {
+    if (error instanceof AIMemoryError) {
+      return Response.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('[API] /api/ai/memories/[id] PATCH error:', error, {
+      component: 'api-route',
+      action: 'api_request',
+    });
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ip = extractIP(req.headers);
+    const { success: rateLimitOk } = await checkGeneralRateLimit(ip);
+    if (!rateLimitOk) {
+      return Response.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // No feature or tier check: members can always remove what the assistant remembers
+    const memory = await getMemory(supabase, id);
+    await deleteMemory(supabase, id);
+    aiContextService.invalidateSpace(memory.space_id);
+
+    return Response.json({ success: true });
+  } catch (error) {
+    if (error instanceof AIMemoryError) {
+      return Response.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('[API] /api/ai/memories/[id] DELETE error:', error, {
+      component: 'api-route',
+      action: 'api_request',
+    });
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * GET/POST /api/ai/memories
+ *
+ * List a space's assistant memories (active ones plus the user's pending
+ * proposals) or add a memory by hand.
+ */
+
+import { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+import { verifySpaceAccess } from '@/lib/services/authorization-service';
+import { logger } from '@/lib/logger';
+import { featureFlags } from '@/lib/constants/feature-flags';
+import { validateAIAccess, buildAIAccessDeniedResponse } from '@/lib/services/ai/ai-access-guard';
+import { aiContextService } from '@/lib/services/ai/ai-context-service';
+import { createMemory, listMemories } from '@/lib/services/ai/memory-service';
+import { MEMORY_CATEGORIES } from '@/lib/types/ai';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+
+export const dynamic = 'force-dynamic';
+
+const createMemorySchema = z.object({
+  spaceId: z.string().uuid(),
+  content: z.string().trim().min(1).max(500),
+  category: z.enum(MEMORY_CATEGORIES).optional(),
+  subjectUserId: z.string().uuid().nullable().optional(),
+});
+
+export async function GET(req: NextRequest) {
+  try {
+    const ip = extractIP(req.headers);
+    const { success: rateLimitOk } = await checkGeneralRateLimit(ip);
+    if (!rateLimitOk) {
+      return Response.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+    }
+
+    if (!featureFlags.isAICompanionEnabled()) {
+      return Response.json({ error: 'AI companion is not enabled' }, { status: 403 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const spaceId = req.nextUrl.searchParams.get('spaceId');
+    if (!spaceId) {
+      return Response.json({ error: 'spaceId is required' }, { status: 400 });
+    }
+
+    try {
+      await verifySpaceAccess(user.id, spaceId);
+    } catch {
+      return Response.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const aiAccess = await validateAIAccess(supabase, user.id, spaceId, false);
+    if (!aiAccess.allowed) {
+      return buildAIAccessDeniedResponse(aiAccess);
+    }
+
+    const memories = await listMemories(supabase, spaceId);
+    return Response.json({ data: memories });
+  } catch (error) {
+    logger.error('[API] /api/ai/memories GET error:', error, {
+      component: 'api-route',
+      action: 'api_request',
+    });
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const ip = extractIP(req.headers);
+    const { success: rateLimitOk } = await checkGeneralRateLimit(ip);
+    if (!rateLimitOk) {
+      return Response.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+    }
+
+    if (!featureFlags.isAICompanionEnabled()) {
+      return Response.json({ error: 'AI companion is not enabled' }, { status: 403 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = createMemorySchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return Response.json({ error: 'Invalid request' }, { status: 400 });
+    }
+
+    const { spaceId, content, category, subjectUserId } = parsed.data;
+
+    try {
+      await verifySpaceAccess(user.id, spaceId);
+      if (subjectUserId) await verifySpaceAccess(subjectUserId, spaceId);
+    } catch {
+      return Response.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const aiAccess = await validateAIAccess(supabase, user.id, spaceId, false);
+    if (!aiAccess.allowed) {
+      return buildAIAccessDeniedResponse(aiAccess);
+    }
+
+    const memory = await createMemory(supabase, user.id, { spaceId, content, category, subjectUserId });
+    aiContextService.invalidateSpace(spaceId);
+
+    return Response.json({ data: memory }, { status: 201 });
+  } catch (error) {
+    logger.error('[API] /api/ai/memories POST error:', error, {
+      component: 'api-route',
+      action: 'api_request',
+    });
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
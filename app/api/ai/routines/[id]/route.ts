@@ -0,0 +1,121 @@
+/**
+ * PATCH/DELETE /api/ai/routines/[id]
+ *
+ * Edit, pause or resume a routine (its creator only), or delete it.
+ */
+
+import { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { featureFlags } from '@/lib/constants/feature-flags';
+import { validateAIAccess, buildAIAccessDeniedResponse } from '@/lib/services/ai/ai-access-guard';
+import {
+  AIRoutineError,
+  deleteRoutine,
+  getRoutine,
+  updateRoutine,
+} from '@/lib/services/ai/routine-service';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+
+export const dynamic = 'force-dynamic';
+
+const updateRoutineSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    instructions: z.string().trim().min(1).max(2000).optional(),
+    rrule: z.string().min(1).max(200).optional(),
+    time: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+    timezone: z.string().min(1).max(100).optional(),
+    enabled: z.boolean().optional(),
+  })
+  .refine((value) => Object.keys(value).length > 0);
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ip = extractIP(req.headers);
+    const { success: rateLimitOk } = await checkGeneralRateLimit(ip);
+    if (!rateLimitOk) {
+      return Response.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+    }
+
+    if (!featureFlags.isAICompanionEnabled()) {
+      return Response.json({ error: 'AI companion is not enabled' }, { status: 403 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = updateRoutineSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return Response.json({ error: 'Invalid request' }, { status: 400 });
+    }
+
+    const { id } = await params;
+
+    // RLS hides routines of other spaces
+    const routine = await getRoutine(supabase, id);
+    if (routine.created_by !== user.id) {
+      return Response.json({ error: 'Only the member who created this routine can change it' }, { status: 403 });
+    }
+
+    const aiAccess = await validateAIAccess(supabase, user.id, routine.space_id, false);
+    if (!aiAccess.allowed) {
+      return buildAIAccessDeniedResponse(aiAccess);
+    }
+
+    const updated = await updateRoutine(supabase, id, parsed.data);
+    return Response.json({ data: updated });
+  } catch (error) {
+    if (error instanceof AIRoutineError) {
+      return Response.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('[API] /api/ai/routines/[id] PATCH error:', error, {
+      component: 'api-route',
+      action: 'api_request',
+    });
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ip = extractIP(req.headers);
+    const { success: rateLimitOk } = await checkGeneralRateLimit(ip);
+    if (!rateLimitOk) {
+      return Response.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // No feature or tier check: the creator or a space admin can remove a routine
+    await deleteRoutine(supabase, id);
+
+    return Response.json({ success: true });
+  } catch (error) {
+    if (error instanceof AIRoutineError) {
+      return Response.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('[API] /api/ai/routines/[id] DELETE error:', error, {
+      component: 'api-route',
+      action: 'api_request',
+    });
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * GET/POST /api/ai/routines
+ *
+ * List a space's assistant routines or create one. Routines run on their
+ * schedule as the member who created them.
+ */
+
+import { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+import { verifySpaceAccess } from '@/lib/services/authorization-service';
+import { logger } from '@/lib/logger';
+import { featureFlags } from '@/lib/constants/feature-flags';
+import { validateAIAccess, buildAIAccessDeniedResponse } from '@/lib/services/ai/ai-access-guard';
+import { AIRoutineError, createRoutine, listRoutines } from '@/lib/services/ai/routine-service';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+
+export const dynamic = 'force-dynamic';
+
+const createRoutineSchema = z.object({
+  spaceId: z.string().uuid(),
+  name: z.string().trim().min(1).max(100),
+  instructions: z.string().trim().min(1).max(2000),
+  rrule: z.string().min(1).max(200),
+  time: z.string().regex(/^\d{2}:\d{2}$/),
+  timezone: z.string().min(1).max(100),
+});
+
+export async function GET(req: NextRequest) {
+  try {
+    const ip = extractIP(req.headers);
+    const { success: rateLimitOk } = await checkGeneralRateLimit(ip);
+    if (!rateLimitOk) {
+      return Response.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+    }
+
+    if (!featureFlags.isAICompanionEnabled()) {
+      return Response.json({ error: 'AI companion is not enabled' }, { status: 403 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const spaceId = req.nextUrl.searchParams.get('spaceId');
+    if (!spaceId) {
+      return Response.json({ error: 'spaceId is required' }, { status: 400 });
+    }
+
+    try {
+      await verifySpaceAccess(user.id, spaceId);
+    } catch {
+      return Response.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const aiAccess = await validateAIAccess(supabase, user.id, spaceId, false);
+    if (!aiAccess.allowed) {
+      return buildAIAccessDeniedResponse(aiAccess);
+    }
+
+    const routines = await listRoutines(supabase, spaceId);
+    return Response.json({ data: routines });
+  } catch (error) {
+    logger.error('[API] /api/ai/routines GET error:', error, {
+      component: 'api-route',
+      action: 'api_request',
+    });
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const ip = extractIP(req.headers);
+    const { success: rateLimitOk } = await checkGeneralRateLimit(ip);
+    if (!rateLimitOk) {
+      return Response.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+    }
+
+    if (!featureFlags.isAICompanionEnabled()) {
+      return Response.json({ error: 'AI companion is not enabled' }, { status: 403 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = createRoutineSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return Response.json({ error: 'Invalid request' }, { status: 400 });
+    }
+
+    const { spaceId } = parsed.data;
+
+    try {
+      await verifySpaceAccess(user.id, spaceId);
+    } catch {
+      return Response.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const aiAccess = await validateAIAccess(supabase, user.id, spaceId, false);
+    if (!aiAccess.allowed) {
+      return buildAIAccessDeniedResponse(aiAccess);
+    }
+
+    const routine = await createRoutine(supabase, user.id, parsed.data);
+    return Response.json({ data: routine }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AIRoutineError) {
+      return Response.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('[API] /api/ai/routines POST error:', error, {
+      component: 'api-route',
+      action: 'api_request',
+    });
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
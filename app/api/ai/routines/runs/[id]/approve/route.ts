@@ -0,0 +1,64 @@
+/**
+ * POST /api/ai/routines/runs/[id]/approve
+ *
+ * Approve a routine's draft and make the changes it proposed, as the
+ * approving member.
+ */
+
+import { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { featureFlags } from '@/lib/constants/feature-flags';
+import { validateAIAccess, buildAIAccessDeniedResponse } from '@/lib/services/ai/ai-access-guard';
+import { aiContextService } from '@/lib/services/ai/ai-context-service';
+import { AIRoutineError, approveRoutineRun, getRoutineRun } from '@/lib/services/ai/routine-service';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ip = extractIP(req.headers);
+    const { success: rateLimitOk } = await checkGeneralRateLimit(ip);
+    if (!rateLimitOk) {
+      return Response.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+    }
+
+    if (!featureFlags.isAICompanionEnabled()) {
+      return Response.json({ error: 'AI companion is not enabled' }, { status: 403 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // RLS hides runs of other spaces
+    const run = await getRoutineRun(supabase, id);
+
+    const aiAccess = await validateAIAccess(supabase, user.id, run.space_id, false);
+    if (!aiAccess.allowed) {
+      return buildAIAccessDeniedResponse(aiAccess);
+    }
+
+    const reviewed = await approveRoutineRun(supabase, user.id, id);
+    aiContextService.invalidateSpace(run.space_id);
+    return Response.json({ data: reviewed });
+  } catch (error) {
+    if (error instanceof AIRoutineError) {
+      return Response.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('[API] /api/ai/routines/runs/[id]/approve POST error:', error, {
+      component: 'api-route',
+      action: 'api_request',
+    });
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * GET /api/ai/routines/runs
+ *
+ * List a space's recent routine runs, including drafts awaiting review.
+ */
+
+import { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { verifySpaceAccess } from '@/lib/services/authorization-service';
+import { logger } from '@/lib/logger';
+import { featureFlags } from '@/lib/constants/feature-flags';
+import { validateAIAccess, buildAIAccessDeniedResponse } from '@/lib/services/ai/ai-access-guard';
+import { listRoutineRuns } from '@/lib/services/ai/routine-service';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: NextRequest) {
+  try {
+    const ip = extractIP(req.headers);
+    const { success: rateLimitOk } = await checkGeneralRateLimit(ip);
+    if (!rateLimitOk) {
+      return Response.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+    }
+
+    if (!featureFlags.isAICompanionEnabled()) {
+      return Response.json({ error: 'AI companion is not enabled' }, { status: 403 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const spaceId = req.nextUrl.searchParams.get('spaceId');
+    if (!spaceId) {
+      return Response.json({ error: 'spaceId is required' }, { status: 400 });
+    }
+
+    try {
+      await verifySpaceAccess(user.id, spaceId);
+    } catch {
+      return Response.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const aiAccess = await validateAIAccess(supabase, user.id, spaceId, false);
+    if (!aiAccess.allowed) {
+      return buildAIAccessDeniedResponse(aiAccess);
+    }
+
+    const runs = await listRoutineRuns(supabase, spaceId);
+    return Response.json({ data: runs });
+  } catch (error) {
+    logger.error('[API] /api/ai/routines/runs GET error:', error, {
+      component: 'api-route',
+      action: 'api_request',
+    });
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * POST /api/ai/undo
+ *
+ * Undo the AI assistant's writes from the action journal: every action of
+ * one chat turn when `turnId` is given, otherwise the most recent action in
+ * the conversation.
+ */
+
+import { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { z } from 'zod';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import {
+  ActionJournalError,
+  describeUndo,
+  undoActions,
+} from '@/lib/services/ai/action-journal-service';
+import { chatOrchestratorService } from '@/lib/services/ai/chat-orchestrator-service';
+
+export const dynamic = 'force-dynamic';
+
+const undoSchema = z.object({
+  conversationId: z.string().uuid(),
+  turnId: z.string().uuid().optional(),
+});
+
+export async function POST(req: NextRequest) {
+  const ip = extractIP(req.headers);
+  const { success: rateLimitOk } = await checkGeneralRateLimit(ip);
+  if (!rateLimitOk) {
+    return Response.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+  }
+
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json();
+    const parsed = undoSchema.safeParse(body);
+    if (!parsed.success) {
+      return Response.json({ error: 'Invalid request' }, { status: 400 });
+    }
+
+    const { conversationId, turnId } = parsed.data;
+    const result = await undoActions(supabase, user.id, conversationId, turnId);
+    const message = describeUndo(result);
+    chatOrchestratorService.recordUndo(conversationId, message);
+
+    return Response.json({
+      turnId: result.turnId,
+      turnFullyUndone: result.turnFullyUndone,
+      message,
+      undone: result.undone,
+      irreversible: result.irreversible,
+      conflicts: result.conflicts,
+    });
+  } catch (err) {
+    if (err instanceof ActionJournalError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    logger.error('[API] /api/ai/undo POST error:', err, {
+      component: 'api-route',
+      action: 'api_request',
+    });
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * CalDAV / CardDAV Route
+ * /api/caldav/... - Two-way space calendars and read-only member address books
+ * for native calendar and contacts apps
+ *
+ * AUTH: HTTP Basic with an app password (clients cannot send a session)
+ * PROPFIND, REPORT and PROPPATCH arrive as POST with the original method in
+ * the x-dav-method header (see middleware.ts)
+ * Rate limited by IP
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { checkDavRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import { handleDavRequest } from '@/lib/services/caldav/server';
+import { DAV_EXTENSION_METHODS, DAV_METHOD_HEADER } from '@/lib/services/caldav/constants';
+import { logger } from '@/lib/logger';
+import * as Sentry from '@sentry/nextjs';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{
+    path?: string[];
+  }>;
+}
+
+async function handle(req: NextRequest, context: RouteContext, method: string) {
+  try {
+    const ip = extractIP(req.headers);
+    const { success: rateLimitSuccess } = await checkDavRateLimit(ip);
+    if (!rateLimitSuccess) {
+      return new NextResponse('Too many requests', { status: 429, headers: { 'Retry-After': '60' } });
+    }
+
+    const { path = [] } = await context.params;
+    return await handleDavRequest(req, {
+      method,
+      path: path.filter(Boolean),
+      supabase: supabaseAdmin,
+    });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: {
+        endpoint: '/api/caldav',
+        method,
+      },
+      extra: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+    logger.error(`[API] /api/caldav ${method} error:`, error, { component: 'api-route', action: 'api_request' });
+    return new NextResponse('Internal server error', { status: 500 });
+  }
+}
+
+export async function OPTIONS(req: NextRequest, context: RouteContext) {
+  return handle(req, context, 'OPTIONS');
+}
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  return handle(req, context, 'GET');
+}
+
+export async function HEAD(req: NextRequest, context: RouteContext) {
+  return handle(req, context, 'HEAD');
+}
+
+export async function PUT(req: NextRequest, context: RouteContext) {
+  return handle(req, context, 'PUT');
+}
+
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  return handle(req, context, 'DELETE');
+}
+
+/**
+ * POST /api/caldav/...
+ * Carries WebDAV extension methods forwarded by the middleware
+ */
+export async function POST(req: NextRequest, context: RouteContext) {
+  const method = (req.headers.get(DAV_METHOD_HEADER) || '').toUpperCase();
+  if (!DAV_EXTENSION_METHODS.includes(method)) {
+    return new NextResponse('Method not allowed', { status: 405 });
+  }
+  return handle(req, context, method);
+}
@@ -0,0 +1,121 @@
+// Calendar Feed API Route
+// Update filters of, or revoke, a webcal:// subscription
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import { calendarFeedService } from '@/lib/services/calendar/calendar-feed-service';
+import { UpdateCalendarFeedSchema } from '@/lib/validations/calendar-integration-schemas';
+import * as Sentry from '@sentry/nextjs';
+import { setSentryUser } from '@/lib/sentry-utils';
+import { logger } from '@/lib/logger';
+
+type AuthResult =
+  | { response: NextResponse }
+  | { supabase: Awaited<ReturnType<typeof createClient>>; userId: string };
+
+/**
+ * Shared rate limiting and authentication for all methods
+ */
+async function authenticate(req: NextRequest): Promise<AuthResult> {
+  const ip = extractIP(req.headers);
+  const { success: rateLimitSuccess } = await checkGeneralRateLimit(ip);
+
+  if (!rateLimitSuccess) {
+    return {
+      response: NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      ),
+    };
+  }
+
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  setSentryUser(user);
+  return { supabase, userId: user.id };
+}
+
+function handleError(error: unknown, method: string, message: string): NextResponse {
+  Sentry.captureException(error, {
+    tags: {
+      endpoint: '/api/calendar/feeds/[id]',
+      method,
+    },
+    extra: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+  logger.error(`[API] /api/calendar/feeds/[id] ${method} error:`, error, { component: 'api-route', action: 'api_request' });
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+/**
+ * PATCH /api/calendar/feeds/[id]
+ * Rename a feed or change which domains it includes; the URL is unchanged
+ */
+export async function PATCH(req: NextRequest, props: { params: Promise<{ id: string }> }) {
+  const params = await props.params;
+  try {
+    const auth = await authenticate(req);
+    if ('response' in auth) return auth.response;
+
+    const body = await req.json();
+    const validation = UpdateCalendarFeedSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const feed = await calendarFeedService.getCalendarFeed(auth.supabase, params.id, auth.userId);
+    if (!feed || feed.revoked_at) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    const updated = await calendarFeedService.updateCalendarFeed(auth.supabase, feed.id, validation.data);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...updated,
+        webcal_url: calendarFeedService.getFeedUrl(updated.token),
+        https_url: calendarFeedService.getFeedUrl(updated.token, 'https'),
+      },
+    });
+  } catch (error) {
+    return handleError(error, 'PATCH', 'Failed to update calendar feed');
+  }
+}
+
+/**
+ * DELETE /api/calendar/feeds/[id]
+ * Revoke a feed; calendar apps subscribed to it stop receiving updates.
+ * Space admins can revoke any feed in their space.
+ */
+export async function DELETE(req: NextRequest, props: { params: Promise<{ id: string }> }) {
+  const params = await props.params;
+  try {
+    const auth = await authenticate(req);
+    if ('response' in auth) return auth.response;
+
+    // RLS only shows the caller their own feeds, or every feed to space admins
+    const feed = await calendarFeedService.getCalendarFeed(auth.supabase, params.id);
+    if (!feed || feed.revoked_at) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    await calendarFeedService.revokeCalendarFeed(auth.supabase, feed.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleError(error, 'DELETE', 'Failed to revoke calendar feed');
+  }
+}
@@ -0,0 +1,151 @@
+// Calendar Feeds API Route
+// Create and list tokenized webcal:// subscriptions (ICS export)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import { isUserSpaceMember, verifySpaceAccess } from '@/lib/services/authorization-service';
+import { calendarFeedService } from '@/lib/services/calendar/calendar-feed-service';
+import { CreateCalendarFeedSchema } from '@/lib/validations/calendar-integration-schemas';
+import type { CalendarFeed } from '@/lib/types/calendar-integration';
+import * as Sentry from '@sentry/nextjs';
+import { setSentryUser } from '@/lib/sentry-utils';
+import { logger } from '@/lib/logger';
+import { z } from 'zod';
+
+type AuthResult =
+  | { response: NextResponse }
+  | { supabase: Awaited<ReturnType<typeof createClient>>; userId: string };
+
+/**
+ * Shared rate limiting and authentication for all methods
+ */
+async function authenticate(req: NextRequest): Promise<AuthResult> {
+  const ip = extractIP(req.headers);
+  const { success: rateLimitSuccess } = await checkGeneralRateLimit(ip);
+
+  if (!rateLimitSuccess) {
+    return {
+      response: NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      ),
+    };
+  }
+
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  setSentryUser(user);
+  return { supabase, userId: user.id };
+}
+
+function handleError(error: unknown, method: string, message: string): NextResponse {
+  Sentry.captureException(error, {
+    tags: {
+      endpoint: '/api/calendar/feeds',
+      method,
+    },
+    extra: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+  logger.error(`[API] /api/calendar/feeds ${method} error:`, error, { component: 'api-route', action: 'api_request' });
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+/** Adds the subscription URLs a client needs to show the feed */
+function withUrls(feed: CalendarFeed) {
+  return {
+    ...feed,
+    webcal_url: calendarFeedService.getFeedUrl(feed.token),
+    https_url: calendarFeedService.getFeedUrl(feed.token, 'https'),
+  };
+}
+
+/**
+ * GET /api/calendar/feeds?space_id=...
+ * List the caller's active calendar feeds in a space
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await authenticate(req);
+    if ('response' in auth) return auth.response;
+
+    const spaceId = req.nextUrl.searchParams.get('space_id');
+    const parsed = z.string().uuid('Invalid space ID format').safeParse(spaceId);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await verifySpaceAccess(auth.userId, parsed.data);
+    } catch {
+      return NextResponse.json(
+        { error: 'You do not have access to this space' },
+        { status: 403 }
+      );
+    }
+
+    const feeds = await calendarFeedService.listCalendarFeeds(auth.supabase, parsed.data, auth.userId);
+
+    return NextResponse.json({ success: true, data: feeds.map(withUrls) });
+  } catch (error) {
+    return handleError(error, 'GET', 'Failed to load calendar feeds');
+  }
+}
+
+/**
+ * POST /api/calendar/feeds
+ * Create a read-only webcal:// feed for a space, or for one member's items
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await authenticate(req);
+    if ('response' in auth) return auth.response;
+
+    const body = await req.json();
+    const validation = CreateCalendarFeedSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const input = validation.data;
+
+    try {
+      await verifySpaceAccess(auth.userId, input.space_id);
+    } catch {
+      return NextResponse.json(
+        { error: 'You do not have access to this space' },
+        { status: 403 }
+      );
+    }
+
+    if (input.member_id && !(await isUserSpaceMember(input.member_id, input.space_id))) {
+      return NextResponse.json(
+        { error: 'Member does not belong to this space' },
+        { status: 400 }
+      );
+    }
+
+    const feed = await calendarFeedService.createCalendarFeed(auth.supabase, {
+      ...input,
+      created_by: auth.userId,
+    });
+
+    return NextResponse.json({ success: true, data: withUrls(feed) }, { status: 201 });
+  } catch (error) {
+    return handleError(error, 'POST', 'Failed to create calendar feed');
+  }
+}
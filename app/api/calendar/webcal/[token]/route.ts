@@ -0,0 +1,83 @@
+/**
+ * Public Calendar Feed Route
+ * GET /api/calendar/webcal/[token].ics - iCalendar feed for webcal:// subscriptions
+ *
+ * NO AUTH REQUIRED - Token IS the auth (calendar apps cannot send a session)
+ * Rate limited by IP
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import { calendarFeedService } from '@/lib/services/calendar/calendar-feed-service';
+import { renderCalendarFeed } from '@/lib/services/calendar/ics-export-service';
+import { CalendarFeedTokenSchema } from '@/lib/validations/calendar-integration-schemas';
+import { logger } from '@/lib/logger';
+import * as Sentry from '@sentry/nextjs';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+/**
+ * GET /api/calendar/webcal/[token]
+ * Render the feed's events, chores, bills and tasks as text/calendar
+ */
+export async function GET(req: NextRequest, context: RouteContext) {
+  try {
+    const ip = extractIP(req.headers);
+    const { success: rateLimitSuccess } = await checkGeneralRateLimit(ip);
+    if (!rateLimitSuccess) {
+      return NextResponse.json({ error: 'Too many requests.' }, { status: 429 });
+    }
+
+    // Calendar apps like a file extension on subscription URLs
+    const { token: rawToken } = await context.params;
+    const tokenValidation = CalendarFeedTokenSchema.safeParse(rawToken.replace(/\.ics$/i, ''));
+    if (!tokenValidation.success) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    const feed = await calendarFeedService.getCalendarFeedByToken(supabaseAdmin, tokenValidation.data);
+    if (!feed) {
+      logger.warn('Invalid calendar feed token attempt', {
+        component: 'api-route',
+        action: 'invalid_token',
+        ip,
+      });
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    const body = await renderCalendarFeed(feed, supabaseAdmin);
+
+    // Best effort; a failed timestamp should not break the subscription
+    await calendarFeedService.recordCalendarFeedAccess(supabaseAdmin, feed.id).catch(() => undefined);
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="rowan.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: {
+        endpoint: '/api/calendar/webcal/[token]',
+        method: 'GET',
+      },
+      extra: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+    logger.error('[API] /api/calendar/webcal/[token] GET error:', error, { component: 'api-route', action: 'api_request' });
+    return NextResponse.json({ error: 'Failed to load calendar feed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Chore Rotation Workload API
+ * GET /api/chores/[choreId]/rotation - Rotation members' workloads and who goes next
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import { verifySpaceAccess } from '@/lib/services/authorization-service';
+import { suggestNextAssignee } from '@/lib/services/chore-workload-service';
+import * as Sentry from '@sentry/nextjs';
+import { setSentryUser } from '@/lib/sentry-utils';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ choreId: string }>;
+}
+
+/**
+ * GET /api/chores/[choreId]/rotation
+ * Returns the rotation, each member's accumulated effort, who is unavailable
+ * on the next rotation date, and the member a balanced rotation would pick
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const ip = extractIP(request.headers);
+    const { success: rateLimitSuccess } = await checkGeneralRateLimit(ip);
+    if (!rateLimitSuccess) {
+      return NextResponse.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    setSentryUser(user);
+
+    const { choreId } = await params;
+    const { data: chore, error: choreError } = await supabase
+      .from('chores')
+      .select('id, space_id')
+      .eq('id', choreId)
+      .single();
+    if (choreError || !chore) {
+      return NextResponse.json({ error: 'Chore not found' }, { status: 404 });
+    }
+
+    try {
+      await verifySpaceAccess(user.id, chore.space_id);
+    } catch {
+      return NextResponse.json({ error: 'You do not have access to this space' }, { status: 403 });
+    }
+
+    const { data: rotation, error: rotationError } = await supabase
+      .from('chore_rotations')
+      .select('id, chore_id, rotation_type, user_order, rotation_frequency, next_rotation_date, last_assigned_to, is_active')
+      .eq('chore_id', choreId)
+      .maybeSingle();
+    if (rotationError) throw rotationError;
+    if (!rotation) {
+      return NextResponse.json({ error: 'This chore has no rotation' }, { status: 404 });
+    }
+
+    const date = rotation.next_rotation_date ?? new Date().toISOString().split('T')[0];
+    const { pick, workloads, unavailable } = await suggestNextAssignee(supabase, chore.space_id, rotation, date);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rotation,
+        workloads,
+        unavailable,
+        next_assignee: pick?.userId ?? null,
+        next_assignee_available: pick?.available ?? false,
+      },
+    });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: {
+        endpoint: '/api/chores/[choreId]/rotation',
+        method: 'GET',
+      },
+      extra: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+    logger.error('[API] /api/chores/[choreId]/rotation GET error:', error, { component: 'api-route', action: 'api_request' });
+    return NextResponse.json({ error: 'Failed to fetch rotation workload' }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Chore Rotation Swap API
+ * PATCH /api/chores/[choreId]/rotation/swaps/[swapId] - Approve, decline or cancel a swap request
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import { verifySpaceAccess } from '@/lib/services/authorization-service';
+import { ChoreRotationSwapError, respondToSwap } from '@/lib/services/chore-rotation-swap-service';
+import { choreRotationSwapResponseSchema } from '@/lib/validations/chore-schemas';
+import * as Sentry from '@sentry/nextjs';
+import { setSentryUser } from '@/lib/sentry-utils';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ choreId: string; swapId: string }>;
+}
+
+/**
+ * PATCH /api/chores/[choreId]/rotation/swaps/[swapId]
+ * The requested member approves or declines; the requester may cancel.
+ * Approving trades the two members' turns.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const ip = extractIP(request.headers);
+    const { success: rateLimitSuccess } = await checkGeneralRateLimit(ip);
+    if (!rateLimitSuccess) {
+      return NextResponse.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    setSentryUser(user);
+
+    const body = await request.json().catch(() => null);
+    const validation = choreRotationSwapResponseSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { choreId, swapId } = await params;
+    const { data: chore, error: choreError } = await supabase
+      .from('chores')
+      .select('id, space_id')
+      .eq('id', choreId)
+      .single();
+    if (choreError || !chore) {
+      return NextResponse.json({ error: 'Chore not found' }, { status: 404 });
+    }
+
+    try {
+      await verifySpaceAccess(user.id, chore.space_id);
+    } catch {
+      return NextResponse.json({ error: 'You do not have access to this space' }, { status: 403 });
+    }
+
+    const swap = await respondToSwap(supabase, {
+      chore_id: choreId,
+      swap_id: swapId,
+      user_id: user.id,
+      action: validation.data.action,
+    });
+
+    return NextResponse.json({ success: true, data: swap });
+  } catch (error) {
+    if (error instanceof ChoreRotationSwapError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    Sentry.captureException(error, {
+      tags: {
+        endpoint: '/api/chores/[choreId]/rotation/swaps/[swapId]',
+        method: 'PATCH',
+      },
+      extra: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+    logger.error('[API] /api/chores/[choreId]/rotation/swaps/[swapId] PATCH error:', error, { component: 'api-route', action: 'api_request' });
+    return NextResponse.json({ error: 'Failed to update swap request' }, { status: 500 });
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Chore Rotation Swaps API
+ * GET  /api/chores/[choreId]/rotation/swaps - List swap requests for the chore's rotation
+ * POST /api/chores/[choreId]/rotation/swaps - Ask another rotation member to trade turns
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import { verifySpaceAccess } from '@/lib/services/authorization-service';
+import {
+  ChoreRotationSwapError,
+  listSwaps,
+  requestSwap,
+  type ChoreRotationSwapStatus,
+} from '@/lib/services/chore-rotation-swap-service';
+import { choreRotationSwapRequestSchema } from '@/lib/validations/chore-schemas';
+import * as Sentry from '@sentry/nextjs';
+import { setSentryUser } from '@/lib/sentry-utils';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const SWAP_STATUSES: ChoreRotationSwapStatus[] = ['pending', 'approved', 'declined', 'cancelled'];
+
+interface RouteParams {
+  params: Promise<{ choreId: string }>;
+}
+
+async function authorize(request: NextRequest, params: RouteParams['params']) {
+  const ip = extractIP(request.headers);
+  const { success: rateLimitSuccess } = await checkGeneralRateLimit(ip);
+  if (!rateLimitSuccess) {
+    return { error: NextResponse.json({ error: 'Too many requests. Please try again later.' }, { status: 429 }) };
+  }
+
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  setSentryUser(user);
+
+  const { choreId } = await params;
+  const { data: chore, error: choreError } = await supabase
+    .from('chores')
+    .select('id, space_id')
+    .eq('id', choreId)
+    .single();
+  if (choreError || !chore) {
+    return { error: NextResponse.json({ error: 'Chore not found' }, { status: 404 }) };
+  }
+
+  try {
+    await verifySpaceAccess(user.id, chore.space_id);
+  } catch {
+    return { error: NextResponse.json({ error: 'You do not have access to this space' }, { status: 403 }) };
+  }
+
+  return { supabase, user, choreId };
+}
+
+function handleError(error: unknown, method: string, message: string) {
+  if (error instanceof ChoreRotationSwapError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  Sentry.captureException(error, {
+    tags: {
+      endpoint: '/api/chores/[choreId]/rotation/swaps',
+      method,
+    },
+    extra: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+  logger.error(`[API] /api/chores/[choreId]/rotation/swaps ${method} error:`, error, { component: 'api-route', action: 'api_request' });
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+/**
+ * GET /api/chores/[choreId]/rotation/swaps
+ * Optional ?status= filter (pending, approved, declined, cancelled)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authorize(request, params);
+    if ('error' in auth) return auth.error;
+
+    const statusParam = new URL(request.url).searchParams.get('status');
+    if (statusParam && !SWAP_STATUSES.includes(statusParam as ChoreRotationSwapStatus)) {
+      return NextResponse.json({ error: 'Invalid status filter' }, { status: 400 });
+    }
+
+    const swaps = await listSwaps(auth.supabase, auth.choreId, (statusParam as ChoreRotationSwapStatus) || undefined);
+
+    return NextResponse.json({ success: true, data: swaps });
+  } catch (error) {
+    return handleError(error, 'GET', 'Failed to fetch swap requests');
+  }
+}
+
+/**
+ * POST /api/chores/[choreId]/rotation/swaps
+ * The caller offers to trade turns with another rotation member
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authorize(request, params);
+    if ('error' in auth) return auth.error;
+
+    const body = await request.json().catch(() => null);
+    const validation = choreRotationSwapRequestSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const swap = await requestSwap(auth.supabase, {
+      chore_id: auth.choreId,
+      requested_by: auth.user.id,
+      requested_with: validation.data.requested_with,
+      reason: validation.data.reason,
+    });
+
+    return NextResponse.json({ success: true, data: swap }, { status: 201 });
+  } catch (error) {
+    return handleError(error, 'POST', 'Failed to request swap');
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processDueRoutines } from '@/lib/jobs/ai-routines-job';
+import { logger } from '@/lib/logger';
+import { verifyCronSecret } from '@/lib/security/verify-secret';
+
+export const dynamic = 'force-dynamic';
+// Each routine is a full assistant turn; allow a batch of them to finish
+export const maxDuration = 300;
+
+/**
+ * Cron job endpoint for running scheduled AI assistant routines
+ *
+ * Security: Verifies CRON_SECRET header to prevent unauthorized access
+ * Vercel Cron: Runs every 15 minutes
+ *
+ * Due routines are run in restricted mode and their proposed changes are
+ * saved as drafts; nothing is changed until a space member approves.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (!expectedSecret) {
+      logger.error('CRON_SECRET environment variable is not set', undefined, {
+        component: 'AIRoutinesCron',
+        action: 'verify_secret',
+      });
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    if (!verifyCronSecret(authHeader, expectedSecret)) {
+      logger.warn('Unauthorized cron request attempt', {
+        component: 'AIRoutinesCron',
+        action: 'verify_auth',
+      });
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await processDueRoutines();
+
+    if (result.errors.length > 0) {
+      logger.error('AI routines job errors', undefined, {
+        component: 'AIRoutinesCron',
+        action: 'process',
+        errors: result.errors,
+      });
+    }
+
+    return NextResponse.json({
+      success: result.success,
+      routinesRun: result.routinesRun,
+      draftsCreated: result.draftsCreated,
+      errorCount: result.errors.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('AI routines cron job failed', error, {
+      component: 'AIRoutinesCron',
+      action: 'execute',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
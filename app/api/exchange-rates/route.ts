@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  deleteExchangeRate,
+  getExchangeRates,
+  getSpaceBaseCurrency,
+  setSpaceBaseCurrency,
+  upsertExchangeRate,
+} from '@/lib/services/currency-service';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { verifySpaceAccess } from '@/lib/services/authorization-service';
+import * as Sentry from '@sentry/nextjs';
+import { setSentryUser } from '@/lib/sentry-utils';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import { logger } from '@/lib/logger';
+import { withUserDataCache } from '@/lib/utils/cache-headers';
+import { z } from 'zod';
+import { updateBaseCurrencySchema, upsertExchangeRateSchema } from '@/lib/validations/currency-schemas';
+
+type AuthResult =
+  | { response: NextResponse }
+  | { supabase: Awaited<ReturnType<typeof createClient>>; userId: string };
+
+/**
+ * Shared rate limiting and authentication for all methods
+ */
+async function authenticate(req: NextRequest): Promise<AuthResult> {
+  const ip = extractIP(req.headers);
+  const { success: rateLimitSuccess } = await checkGeneralRateLimit(ip);
+
+  if (!rateLimitSuccess) {
+    return {
+      response: NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      ),
+    };
+  }
+
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  setSentryUser(user);
+  return { supabase, userId: user.id };
+}
+
+/**
+ * Returns a 403 response if the user is not a member of the space
+ */
+async function checkSpaceAccess(userId: string, spaceId: string): Promise<NextResponse | null> {
+  try {
+    await verifySpaceAccess(userId, spaceId);
+    return null;
+  } catch {
+    return NextResponse.json(
+      { error: 'You do not have access to this space' },
+      { status: 403 }
+    );
+  }
+}
+
+function handleError(error: unknown, method: string, message: string): NextResponse {
+  Sentry.captureException(error, {
+    tags: {
+      endpoint: '/api/exchange-rates',
+      method,
+    },
+    extra: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+  logger.error(`[API] /api/exchange-rates ${method} error:`, error, { component: 'api-route', action: 'api_request' });
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+/**
+ * GET /api/exchange-rates
+ * Get the base currency and stored exchange rates for a space
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await authenticate(req);
+    if ('response' in auth) return auth.response;
+
+    const { searchParams } = new URL(req.url);
+    const spaceId = searchParams.get('space_id');
+
+    if (!spaceId) {
+      return NextResponse.json({ error: 'space_id is required' }, { status: 400 });
+    }
+
+    const denied = await checkSpaceAccess(auth.userId, spaceId);
+    if (denied) return denied;
+
+    const [baseCurrency, rates] = await Promise.all([
+      getSpaceBaseCurrency(spaceId, auth.supabase),
+      getExchangeRates(spaceId, auth.supabase),
+    ]);
+
+    return withUserDataCache(NextResponse.json({
+      success: true,
+      data: { base_currency: baseCurrency, rates },
+    }));
+  } catch (error) {
+    return handleError(error, 'GET', 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/exchange-rates
+ * Create or replace the rate for a currency pair on a date
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await authenticate(req);
+    if ('response' in auth) return auth.response;
+
+    let input: z.infer<typeof upsertExchangeRateSchema>;
+    try {
+      input = upsertExchangeRateSchema.parse(await req.json());
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const denied = await checkSpaceAccess(auth.userId, input.space_id);
+    if (denied) return denied;
+
+    const rate = await upsertExchangeRate({ ...input, created_by: auth.userId }, auth.supabase);
+
+    return NextResponse.json({ success: true, data: rate });
+  } catch (error) {
+    return handleError(error, 'POST', 'Failed to save exchange rate');
+  }
+}
+
+/**
+ * PATCH /api/exchange-rates
+ * Change the base currency of a space
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const auth = await authenticate(req);
+    if ('response' in auth) return auth.response;
+
+    let input: z.infer<typeof updateBaseCurrencySchema>;
+    try {
+      input = updateBaseCurrencySchema.parse(await req.json());
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: error.issues },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const denied = await checkSpaceAccess(auth.userId, input.space_id);
+    if (denied) return denied;
+
+    await setSpaceBaseCurrency(input.space_id, input.base_currency, auth.supabase);
+
+    return NextResponse.json({ success: true, data: { base_currency: input.base_currency } });
+  } catch (error) {
+    return handleError(error, 'PATCH', 'Failed to update base currency');
+  }
+}
+
+/**
+ * DELETE /api/exchange-rates?space_id=...&id=...
+ * Delete a stored exchange rate
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const auth = await authenticate(req);
+    if ('response' in auth) return auth.response;
+
+    const { searchParams } = new URL(req.url);
+    const spaceId = searchParams.get('space_id');
+    const rateId = searchParams.get('id');
+
+    if (!spaceId || !rateId) {
+      return NextResponse.json({ error: 'space_id and id are required' }, { status: 400 });
+    }
+
+    const denied = await checkSpaceAccess(auth.userId, spaceId);
+    if (denied) return denied;
+
+    await deleteExchangeRate(spaceId, rateId, auth.supabase);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleError(error, 'DELETE', 'Failed to delete exchange rate');
+  }
+}
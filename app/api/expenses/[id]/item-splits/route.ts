@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { projectsService } from '@/lib/services/budgets-service';
+import {
+  createItemizedExpenseSplits,
+  getExpenseSplitItems,
+  getExpenseSplits,
+} from '@/lib/services/expense-splitting-service';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import { verifyResourceAccess } from '@/lib/services/authorization-service';
+import * as Sentry from '@sentry/nextjs';
+import { setSentryUser } from '@/lib/sentry-utils';
+import { logger } from '@/lib/logger';
+import { createItemizedSplitSchema } from '@/lib/validations/expense-splitting';
+
+type AuthResult =
+  | { response: NextResponse }
+  | { supabase: Awaited<ReturnType<typeof createClient>>; userId: string };
+
+/**
+ * Shared rate limiting and authentication for all methods
+ */
+async function authenticate(req: NextRequest): Promise<AuthResult> {
+  const ip = extractIP(req.headers);
+  const { success: rateLimitSuccess } = await checkGeneralRateLimit(ip);
+
+  if (!rateLimitSuccess) {
+    return {
+      response: NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      ),
+    };
+  }
+
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  setSentryUser(user);
+  return { supabase, userId: user.id };
+}
+
+/**
+ * Loads the expense and returns a 404/403 response if it is missing or inaccessible
+ */
+async function loadExpense(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  expenseId: string
+): Promise<{ response: NextResponse } | { spaceId: string }> {
+  const expense = await projectsService.getExpenseById(expenseId, supabase);
+
+  if (!expense) {
+    return { response: NextResponse.json({ error: 'Expense not found' }, { status: 404 }) };
+  }
+
+  try {
+    await verifyResourceAccess(userId, expense);
+  } catch {
+    return {
+      response: NextResponse.json(
+        { error: 'You do not have access to this expense' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { spaceId: expense.space_id };
+}
+
+function handleError(error: unknown, method: string, message: string): NextResponse {
+  Sentry.captureException(error, {
+    tags: {
+      endpoint: '/api/expenses/[id]/item-splits',
+      method,
+    },
+    extra: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+  logger.error(`[API] /api/expenses/[id]/item-splits ${method} error:`, error, { component: 'api-route', action: 'api_request' });
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+/**
+ * GET /api/expenses/[id]/item-splits
+ * Get the line item assignments and resulting splits of an expense
+ */
+export async function GET(req: NextRequest, props: { params: Promise<{ id: string }> }) {
+  const params = await props.params;
+  try {
+    const auth = await authenticate(req);
+    if ('response' in auth) return auth.response;
+
+    const access = await loadExpense(auth.supabase, auth.userId, params.id);
+    if ('response' in access) return access.response;
+
+    const [items, splits] = await Promise.all([
+      getExpenseSplitItems(params.id, auth.supabase),
+      getExpenseSplits(params.id, auth.supabase),
+    ]);
+
+    return NextResponse.json({ success: true, data: { items, splits } });
+  } catch (error) {
+    return handleError(error, 'GET', 'Internal server error');
+  }
+}
+
+/**
+ * PUT /api/expenses/[id]/item-splits
+ * Assign line items to members (or shared) and replace the expense's splits,
+ * allocating tax and tip in proportion to each member's items
+ */
+export async function PUT(req: NextRequest, props: { params: Promise<{ id: string }> }) {
+  const params = await props.params;
+  try {
+    const auth = await authenticate(req);
+    if ('response' in auth) return auth.response;
+
+    const validationResult = createItemizedSplitSchema.safeParse(await req.json());
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+    const input = validationResult.data;
+
+    const access = await loadExpense(auth.supabase, auth.userId, params.id);
+    if ('response' in access) return access.response;
+
+    // Every participant must belong to the expense's space
+    const { data: members, error: membersError } = await auth.supabase
+      .from('space_members')
+      .select('user_id')
+      .eq('space_id', access.spaceId)
+      .in('user_id', input.participants);
+
+    if (membersError) throw membersError;
+
+    const memberIds = new Set((members ?? []).map((m: { user_id: string }) => m.user_id));
+    if (input.participants.some((userId) => !memberIds.has(userId))) {
+      return NextResponse.json(
+        { error: 'All participants must be members of the space' },
+        { status: 400 }
+      );
+    }
+
+    const splits = await createItemizedExpenseSplits(params.id, input, auth.supabase);
+
+    return NextResponse.json({ success: true, data: splits });
+  } catch (error) {
+    return handleError(error, 'PUT', 'Failed to split expense');
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import {
+  getSettleUpPlan,
+  matchesSettleUpPlan,
+  recordSettleUp,
+} from '@/lib/services/expense-splitting-service';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import { verifySpaceAccess } from '@/lib/services/authorization-service';
+import * as Sentry from '@sentry/nextjs';
+import { setSentryUser } from '@/lib/sentry-utils';
+import { logger } from '@/lib/logger';
+import { recordSettleUpSchema } from '@/lib/validations/expense-splitting';
+
+/** Postgres error code record_settle_up raises when a planned split was settled in the meantime */
+const STALE_PLAN_ERROR_CODE = '40001';
+
+/**
+ * POST /api/expenses/settle-up
+ * Record the transfers of a settle-up plan and settle the splits it covers.
+ * The plan is recomputed here; transfers that no longer match it are rejected.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const ip = extractIP(req.headers);
+    const { success: rateLimitSuccess } = await checkGeneralRateLimit(ip);
+
+    if (!rateLimitSuccess) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    setSentryUser(user);
+
+    const validationResult = recordSettleUpSchema.safeParse(await req.json());
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+    const input = validationResult.data;
+
+    try {
+      await verifySpaceAccess(user.id, input.space_id);
+    } catch {
+      return NextResponse.json(
+        { error: 'You do not have access to this space' },
+        { status: 403 }
+      );
+    }
+
+    const plan = await getSettleUpPlan(input.space_id, supabase);
+    if (!matchesSettleUpPlan(plan, input.transfers)) {
+      return NextResponse.json(
+        { error: 'Balances changed since the plan was made. Review the new plan and try again.' },
+        { status: 409 }
+      );
+    }
+
+    let settlements;
+    try {
+      settlements = await recordSettleUp({
+        space_id: input.space_id,
+        transfers: plan.transfers,
+        split_ids: plan.split_ids,
+        expense_ids: plan.expense_ids,
+        currency: plan.currency,
+        settlement_date: input.settlement_date,
+        payment_method: input.payment_method,
+        notes: input.notes,
+        created_by: user.id,
+      }, supabaseAdmin);
+    } catch (error) {
+      if ((error as { code?: string } | null)?.code === STALE_PLAN_ERROR_CODE) {
+        return NextResponse.json(
+          { error: 'Balances changed since the plan was made. Review the new plan and try again.' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json({ success: true, data: settlements });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: {
+        endpoint: '/api/expenses/settle-up',
+        method: 'POST',
+      },
+      extra: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+    logger.error('[API] /api/expenses/settle-up POST error:', error, { component: 'api-route', action: 'api_request' });
+    return NextResponse.json({ error: 'Failed to record settlements' }, { status: 500 });
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * MCP Route
+ * /api/mcp - Model Context Protocol server (Streamable HTTP transport) that
+ * exposes the AI assistant's tools to MCP-capable agents
+ *
+ * AUTH: Bearer MCP token (created at /api/user/mcp-tokens), scoped to one
+ * space and read-only or read-write. Tool calls run as the token's owner,
+ * so RLS applies as in the app.
+ * Rate limited by IP, counting every tool call in a batch
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { checkMcpRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import { validateAIAccess, buildAIAccessDeniedResponse } from '@/lib/services/ai/ai-access-guard';
+import { authenticateMcpRequest } from '@/lib/services/mcp/tokens';
+import { createUserScopedClient } from '@/lib/services/mcp/user-client';
+import { countToolCalls, handleMcpPayload } from '@/lib/services/mcp/server';
+import { JSON_RPC_ERRORS, McpConfigurationError } from '@/lib/services/mcp/types';
+import { logger } from '@/lib/logger';
+import * as Sentry from '@sentry/nextjs';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+function tooManyRequests() {
+  return NextResponse.json(
+    { error: 'Too many requests' },
+    { status: 429, headers: { 'Retry-After': '60' } }
+  );
+}
+
+function methodNotAllowed() {
+  return new NextResponse('Method not allowed', { status: 405, headers: { Allow: 'POST' } });
+}
+
+/**
+ * POST /api/mcp
+ * One JSON-RPC message (or a batch) per request, answered with JSON
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const ip = extractIP(req.headers);
+    const { success: rateLimitSuccess } = await checkMcpRateLimit(ip);
+    if (!rateLimitSuccess) {
+      return tooManyRequests();
+    }
+
+    const principal = await authenticateMcpRequest(supabaseAdmin, req.headers.get('authorization'));
+    if (!principal) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401, headers: { 'WWW-Authenticate': 'Bearer realm="Rowan MCP"' } }
+      );
+    }
+
+    let supabase;
+    try {
+      supabase = createUserScopedClient(principal.userId);
+    } catch (error) {
+      if (error instanceof McpConfigurationError) {
+        logger.warn('[API] /api/mcp is not configured', {
+          component: 'api-route',
+          action: 'api_request',
+          error: error.message,
+        });
+        return NextResponse.json({ error: 'MCP server is not configured' }, { status: 503 });
+      }
+      throw error;
+    }
+
+    // Same tier check as the chat assistant; MCP calls use no model tokens
+    const aiAccess = await validateAIAccess(supabase, principal.userId, principal.spaceId, false);
+    if (!aiAccess.allowed) {
+      return buildAIAccessDeniedResponse(aiAccess);
+    }
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return NextResponse.json(
+        { jsonrpc: '2.0', id: null, error: { code: JSON_RPC_ERRORS.PARSE_ERROR, message: 'Parse error' } },
+        { status: 400 }
+      );
+    }
+
+    // The request itself counted once above; every further tool call in a batch counts too
+    for (let call = 1; call < countToolCalls(payload); call++) {
+      const { success } = await checkMcpRateLimit(ip);
+      if (!success) {
+        return tooManyRequests();
+      }
+    }
+
+    const response = await handleMcpPayload(payload, { principal, supabase });
+    if (!response) {
+      return new NextResponse(null, { status: 202 });
+    }
+    return NextResponse.json(response);
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: {
+        endpoint: '/api/mcp',
+        method: 'POST',
+      },
+      extra: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+    logger.error('[API] /api/mcp POST error:', error, { component: 'api-route', action: 'api_request' });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/mcp
+ * The server never pushes messages, so there is no event stream to open
+ */
+export async function GET() {
+  return methodNotAllowed();
+}
+
+/**
+ * DELETE /api/mcp
+ * The server is stateless; there are no sessions to end
+ */
+export async function DELETE() {
+  return methodNotAllowed();
+}
@@ -1,42 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import type { OCRResult } from '@/lib/services/receipts-service';
 import { createClient } from '@/lib/supabase/server';
 import { checkGeneralRateLimit } from '@/lib/ratelimit';
 import { extractIP } from '@/lib/ratelimit-fallback';
 import { validateImageMagicBytes, isFormatAllowed, ALLOWED_RECEIPT_FORMATS } from '@/lib/utils/file-validation';
 import { logger } from '@/lib/logger';
-import { z } from 'zod';
-
-// SECURITY: Zod schema to validate AI-generated receipt JSON
-const AIReceiptSchema = z.object({
-  merchant_name: z.string().max(300).optional().nullable(),
-  total_amount: z.union([z.string(), z.number()]).optional().nullable(),
-  receipt_date: z.string().max(100).optional().nullable(),
-  category: z.string().max(100).optional().nullable(),
-  confidence: z.number().min(0).max(100).optional().nullable(),
-}).strip();
+import { OCRExtractionError, scanReceipt, toOCRResult } from '@/lib/services/ocr';
 
 // =====================================================
-// GEMINI VISION OCR API ROUTE
+// RECEIPT OCR API ROUTE
 // =====================================================
 
-// Lazy-init Gemini client to avoid build-time crash when env var is missing
-let _genAI: GoogleGenerativeAI | null = null;
-function getGenAI(): GoogleGenerativeAI {
-  if (!_genAI) {
-    const apiKey = process.env.GOOGLE_GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GOOGLE_GEMINI_API_KEY environment variable is not set');
-    }
-    _genAI = new GoogleGenerativeAI(apiKey);
-  }
-  return _genAI;
-}
-
 /**
  * POST /api/ocr/scan-receipt
- * Scans a receipt image using Gemini Vision and extracts structured data
+ * Scans a receipt image with the configured OCR provider (local Tesseract by
+ * default, Gemini Vision with OCR_PROVIDER=gemini) and extracts line items,
+ * tax, tip, totals and per-field confidence for review
  */
 export async function POST(request: NextRequest) {
   try {
@@ -111,89 +90,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Convert file to base64
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-    const base64Image = buffer.toString('base64');
-
-    // Prepare Gemini Vision prompt
-    const prompt = `You are a receipt OCR expert. Analyze this receipt image and extract the following information in JSON format:
-
-{
-  "merchant_name": "The store/merchant name (string or null)",
-  "total_amount": "The total amount as a number (e.g., 45.99) or null",
-  "receipt_date": "The date in YYYY-MM-DD format or null",
-  "category": "One of: Groceries, Dining, Transportation, Shopping, Healthcare, Utilities, Entertainment, Travel, Home & Garden, Other",
-  "items": [
-    {
-      "name": "Item name",
-      "price": 0.00,
-      "quantity": 1
-    }
-  ],
-  "payment_method": "cash, credit, debit, or null if unknown",
-  "currency": "USD or other currency code",
-  "confidence": "Your confidence level from 0-100"
-}
-
-Rules:
-1. Return ONLY valid JSON, no markdown, no explanations
-2. If you cannot read a field clearly, set it to null
-3. For category, choose the most appropriate from the list
-4. Total amount should be the final amount paid (including tax)
-5. Date should be the transaction date, not today's date
-6. Be conservative with confidence - only high if you're certain
-
-Extract the data now:`;
-
-    // Call Gemini Vision API
-    const model = getGenAI().getGenerativeModel({
-      model: 'gemini-2.5-flash',
-      generationConfig: { maxOutputTokens: 4096 },
-    });
+    const buffer = Buffer.from(await file.arrayBuffer());
 
-    const result = await model.generateContent([
-      prompt,
-      {
-        inlineData: {
-          mimeType: file.type,
-          data: base64Image,
-        },
-      },
-    ]);
-
-    const response = await result.response;
-    const text = response.text();
-
-    // Clean up the response - remove markdown code blocks if present
-    let jsonText = text.trim();
-    if (jsonText.startsWith('```json')) {
-      jsonText = jsonText.replace(/```json\n?/, '').replace(/\n?```$/, '');
-    } else if (jsonText.startsWith('```')) {
-      jsonText = jsonText.replace(/```\n?/, '').replace(/\n?```$/, '');
-    }
-
-    // SECURITY: Parse and validate AI response with Zod
-    type ParsedReceipt = z.infer<typeof AIReceiptSchema>;
-
-    let parsedData: ParsedReceipt;
+    let ocrResult: OCRResult;
     try {
-      const rawParsed = JSON.parse(jsonText);
-      const parseResult = AIReceiptSchema.safeParse(rawParsed);
-      if (!parseResult.success) {
-        logger.warn('AI receipt response failed Zod validation', {
-          component: 'api/ocr/scan-receipt',
-          action: 'validation_failed',
-        });
-        return NextResponse.json(
-          { error: 'OCR processing succeeded but data extraction failed', fallback: true },
-          { status: 500 }
-        );
-      }
-      parsedData = parseResult.data;
-    } catch {
-      logger.warn('Failed to parse Gemini OCR response', { component: 'api/ocr/scan-receipt', action: 'parse_failed' });
-      // Fallback to regex-based extraction if JSON parsing fails
+      ocrResult = toOCRResult(await scanReceipt(buffer, { mimeType: file.type }));
+    } catch (error) {
+      if (!(error instanceof OCRExtractionError)) throw error;
+      logger.warn('Failed to parse OCR provider response', { component: 'api/ocr/scan-receipt', action: 'parse_failed' });
+      // Client falls back to manual or on-device extraction
       return NextResponse.json(
         {
           error: 'OCR processing succeeded but data extraction failed',
@@ -203,20 +108,13 @@ Extract the data now:`;
       );
     }
 
-    // Construct OCR result
-    const ocrResult: OCRResult = {
-      text: text,
-      merchant_name: parsedData.merchant_name || null,
-      total_amount: parsedData.total_amount ? parseFloat(String(parsedData.total_amount)) : null,
-      receipt_date: parsedData.receipt_date || null,
-      category: parsedData.category || 'Other',
-      confidence: parsedData.confidence || 50,
-    };
-
     // Validate extracted data
     if (ocrResult.total_amount && (ocrResult.total_amount < 0 || ocrResult.total_amount > 100000)) {
       ocrResult.total_amount = null;
       ocrResult.confidence = Math.max(0, ocrResult.confidence - 20);
+      if (!ocrResult.low_confidence_fields?.includes('total_amount')) {
+        ocrResult.low_confidence_fields = [...(ocrResult.low_confidence_fields ?? []), 'total_amount'];
+      }
     }
 
     return NextResponse.json(ocrResult);
@@ -224,8 +122,8 @@ Extract the data now:`;
     const message = error instanceof Error ? error.message : undefined;
     logger.error('OCR API error', error, { component: 'api/ocr/scan-receipt', action: 'ocr' });
 
-    // Check if it's a Gemini API error
-    if (message?.includes('API key')) {
+    // Check if the selected provider is missing its configuration
+    if (message?.includes('API key') || message?.includes('OCR provider')) {
       return NextResponse.json(
         { error: 'OCR service is not configured. Please contact support.' },
         { status: 500 }
@@ -0,0 +1,87 @@
+/**
+ * GET /api/pantry/barcode?spaceId=...&code=...
+ *
+ * Product details for a scanned barcode, to pre-fill a new pantry item.
+ * A product the space has stocked before is reused as it was entered;
+ * otherwise Open Food Facts is asked.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { verifySpaceAccess } from '@/lib/services/authorization-service';
+import { lookupOpenFoodFacts } from '@/lib/services/product-lookup-service';
+import type { BarcodeProduct } from '@/lib/services/pantry-service';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import { setSentryUser } from '@/lib/sentry-utils';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const BARCODE_PATTERN = /^[0-9A-Za-z-]{4,64}$/;
+
+export async function GET(req: NextRequest) {
+  try {
+    const ip = extractIP(req.headers);
+    const { success: rateLimitSuccess } = await checkGeneralRateLimit(ip);
+    if (!rateLimitSuccess) {
+      return NextResponse.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    setSentryUser(user);
+
+    const spaceId = req.nextUrl.searchParams.get('spaceId');
+    const code = req.nextUrl.searchParams.get('code')?.trim() ?? '';
+    if (!spaceId) {
+      return NextResponse.json({ error: 'spaceId is required' }, { status: 400 });
+    }
+    if (!BARCODE_PATTERN.test(code)) {
+      return NextResponse.json({ error: 'Invalid barcode' }, { status: 400 });
+    }
+
+    try {
+      await verifySpaceAccess(user.id, spaceId);
+    } catch {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { data: previous } = await supabase
+      .from('pantry_items')
+      .select('name, quantity, unit, category, location')
+      .eq('space_id', spaceId)
+      .eq('barcode', code)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const product: BarcodeProduct | null = previous
+      ? {
+          barcode: code,
+          name: previous.name,
+          quantity: previous.quantity ?? undefined,
+          unit: previous.unit ?? undefined,
+          category: previous.category ?? undefined,
+          location: previous.location,
+          source: 'pantry',
+        }
+      : await lookupOpenFoodFacts(code);
+
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: product });
+  } catch (error) {
+    logger.error('[API] /api/pantry/barcode GET error:', error, {
+      component: 'api-route',
+      action: 'api_request',
+    });
+    return NextResponse.json({ error: 'Failed to look up barcode' }, { status: 500 });
+  }
+}
@@ -8,7 +8,11 @@ import { logger } from '@/lib/logger';
 import { z } from 'zod';
 import {
   generateShoppingList,
+  subtractPantryStock,
   categorizeIngredient,
+  getServingsScale,
+  type PantryStock,
+  type RecipeIngredient,
 } from '@/lib/services/ingredient-parser';
 import { sendShoppingListEmail } from '@/lib/services/email-service';
 
@@ -19,15 +23,19 @@ const GenerateShoppingListSchema = z.object({
   mealIds: z.array(z.string().uuid()).min(1, 'At least one meal is required'),
   listName: z.string().min(1).max(200).optional(),
   spaceId: z.string().uuid(),
+  // Leave off what the pantry already covers
+  usePantry: z.boolean().optional().default(true),
 });
 
 type MealRecipe = {
   id: string;
   name: string;
-  ingredients: Array<string | { name: string; amount?: string | number; unit?: string; originalText?: string }> | null;
+  ingredients: RecipeIngredient[] | null;
+  servings?: number | null;
 };
 
 type MealWithRecipe = {
+  servings?: number | null;
   recipes?: MealRecipe | null;
 };
 
@@ -79,12 +87,12 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { mealIds, listName, spaceId } = validation.data;
+    const { mealIds, listName, spaceId, usePantry } = validation.data;
 
-    // Verify user has access to this space
+    // Verify user has access to this space (and read the units it shops in)
     const { data: spaceMembership } = await supabase
       .from('space_members')
-      .select('space_id, user_id, role')
+      .select('space_id, user_id, role, spaces(measurement_system)')
       .eq('space_id', spaceId)
       .eq('user_id', user.id)
       .single();
@@ -114,13 +122,14 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Extract recipes from meals
+    // Extract recipes from meals, scaled to the servings each meal cooks
     const recipes = (meals as MealWithRecipe[])
       .filter((meal): meal is MealWithRecipe & { recipes: MealRecipe } => Boolean(meal.recipes))
       .map((meal) => ({
         id: meal.recipes.id,
         name: meal.recipes.name,
         ingredients: meal.recipes.ingredients,
+        scale: getServingsScale(meal.recipes.servings, meal.servings),
       }));
 
     if (recipes.length === 0) {
@@ -130,8 +139,40 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Generate aggregated shopping list
-    const aggregatedIngredients = generateShoppingList(recipes);
+    // Generate aggregated shopping list in the space's units, minus unexpired pantry stock
+    const system = spaceMembership.spaces?.measurement_system === 'metric' ? 'metric' : 'imperial';
+    let aggregatedIngredients = generateShoppingList(recipes, [], { system });
+    let pantryCoveredCount = 0;
+
+    if (usePantry) {
+      const today = new Date().toISOString().split('T')[0];
+      const { data: pantryStock, error: pantryError } = await supabase
+        .from('pantry_items')
+        .select('name, quantity, unit')
+        .eq('space_id', spaceId)
+        .or(`expires_on.is.null,expires_on.gte.${today}`);
+
+      if (pantryError) {
+        throw pantryError;
+      }
+
+      const { toBuy, inPantry } = subtractPantryStock(aggregatedIngredients, (pantryStock ?? []) as PantryStock[]);
+      aggregatedIngredients = toBuy;
+      pantryCoveredCount = inPantry.length;
+    }
+
+    if (aggregatedIngredients.length === 0) {
+      return NextResponse.json({
+        success: true,
+        data: {
+          list: null,
+          itemCount: 0,
+          recipeCount: recipes.length,
+          pantryCoveredCount,
+        },
+        message: 'Everything for these meals is already in the pantry',
+      });
+    }
 
     // Generate list name if not provided
     const finalListName =
@@ -244,6 +285,7 @@ export async function POST(req: NextRequest) {
         list: shoppingList,
         itemCount: aggregatedIngredients.length,
         recipeCount: recipes.length,
+        pantryCoveredCount,
       },
       message: 'Shopping list generated successfully',
     });
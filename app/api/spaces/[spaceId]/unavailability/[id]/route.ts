@@ -0,0 +1,60 @@
+/**
+ * Member Unavailability API
+ * DELETE /api/spaces/[spaceId]/unavailability/[id] - Remove one of the caller's vacation ranges
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import { removeUnavailability } from '@/lib/services/chore-workload-service';
+import * as Sentry from '@sentry/nextjs';
+import { setSentryUser } from '@/lib/sentry-utils';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ spaceId: string; id: string }>;
+}
+
+/**
+ * DELETE /api/spaces/[spaceId]/unavailability/[id]
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const ip = extractIP(request.headers);
+    const { success: rateLimitSuccess } = await checkGeneralRateLimit(ip);
+    if (!rateLimitSuccess) {
+      return NextResponse.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    setSentryUser(user);
+
+    const { id } = await params;
+    const removed = await removeUnavailability(supabase, id, user.id);
+    if (!removed) {
+      return NextResponse.json({ error: 'Unavailability not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: {
+        endpoint: '/api/spaces/[spaceId]/unavailability/[id]',
+        method: 'DELETE',
+      },
+      extra: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+    logger.error('[API] /api/spaces/[spaceId]/unavailability/[id] DELETE error:', error, { component: 'api-route', action: 'api_request' });
+    return NextResponse.json({ error: 'Failed to remove unavailability' }, { status: 500 });
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Member Unavailability API
+ * GET  /api/spaces/[spaceId]/unavailability - Upcoming vacation ranges in the space
+ * POST /api/spaces/[spaceId]/unavailability - Mark the caller unavailable for a date range
+ *
+ * Balanced chore rotations skip members who are unavailable on the turn date.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import { verifySpaceAccess } from '@/lib/services/authorization-service';
+import { addUnavailability, listUnavailability } from '@/lib/services/chore-workload-service';
+import { memberUnavailabilitySchema } from '@/lib/validations/chore-schemas';
+import * as Sentry from '@sentry/nextjs';
+import { setSentryUser } from '@/lib/sentry-utils';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const SpaceParamsSchema = z.object({
+  spaceId: z.string().uuid('Invalid space ID format'),
+});
+
+interface RouteParams {
+  params: Promise<{ spaceId: string }>;
+}
+
+async function authorize(request: NextRequest, params: RouteParams['params']) {
+  const ip = extractIP(request.headers);
+  const { success: rateLimitSuccess } = await checkGeneralRateLimit(ip);
+  if (!rateLimitSuccess) {
+    return { error: NextResponse.json({ error: 'Too many requests. Please try again later.' }, { status: 429 }) };
+  }
+
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  setSentryUser(user);
+
+  const paramsParsed = SpaceParamsSchema.safeParse(await params);
+  if (!paramsParsed.success) {
+    return { error: NextResponse.json({ error: 'Invalid Space ID format' }, { status: 400 }) };
+  }
+  const { spaceId } = paramsParsed.data;
+
+  try {
+    await verifySpaceAccess(user.id, spaceId);
+  } catch {
+    return { error: NextResponse.json({ error: 'You do not have access to this space' }, { status: 403 }) };
+  }
+
+  return { supabase, user, spaceId };
+}
+
+function handleError(error: unknown, method: string, message: string) {
+  Sentry.captureException(error, {
+    tags: {
+      endpoint: '/api/spaces/[spaceId]/unavailability',
+      method,
+    },
+    extra: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+  logger.error(`[API] /api/spaces/[spaceId]/unavailability ${method} error:`, error, { component: 'api-route', action: 'api_request' });
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+/**
+ * GET /api/spaces/[spaceId]/unavailability
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authorize(request, params);
+    if ('error' in auth) return auth.error;
+
+    const ranges = await listUnavailability(auth.supabase, auth.spaceId);
+
+    return NextResponse.json({ success: true, data: ranges });
+  } catch (error) {
+    return handleError(error, 'GET', 'Failed to fetch unavailability');
+  }
+}
+
+/**
+ * POST /api/spaces/[spaceId]/unavailability
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authorize(request, params);
+    if ('error' in auth) return auth.error;
+
+    const body = await request.json().catch(() => null);
+    const validation = memberUnavailabilitySchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const range = await addUnavailability(auth.supabase, {
+      space_id: auth.spaceId,
+      user_id: auth.user.id,
+      ...validation.data,
+    });
+
+    return NextResponse.json({ success: true, data: range }, { status: 201 });
+  } catch (error) {
+    return handleError(error, 'POST', 'Failed to save unavailability');
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Task Dependency Graph API
+ * GET /api/tasks/dependency-graph?space_id=...&task_id=... - Linked tasks with critical path and slack
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import { verifySpaceAccess } from '@/lib/services/authorization-service';
+import { taskDependenciesService } from '@/lib/services/task-dependencies-service';
+import { dependencyGraphQuerySchema } from '@/lib/validations/task-schemas';
+import * as Sentry from '@sentry/nextjs';
+import { setSentryUser } from '@/lib/sentry-utils';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/tasks/dependency-graph
+ * Returns the space's dependency graph; `task_id` narrows it to the tasks
+ * connected to that task
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ip = extractIP(request.headers);
+    const { success: rateLimitSuccess } = await checkGeneralRateLimit(ip);
+    if (!rateLimitSuccess) {
+      return NextResponse.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    setSentryUser(user);
+
+    const { searchParams } = new URL(request.url);
+    const validation = dependencyGraphQuerySchema.safeParse(Object.fromEntries(searchParams));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+    const { space_id, task_id } = validation.data;
+
+    try {
+      await verifySpaceAccess(user.id, space_id);
+    } catch {
+      return NextResponse.json({ error: 'You do not have access to this space' }, { status: 403 });
+    }
+
+    const graph = await taskDependenciesService.getDependencyGraph(space_id, { rootTaskId: task_id }, supabase);
+
+    return NextResponse.json({ success: true, data: graph });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: {
+        endpoint: '/api/tasks/dependency-graph',
+        method: 'GET',
+      },
+      extra: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+    logger.error('[API] /api/tasks/dependency-graph GET error:', error, { component: 'api-route', action: 'api_request' });
+    return NextResponse.json({ error: 'Failed to load dependency graph' }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Assignment Trade API
+ * PATCH /api/trades/[tradeId] - Accept, decline or cancel a chore or task trade
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import {
+  AssignmentTradeError,
+  acceptTrade,
+  closeTrade,
+  notifyTradeParticipants,
+} from '@/lib/services/assignment-trade-service';
+import { respondAssignmentTradeSchema } from '@/lib/validations/assignment-trade-schemas';
+import * as Sentry from '@sentry/nextjs';
+import { setSentryUser } from '@/lib/sentry-utils';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ tradeId: string }>;
+}
+
+/**
+ * PATCH /api/trades/[tradeId]
+ * Accepting moves the assignment, swaps rotation places and pays the bounty
+ * in one transaction. The offered member declines; the offering member cancels.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const ip = extractIP(request.headers);
+    const { success: rateLimitSuccess } = await checkGeneralRateLimit(ip);
+    if (!rateLimitSuccess) {
+      return NextResponse.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    setSentryUser(user);
+
+    const body = await request.json().catch(() => null);
+    const validation = respondAssignmentTradeSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { tradeId } = await params;
+    const { action } = validation.data;
+
+    const trade = action === 'accept'
+      ? await acceptTrade(supabase, tradeId)
+      : await closeTrade(supabase, tradeId, user.id, action);
+
+    const event = action === 'accept' ? 'accepted' : action === 'decline' ? 'declined' : 'cancelled';
+    await notifyTradeParticipants(supabaseAdmin, trade, event, user.id);
+
+    return NextResponse.json({ success: true, data: trade });
+  } catch (error) {
+    if (error instanceof AssignmentTradeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    Sentry.captureException(error, {
+      tags: {
+        endpoint: '/api/trades/[tradeId]',
+        method: 'PATCH',
+      },
+      extra: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+    logger.error('[API] /api/trades/[tradeId] PATCH error:', error, { component: 'api-route', action: 'api_request' });
+    return NextResponse.json({ error: 'Failed to update trade' }, { status: 500 });
+  }
+}
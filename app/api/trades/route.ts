@@ -0,0 +1,131 @@
+/**
+ * Assignment Trades API
+ * GET  /api/trades?space_id=...&status=...&mine=true - List chore and task trades in a space
+ * POST /api/trades - Offer one of your chores or tasks to another member, optionally with a points bounty
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import { verifySpaceAccess } from '@/lib/services/authorization-service';
+import {
+  AssignmentTradeError,
+  createTrade,
+  listTrades,
+  notifyTradeParticipants,
+} from '@/lib/services/assignment-trade-service';
+import { createAssignmentTradeSchema, listAssignmentTradesSchema } from '@/lib/validations/assignment-trade-schemas';
+import * as Sentry from '@sentry/nextjs';
+import { setSentryUser } from '@/lib/sentry-utils';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+async function authenticate(request: NextRequest) {
+  const ip = extractIP(request.headers);
+  const { success: rateLimitSuccess } = await checkGeneralRateLimit(ip);
+  if (!rateLimitSuccess) {
+    return { error: NextResponse.json({ error: 'Too many requests. Please try again later.' }, { status: 429 }) };
+  }
+
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  setSentryUser(user);
+  return { supabase, user };
+}
+
+function handleError(error: unknown, method: string, message: string) {
+  if (error instanceof AssignmentTradeError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  Sentry.captureException(error, {
+    tags: {
+      endpoint: '/api/trades',
+      method,
+    },
+    extra: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+  logger.error(`[API] /api/trades ${method} error:`, error, { component: 'api-route', action: 'api_request' });
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+/**
+ * GET /api/trades
+ * Lists trades in a space; `mine=true` limits them to trades the caller is part of
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if ('error' in auth) return auth.error;
+
+    const { searchParams } = new URL(request.url);
+    const validation = listAssignmentTradesSchema.safeParse(Object.fromEntries(searchParams));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+    const { space_id, status, mine } = validation.data;
+
+    try {
+      await verifySpaceAccess(auth.user.id, space_id);
+    } catch {
+      return NextResponse.json({ error: 'You do not have access to this space' }, { status: 403 });
+    }
+
+    const trades = await listTrades(auth.supabase, space_id, {
+      status,
+      userId: mine === 'true' ? auth.user.id : undefined,
+    });
+
+    return NextResponse.json({ success: true, data: trades });
+  } catch (error) {
+    return handleError(error, 'GET', 'Failed to fetch trades');
+  }
+}
+
+/**
+ * POST /api/trades
+ * Offers the caller's chore or task; leave out `offered_to` to offer it to anyone in the space
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if ('error' in auth) return auth.error;
+
+    const body = await request.json().catch(() => null);
+    const validation = createAssignmentTradeSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await verifySpaceAccess(auth.user.id, validation.data.space_id);
+    } catch {
+      return NextResponse.json({ error: 'You do not have access to this space' }, { status: 403 });
+    }
+
+    const trade = await createTrade(auth.supabase, {
+      ...validation.data,
+      offered_by: auth.user.id,
+    });
+
+    await notifyTradeParticipants(supabaseAdmin, trade, 'offered', auth.user.id);
+
+    return NextResponse.json({ success: true, data: trade }, { status: 201 });
+  } catch (error) {
+    return handleError(error, 'POST', 'Failed to create trade');
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { createAppPassword, listAppPasswords } from '@/lib/services/caldav/app-passwords';
+import { DAV_BASE_PATH } from '@/lib/services/caldav/constants';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import { getAppUrl } from '@/lib/utils/app-url';
+import * as Sentry from '@sentry/nextjs';
+import { setSentryUser } from '@/lib/sentry-utils';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const CreateAppPasswordSchema = z.object({
+  label: z.string().trim().min(1, 'Label is required').max(100, 'Label must be 100 characters or fewer'),
+});
+
+async function authenticate(request: Request) {
+  const ip = extractIP(request.headers);
+  const { success: rateLimitSuccess } = await checkGeneralRateLimit(ip);
+  if (!rateLimitSuccess) {
+    return { error: NextResponse.json({ error: 'Too many requests. Please try again later.' }, { status: 429 }) };
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  setSentryUser(user);
+  return { supabase, user };
+}
+
+function handleError(error: unknown, method: string, message: string) {
+  Sentry.captureException(error, {
+    tags: {
+      endpoint: '/api/user/app-passwords',
+      method,
+    },
+    extra: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+  logger.error(`[API] /api/user/app-passwords ${method} error:`, error, { component: 'api-route', action: 'api_request' });
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+/**
+ * GET /api/user/app-passwords
+ * List the user's active CalDAV/CardDAV app passwords
+ */
+export async function GET(request: Request) {
+  try {
+    const auth = await authenticate(request);
+    if ('error' in auth) return auth.error;
+
+    const appPasswords = await listAppPasswords(auth.supabase, auth.user.id);
+
+    return NextResponse.json({ success: true, data: appPasswords });
+  } catch (error) {
+    return handleError(error, 'GET', 'Failed to fetch app passwords');
+  }
+}
+
+/**
+ * POST /api/user/app-passwords
+ * Create an app password for a calendar or contacts app. The password is
+ * returned once and cannot be retrieved again.
+ */
+export async function POST(request: Request) {
+  try {
+    const auth = await authenticate(request);
+    if ('error' in auth) return auth.error;
+
+    const body = await request.json().catch(() => null);
+    const validation = CreateAppPasswordSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { appPassword, password } = await createAppPassword(auth.supabase, auth.user.id, validation.data.label);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...appPassword,
+        password,
+        username: auth.user.email,
+        server_url: new URL(`${DAV_BASE_PATH}/`, getAppUrl()).toString(),
+      },
+    }, { status: 201 });
+  } catch (error) {
+    return handleError(error, 'POST', 'Failed to create app password');
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { revokeMcpToken } from '@/lib/services/mcp/tokens';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import * as Sentry from '@sentry/nextjs';
+import { setSentryUser } from '@/lib/sentry-utils';
+import { logger } from '@/lib/logger';
+
+const McpTokenParamsSchema = z.object({
+  id: z.string().uuid('Invalid MCP token ID format'),
+});
+
+/**
+ * DELETE /api/user/mcp-tokens/[id]
+ * Revoke an MCP token; agents using it lose access immediately
+ */
+export async function DELETE(request: NextRequest, props: { params: Promise<{ id: string }> }) {
+  const params = await props.params;
+  try {
+    const ip = extractIP(request.headers);
+    const { success: rateLimitSuccess } = await checkGeneralRateLimit(ip);
+    if (!rateLimitSuccess) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    setSentryUser(user);
+
+    const parsed = McpTokenParamsSchema.safeParse(params);
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid MCP token ID format' }, { status: 400 });
+    }
+
+    const revoked = await revokeMcpToken(supabase, user.id, parsed.data.id);
+    if (!revoked) {
+      return NextResponse.json({ error: 'MCP token not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, message: 'MCP token revoked' });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: {
+        endpoint: '/api/user/mcp-tokens/[id]',
+        method: 'DELETE',
+      },
+      extra: {
+        timestamp: new Date().toISOString(),
+      },
+    });
+    logger.error('[API] /api/user/mcp-tokens/[id] DELETE error:', error, { component: 'api-route', action: 'api_request' });
+    return NextResponse.json({ error: 'Failed to revoke MCP token' }, { status: 500 });
+  }
+}
@@ -0,0 +1,114 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { createMcpToken, listMcpTokens } from '@/lib/services/mcp/tokens';
+import { MCP_PATH } from '@/lib/services/mcp/constants';
+import { verifySpaceAccess } from '@/lib/services/authorization-service';
+import { checkGeneralRateLimit } from '@/lib/ratelimit';
+import { extractIP } from '@/lib/ratelimit-fallback';
+import { getAppUrl } from '@/lib/utils/app-url';
+import * as Sentry from '@sentry/nextjs';
+import { setSentryUser } from '@/lib/sentry-utils';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const CreateMcpTokenSchema = z.object({
+  label: z.string().trim().min(1, 'Label is required').max(100, 'Label must be 100 characters or fewer'),
+  space_id: z.string().uuid('Invalid space ID format'),
+  scope: z.enum(['read', 'read_write']).default('read'),
+});
+
+async function authenticate(request: Request) {
+  const ip = extractIP(request.headers);
+  const { success: rateLimitSuccess } = await checkGeneralRateLimit(ip);
+  if (!rateLimitSuccess) {
+    return { error: NextResponse.json({ error: 'Too many requests. Please try again later.' }, { status: 429 }) };
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  setSentryUser(user);
+  return { supabase, user };
+}
+
+function handleError(error: unknown, method: string, message: string) {
+  Sentry.captureException(error, {
+    tags: {
+      endpoint: '/api/user/mcp-tokens',
+      method,
+    },
+    extra: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+  logger.error(`[API] /api/user/mcp-tokens ${method} error:`, error, { component: 'api-route', action: 'api_request' });
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+/**
+ * GET /api/user/mcp-tokens
+ * List the user's active MCP tokens
+ */
+export async function GET(request: Request) {
+  try {
+    const auth = await authenticate(request);
+    if ('error' in auth) return auth.error;
+
+    const mcpTokens = await listMcpTokens(auth.supabase, auth.user.id);
+
+    return NextResponse.json({ success: true, data: mcpTokens });
+  } catch (error) {
+    return handleError(error, 'GET', 'Failed to fetch MCP tokens');
+  }
+}
+
+/**
+ * POST /api/user/mcp-tokens
+ * Create an MCP token for an agent, scoped to one space. The token is
+ * returned once and cannot be retrieved again.
+ */
+export async function POST(request: Request) {
+  try {
+    const auth = await authenticate(request);
+    if ('error' in auth) return auth.error;
+
+    const body = await request.json().catch(() => null);
+    const validation = CreateMcpTokenSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { label, space_id: spaceId, scope } = validation.data;
+
+    try {
+      await verifySpaceAccess(auth.user.id, spaceId);
+    } catch {
+      return NextResponse.json({ error: 'You do not have access to this space' }, { status: 403 });
+    }
+
+    const { mcpToken, token } = await createMcpToken(auth.supabase, auth.user.id, { label, spaceId, scope });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...mcpToken,
+        token,
+        server_url: new URL(MCP_PATH, getAppUrl()).toString(),
+      },
+    }, { status: 201 });
+  } catch (error) {
+    return handleError(error, 'POST', 'Failed to create MCP token');
+  }
+}
@@ -1,14 +1,15 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { Wallet, TrendingUp, Receipt, Target, AlertCircle } from 'lucide-react';
+import { Wallet, TrendingUp, Receipt, Target, AlertCircle, ShoppingCart } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { FeatureLayout } from '@/components/layout/FeatureLayout';
 import { BudgetTabBar } from '@/components/budget/BudgetTabBar';
 import { CollapsibleStatsGrid } from '@/components/ui/CollapsibleStatsGrid';
 import { logger } from '@/lib/logger';
-import { projectsService, type BudgetStats } from '@/lib/services/budgets-service';
+import { projectsService, type BudgetStats, type GroceryBudgetProjection } from '@/lib/services/budgets-service';
 import { getBillStats, type BillStats } from '@/lib/services/bills-service';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/services/currency-service';
 import Link from 'next/link';
 
 /** Renders the main budget overview page with income, expenses, and category breakdowns. */
@@ -18,8 +19,11 @@ export default function BudgetOverviewClient({ spaceId }: { spaceId: string }) {
     spentThisMonth: 0,
     remaining: 0,
     pendingBills: 0,
+    currency: DEFAULT_CURRENCY,
+    unconvertedCurrencies: [],
   });
   const [billStats, setBillStats] = useState<BillStats | null>(null);
+  const [groceries, setGroceries] = useState<GroceryBudgetProjection | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -28,18 +32,22 @@ export default function BudgetOverviewClient({ spaceId }: { spaceId: string }) {
       setLoading(true);
       setError(null);
 
-      const [stats, bills] = await Promise.all([
+      const [stats, bills, groceryProjection] = await Promise.all([
         projectsService.getBudgetStats(spaceId).catch(() => ({
           monthlyBudget: 0,
           spentThisMonth: 0,
           remaining: 0,
           pendingBills: 0,
+          currency: DEFAULT_CURRENCY,
+          unconvertedCurrencies: [],
         })),
         getBillStats(spaceId).catch(() => null),
+        projectsService.getGroceryProjection(spaceId).catch(() => null),
       ]);
 
       setBudgetStats(stats);
       setBillStats(bills);
+      setGroceries(groceryProjection);
     } catch (err) {
       logger.error('Failed to load budget overview:', err, {
         component: 'page',
@@ -55,6 +63,18 @@ export default function BudgetOverviewClient({ spaceId }: { spaceId: string }) {
     loadOverviewData();
   }, [loadOverviewData]);
 
+  const money = (amount: number) => formatMoney(amount, budgetStats.currency);
+
+  const groceryMoney = (amount: number) => formatMoney(amount, groceries?.currency);
+  const groceryBudget = groceries?.budget ?? 0;
+  const groceryActualWidth = groceryBudget > 0 ? Math.min(100, ((groceries?.actual ?? 0) / groceryBudget) * 100) : 0;
+  const groceryProjectedWidth = groceryBudget > 0 ? Math.min(100, ((groceries?.projected ?? 0) / groceryBudget) * 100) : 0;
+
+  const unconvertedCurrencies = Array.from(new Set([
+    ...budgetStats.unconvertedCurrencies,
+    ...(groceries?.unconvertedCurrencies ?? []),
+  ]));
+
   const spentPercentage =
     budgetStats.monthlyBudget > 0
       ? Math.round((budgetStats.spentThisMonth / budgetStats.monthlyBudget) * 100)
@@ -100,7 +120,7 @@ export default function BudgetOverviewClient({ spaceId }: { spaceId: string }) {
             <CollapsibleStatsGrid
               icon={Wallet}
               title="Budget Summary"
-              summary={`$${budgetStats.spentThisMonth.toLocaleString()} of $${budgetStats.monthlyBudget.toLocaleString()} spent this month`}
+              summary={`${money(budgetStats.spentThisMonth)} of ${money(budgetStats.monthlyBudget)} spent this month`}
               iconGradient="bg-gradient-to-br from-amber-500 to-yellow-500"
               gridClassName="grid stats-grid-mobile gap-6"
             >
@@ -110,7 +130,7 @@ export default function BudgetOverviewClient({ spaceId }: { spaceId: string }) {
                     <Wallet className="w-6 h-6 text-white" />
                   </div>
                   <span className="text-2xl font-bold text-white">
-                    ${budgetStats.monthlyBudget.toLocaleString()}
+                    {money(budgetStats.monthlyBudget)}
                   </span>
                 </div>
                 <h3 className="text-sm font-medium text-gray-400">
@@ -154,7 +174,7 @@ export default function BudgetOverviewClient({ spaceId }: { spaceId: string }) {
                     <Target className="w-6 h-6 text-white" />
                   </div>
                   <span className="text-2xl font-bold text-white">
-                    ${Math.max(0, budgetStats.remaining).toLocaleString()}
+                    {money(Math.max(0, budgetStats.remaining))}
                   </span>
                 </div>
                 <h3 className="text-sm font-medium text-gray-400">
@@ -164,6 +184,16 @@ export default function BudgetOverviewClient({ spaceId }: { spaceId: string }) {
             </CollapsibleStatsGrid>
           )}
 
+          {/* Amounts the totals leave out */}
+          {!loading && unconvertedCurrencies.length > 0 && (
+            <div className="bg-amber-900/20 border border-amber-600/50 rounded-xl p-4 flex items-center gap-3">
+              <AlertCircle className="w-5 h-5 text-amber-400 flex-shrink-0" />
+              <p className="text-sm text-amber-200">
+                Amounts in {unconvertedCurrencies.join(', ')} are left out of these totals. Add an exchange rate to {budgetStats.currency} to include them.
+              </p>
+            </div>
+          )}
+
           {/* Spending Progress Bar */}
           {!loading && budgetStats.monthlyBudget > 0 && (
             <div className="bg-gray-800 rounded-xl p-5 border border-gray-700">
@@ -174,8 +204,7 @@ export default function BudgetOverviewClient({ spaceId }: { spaceId: string }) {
                     budgetStats.remaining < 0 ? 'text-red-400' : 'text-green-400'
                   }`}
                 >
-                  ${budgetStats.spentThisMonth.toLocaleString()} / $
-                  {budgetStats.monthlyBudget.toLocaleString()}
+                  {money(budgetStats.spentThisMonth)} / {money(budgetStats.monthlyBudget)}
                 </span>
               </div>
               <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
@@ -200,6 +229,45 @@ export default function BudgetOverviewClient({ spaceId }: { spaceId: string }) {
             </div>
           )}
 
+          {/* Groceries: spent so far vs where the meal plan takes it */}
+          {!loading && groceries && (groceryBudget > 0 || groceries.projected > 0) && (
+            <div className="bg-gray-800 rounded-xl p-5 border border-gray-700">
+              <div className="flex justify-between items-center gap-3 mb-3">
+                <h3 className="text-white font-medium flex items-center gap-2">
+                  <ShoppingCart className="w-4 h-4 text-emerald-400" />
+                  Groceries
+                </h3>
+                <span
+                  className={`text-sm font-semibold ${
+                    groceryBudget > 0 && groceries.projected > groceryBudget ? 'text-red-400' : 'text-green-400'
+                  }`}
+                >
+                  {groceryMoney(groceries.projected)} projected
+                  {groceryBudget > 0 && ` / ${groceryMoney(groceryBudget)}`}
+                </span>
+              </div>
+              {groceryBudget > 0 && (
+                <div className="relative h-2 bg-gray-700 rounded-full overflow-hidden">
+                  <div
+                    className="absolute inset-y-0 left-0 bg-emerald-500/40 rounded-full"
+                    style={{ width: `${groceryProjectedWidth}%` }}
+                  />
+                  <motion.div
+                    initial={{ width: 0 }}
+                    animate={{ width: `${groceryActualWidth}%` }}
+                    transition={{ duration: 0.8, ease: 'easeOut' }}
+                    className="absolute inset-y-0 left-0 bg-emerald-500 rounded-full"
+                  />
+                </div>
+              )}
+              <p className="text-xs text-gray-400 mt-2">
+                {groceryMoney(groceries.actual)} spent this month
+                {groceries.plannedMeals > 0 &&
+                  ` · ${groceryMoney(groceries.planned)} for ${groceries.plannedMeals} planned meal${groceries.plannedMeals !== 1 ? 's' : ''}, estimated from past prices`}
+              </p>
+            </div>
+          )}
+
           {/* Quick Actions */}
           {!loading && (
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
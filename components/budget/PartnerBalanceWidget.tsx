@@ -20,6 +20,7 @@ import {
   getSplitExpenseStats,
   type BalanceSummary,
 } from '@/lib/services/expense-splitting-service';
+import { SettleUpPanel } from './SettleUpPanel';
 
 interface PartnerBalanceWidgetProps {
   spaceId: string;
@@ -43,6 +44,7 @@ export function PartnerBalanceWidget({
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
 
   useEffect(() => {
     async function loadData() {
@@ -70,7 +72,7 @@ export function PartnerBalanceWidget({
     if (spaceId) {
       loadData();
     }
-  }, [spaceId, showTrends]);
+  }, [spaceId, showTrends, refreshKey]);
 
   if (loading) {
     return (
@@ -98,6 +100,8 @@ export function PartnerBalanceWidget({
   const hasBalance = Math.abs(netBalance) > 0.01;
   const isBalanced = !hasBalance;
 
+  const unconvertedCurrencies = Array.from(new Set(balances.flatMap(b => b.unconverted_currencies)));
+
   // Determine who owes whom
   const positiveBalance = balances.find(b => b.net_balance > 0);
   const negativeBalance = balances.find(b => b.net_balance < 0);
@@ -214,6 +218,19 @@ export function PartnerBalanceWidget({
           </div>
         )}
 
+        {/* Splits the balances leave out */}
+        {unconvertedCurrencies.length > 0 && (
+          <div className="flex items-start gap-2 p-3 bg-amber-900/20 border border-amber-800 rounded-lg">
+            <AlertTriangle className="w-4 h-4 text-amber-400 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-amber-200">
+              Splits in {unconvertedCurrencies.join(', ')} are left out of these balances until an exchange rate is added.
+            </p>
+          </div>
+        )}
+
+        {/* Minimal transfers for any number of members */}
+        <SettleUpPanel spaceId={spaceId} onSettled={() => setRefreshKey((key) => key + 1)} />
+
         {/* Statistics */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <div className="text-center p-3 bg-gray-700 rounded-lg">
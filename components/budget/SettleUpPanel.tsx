@@ -0,0 +1,231 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { logger } from '@/lib/logger';
+import {
+  ArrowRight,
+  AlertCircle,
+  ChevronDown,
+  ChevronRight,
+  HandCoins,
+} from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import {
+  getSettleUpPlan,
+  type MemberBalance,
+  type SettleUpPlan,
+} from '@/lib/services/expense-splitting-service';
+import { formatMoney } from '@/lib/services/currency-service';
+import { useAuthWithSpaces } from '@/lib/hooks/useAuthWithSpaces';
+import { csrfFetch } from '@/lib/utils/csrf-fetch';
+
+interface SettleUpPanelProps {
+  spaceId: string;
+  className?: string;
+  onSettled?: () => void;
+}
+
+/** Suggests the fewest transfers that settle every member and records them in one step. */
+export function SettleUpPanel({ spaceId, className = '', onSettled }: SettleUpPanelProps) {
+  const { user } = useAuthWithSpaces();
+  const [plan, setPlan] = useState<SettleUpPlan | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState('');
+  const [expandedUserId, setExpandedUserId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPlan = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setPlan(await getSettleUpPlan(spaceId));
+    } catch (err) {
+      logger.error('Failed to load settle-up plan:', err, { component: 'SettleUpPanel', action: 'component_action' });
+      setError('Failed to load balances');
+    } finally {
+      setLoading(false);
+    }
+  }, [spaceId]);
+
+  useEffect(() => {
+    if (spaceId) {
+      loadPlan();
+    }
+  }, [spaceId, loadPlan]);
+
+  const handleSettleUp = async () => {
+    if (!user || !plan) return;
+
+    try {
+      setSaving(true);
+      // The server recomputes the plan and rejects transfers that no longer match it
+      const response = await csrfFetch('/api/expenses/settle-up', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          space_id: plan.space_id,
+          transfers: plan.transfers,
+          payment_method: paymentMethod || undefined,
+          notes: 'Settle up',
+        }),
+      });
+
+      if (response.status === 409) {
+        await loadPlan();
+        setError('Balances changed since this plan was made. Review the new plan and try again.');
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`Settle-up failed with status ${response.status}`);
+      }
+
+      setPaymentMethod('');
+      await loadPlan();
+      onSettled?.();
+    } catch (err) {
+      logger.error('Failed to record settle-up:', err, { component: 'SettleUpPanel', action: 'component_action' });
+      setError('Failed to record settlements');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className={`flex items-center justify-center py-6 ${className}`}>
+        <div className="animate-spin w-6 h-6 border-2 border-purple-500 border-t-transparent rounded-full" />
+        <span className="ml-2 text-gray-400">Loading balances...</span>
+      </div>
+    );
+  }
+
+  if (!plan || plan.transfers.length === 0) {
+    return error ? (
+      <div className={`flex items-center gap-2 text-red-400 ${className}`}>
+        <AlertCircle className="w-4 h-4" />
+        <span className="text-sm">{error}</span>
+      </div>
+    ) : null;
+  }
+
+  const nameOf = (userId: string) =>
+    plan.balances.find((b) => b.user_id === userId)?.user_email?.split('@')[0] || 'Member';
+
+  const describeEntry = (balance: MemberBalance, entry: MemberBalance['entries'][number]) =>
+    entry.debtor_id === balance.user_id
+      ? `owes ${nameOf(entry.creditor_id)}`
+      : `${nameOf(entry.debtor_id)} owes them`;
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="flex items-center gap-2">
+        <HandCoins className="w-4 h-4 text-purple-400" />
+        <h4 className="font-medium text-white">Settle Up</h4>
+        <span className="text-xs text-gray-400">
+          {plan.transfers.length} {plan.transfers.length === 1 ? 'payment' : 'payments'} settles everyone
+        </span>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/20 border border-red-800 rounded-lg p-3 flex items-start gap-2">
+          <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-200">{error}</p>
+        </div>
+      )}
+
+      {/* Splits the plan leaves out */}
+      {plan.unconverted_currencies.length > 0 && (
+        <div className="bg-amber-900/20 border border-amber-800 rounded-lg p-3 flex items-start gap-2">
+          <AlertCircle className="w-4 h-4 text-amber-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-amber-200">
+            Splits in {plan.unconverted_currencies.join(', ')} are left out of this plan until an exchange rate is added.
+          </p>
+        </div>
+      )}
+
+      {/* Suggested transfers */}
+      <div className="space-y-2">
+        {plan.transfers.map((transfer) => (
+          <div
+            key={`${transfer.from_user_id}-${transfer.to_user_id}`}
+            className="flex items-center justify-between p-3 bg-gray-700 rounded-lg"
+          >
+            <div className="flex items-center gap-2 text-sm text-white">
+              <span className="font-medium">{nameOf(transfer.from_user_id)}</span>
+              <ArrowRight className="w-4 h-4 text-gray-400" />
+              <span className="font-medium">{nameOf(transfer.to_user_id)}</span>
+            </div>
+            <span className="font-semibold text-purple-400">
+              {formatMoney(transfer.amount, plan.currency)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="text"
+          value={paymentMethod}
+          onChange={(e) => setPaymentMethod(e.target.value)}
+          placeholder="Payment method (optional)"
+          className="flex-1 px-3 py-2 border border-gray-600 rounded-lg bg-gray-700 text-white text-sm"
+        />
+        <button
+          onClick={handleSettleUp}
+          disabled={saving || !user}
+          className="px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Recording...' : 'Settle Up'}
+        </button>
+      </div>
+
+      {/* How each balance was derived */}
+      <div className="space-y-2">
+        <h5 className="text-sm font-medium text-gray-300">Balance History</h5>
+        {plan.balances.map((balance) => {
+          const expanded = expandedUserId === balance.user_id;
+          return (
+            <div key={balance.user_id} className="bg-gray-700 rounded-lg">
+              <button
+                onClick={() => setExpandedUserId(expanded ? null : balance.user_id)}
+                className="w-full flex items-center justify-between p-3 text-sm"
+              >
+                <span className="flex items-center gap-2 text-white">
+                  {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                  {nameOf(balance.user_id)}
+                </span>
+                <span className={`font-semibold ${
+                  balance.net_balance > 0 ? 'text-green-400' : balance.net_balance < 0 ? 'text-red-400' : 'text-gray-400'
+                }`}>
+                  {balance.net_balance > 0 ? '+' : ''}{formatMoney(balance.net_balance, plan.currency)}
+                </span>
+              </button>
+
+              {expanded && (
+                <ul className="px-3 pb-3 space-y-1">
+                  {balance.entries.map((entry) => (
+                    <li key={entry.split_id} className="flex items-center justify-between text-xs text-gray-400">
+                      <span>
+                        {entry.expense_date && `${format(parseISO(entry.expense_date), 'MMM d')} · `}
+                        {entry.expense_title || 'Expense'} — {describeEntry(balance, entry)}
+                      </span>
+                      <span className={entry.debtor_id === balance.user_id ? 'text-red-300' : 'text-green-300'}>
+                        {entry.debtor_id === balance.user_id ? '-' : '+'}{formatMoney(entry.amount, plan.currency)}
+                        {entry.original_currency !== plan.currency && (
+                          <span className="ml-1 text-gray-500">
+                            ({formatMoney(entry.original_amount, entry.original_currency)})
+                          </span>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
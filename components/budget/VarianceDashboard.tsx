@@ -105,6 +105,16 @@ export default function VarianceDashboard({ spaceId }: VarianceDashboardProps) {
 
   return (
     <div className="space-y-6">
+      {/* Amounts the totals leave out */}
+      {currentVariance.unconverted_currencies.length > 0 && (
+        <div className="bg-amber-900/20 border border-amber-600/50 rounded-xl p-4 flex items-center gap-3">
+          <AlertCircle className="w-5 h-5 text-amber-400 flex-shrink-0" />
+          <p className="text-sm text-amber-200">
+            Expenses in {currentVariance.unconverted_currencies.join(', ')} are left out of this analysis. Add an exchange rate to {currentVariance.currency} to include them.
+          </p>
+        </div>
+      )}
+
       {/* Overall Summary */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {/* Current Month */}
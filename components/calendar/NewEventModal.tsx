@@ -77,6 +77,8 @@ export const NewEventModal = memo(function NewEventModal({ isOpen, onClose, onSa
   const [recurringFrequency, setRecurringFrequency] = useState<RecurringFrequency>('weekly');
   const [selectedDaysOfWeek, setSelectedDaysOfWeek] = useState<number[]>([]);
   const [selectedDaysOfMonth, setSelectedDaysOfMonth] = useState<number[]>([]);
+  // Recurrences the form cannot edit (e.g. RRULEs from synced calendars) are kept as-is
+  const [customRecurrence, setCustomRecurrence] = useState<string | null>(null);
   const [dateError, setDateError] = useState<string>('');
   const [linkToShopping, setLinkToShopping] = useState(false);
   const [selectedListId, setSelectedListId] = useState('');
@@ -102,6 +104,7 @@ export const NewEventModal = memo(function NewEventModal({ isOpen, onClose, onSa
       });
 
       // Parse recurrence pattern if it exists
+      setCustomRecurrence(null);
       if (editEvent.recurrence_pattern) {
         const pattern = editEvent.recurrence_pattern;
         if (pattern === 'daily') {
@@ -114,6 +117,8 @@ export const NewEventModal = memo(function NewEventModal({ isOpen, onClose, onSa
           setRecurringFrequency('monthly');
           const days = pattern.split(':')[1].split(',').map(Number);
           setSelectedDaysOfMonth(days);
+        } else {
+          setCustomRecurrence(pattern);
         }
       } else {
         setRecurringFrequency('weekly');
@@ -138,6 +143,7 @@ export const NewEventModal = memo(function NewEventModal({ isOpen, onClose, onSa
       setRecurringFrequency('weekly');
       setSelectedDaysOfWeek([]);
       setSelectedDaysOfMonth([]);
+      setCustomRecurrence(null);
     }
     // Reset attachments, shopping link, and countdown when modal opens/closes
     setAttachedImages([]);
@@ -194,7 +200,9 @@ export const NewEventModal = memo(function NewEventModal({ isOpen, onClose, onSa
       // Build recurrence pattern string if recurring
       let recurrencePattern: string | undefined;
       if (formData.is_recurring) {
-        if (recurringFrequency === 'daily') {
+        if (customRecurrence) {
+          recurrencePattern = customRecurrence;
+        } else if (recurringFrequency === 'daily') {
           recurrencePattern = 'daily';
         } else if (recurringFrequency === 'weekly' && selectedDaysOfWeek.length > 0) {
           recurrencePattern = `weekly:${selectedDaysOfWeek.sort((a, b) => a - b).join(',')}`;
@@ -651,6 +659,11 @@ export const NewEventModal = memo(function NewEventModal({ isOpen, onClose, onSa
           {/* Recurring Frequency Panel */}
           {formData.is_recurring && (
             <div className="space-y-3 sm:space-y-4 p-3 sm:p-4 bg-gray-800 rounded-xl border border-gray-700">
+              {customRecurrence && (
+                <p className="text-xs text-gray-400">
+                  This event uses a custom repeat rule from another calendar. Changing the options below replaces it.
+                </p>
+              )}
               <div>
                 <label htmlFor="field-9" className="block text-sm font-medium text-gray-300 mb-2 cursor-pointer">
                   Frequency
@@ -660,6 +673,7 @@ export const NewEventModal = memo(function NewEventModal({ isOpen, onClose, onSa
                   onChange={(value) => {
                     if (typeof value === 'string' && isRecurringFrequency(value)) {
                       setRecurringFrequency(value);
+                      setCustomRecurrence(null);
                     }
                   }}
                   options={getFrequencyOptions()}
@@ -679,6 +693,7 @@ export const NewEventModal = memo(function NewEventModal({ isOpen, onClose, onSa
                         key={index}
                         type="button"
                         onClick={() => {
+                          setCustomRecurrence(null);
                           setSelectedDaysOfWeek(prev =>
                             prev.includes(index)
                               ? prev.filter(d => d !== index)
@@ -710,6 +725,7 @@ export const NewEventModal = memo(function NewEventModal({ isOpen, onClose, onSa
                         key={day}
                         type="button"
                         onClick={() => {
+                          setCustomRecurrence(null);
                           setSelectedDaysOfMonth(prev =>
                             prev.includes(day)
                               ? prev.filter(d => d !== day)
@@ -5,13 +5,14 @@
  * - Markdown-rendered assistant text
  * - Feature-colored tool results
  * - Typing indicator while streaming
+ * - Undo for the actions the assistant took in this turn
  */
 
 'use client';
 
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Bot, User, ThumbsUp, ThumbsDown } from 'lucide-react';
+import { Bot, User, ThumbsUp, ThumbsDown, Undo2 } from 'lucide-react';
 import type { ChatMessage as ChatMessageType } from '@/lib/types/chat';
 import MarkdownMessage from './MarkdownMessage';
 import TypingIndicator from './TypingIndicator';
@@ -20,11 +21,14 @@ interface ChatMessageProps {
   message: ChatMessageType;
   conversationId?: string;
   onFeedback?: (messageId: string, feedback: 'positive' | 'negative') => void;
+  /** Undo everything the assistant did in this message's turn */
+  onUndo?: (turnId: string) => void;
 }
 
 /** Displays a single AI chat message with markdown rendering and action buttons. */
-export default function ChatMessage({ message, conversationId: _conversationId, onFeedback }: ChatMessageProps) {
+export default function ChatMessage({ message, conversationId: _conversationId, onFeedback, onUndo }: ChatMessageProps) {
   const isUser = message.role === 'user';
+  const canUndo = !isUser && !!message.turnId && !!message.toolCalls?.length && !message.isStreaming;
   const [localFeedback, setLocalFeedback] = useState<'positive' | 'negative' | null>(message.feedback ?? null);
 
   const handleFeedback = (type: 'positive' | 'negative') => {
@@ -101,6 +105,21 @@ export default function ChatMessage({ message, conversationId: _conversationId,
           </div>
         )}
 
+        {/* Undo this turn */}
+        {canUndo && (message.undone ? (
+          <span className="text-xs text-gray-400">Undone</span>
+        ) : onUndo && (
+          <button
+            onClick={() => onUndo(message.turnId!)}
+            className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-md text-gray-400 hover:text-gray-200 hover:bg-gray-700/50 transition-colors"
+            aria-label="Undo this turn"
+            title="Undo everything the assistant did in this reply"
+          >
+            <Undo2 className="w-3 h-3" />
+            <span>Undo</span>
+          </button>
+        ))}
+
         {/* Feedback buttons — only for assistant messages with content, not streaming */}
         {!isUser && message.content && !message.isStreaming && (
           <div className="flex items-center gap-1 mt-0.5">
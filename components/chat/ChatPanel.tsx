@@ -12,7 +12,7 @@
 
 import { useEffect, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, RotateCcw, Bot } from 'lucide-react';
+import { X, RotateCcw, Bot, Undo2 } from 'lucide-react';
 import { useChat } from '@/lib/hooks/useChat';
 import { useAuthWithSpaces } from '@/lib/hooks/useAuthWithSpaces';
 import ChatMessage from './ChatMessage';
@@ -23,6 +23,7 @@ import SuggestionCards from './SuggestionCards';
 import MorningBriefing from './MorningBriefing';
 import { useAISuggestions } from '@/lib/hooks/useAISuggestions';
 import { useAIBriefing } from '@/lib/hooks/useAIBriefing';
+import { showError, showSuccess } from '@/lib/utils/toast';
 
 interface ChatPanelProps {
   spaceId: string;
@@ -54,6 +55,7 @@ export default function ChatPanel({
     sendMessage,
     clearChat,
     stopStreaming,
+    undo,
     clearError,
   } = useChat(spaceId);
 
@@ -67,6 +69,7 @@ export default function ChatPanel({
 
   // Derive whether a retry is possible from messages (safe to read during render)
   const hasLastUserMessage = messages.some((m) => m.role === 'user' && m.content);
+  const hasUndoableAction = messages.some((m) => m.turnId && m.toolCalls?.length && !m.undone);
 
   // Track the last user message for retry
   useEffect(() => {
@@ -115,6 +118,16 @@ export default function ChatPanel({
     }
   }, [conversationId]);
 
+  const handleUndo = useCallback(async (turnId?: string) => {
+    const result = await undo(turnId);
+    if (!result) return;
+    if (result.message) {
+      showSuccess(result.message);
+    } else {
+      showError('Nothing was undone');
+    }
+  }, [undo]);
+
   // ── Shared inner content (used by both persistent and overlay modes) ──
 
   const panelContent = (
@@ -129,6 +142,15 @@ export default function ChatPanel({
         </div>
 
         <div className="flex items-center gap-1">
+          <button
+            onClick={() => handleUndo()}
+            disabled={!hasUndoableAction || isStreaming}
+            className="p-2 rounded-lg hover:bg-gray-700/50 text-gray-400 hover:text-gray-200 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+            aria-label="Undo last assistant action"
+            title="Undo last assistant action"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
           <button
             onClick={clearChat}
             className="p-2 rounded-lg hover:bg-gray-700/50 text-gray-400 hover:text-gray-200 transition-colors"
@@ -183,6 +205,7 @@ export default function ChatPanel({
               message={msg}
               conversationId={conversationId}
               onFeedback={handleFeedback}
+              onUndo={handleUndo}
             />
           ))}
         </AnimatePresence>
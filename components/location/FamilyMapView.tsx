@@ -48,6 +48,10 @@ const Circle = dynamic(
   () => import('react-leaflet').then((mod) => mod.Circle),
   { ssr: false }
 );
+const Polygon = dynamic(
+  () => import('react-leaflet').then((mod) => mod.Polygon),
+  { ssr: false }
+);
 
 interface FamilyMapViewProps {
   spaceId: string;
@@ -459,26 +463,37 @@ function PlaceMarker({ place }: { place: FamilyPlace }) {
     iconAnchor: [14, 14],
   });
 
+  const pathOptions = {
+    color: place.color,
+    fillColor: place.color,
+    fillOpacity: 0.1,
+    weight: 2,
+  };
+
   return (
     <>
       <Marker position={[place.latitude, place.longitude]} icon={icon}>
         <Popup>
           <div className="text-center">
             <p className="font-medium">{place.name}</p>
-            <p className="text-sm text-gray-400">{place.radius_meters}m radius</p>
+            <p className="text-sm text-gray-400">
+              {place.boundary ? 'Custom area' : `${place.radius_meters}m radius`}
+            </p>
           </div>
         </Popup>
       </Marker>
-      <Circle
-        center={[place.latitude, place.longitude]}
-        radius={place.radius_meters}
-        pathOptions={{
-          color: place.color,
-          fillColor: place.color,
-          fillOpacity: 0.1,
-          weight: 2,
-        }}
-      />
+      {place.boundary ? (
+        <Polygon
+          positions={place.boundary.map((point) => [point.latitude, point.longitude] as [number, number])}
+          pathOptions={pathOptions}
+        />
+      ) : (
+        <Circle
+          center={[place.latitude, place.longitude]}
+          radius={place.radius_meters}
+          pathOptions={pathOptions}
+        />
+      )}
     </>
   );
 }
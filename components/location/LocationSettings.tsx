@@ -88,6 +88,7 @@ export function LocationSettings({ spaceId, className }: LocationSettingsProps)
     longitude: 0,
     address: null as string | null,
     radius_meters: 150,
+    dwell_seconds: 60,
     notify_on_arrival: true,
     notify_on_departure: true,
   });
@@ -126,6 +127,7 @@ export function LocationSettings({ spaceId, className }: LocationSettingsProps)
         longitude: 0,
         address: null,
         radius_meters: 150,
+        dwell_seconds: 60,
         notify_on_arrival: true,
         notify_on_departure: true,
       });
@@ -381,7 +383,7 @@ export function LocationSettings({ spaceId, className }: LocationSettingsProps)
                       <div>
                         <p className="font-medium text-white">{place.name}</p>
                         <p className="text-xs text-gray-400">
-                          {place.radius_meters}m radius
+                          {place.boundary ? 'Custom area' : `${place.radius_meters}m radius`}
                           {place.notify_on_arrival && ' • Arrival alerts'}
                           {place.notify_on_departure && ' • Departure alerts'}
                         </p>
@@ -528,6 +530,26 @@ export function LocationSettings({ spaceId, className }: LocationSettingsProps)
                   </div>
                 </div>
 
+                {/* Arrival delay */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    Count as arrived after: {newPlace.dwell_seconds === 0 ? 'immediately' : `${newPlace.dwell_seconds / 60} min`}
+                  </label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={300}
+                    step={60}
+                    value={newPlace.dwell_seconds}
+                    onChange={(e) => setNewPlace((prev) => ({ ...prev, dwell_seconds: parseInt(e.target.value) }))}
+                    className="w-full"
+                  />
+                  <div className="flex justify-between text-xs text-gray-400">
+                    <span>Immediately</span>
+                    <span>5 min</span>
+                  </div>
+                </div>
+
                 {/* Notifications */}
                 <div className="space-y-2">
                   <label className="flex items-center gap-2 cursor-pointer">
@@ -79,6 +79,12 @@ export function GenerateListModal({
         throw new Error(data.error || 'Failed to generate shopping list');
       }
 
+      if (data.success && !data.data.list) {
+        onClose();
+        showSuccess(data.message || 'Everything for these meals is already in the pantry');
+        return;
+      }
+
       if (data.success && data.data.list) {
         // Call success callback
         if (onSuccess) {
@@ -89,8 +95,11 @@ export function GenerateListModal({
         onClose();
 
         // Show success message with redirect option
+        const pantryNote = data.data.pantryCoveredCount
+          ? ` ${data.data.pantryCoveredCount} already in the pantry.`
+          : '';
         showSuccess(
-          `Shopping list generated with ${data.data.itemCount} item${data.data.itemCount > 1 ? 's' : ''} from ${data.data.recipeCount} recipe${data.data.recipeCount > 1 ? 's' : ''}!`,
+          `Shopping list generated with ${data.data.itemCount} item${data.data.itemCount > 1 ? 's' : ''} from ${data.data.recipeCount} recipe${data.data.recipeCount > 1 ? 's' : ''}!${pantryNote}`,
           {
             label: 'View Shopping Lists',
             onClick: () => window.location.href = '/shopping'
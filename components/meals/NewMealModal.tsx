@@ -85,6 +85,7 @@ export function NewMealModal({ isOpen, onClose, onSave, editMeal, spaceId, recip
       setFormData({
         space_id: spaceId,
         recipe_id: editMeal.recipe_id,
+        servings: editMeal.servings ?? null,
         name: editMeal.name || '',
         meal_type: editMeal.meal_type,
         scheduled_date: dateValue,
@@ -287,7 +288,7 @@ export function NewMealModal({ isOpen, onClose, onSave, editMeal, spaceId, recip
                   <button
                     type="button"
                     onClick={() => {
-                      setFormData({ ...formData, recipe_id: undefined });
+                      setFormData({ ...formData, recipe_id: undefined, servings: null });
                       setIsRecipeSelectorOpen(false);
                     }}
                     className="btn-touch w-full px-4 py-2 flex items-center gap-2 hover:bg-gray-700 transition-colors text-left"
@@ -374,6 +375,22 @@ export function NewMealModal({ isOpen, onClose, onSave, editMeal, spaceId, recip
               </div>
             )}
           </div>
+          {formData.recipe_id && (
+            <div>
+              <label htmlFor="field-servings" className="block text-sm font-medium mb-2 text-white cursor-pointer">Servings (Optional)</label>
+              <input
+                type="number"
+                min={1}
+                max={100}
+                placeholder={selectedRecipe?.servings ? `Recipe makes ${selectedRecipe.servings}` : 'As written'}
+                value={formData.servings ?? ''}
+                id="field-servings"
+                onChange={(e) => setFormData({ ...formData, servings: e.target.value ? Math.min(100, Math.max(1, Number(e.target.value))) : null })}
+                className="w-full input-mobile bg-gray-900 border border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 text-white"
+              />
+              <p className="mt-1 text-xs text-gray-400">Shopping lists generated from this meal scale the recipe to these servings.</p>
+            </div>
+          )}
           {formData.recipe_id && (
             <div className="flex items-center gap-2 p-3 bg-emerald-900/20 border border-emerald-800 rounded-lg">
               <input
@@ -43,6 +43,7 @@ export function NewRecipeModal({ isOpen, onClose, onSave, editRecipe, spaceId, i
   const [tagInput, setTagInput] = useState('');
 
   // AI Import state
+  const [recipeUrl, setRecipeUrl] = useState('');
   const [recipeText, setRecipeText] = useState('');
   const [recipeImage, setRecipeImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
@@ -122,8 +123,8 @@ export function NewRecipeModal({ isOpen, onClose, onSave, editRecipe, spaceId, i
   };
 
   const handleParseRecipe = async () => {
-    if (!recipeText && !recipeImage) {
-      showWarning('Please provide either recipe text or an image');
+    if (!recipeUrl.trim() && !recipeText && !recipeImage) {
+      showWarning('Please provide a recipe link, text or an image');
       return;
     }
 
@@ -146,6 +147,7 @@ export function NewRecipeModal({ isOpen, onClose, onSave, editRecipe, spaceId, i
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
+          url: recipeUrl.trim() || undefined,
           text: recipeText,
           imageBase64,
         }),
@@ -187,7 +189,9 @@ export function NewRecipeModal({ isOpen, onClose, onSave, editRecipe, spaceId, i
         servings: recipe.servings || undefined,
         difficulty: recipe.difficulty || undefined,
         cuisine_type: recipe.cuisine_type || undefined,
-        image_url: '',
+        image_url: recipe.image_url || '',
+        source_url: recipe.source_url,
+        nutrition: recipe.nutrition,
         tags: recipe.tags || [],
       });
 
@@ -409,7 +413,8 @@ export function NewRecipeModal({ isOpen, onClose, onSave, editRecipe, spaceId, i
                 <div className="text-sm text-blue-200">
                   <p className="font-semibold mb-1">How AI Import Works</p>
                   <ul className="list-disc list-inside space-y-1">
-                    <li>Paste recipe text from a website, blog, or document</li>
+                    <li>Paste a link to a recipe page; published recipe data is read directly</li>
+                    <li>Or paste recipe text from a website, blog, or document</li>
                     <li>Or upload a screenshot/photo of a recipe</li>
                     <li>AI will extract ingredients, instructions, and cooking details</li>
                     <li>Review and edit the parsed data before saving</li>
@@ -417,6 +422,31 @@ export function NewRecipeModal({ isOpen, onClose, onSave, editRecipe, spaceId, i
                 </div>
               </div>
 
+              {/* URL Input */}
+              <div>
+                <label htmlFor="recipe-url" className="block text-sm font-medium text-gray-300 mb-2 cursor-pointer">
+                  Recipe Link
+                </label>
+                <input
+                  id="recipe-url"
+                  type="url"
+                  value={recipeUrl}
+                  onChange={(e) => setRecipeUrl(e.target.value)}
+                  placeholder="https://example.com/best-lasagne"
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-orange-500 text-white placeholder-gray-500"
+                />
+              </div>
+
+              {/* Divider */}
+              <div className="relative">
+                <div className="absolute inset-0 flex items-center">
+                  <div className="w-full border-t border-gray-600"></div>
+                </div>
+                <div className="relative flex justify-center text-sm">
+                  <span className="px-4 bg-gray-800 text-gray-400">OR</span>
+                </div>
+              </div>
+
               {/* Text Input */}
               <div>
                 <label htmlFor="field-1" className="block text-sm font-medium text-gray-300 mb-2 cursor-pointer">
@@ -495,7 +525,7 @@ export function NewRecipeModal({ isOpen, onClose, onSave, editRecipe, spaceId, i
               {/* Parse Button */}
               <button
                 onClick={handleParseRecipe}
-                disabled={parsing || (!recipeText && !recipeImage)}
+                disabled={parsing || (!recipeUrl.trim() && !recipeText && !recipeImage)}
                 className="btn-touch w-full py-3 bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white rounded-full font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
               >
                 {parsing ? (
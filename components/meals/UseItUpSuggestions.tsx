@@ -0,0 +1,65 @@
+'use client';
+
+import { useMemo } from 'react';
+import Link from 'next/link';
+import { Clock, ChefHat } from 'lucide-react';
+import type { Recipe } from '@/lib/services/meals-service';
+import { usePantryItems } from '@/lib/hooks/usePantryItems';
+import { getDaysUntilExpiry, suggestRecipesForExpiringItems } from '@/lib/utils/pantry-helpers';
+
+interface UseItUpSuggestionsProps {
+  spaceId: string | undefined;
+  recipes: Recipe[];
+  onPlanMeal: (recipe: Recipe) => void;
+}
+
+function dueLabel(expiresOn: string | null): string {
+  const days = getDaysUntilExpiry(expiresOn);
+  if (days === null || days > 1) return '';
+  return days === 0 ? ' (today)' : ' (tomorrow)';
+}
+
+/** Renders saved recipes that would use up pantry items before they expire. */
+export function UseItUpSuggestions({ spaceId, recipes, onPlanMeal }: UseItUpSuggestionsProps) {
+  const { items } = usePantryItems(spaceId);
+  const suggestions = useMemo(() => suggestRecipesForExpiringItems(recipes, items), [recipes, items]);
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800 border border-amber-700/50 rounded-xl p-4 sm:p-6">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 bg-amber-500 rounded-lg flex items-center justify-center flex-shrink-0">
+            <Clock className="w-4 h-4 text-white" />
+          </div>
+          <div>
+            <h2 className="text-base sm:text-lg font-bold text-white">Use It Up</h2>
+            <p className="text-xs sm:text-sm text-gray-400">Recipes for pantry items expiring soon</p>
+          </div>
+        </div>
+        <Link href="/pantry" className="text-xs sm:text-sm text-amber-400 hover:text-amber-300 transition-colors whitespace-nowrap">
+          View pantry
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {suggestions.map(({ recipe, expiringItems }) => (
+          <div key={recipe.id} className="flex flex-col gap-2 p-3 bg-gray-900/50 border border-gray-700 rounded-lg">
+            <p className="text-sm font-medium text-white truncate">{recipe.name}</p>
+            <p className="text-xs text-amber-300 line-clamp-2">
+              Uses {expiringItems.map((item) => `${item.name}${dueLabel(item.expires_on)}`).join(', ')}
+            </p>
+            <button
+              onClick={() => onPlanMeal(recipe)}
+              className="mt-auto self-start px-3 py-1.5 bg-orange-500 hover:bg-orange-600 text-white text-xs font-medium rounded-full transition-colors flex items-center gap-1.5"
+            >
+              <ChefHat className="w-3.5 h-3.5" />
+              Plan it
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useMemo } from 'react';
+import { format, startOfWeek, endOfWeek } from 'date-fns';
+import { Wallet } from 'lucide-react';
+import type { Meal } from '@/lib/services/meals-service';
+import { usePriceBook } from '@/lib/hooks/usePriceBook';
+import { estimateMealPlanCost } from '@/lib/utils/price-helpers';
+
+interface WeeklyMealCostProps {
+  spaceId: string | undefined;
+  meals: Meal[];
+  /** Any day in the week to cost */
+  currentWeek: Date;
+}
+
+/** Renders the estimated grocery cost of the week's planned meals. */
+export function WeeklyMealCost({ spaceId, meals, currentWeek }: WeeklyMealCostProps) {
+  const { priceBook } = usePriceBook(spaceId);
+  const weekStart = format(startOfWeek(currentWeek), 'yyyy-MM-dd');
+  const weekEnd = format(endOfWeek(currentWeek), 'yyyy-MM-dd');
+
+  const estimate = useMemo(() => {
+    const weekMeals = meals.filter((meal) => {
+      const date = meal.scheduled_date.slice(0, 10);
+      return date >= weekStart && date <= weekEnd;
+    });
+    return estimateMealPlanCost(weekMeals, priceBook);
+  }, [meals, priceBook, weekStart, weekEnd]);
+
+  if (estimate.counted === 0) return null;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-xl p-4 sm:p-6 flex items-center gap-3">
+      <div className="w-8 h-8 bg-emerald-600 rounded-lg flex items-center justify-center flex-shrink-0">
+        <Wallet className="w-4 h-4 text-white" />
+      </div>
+      <div className="min-w-0">
+        <p className="text-base sm:text-lg font-bold text-white">
+          ≈ ${estimate.total.toFixed(2)} <span className="text-sm font-normal text-gray-400">for this week&apos;s meals</span>
+        </p>
+        <p className="text-xs sm:text-sm text-gray-400">
+          Estimated from past prices for {estimate.counted} meal{estimate.counted === 1 ? '' : 's'}
+          {estimate.skipped > 0 && ` · ${estimate.skipped} not priced yet`}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useMemo } from 'react';
+import { format, startOfWeek, endOfWeek } from 'date-fns';
+import { Activity } from 'lucide-react';
+import type { Meal } from '@/lib/services/meals-service';
+import { NUTRIENTS, formatNutrient, summarizeMealPlanNutrition } from '@/lib/utils/nutrition';
+
+interface WeeklyNutritionSummaryProps {
+  meals: Meal[];
+  /** Any day in the week to summarise */
+  currentWeek: Date;
+}
+
+/** Nutrients shown per member; the week's totals show them all */
+const MEMBER_NUTRIENTS = NUTRIENTS.filter(({ key }) =>
+  ['calories', 'protein_g', 'carbohydrate_g', 'fat_g', 'fiber_g', 'sodium_mg'].includes(key)
+);
+
+/** Renders the week's planned nutrition, in total and by assigned member. */
+export function WeeklyNutritionSummary({ meals, currentWeek }: WeeklyNutritionSummaryProps) {
+  const weekStart = format(startOfWeek(currentWeek), 'yyyy-MM-dd');
+  const weekEnd = format(endOfWeek(currentWeek), 'yyyy-MM-dd');
+
+  const summary = useMemo(() => {
+    const weekMeals = meals.filter((meal) => {
+      const date = meal.scheduled_date.slice(0, 10);
+      return date >= weekStart && date <= weekEnd;
+    });
+    return summarizeMealPlanNutrition(weekMeals);
+  }, [meals, weekStart, weekEnd]);
+
+  if (summary.counted === 0) return null;
+
+  const totals = NUTRIENTS.filter(({ key }) => summary.total[key] !== undefined);
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-xl p-4 sm:p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <div className="w-8 h-8 bg-emerald-500 rounded-lg flex items-center justify-center flex-shrink-0">
+          <Activity className="w-4 h-4 text-white" />
+        </div>
+        <div>
+          <h2 className="text-base sm:text-lg font-bold text-white">Weekly Nutrition</h2>
+          <p className="text-xs sm:text-sm text-gray-400">
+            {format(startOfWeek(currentWeek), 'MMM d')} – {format(endOfWeek(currentWeek), 'MMM d')} · {summary.counted} meal{summary.counted === 1 ? '' : 's'}
+            {summary.skipped > 0 && ` (${summary.skipped} without nutrition info)`}
+          </p>
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-2 mb-4">
+        {totals.map(({ key, label, unit }) => (
+          <div key={key} className="p-2 bg-gray-900/50 border border-gray-700 rounded-lg">
+            <dt className="text-xs text-gray-400">{label}</dt>
+            <dd className="text-sm font-semibold text-white">{formatNutrient(summary.total[key], unit)}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs sm:text-sm">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-gray-700">
+              <th className="py-2 pr-3 font-medium">Member</th>
+              <th className="py-2 pr-3 font-medium">Meals</th>
+              {MEMBER_NUTRIENTS.map(({ key, label }) => (
+                <th key={key} className="py-2 pr-3 font-medium whitespace-nowrap">{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {summary.byMember.map((member) => (
+              <tr key={member.memberId ?? 'unassigned'} className="border-b border-gray-700/50 last:border-0">
+                <td className={`py-2 pr-3 ${member.memberId ? 'text-white' : 'text-gray-400 italic'}`}>{member.name}</td>
+                <td className="py-2 pr-3 text-gray-300">{member.meals}</td>
+                {MEMBER_NUTRIENTS.map(({ key, unit }) => (
+                  <td key={key} className="py-2 pr-3 text-gray-300 whitespace-nowrap">
+                    {formatNutrient(member.nutrition[key], unit)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-3 text-xs text-gray-500">Estimated from recipe ingredients where no nutrition facts are published.</p>
+    </div>
+  );
+}
@@ -175,6 +175,7 @@ function NotificationIcon({ type }: { type?: string }) {
   switch (type) {
     case 'location_arrival':
     case 'location_departure':
+    case 'location_reminder':
       return <MapPin className="w-5 h-5 text-white" />;
     case 'message_received':
       return <MessageCircle className="w-5 h-5 text-white" />;
@@ -198,6 +199,7 @@ function getColorForType(type?: string): string {
   switch (type) {
     case 'location_arrival':
     case 'location_departure':
+    case 'location_reminder':
       return 'bg-cyan-500';
     case 'message_received':
       return 'bg-green-500';
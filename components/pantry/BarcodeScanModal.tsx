@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Loader2, ScanLine } from 'lucide-react';
+import { pantryService, type BarcodeProduct } from '@/lib/services/pantry-service';
+import { Modal } from '@/components/ui/Modal';
+import { logger } from '@/lib/logger';
+
+const SCANNER_ELEMENT_ID = 'pantry-barcode-scanner';
+
+interface BarcodeScanModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  spaceId: string;
+  /** Called with the product found for the scanned code, or a bare barcode if it is unknown */
+  onProduct: (product: BarcodeProduct) => void;
+}
+
+/** Renders a camera barcode scanner that looks up the scanned product for the pantry. */
+export function BarcodeScanModal({ isOpen, onClose, spaceId, onProduct }: BarcodeScanModalProps) {
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState('');
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const handledRef = useRef(false);
+
+  const lookUp = async (code: string) => {
+    if (handledRef.current) return;
+    handledRef.current = true;
+    setIsLookingUp(true);
+
+    let product: BarcodeProduct | null = null;
+    try {
+      product = await pantryService.lookupBarcode(spaceId, code);
+    } catch (error) {
+      logger.error('Barcode lookup failed:', error, { component: 'BarcodeScanModal', action: 'lookup' });
+    }
+
+    // Unknown products still carry the barcode so the next scan finds them
+    onProduct(product ?? { barcode: code, name: '', source: 'pantry' });
+    setIsLookingUp(false);
+  };
+
+  const lookUpRef = useRef(lookUp);
+  useEffect(() => {
+    lookUpRef.current = lookUp;
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    handledRef.current = false;
+    let cancelled = false;
+
+    (async () => {
+      const { isScannerAvailable, startScanner, stopScanner } = await import('@/lib/native/barcode');
+      if (cancelled) return;
+      if (!(await isScannerAvailable())) {
+        setCameraError('No camera found. Type the number under the barcode instead.');
+        return;
+      }
+      try {
+        await startScanner(SCANNER_ELEMENT_ID, (result) => {
+          stopScanner();
+          lookUpRef.current(result.text);
+        });
+      } catch {
+        setCameraError('Camera access was denied. Type the number under the barcode instead.');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      import('@/lib/native/barcode').then(({ stopScanner }) => stopScanner()).catch(() => {
+        // Scanner never started
+      });
+    };
+  }, [isOpen]);
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = manualCode.trim();
+    if (code) lookUp(code);
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Scan a Barcode"
+      subtitle="Point the camera at a product's barcode"
+      maxWidth="md"
+      headerGradient="bg-gradient-to-r from-emerald-500 to-teal-600"
+      testId="barcode-scan-modal"
+    >
+      <div className="space-y-4">
+        {isLookingUp ? (
+          <div className="flex flex-col items-center justify-center gap-3 py-12 text-gray-400">
+            <Loader2 className="w-8 h-8 animate-spin text-emerald-400" />
+            <p className="text-sm">Looking up product…</p>
+          </div>
+        ) : cameraError ? (
+          <div className="flex flex-col items-center justify-center gap-3 py-8 text-center">
+            <ScanLine className="w-10 h-10 text-gray-500" />
+            <p className="text-sm text-gray-400">{cameraError}</p>
+          </div>
+        ) : (
+          <div id={SCANNER_ELEMENT_ID} className="w-full aspect-square overflow-hidden rounded-xl bg-black" />
+        )}
+
+        <form onSubmit={handleManualSubmit} className="flex gap-2">
+          <input
+            type="text"
+            inputMode="numeric"
+            value={manualCode}
+            onChange={(e) => setManualCode(e.target.value)}
+            placeholder="Or enter the barcode number"
+            aria-label="Barcode number"
+            className="flex-1 px-4 py-2.5 bg-gray-900 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 text-white placeholder-gray-500"
+          />
+          <button
+            type="submit"
+            disabled={!manualCode.trim() || isLookingUp}
+            className="px-4 py-2.5 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 transition-colors text-sm"
+          >
+            Look up
+          </button>
+        </form>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,213 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Plus } from 'lucide-react';
+import {
+  PANTRY_LOCATIONS,
+  type BarcodeProduct,
+  type CreatePantryItemInput,
+  type PantryItem,
+  type PantryLocation,
+} from '@/lib/services/pantry-service';
+import { Modal } from '@/components/ui/Modal';
+import { CTAButton, SecondaryButton } from '@/components/ui/EnhancedButton';
+import { Dropdown } from '@/components/ui/Dropdown';
+
+interface PantryItemModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (input: Omit<CreatePantryItemInput, 'space_id'>) => void | Promise<void>;
+  editItem?: PantryItem | null;
+  /** Scanned product to pre-fill a new item with */
+  scannedProduct?: BarcodeProduct | null;
+}
+
+type PantryItemForm = {
+  name: string;
+  quantity: string;
+  unit: string;
+  location: PantryLocation | '';
+  expires_on: string;
+  notes: string;
+};
+
+const buildInitialForm = (editItem?: PantryItem | null, scannedProduct?: BarcodeProduct | null): PantryItemForm => {
+  if (editItem) {
+    return {
+      name: editItem.name,
+      quantity: editItem.quantity?.toString() ?? '',
+      unit: editItem.unit ?? '',
+      location: editItem.location,
+      expires_on: editItem.expires_on ?? '',
+      notes: editItem.notes ?? '',
+    };
+  }
+
+  return {
+    name: scannedProduct
+      ? [scannedProduct.brand, scannedProduct.name].filter(Boolean).join(' ')
+      : '',
+    quantity: scannedProduct?.quantity?.toString() ?? '',
+    unit: scannedProduct?.unit ?? '',
+    location: scannedProduct?.location ?? '',
+    expires_on: '',
+    notes: '',
+  };
+};
+
+const inputClassName =
+  'w-full px-4 py-3 bg-gray-900 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 text-white placeholder-gray-500';
+
+function PantryItemForm({ isOpen, onClose, onSave, editItem, scannedProduct }: PantryItemModalProps) {
+  const [form, setForm] = useState<PantryItemForm>(() => buildInitialForm(editItem, scannedProduct));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSaving || !form.name.trim()) return;
+
+    const quantity = parseFloat(form.quantity);
+    setIsSaving(true);
+    try {
+      await onSave({
+        name: form.name.trim(),
+        quantity: Number.isFinite(quantity) && quantity >= 0 ? quantity : null,
+        unit: form.unit.trim() || null,
+        location: form.location || undefined,
+        category: scannedProduct?.category,
+        expires_on: form.expires_on || null,
+        notes: form.notes.trim() || null,
+        ...(scannedProduct && !editItem ? { barcode: scannedProduct.barcode, source: 'barcode' as const } : {}),
+      });
+      onClose();
+    } catch {
+      // The page reports the failure; keep the form open to retry
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const footerContent = (
+    <div className="flex items-center gap-3">
+      <SecondaryButton
+        type="button"
+        onClick={onClose}
+        feature="shopping"
+        className="rounded-full px-4 sm:px-6"
+      >
+        Cancel
+      </SecondaryButton>
+      <CTAButton
+        type="submit"
+        form="pantry-item-form"
+        feature="shopping"
+        loading={isSaving}
+        icon={editItem ? <Check className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+        className="rounded-full px-4 sm:px-6"
+      >
+        {isSaving ? 'Saving...' : (editItem ? 'Save Changes' : 'Add to Pantry')}
+      </CTAButton>
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={editItem ? 'Edit Pantry Item' : 'Add to Pantry'}
+      subtitle={scannedProduct && !editItem ? `Scanned ${scannedProduct.barcode}` : undefined}
+      maxWidth="lg"
+      headerGradient="bg-gradient-to-r from-emerald-500 to-teal-600"
+      footer={footerContent}
+      testId="pantry-item-modal"
+    >
+      <form id="pantry-item-form" onSubmit={handleSubmit} className="space-y-5">
+        <div>
+          <label htmlFor="pantry-name" className="block text-sm font-medium text-gray-300 mb-2 cursor-pointer">Name *</label>
+          <input
+            id="pantry-name"
+            type="text"
+            required
+            maxLength={200}
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g. Greek yogurt"
+            className={inputClassName}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="pantry-quantity" className="block text-sm font-medium text-gray-300 mb-2 cursor-pointer">Quantity</label>
+            <input
+              id="pantry-quantity"
+              type="number"
+              min="0"
+              step="any"
+              value={form.quantity}
+              onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+              placeholder="Leave blank for “some”"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="pantry-unit" className="block text-sm font-medium text-gray-300 mb-2 cursor-pointer">Unit</label>
+            <input
+              id="pantry-unit"
+              type="text"
+              maxLength={30}
+              value={form.unit}
+              onChange={(e) => setForm({ ...form, unit: e.target.value })}
+              placeholder="g, ml, cups…"
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <span className="block text-sm font-medium text-gray-300 mb-2">Location</span>
+            <Dropdown
+              value={form.location}
+              onChange={(value) => setForm({ ...form, location: value as PantryLocation | '' })}
+              options={[
+                { value: '', label: 'Based on item' },
+                ...PANTRY_LOCATIONS.map((location) => ({ value: location.value, label: `${location.icon} ${location.label}` })),
+              ]}
+            />
+          </div>
+          <div>
+            <label htmlFor="pantry-expires" className="block text-sm font-medium text-gray-300 mb-2 cursor-pointer">Best before</label>
+            <input
+              id="pantry-expires"
+              type="date"
+              value={form.expires_on}
+              onChange={(e) => setForm({ ...form, expires_on: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="pantry-notes" className="block text-sm font-medium text-gray-300 mb-2 cursor-pointer">Notes</label>
+          <input
+            id="pantry-notes"
+            type="text"
+            maxLength={500}
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            placeholder="Opened, top shelf…"
+            className={inputClassName}
+          />
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+/** Renders a modal form for adding or editing a pantry item. */
+export function PantryItemModal(props: PantryItemModalProps) {
+  const { editItem, scannedProduct, isOpen } = props;
+  const formKey = `${editItem?.id ?? scannedProduct?.barcode ?? 'new'}-${isOpen ? 'open' : 'closed'}`;
+  return <PantryItemForm key={formKey} {...props} />;
+}
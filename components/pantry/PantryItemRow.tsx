@@ -0,0 +1,77 @@
+'use client';
+
+import { memo } from 'react';
+import { Minus, Pencil, Trash2 } from 'lucide-react';
+import type { PantryItem } from '@/lib/services/pantry-service';
+import { getDaysUntilExpiry, getExpiryStatus, type ExpiryStatus } from '@/lib/utils/pantry-helpers';
+
+interface PantryItemRowProps {
+  item: PantryItem;
+  onUseOne: (item: PantryItem) => void;
+  onEdit: (item: PantryItem) => void;
+  onRemove: (item: PantryItem) => void;
+}
+
+const EXPIRY_BADGE_STYLES: Record<Exclude<ExpiryStatus, 'none'>, string> = {
+  expired: 'bg-red-900/30 border-red-700 text-red-300',
+  expiring: 'bg-amber-900/30 border-amber-700 text-amber-300',
+  fresh: 'bg-gray-900/50 border-gray-700 text-gray-400',
+};
+
+function expiryLabel(days: number): string {
+  if (days < -1) return `Expired ${-days} days ago`;
+  if (days === -1) return 'Expired yesterday';
+  if (days === 0) return 'Use today';
+  if (days === 1) return 'Use by tomorrow';
+  return `${days} days left`;
+}
+
+/** Renders one pantry item with its amount, expiry badge and quick actions. */
+export const PantryItemRow = memo(function PantryItemRow({ item, onUseOne, onEdit, onRemove }: PantryItemRowProps) {
+  const status = getExpiryStatus(item);
+  const days = getDaysUntilExpiry(item.expires_on);
+  const amount = item.quantity !== null ? `${item.quantity}${item.unit ? ` ${item.unit}` : ''}` : 'Some';
+
+  return (
+    <div className="flex items-center gap-3 p-3 bg-gray-900/50 border border-gray-700 rounded-lg">
+      <div className="flex-1 min-w-0">
+        <p className="text-sm sm:text-base font-medium text-white truncate">{item.name}</p>
+        <div className="flex items-center gap-2 mt-1 flex-wrap">
+          <span className="text-xs text-gray-400">{amount}</span>
+          {status !== 'none' && days !== null && (
+            <span className={`px-2 py-0.5 text-[11px] font-medium border rounded-full ${EXPIRY_BADGE_STYLES[status]}`}>
+              {expiryLabel(days)}
+            </span>
+          )}
+        </div>
+      </div>
+      <div className="flex items-center gap-1 flex-shrink-0">
+        {item.quantity !== null && item.quantity > 1 && (
+          <button
+            onClick={() => onUseOne(item)}
+            className="p-2 text-gray-400 hover:text-emerald-400 hover:bg-emerald-900/20 rounded-lg transition-colors"
+            aria-label={`Use one ${item.name}`}
+            title="Use one"
+          >
+            <Minus className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={() => onEdit(item)}
+          className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+          aria-label={`Edit ${item.name}`}
+        >
+          <Pencil className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => onRemove(item)}
+          className="p-2 text-red-500 hover:bg-red-900/20 rounded-lg transition-colors"
+          aria-label={`Used up ${item.name}`}
+          title="Used up"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+});
@@ -4,6 +4,7 @@ import { useState, useRef } from 'react';
 import { Upload, Camera, Loader, CheckCircle, AlertCircle } from 'lucide-react';
 import { receiptsService } from '@/lib/services/receipts-service';
 import { ocrService } from '@/lib/services/ocr-service';
+import type { ParsedReceiptItem } from '@/lib/services/ocr';
 import { logger } from '@/lib/logger';
 import { Modal } from '@/components/ui/Modal';
 
@@ -35,6 +36,7 @@ export function ReceiptUploadModal({
   const [totalAmount, setTotalAmount] = useState('');
   const [receiptDate, setReceiptDate] = useState('');
   const [category, setCategory] = useState('');
+  const [items, setItems] = useState<ParsedReceiptItem[]>([]);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
@@ -58,6 +60,7 @@ export function ReceiptUploadModal({
       setTotalAmount(result.total_amount?.toString() || '');
       setReceiptDate(result.receipt_date || '');
       setCategory(result.category || '');
+      setItems(result.items ?? []);
       setOcrComplete(true);
     } catch (err) {
       logger.error('OCR error:', err, { component: 'ReceiptUploadModal', action: 'component_action' });
@@ -90,6 +93,7 @@ export function ReceiptUploadModal({
         total_amount: totalAmount ? parseFloat(totalAmount) : null,
         receipt_date: receiptDate || null,
         category: category || null,
+        items,
       });
 
       onSuccess?.();
@@ -113,6 +117,7 @@ export function ReceiptUploadModal({
     setTotalAmount('');
     setReceiptDate('');
     setCategory('');
+    setItems([]);
     onClose();
   };
 
@@ -3,8 +3,8 @@
 import { useState, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
-import { ChefHat, Plus, X, ArrowLeft, Loader2, Sparkles, Image as ImageIcon, FileText, Info } from 'lucide-react';
-import { mealsService } from '@/lib/services/meals-service';
+import { ChefHat, Plus, X, ArrowLeft, Loader2, Sparkles, Image as ImageIcon, FileText, Info, Link2 } from 'lucide-react';
+import { mealsService, type RecipeNutrition } from '@/lib/services/meals-service';
 import Link from 'next/link';
 import { logger } from '@/lib/logger';
 import { csrfFetch } from '@/lib/utils/csrf-fetch';
@@ -36,8 +36,12 @@ export default function NewRecipeClient({ spaceId }: { spaceId: string }) {
   const [cuisineType, setCuisineType] = useState('');
   const [imageUrl, setImageUrl] = useState('');
   const [tags, setTags] = useState('');
+  // Kept from an import; not editable in the form
+  const [sourceUrl, setSourceUrl] = useState<string | undefined>();
+  const [nutrition, setNutrition] = useState<RecipeNutrition | undefined>();
 
   // AI Import fields
+  const [recipeUrl, setRecipeUrl] = useState('');
   const [recipeText, setRecipeText] = useState('');
   const [recipeImage, setRecipeImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
@@ -72,8 +76,8 @@ export default function NewRecipeClient({ spaceId }: { spaceId: string }) {
   };
 
   const handleParseRecipe = async () => {
-    if (!recipeText && !recipeImage) {
-      showWarning('Please provide either recipe text or an image');
+    if (!recipeUrl.trim() && !recipeText && !recipeImage) {
+      showWarning('Please provide a recipe link, text or an image');
       return;
     }
 
@@ -96,6 +100,7 @@ export default function NewRecipeClient({ spaceId }: { spaceId: string }) {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
+          url: recipeUrl.trim() || undefined,
           text: recipeText,
           imageBase64,
         }),
@@ -119,6 +124,9 @@ export default function NewRecipeClient({ spaceId }: { spaceId: string }) {
       setDifficulty(recipe.difficulty || '');
       setCuisineType(recipe.cuisine_type || '');
       setTags(recipe.tags?.join(', ') || '');
+      setImageUrl(recipe.image_url || '');
+      setSourceUrl(recipe.source_url);
+      setNutrition(recipe.nutrition);
 
       // Set ingredients
       if (recipe.ingredients && recipe.ingredients.length > 0) {
@@ -168,6 +176,8 @@ export default function NewRecipeClient({ spaceId }: { spaceId: string }) {
         difficulty: difficulty || undefined,
         cuisine_type: cuisineType || undefined,
         image_url: imageUrl.trim() || undefined,
+        source_url: sourceUrl,
+        nutrition,
         tags: tags.trim() ? tags.split(',').map(t => t.trim()).filter(Boolean) : undefined,
       });
 
@@ -249,7 +259,8 @@ export default function NewRecipeClient({ spaceId }: { spaceId: string }) {
               <div className="text-sm text-blue-200">
                 <p className="font-semibold mb-1">How AI Import Works</p>
                 <ul className="list-disc list-inside space-y-1">
-                  <li>Paste recipe text from a website, blog, or document</li>
+                  <li>Paste a link to a recipe page; published recipe data is read directly</li>
+                  <li>Or paste recipe text from a website, blog, or document</li>
                   <li>Or upload a screenshot/photo of a recipe</li>
                   <li>AI will extract ingredients, instructions, and cooking details</li>
                   <li>Review and edit the parsed data before saving</li>
@@ -257,6 +268,34 @@ export default function NewRecipeClient({ spaceId }: { spaceId: string }) {
               </div>
             </div>
 
+            {/* URL Input */}
+            <div>
+              <label htmlFor="recipe-url" className="block text-sm font-medium text-gray-300 mb-2 cursor-pointer">
+                Recipe Link
+              </label>
+              <div className="relative">
+                <Link2 className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+                <input
+                  id="recipe-url"
+                  type="url"
+                  value={recipeUrl}
+                  onChange={(e) => setRecipeUrl(e.target.value)}
+                  placeholder="https://example.com/best-lasagne"
+                  className="w-full pl-9 pr-4 py-3 text-base md:py-2.5 md:text-sm bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-orange-500 text-white placeholder-gray-500"
+                />
+              </div>
+            </div>
+
+            {/* Divider */}
+            <div className="relative">
+              <div className="absolute inset-0 flex items-center">
+                <div className="w-full border-t border-gray-600"></div>
+              </div>
+              <div className="relative flex justify-center text-sm">
+                <span className="px-4 bg-gray-800 text-gray-400">OR</span>
+              </div>
+            </div>
+
             {/* Text Input */}
             <div>
               <label htmlFor="recipe-text" className="block text-sm font-medium text-gray-300 mb-2 cursor-pointer">
@@ -338,7 +377,7 @@ export default function NewRecipeClient({ spaceId }: { spaceId: string }) {
             {/* Parse Button */}
             <button
               onClick={handleParseRecipe}
-              disabled={parsing || (!recipeText && !recipeImage)}
+              disabled={parsing || (!recipeUrl.trim() && !recipeText && !recipeImage)}
               className="w-full py-3 bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white rounded-lg font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
               title={parsing ? 'Parsing recipe...' : 'Parse recipe with AI'}
             >
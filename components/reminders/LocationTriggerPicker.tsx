@@ -0,0 +1,276 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { MapPin, LocateFixed, Loader2 } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import { logger } from '@/lib/logger';
+import { getCurrentPosition } from '@/lib/native';
+import { Dropdown } from '@/components/ui/Dropdown';
+import type { CreateReminderInput } from '@/lib/services/reminders-service';
+import type { FamilyPlace } from '@/lib/services/family-location-service';
+
+/** The location trigger fields of a reminder */
+export type LocationTriggerValue = Pick<
+  CreateReminderInput,
+  | 'location'
+  | 'place_id'
+  | 'location_latitude'
+  | 'location_longitude'
+  | 'location_radius_meters'
+  | 'location_trigger'
+  | 'location_member_ids'
+  | 'location_cooldown_minutes'
+>;
+
+interface SpaceMember {
+  user_id: string;
+  users: {
+    id: string;
+    name: string;
+  };
+}
+
+interface LocationTriggerPickerProps {
+  spaceId: string;
+  value: LocationTriggerValue;
+  onChange: (changes: Partial<LocationTriggerValue>) => void;
+}
+
+const CURRENT_LOCATION = 'current';
+
+const getRadiusOptions = () => [
+  { value: '100', label: '100 m' },
+  { value: '250', label: '250 m' },
+  { value: '500', label: '500 m' },
+  { value: '1000', label: '1 km' },
+];
+
+const getCooldownOptions = () => [
+  { value: '15', label: '15 minutes' },
+  { value: '60', label: '1 hour' },
+  { value: '240', label: '4 hours' },
+  { value: '1440', label: '1 day' },
+];
+
+/** Renders the place, trigger, members and cooldown of a location reminder. */
+export function LocationTriggerPicker({ spaceId, value, onChange }: LocationTriggerPickerProps) {
+  const [places, setPlaces] = useState<FamilyPlace[]>([]);
+  const [members, setMembers] = useState<SpaceMember[]>([]);
+  const [locating, setLocating] = useState(false);
+  const [locateError, setLocateError] = useState('');
+
+  // Fetch saved places and space members
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const supabase = createClient();
+        const [placesResponse, membersResult] = await Promise.all([
+          fetch(`/api/location/places?space_id=${spaceId}`).then(response => response.json()),
+          supabase
+            .from('space_members')
+            .select('user_id, users!user_id (id, name)')
+            .eq('space_id', spaceId),
+        ]);
+
+        if (placesResponse.success) {
+          setPlaces(placesResponse.data || []);
+        }
+        if (membersResult.error) {
+          logger.error('Error fetching space members:', membersResult.error, { component: 'LocationTriggerPicker', action: 'component_action' });
+        } else {
+          setMembers((membersResult.data as unknown as SpaceMember[]) || []);
+        }
+      } catch (error) {
+        logger.error('Error fetching places:', error, { component: 'LocationTriggerPicker', action: 'component_action' });
+      }
+    };
+
+    if (spaceId) {
+      fetchOptions();
+    }
+  }, [spaceId]);
+
+  const hasPoint = value.location_latitude != null && value.location_longitude != null;
+  const selectedPlace = value.place_id ?? (hasPoint ? CURRENT_LOCATION : '');
+  const memberIds = value.location_member_ids ?? [];
+
+  const handleSelectPlace = async (placeId: string) => {
+    setLocateError('');
+
+    if (placeId !== CURRENT_LOCATION) {
+      const place = places.find(p => p.id === placeId);
+      onChange({
+        place_id: placeId || null,
+        location: place?.name,
+        location_latitude: null,
+        location_longitude: null,
+        location_radius_meters: null,
+      });
+      return;
+    }
+
+    // Use an ad-hoc point where the member is standing now
+    setLocating(true);
+    try {
+      const position = await getCurrentPosition();
+      if (!position) {
+        setLocateError('Location is not available on this device');
+        return;
+      }
+      onChange({
+        place_id: null,
+        location: value.place_id ? undefined : value.location,
+        location_latitude: position.latitude,
+        location_longitude: position.longitude,
+        location_radius_meters: value.location_radius_meters ?? 250,
+      });
+    } catch (error) {
+      logger.error('Error getting current position:', error, { component: 'LocationTriggerPicker', action: 'component_action' });
+      setLocateError('Could not get your current location');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const toggleMember = (userId: string) => {
+    onChange({
+      location_member_ids: memberIds.includes(userId)
+        ? memberIds.filter(id => id !== userId)
+        : [...memberIds, userId],
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Place */}
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Place *
+        </label>
+        <Dropdown
+          value={selectedPlace}
+          onChange={handleSelectPlace}
+          options={[
+            ...places.map(place => ({ value: place.id, label: place.name })),
+            { value: CURRENT_LOCATION, label: 'My current location' },
+          ]}
+          placeholder="Select a place..."
+        />
+        {locating && (
+          <p className="mt-2 flex items-center gap-2 text-xs text-gray-400">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Finding your location...
+          </p>
+        )}
+        {locateError && <p className="mt-2 text-xs text-red-400">{locateError}</p>}
+        {places.length === 0 && (
+          <p className="mt-2 flex items-center gap-1.5 text-xs text-gray-400">
+            <MapPin className="w-3 h-3" />
+            Save places like home or your store on the Location page to pick them here.
+          </p>
+        )}
+      </div>
+
+      {/* Ad-hoc point label and radius */}
+      {selectedPlace === CURRENT_LOCATION && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="location-label" className="block text-sm font-medium text-gray-300 mb-2">
+              Name
+            </label>
+            <div className="relative">
+              <LocateFixed className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                id="location-label"
+                type="text"
+                value={value.location || ''}
+                onChange={(e) => onChange({ location: e.target.value })}
+                placeholder="e.g. Gym"
+                maxLength={100}
+                className="w-full pl-9 pr-4 py-2 bg-gray-900 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500 focus:border-pink-500 text-white"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Radius
+            </label>
+            <Dropdown
+              value={String(value.location_radius_meters ?? 250)}
+              onChange={(radius) => onChange({ location_radius_meters: Number(radius) })}
+              options={getRadiusOptions()}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Trigger & Cooldown Row */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Remind when
+          </label>
+          <div className="flex gap-1.5">
+            {([
+              { value: 'arrive', label: 'Arriving' },
+              { value: 'leave', label: 'Leaving' },
+            ] as const).map((trigger) => (
+              <button
+                key={trigger.value}
+                type="button"
+                onClick={() => onChange({ location_trigger: trigger.value })}
+                className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-all ${
+                  (value.location_trigger ?? 'arrive') === trigger.value
+                    ? 'bg-pink-500 text-white shadow-md'
+                    : 'bg-gray-700 text-gray-300 hover:bg-pink-900/30'
+                }`}
+              >
+                {trigger.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            At most every
+          </label>
+          <Dropdown
+            value={String(value.location_cooldown_minutes ?? 60)}
+            onChange={(minutes) => onChange({ location_cooldown_minutes: Number(minutes) })}
+            options={getCooldownOptions()}
+          />
+        </div>
+      </div>
+
+      {/* Members */}
+      {members.length > 1 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            For
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {members.map((member) => (
+              <button
+                key={member.user_id}
+                type="button"
+                onClick={() => toggleMember(member.user_id)}
+                className={`px-3 py-1.5 rounded-full text-sm font-medium transition-all ${
+                  memberIds.includes(member.user_id)
+                    ? 'bg-pink-500 text-white shadow-md'
+                    : 'bg-gray-700 text-gray-300 hover:bg-pink-900/30'
+                }`}
+              >
+                {member.users?.name || 'Member'}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-400">
+            {memberIds.length === 0
+              ? 'Nobody selected: the assignee, or anyone when unassigned'
+              : 'Fires when one of them arrives or leaves'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
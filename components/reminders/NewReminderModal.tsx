@@ -1,9 +1,10 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Smile, Sparkles, Loader2 } from 'lucide-react';
+import { Smile, Sparkles, Loader2, Clock, MapPin } from 'lucide-react';
 import { CreateReminderInput, Reminder } from '@/lib/services/reminders-service';
 import { UserPicker } from './UserPicker';
+import { LocationTriggerPicker } from './LocationTriggerPicker';
 import { TemplatePicker } from './TemplatePicker';
 import { AttachmentUploader } from './AttachmentUploader';
 import { AttachmentList } from './AttachmentList';
@@ -75,6 +76,15 @@ export function NewReminderModal({ isOpen, onClose, onSave, editReminder, spaceI
         status: editReminder.status || 'active',
         repeat_pattern: editReminder.repeat_pattern || '',
         assigned_to: editReminder.assigned_to || undefined,
+        reminder_type: editReminder.reminder_type || 'time',
+        location: editReminder.location || undefined,
+        place_id: editReminder.place_id ?? null,
+        location_latitude: editReminder.location_latitude ?? null,
+        location_longitude: editReminder.location_longitude ?? null,
+        location_radius_meters: editReminder.location_radius_meters ?? null,
+        location_trigger: editReminder.location_trigger || 'arrive',
+        location_member_ids: editReminder.location_member_ids || [],
+        location_cooldown_minutes: editReminder.location_cooldown_minutes ?? 60,
       });
 
       // Populate repeat days based on pattern
@@ -98,6 +108,7 @@ export function NewReminderModal({ isOpen, onClose, onSave, editReminder, spaceI
         priority: 'medium',
         status: 'active',
         assigned_to: undefined,
+        reminder_type: 'time',
       });
 
       setSelectedWeekdays([]);
@@ -148,8 +159,16 @@ export function NewReminderModal({ isOpen, onClose, onSave, editReminder, spaceI
     setIsSaving(true);
 
     try {
+      const isLocation = formData.reminder_type === 'location';
+
+      // Location reminders need a saved place or a point to watch
+      if (isLocation && !formData.place_id && formData.location_latitude == null) {
+        setDateError('Choose a place for this reminder');
+        return;
+      }
+
       // Validate reminder time is not in the past
-      if (formData.reminder_time) {
+      if (!isLocation && formData.reminder_time) {
         const reminderDate = new Date(formData.reminder_time);
         const now = new Date();
 
@@ -166,7 +185,7 @@ export function NewReminderModal({ isOpen, onClose, onSave, editReminder, spaceI
       const submissionData: CreateReminderInput = {
         ...formData,
         // Convert datetime-local format to ISO string for database
-        reminder_time: formData.reminder_time ? new Date(formData.reminder_time).toISOString() : undefined,
+        reminder_time: !isLocation && formData.reminder_time ? new Date(formData.reminder_time).toISOString() : undefined,
       };
 
       // Add repeat_days if applicable
@@ -379,31 +398,75 @@ export function NewReminderModal({ isOpen, onClose, onSave, editReminder, spaceI
             onSelect={(userId) => setFormData({ ...formData, assigned_to: userId || undefined })}
           />
 
-          {/* Reminder Time */}
+          {/* Trigger Type */}
           <div>
-            <DateTimePicker
-              value={formData.reminder_time || ''}
-              onChange={(value) => {
-                setFormData({ ...formData, reminder_time: value });
-
-                // Validate on change
-                if (value) {
-                  const reminderDate = new Date(value);
-                  const now = new Date();
-
-                  if (reminderDate < now) {
-                    setDateError('Reminder time cannot be in the past');
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Remind Me
+            </label>
+            <div className="flex gap-1.5">
+              {[
+                { value: 'time', label: 'At a time', icon: Clock },
+                { value: 'location', label: 'At a place', icon: MapPin },
+              ].map((type) => (
+                <button
+                  key={type.value}
+                  type="button"
+                  onClick={() => {
+                    setFormData({ ...formData, reminder_type: type.value as CreateReminderInput['reminder_type'] });
+                    setDateError('');
+                  }}
+                  className={`flex-1 flex items-center justify-center gap-1.5 px-3 py-2 rounded-full text-sm font-medium transition-all ${
+                    (formData.reminder_type || 'time') === type.value
+                      ? 'bg-pink-500 text-white shadow-md'
+                      : 'bg-gray-700 text-gray-300 hover:bg-pink-900/30'
+                  }`}
+                >
+                  <type.icon className="w-4 h-4" />
+                  {type.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Reminder Place or Time */}
+          {formData.reminder_type === 'location' ? (
+            <div>
+              <LocationTriggerPicker
+                spaceId={spaceId}
+                value={formData}
+                onChange={(changes) => {
+                  setFormData(prev => ({ ...prev, ...changes }));
+                  setDateError('');
+                }}
+              />
+              {dateError && <p className="mt-2 text-sm text-red-400">{dateError}</p>}
+            </div>
+          ) : (
+            <div>
+              <DateTimePicker
+                value={formData.reminder_time || ''}
+                onChange={(value) => {
+                  setFormData({ ...formData, reminder_time: value });
+
+                  // Validate on change
+                  if (value) {
+                    const reminderDate = new Date(value);
+                    const now = new Date();
+
+                    if (reminderDate < now) {
+                      setDateError('Reminder time cannot be in the past');
+                    } else {
+                      setDateError('');
+                    }
                   } else {
                     setDateError('');
                   }
-                } else {
-                  setDateError('');
-                }
-              }}
-              label="Reminder Time"
-              placeholder="Click to select date and time..."
-            />
-          </div>
+                }}
+                label="Reminder Time"
+                placeholder="Click to select date and time..."
+              />
+            </div>
+          )}
 
           {/* Priority & Status Row */}
           <div className="grid grid-cols-2 gap-4">
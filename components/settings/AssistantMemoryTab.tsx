@@ -0,0 +1,315 @@
+/**
+ * Assistant Memory Tab Component
+ * Lists what the AI assistant remembers about the current space, lets members
+ * add, edit and delete memories, and approve or reject ones proposed in chat
+ * Used in Settings page as a tab
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuthWithSpaces } from '@/lib/hooks/useAuthWithSpaces';
+import { logger } from '@/lib/logger';
+import { csrfFetch } from '@/lib/utils/csrf-fetch';
+import {
+  Brain,
+  Check,
+  X,
+  Pencil,
+  Trash2,
+  Plus,
+  AlertCircle,
+  Loader2,
+} from 'lucide-react';
+import { MEMORY_CATEGORIES, type AIMemory, type MemoryCategory } from '@/lib/types/ai';
+
+const CATEGORY_LABELS: Record<MemoryCategory, string> = {
+  dietary: 'Dietary',
+  allergy: 'Allergy',
+  preference: 'Preference',
+  schedule: 'Schedule',
+  household: 'Household',
+  other: 'Other',
+};
+
+/** Renders the assistant memory settings tab for the current space. */
+export function AssistantMemoryTab() {
+  const { user, currentSpace } = useAuthWithSpaces();
+
+  const [memories, setMemories] = useState<AIMemory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newContent, setNewContent] = useState('');
+  const [newCategory, setNewCategory] = useState<MemoryCategory>('preference');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+
+  const loadMemories = useCallback(async () => {
+    if (!currentSpace?.id) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/ai/memories?spaceId=${currentSpace.id}`);
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to load memories');
+      }
+
+      const data = await response.json();
+      setMemories(data.data || []);
+    } catch (err) {
+      logger.error('Error loading memories:', err, { component: 'AssistantMemoryTab', action: 'component_action' });
+      setError(err instanceof Error ? err.message : 'Failed to load memories');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentSpace?.id]);
+
+  useEffect(() => {
+    if (!currentSpace?.id) return;
+    loadMemories();
+  }, [currentSpace?.id, loadMemories]);
+
+  const runAction = async (id: string | null, action: () => Promise<Response>, fallbackError: string) => {
+    setBusyId(id);
+    setError(null);
+
+    try {
+      const response = await action();
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || fallbackError);
+      }
+      await loadMemories();
+      return true;
+    } catch (err) {
+      logger.error(`${fallbackError}:`, err, { component: 'AssistantMemoryTab', action: 'component_action' });
+      setError(err instanceof Error ? err.message : fallbackError);
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleAdd = async () => {
+    const content = newContent.trim();
+    if (!content || !currentSpace?.id) return;
+
+    setIsAdding(true);
+    const ok = await runAction(null, () => csrfFetch('/api/ai/memories', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ spaceId: currentSpace.id, content, category: newCategory }),
+    }), 'Failed to add memory');
+    setIsAdding(false);
+    if (ok) setNewContent('');
+  };
+
+  const handleSaveEdit = async (id: string) => {
+    const content = editContent.trim();
+    if (!content) return;
+
+    const ok = await runAction(id, () => csrfFetch(`/api/ai/memories/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content }),
+    }), 'Failed to update memory');
+    if (ok) setEditingId(null);
+  };
+
+  const handleApprove = (id: string) =>
+    runAction(id, () => csrfFetch(`/api/ai/memories/${id}/approve`, { method: 'POST' }), 'Failed to approve memory');
+
+  const handleDelete = (id: string) =>
+    runAction(id, () => csrfFetch(`/api/ai/memories/${id}`, { method: 'DELETE' }), 'Failed to delete memory');
+
+  if (!user || !currentSpace) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-400">Please sign in to manage assistant memory.</p>
+      </div>
+    );
+  }
+
+  const proposals = memories.filter((m) => m.status === 'proposed');
+  const active = memories.filter((m) => m.status === 'active');
+
+  return (
+    <div className="space-y-6">
+      {/* Error Alert */}
+      {error && (
+        <div className="bg-red-900/20 border border-red-800 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle aria-hidden="true" className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <h4 className="font-medium text-red-100 mb-1">Error</h4>
+            <p className="text-sm text-red-300">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Proposals Card */}
+      {proposals.length > 0 && (
+        <div className="bg-gray-800 rounded-xl border border-purple-800 shadow-sm overflow-hidden">
+          <div className="p-6 border-b border-gray-700">
+            <h2 className="text-xl font-semibold text-white">Suggested from your chats</h2>
+            <p className="text-sm text-gray-400 mt-1">
+              The assistant only uses these after you approve them.
+            </p>
+          </div>
+          <div className="p-6 space-y-2">
+            {proposals.map((memory) => (
+              <div key={memory.id} className="flex items-center gap-3 p-4 border border-gray-700 rounded-lg">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white">{memory.content}</p>
+                  <p className="text-xs text-gray-400">{CATEGORY_LABELS[memory.category]}</p>
+                </div>
+                <button
+                  onClick={() => handleApprove(memory.id)}
+                  disabled={busyId === memory.id}
+                  aria-label="Approve memory"
+                  className="p-2 text-emerald-400 hover:text-emerald-300 transition-colors disabled:opacity-50"
+                >
+                  <Check className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(memory.id)}
+                  disabled={busyId === memory.id}
+                  aria-label="Reject memory"
+                  className="p-2 text-gray-400 hover:text-red-400 transition-colors disabled:opacity-50"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Memories Card */}
+      <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-sm overflow-hidden">
+        <div className="p-6 border-b border-gray-700">
+          <h2 className="text-xl font-semibold text-white flex items-center gap-2">
+            <Brain className="w-5 h-5 text-gray-400" />
+            What the assistant remembers ({active.length})
+          </h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Shared with everyone in {currentSpace.name}. The assistant uses these in every chat.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {/* Add Memory */}
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              value={newContent}
+              onChange={(e) => setNewContent(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+              maxLength={500}
+              placeholder='e.g. "We eat vegetarian on Mondays"'
+              className="flex-1 px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <select
+              value={newCategory}
+              onChange={(e) => setNewCategory(e.target.value as MemoryCategory)}
+              aria-label="Category"
+              className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              {MEMORY_CATEGORIES.map((category) => (
+                <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAdd}
+              disabled={isAdding || !newContent.trim()}
+              className="flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              Add
+            </button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+            </div>
+          ) : active.length === 0 ? (
+            <div className="text-center py-12">
+              <Brain className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-400">Nothing remembered yet</p>
+              <p className="text-sm text-gray-400 mt-1">
+                Add allergies, diets and household routines so the assistant keeps them in mind
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {active.map((memory) => (
+                <div key={memory.id} className="flex items-center gap-3 p-4 border border-gray-700 rounded-lg">
+                  {editingId === memory.id ? (
+                    <>
+                      <input
+                        type="text"
+                        value={editContent}
+                        onChange={(e) => setEditContent(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleSaveEdit(memory.id); }}
+                        maxLength={500}
+                        aria-label="Memory"
+                        className="flex-1 px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      />
+                      <button
+                        onClick={() => handleSaveEdit(memory.id)}
+                        disabled={busyId === memory.id}
+                        aria-label="Save memory"
+                        className="p-2 text-emerald-400 hover:text-emerald-300 transition-colors disabled:opacity-50"
+                      >
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setEditingId(null)}
+                        aria-label="Cancel editing"
+                        className="p-2 text-gray-400 hover:text-white transition-colors"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-white">{memory.content}</p>
+                        <p className="text-xs text-gray-400">
+                          {CATEGORY_LABELS[memory.category]}{memory.source === 'chat' ? ' • from chat' : ''}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => { setEditingId(memory.id); setEditContent(memory.content); }}
+                        aria-label="Edit memory"
+                        className="p-2 text-gray-400 hover:text-white transition-colors"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(memory.id)}
+                        disabled={busyId === memory.id}
+                        aria-label="Delete memory"
+                        className="p-2 text-gray-400 hover:text-red-400 transition-colors disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
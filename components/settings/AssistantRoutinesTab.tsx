@@ -0,0 +1,424 @@
+/**
+ * Assistant Routines Tab Component
+ * Lets members schedule instructions for the AI assistant ("every Sunday at
+ * 6pm plan next week's meals") and review the drafts each run produces
+ * before anything is changed
+ * Used in Settings page as a tab
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuthWithSpaces } from '@/lib/hooks/useAuthWithSpaces';
+import { logger } from '@/lib/logger';
+import { csrfFetch } from '@/lib/utils/csrf-fetch';
+import {
+  Repeat,
+  Check,
+  X,
+  Pause,
+  Play,
+  Trash2,
+  Plus,
+  AlertCircle,
+  Loader2,
+} from 'lucide-react';
+import { parseRRule, WEEKDAYS, type Weekday } from '@/lib/services/recurrence';
+import { getZonedDateParts } from '@/lib/utils/timezone-utils';
+import type { AIRoutine, AIRoutineRun, RoutineRunStatus } from '@/lib/types/ai';
+
+type ScheduleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  SU: 'Sunday',
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+};
+
+const RUN_STATUS_LABELS: Record<RoutineRunStatus, string> = {
+  pending_review: 'Awaiting review',
+  no_changes: 'No changes needed',
+  applying: 'Applying',
+  applied: 'Applied',
+  partially_applied: 'Partly applied',
+  rejected: 'Rejected',
+  failed: 'Failed',
+};
+
+function buildRRule(frequency: ScheduleFrequency, weekday: Weekday, monthDay: number): string {
+  if (frequency === 'WEEKLY') return `FREQ=WEEKLY;BYDAY=${weekday}`;
+  if (frequency === 'MONTHLY') return `FREQ=MONTHLY;BYMONTHDAY=${monthDay}`;
+  return 'FREQ=DAILY';
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+}
+
+/** "Every Sunday at 18:00" for the schedules this tab creates; the raw rule otherwise */
+function describeSchedule(routine: AIRoutine): string {
+  const { hour, minute } = getZonedDateParts(new Date(routine.dtstart), routine.timezone);
+  const time = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+
+  try {
+    const rule = parseRRule(routine.rrule);
+    const interval = rule.interval ?? 1;
+    if (rule.freq === 'DAILY' && interval === 1) return `Every day at ${time}`;
+    if (rule.freq === 'WEEKLY' && interval === 1 && rule.byDay?.length === 1) {
+      return `Every ${WEEKDAY_LABELS[rule.byDay[0].weekday]} at ${time}`;
+    }
+    if (rule.freq === 'MONTHLY' && interval === 1 && rule.byMonthDay?.length === 1) {
+      return `On the ${ordinal(rule.byMonthDay[0])} of each month at ${time}`;
+    }
+  } catch {
+    // Fall through to the raw rule
+  }
+  return `${routine.rrule} at ${time}`;
+}
+
+/** Renders the assistant routines settings tab for the current space. */
+export function AssistantRoutinesTab() {
+  const { user, currentSpace } = useAuthWithSpaces();
+  const isSpaceAdmin = currentSpace?.role === 'owner' || currentSpace?.role === 'admin';
+
+  const [routines, setRoutines] = useState<AIRoutine[]>([]);
+  const [runs, setRuns] = useState<AIRoutineRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [frequency, setFrequency] = useState<ScheduleFrequency>('WEEKLY');
+  const [weekday, setWeekday] = useState<Weekday>('SU');
+  const [monthDay, setMonthDay] = useState(1);
+  const [time, setTime] = useState('18:00');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const loadRoutines = useCallback(async () => {
+    if (!currentSpace?.id) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [routinesResponse, runsResponse] = await Promise.all([
+        fetch(`/api/ai/routines?spaceId=${currentSpace.id}`),
+        fetch(`/api/ai/routines/runs?spaceId=${currentSpace.id}`),
+      ]);
+
+      for (const response of [routinesResponse, runsResponse]) {
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to load routines');
+        }
+      }
+
+      const [routinesData, runsData] = await Promise.all([routinesResponse.json(), runsResponse.json()]);
+      setRoutines(routinesData.data || []);
+      setRuns(runsData.data || []);
+    } catch (err) {
+      logger.error('Error loading routines:', err, { component: 'AssistantRoutinesTab', action: 'component_action' });
+      setError(err instanceof Error ? err.message : 'Failed to load routines');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentSpace?.id]);
+
+  useEffect(() => {
+    if (!currentSpace?.id) return;
+    loadRoutines();
+  }, [currentSpace?.id, loadRoutines]);
+
+  const runAction = async (id: string | null, action: () => Promise<Response>, fallbackError: string) => {
+    setBusyId(id);
+    setError(null);
+
+    try {
+      const response = await action();
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || fallbackError);
+      }
+      await loadRoutines();
+      return true;
+    } catch (err) {
+      logger.error(`${fallbackError}:`, err, { component: 'AssistantRoutinesTab', action: 'component_action' });
+      setError(err instanceof Error ? err.message : fallbackError);
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!name.trim() || !instructions.trim() || !currentSpace?.id) return;
+
+    setIsAdding(true);
+    const ok = await runAction(null, () => csrfFetch('/api/ai/routines', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        spaceId: currentSpace.id,
+        name: name.trim(),
+        instructions: instructions.trim(),
+        rrule: buildRRule(frequency, weekday, monthDay),
+        time,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      }),
+    }), 'Failed to add routine');
+    setIsAdding(false);
+    if (ok) {
+      setName('');
+      setInstructions('');
+    }
+  };
+
+  const handleToggle = (routine: AIRoutine) =>
+    runAction(routine.id, () => csrfFetch(`/api/ai/routines/${routine.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ enabled: !routine.enabled }),
+    }), 'Failed to update routine');
+
+  const handleDelete = (id: string) =>
+    runAction(id, () => csrfFetch(`/api/ai/routines/${id}`, { method: 'DELETE' }), 'Failed to delete routine');
+
+  const handleReview = (id: string, decision: 'approve' | 'reject') =>
+    runAction(id, () => csrfFetch(`/api/ai/routines/runs/${id}/${decision}`, { method: 'POST' }),
+      decision === 'approve' ? 'Failed to approve draft' : 'Failed to reject draft');
+
+  if (!user || !currentSpace) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-400">Please sign in to manage assistant routines.</p>
+      </div>
+    );
+  }
+
+  const routineNames = new Map(routines.map((routine) => [routine.id, routine.name]));
+  const drafts = runs.filter((run) => run.status === 'pending_review');
+  const history = runs.filter((run) => run.status !== 'pending_review').slice(0, 10);
+
+  return (
+    <div className="space-y-6">
+      {/* Error Alert */}
+      {error && (
+        <div className="bg-red-900/20 border border-red-800 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle aria-hidden="true" className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <h4 className="font-medium text-red-100 mb-1">Error</h4>
+            <p className="text-sm text-red-300">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Drafts Card */}
+      {drafts.length > 0 && (
+        <div className="bg-gray-800 rounded-xl border border-purple-800 shadow-sm overflow-hidden">
+          <div className="p-6 border-b border-gray-700">
+            <h2 className="text-xl font-semibold text-white">Drafts to review</h2>
+            <p className="text-sm text-gray-400 mt-1">
+              Nothing below has been changed yet. Approving makes the changes as you.
+            </p>
+          </div>
+          <div className="p-6 space-y-4">
+            {drafts.map((run) => (
+              <div key={run.id} className="p-4 border border-gray-700 rounded-lg space-y-3">
+                <div className="flex items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-white">{routineNames.get(run.routine_id) ?? 'Routine'}</p>
+                    <p className="text-xs text-gray-400">{new Date(run.created_at).toLocaleString()}</p>
+                  </div>
+                  <button
+                    onClick={() => handleReview(run.id, 'approve')}
+                    disabled={busyId === run.id}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors text-sm disabled:opacity-50"
+                  >
+                    {busyId === run.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => handleReview(run.id, 'reject')}
+                    disabled={busyId === run.id}
+                    aria-label="Reject draft"
+                    className="p-2 text-gray-400 hover:text-red-400 transition-colors disabled:opacity-50"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+                {run.summary && <p className="text-sm text-gray-300 whitespace-pre-line">{run.summary}</p>}
+                <ul className="space-y-1">
+                  {run.proposed_actions.map((action) => (
+                    <li key={action.ref} className="text-sm text-gray-300 flex items-start gap-2">
+                      <Plus className="w-3.5 h-3.5 text-purple-400 mt-0.5 flex-shrink-0" />
+                      {action.description}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Routines Card */}
+      <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-sm overflow-hidden">
+        <div className="p-6 border-b border-gray-700">
+          <h2 className="text-xl font-semibold text-white flex items-center gap-2">
+            <Repeat className="w-5 h-5 text-gray-400" />
+            Routines ({routines.length})
+          </h2>
+          <p className="text-sm text-gray-400 mt-1">
+            The assistant runs these on schedule in {currentSpace.name} and drafts any changes for review.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {/* Add Routine */}
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              placeholder='Name, e.g. "Weekly meal plan"'
+              className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <textarea
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              maxLength={2000}
+              rows={3}
+              placeholder="e.g. Plan next week's dinners and build the shopping list for them"
+              className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <div className="flex flex-col sm:flex-row gap-2">
+              <select
+                value={frequency}
+                onChange={(e) => setFrequency(e.target.value as ScheduleFrequency)}
+                aria-label="Repeats"
+                className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                <option value="DAILY">Every day</option>
+                <option value="WEEKLY">Every week</option>
+                <option value="MONTHLY">Every month</option>
+              </select>
+              {frequency === 'WEEKLY' && (
+                <select
+                  value={weekday}
+                  onChange={(e) => setWeekday(e.target.value as Weekday)}
+                  aria-label="Day of the week"
+                  className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  {WEEKDAYS.map((day) => (
+                    <option key={day} value={day}>{WEEKDAY_LABELS[day]}</option>
+                  ))}
+                </select>
+              )}
+              {frequency === 'MONTHLY' && (
+                <select
+                  value={monthDay}
+                  onChange={(e) => setMonthDay(Number(e.target.value))}
+                  aria-label="Day of the month"
+                  className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  {Array.from({ length: 28 }, (_, i) => i + 1).map((day) => (
+                    <option key={day} value={day}>{ordinal(day)}</option>
+                  ))}
+                </select>
+              )}
+              <input
+                type="time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                aria-label="Time"
+                className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              <button
+                onClick={handleAdd}
+                disabled={isAdding || !name.trim() || !instructions.trim()}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed sm:ml-auto"
+              >
+                {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                Add
+              </button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+            </div>
+          ) : routines.length === 0 ? (
+            <div className="text-center py-12">
+              <Repeat className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-400">No routines yet</p>
+              <p className="text-sm text-gray-400 mt-1">
+                Try a weekly meal plan or a monthly spending summary
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {routines.map((routine) => (
+                <div key={routine.id} className="flex items-center gap-3 p-4 border border-gray-700 rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm ${routine.enabled ? 'text-white' : 'text-gray-500'}`}>{routine.name}</p>
+                    <p className="text-xs text-gray-400">
+                      {describeSchedule(routine)}{routine.enabled ? '' : ' • paused'}
+                    </p>
+                  </div>
+                  {routine.created_by === user.id && (
+                    <button
+                      onClick={() => handleToggle(routine)}
+                      disabled={busyId === routine.id}
+                      aria-label={routine.enabled ? 'Pause routine' : 'Resume routine'}
+                      className="p-2 text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                    >
+                      {routine.enabled ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                    </button>
+                  )}
+                  {(routine.created_by === user.id || isSpaceAdmin) && (
+                    <button
+                      onClick={() => handleDelete(routine.id)}
+                      disabled={busyId === routine.id}
+                      aria-label="Delete routine"
+                      className="p-2 text-gray-400 hover:text-red-400 transition-colors disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* History Card */}
+      {history.length > 0 && (
+        <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-sm overflow-hidden">
+          <div className="p-6 border-b border-gray-700">
+            <h2 className="text-xl font-semibold text-white">Recent runs</h2>
+          </div>
+          <div className="p-6 space-y-2">
+            {history.map((run) => (
+              <div key={run.id} className="flex items-center gap-3 p-3 border border-gray-700 rounded-lg">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white">{routineNames.get(run.routine_id) ?? 'Routine'}</p>
+                  <p className="text-xs text-gray-400">{new Date(run.created_at).toLocaleString()}</p>
+                </div>
+                <span className="text-xs text-gray-400">{RUN_STATUS_LABELS[run.status]}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
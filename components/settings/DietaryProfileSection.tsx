@@ -0,0 +1,179 @@
+/**
+ * Dietary Profile Section
+ * Lets a member record their allergies, intolerances and diets; planned meals
+ * and recipe searches are checked against everyone's profile in the space
+ * Used in the Profile settings tab
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, Salad, Save } from 'lucide-react';
+import { logger } from '@/lib/logger';
+import { showError, showSuccess } from '@/lib/utils/toast';
+import {
+  ALLERGENS,
+  DIETS,
+  dietaryProfileService,
+  type Diet,
+  type DietaryProfileInput,
+} from '@/lib/services/dietary-profile-service';
+import type { Allergen } from '@/lib/services/ingredient-parser';
+
+const EMPTY_PROFILE: DietaryProfileInput = { allergies: [], intolerances: [], diets: [], notes: '' };
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+interface ChipGroupProps<T extends string> {
+  label: string;
+  hint: string;
+  options: { value: T; label: string }[];
+  selected: T[];
+  onToggle: (value: T) => void;
+  activeClassName: string;
+}
+
+function ChipGroup<T extends string>({ label, hint, options, selected, onToggle, activeClassName }: ChipGroupProps<T>) {
+  return (
+    <fieldset>
+      <legend className="text-xs sm:text-sm font-medium text-gray-300">{label}</legend>
+      <p className="text-xs text-gray-500 mb-2">{hint}</p>
+      <div className="flex flex-wrap gap-2">
+        {options.map((option) => {
+          const active = selected.includes(option.value);
+          return (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => onToggle(option.value)}
+              aria-pressed={active}
+              className={`px-3 py-1.5 rounded-full text-xs sm:text-sm border transition-colors ${
+                active ? activeClassName : 'border-gray-600 text-gray-400 hover:text-white hover:border-gray-500'
+              }`}
+            >
+              {option.label}
+            </button>
+          );
+        })}
+      </div>
+    </fieldset>
+  );
+}
+
+/** Renders the signed-in member's dietary profile editor. */
+export function DietaryProfileSection({ userId }: { userId: string }) {
+  const [profile, setProfile] = useState<DietaryProfileInput>(EMPTY_PROFILE);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    dietaryProfileService.getProfile(userId)
+      .then((saved) => {
+        if (!cancelled && saved) {
+          setProfile({
+            allergies: saved.allergies,
+            intolerances: saved.intolerances,
+            diets: saved.diets,
+            notes: saved.notes ?? '',
+          });
+        }
+      })
+      .catch((error) => {
+        logger.error('Failed to load dietary profile:', error, { component: 'DietaryProfileSection', action: 'execution' });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await dietaryProfileService.saveProfile(userId, profile);
+      showSuccess('Dietary profile saved');
+    } catch (error) {
+      logger.error('Failed to save dietary profile:', error, { component: 'DietaryProfileSection', action: 'execution' });
+      showError('Failed to save dietary profile. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-700 pt-6 sm:pt-8">
+      <div className="flex items-center gap-2 mb-1">
+        <Salad className="w-5 h-5 text-emerald-400" />
+        <h3 className="text-lg sm:text-xl font-bold text-white">Dietary Profile</h3>
+      </div>
+      <p className="text-xs sm:text-sm text-gray-400 mb-4">
+        Everyone in your spaces sees this. Meals and recipe suggestions that don&apos;t suit you are flagged when they&apos;re planned.
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-gray-400 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading...
+        </div>
+      ) : (
+        <div className="space-y-5">
+          <ChipGroup<Allergen>
+            label="Allergies"
+            hint="Never safe to eat"
+            options={ALLERGENS}
+            selected={profile.allergies}
+            onToggle={(value) => setProfile({
+              ...profile,
+              allergies: toggle(profile.allergies, value),
+              intolerances: profile.intolerances.filter((v) => v !== value),
+            })}
+            activeClassName="bg-red-900/40 border-red-700 text-red-200"
+          />
+          <ChipGroup<Allergen>
+            label="Intolerances"
+            hint="Best avoided"
+            options={ALLERGENS.filter((option) => !profile.allergies.includes(option.value))}
+            selected={profile.intolerances}
+            onToggle={(value) => setProfile({ ...profile, intolerances: toggle(profile.intolerances, value) })}
+            activeClassName="bg-amber-900/40 border-amber-700 text-amber-200"
+          />
+          <ChipGroup<Diet>
+            label="Diets"
+            hint="What you eat"
+            options={DIETS}
+            selected={profile.diets}
+            onToggle={(value) => setProfile({ ...profile, diets: toggle(profile.diets, value) })}
+            activeClassName="bg-emerald-900/40 border-emerald-700 text-emerald-200"
+          />
+          <div>
+            <label htmlFor="dietary-notes" className="block text-xs sm:text-sm font-medium text-gray-300 mb-2 cursor-pointer">
+              Notes (Optional)
+            </label>
+            <input
+              type="text"
+              id="dietary-notes"
+              maxLength={500}
+              placeholder="e.g., No mushrooms, mild spice only"
+              value={profile.notes ?? ''}
+              onChange={(e) => setProfile({ ...profile, notes: e.target.value })}
+              className="w-full px-3 sm:px-4 py-2 sm:py-3 text-sm sm:text-base bg-gray-900 border border-gray-600 rounded-lg sm:rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent text-white transition-all"
+            />
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm text-white bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Dietary Profile
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
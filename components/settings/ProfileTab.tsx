@@ -10,6 +10,7 @@ import { csrfFetch } from '@/lib/utils/csrf-fetch';
 import { showError, showWarning } from '@/lib/utils/toast';
 import { logger } from '@/lib/logger';
 import { ConfirmDialog } from '@/components/shared/ConfirmDialog';
+import { DietaryProfileSection } from '@/components/settings/DietaryProfileSection';
 import {
   User,
   Camera,
@@ -359,6 +360,9 @@ export const ProfileTab = memo(function ProfileTab({
           </div>
         </div>
 
+        {/* Dietary Profile */}
+        {user?.id && <DietaryProfileSection userId={user.id} />}
+
         {/* Spaces Management Section */}
         <div className="border-t border-gray-700 pt-6 sm:pt-8">
           <h3 className="text-lg sm:text-xl font-bold text-white mb-4">Your Spaces</h3>
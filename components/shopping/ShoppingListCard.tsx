@@ -9,6 +9,14 @@ import type { ShoppingCategory } from '@/lib/constants/shopping-categories';
 import { Tooltip } from '@/components/ui/Tooltip';
 import { CircularProgress } from '@/components/ui/CircularProgress';
 import { useAuthWithSpaces } from '@/lib/hooks/useAuthWithSpaces';
+import { estimateShoppingListTotal, type PriceBook } from '@/lib/utils/price-helpers';
+import {
+  findSplitStores,
+  findStoreLayout,
+  groupItemsForStore,
+  splitItemsBetweenStores,
+  type StoreLayout,
+} from '@/lib/utils/store-layout-helpers';
 
 interface ShoppingListCardProps {
   list: ShoppingList;
@@ -19,41 +27,62 @@ interface ShoppingListCardProps {
   onSaveAsTemplate?: (list: ShoppingList) => void;
   onScheduleTrip?: (list: ShoppingList) => void;
   onCreateTask?: (list: ShoppingList) => void;
+  /** Shows the list when the member arrives at its store */
+  onRemindAtStore?: (list: ShoppingList) => void;
   onUpdateQuantity?: (itemId: string, newQuantity: number) => void;
+  /** Records what a checked-off item cost (null clears it) */
+  onUpdatePrice?: (itemId: string, price: number | null) => void;
+  /** Learned prices, used to estimate the list's total before the trip */
+  priceBook?: PriceBook;
+  /** Aisle orders of the space's stores, for sorting and splitting the list */
+  storeLayouts?: StoreLayout[];
 }
 
 /** Renders a shopping list card with item count, progress, and actions. */
-export const ShoppingListCard = memo(function ShoppingListCard({ list, onEdit, onDelete, onToggleItem, onCompleteList, onSaveAsTemplate, onScheduleTrip, onCreateTask, onUpdateQuantity }: ShoppingListCardProps) {
+export const ShoppingListCard = memo(function ShoppingListCard({ list, onEdit, onDelete, onToggleItem, onCompleteList, onSaveAsTemplate, onScheduleTrip, onCreateTask, onRemindAtStore, onUpdateQuantity, onUpdatePrice, priceBook, storeLayouts }: ShoppingListCardProps) {
   const [showMenu, setShowMenu] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
   const [editingQuantities, setEditingQuantities] = useState<Record<string, string>>({});
+  const [editingPrices, setEditingPrices] = useState<Record<string, string>>({});
   const { user: _user } = useAuthWithSpaces();
 
   const totalItems = list.items?.length || 0;
   const checkedItems = list.items?.filter(item => item.checked).length || 0;
   const progress = totalItems > 0 ? (checkedItems / totalItems) * 100 : 0;
 
-  // Group items by category
-  const itemsByCategory = useMemo(() => {
-    if (!list.items) return {};
+  const estimate = useMemo(
+    () => (priceBook ? estimateShoppingListTotal(list.items || [], priceBook, list.store_name) : null),
+    [list.items, list.store_name, priceBook]
+  );
+  const estimatedTotal = estimate && estimate.priced > 0 ? estimate.total : list.estimated_total;
 
-    const grouped: Record<string, typeof list.items> = {};
-    list.items.forEach(item => {
-      const category = item.category || 'other';
-      if (!grouped[category]) {
-        grouped[category] = [];
-      }
-      grouped[category].push(item);
-    });
+  // Group items by category, in the aisle order of the chosen store (the
+  // list's own by default), optionally split with a second store
+  const [aisleStore, setAisleStore] = useState<string | null>(null);
+  const [splitStore, setSplitStore] = useState('');
+  const layout = useMemo(
+    () => findStoreLayout(storeLayouts || [], aisleStore ?? list.store_name),
+    [storeLayouts, aisleStore, list.store_name]
+  );
+  const splitOptions = useMemo(
+    () => (layout && list.items ? findSplitStores(list.items, layout, storeLayouts || []) : []),
+    [layout, list.items, storeLayouts]
+  );
+  const splitLayout = splitOptions.find(option => option.name === splitStore) ?? null;
 
-    // Sort categories
-    return Object.keys(grouped)
-      .sort()
-      .reduce((acc, key) => {
-        acc[key] = grouped[key].sort((a, b) => (a.sort_order || 0) - (b.sort_order || 0));
-        return acc;
-      }, {} as Record<string, typeof list.items>);
-  }, [list]);
+  const sections = useMemo(() => {
+    const items = list.items || [];
+    if (layout && splitLayout) {
+      const split = splitItemsBetweenStores(items, layout, splitLayout);
+      return [
+        { store: layout.name, groups: groupItemsForStore(split.first, layout) },
+        { store: splitLayout.name, groups: groupItemsForStore(split.second, splitLayout) },
+      ];
+    }
+    return [{ store: null, groups: groupItemsForStore(items, layout) }];
+  }, [list.items, layout, splitLayout]);
+  const groupCount = sections.reduce((count, section) => count + section.groups.length, 0);
+  const showAll = isExpanded || !!splitLayout;
 
   // Handlers for editable quantity input
   const handleQuantityChange = (itemId: string, value: string) => {
@@ -79,6 +108,28 @@ export const ShoppingListCard = memo(function ShoppingListCard({ list, onEdit, o
     }
   };
 
+  // Handlers for the price paid on checked-off items
+  const handlePriceChange = (itemId: string, value: string) => {
+    if (value === '' || /^\d{0,5}(\.\d{0,2})?$/.test(value)) {
+      setEditingPrices(prev => ({ ...prev, [itemId]: value }));
+    }
+  };
+
+  const handlePriceBlur = (itemId: string, currentPrice: number | undefined) => {
+    const editedValue = editingPrices[itemId];
+    if (editedValue !== undefined) {
+      const price = editedValue === '' ? null : parseFloat(editedValue);
+      if ((price === null || !isNaN(price)) && price !== (currentPrice ?? null)) {
+        onUpdatePrice?.(itemId, price);
+      }
+      setEditingPrices(prev => {
+        const newState = { ...prev };
+        delete newState[itemId];
+        return newState;
+      });
+    }
+  };
+
   const handleQuantityKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
       e.currentTarget.blur(); // Trigger blur to save
@@ -139,75 +190,138 @@ export const ShoppingListCard = memo(function ShoppingListCard({ list, onEdit, o
             </p>
           )}
 
+          {/* Aisle order and two-store split */}
+          {storeLayouts && storeLayouts.length > 0 && totalItems > 0 && (
+            <div className="flex flex-wrap items-center gap-2 sm:gap-3 mt-2 text-[10px] sm:text-xs text-gray-400">
+              <label className="flex items-center gap-1.5">
+                Aisle order
+                <select
+                  value={layout?.name ?? ''}
+                  onChange={(e) => {
+                    setAisleStore(e.target.value);
+                    setSplitStore('');
+                  }}
+                  className="bg-gray-900 border border-gray-700 rounded px-1.5 py-0.5 text-gray-300 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                >
+                  <option value="">By category</option>
+                  {storeLayouts.map(option => (
+                    <option key={option.name} value={option.name}>
+                      {option.name}{option.source === 'learned' ? ' (learned)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {splitOptions.length > 0 && (
+                <label className="flex items-center gap-1.5">
+                  Split with
+                  <select
+                    value={splitLayout?.name ?? ''}
+                    onChange={(e) => setSplitStore(e.target.value)}
+                    className="bg-gray-900 border border-gray-700 rounded px-1.5 py-0.5 text-gray-300 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                  >
+                    <option value="">No second store</option>
+                    {splitOptions.map(option => (
+                      <option key={option.name} value={option.name}>{option.name}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+          )}
+
           {/* Items Preview - Grouped by Category */}
           {list.items && list.items.length > 0 && (
             <div className="space-y-3 mt-2 -mr-7 sm:mr-0">
-              {Object.entries(itemsByCategory).slice(0, isExpanded ? undefined : 2).map(([category, items]) => (
-                <div key={category} className="space-y-1.5">
-                  <div className="flex items-center gap-1.5 mb-1.5">
-                    <span className="text-base sm:text-lg">{getCategoryIcon(category as ShoppingCategory)}</span>
-                    <span className="text-[10px] sm:text-xs font-medium text-gray-300 uppercase tracking-wide">
-                      {getCategoryLabel(category as ShoppingCategory)}
-                    </span>
-                  </div>
-                  {items?.slice(0, isExpanded ? undefined : 3).map((item) => (
-                    <div key={item.id} className="flex items-center justify-between gap-2 ml-0 sm:ml-2 group/item">
-                      {/* Left side: checkbox + item name */}
-                      <div className="flex items-center gap-2 min-w-0 flex-1">
-                        <Tooltip content={item.checked ? 'Mark as not purchased' : 'Mark as purchased'} delay={0}>
-                          <button
-                            onClick={() => onToggleItem?.(item.id, !item.checked)}
-                            aria-label={`Toggle item: ${item.name || 'unnamed item'}`}
-                            className={`flex-shrink-0 w-5 h-5 sm:w-4 sm:h-4 rounded border-2 flex items-center justify-center transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500 focus-visible:ring-offset-1 focus-visible:ring-offset-gray-900 ${
-                              item.checked
-                                ? 'bg-green-500 border-green-500'
-                                : 'border-gray-600 hover:border-emerald-500'
-                            }`}
-                          >
-                            {item.checked && <Check className="w-3 h-3 text-white" />}
-                          </button>
-                        </Tooltip>
-                        <span className={`text-xs sm:text-sm truncate ${item.checked ? 'line-through text-gray-500' : 'text-gray-300'}`}>
-                          {item.name}
-                        </span>
-                      </div>
+              {sections.map(section => (
+                <div key={section.store ?? 'all'} className="space-y-3">
+                {section.store && (
+                  <p className="text-xs font-semibold text-emerald-300">
+                    🏪 {section.store} · {section.groups.reduce((count, group) => count + group.items.length, 0)} items
+                  </p>
+                )}
+                {(showAll ? section.groups : section.groups.slice(0, 2)).map(({ category, items }) => (
+                  <div key={category} className="space-y-1.5">
+                    <div className="flex items-center gap-1.5 mb-1.5">
+                      <span className="text-base sm:text-lg">{getCategoryIcon(category as ShoppingCategory)}</span>
+                      <span className="text-[10px] sm:text-xs font-medium text-gray-300 uppercase tracking-wide">
+                        {getCategoryLabel(category as ShoppingCategory)}
+                      </span>
+                    </div>
+                    {items.slice(0, showAll ? undefined : 3).map((item) => (
+                      <div key={item.id} className="flex items-center justify-between gap-2 ml-0 sm:ml-2 group/item">
+                        {/* Left side: checkbox + item name */}
+                        <div className="flex items-center gap-2 min-w-0 flex-1">
+                          <Tooltip content={item.checked ? 'Mark as not purchased' : 'Mark as purchased'} delay={0}>
+                            <button
+                              onClick={() => onToggleItem?.(item.id, !item.checked)}
+                              aria-label={`Toggle item: ${item.name || 'unnamed item'}`}
+                              className={`flex-shrink-0 w-5 h-5 sm:w-4 sm:h-4 rounded border-2 flex items-center justify-center transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500 focus-visible:ring-offset-1 focus-visible:ring-offset-gray-900 ${
+                                item.checked
+                                  ? 'bg-green-500 border-green-500'
+                                  : 'border-gray-600 hover:border-emerald-500'
+                              }`}
+                            >
+                              {item.checked && <Check className="w-3 h-3 text-white" />}
+                            </button>
+                          </Tooltip>
+                          <span className={`text-xs sm:text-sm truncate ${item.checked ? 'line-through text-gray-500' : 'text-gray-300'}`}>
+                            {item.name}
+                          </span>
+                        </div>
 
-                      {/* Right side: Quantity Controls - pushed to right edge */}
-                      {onUpdateQuantity && (
-                        <div className="flex items-center gap-px flex-shrink-0">
-                          <button
-                            onClick={() => onUpdateQuantity(item.id, Math.max(1, Number(item.quantity) - 1))}
-                            disabled={Number(item.quantity) <= 1}
-                            className="w-[18px] h-[18px] sm:w-5 sm:h-5 flex-shrink-0 rounded bg-gray-700 hover:bg-gray-600 flex items-center justify-center transition-colors disabled:opacity-30 disabled:cursor-not-allowed active:scale-95"
-                            aria-label="Decrease quantity"
-                          >
-                            <span className="text-[9px] sm:text-xs font-bold text-gray-300">−</span>
-                          </button>
+                        {/* Price paid, once the item is in the cart */}
+                        {onUpdatePrice && item.checked && (
                           <input
                             type="text"
-                            inputMode="numeric"
-                            value={editingQuantities[item.id] ?? item.quantity}
-                            onChange={(e) => handleQuantityChange(item.id, e.target.value)}
-                            onBlur={() => handleQuantityBlur(item.id)}
+                            inputMode="decimal"
+                            placeholder="$ paid"
+                            value={editingPrices[item.id] ?? (item.actual_price != null ? String(item.actual_price) : '')}
+                            onChange={(e) => handlePriceChange(item.id, e.target.value)}
+                            onBlur={() => handlePriceBlur(item.id, item.actual_price)}
                             onKeyPress={(e) => handleQuantityKeyPress(e)}
-                            className="w-[22px] h-[18px] sm:w-7 sm:h-5 text-[8px] sm:text-xs font-medium text-gray-300 text-center bg-gray-800 border border-gray-600/50 rounded focus:outline-none focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                            aria-label="Edit quantity"
+                            className="w-14 sm:w-16 h-[18px] sm:h-5 px-1 text-[10px] sm:text-xs text-gray-300 text-right bg-gray-800 border border-gray-600/50 rounded focus:outline-none focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500 placeholder:text-gray-500"
+                            aria-label={`Price paid for ${item.name}`}
                           />
-                          <button
-                            onClick={() => onUpdateQuantity(item.id, Math.min(200, Number(item.quantity) + 1))}
-                            disabled={Number(item.quantity) >= 200}
-                            className="w-[18px] h-[18px] sm:w-5 sm:h-5 flex-shrink-0 rounded bg-emerald-900/30 hover:bg-emerald-800/50 flex items-center justify-center transition-colors disabled:opacity-30 disabled:cursor-not-allowed active:scale-95"
-                            aria-label="Increase quantity"
-                          >
-                            <span className="text-[9px] sm:text-xs font-bold text-emerald-400">+</span>
-                          </button>
-                        </div>
-                      )}
-                    </div>
-                  ))}
+                        )}
+
+                        {/* Right side: Quantity Controls - pushed to right edge */}
+                        {onUpdateQuantity && (
+                          <div className="flex items-center gap-px flex-shrink-0">
+                            <button
+                              onClick={() => onUpdateQuantity(item.id, Math.max(1, Number(item.quantity) - 1))}
+                              disabled={Number(item.quantity) <= 1}
+                              className="w-[18px] h-[18px] sm:w-5 sm:h-5 flex-shrink-0 rounded bg-gray-700 hover:bg-gray-600 flex items-center justify-center transition-colors disabled:opacity-30 disabled:cursor-not-allowed active:scale-95"
+                              aria-label="Decrease quantity"
+                            >
+                              <span className="text-[9px] sm:text-xs font-bold text-gray-300">−</span>
+                            </button>
+                            <input
+                              type="text"
+                              inputMode="numeric"
+                              value={editingQuantities[item.id] ?? item.quantity}
+                              onChange={(e) => handleQuantityChange(item.id, e.target.value)}
+                              onBlur={() => handleQuantityBlur(item.id)}
+                              onKeyPress={(e) => handleQuantityKeyPress(e)}
+                              className="w-[22px] h-[18px] sm:w-7 sm:h-5 text-[8px] sm:text-xs font-medium text-gray-300 text-center bg-gray-800 border border-gray-600/50 rounded focus:outline-none focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                              aria-label="Edit quantity"
+                            />
+                            <button
+                              onClick={() => onUpdateQuantity(item.id, Math.min(200, Number(item.quantity) + 1))}
+                              disabled={Number(item.quantity) >= 200}
+                              className="w-[18px] h-[18px] sm:w-5 sm:h-5 flex-shrink-0 rounded bg-emerald-900/30 hover:bg-emerald-800/50 flex items-center justify-center transition-colors disabled:opacity-30 disabled:cursor-not-allowed active:scale-95"
+                              aria-label="Increase quantity"
+                            >
+                              <span className="text-[9px] sm:text-xs font-bold text-emerald-400">+</span>
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ))}
                 </div>
               ))}
-              {(Object.keys(itemsByCategory).length > 2 || list.items.length > 6) && (
+              {!splitLayout && (groupCount > 2 || list.items.length > 6) && (
                 <button
                   onClick={() => setIsExpanded(!isExpanded)}
                   className="text-xs text-emerald-400 ml-1 sm:ml-2 hover:underline transition-opacity"
@@ -268,6 +382,17 @@ export const ShoppingListCard = memo(function ShoppingListCard({ list, onEdit, o
                     ✓ Create Task
                   </button>
                 )}
+                {onRemindAtStore && list.store_name && list.status === 'active' && (
+                  <button
+                    onClick={() => {
+                      onRemindAtStore(list);
+                      setShowMenu(false);
+                    }}
+                    className="w-full px-4 py-2 text-left text-cyan-400 hover:bg-gray-700 flex items-center gap-2 transition-colors"
+                  >
+                    📍 Remind Me at {list.store_name}
+                  </button>
+                )}
                 {onSaveAsTemplate && list.items && list.items.length > 0 && (
                   <button
                     onClick={() => {
@@ -315,10 +440,16 @@ export const ShoppingListCard = memo(function ShoppingListCard({ list, onEdit, o
           )}
         </div>
         <div className="flex items-center gap-3">
-          {list.budget && (
+          {list.budget ? (
             <Tooltip content={`Budget: $${list.budget.toFixed(2)}`}>
+              <span className={`text-xs ${estimatedTotal && estimatedTotal > list.budget ? 'text-red-400' : 'text-gray-300'}`}>
+                💰 ${estimatedTotal?.toFixed(2) || '0.00'} / ${list.budget.toFixed(2)}
+              </span>
+            </Tooltip>
+          ) : estimate && estimate.priced > 0 && (
+            <Tooltip content={`Estimated from past prices for ${estimate.priced} of ${totalItems} items`}>
               <span className="text-xs text-gray-300">
-                💰 ${list.estimated_total?.toFixed(2) || '0.00'} / ${list.budget.toFixed(2)}
+                💰 ≈ ${estimate.total.toFixed(2)}
               </span>
             </Tooltip>
           )}
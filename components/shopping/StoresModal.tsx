@@ -0,0 +1,251 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Plus, Save, Trash2 } from 'lucide-react';
+import { storeLayoutsService } from '@/lib/services/store-layouts-service';
+import { getCategoryIcon, getCategoryLabel, type ShoppingCategory } from '@/lib/constants/shopping-categories';
+import { storeKey, type StoreLayout } from '@/lib/utils/store-layout-helpers';
+import { Modal } from '@/components/ui/Modal';
+import { logger } from '@/lib/logger';
+import { showError, showSuccess, showWarning } from '@/lib/utils/toast';
+
+interface StoresModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called after a store is added, changed or removed */
+  onChange: () => void;
+  spaceId: string;
+  layouts: StoreLayout[];
+}
+
+const SOURCE_LABELS: Record<StoreLayout['source'], string> = {
+  custom: 'Custom order',
+  learned: 'Learned',
+  default: 'Default order',
+};
+
+/** Renders a modal for managing the space's stores and their aisle order. */
+export function StoresModal({ isOpen, onClose, onChange, spaceId, layouts }: StoresModalProps) {
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [order, setOrder] = useState<string[]>([]);
+  const [newStoreName, setNewStoreName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const selected = layouts.find(layout => layout.name === selectedName) ?? layouts[0] ?? null;
+
+  // Start editing from the selected store's current order
+  useEffect(() => {
+    setOrder(selected?.categoryOrder ?? []);
+  }, [selected]);
+
+  const moveCategory = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= order.length) return;
+    const next = [...order];
+    [next[index], next[target]] = [next[target], next[index]];
+    setOrder(next);
+  };
+
+  const runChange = async (action: () => Promise<unknown>, success: string, failure: string): Promise<boolean> => {
+    try {
+      setSaving(true);
+      await action();
+      onChange();
+      showSuccess(success);
+      return true;
+    } catch (error) {
+      logger.error(failure, error, { component: 'StoresModal', action: 'component_action' });
+      showError(`${failure}. Please try again.`);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddStore = async () => {
+    const name = newStoreName.trim();
+    if (!name) return;
+    if (layouts.some(layout => layout.savedId && storeKey(layout.name) === storeKey(name))) {
+      showWarning(`${name} is already one of your stores.`);
+      return;
+    }
+    const learned = layouts.find(layout => storeKey(layout.name) === storeKey(name));
+    const added = await runChange(
+      () => storeLayoutsService.createLayout({ space_id: spaceId, store_name: name }),
+      `${name} added`,
+      'Failed to add store'
+    );
+    if (!added) return;
+    setNewStoreName('');
+    setSelectedName(learned?.name ?? name);
+  };
+
+  const handleSaveOrder = async (categoryOrder: string[]) => {
+    if (!selected) return;
+    await runChange(
+      () => selected.savedId
+        ? storeLayoutsService.updateLayout(selected.savedId, { aisle_order: categoryOrder })
+        : storeLayoutsService.createLayout({ space_id: spaceId, store_name: selected.name, aisle_order: categoryOrder }),
+      categoryOrder.length > 0 ? 'Aisle order saved' : 'Using the learned aisle order',
+      'Failed to save aisle order'
+    );
+  };
+
+  const handleDeleteStore = async () => {
+    if (!selected?.savedId) return;
+    const savedId = selected.savedId;
+    const removed = await runChange(
+      () => storeLayoutsService.deleteLayout(savedId),
+      `${selected.name} removed`,
+      'Failed to remove store'
+    );
+    if (removed) setSelectedName(null);
+  };
+
+  const footerContent = (
+    <div className="flex items-center gap-3">
+      <button
+        type="button"
+        onClick={onClose}
+        className="px-4 sm:px-6 py-2.5 border border-gray-600 text-gray-300 rounded-full hover:bg-gray-700 transition-colors font-medium text-sm sm:text-base"
+      >
+        Close
+      </button>
+      {selected && (
+        <button
+          type="button"
+          onClick={() => handleSaveOrder(order)}
+          disabled={saving}
+          className="flex-1 sm:flex-none px-4 sm:px-6 py-2.5 bg-emerald-500 text-white rounded-full hover:bg-emerald-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 font-medium text-sm sm:text-base"
+        >
+          <Save className="w-4 h-4" />
+          Save Order
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Stores"
+      maxWidth="lg"
+      headerGradient="bg-gradient-to-r from-emerald-500 to-emerald-600"
+      footer={footerContent}
+    >
+      <div className="space-y-4">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newStoreName}
+            onChange={(e) => setNewStoreName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddStore()}
+            placeholder="Add a store, e.g. Trader Joe's"
+            maxLength={100}
+            className="flex-1 px-4 py-2 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 bg-gray-900 text-white"
+          />
+          <button
+            type="button"
+            onClick={handleAddStore}
+            disabled={saving || !newStoreName.trim()}
+            className="px-4 py-2 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors disabled:opacity-50 flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" />
+            Add
+          </button>
+        </div>
+
+        {layouts.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            No stores yet. Add one, or set a store on a shopping list and its aisle order will be learned as you check items off.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {layouts.map(layout => (
+                <button
+                  key={layout.name}
+                  type="button"
+                  onClick={() => setSelectedName(layout.name)}
+                  className={`px-3 py-1.5 rounded-full text-sm transition-colors ${
+                    layout.name === selected?.name
+                      ? 'bg-emerald-500 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {layout.name}
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-gray-400">
+                    {SOURCE_LABELS[selected.source]}
+                    {selected.trips > 0 && ` · learned from ${selected.trips} trip${selected.trips === 1 ? '' : 's'}`}
+                  </p>
+                  <div className="flex items-center gap-2">
+                    {selected.source === 'custom' && (
+                      <button
+                        type="button"
+                        onClick={() => handleSaveOrder([])}
+                        disabled={saving}
+                        className="text-xs text-emerald-400 hover:underline disabled:opacity-50"
+                      >
+                        Use learned order
+                      </button>
+                    )}
+                    {selected.savedId && (
+                      <button
+                        type="button"
+                        onClick={handleDeleteStore}
+                        disabled={saving}
+                        className="p-1.5 text-gray-400 hover:text-red-400 transition-colors disabled:opacity-50"
+                        aria-label={`Remove ${selected.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <ol className="space-y-1.5">
+                  {order.map((category, index) => (
+                    <li
+                      key={category}
+                      className="flex items-center gap-2 px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg"
+                    >
+                      <span className="w-5 text-xs text-gray-500">{index + 1}</span>
+                      <span className="text-base">{getCategoryIcon(category as ShoppingCategory)}</span>
+                      <span className="flex-1 text-sm text-gray-200">{getCategoryLabel(category as ShoppingCategory)}</span>
+                      <button
+                        type="button"
+                        onClick={() => moveCategory(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                        aria-label={`Move ${getCategoryLabel(category as ShoppingCategory)} up`}
+                      >
+                        <ChevronUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveCategory(index, 1)}
+                        disabled={index === order.length - 1}
+                        className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                        aria-label={`Move ${getCategoryLabel(category as ShoppingCategory)} down`}
+                      >
+                        <ChevronDown className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
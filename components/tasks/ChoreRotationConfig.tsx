@@ -15,7 +15,7 @@ interface ChoreRotationConfigProps {
 
 interface RotationConfig {
   id?: string;
-  rotation_type: 'round-robin' | 'random';
+  rotation_type: 'round-robin' | 'random' | 'balanced';
   interval_type: 'daily' | 'weekly' | 'monthly';
   interval_value: number;
   member_ids: string[];
@@ -61,7 +61,7 @@ export function ChoreRotationConfig({ taskId, spaceId }: ChoreRotationConfigProp
         // Map service response to local RotationConfig format
         const mappedData: RotationConfig = {
           id: data.id,
-          rotation_type: (data.rotation_type as 'round-robin' | 'random') || 'round-robin',
+          rotation_type: (data.rotation_type as 'round-robin' | 'random' | 'balanced') || 'round-robin',
           interval_type: (data.rotation_frequency as 'daily' | 'weekly' | 'monthly') || 'weekly',
           interval_value: 1,
           member_ids: data.user_order || [],
@@ -260,7 +260,7 @@ export function ChoreRotationConfig({ taskId, spaceId }: ChoreRotationConfigProp
             <label htmlFor="field-1" className="block text-sm font-medium text-gray-300 mb-2 cursor-pointer">
               Rotation Type
             </label>
-            <div className="grid grid-cols-2 gap-2">
+            <div className="grid grid-cols-3 gap-2">
               <button
                 onClick={() => setFormData(prev => ({ ...prev, rotation_type: 'round-robin' }))}
                 className={`p-3 text-left border rounded-lg transition-colors ${
@@ -283,6 +283,17 @@ export function ChoreRotationConfig({ taskId, spaceId }: ChoreRotationConfigProp
                 <p className="text-sm font-medium text-white">Random</p>
                 <p className="text-xs text-gray-400">Random assignment</p>
               </button>
+              <button
+                onClick={() => setFormData(prev => ({ ...prev, rotation_type: 'balanced' }))}
+                className={`p-3 text-left border rounded-lg transition-colors ${
+                  formData.rotation_type === 'balanced'
+                    ? 'border-purple-500 bg-purple-900/20'
+                    : 'border-gray-600'
+                }`}
+              >
+                <p className="text-sm font-medium text-white">Balanced</p>
+                <p className="text-xs text-gray-400">Least effort goes next</p>
+              </button>
             </div>
           </div>
 
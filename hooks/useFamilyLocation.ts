@@ -12,6 +12,12 @@ import {
 } from '@/lib/native';
 import type { FamilyMemberLocation, FamilyPlace, LocationSharingSettings } from '@/lib/services/family-location-service';
 
+/** A place to save; its shape and hysteresis fall back to the table defaults */
+type NewPlace = Omit<
+  FamilyPlace,
+  'id' | 'space_id' | 'created_by' | 'created_at' | 'updated_at' | 'boundary' | 'dwell_seconds' | 'exit_buffer_meters'
+> & Partial<Pick<FamilyPlace, 'boundary' | 'dwell_seconds' | 'exit_buffer_meters'>>;
+
 interface UseFamilyLocationOptions {
   enableTracking?: boolean;
   autoRefresh?: boolean;
@@ -38,7 +44,7 @@ interface UseFamilyLocationReturn {
   stopTracking: () => void;
   refreshFamilyLocations: () => Promise<void>;
   updateSettings: (updates: Partial<LocationSharingSettings>) => Promise<boolean>;
-  createPlace: (place: Omit<FamilyPlace, 'id' | 'space_id' | 'created_by' | 'created_at' | 'updated_at'>) => Promise<boolean>;
+  createPlace: (place: NewPlace) => Promise<boolean>;
   deletePlace: (placeId: string) => Promise<boolean>;
 }
 
@@ -282,7 +288,7 @@ export function useFamilyLocation(
 
   // Create place
   const createPlace = useCallback(async (
-    place: Omit<FamilyPlace, 'id' | 'space_id' | 'created_by' | 'created_at' | 'updated_at'>
+    place: NewPlace
   ): Promise<boolean> => {
     if (!spaceId) return false;
 
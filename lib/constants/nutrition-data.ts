@@ -0,0 +1,142 @@
+// Offline nutrition table for estimating recipe nutrition from ingredients.
+// Values are per 100 g of the ingredient as bought (raw meat, dry pasta and
+// rice, drained canned beans), rounded from USDA FoodData Central.
+
+/**
+ * Per-100 g values in column order:
+ * kcal, protein g, fat g, saturated fat g, carbohydrate g, sugar g, fibre g,
+ * sodium mg, cholesterol mg, calcium mg, iron mg, potassium mg, vitamin C mg
+ */
+export type NutrientRow = [
+  number, number, number, number, number, number, number,
+  number, number, number, number, number, number,
+];
+
+export interface NutritionFood {
+  per100g: NutrientRow;
+  /** Grams per millilitre, for ingredients measured in cups and spoons */
+  density?: number;
+  /** Grams in one of a count unit ("" = one whole item: an egg, an onion) */
+  gramsPer?: Record<string, number>;
+}
+
+/**
+ * Matched against the end of the parsed ingredient name, longest key first,
+ * so "boneless chicken thigh" finds "chicken thigh" before "chicken".
+ */
+export const NUTRITION_FOODS: Record<string, NutritionFood> = {
+  // Flours, grains & starches
+  'flour': { per100g: [364, 10.3, 1, 0.2, 76.3, 0.3, 2.7, 2, 0, 15, 4.6, 107, 0], density: 0.53 },
+  'whole wheat flour': { per100g: [340, 13.2, 2.5, 0.4, 72, 0.4, 10.7, 2, 0, 34, 3.6, 363, 0], density: 0.51 },
+  'cornstarch': { per100g: [381, 0.3, 0.1, 0, 91.3, 0, 0.9, 9, 0, 2, 0.5, 3, 0], density: 0.54 },
+  'rice': { per100g: [365, 7.1, 0.7, 0.2, 80, 0.1, 1.3, 5, 0, 28, 0.8, 115, 0], density: 0.78 },
+  'brown rice': { per100g: [370, 7.9, 2.9, 0.6, 77, 0.9, 3.5, 7, 0, 23, 1.5, 223, 0], density: 0.78 },
+  'pasta': { per100g: [371, 13, 1.5, 0.3, 75, 2.7, 3.2, 6, 0, 21, 1.3, 223, 0], density: 0.45 },
+  'spaghetti': { per100g: [371, 13, 1.5, 0.3, 75, 2.7, 3.2, 6, 0, 21, 1.3, 223, 0] },
+  'noodle': { per100g: [384, 14.2, 4.4, 0.9, 71.3, 2, 3.3, 21, 0, 31, 4.3, 223, 0], density: 0.4 },
+  'quinoa': { per100g: [368, 14.1, 6.1, 0.7, 64.2, 0, 7, 5, 0, 47, 4.6, 563, 0], density: 0.72 },
+  'couscous': { per100g: [376, 12.8, 0.6, 0.1, 77.4, 0, 5, 10, 0, 24, 1.1, 166, 0], density: 0.73 },
+  'oat': { per100g: [379, 13.2, 6.5, 1.1, 67.7, 1, 10.1, 6, 0, 52, 4.3, 362, 0], density: 0.38 },
+  'bread': { per100g: [265, 9, 3.2, 0.7, 49, 5, 2.7, 491, 0, 260, 3.6, 115, 0], gramsPer: { slice: 30 } },
+  'tortilla': { per100g: [306, 8.2, 8, 3, 50, 3.6, 3.5, 736, 0, 120, 3.6, 125, 0], gramsPer: { '': 45 } },
+  'breadcrumb': { per100g: [395, 13, 5.3, 1.2, 72, 6.2, 4.5, 732, 0, 183, 4.8, 196, 0], density: 0.46 },
+
+  // Sugars & sweeteners
+  'sugar': { per100g: [387, 0, 0, 0, 100, 100, 0, 1, 0, 1, 0.1, 2, 0], density: 0.85 },
+  'brown sugar': { per100g: [380, 0.1, 0, 0, 98, 97, 0, 28, 0, 83, 0.7, 133, 0], density: 0.93 },
+  'powdered sugar': { per100g: [389, 0, 0, 0, 100, 98, 0, 2, 0, 1, 0, 2, 0], density: 0.51 },
+  'honey': { per100g: [304, 0.3, 0, 0, 82.4, 82.1, 0.2, 4, 0, 6, 0.4, 52, 0.5], density: 1.42 },
+  'maple syrup': { per100g: [260, 0, 0.1, 0, 67, 60.5, 0, 12, 0, 102, 0.1, 212, 0], density: 1.32 },
+  'chocolate chip': { per100g: [479, 4.2, 30, 18, 63.9, 54.5, 5.9, 11, 0, 32, 3.1, 365, 0], density: 0.72 },
+  'cocoa powder': { per100g: [228, 19.6, 13.7, 8.1, 57.9, 1.8, 37, 21, 0, 128, 13.9, 1524, 0], density: 0.42 },
+
+  // Fats & oils
+  'butter': { per100g: [717, 0.9, 81.1, 51.4, 0.1, 0.1, 0, 643, 215, 24, 0, 24, 0], density: 0.96, gramsPer: { stick: 113 } },
+  'unsalted butter': { per100g: [717, 0.9, 81.1, 51.4, 0.1, 0.1, 0, 11, 215, 24, 0, 24, 0], density: 0.96, gramsPer: { stick: 113 } },
+  'oil': { per100g: [884, 0, 100, 14, 0, 0, 0, 0, 0, 0, 0, 0, 0], density: 0.92 },
+  'olive oil': { per100g: [884, 0, 100, 13.8, 0, 0, 0, 2, 0, 1, 0.6, 1, 0], density: 0.92 },
+  'mayonnaise': { per100g: [680, 1, 74.9, 11.7, 0.6, 0.6, 0, 635, 42, 8, 0.2, 20, 0], density: 0.91 },
+  'peanut butter': { per100g: [588, 25.1, 50.4, 10.3, 19.6, 9.2, 6, 459, 0, 43, 1.9, 649, 0], density: 1.08 },
+
+  // Dairy & eggs
+  'almond milk': { per100g: [15, 0.6, 1.1, 0.1, 0.6, 0, 0.2, 72, 0, 184, 0.3, 67, 0], density: 1.01 },
+  'milk': { per100g: [61, 3.2, 3.3, 1.9, 4.8, 5.1, 0, 43, 10, 113, 0, 132, 0], density: 1.03 },
+  'cream': { per100g: [340, 2.8, 36.1, 23, 2.7, 2.9, 0, 27, 113, 66, 0, 95, 0.6], density: 1.01 },
+  'sour cream': { per100g: [198, 2.4, 19.4, 10.1, 4.6, 3.4, 0, 31, 59, 101, 0.1, 125, 0.9], density: 1.02 },
+  'yogurt': { per100g: [61, 3.5, 3.3, 2.1, 4.7, 4.7, 0, 46, 13, 121, 0.1, 155, 0.5], density: 1.03 },
+  'greek yogurt': { per100g: [97, 9, 5, 2.4, 3.9, 4, 0, 35, 13, 100, 0.1, 141, 0], density: 1.05 },
+  'cheese': { per100g: [403, 22.9, 33.3, 21.1, 3.1, 0.5, 0, 653, 99, 710, 0.1, 76, 0], density: 0.47 },
+  'cheddar': { per100g: [403, 22.9, 33.3, 21.1, 3.1, 0.5, 0, 653, 99, 710, 0.1, 76, 0], density: 0.47 },
+  'parmesan': { per100g: [431, 38.5, 28.6, 17.3, 4.1, 0.9, 0, 1529, 88, 1184, 0.8, 125, 0], density: 0.42 },
+  'mozzarella': { per100g: [280, 27.5, 17.1, 10.9, 3.1, 1.1, 0, 627, 54, 505, 0.4, 76, 0], density: 0.47 },
+  'feta': { per100g: [264, 14.2, 21.3, 14.9, 4.1, 4.1, 0, 917, 89, 493, 0.7, 62, 0], density: 0.6 },
+  'cream cheese': { per100g: [342, 5.9, 34.2, 19.3, 4.1, 3.2, 0, 321, 110, 98, 0.4, 138, 0], density: 0.98 },
+  'egg': { per100g: [143, 12.6, 9.5, 3.1, 0.7, 0.4, 0, 142, 372, 56, 1.8, 138, 0], gramsPer: { '': 50 } },
+
+  // Meat, fish & protein
+  'chicken': { per100g: [167, 20, 9.3, 2.6, 0, 0, 0, 70, 90, 11, 0.9, 229, 0] },
+  'chicken breast': { per100g: [120, 22.5, 2.6, 0.6, 0, 0, 0, 45, 73, 5, 0.4, 334, 0], gramsPer: { '': 175 } },
+  'chicken thigh': { per100g: [177, 19.7, 10.9, 3, 0, 0, 0, 84, 94, 9, 0.9, 242, 0], gramsPer: { '': 110 } },
+  'beef': { per100g: [217, 26.1, 11.8, 4.8, 0, 0, 0, 60, 80, 12, 2.6, 318, 0] },
+  'ground beef': { per100g: [254, 17.2, 20, 7.6, 0, 0, 0, 66, 71, 18, 1.9, 270, 0] },
+  'pork': { per100g: [242, 27, 14, 5.2, 0, 0, 0, 62, 80, 19, 0.9, 423, 0] },
+  'bacon': { per100g: [458, 11.6, 45, 14.9, 1.3, 0, 0, 751, 66, 6, 0.5, 208, 0], gramsPer: { slice: 28, '': 28 } },
+  'sausage': { per100g: [301, 12, 27, 9, 1.4, 0, 0, 749, 69, 17, 0.9, 204, 0], gramsPer: { '': 75 } },
+  'ground turkey': { per100g: [148, 17.5, 8.3, 2.3, 0, 0, 0, 69, 78, 14, 1.1, 183, 0] },
+  'salmon': { per100g: [208, 20.4, 13.4, 3.1, 0, 0, 0, 59, 55, 9, 0.3, 363, 0], gramsPer: { '': 150 } },
+  'cod': { per100g: [82, 17.8, 0.7, 0.1, 0, 0, 0, 54, 43, 16, 0.4, 413, 1], gramsPer: { '': 150 } },
+  'tuna': { per100g: [116, 25.5, 0.8, 0.2, 0, 0, 0, 247, 30, 11, 1.5, 237, 0], gramsPer: { can: 142 } },
+  'shrimp': { per100g: [85, 20.1, 0.5, 0.1, 0, 0, 0, 119, 161, 64, 0.2, 264, 0] },
+  'tofu': { per100g: [144, 17.3, 8.7, 1.3, 2.8, 0.6, 2.3, 14, 0, 683, 2.7, 237, 0.2], gramsPer: { block: 400 } },
+
+  // Beans & legumes
+  'bean': { per100g: [132, 8.9, 0.5, 0.1, 23.7, 0.3, 8.7, 1, 0, 27, 2.1, 355, 0], density: 0.75, gramsPer: { can: 240 } },
+  'chickpea': { per100g: [164, 8.9, 2.6, 0.3, 27.4, 4.8, 7.6, 7, 0, 49, 2.9, 291, 1.3], density: 0.7, gramsPer: { can: 240 } },
+  'lentil': { per100g: [352, 24.6, 1.1, 0.2, 63.4, 2, 10.7, 6, 0, 35, 6.5, 677, 4.5], density: 0.8 },
+
+  // Vegetables & fruit
+  'potato': { per100g: [77, 2, 0.1, 0, 17.5, 0.8, 2.2, 6, 0, 12, 0.8, 425, 19.7], gramsPer: { '': 213 } },
+  'sweet potato': { per100g: [86, 1.6, 0.1, 0, 20.1, 4.2, 3, 55, 0, 30, 0.6, 337, 2.4], gramsPer: { '': 130 } },
+  'onion': { per100g: [40, 1.1, 0.1, 0, 9.3, 4.2, 1.7, 4, 0, 23, 0.2, 146, 7.4], density: 0.67, gramsPer: { '': 110 } },
+  'garlic': { per100g: [149, 6.4, 0.5, 0.1, 33.1, 1, 2.1, 17, 0, 181, 1.7, 401, 31.2], density: 0.58, gramsPer: { clove: 3, head: 40, '': 3 } },
+  'ginger': { per100g: [80, 1.8, 0.8, 0.2, 17.8, 1.7, 2, 13, 0, 16, 0.6, 415, 5], density: 0.55 },
+  'carrot': { per100g: [41, 0.9, 0.2, 0, 9.6, 4.7, 2.8, 69, 0, 33, 0.3, 320, 5.9], density: 0.55, gramsPer: { '': 61 } },
+  'celery': { per100g: [14, 0.7, 0.2, 0, 3, 1.3, 1.6, 80, 0, 40, 0.2, 260, 3.1], density: 0.5, gramsPer: { '': 40 } },
+  'tomato': { per100g: [18, 0.9, 0.2, 0, 3.9, 2.6, 1.2, 5, 0, 10, 0.3, 237, 13.7], density: 0.75, gramsPer: { can: 400, '': 123 } },
+  'tomato paste': { per100g: [82, 4.3, 0.5, 0.1, 18.9, 12.2, 4.1, 59, 0, 36, 3, 1014, 21.9], density: 1.1 },
+  'tomato sauce': { per100g: [24, 1.2, 0.3, 0, 5.3, 3.6, 1.5, 474, 0, 14, 1, 297, 7], density: 1.03, gramsPer: { can: 425 } },
+  'bell pepper': { per100g: [26, 1, 0.3, 0, 6, 4.2, 2.1, 4, 0, 7, 0.4, 211, 128], density: 0.6, gramsPer: { '': 120 } },
+  'spinach': { per100g: [23, 2.9, 0.4, 0.1, 3.6, 0.4, 2.2, 79, 0, 99, 2.7, 558, 28.1], density: 0.13 },
+  'broccoli': { per100g: [34, 2.8, 0.4, 0, 6.6, 1.7, 2.6, 33, 0, 47, 0.7, 316, 89.2], density: 0.38, gramsPer: { head: 300, '': 300 } },
+  'mushroom': { per100g: [22, 3.1, 0.3, 0, 3.3, 2, 1, 5, 0, 3, 0.5, 318, 2.1], density: 0.3, gramsPer: { '': 18 } },
+  'zucchini': { per100g: [17, 1.2, 0.3, 0.1, 3.1, 2.5, 1, 8, 0, 16, 0.4, 261, 17.9], gramsPer: { '': 200 } },
+  'lettuce': { per100g: [15, 1.4, 0.2, 0, 2.9, 0.8, 1.3, 28, 0, 36, 0.9, 194, 9.2], density: 0.2, gramsPer: { head: 360, '': 360 } },
+  'cucumber': { per100g: [15, 0.7, 0.1, 0, 3.6, 1.7, 0.5, 2, 0, 16, 0.3, 147, 2.8], gramsPer: { '': 300 } },
+  'corn': { per100g: [86, 3.3, 1.4, 0.3, 19, 6.3, 2.7, 15, 0, 2, 0.5, 270, 6.8], density: 0.65, gramsPer: { can: 250 } },
+  'pea': { per100g: [81, 5.4, 0.4, 0.1, 14.5, 5.7, 5.1, 5, 0, 25, 1.5, 244, 40], density: 0.6 },
+  'avocado': { per100g: [160, 2, 14.7, 2.1, 8.5, 0.7, 6.7, 7, 0, 12, 0.6, 485, 10], gramsPer: { '': 150 } },
+  'lemon': { per100g: [29, 1.1, 0.3, 0, 9.3, 2.5, 2.8, 2, 0, 26, 0.6, 138, 53], gramsPer: { '': 60 } },
+  'lime': { per100g: [30, 0.7, 0.2, 0, 10.5, 1.7, 2.8, 2, 0, 33, 0.6, 102, 29.1], gramsPer: { '': 45 } },
+  'apple': { per100g: [52, 0.3, 0.2, 0, 13.8, 10.4, 2.4, 1, 0, 6, 0.1, 107, 4.6], gramsPer: { '': 182 } },
+  'banana': { per100g: [89, 1.1, 0.3, 0.1, 22.8, 12.2, 2.6, 1, 0, 5, 0.3, 358, 8.7], gramsPer: { '': 118 } },
+  'parsley': { per100g: [36, 3, 0.8, 0.1, 6.3, 0.9, 3.3, 56, 0, 138, 6.2, 554, 133], density: 0.25, gramsPer: { bunch: 60 } },
+  'cilantro': { per100g: [23, 2.1, 0.5, 0, 3.7, 0.9, 2.8, 46, 0, 67, 1.8, 521, 27], density: 0.25, gramsPer: { bunch: 60 } },
+  'basil': { per100g: [23, 3.2, 0.6, 0, 2.7, 0.3, 1.6, 4, 0, 177, 3.2, 295, 18], density: 0.2, gramsPer: { bunch: 60 } },
+
+  // Nuts & seeds
+  'almond': { per100g: [579, 21.2, 49.9, 3.8, 21.6, 4.4, 12.5, 1, 0, 269, 3.7, 733, 0], density: 0.6 },
+  'walnut': { per100g: [654, 15.2, 65.2, 6.1, 13.7, 2.6, 6.7, 2, 0, 98, 2.9, 441, 1.3], density: 0.5 },
+
+  // Liquids, sauces & seasonings
+  'water': { per100g: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], density: 1 },
+  'stock': { per100g: [6, 0.6, 0.2, 0.1, 0.4, 0.3, 0, 343, 3, 4, 0.1, 20, 0], density: 1 },
+  'broth': { per100g: [6, 0.6, 0.2, 0.1, 0.4, 0.3, 0, 343, 3, 4, 0.1, 20, 0], density: 1 },
+  'coconut milk': { per100g: [230, 2.3, 23.8, 21.1, 5.5, 3.3, 2.2, 15, 0, 16, 1.6, 263, 2.8], density: 0.97, gramsPer: { can: 400 } },
+  'soy sauce': { per100g: [53, 8.1, 0.6, 0.1, 4.9, 0.4, 0.8, 5493, 0, 33, 1.5, 435, 0], density: 1.15 },
+  'vinegar': { per100g: [18, 0, 0, 0, 0, 0, 0, 2, 0, 6, 0, 2, 0], density: 1.01 },
+  'vanilla extract': { per100g: [288, 0.1, 0.1, 0, 12.7, 12.7, 0, 9, 0, 11, 0.1, 148, 0], density: 0.88 },
+  'salt': { per100g: [0, 0, 0, 0, 0, 0, 0, 38758, 0, 24, 0.3, 8, 0], density: 1.22 },
+  'black pepper': { per100g: [251, 10.4, 3.3, 1.4, 64, 0.6, 25.3, 20, 0, 443, 9.7, 1329, 0], density: 0.46 },
+  'baking powder': { per100g: [53, 0, 0, 0, 27.7, 0, 0.2, 10600, 0, 5876, 11, 20, 0], density: 0.81 },
+  'baking soda': { per100g: [0, 0, 0, 0, 0, 0, 0, 27360, 0, 0, 0, 0, 0], density: 0.93 },
+};
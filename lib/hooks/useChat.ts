@@ -7,6 +7,7 @@
  * - Accumulating streamed text into assistant messages
  * - Managing pending action confirmations
  * - Conversation ID generation and persistence
+ * - Undoing the assistant's last action or a whole turn via /api/ai/undo
  */
 
 'use client';
@@ -20,6 +21,7 @@ import type {
   ResultEvent,
   ErrorEvent,
   ChatState,
+  UndoResponse,
 } from '@/lib/types/chat';
 
 // ---------------------------------------------------------------------------
@@ -96,6 +98,8 @@ function clearPersistedChat(): void {
 type ChatAction =
   | { type: 'SEND_MESSAGE'; message: string }
   | { type: 'SET_CONVERSATION_ID'; conversationId: string }
+  | { type: 'SET_TURN_ID'; turnId: string }
+  | { type: 'TURN_UNDONE'; turnId: string; fully: boolean }
   | { type: 'STREAM_TEXT'; text: string }
   | { type: 'TOOL_CALL'; event: ToolCallEvent }
   | { type: 'RESULT'; event: ResultEvent }
@@ -143,6 +147,25 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
     case 'SET_CONVERSATION_ID':
       return { ...state, conversationId: action.conversationId };
 
+    case 'SET_TURN_ID': {
+      const messages = [...state.messages];
+      const lastMsg = messages[messages.length - 1];
+      if (lastMsg?.role === 'assistant') {
+        messages[messages.length - 1] = { ...lastMsg, turnId: action.turnId };
+      }
+      return { ...state, messages };
+    }
+
+    case 'TURN_UNDONE':
+      return {
+        ...state,
+        messages: action.fully
+          ? state.messages.map((m) => (m.turnId === action.turnId ? { ...m, undone: true } : m))
+          : state.messages,
+        // Undone writes change dashboard data too
+        lastToolAction: Date.now(),
+      };
+
     case 'STREAM_TEXT': {
       const messages = [...state.messages];
       const lastMsg = messages[messages.length - 1];
@@ -320,6 +343,9 @@ export function useChat(spaceId: string) {
           conversationIdRef.current = event.data as string;
           dispatch({ type: 'SET_CONVERSATION_ID', conversationId: event.data as string });
           break;
+        case 'turn_id':
+          dispatch({ type: 'SET_TURN_ID', turnId: event.data as string });
+          break;
         case 'text':
           dispatch({ type: 'STREAM_TEXT', text: event.data as string });
           break;
@@ -427,6 +453,38 @@ export function useChat(spaceId: string) {
     });
   }, []);
 
+  /**
+   * Undo the assistant's actions from one turn, or its most recent action
+   * when no turn is given. Returns the server's summary, or null on failure.
+   */
+  const undo = useCallback(async (turnId?: string): Promise<UndoResponse | null> => {
+    if (conversationIdRef.current === 'new') return null;
+    try {
+      const response = await csrfFetch('/api/ai/undo', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conversationId: conversationIdRef.current, turnId }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        dispatch({
+          type: 'ERROR',
+          event: { message: data?.error ?? 'Failed to undo', retryable: false },
+        });
+        return null;
+      }
+      const result = data as UndoResponse;
+      dispatch({ type: 'TURN_UNDONE', turnId: result.turnId, fully: result.turnFullyUndone });
+      return result;
+    } catch {
+      dispatch({
+        type: 'ERROR',
+        event: { message: 'Connection lost. Please try again.', retryable: true },
+      });
+      return null;
+    }
+  }, []);
+
   /**
    * Stop the current streaming response.
    */
@@ -448,6 +506,7 @@ export function useChat(spaceId: string) {
     sendMessage,
     clearChat,
     stopStreaming,
+    undo,
     clearError: () => dispatch({ type: 'CLEAR_ERROR' }),
   };
 }
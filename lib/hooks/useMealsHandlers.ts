@@ -5,7 +5,8 @@ import { useKeyboardShortcuts } from '@/lib/hooks/useKeyboardShortcuts';
 import { mealsService, Meal, Recipe, CreateMealInput, CreateRecipeInput } from '@/lib/services/meals-service';
 import { shoppingService } from '@/lib/services/shopping-service';
 import { format, addMonths, subMonths } from 'date-fns';
-import { showSuccess, showError } from '@/lib/utils/toast';
+import { showSuccess, showError, showWarning } from '@/lib/utils/toast';
+import { describeDietaryConflicts } from '@/lib/utils/dietary-helpers';
 import { toast } from 'sonner';
 import { logger } from '@/lib/logger';
 import { QUERY_KEYS } from '@/lib/react-query/query-client';
@@ -13,6 +14,13 @@ import type { QueryClient } from '@tanstack/react-query';
 import type { ViewMode, CalendarViewMode, MealsStats, PendingDeletion } from '@/lib/hooks/useMealsData';
 import type { RecipeWithStringIngredients } from '@/lib/hooks/useMealsModals';
 
+/** Tell the planner who can't eat the meal they just planned */
+function warnAboutDietaryConflicts(meal: Meal) {
+  if (meal.dietary_conflicts?.length) {
+    showWarning(`Check the menu: ${describeDietaryConflicts(meal.dietary_conflicts)}`);
+  }
+}
+
 // ─── Dependencies interface ───────────────────────────────────────────────────
 
 export interface UseMealsHandlersDeps {
@@ -203,7 +211,7 @@ export function useMealsHandlers(deps: UseMealsHandlersDeps): UseMealsHandlersRe
       if (editingMeal && editingMeal.id) {
         await mealsService.updateMeal(editingMeal.id, mealData);
       } else {
-        await mealsService.createMeal(mealData);
+        warnAboutDietaryConflicts(await mealsService.createMeal(mealData));
       }
 
       invalidateMeals();
@@ -491,7 +499,7 @@ export function useMealsHandlers(deps: UseMealsHandlersDeps): UseMealsHandlersRe
     if (!pendingMealData || !selectedRecipeForReview || !spaceId) return;
 
     try {
-      await mealsService.createMeal(pendingMealData);
+      warnAboutDietaryConflicts(await mealsService.createMeal(pendingMealData));
 
       const formattedDate = format(new Date(pendingMealData.scheduled_date), 'MM/dd/yyyy');
       const listTitle = `${pendingMealData.name || selectedRecipeForReview.name} - ${formattedDate}`;
@@ -0,0 +1,41 @@
+'use client';
+
+import { useEffect, useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { pantryService, type PantryItem } from '@/lib/services/pantry-service';
+import { QUERY_KEYS, QUERY_OPTIONS } from '@/lib/react-query/query-client';
+
+/** Loads a space's pantry items and keeps them in sync with real-time changes */
+export function usePantryItems(spaceId: string | undefined): {
+  items: PantryItem[];
+  loading: boolean;
+  invalidatePantry: () => void;
+} {
+  const queryClient = useQueryClient();
+
+  const { data: items = [], isLoading } = useQuery({
+    queryKey: QUERY_KEYS.pantry.items(spaceId || ''),
+    queryFn: () => pantryService.getItems(spaceId!),
+    enabled: !!spaceId,
+    ...QUERY_OPTIONS.features,
+  });
+
+  const invalidatePantry = useCallback(() => {
+    if (!spaceId) return;
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.pantry.items(spaceId) });
+  }, [spaceId, queryClient]);
+
+  // Shopping check-offs stock the pantry from a database trigger, so listen
+  // rather than relying on local mutations alone
+  useEffect(() => {
+    if (!spaceId) return;
+
+    const channel = pantryService.subscribeToPantry(spaceId, invalidatePantry);
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [spaceId, invalidatePantry]);
+
+  return { items, loading: isLoading, invalidatePantry };
+}
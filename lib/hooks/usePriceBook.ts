@@ -0,0 +1,32 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { priceBookService } from '@/lib/services/price-book-service';
+import type { PriceBook } from '@/lib/utils/price-helpers';
+import { QUERY_KEYS, QUERY_OPTIONS } from '@/lib/react-query/query-client';
+
+const EMPTY_PRICE_BOOK: PriceBook = new Map();
+
+/** Loads the prices a space has learned from receipts and checked-off shopping */
+export function usePriceBook(spaceId: string | undefined): {
+  priceBook: PriceBook;
+  loading: boolean;
+  invalidatePriceBook: () => void;
+} {
+  const queryClient = useQueryClient();
+
+  const { data: priceBook = EMPTY_PRICE_BOOK, isLoading } = useQuery({
+    queryKey: QUERY_KEYS.priceBook.prices(spaceId || ''),
+    queryFn: () => priceBookService.getPriceBook(spaceId!),
+    enabled: !!spaceId,
+    ...QUERY_OPTIONS.features,
+  });
+
+  const invalidatePriceBook = useCallback(() => {
+    if (!spaceId) return;
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.priceBook.prices(spaceId) });
+  }, [spaceId, queryClient]);
+
+  return { priceBook, loading: isLoading, invalidatePriceBook };
+}
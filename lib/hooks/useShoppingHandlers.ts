@@ -7,6 +7,8 @@ import { shoppingIntegrationService } from '@/lib/services/shopping-integration-
 import { calendarService } from '@/lib/services/calendar-service';
 import { remindersService } from '@/lib/services/reminders-service';
 import { QUERY_KEYS } from '@/lib/react-query/query-client';
+import { storeKey } from '@/lib/utils/store-layout-helpers';
+import type { FamilyPlace } from '@/lib/services/family-location-service';
 import { logger } from '@/lib/logger';
 import { showError, showSuccess, showInfo } from '@/lib/utils/toast';
 import { toast } from 'sonner';
@@ -76,10 +78,12 @@ export interface UseShoppingHandlersReturn {
   handleCompleteList: (listId: string) => Promise<void>;
   handleToggleItem: (itemId: string, checked: boolean) => Promise<void>;
   handleUpdateQuantity: (itemId: string, newQuantity: number) => Promise<void>;
+  handleUpdatePrice: (itemId: string, price: number | null) => Promise<void>;
   handleSelectTemplate: (templateId: string) => Promise<void>;
   handleSaveTemplate: (name: string, description: string) => Promise<void>;
   handleScheduleTripSubmit: (eventData: ScheduleTripEventData) => Promise<void>;
   handleCreateTask: (list: ShoppingList) => Promise<void>;
+  handleRemindAtStore: (list: ShoppingList) => Promise<void>;
 
   handleSearchChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   handleClearSearch: () => void;
@@ -354,6 +358,28 @@ export function useShoppingHandlers(deps: UseShoppingHandlersDeps): UseShoppingH
     }
   }, [spaceId, queryClient, invalidateShopping]);
 
+  const handleUpdatePrice = useCallback(async (itemId: string, price: number | null) => {
+    queryClient.setQueryData<ShoppingList[]>(
+      QUERY_KEYS.shopping.lists(spaceId || ''),
+      (old) => (old || []).map(list => ({
+        ...list,
+        items: list.items?.map(item =>
+          item.id === itemId ? { ...item, actual_price: price ?? undefined } : item
+        )
+      })),
+    );
+
+    try {
+      await shoppingService.setItemPrice(itemId, price);
+      // The price book learns checked-off prices from a database trigger
+      if (spaceId) queryClient.invalidateQueries({ queryKey: QUERY_KEYS.priceBook.prices(spaceId) });
+    } catch (error) {
+      logger.error('Failed to update price:', error, { component: 'page', action: 'execution' });
+      showError('Failed to save price');
+      invalidateShopping();
+    }
+  }, [spaceId, queryClient, invalidateShopping]);
+
   // ─── Template handlers ─────────────────────────────────────────────────────
 
   const handleSelectTemplate = useCallback(async (templateId: string) => {
@@ -528,6 +554,38 @@ export function useShoppingHandlers(deps: UseShoppingHandlersDeps): UseShoppingH
     }
   }, [currentSpace, user?.id]);
 
+  // ─── Store arrival reminder handler ────────────────────────────────────────
+
+  const handleRemindAtStore = useCallback(async (list: ShoppingList) => {
+    if (!currentSpace || !user || !list.store_name) return;
+
+    // Prevent actions on optimistic lists (temp IDs)
+    if (list.id.startsWith('temp-')) {
+      showInfo('Please wait for the list to finish saving before adding a reminder.');
+      return;
+    }
+
+    try {
+      // The store must be saved as a family place for arrivals to be detected
+      const response = await fetch(`/api/location/places?space_id=${currentSpace.id}`);
+      const result = await response.json();
+      const places: FamilyPlace[] = result.success ? result.data || [] : [];
+      const place = places.find(p => storeKey(p.name) === storeKey(list.store_name));
+
+      if (!place) {
+        showInfo(`Save ${list.store_name} as a place on the Location page to be reminded when you arrive.`);
+        return;
+      }
+
+      await shoppingIntegrationService.createArrivalReminder(list, place, user.id);
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.reminders.all(currentSpace.id) });
+      showSuccess(`We'll show this list when you arrive at ${place.name}`);
+    } catch (error) {
+      logger.error('Failed to create arrival reminder:', error, { component: 'page', action: 'execution' });
+      showError('Failed to create reminder. Please try again.');
+    }
+  }, [currentSpace, user, queryClient]);
+
   // ─── Search handlers ───────────────────────────────────────────────────────
 
   const handleSearchChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -578,10 +636,12 @@ export function useShoppingHandlers(deps: UseShoppingHandlersDeps): UseShoppingH
     handleCompleteList,
     handleToggleItem,
     handleUpdateQuantity,
+    handleUpdatePrice,
     handleSelectTemplate,
     handleSaveTemplate,
     handleScheduleTripSubmit,
     handleCreateTask,
+    handleRemindAtStore,
     handleSearchChange,
     handleClearSearch,
     handleTotalListsClick,
@@ -43,6 +43,10 @@ export interface UseShoppingModalsReturn {
   handleScheduleTrip: (list: ShoppingList) => void;
   handleCloseScheduleTripModal: () => void;
 
+  // Stores modal
+  showStoresModal: boolean;
+  setShowStoresModal: React.Dispatch<React.SetStateAction<boolean>>;
+
   // Confirm dialog
   confirmDialog: ConfirmDialogState;
   setConfirmDialog: React.Dispatch<React.SetStateAction<ConfirmDialogState>>;
@@ -71,6 +75,9 @@ export function useShoppingModals(): UseShoppingModalsReturn {
   const [showScheduleTripModal, setShowScheduleTripModal] = useState(false);
   const [listToSchedule, setListToSchedule] = useState<ShoppingList | null>(null);
 
+  // ─── Stores modal state ────────────────────────────────────────────────────
+  const [showStoresModal, setShowStoresModal] = useState(false);
+
   // ─── Confirm dialog state ──────────────────────────────────────────────────
   const [confirmDialog, setConfirmDialog] = useState<ConfirmDialogState>({
     isOpen: false,
@@ -182,6 +189,10 @@ export function useShoppingModals(): UseShoppingModalsReturn {
     handleScheduleTrip,
     handleCloseScheduleTripModal,
 
+    // Stores modal
+    showStoresModal,
+    setShowStoresModal,
+
     // Confirm dialog
     confirmDialog,
     setConfirmDialog,
@@ -0,0 +1,46 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { storeLayoutsService, type SavedStoreLayout, type StoreTrip } from '@/lib/services/store-layouts-service';
+import { usePriceBook } from '@/lib/hooks/usePriceBook';
+import { buildStoreLayouts, type StoreLayout } from '@/lib/utils/store-layout-helpers';
+import { QUERY_KEYS, QUERY_OPTIONS } from '@/lib/react-query/query-client';
+
+const EMPTY_SAVED: SavedStoreLayout[] = [];
+const EMPTY_TRIPS: StoreTrip[] = [];
+
+/** Loads a space's saved stores and the aisle order learned from past trips */
+export function useStoreLayouts(spaceId: string | undefined): {
+  saved: SavedStoreLayout[];
+  layouts: StoreLayout[];
+  loading: boolean;
+  invalidateStores: () => void;
+} {
+  const queryClient = useQueryClient();
+  const { priceBook } = usePriceBook(spaceId);
+
+  const { data: saved = EMPTY_SAVED, isLoading: savedLoading } = useQuery({
+    queryKey: QUERY_KEYS.stores.layouts(spaceId || ''),
+    queryFn: () => storeLayoutsService.getLayouts(spaceId!),
+    enabled: !!spaceId,
+    ...QUERY_OPTIONS.features,
+  });
+
+  const { data: trips = EMPTY_TRIPS, isLoading: tripsLoading } = useQuery({
+    queryKey: QUERY_KEYS.stores.trips(spaceId || ''),
+    queryFn: () => storeLayoutsService.getTrips(spaceId!),
+    enabled: !!spaceId,
+    ...QUERY_OPTIONS.features,
+  });
+
+  const layouts = useMemo(() => buildStoreLayouts(saved, trips, priceBook), [saved, trips, priceBook]);
+
+  const invalidateStores = useCallback(() => {
+    if (!spaceId) return;
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.stores.layouts(spaceId) });
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.stores.trips(spaceId) });
+  }, [spaceId, queryClient]);
+
+  return { saved, layouts, loading: savedLoading || tripsLoading, invalidateStores };
+}
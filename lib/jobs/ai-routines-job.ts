@@ -0,0 +1,196 @@
+import { logger } from '@/lib/logger';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { aiContextService } from '@/lib/services/ai/ai-context-service';
+import { sanitizeContextForLLM } from '@/lib/services/ai/ai-privacy-service';
+import { validateAIAccess } from '@/lib/services/ai/ai-access-guard';
+import { recordUsage } from '@/lib/services/ai/conversation-persistence-service';
+import { computeNextRunAt, draftRoutineRun } from '@/lib/services/ai/routine-service';
+import type { AIRoutine, RoutineRunStatus } from '@/lib/types/ai';
+import { createUserScopedClient } from '@/lib/services/mcp/user-client';
+
+// SECURITY: Runtime check to prevent accidental client-side import
+// This job uses the service role key and must only run on the server
+if (typeof window !== 'undefined') {
+  throw new Error(
+    'SECURITY ERROR: ai-routines-job.ts cannot be used on the client side. ' +
+    'This module uses the service role key and must only run on the server.'
+  );
+}
+
+interface RoutinesResult {
+  success: boolean;
+  routinesRun: number;
+  draftsCreated: number;
+  errors: string[];
+}
+
+/** Routines handled per invocation; the rest wait for the next tick */
+const BATCH_SIZE = 10;
+
+/**
+ * Run every enabled routine whose next run is due. Each routine is claimed
+ * by moving its next_run_at forward before it runs, so overlapping
+ * invocations never run it twice. The assistant works as the routine's
+ * creator and its proposed changes are saved as a draft for review.
+ */
+export async function processDueRoutines(now: Date = new Date()): Promise<RoutinesResult> {
+  const result: RoutinesResult = {
+    success: true,
+    routinesRun: 0,
+    draftsCreated: 0,
+    errors: [],
+  };
+
+  try {
+    const { data: dueRoutines, error } = await supabaseAdmin
+      .from('ai_routines')
+      .select('id, space_id, created_by, name, instructions, rrule, dtstart, timezone, enabled, next_run_at, last_run_at, created_at, updated_at')
+      .eq('enabled', true)
+      .lte('next_run_at', now.toISOString())
+      .order('next_run_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to fetch due routines: ${error.message}`);
+    }
+
+    for (const routine of (dueRoutines || []) as AIRoutine[]) {
+      try {
+        const claimed = await claimRoutine(routine, now);
+        if (!claimed) continue;
+
+        result.routinesRun++;
+        const status = await runRoutine(routine, now);
+        if (status === 'pending_review') result.draftsCreated++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        result.errors.push(`Routine ${routine.id}: ${message}`);
+      }
+    }
+
+    logger.info('AI routines job completed', {
+      component: 'AIRoutinesJob',
+      action: 'complete',
+      routinesRun: result.routinesRun,
+      draftsCreated: result.draftsCreated,
+    });
+  } catch (error) {
+    result.success = false;
+    result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+    logger.error('AI routines job failed', error, {
+      component: 'AIRoutinesJob',
+      action: 'process',
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Schedule the routine's following run. Returns false if another
+ * invocation already claimed this one.
+ */
+async function claimRoutine(routine: AIRoutine, now: Date): Promise<boolean> {
+  const nextRunAt = computeNextRunAt(routine, now);
+
+  const { data, error } = await supabaseAdmin
+    .from('ai_routines')
+    .update({ next_run_at: nextRunAt?.toISOString() ?? null, last_run_at: now.toISOString() })
+    .eq('id', routine.id)
+    .eq('next_run_at', routine.next_run_at)
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+async function runRoutine(routine: AIRoutine, now: Date): Promise<RoutineRunStatus> {
+  const supabase = createUserScopedClient(routine.created_by);
+
+  const aiAccess = await validateAIAccess(supabase, routine.created_by, routine.space_id);
+  if (!aiAccess.allowed) {
+    await saveRun(routine, { status: 'failed', error: aiAccess.reason ?? 'AI assistant is not available' });
+    return 'failed';
+  }
+
+  try {
+    const rawContext = await aiContextService.buildFullContext(
+      supabase,
+      routine.space_id,
+      { id: routine.created_by },
+      routine.instructions
+    );
+    const draft = await draftRoutineRun(supabase, routine, sanitizeContextForLLM(rawContext), {}, now);
+
+    const status: RoutineRunStatus = draft.proposedActions.length > 0 ? 'pending_review' : 'no_changes';
+    const runId = await saveRun(routine, {
+      status,
+      summary: draft.summary || null,
+      proposed_actions: draft.proposedActions,
+    });
+
+    // Estimate tokens (~4 chars per token as rough approximation)
+    await recordUsage(supabase, {
+      user_id: routine.created_by,
+      space_id: routine.space_id,
+      date: now.toISOString().split('T')[0],
+      input_tokens: Math.ceil(routine.instructions.length / 4),
+      output_tokens: Math.ceil(draft.summary.length / 4),
+      voice_seconds: 0,
+      conversation_count: 0,
+      tool_calls_count: draft.proposedActions.length,
+      feature_source: 'routine',
+    });
+
+    if (status === 'pending_review') {
+      await notifyCreator(routine, runId, draft.proposedActions.length);
+    }
+    return status;
+  } catch (error) {
+    logger.error('AI routine run failed', error, {
+      component: 'AIRoutinesJob',
+      action: 'run_routine',
+      routineId: routine.id,
+    });
+    await saveRun(routine, { status: 'failed', error: 'The assistant could not complete this routine' });
+    return 'failed';
+  }
+}
+
+async function saveRun(routine: AIRoutine, fields: Record<string, unknown>): Promise<string> {
+  const { data, error } = await supabaseAdmin
+    .from('ai_routine_runs')
+    .insert({ routine_id: routine.id, space_id: routine.space_id, ...fields })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return (data as { id: string }).id;
+}
+
+async function notifyCreator(routine: AIRoutine, runId: string, actionCount: number): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('in_app_notifications')
+    .insert({
+      user_id: routine.created_by,
+      space_id: routine.space_id,
+      type: 'system',
+      title: `${routine.name} is ready for review`,
+      content: `The assistant drafted ${actionCount} change${actionCount === 1 ? '' : 's'}. Nothing is changed until you approve.`,
+      priority: 'normal',
+      related_item_id: runId,
+      related_item_type: 'ai_routine_run',
+      action_url: '/settings?tab=assistant-routines',
+      metadata: { routine_id: routine.id, run_id: runId },
+    });
+
+  if (error) {
+    // The draft is saved either way; it is listed in settings
+    logger.warn('Failed to notify routine creator', {
+      component: 'AIRoutinesJob',
+      action: 'notify',
+      routineId: routine.id,
+      error: error.message,
+    });
+  }
+}
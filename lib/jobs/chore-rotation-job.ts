@@ -1,18 +1,22 @@
 /**
  * Chore Rotation Job
  *
- * Runs daily to process chore rotations.
+ * Runs daily to process chore rotations. Positional rotations (round robin,
+ * random) rotate in the database; balanced rotations need workload and
+ * availability data and are processed here.
  */
 
 import { logger } from '@/lib/logger';
 import { supabaseAdmin } from '@/lib/supabase/admin';
+import { processDueBalancedRotations } from '@/lib/services/chore-workload-service';
 
 export async function processChoreRotations() {
   try {
     const { error } = await supabaseAdmin.rpc('process_chore_rotations');
     if (error) throw error;
-    logger.info('✓ Processed chore rotations', { component: 'chore-rotation-job' });
-    return { success: true };
+    const balanced = await processDueBalancedRotations(supabaseAdmin);
+    logger.info('✓ Processed chore rotations', { component: 'chore-rotation-job', balanced });
+    return { success: true, balanced };
   } catch (error) {
     logger.error('✗ Error processing chore rotations:', error, { component: 'chore-rotation-job', action: 'service_call' });
     return { success: false, error };
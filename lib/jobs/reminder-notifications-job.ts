@@ -102,10 +102,12 @@ async function getRemindersNeedingNotification(supabase: SupabaseClient): Promis
   // Get reminders that are:
   // 1. Due within next 15 minutes
   // 2. Overdue (past due time and status is still active)
+  // Location reminders fire from geofence events instead
   const { data, error } = await supabase
     .from('reminders')
     .select('id, title, emoji, description, reminder_time, space_id, created_by, assigned_to')
     .eq('status', 'active')
+    .or('reminder_type.is.null,reminder_type.neq.location')
     .not('reminder_time', 'is', null)
     .lte('reminder_time', fifteenMinutesFromNow.toISOString());
 
@@ -16,7 +16,7 @@ export async function generateRecurringTasks() {
     // Get all active recurring templates
     const { data: templates, error } = await supabase
       .from('tasks')
-      .select('id, space_id, title, description, category, priority, assigned_to, created_by, created_at, recurrence_pattern, recurrence_interval, recurrence_days_of_week, recurrence_day_of_month, recurrence_month, recurrence_end_date, recurrence_end_count, recurrence_exceptions')
+      .select('id, space_id, title, description, category, priority, assigned_to, created_by, created_at, recurrence_pattern, recurrence_interval, recurrence_days_of_week, recurrence_day_of_month, recurrence_month, recurrence_end_date, recurrence_end_count, recurrence_exceptions, recurrence_rule')
       .eq('is_recurrence_template', true)
       .eq('status', 'active');
 
@@ -36,6 +36,7 @@ export async function generateRecurringTasks() {
         end_date: template.recurrence_end_date,
         end_count: template.recurrence_end_count,
         exceptions: template.recurrence_exceptions,
+        recurrence_rule: template.recurrence_rule,
       };
 
       // Get latest instance
@@ -47,8 +48,9 @@ export async function generateRecurringTasks() {
         .limit(1)
         .single();
 
-      const lastDate = latestInstance?.due_date || template.created_at.split('T')[0];
-      const nextDate = taskRecurrenceService.calculateNextDueDate(lastDate, pattern);
+      const seriesStart = template.created_at.split('T')[0];
+      const lastDate = latestInstance?.due_date || seriesStart;
+      const nextDate = taskRecurrenceService.calculateNextDueDate(lastDate, pattern, seriesStart);
 
       if (nextDate && nextDate <= today) {
         // Check if task already exists for this date
@@ -11,6 +11,7 @@ import {
   Sparkles,
   Gift,
   MapPin,
+  Refrigerator,
   type LucideIcon,
 } from 'lucide-react';
 
@@ -50,6 +51,7 @@ export const NAVIGATION_GROUPS: NavGroup[] = [
     items: [
       { name: 'Meal Planning', href: '/meals', icon: UtensilsCrossed, gradient: 'bg-gradient-meals', description: 'Plan meals' },
       { name: 'Shopping Lists', href: '/shopping', icon: ShoppingCart, gradient: 'bg-gradient-shopping', description: 'Shop together' },
+      { name: 'Pantry', href: '/pantry', icon: Refrigerator, gradient: 'bg-gradient-to-r from-emerald-500 to-teal-600', description: 'What is at home' },
       { name: 'Projects & Budget', href: '/projects', icon: Home, gradient: 'bg-gradient-projects', description: 'Track & manage' },
     ],
   },
@@ -57,6 +57,22 @@ export const sensitiveOperationRateLimit = redis ? new Ratelimit({
   prefix: 'rowan:sensitive',
 }) : null;
 
+// Rate limit for CalDAV/CardDAV clients, which sync in bursts: 120 requests per minute
+export const davRateLimit = redis ? new Ratelimit({
+  redis,
+  limiter: Ratelimit.slidingWindow(120, '1 m'),
+  analytics: true,
+  prefix: 'rowan:dav',
+}) : null;
+
+// Rate limit for MCP agents, which chain many tool calls: 60 requests per minute
+export const mcpRateLimit = redis ? new Ratelimit({
+  redis,
+  limiter: Ratelimit.slidingWindow(60, '1 m'),
+  analytics: true,
+  prefix: 'rowan:mcp',
+}) : null;
+
 // ---------------------------------------------------------------------------
 // AI per-user rate limiters (keyed by userId, not IP)
 // ---------------------------------------------------------------------------
@@ -188,3 +204,17 @@ export async function checkExpensiveOperationRateLimit(ip: string): Promise<{ su
 export async function checkSensitiveOperationRateLimit(ip: string): Promise<{ success: boolean }> {
   return checkRateLimit(ip, sensitiveOperationRateLimit, 3, 86400000); // 24 hours
 }
+
+/**
+ * CalDAV/CardDAV rate limit: 120 requests per minute
+ */
+export async function checkDavRateLimit(ip: string): Promise<{ success: boolean }> {
+  return checkRateLimit(ip, davRateLimit, 120, 60000); // 1 minute
+}
+
+/**
+ * MCP server rate limit: 60 requests per minute
+ */
+export async function checkMcpRateLimit(ip: string): Promise<{ success: boolean }> {
+  return checkRateLimit(ip, mcpRateLimit, 60, 60000); // 1 minute
+}
@@ -131,6 +131,19 @@ export const QUERY_KEYS = {
     recipes: (spaceId: string) => ['meals', 'recipes', spaceId] as const,
   },
 
+  pantry: {
+    items: (spaceId: string) => ['pantry', 'items', spaceId] as const,
+  },
+
+  priceBook: {
+    prices: (spaceId: string) => ['price-book', 'prices', spaceId] as const,
+  },
+
+  stores: {
+    layouts: (spaceId: string) => ['stores', 'layouts', spaceId] as const,
+    trips: (spaceId: string) => ['stores', 'trips', spaceId] as const,
+  },
+
   goals: {
     all: (spaceId: string) => ['goals', 'all', spaceId] as const,
     analytics: (spaceId: string) => ['goals', 'analytics', spaceId] as const,
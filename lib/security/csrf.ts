@@ -112,6 +112,8 @@ export const CSRF_EXEMPT_ROUTES = [
   '/api/analytics/track',
   '/api/analytics/visit', // Public beacon endpoint (sendBeacon has no CSRF headers)
   '/api/notifications/track-dismissal',
+  '/api/caldav/', // CalDAV/CardDAV clients authenticate with app passwords, not cookies
+  '/api/mcp', // MCP agents authenticate with bearer tokens, not cookies
   // Public endpoints that don't change state
   '/api/health',
   '/api/csrf/token', // Token endpoint itself
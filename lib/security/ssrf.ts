@@ -0,0 +1,81 @@
+/**
+ * SSRF guards for server-side requests to user-supplied URLs
+ * (calendar feeds, recipe pages).
+ */
+
+/**
+ * SSRF Protection: Check if hostname is a private/internal IP
+ * Blocks RFC1918 (private), link-local, loopback, and cloud metadata endpoints
+ */
+export function isPrivateOrReservedHost(hostname: string): boolean {
+  // Check for common metadata endpoints (AWS, GCP, Azure, etc.)
+  const metadataHosts = [
+    '169.254.169.254',     // AWS/GCP metadata
+    'metadata.google.internal',
+    'metadata.goog',
+    '100.100.100.200',     // Alibaba Cloud metadata
+    'fd00:ec2::254',       // AWS IPv6 metadata
+  ];
+  if (metadataHosts.includes(hostname.toLowerCase())) {
+    return true;
+  }
+
+  // Check for localhost variations
+  if (hostname === 'localhost' ||
+      hostname === '127.0.0.1' ||
+      hostname === '::1' ||
+      hostname.endsWith('.localhost') ||
+      hostname === '0.0.0.0') {
+    return true;
+  }
+
+  // Check for IP address patterns
+  const ipv4Match = hostname.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (ipv4Match) {
+    const octets = ipv4Match.slice(1).map(Number);
+    const [a, b, c, d] = octets;
+
+    // Validate octets are in range
+    if (octets.some(o => o > 255)) return true;
+
+    // RFC1918 Private ranges
+    if (a === 10) return true;                           // 10.0.0.0/8
+    if (a === 172 && b >= 16 && b <= 31) return true;    // 172.16.0.0/12
+    if (a === 192 && b === 168) return true;             // 192.168.0.0/16
+
+    // Loopback (127.0.0.0/8)
+    if (a === 127) return true;
+
+    // Link-local (169.254.0.0/16)
+    if (a === 169 && b === 254) return true;
+
+    // CGNAT (100.64.0.0/10)
+    if (a === 100 && b >= 64 && b <= 127) return true;
+
+    // Reserved (0.0.0.0/8)
+    if (a === 0) return true;
+
+    // Documentation ranges (shouldn't be used but block anyway)
+    if (a === 192 && b === 0 && c === 2) return true;    // 192.0.2.0/24
+    if (a === 198 && b === 51 && c === 100) return true; // 198.51.100.0/24
+    if (a === 203 && b === 0 && c === 113) return true;  // 203.0.113.0/24
+
+    // Broadcast
+    if (a === 255 && b === 255 && c === 255 && d === 255) return true;
+  }
+
+  // Block internal domain patterns
+  const internalPatterns = [
+    /\.internal$/i,
+    /\.local$/i,
+    /\.corp$/i,
+    /\.home$/i,
+    /\.lan$/i,
+    /\.intranet$/i,
+  ];
+  if (internalPatterns.some(p => p.test(hostname))) {
+    return true;
+  }
+
+  return false;
+}
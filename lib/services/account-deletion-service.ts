@@ -1,5 +1,6 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { logger } from '@/lib/logger';
+import { deleteUserMemories } from '@/lib/services/ai/ai-privacy-service';
 
 /**
  * Account Deletion Service
@@ -110,6 +111,10 @@ async function deleteUserAccount(userId: string, supabase: SupabaseClient): Prom
     await supabase.from('ai_messages').delete().eq('user_id', userId);
     await supabase.from('ai_conversations').delete().eq('user_id', userId);
     await supabase.from('ai_user_settings').delete().eq('user_id', userId);
+    // Like the deletes around it, a failure here must not stop the rest
+    await deleteUserMemories(supabase, userId).catch((error) => {
+      logger.error('Failed to delete assistant memories:', error, { component: 'lib-account-deletion-service', action: 'service_call' });
+    });
 
     // Notifications & push
     await supabase.from('in_app_notifications').delete().eq('user_id', userId);
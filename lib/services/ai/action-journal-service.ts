@@ -0,0 +1,563 @@
+/**
+ * AI Action Journal Service
+ *
+ * Records what each assistant tool call changed and reverses it on request.
+ * The tool executor snapshots the rows a write touches before and after it
+ * runs; undo puts them back in reverse order. Rows edited by someone else
+ * since the assistant touched them are left alone and reported as conflicts.
+ *
+ * Point balances are not restored from snapshots — the difference the tool
+ * made is taken back out of the current balance and an 'adjustment' row is
+ * added to the ledger, so points earned in the meantime are kept.
+ */
+
+import { logger } from '@/lib/logger';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type Row = Record<string, unknown>;
+
+/**
+ * One row as it was before and after a tool call. `before` is null for rows
+ * the tool created and `after` is null for rows it deleted. For the
+ * 'reward_points' table `id` is the member's user id.
+ */
+export interface JournalChange {
+  table: string;
+  id: string;
+  before: Row | null;
+  after: Row | null;
+}
+
+export interface ActionJournalEntry {
+  id: string;
+  conversation_id: string;
+  turn_id: string;
+  space_id: string;
+  user_id: string;
+  tool_name: string;
+  parameters: Record<string, unknown>;
+  changes: JournalChange[];
+  reversible: boolean;
+  undone_at: string | null;
+  created_at: string;
+}
+
+/** Identifies the chat turn a tool call belongs to */
+export interface JournalTurn {
+  conversationId: string;
+  turnId: string;
+}
+
+/** Rows captured before a tool runs, completed by recordAction afterwards */
+export interface PendingAction {
+  toolName: string;
+  parameters: Record<string, unknown>;
+  spaceId: string;
+  userId: string;
+  spec: ToolJournalSpec | undefined;
+  before: Omit<JournalChange, 'after'>[];
+}
+
+export interface UndoResult {
+  /** Turn the undone actions belonged to */
+  turnId: string;
+  /** Tools whose changes were reversed, newest first */
+  undone: string[];
+  /** Tools that wrote something the journal cannot reverse */
+  irreversible: string[];
+  /** Rows left as they are because they changed after the assistant touched them */
+  conflicts: { toolName: string; table: string; id: string }[];
+  /** No journaled actions of the turn are left to undo */
+  turnFullyUndone: boolean;
+}
+
+/** Nothing to undo, or the journal is not the caller's; `status` is the HTTP status to return. */
+export class ActionJournalError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'ActionJournalError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tool specs
+// ---------------------------------------------------------------------------
+
+interface ToolJournalSpec {
+  /** Table the tool writes to */
+  table?: string;
+  /** Parameter holding the row id, or an array of ids for batch tools. Omitted when the tool creates the row. */
+  idParam?: string;
+  /** The table has one row per space and is looked up by space_id */
+  bySpace?: boolean;
+  /**
+   * Whose point balance the tool can change: the caller, the `user_id`
+   * parameter (falling back to the caller), or the `user_id` of the row
+   */
+  points?: 'actor' | 'param' | 'row';
+}
+
+const TOOL_JOURNAL_SPECS: Record<string, ToolJournalSpec> = {
+  // Tasks
+  create_task: { table: 'tasks' },
+  complete_task: { table: 'tasks', idParam: 'task_id' },
+  update_task: { table: 'tasks', idParam: 'task_id' },
+  delete_task: { table: 'tasks', idParam: 'task_id' },
+  batch_complete_tasks: { table: 'tasks', idParam: 'task_ids' },
+  create_subtask: { table: 'subtasks' },
+  update_subtask: { table: 'subtasks', idParam: 'subtask_id' },
+  delete_subtask: { table: 'subtasks', idParam: 'subtask_id' },
+  add_task_comment: { table: 'task_comments' },
+  delete_task_comment: { table: 'task_comments', idParam: 'comment_id' },
+
+  // Chores
+  create_chore: { table: 'chores' },
+  complete_chore: { table: 'chores', idParam: 'chore_id', points: 'actor' },
+  update_chore: { table: 'chores', idParam: 'chore_id' },
+  delete_chore: { table: 'chores', idParam: 'chore_id' },
+  batch_complete_chores: { table: 'chores', idParam: 'chore_ids', points: 'param' },
+  create_chore_rotation: { table: 'chore_rotations' },
+  update_chore_rotation: { table: 'chore_rotations', idParam: 'rotation_id' },
+  delete_chore_rotation: { table: 'chore_rotations', idParam: 'rotation_id' },
+
+  // Calendar
+  create_event: { table: 'events' },
+  update_event: { table: 'events', idParam: 'event_id' },
+  delete_event: { table: 'events', idParam: 'event_id' },
+
+  // Reminders
+  create_reminder: { table: 'reminders' },
+  complete_reminder: { table: 'reminders', idParam: 'reminder_id' },
+  update_reminder: { table: 'reminders', idParam: 'reminder_id' },
+  delete_reminder: { table: 'reminders', idParam: 'reminder_id' },
+  snooze_reminder: { table: 'reminders', idParam: 'reminder_id' },
+  batch_complete_reminders: { table: 'reminders', idParam: 'reminder_ids' },
+
+  // Shopping
+  create_shopping_list: { table: 'shopping_lists' },
+  update_shopping_list: { table: 'shopping_lists', idParam: 'list_id' },
+  delete_shopping_list: { table: 'shopping_lists', idParam: 'list_id' },
+  add_shopping_item: { table: 'shopping_items' },
+  update_shopping_item: { table: 'shopping_items', idParam: 'item_id' },
+  delete_shopping_item: { table: 'shopping_items', idParam: 'item_id' },
+  toggle_shopping_item: { table: 'shopping_items', idParam: 'item_id' },
+  batch_check_shopping_items: { table: 'shopping_items', idParam: 'item_ids' },
+
+  // Meals
+  plan_meal: { table: 'meals' },
+  update_meal: { table: 'meals', idParam: 'meal_id' },
+  delete_meal: { table: 'meals', idParam: 'meal_id' },
+  create_recipe: { table: 'recipes' },
+  update_recipe: { table: 'recipes', idParam: 'recipe_id' },
+  delete_recipe: { table: 'recipes', idParam: 'recipe_id' },
+
+  // Goals
+  create_goal: { table: 'goals' },
+  update_goal: { table: 'goals', idParam: 'goal_id' },
+  update_goal_progress: { table: 'goals', idParam: 'goal_id' },
+  delete_goal: { table: 'goals', idParam: 'goal_id' },
+  batch_complete_goals: { table: 'goals', idParam: 'goal_ids' },
+  create_milestone: { table: 'goal_milestones' },
+  toggle_milestone: { table: 'goal_milestones', idParam: 'milestone_id' },
+  update_milestone: { table: 'goal_milestones', idParam: 'milestone_id' },
+  delete_milestone: { table: 'goal_milestones', idParam: 'milestone_id' },
+  create_goal_checkin: { table: 'goal_check_ins' },
+  update_goal_checkin: { table: 'goal_check_ins', idParam: 'checkin_id' },
+  delete_goal_checkin: { table: 'goal_check_ins', idParam: 'checkin_id' },
+
+  // Budget & expenses
+  create_expense: { table: 'expenses' },
+  update_expense: { table: 'expenses', idParam: 'expense_id' },
+  delete_expense: { table: 'expenses', idParam: 'expense_id' },
+  set_budget: { table: 'budgets', bySpace: true },
+  create_bill: { table: 'bills' },
+  update_bill: { table: 'bills', idParam: 'bill_id' },
+  delete_bill: { table: 'bills', idParam: 'bill_id' },
+  mark_bill_paid: { table: 'bills', idParam: 'bill_id' },
+
+  // Projects
+  create_project: { table: 'projects' },
+  update_project: { table: 'projects', idParam: 'project_id' },
+  delete_project: { table: 'projects', idParam: 'project_id' },
+  create_project_milestone: { table: 'project_milestones' },
+  toggle_project_milestone: { table: 'project_milestones', idParam: 'milestone_id' },
+  delete_project_milestone: { table: 'project_milestones', idParam: 'milestone_id' },
+  create_project_line_item: { table: 'project_line_items' },
+  update_project_line_item: { table: 'project_line_items', idParam: 'line_item_id' },
+  delete_project_line_item: { table: 'project_line_items', idParam: 'line_item_id' },
+  mark_line_item_paid: { table: 'project_line_items', idParam: 'line_item_id' },
+  create_vendor: { table: 'vendors' },
+  update_vendor: { table: 'vendors', idParam: 'vendor_id' },
+  delete_vendor: { table: 'vendors', idParam: 'vendor_id' },
+
+  // Messages
+  edit_message: { table: 'messages', idParam: 'message_id' },
+  pin_message: { table: 'messages', idParam: 'message_id' },
+  unpin_message: { table: 'messages', idParam: 'message_id' },
+
+  // Rewards
+  create_reward: { table: 'rewards_catalog' },
+  update_reward: { table: 'rewards_catalog', idParam: 'reward_id' },
+  delete_reward: { table: 'rewards_catalog', idParam: 'reward_id' },
+  redeem_reward: { table: 'reward_redemptions', points: 'param' },
+  approve_redemption: { table: 'reward_redemptions', idParam: 'redemption_id', points: 'row' },
+  deny_redemption: { table: 'reward_redemptions', idParam: 'redemption_id', points: 'row' },
+  fulfill_redemption: { table: 'reward_redemptions', idParam: 'redemption_id', points: 'row' },
+  cancel_redemption: { table: 'reward_redemptions', idParam: 'redemption_id', points: 'row' },
+  award_points: { points: 'param' },
+};
+
+// Columns maintained by triggers; never compared or restored
+const IGNORED_COLUMNS = new Set(['updated_at']);
+
+/** Whether a tool changes data (everything except list_*, get_* and search_*) */
+export function isWriteTool(toolName: string): boolean {
+  return !/^(list|get|search)_/.test(toolName);
+}
+
+// ---------------------------------------------------------------------------
+// Snapshots
+// ---------------------------------------------------------------------------
+
+function toIds(value: unknown): string[] {
+  if (typeof value === 'string' && value) return [value];
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string' && v.length > 0);
+  return [];
+}
+
+async function fetchRows(supabase: SupabaseClient, table: string, ids: string[]): Promise<Map<string, Row>> {
+  if (ids.length === 0) return new Map();
+  const { data, error } = await supabase.from(table).select('*').in('id', ids);
+  if (error) throw error;
+  return new Map((data ?? []).map((row: Row) => [row.id as string, row]));
+}
+
+async function fetchPoints(supabase: SupabaseClient, userId: string, spaceId: string): Promise<Row | null> {
+  const { data, error } = await supabase
+    .from('reward_points')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('space_id', spaceId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+function pointOwners(action: Omit<PendingAction, 'before'>, rows: Row[]): string[] {
+  switch (action.spec?.points) {
+    case 'actor':
+      return [action.userId];
+    case 'param':
+      return [(action.parameters.user_id as string) || action.userId];
+    case 'row':
+      return [...new Set(rows.map(r => r.user_id).filter((id): id is string => typeof id === 'string'))];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Snapshots the rows a tool is about to change. Never throws; returns null
+ * when the snapshot fails so the tool still runs, just without a journal entry.
+ */
+export async function captureBefore(
+  supabase: SupabaseClient,
+  toolName: string,
+  parameters: Record<string, unknown>,
+  scope: { spaceId: string; userId: string }
+): Promise<PendingAction | null> {
+  const spec = TOOL_JOURNAL_SPECS[toolName];
+  const action = { toolName, parameters, spaceId: scope.spaceId, userId: scope.userId, spec };
+  if (!spec) return { ...action, before: [] };
+
+  try {
+    const before: PendingAction['before'] = [];
+    const rows: Row[] = [];
+
+    if (spec.table && spec.idParam) {
+      const ids = toIds(parameters[spec.idParam]);
+      const found = await fetchRows(supabase, spec.table, ids);
+      for (const id of ids) {
+        const row = found.get(id) ?? null;
+        if (row) rows.push(row);
+        before.push({ table: spec.table, id, before: row });
+      }
+    } else if (spec.table && spec.bySpace) {
+      const { data, error } = await supabase
+        .from(spec.table)
+        .select('*')
+        .eq('space_id', scope.spaceId)
+        .maybeSingle();
+      if (error) throw error;
+      if (data) before.push({ table: spec.table, id: data.id, before: data });
+    }
+
+    for (const ownerId of pointOwners(action, rows)) {
+      before.push({ table: 'reward_points', id: ownerId, before: await fetchPoints(supabase, ownerId, scope.spaceId) });
+    }
+
+    return { ...action, before };
+  } catch (error) {
+    logger.warn('[ActionJournal] Failed to snapshot rows before tool call', {
+      component: 'action-journal-service',
+      action: 'capture_before',
+      toolName,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/** Columns whose value differs between two snapshots of the same row */
+function changedColumns(before: Row, after: Row): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys].filter(k => !IGNORED_COLUMNS.has(k) && !valuesEqual(before[k], after[k]));
+}
+
+/**
+ * Snapshots the same rows after a successful tool call and writes the journal
+ * entry. Rows the tool did not actually change are left out. Never throws.
+ * @param resultData - The tool result's `data`; its `id` names the row a create tool made
+ */
+export async function recordAction(
+  supabase: SupabaseClient,
+  turn: JournalTurn,
+  pending: PendingAction,
+  resultData?: Record<string, unknown>
+): Promise<void> {
+  try {
+    const { spec } = pending;
+    const changes: JournalChange[] = [];
+
+    const rowIds = pending.before.filter(c => c.table !== 'reward_points').map(c => c.id);
+    const after = spec?.table ? await fetchRows(supabase, spec.table, rowIds) : new Map<string, Row>();
+    for (const snapshot of pending.before) {
+      const current = snapshot.table === 'reward_points'
+        ? await fetchPoints(supabase, snapshot.id, pending.spaceId)
+        : after.get(snapshot.id) ?? null;
+      changes.push({ ...snapshot, after: current });
+    }
+
+    // Create tools (and set_budget on a space without a budget) name their new row in the result
+    const createdId = typeof resultData?.id === 'string' ? resultData.id : null;
+    const creates = spec?.table && !spec.idParam;
+    if (creates && createdId && !pending.before.some(c => c.id === createdId)) {
+      const created = await fetchRows(supabase, spec.table!, [createdId]);
+      changes.unshift({ table: spec.table!, id: createdId, before: null, after: created.get(createdId) ?? null });
+    }
+
+    const effective = changes.filter(c =>
+      c.before === null || c.after === null ? c.before !== c.after : changedColumns(c.before, c.after).length > 0
+    );
+    if (spec && effective.length === 0) return;
+
+    const { error } = await supabase.from('ai_action_journal').insert({
+      conversation_id: turn.conversationId,
+      turn_id: turn.turnId,
+      space_id: pending.spaceId,
+      user_id: pending.userId,
+      tool_name: pending.toolName,
+      parameters: pending.parameters,
+      changes: effective,
+      reversible: spec !== undefined,
+    });
+    if (error) throw error;
+  } catch (error) {
+    logger.warn('[ActionJournal] Failed to record tool call', {
+      component: 'action-journal-service',
+      action: 'record_action',
+      toolName: pending.toolName,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Undo
+// ---------------------------------------------------------------------------
+
+type RevertOutcome = 'reverted' | 'conflict';
+
+async function revertPoints(supabase: SupabaseClient, entry: ActionJournalEntry, change: JournalChange): Promise<RevertOutcome> {
+  const before = change.before ?? {};
+  const after = change.after ?? {};
+  const delta = Number(after.points ?? 0) - Number(before.points ?? 0);
+
+  const current = await fetchPoints(supabase, change.id, entry.space_id);
+  if (!current) return 'conflict';
+
+  const updates: Row = { points: Math.max(0, Number(current.points) - delta) };
+  // Streaks and level go back only if nothing has moved them since
+  for (const column of ['current_streak', 'longest_streak', 'level']) {
+    if (valuesEqual(current[column], after[column]) && !valuesEqual(before[column], after[column])) {
+      updates[column] = before[column] ?? (column === 'level' ? 1 : 0);
+    }
+  }
+
+  const { error } = await supabase
+    .from('reward_points')
+    .update(updates)
+    .eq('user_id', change.id)
+    .eq('space_id', entry.space_id);
+  if (error) throw error;
+
+  if (delta !== 0) {
+    const { error: ledgerError } = await supabase.from('point_transactions').insert({
+      user_id: change.id,
+      space_id: entry.space_id,
+      source_type: 'adjustment',
+      points: -delta,
+      reason: `Undid assistant action: ${entry.tool_name}`,
+      metadata: { ai_action_journal_id: entry.id },
+    });
+    if (ledgerError) throw ledgerError;
+  }
+  return 'reverted';
+}
+
+async function revertChange(supabase: SupabaseClient, entry: ActionJournalEntry, change: JournalChange): Promise<RevertOutcome> {
+  if (change.table === 'reward_points') return revertPoints(supabase, entry, change);
+
+  const { data: current, error } = await supabase
+    .from(change.table)
+    .select('*')
+    .eq('id', change.id)
+    .maybeSingle();
+  if (error) throw error;
+
+  // Deleted by the tool: put it back
+  if (!change.after) {
+    if (current) return 'reverted';
+    const { error: insertError } = await supabase.from(change.table).insert(change.before);
+    if (insertError) throw insertError;
+    return 'reverted';
+  }
+
+  if (!current) return change.before ? 'conflict' : 'reverted';
+
+  // Created by the tool: remove it unless someone has edited it since
+  if (!change.before) {
+    if (changedColumns(change.after, current).length > 0) return 'conflict';
+    const { error: deleteError } = await supabase.from(change.table).delete().eq('id', change.id);
+    if (deleteError) throw deleteError;
+    return 'reverted';
+  }
+
+  // Updated by the tool: restore the columns it changed, if they still hold its values
+  const columns = changedColumns(change.before, change.after);
+  if (columns.some(c => !valuesEqual(current[c], change.after![c]))) return 'conflict';
+  const restore = Object.fromEntries(columns.map(c => [c, change.before![c] ?? null]));
+  const { error: updateError } = await supabase.from(change.table).update(restore).eq('id', change.id);
+  if (updateError) throw updateError;
+  return 'reverted';
+}
+
+/**
+ * Undoes assistant actions in a conversation: every action of `turnId`, or
+ * just the most recent one still in effect when no turn is given. Entries are
+ * claimed (marked undone) before anything is reverted, so concurrent undo
+ * requests never apply the same entry twice; if reverting fails, the entries
+ * not yet reverted are released again. Changes are reversed newest first.
+ * Entries stay marked undone even when some of their rows conflict, so they
+ * are not offered again.
+ * @throws ActionJournalError (404) if there is nothing left to undo
+ */
+export async function undoActions(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string,
+  turnId?: string
+): Promise<UndoResult> {
+  const { data, error } = await supabase.rpc('claim_ai_actions_for_undo', {
+    p_conversation_id: conversationId,
+    p_turn_id: turnId ?? null,
+  });
+  if (error) throw error;
+  const entries = ((data ?? []) as ActionJournalEntry[])
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  if (entries.length === 0) {
+    throw new ActionJournalError('There is nothing to undo', 404);
+  }
+
+  const result: UndoResult = {
+    turnId: entries[0].turn_id,
+    undone: [],
+    irreversible: [],
+    conflicts: [],
+    turnFullyUndone: true,
+  };
+
+  for (const [index, entry] of entries.entries()) {
+    if (!entry.reversible) {
+      result.irreversible.push(entry.tool_name);
+      continue;
+    }
+
+    try {
+      for (const change of [...entry.changes].reverse()) {
+        const outcome = await revertChange(supabase, entry, change);
+        if (outcome === 'conflict') {
+          result.conflicts.push({ toolName: entry.tool_name, table: change.table, id: change.id });
+        }
+      }
+    } catch (revertError) {
+      const unreverted = entries.slice(index).map((e) => e.id);
+      const { error: releaseError } = await supabase.rpc('release_ai_action_claims', { p_ids: unreverted });
+      if (releaseError) {
+        logger.warn('[ActionJournal] Failed to release undo claims', {
+          component: 'action-journal-service',
+          action: 'undo_actions',
+          error: releaseError.message,
+        });
+      }
+      throw revertError;
+    }
+    result.undone.push(entry.tool_name);
+  }
+
+  if (!turnId) {
+    const { data: remaining, error: remainingError } = await supabase
+      .from('ai_action_journal')
+      .select('id')
+      .eq('turn_id', result.turnId)
+      .eq('user_id', userId)
+      .is('undone_at', null)
+      .limit(1);
+    if (remainingError) throw remainingError;
+    result.turnFullyUndone = (remaining ?? []).length === 0;
+  }
+
+  return result;
+}
+
+/** Short sentence describing an undo, shown in the chat and remembered by the assistant */
+export function describeUndo(result: UndoResult): string {
+  const parts: string[] = [];
+  if (result.undone.length > 0) {
+    parts.push(`Undid ${result.undone.length === 1 ? 'the last action' : `${result.undone.length} actions`} (${[...new Set(result.undone)].join(', ')}).`);
+  }
+  if (result.conflicts.length > 0) {
+    const one = result.conflicts.length === 1;
+    parts.push(`Left ${one ? '1 item' : `${result.conflicts.length} items`} alone because ${one ? 'it was' : 'they were'} changed since.`);
+  }
+  if (result.irreversible.length > 0) {
+    parts.push(`Could not undo: ${[...new Set(result.irreversible)].join(', ')}.`);
+  }
+  return parts.join(' ');
+}
+
+export const actionJournalService = {
+  isWriteTool,
+  captureBefore,
+  recordAction,
+  undoActions,
+  describeUndo,
+};
@@ -5,6 +5,8 @@
  * structured, cached service that:
  * - Caches static context (space name, members) for 30 minutes
  * - Caches summary context (counts, budget, goals) for 5 minutes
+ * - Caches approved household memories for 5 minutes and picks the ones
+ *   relevant to the current message
  * - Classifies user intent to load only relevant detail data
  * - Manages a token budget for the combined context
  *
@@ -16,6 +18,8 @@ import { LRUCache } from 'lru-cache';
 import { logger } from '@/lib/logger';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { SpaceContext } from './system-prompt';
+import { getActiveMemories, selectRelevantMemories } from './memory-service';
+import type { AIMemory } from '@/lib/types/ai';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -85,6 +89,11 @@ const activityCache = new LRUCache<string, RecentActivityContext>({
   ttl: 5 * 60 * 1000, // 5 minutes
 });
 
+const memoryCache = new LRUCache<string, AIMemory[]>({
+  max: 50,
+  ttl: 5 * 60 * 1000, // 5 minutes
+});
+
 // ---------------------------------------------------------------------------
 // Service
 // ---------------------------------------------------------------------------
@@ -295,18 +304,33 @@ class AIContextService {
   }
 
   /**
-   * Build the full AI context by assembling all sub-contexts
+   * Get approved household memories with 5-min cache
+   */
+  async getMemories(supabase: SupabaseClient, spaceId: string): Promise<AIMemory[]> {
+    const cached = memoryCache.get(spaceId);
+    if (cached) return cached;
+
+    const memories = await getActiveMemories(supabase, spaceId);
+    memoryCache.set(spaceId, memories);
+    return memories;
+  }
+
+  /**
+   * Build the full AI context by assembling all sub-contexts. When the
+   * user's message is given, only memories relevant to it are included.
    */
   async buildFullContext(
     supabase: SupabaseClient,
     spaceId: string,
-    user: { id: string; email?: string; user_metadata?: { name?: string } }
+    user: { id: string; email?: string; user_metadata?: { name?: string } },
+    message?: string
   ): Promise<FullAIContext> {
     try {
-      const [staticCtx, summary, activity, profileResult] = await Promise.all([
+      const [staticCtx, summary, activity, memories, profileResult] = await Promise.all([
         this.getStaticContext(supabase, spaceId),
         this.getSummaryContext(supabase, spaceId),
         this.getRecentActivity(supabase, spaceId),
+        this.getMemories(supabase, spaceId),
         // Fetch the user's display name from their profile — never use email
         supabase
           .from('user_profiles')
@@ -321,6 +345,8 @@ class AIContextService {
       // Never fall back to an email address.
       const userName = profileName || user.user_metadata?.name || 'there';
 
+      const memberNames = new Map(staticCtx.members.map((m) => [m.id, m.displayName]));
+
       return {
         spaceId,
         spaceName: staticCtx.spaceName,
@@ -342,6 +368,11 @@ class AIContextService {
         // Enhanced context
         summary,
         recentActivity: activity,
+        memories: selectRelevantMemories(memories, message).map((m) => ({
+          content: m.content,
+          category: m.category,
+          about: m.subject_user_id ? memberNames.get(m.subject_user_id) ?? null : null,
+        })),
       };
     } catch (error) {
       logger.error('[AIContextService] Failed to build context', error, {
@@ -385,6 +416,7 @@ class AIContextService {
     staticCache.delete(spaceId);
     summaryCache.delete(spaceId);
     activityCache.delete(spaceId);
+    memoryCache.delete(spaceId);
   }
 }
 
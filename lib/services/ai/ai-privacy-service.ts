@@ -5,8 +5,10 @@
  * - Detects PII (SSN, CC numbers, phone numbers) in user messages
  * - Redacts sensitive fields from space context before LLM calls
  * - Provides warning messages when PII is detected
+ * - Removes a user's assistant memories when they delete their AI data
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js';
 import type { SpaceContext } from './system-prompt';
 
 // ---------------------------------------------------------------------------
@@ -166,3 +168,24 @@ function sanitizeObject<T>(obj: T): T {
 
   return obj;
 }
+
+// ---------------------------------------------------------------------------
+// Data deletion hooks
+// ---------------------------------------------------------------------------
+
+/**
+ * Delete every assistant memory a user added or that is about them, in all
+ * of their spaces. Called when a user clears their AI data and when an
+ * account is deleted.
+ * @returns Number of memories removed
+ */
+export async function deleteUserMemories(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('ai_memories')
+    .delete()
+    .or(`created_by.eq.${userId},subject_user_id.eq.${userId}`)
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length;
+}
@@ -1,35 +1,47 @@
 /**
  * Chat Orchestrator Service for Rowan AI Assistant
  *
- * Coordinates the conversation flow between the user, LLM (via OpenRouter),
- * and the Rowan service layer. Handles:
+ * Coordinates the conversation flow between the user, the configured LLM
+ * provider (see ./llm) and the Rowan service layer. Handles:
  * - Streaming text responses
  * - Function calling (tool auto-execution)
  * - Multi-turn tool loops (list → batch complete)
  * - Conversation history management (in-memory, session-scoped)
  *
  * ARCHITECTURE:
- *   User -> API Route -> ChatOrchestrator -> OpenRouter (Gemini/etc.) -> ToolExecutor -> Services
+ *   User -> API Route -> ChatOrchestrator -> LLM provider (OpenRouter/Gemini/local) -> ToolExecutor -> Services
  *
- * All tools auto-execute immediately. Results are sent back to the model for
- * a natural-language follow-up. No confirmation step — all Rowan actions
- * are low-stakes and easily reversible (add/edit/delete tasks, meals, etc.).
+ * Tools auto-execute immediately (deletes ask first, see DESTRUCTIVE_TOOL_NAMES).
+ * Results are sent back to the model for a natural-language follow-up. Every
+ * write is recorded in the action journal under the chat turn that made it
+ * (context.journal), and the chat panel can undo the last action or a whole
+ * turn from there (action-journal-service).
  *
  * SECURITY NOTE (F-037 — Excessive Agency on AI Tool Calls):
  * Tool calls are auto-executed without an explicit user confirmation step.
  * This is an intentional design decision: all available tools operate within
  * the authenticated user's own space (enforced by RLS), actions are limited
- * to household data (tasks, meals, events, etc.), and all writes are
- * reversible. If the scope of available tools ever expands to include
- * irreversible or high-privilege operations (e.g., account deletion,
- * payment actions, admin functions), a confirmation gate should be added.
+ * to household data (tasks, meals, events, etc.), and writes can be undone
+ * from the journal. Tools the journal cannot reverse (e.g. sending a
+ * message) are recorded as such and reported when the user tries. If the
+ * scope of available tools ever expands to include high-privilege operations
+ * (e.g., account deletion, payment actions, admin functions), a confirmation
+ * gate should be added.
  */
 
-import OpenAI from 'openai';
-import type { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions';
 import { LRUCache } from 'lru-cache';
 import { logger } from '@/lib/logger';
 import { TOOL_DECLARATIONS } from './tool-definitions';
+import {
+  convertFunctionDeclarations,
+  getLLMProvider,
+  isLLMConfigurationError,
+  type LLMChatResponse,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMToolCall,
+  type LLMToolDefinition,
+} from './llm';
 import {
   executeTool,
   type ToolExecutionContext,
@@ -43,39 +55,6 @@ import type {
   ChatStreamEvent,
 } from '@/lib/types/chat';
 
-// ---------------------------------------------------------------------------
-// Retry helper
-// ---------------------------------------------------------------------------
-
-/**
- * Retry an API call with exponential backoff.
- * Only retries on transient errors (5xx, rate limits, network).
- */
-async function withRetry<T>(
-  fn: () => Promise<T>,
-  maxAttempts: number = 3,
-  baseDelayMs: number = 1000
-): Promise<T> {
-  let lastError: Error | undefined;
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      const isRetryable =
-        lastError.message.includes('429') ||
-        lastError.message.includes('500') ||
-        lastError.message.includes('503') ||
-        lastError.message.includes('ECONNRESET') ||
-        lastError.message.includes('fetch failed');
-      if (!isRetryable || attempt === maxAttempts) throw lastError;
-      const delay = baseDelayMs * Math.pow(2, attempt - 1);
-      await new Promise((resolve) => setTimeout(resolve, delay));
-    }
-  }
-  throw lastError;
-}
-
 // ---------------------------------------------------------------------------
 // API Request Tracker (in-memory RPM/RPD monitoring)
 // ---------------------------------------------------------------------------
@@ -125,74 +104,16 @@ export function getApiRequestStats() {
 }
 
 // ---------------------------------------------------------------------------
-// Tool definition converter (Google format → OpenAI format)
+// Tool definitions (Google format → JSON Schema)
 // ---------------------------------------------------------------------------
 
-/** Map Google SchemaType enum values to JSON Schema type strings */
-function convertSchemaType(googleType: string): string {
-  const typeMap: Record<string, string> = {
-    STRING: 'string',
-    NUMBER: 'number',
-    INTEGER: 'integer',
-    BOOLEAN: 'boolean',
-    ARRAY: 'array',
-    OBJECT: 'object',
-  };
-  return typeMap[googleType] || 'string';
-}
-
-/** Recursively convert a Google schema property to JSON Schema */
-function convertSchema(schema: Record<string, unknown>): Record<string, unknown> {
-  const result: Record<string, unknown> = {};
-
-  if (schema.type) {
-    result.type = convertSchemaType(schema.type as string);
-  }
-  if (schema.description) {
-    result.description = schema.description;
-  }
-  if (schema.enum) {
-    result.enum = schema.enum;
-  }
-  if (schema.items) {
-    result.items = convertSchema(schema.items as Record<string, unknown>);
-  }
-  if (schema.properties) {
-    const props = schema.properties as Record<string, Record<string, unknown>>;
-    const converted: Record<string, unknown> = {};
-    for (const [key, value] of Object.entries(props)) {
-      converted[key] = convertSchema(value);
-    }
-    result.properties = converted;
-  }
-  if (schema.required) {
-    result.required = schema.required;
-  }
-
-  return result;
-}
-
-/** Convert Google FunctionDeclarations to OpenAI ChatCompletionTool format */
-function convertToolDeclarations(): ChatCompletionTool[] {
-  return TOOL_DECLARATIONS.map((decl) => ({
-    type: 'function' as const,
-    function: {
-      name: decl.name,
-      description: decl.description ?? '',
-      parameters: decl.parameters
-        ? convertSchema(decl.parameters as unknown as Record<string, unknown>)
-        : { type: 'object', properties: {} },
-    },
-  }));
-}
-
 /** Cached converted tools (computed once at startup) */
-let _openaiTools: ChatCompletionTool[] | null = null;
-function getOpenAITools(): ChatCompletionTool[] {
-  if (!_openaiTools) {
-    _openaiTools = convertToolDeclarations();
+let _llmTools: LLMToolDefinition[] | null = null;
+function getLLMTools(): LLMToolDefinition[] {
+  if (!_llmTools) {
+    _llmTools = convertFunctionDeclarations(TOOL_DECLARATIONS);
   }
-  return _openaiTools;
+  return _llmTools;
 }
 
 // ---------------------------------------------------------------------------
@@ -233,16 +154,12 @@ function containsSystemPromptLeakage(text: string): boolean {
 /** Max conversation turns to keep */
 const MAX_HISTORY_ENTRIES = 60;
 
-/** OpenRouter models — primary with automatic fallback */
-const PRIMARY_MODEL = 'google/gemini-2.5-flash';
-const FALLBACK_MODEL = 'meta-llama/llama-4-maverick';
-
 // ---------------------------------------------------------------------------
 // In-memory stores (session-scoped, acceptable for MVP)
 // ---------------------------------------------------------------------------
 
-/** Conversation history: conversationId -> OpenAI messages */
-const historyCache = new LRUCache<string, ChatCompletionMessageParam[]>({
+/** Conversation history: conversationId -> provider-neutral messages */
+const historyCache = new LRUCache<string, LLMMessage[]>({
   max: 100,
   ttl: 30 * 60 * 1000, // 30 minutes
 });
@@ -377,40 +294,61 @@ export interface ProcessMessageParams {
   spaceContext?: SpaceContext;
 }
 
+/**
+ * Replaceable collaborators. Production uses the defaults; the offline
+ * evaluation harness (./evals) swaps in a fixture player and an in-memory
+ * tool runner, and scheduled routines (./routine-service) a tool runner that
+ * drafts writes instead of making them.
+ */
+export interface ChatOrchestratorDependencies {
+  /** Defaults to the configured provider (getLLMProvider) */
+  getProvider?: () => Promise<LLMProvider>;
+  /** Defaults to executeTool */
+  executeTool?: typeof executeTool;
+  /**
+   * Restricted mode: only tools this returns true for are offered to the
+   * model or executed. Defaults to every tool.
+   */
+  allowTool?: (toolName: string) => boolean;
+}
+
 // ---------------------------------------------------------------------------
 // Service
 // ---------------------------------------------------------------------------
 
-class ChatOrchestratorService {
-  private client: OpenAI | null = null;
-
-  // -- OpenRouter client (lazy init, singleton) ------------------------------
-
-  private getClient(): OpenAI {
-    if (!this.client) {
-      const apiKey = process.env.OPENROUTER_API_KEY;
-      if (!apiKey) {
-        throw new Error('OPENROUTER_API_KEY environment variable is not set');
-      }
-      this.client = new OpenAI({
-        baseURL: 'https://openrouter.ai/api/v1',
-        apiKey,
-        defaultHeaders: {
-          'HTTP-Referer': 'https://rowanapp.com',
-          'X-Title': 'Rowan',
-        },
-      });
+export class ChatOrchestratorService {
+  private readonly getProvider: () => Promise<LLMProvider>;
+  private readonly runTool: typeof executeTool;
+  private readonly tools: LLMToolDefinition[] | null;
+
+  constructor(dependencies: ChatOrchestratorDependencies = {}) {
+    this.getProvider = dependencies.getProvider ?? (() => getLLMProvider());
+    const runTool = dependencies.executeTool ?? executeTool;
+    const allowTool = dependencies.allowTool;
+
+    if (allowTool) {
+      this.tools = getLLMTools().filter((tool) => allowTool(tool.name));
+      // Refuse anything the model names that it was not offered
+      this.runTool = async (toolName, args, context) => allowTool(toolName)
+        ? runTool(toolName, args, context)
+        : {
+            success: false,
+            message: `The tool "${toolName}" is not available here.`,
+            featureType: 'general',
+          };
+    } else {
+      this.tools = null;
+      this.runTool = runTool;
     }
-    return this.client;
   }
 
   // -- History management --------------------------------------------------
 
-  private getHistory(conversationId: string): ChatCompletionMessageParam[] {
+  private getHistory(conversationId: string): LLMMessage[] {
     return historyCache.get(conversationId) ?? [];
   }
 
-  private saveHistory(conversationId: string, history: ChatCompletionMessageParam[]): void {
+  private saveHistory(conversationId: string, history: LLMMessage[]): void {
     const trimmed =
       history.length > MAX_HISTORY_ENTRIES
         ? history.slice(history.length - MAX_HISTORY_ENTRIES)
@@ -422,7 +360,8 @@ class ChatOrchestratorService {
 
   /**
    * Process a user message and yield streaming events.
-   * Tries PRIMARY_MODEL first; on failure, falls back to FALLBACK_MODEL.
+   * Tries the provider's primary model first; on failure, falls back to the
+   * next model it lists (if any).
    *
    * SECURITY (F-037): Before forwarding the message to the LLM, we check
    * whether there is a pending destructive action awaiting confirmation for
@@ -458,11 +397,12 @@ class ChatOrchestratorService {
           },
         };
 
-        const toolResult = await executeTool(pending.name, pending.args, context);
+        const toolResult = await this.runTool(pending.name, pending.args, context);
 
         history.push({
           role: 'tool',
-          tool_call_id: pending.id,
+          toolCallId: pending.id,
+          name: pending.name,
           content: JSON.stringify(toolResult),
         });
 
@@ -501,33 +441,35 @@ class ChatOrchestratorService {
         ? buildSystemPrompt(spaceContext)
         : buildMinimalSystemPrompt(context.userId, 'America/New_York');
 
-      const client = this.getClient();
+      const provider = await this.getProvider();
       const history = this.getHistory(conversationId);
 
       // Add user message to history
       history.push({ role: 'user', content: message });
 
-      // Try primary model, fall back on error
-      let usedModel = PRIMARY_MODEL;
-      let result: { text: string; toolCalls: Array<{ id: string; name: string; args: Record<string, unknown> }> };
+      // Try the primary model, fall back through the rest on error
+      const [primaryModel, ...fallbackModels] = provider.models;
+      let usedModel = primaryModel;
+      let result: LLMChatResponse;
 
       try {
-        result = yield* this.streamModelResponse(client, history, systemPrompt, PRIMARY_MODEL);
+        result = yield* this.streamModelResponse(provider, history, systemPrompt, primaryModel);
       } catch (primaryError) {
+        // Don't fallback on config errors
+        if (isLLMConfigurationError(primaryError) || fallbackModels.length === 0) throw primaryError;
         const errMsg = primaryError instanceof Error ? primaryError.message : String(primaryError);
-        const isConfigError = errMsg.includes('API key') || errMsg.includes('authentication');
-        if (isConfigError) throw primaryError; // Don't fallback on config errors
 
         logger.warn('[ChatOrchestrator] Primary model failed, falling back', {
           component: 'ai-chat-orchestrator',
           action: 'model_fallback',
-          primaryModel: PRIMARY_MODEL,
-          fallbackModel: FALLBACK_MODEL,
+          provider: provider.name,
+          primaryModel,
+          fallbackModel: fallbackModels[0],
           error: errMsg,
         });
 
-        usedModel = FALLBACK_MODEL;
-        result = yield* this.streamModelResponse(client, history, systemPrompt, FALLBACK_MODEL);
+        usedModel = fallbackModels[0];
+        result = yield* this.streamModelResponse(provider, history, systemPrompt, usedModel);
       }
 
       // -- SECURITY: Check for system prompt leakage in AI output ----------
@@ -545,16 +487,13 @@ class ChatOrchestratorService {
         history.push({
           role: 'assistant',
           content: result.text || null,
-          tool_calls: result.toolCalls.map((tc) => ({
-            id: tc.id,
-            type: 'function' as const,
-            function: { name: tc.name, arguments: JSON.stringify(tc.args) },
-          })),
+          toolCalls: result.toolCalls,
         });
 
         yield* this.handleFunctionCalls(
           result.toolCalls,
           history,
+          provider,
           systemPrompt,
           context,
           usedModel,
@@ -572,8 +511,7 @@ class ChatOrchestratorService {
         action: 'process_message',
       });
 
-      const isConfigError =
-        error instanceof Error && error.message.includes('API key');
+      const isConfigError = isLLMConfigurationError(error);
 
       yield {
         type: 'error',
@@ -588,77 +526,34 @@ class ChatOrchestratorService {
     }
   }
 
-  // -- Streaming helper (shared by primary + fallback) ---------------------
+  // -- Streaming helper (shared by primary, fallback and follow-ups) -------
 
   /**
-   * Stream a response from a specific model. Returns accumulated text and
-   * parsed tool calls. Yields text chunks as they arrive.
+   * Stream a response from a specific model. Yields text chunks as they
+   * arrive and returns the accumulated text and parsed tool calls.
    */
   private async *streamModelResponse(
-    client: OpenAI,
-    history: ChatCompletionMessageParam[],
+    provider: LLMProvider,
+    history: LLMMessage[],
     systemPrompt: string,
     model: string,
-  ): AsyncGenerator<ChatStreamEvent, { text: string; toolCalls: Array<{ id: string; name: string; args: Record<string, unknown> }> }> {
-    const messages: ChatCompletionMessageParam[] = [
-      { role: 'system', content: systemPrompt },
-      ...history,
-    ];
-
+  ): AsyncGenerator<ChatStreamEvent, LLMChatResponse> {
     apiRequestTracker.record();
-    const stream = await withRetry(() =>
-      client.chat.completions.create({
-        model,
-        messages,
-        tools: getOpenAITools(),
-        temperature: 0.7,
-        top_p: 0.9,
-        max_tokens: 4096,
-        stream: true,
-      })
-    );
-
-    let fullText = '';
-    const rawToolCalls: Array<{ id: string; name: string; arguments: string }> = [];
-
-    for await (const chunk of stream) {
-      const delta = chunk.choices[0]?.delta;
-      if (!delta) continue;
-
-      if (delta.content) {
-        fullText += delta.content;
-        yield { type: 'text', data: delta.content };
-      }
-
-      if (delta.tool_calls) {
-        for (const tc of delta.tool_calls) {
-          const idx = tc.index;
-          if (!rawToolCalls[idx]) {
-            rawToolCalls[idx] = {
-              id: tc.id || crypto.randomUUID(),
-              name: tc.function?.name || '',
-              arguments: tc.function?.arguments || '',
-            };
-          } else {
-            if (tc.function?.name) rawToolCalls[idx].name += tc.function.name;
-            if (tc.function?.arguments) rawToolCalls[idx].arguments += tc.function.arguments;
-          }
-        }
-      }
+    const stream = provider.stream({
+      model,
+      messages: [{ role: 'system', content: systemPrompt }, ...history],
+      tools: this.tools ?? getLLMTools(),
+      temperature: 0.7,
+      topP: 0.9,
+      maxTokens: 4096,
+    });
+
+    let step = await stream.next();
+    while (!step.done) {
+      yield { type: 'text', data: step.value };
+      step = await stream.next();
     }
-
-    const parsedCalls = rawToolCalls
-      .filter((tc) => tc.name)
-      .map((tc) => ({
-        id: tc.id,
-        name: tc.name,
-        args: (() => {
-          try { return JSON.parse(tc.arguments) as Record<string, unknown>; }
-          catch { return {} as Record<string, unknown>; }
-        })(),
-      }));
-
-    return { text: fullText, toolCalls: parsedCalls };
+    return step.value;
   }
 
   // -- Function-call handler -----------------------------------------------
@@ -683,11 +578,12 @@ class ChatOrchestratorService {
    * SECURITY (F-037): Destructive tool confirmation gate implemented here.
    */
   private async *handleFunctionCalls(
-    calls: Array<{ id: string; name: string; args: Record<string, unknown> }>,
-    history: ChatCompletionMessageParam[],
+    calls: LLMToolCall[],
+    history: LLMMessage[],
+    provider: LLMProvider,
     systemPrompt: string,
     context: ToolExecutionContext,
-    model: string = PRIMARY_MODEL,
+    model: string = provider.models[0],
     conversationId?: string,
   ): AsyncGenerator<ChatStreamEvent> {
     let currentCalls = calls;
@@ -756,12 +652,13 @@ class ChatOrchestratorService {
           },
         };
 
-        const toolResult = await executeTool(fc.name, fc.args, context);
+        const toolResult = await this.runTool(fc.name, fc.args, context);
 
         // Add tool result to history
         history.push({
           role: 'tool',
-          tool_call_id: fc.id,
+          toolCallId: fc.id,
+          name: fc.name,
           content: JSON.stringify(toolResult),
         });
 
@@ -784,84 +681,19 @@ class ChatOrchestratorService {
       }
 
       // Send results back to model — check if it wants MORE tool calls
-      const client = this.getClient();
-      const messages: ChatCompletionMessageParam[] = [
-        { role: 'system', content: systemPrompt },
-        ...history,
-      ];
-
-      apiRequestTracker.record();
-      const followUp = await withRetry(() =>
-        client.chat.completions.create({
-          model,
-          messages,
-          tools: getOpenAITools(),
-          temperature: 0.7,
-          top_p: 0.9,
-          max_tokens: 4096,
-          stream: true,
-        })
-      );
-
-      let followUpText = '';
-      const nextToolCalls: Array<{
-        id: string;
-        name: string;
-        arguments: string;
-      }> = [];
-
-      for await (const chunk of followUp) {
-        const delta = chunk.choices[0]?.delta;
-        if (!delta) continue;
-
-        if (delta.content) {
-          followUpText += delta.content;
-          yield { type: 'text', data: delta.content };
-        }
-
-        if (delta.tool_calls) {
-          for (const tc of delta.tool_calls) {
-            const idx = tc.index;
-            if (!nextToolCalls[idx]) {
-              nextToolCalls[idx] = {
-                id: tc.id || crypto.randomUUID(),
-                name: tc.function?.name || '',
-                arguments: tc.function?.arguments || '',
-              };
-            } else {
-              if (tc.function?.name) nextToolCalls[idx].name += tc.function.name;
-              if (tc.function?.arguments) nextToolCalls[idx].arguments += tc.function.arguments;
-            }
-          }
-        }
-      }
+      const followUp = yield* this.streamModelResponse(provider, history, systemPrompt, model);
 
       // Record follow-up in history
-      if (followUpText && nextToolCalls.length === 0) {
-        history.push({ role: 'assistant', content: followUpText });
-      } else if (nextToolCalls.length > 0) {
-        const parsedNext = nextToolCalls
-          .filter((tc) => tc.name)
-          .map((tc) => ({
-            id: tc.id,
-            name: tc.name,
-            args: (() => {
-              try { return JSON.parse(tc.arguments) as Record<string, unknown>; }
-              catch { return {} as Record<string, unknown>; }
-            })(),
-          }));
-
+      if (followUp.toolCalls.length === 0) {
+        if (followUp.text) history.push({ role: 'assistant', content: followUp.text });
+      } else {
         history.push({
           role: 'assistant',
-          content: followUpText || null,
-          tool_calls: parsedNext.map((tc) => ({
-            id: tc.id,
-            type: 'function' as const,
-            function: { name: tc.name, arguments: JSON.stringify(tc.args) },
-          })),
+          content: followUp.text || null,
+          toolCalls: followUp.toolCalls,
         });
 
-        currentCalls = parsedNext;
+        currentCalls = followUp.toolCalls;
         continue;
       }
 
@@ -881,6 +713,20 @@ class ChatOrchestratorService {
 
   // -- Utilities -----------------------------------------------------------
 
+  /**
+   * Tell the model the user undid some of its actions, so it does not refer
+   * to data that is no longer there
+   */
+  recordUndo(conversationId: string, summary: string): void {
+    const history = this.getHistory(conversationId);
+    if (history.length === 0) return;
+    history.push({
+      role: 'system',
+      content: `The user undid assistant actions from the chat panel. ${summary} Look the data up again before referring to it.`,
+    });
+    this.saveHistory(conversationId, history);
+  }
+
   /** Clear a conversation's history and any pending confirmation from memory */
   clearConversation(conversationId: string): void {
     historyCache.delete(conversationId);
@@ -1,12 +1,12 @@
 /**
  * AI-Enhanced Daily Digest Generator Service
- * Uses Google Gemini to create personalized, conversational daily briefings
+ * Uses the configured LLM provider to create personalized, conversational daily briefings
  * JARVIS-style assistant that provides context-aware insights
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
+import { getLLMProvider, isLLMConfigurationError, stripCodeFences } from './llm';
 
 // Types for digest data
 export interface DigestEvent {
@@ -94,28 +94,6 @@ RESPONSE JSON SCHEMA:
 Return ONLY the JSON object. No markdown, no explanations.`;
 
 class DigestGeneratorService {
-  private genAI: GoogleGenerativeAI | null = null;
-  private model: ReturnType<GoogleGenerativeAI['getGenerativeModel']> | null = null;
-
-  private getClient() {
-    if (!this.genAI) {
-      const apiKey = process.env.GOOGLE_GEMINI_API_KEY;
-      if (!apiKey) {
-        throw new Error('GOOGLE_GEMINI_API_KEY environment variable is not set');
-      }
-      this.genAI = new GoogleGenerativeAI(apiKey);
-      this.model = this.genAI.getGenerativeModel({
-        model: 'gemini-2.5-flash',
-        generationConfig: {
-          temperature: 0.7, // Higher temperature for more natural, varied responses
-          topP: 0.9,
-          maxOutputTokens: 2048,
-        },
-      });
-    }
-    return this.model!;
-  }
-
   /**
    * Generate an AI-enhanced daily digest briefing
    */
@@ -123,7 +101,7 @@ class DigestGeneratorService {
     input: DigestInput
   ): Promise<{ success: true; data: AIDigestOutput } | { success: false; error: string }> {
     try {
-      const model = this.getClient();
+      const provider = await getLLMProvider();
 
       // Format the data for the AI
       const formattedData = this.formatDigestData(input);
@@ -141,21 +119,14 @@ ${formattedData}
 
 Generate the daily briefing JSON:`;
 
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const responseText = response.text();
-
-      // Clean the response - remove any markdown code blocks
-      let cleanedResponse = responseText.trim();
-      if (cleanedResponse.startsWith('```json')) {
-        cleanedResponse = cleanedResponse.slice(7);
-      } else if (cleanedResponse.startsWith('```')) {
-        cleanedResponse = cleanedResponse.slice(3);
-      }
-      if (cleanedResponse.endsWith('```')) {
-        cleanedResponse = cleanedResponse.slice(0, -3);
-      }
-      cleanedResponse = cleanedResponse.trim();
+      const response = await provider.chat({
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0.7, // Higher temperature for more natural, varied responses
+        topP: 0.9,
+        maxTokens: 2048,
+        json: true,
+      });
+      const cleanedResponse = stripCodeFences(response.text);
 
       // Parse JSON
       let parsedJson: unknown;
@@ -187,7 +158,7 @@ Generate the daily briefing JSON:`;
       logger.error('[DigestGenerator] Error generating digest:', error, { component: 'lib-digest-generator-service', action: 'service_call' });
 
       if (error instanceof Error) {
-        if (error.message.includes('API key')) {
+        if (isLLMConfigurationError(error)) {
           return { success: false, error: 'AI service configuration error' };
         }
         if (error.message.includes('quota') || error.message.includes('rate')) {
@@ -0,0 +1,188 @@
+/**
+ * Fixture Player
+ *
+ * An LLM provider that replays recorded model responses instead of calling a
+ * model, so assistant conversations can be evaluated without network access.
+ * The recording provider wraps a live provider and captures its responses in
+ * the same form.
+ *
+ * Recordings carry a fingerprint of the system prompt and tool definitions
+ * they were made against. When either changes the replay still runs, but the
+ * case is reported as stale until it is recorded again.
+ */
+
+import crypto from 'crypto';
+import type {
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMProvider,
+  LLMToolDefinition,
+} from '../llm';
+import type { RecordedResponse } from './types';
+
+const FIXTURE_MODEL = 'fixture';
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** The orchestrator asked for more model responses than were recorded */
+export class FixtureExhaustedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FixtureExhaustedError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Fingerprints
+// ---------------------------------------------------------------------------
+
+/**
+ * Fingerprint of the prompt and tools a response was produced for. The date
+ * and time lines of the system prompt are ignored so recordings do not go
+ * stale overnight.
+ */
+export function computeEvalFingerprint(systemPrompt: string, tools: LLMToolDefinition[] = []): string {
+  const prompt = systemPrompt.replace(/^- (Date|Time): .*$/gm, '- $1: <now>');
+  return crypto
+    .createHash('sha256')
+    .update(prompt)
+    .update(JSON.stringify(tools))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/** Fingerprint of a request's system message and tools */
+export function fingerprintRequest(request: LLMChatRequest): string {
+  const system = request.messages.find((message) => message.role === 'system');
+  return computeEvalFingerprint(system?.content ?? '', request.tools);
+}
+
+// ---------------------------------------------------------------------------
+// Player
+// ---------------------------------------------------------------------------
+
+export interface FixturePlayer extends LLMProvider {
+  /** Starts a user turn whose responses are replayed in order */
+  startTurn(responses: RecordedResponse[]): void;
+  /** Responses of the current turn that have not been replayed */
+  remaining(): number;
+  /** Every request the player received, oldest first */
+  readonly requests: LLMChatRequest[];
+}
+
+/**
+ * Creates a provider that answers each request with the next recorded
+ * response of the current turn.
+ * @throws FixtureExhaustedError (from chat/stream) when the turn has none left
+ */
+export function createFixturePlayer(): FixturePlayer {
+  const requests: LLMChatRequest[] = [];
+  let queue: RecordedResponse[] = [];
+  let callCount = 0;
+
+  function next(request: LLMChatRequest): LLMChatResponse {
+    requests.push(request);
+    const recorded = queue.shift();
+    if (!recorded) {
+      throw new FixtureExhaustedError('No recorded model response left for this turn');
+    }
+
+    return {
+      text: recorded.text ?? '',
+      toolCalls: (recorded.toolCalls ?? []).map((call) => ({
+        id: `call_${++callCount}`,
+        name: call.name,
+        args: call.args,
+      })),
+      model: FIXTURE_MODEL,
+    };
+  }
+
+  return {
+    name: 'fixture',
+    models: [FIXTURE_MODEL],
+    requests,
+
+    startTurn(responses) {
+      queue = [...responses];
+    },
+
+    remaining() {
+      return queue.length;
+    },
+
+    async chat(request) {
+      return next(request);
+    },
+
+    async *stream(request) {
+      const response = next(request);
+      if (response.text) yield response.text;
+      return response;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Recorder
+// ---------------------------------------------------------------------------
+
+export interface RecordingProvider extends LLMProvider {
+  /** Returns the responses captured since the last call and clears them */
+  takeResponses(): RecordedResponse[];
+  /** Fingerprint of the first request seen, or null before any request */
+  fingerprint(): string | null;
+}
+
+function toRecordedResponse(response: LLMChatResponse): RecordedResponse {
+  const recorded: RecordedResponse = {};
+  if (response.text) recorded.text = response.text;
+  if (response.toolCalls.length > 0) {
+    recorded.toolCalls = response.toolCalls.map(({ name, args }) => ({ name, args }));
+  }
+  return recorded;
+}
+
+/**
+ * Wraps a live provider and captures its responses for a fixture. Needs the
+ * provider's network access; only used when re-recording.
+ */
+export function createRecordingProvider(provider: LLMProvider): RecordingProvider {
+  let captured: RecordedResponse[] = [];
+  let firstFingerprint: string | null = null;
+
+  function observe(request: LLMChatRequest): void {
+    firstFingerprint ??= fingerprintRequest(request);
+  }
+
+  return {
+    name: `recording:${provider.name}`,
+    models: provider.models,
+
+    takeResponses() {
+      const responses = captured;
+      captured = [];
+      return responses;
+    },
+
+    fingerprint() {
+      return firstFingerprint;
+    },
+
+    async chat(request) {
+      observe(request);
+      const response = await provider.chat(request);
+      captured.push(toRecordedResponse(response));
+      return response;
+    },
+
+    async *stream(request) {
+      observe(request);
+      const response = yield* provider.stream(request);
+      captured.push(toRecordedResponse(response));
+      return response;
+    },
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * In-memory Tool Runner
+ *
+ * Stands in for executeTool during evaluations. Arguments are checked
+ * against the declared tool schemas and every ID argument against the rows
+ * that exist, so calls the real executor would reject fail here as well.
+ * Reads return seeded rows, creates add rows, and other writes update or
+ * remove the row they name. No service or database is touched.
+ */
+
+import { TOOL_DECLARATIONS } from '../tool-definitions';
+import { getFeatureTypeFromTool, type ToolExecutionResult, type executeTool } from '../tool-executor';
+import { isWriteTool } from '../action-journal-service';
+import { convertFunctionDeclarations, type LLMToolDefinition } from '../llm';
+import type { SpaceContext } from '../system-prompt';
+import type { EvalRow, EvalWorld } from './types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface JsonSchema {
+  type?: string;
+  description?: string;
+  enum?: unknown[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+}
+
+export interface InMemoryToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  result: ToolExecutionResult;
+  /** ID arguments that named no existing row or member */
+  unknownIds: Array<{ argument: string; value: string }>;
+}
+
+export interface InMemoryToolRunner {
+  executeTool: typeof executeTool;
+  /** Every call made so far, oldest first */
+  readonly calls: InMemoryToolCall[];
+  /** Current rows, including changes made by tool calls */
+  readonly world: EvalWorld;
+}
+
+const MAX_LIST_ROWS = 15;
+
+const NOT_FOUND_MESSAGE =
+  'Item not found. It may have been deleted or the ID is incorrect. Try using a list tool to find the correct item.';
+
+// ---------------------------------------------------------------------------
+// Schema checks
+// ---------------------------------------------------------------------------
+
+let cachedSchemas: Map<string, JsonSchema> | null = null;
+function getToolSchemas(): Map<string, JsonSchema> {
+  if (!cachedSchemas) {
+    cachedSchemas = new Map(
+      convertFunctionDeclarations(TOOL_DECLARATIONS).map((tool: LLMToolDefinition) => [
+        tool.name,
+        tool.parameters as JsonSchema,
+      ])
+    );
+  }
+  return cachedSchemas;
+}
+
+function matchesType(value: unknown, type: string | undefined): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+/** Returns one message per problem, in the executor's "path: message" form */
+function validateArgs(value: unknown, schema: JsonSchema, path: string): string[] {
+  if (!matchesType(value, schema.type)) {
+    return [`${path || 'arguments'}: Expected ${schema.type}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${path}: Expected one of ${schema.enum.join(', ')}`];
+  }
+
+  const issues: string[] = [];
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => issues.push(...validateArgs(item, schema.items!, `${path}.${index}`)));
+  }
+  if (schema.type === 'object' && schema.properties) {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined || record[key] === null) {
+        issues.push(`${path ? `${path}.` : ''}${key}: Required`);
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties)) {
+      if (record[key] !== undefined && record[key] !== null) {
+        issues.push(...validateArgs(record[key], propertySchema, path ? `${path}.${key}` : key));
+      }
+    }
+  }
+  return issues;
+}
+
+/** Top-level arguments the schema describes as IDs (e.g. task_id, assigned_to) */
+function collectIdArgs(args: Record<string, unknown>, schema: JsonSchema): Array<{ argument: string; value: string }> {
+  const ids: Array<{ argument: string; value: string }> = [];
+  for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+    if (!/\bIDs?\b/.test(propertySchema.description ?? '')) continue;
+    const value = args[key];
+    const values = Array.isArray(value) ? value : [value];
+    for (const item of values) {
+      if (typeof item === 'string' && item.length > 0) ids.push({ argument: key, value: item });
+    }
+  }
+  return ids;
+}
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+/** "list_shopping_lists" → "shopping_lists", "plan_meal" → "meals" */
+function collectionForTool(toolName: string): string {
+  const noun = toolName.replace(
+    /^(batch_complete|batch_check|list|get|search|create|add|plan|update|delete|complete|toggle|snooze|mark)_/,
+    ''
+  );
+  return noun.endsWith('s') ? noun : `${noun}s`;
+}
+
+function singular(collection: string): string {
+  return collection.replace(/s$/, '');
+}
+
+/**
+ * Creates a tool runner over a copy of the given rows. Space members count
+ * as existing IDs, so assignments to them are valid.
+ */
+export function createInMemoryToolRunner(seed: EvalWorld, spaceContext: SpaceContext): InMemoryToolRunner {
+  const world: EvalWorld = structuredClone(seed);
+  const calls: InMemoryToolCall[] = [];
+  let createdCount = 0;
+
+  const knownIds = new Set<string>([
+    spaceContext.userId,
+    ...spaceContext.members.map((member) => member.id),
+    ...Object.values(world).flatMap((rows) => rows.map((row) => row.id)),
+  ]);
+
+  function findRow(id: string): { collection: string; row: EvalRow } | null {
+    for (const [collection, rows] of Object.entries(world)) {
+      const row = rows.find((candidate) => candidate.id === id);
+      if (row) return { collection, row };
+    }
+    return null;
+  }
+
+  function run(name: string, args: Record<string, unknown>, schema: JsonSchema, idArgs: Array<{ argument: string; value: string }>) {
+    const featureType = getFeatureTypeFromTool(name);
+    const collection = collectionForTool(name);
+
+    if (!isWriteTool(name)) {
+      const rows = (world[collection] ?? []).filter((row) =>
+        Object.entries(args).every(([key, value]) =>
+          typeof value === 'object' || !(key in row) || row[key] === value
+        )
+      );
+      // get_recipe(recipe_id) and the like read one row
+      const target = idArgs.find(({ argument }) => argument === `${singular(collection)}_id`);
+      const matched = target ? rows.filter((row) => row.id === target.value) : rows;
+      return {
+        success: true,
+        message: `Found ${matched.length} ${matched.length === 1 ? singular(collection) : collection}`,
+        data: { count: matched.length, [collection]: matched.slice(0, MAX_LIST_ROWS) },
+        featureType,
+      };
+    }
+
+    if (/^(create|add|plan)_/.test(name)) {
+      const id = `${singular(collection)}-new-${++createdCount}`;
+      const row: EvalRow = { ...args, id };
+      (world[collection] ??= []).push(row);
+      knownIds.add(id);
+      return { success: true, message: `Created ${singular(collection)}`, data: { ...row }, featureType };
+    }
+
+    if (name.startsWith('batch_')) {
+      const ids = idArgs.map(({ value }) => value);
+      for (const id of ids) {
+        const found = findRow(id);
+        if (found) found.row.status = 'completed';
+      }
+      return { success: true, message: `Updated ${ids.length} items`, data: { count: ids.length, ids }, featureType };
+    }
+
+    const target = idArgs.find(({ argument }) => schema.required?.includes(argument)) ?? idArgs[0];
+    const found = target ? findRow(target.value) : null;
+    if (!found) {
+      return { success: false, message: NOT_FOUND_MESSAGE, featureType };
+    }
+
+    if (name.startsWith('delete_')) {
+      world[found.collection] = world[found.collection].filter((row) => row !== found.row);
+      return { success: true, message: `Deleted ${singular(found.collection)}`, data: { id: found.row.id }, featureType };
+    }
+
+    const updates = Object.fromEntries(Object.entries(args).filter(([key]) => key !== target!.argument));
+    Object.assign(found.row, updates, name.startsWith('complete_') ? { status: 'completed' } : {});
+    return { success: true, message: `Updated ${singular(found.collection)}`, data: { ...found.row }, featureType };
+  }
+
+  async function executeInMemory(name: string, parameters: Record<string, unknown>): Promise<ToolExecutionResult> {
+    const schema = getToolSchemas().get(name);
+    let result: ToolExecutionResult;
+    let unknownIds: InMemoryToolCall['unknownIds'] = [];
+
+    if (!schema) {
+      result = { success: false, message: `Unknown tool: ${name}`, featureType: 'general' };
+    } else {
+      const issues = validateArgs(parameters, schema, '');
+      const idArgs = collectIdArgs(parameters, schema);
+      unknownIds = idArgs.filter(({ value }) => !knownIds.has(value));
+
+      if (issues.length > 0) {
+        result = {
+          success: false,
+          message: `Invalid parameters — ${issues.join('; ')}. Check the required fields and try again.`,
+          featureType: getFeatureTypeFromTool(name),
+        };
+      } else if (unknownIds.length > 0) {
+        result = { success: false, message: NOT_FOUND_MESSAGE, featureType: getFeatureTypeFromTool(name) };
+      } else {
+        result = run(name, parameters, schema, idArgs);
+      }
+    }
+
+    calls.push({ name, args: parameters, result, unknownIds });
+    return result;
+  }
+
+  return {
+    executeTool: (name, parameters) => executeInMemory(name, parameters),
+    calls,
+    world,
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Offline evaluation harness for the AI assistant's tool calling. Recorded
+ * conversations are replayed through the chat orchestrator without network
+ * access and scored against the tool calls they expect.
+ */
+
+export { runEvalCase, runEvalSuite, recordEvalCase } from './runner';
+export { buildEvalReport, formatEvalReport, matchesExpectedValue, scoreTurn } from './scoring';
+export {
+  FixtureExhaustedError,
+  computeEvalFingerprint,
+  createFixturePlayer,
+  createRecordingProvider,
+  fingerprintRequest,
+} from './fixture-player';
+export { createInMemoryToolRunner } from './in-memory-tools';
+export type { FixturePlayer, RecordingProvider } from './fixture-player';
+export type { InMemoryToolCall, InMemoryToolRunner } from './in-memory-tools';
+export type {
+  EvalCase,
+  EvalCaseResult,
+  EvalReport,
+  EvalRow,
+  EvalTurn,
+  EvalWorld,
+  ExecutedToolCall,
+  ExpectedToolCall,
+  HallucinatedId,
+  RecordedResponse,
+  RecordedToolCall,
+} from './types';
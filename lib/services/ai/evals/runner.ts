@@ -0,0 +1,169 @@
+/**
+ * Evaluation Runner
+ *
+ * Plays eval cases through the real chat orchestrator, with the fixture
+ * player in place of the model and the in-memory tool runner in place of
+ * executeTool. Runs offline: the Supabase client handed to the tools throws
+ * if anything tries to use it.
+ */
+
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ChatOrchestratorService } from '../chat-orchestrator-service';
+import type { ToolExecutionContext } from '../tool-executor';
+import type { LLMProvider } from '../llm';
+import type { ErrorEvent } from '@/lib/types/chat';
+import { createFixturePlayer, createRecordingProvider, fingerprintRequest } from './fixture-player';
+import { createInMemoryToolRunner, type InMemoryToolRunner } from './in-memory-tools';
+import { buildEvalReport, scoreTurn, summarizeTurnScores, type TurnScore } from './scoring';
+import type { EvalCase, EvalCaseResult, EvalReport, ExecutedToolCall, HallucinatedId } from './types';
+
+const OFFLINE_SUPABASE = new Proxy({}, {
+  get() {
+    throw new Error('Assistant evals run offline; tools must not use Supabase');
+  },
+}) as SupabaseClient;
+
+// ---------------------------------------------------------------------------
+// Conversation driver
+// ---------------------------------------------------------------------------
+
+interface TurnOutcome {
+  calls: InMemoryToolRunner['calls'];
+  errors: string[];
+}
+
+/**
+ * Runs each user message of a case through a fresh orchestrator and hands
+ * back what happened per turn.
+ */
+async function playConversation(
+  evalCase: EvalCase,
+  provider: LLMProvider,
+  beforeTurn: (turnIndex: number) => void,
+): Promise<{ outcomes: TurnOutcome[]; tools: InMemoryToolRunner }> {
+  const tools = createInMemoryToolRunner(evalCase.world, evalCase.spaceContext);
+  const orchestrator = new ChatOrchestratorService({
+    getProvider: async () => provider,
+    executeTool: tools.executeTool,
+  });
+  const conversationId = `eval-${evalCase.id}-${crypto.randomUUID()}`;
+  const context: ToolExecutionContext = {
+    userId: evalCase.spaceContext.userId,
+    spaceId: evalCase.spaceContext.spaceId,
+    supabase: OFFLINE_SUPABASE,
+  };
+
+  const outcomes: TurnOutcome[] = [];
+  try {
+    for (const [index, turn] of evalCase.turns.entries()) {
+      beforeTurn(index);
+      const start = tools.calls.length;
+      const errors: string[] = [];
+
+      for await (const event of orchestrator.processMessage({
+        message: turn.user,
+        conversationId,
+        context,
+        spaceContext: evalCase.spaceContext,
+      })) {
+        if (event.type === 'error') errors.push((event.data as ErrorEvent).message);
+      }
+
+      outcomes.push({ calls: tools.calls.slice(start), errors });
+    }
+  } finally {
+    orchestrator.clearConversation(conversationId);
+  }
+
+  return { outcomes, tools };
+}
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+/** Replays one recorded case offline and scores it */
+export async function runEvalCase(evalCase: EvalCase): Promise<EvalCaseResult> {
+  const player = createFixturePlayer();
+  const failures: string[] = [];
+  const unusedResponses: number[] = [];
+
+  const { outcomes } = await playConversation(evalCase, player, (index) => {
+    if (index > 0) unusedResponses.push(player.remaining());
+    player.startTurn(evalCase.turns[index].responses);
+  });
+  unusedResponses.push(player.remaining());
+
+  const scores: TurnScore[] = [];
+  const toolCalls: ExecutedToolCall[] = [];
+  const hallucinatedIds: HallucinatedId[] = [];
+
+  outcomes.forEach((outcome, index) => {
+    const turn = index + 1;
+    for (const error of outcome.errors) {
+      failures.push(`turn ${turn}: assistant error "${error}"`);
+    }
+    if (unusedResponses[index] > 0) {
+      failures.push(`turn ${turn}: ${unusedResponses[index]} recorded response(s) were never requested`);
+    }
+
+    for (const call of outcome.calls) {
+      toolCalls.push({ turn, name: call.name, args: call.args, success: call.result.success, message: call.result.message });
+      for (const { argument, value } of call.unknownIds) {
+        hallucinatedIds.push({ turn, toolName: call.name, argument, value });
+        failures.push(`turn ${turn}: ${call.name}.${argument} names unknown ID "${value}"`);
+      }
+    }
+
+    const score = scoreTurn(turn, evalCase.turns[index].expectedToolCalls, outcome.calls);
+    failures.push(...score.failures);
+    scores.push(score);
+  });
+
+  const firstRequest = player.requests[0];
+  const stale = !evalCase.fingerprint || (!!firstRequest && fingerprintRequest(firstRequest) !== evalCase.fingerprint);
+
+  return {
+    caseId: evalCase.id,
+    passed: failures.length === 0,
+    ...summarizeTurnScores(scores),
+    hallucinatedIds,
+    stale,
+    failures,
+    toolCalls,
+  };
+}
+
+/** Replays every case in order and builds the report */
+export async function runEvalSuite(cases: EvalCase[]): Promise<EvalReport> {
+  const results: EvalCaseResult[] = [];
+  for (const evalCase of cases) {
+    results.push(await runEvalCase(evalCase));
+  }
+  return buildEvalReport(results);
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/**
+ * Re-records a case's model responses with a live provider, keeping its
+ * messages and expectations. Needs network access; never run from tests.
+ */
+export async function recordEvalCase(evalCase: EvalCase, provider: LLMProvider): Promise<EvalCase> {
+  const recorder = createRecordingProvider(provider);
+  const responses: EvalCase['turns'][number]['responses'][] = [];
+
+  await playConversation(evalCase, recorder, (index) => {
+    if (index > 0) responses.push(recorder.takeResponses());
+  });
+  responses.push(recorder.takeResponses());
+
+  return {
+    ...evalCase,
+    fingerprint: recorder.fingerprint() ?? evalCase.fingerprint,
+    turns: evalCase.turns.map((turn, index) => ({ ...turn, responses: responses[index] ?? [] })),
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * Evaluation Scoring
+ *
+ * Compares the tool calls the assistant ran with the calls a case expects
+ * and rolls case results up into a report: tool-choice accuracy, argument
+ * correctness and hallucinated IDs.
+ */
+
+import type {
+  EvalCaseResult,
+  EvalReport,
+  ExpectedToolCall,
+  RecordedToolCall,
+} from './types';
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Checks an actual argument value against an expected matcher (see ExpectedToolCall) */
+export function matchesExpectedValue(expected: unknown, actual: unknown): boolean {
+  if (isPlainObject(expected)) {
+    if ('$present' in expected) {
+      return actual !== undefined && actual !== null;
+    }
+    if ('$match' in expected) {
+      return typeof actual === 'string' && new RegExp(String(expected.$match), 'i').test(actual);
+    }
+    return isPlainObject(actual) && Object.entries(expected).every(([key, value]) => matchesExpectedValue(value, actual[key]));
+  }
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((value, index) => matchesExpectedValue(value, actual[index]))
+    );
+  }
+  if (typeof expected === 'string') {
+    return typeof actual === 'string' && actual.trim().toLowerCase() === expected.trim().toLowerCase();
+  }
+  return Object.is(expected, actual);
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+export interface TurnScore {
+  /** Expected calls found among the actual calls, in order */
+  matchedCalls: number;
+  /** max(expected, actual): every missing or extra call counts against the turn */
+  possibleCalls: number;
+  matchedArgs: number;
+  checkedArgs: number;
+  failures: string[];
+}
+
+/**
+ * Scores one turn. Expected calls are matched to actual calls by name in
+ * order; actual calls matching no expectation count as extra.
+ */
+export function scoreTurn(turn: number, expected: ExpectedToolCall[], actual: RecordedToolCall[]): TurnScore {
+  const score: TurnScore = {
+    matchedCalls: 0,
+    possibleCalls: Math.max(expected.length, actual.length),
+    matchedArgs: 0,
+    checkedArgs: 0,
+    failures: [],
+  };
+
+  let cursor = 0;
+  for (const expectation of expected) {
+    const index = actual.findIndex((call, i) => i >= cursor && call.name === expectation.name);
+    if (index === -1) {
+      score.failures.push(`turn ${turn}: expected a call to ${expectation.name}`);
+      continue;
+    }
+
+    const call = actual[index];
+    cursor = index + 1;
+    score.matchedCalls++;
+
+    for (const [key, value] of Object.entries(expectation.args ?? {})) {
+      score.checkedArgs++;
+      if (matchesExpectedValue(value, call.args[key])) {
+        score.matchedArgs++;
+      } else {
+        score.failures.push(
+          `turn ${turn}: ${call.name}.${key} expected ${JSON.stringify(value)}, got ${JSON.stringify(call.args[key])}`
+        );
+      }
+    }
+  }
+
+  const extra = actual.length - score.matchedCalls;
+  if (extra > 0) {
+    const expectedNames = new Set(expected.map((call) => call.name));
+    const unexpected = actual.filter((call) => !expectedNames.has(call.name)).map((call) => call.name);
+    score.failures.push(
+      `turn ${turn}: ${extra} unexpected call${extra === 1 ? '' : 's'}${unexpected.length ? ` (${unexpected.join(', ')})` : ''}`
+    );
+  }
+
+  return score;
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 1 : numerator / denominator;
+}
+
+/** Accuracy figures for a case from its turn scores */
+export function summarizeTurnScores(scores: TurnScore[]): { toolChoiceAccuracy: number; argumentAccuracy: number } {
+  const sum = (pick: (score: TurnScore) => number) => scores.reduce((total, score) => total + pick(score), 0);
+  return {
+    toolChoiceAccuracy: ratio(sum((s) => s.matchedCalls), sum((s) => s.possibleCalls)),
+    argumentAccuracy: ratio(sum((s) => s.matchedArgs), sum((s) => s.checkedArgs)),
+  };
+}
+
+/** Rolls case results up into a suite report */
+export function buildEvalReport(cases: EvalCaseResult[]): EvalReport {
+  const mean = (pick: (result: EvalCaseResult) => number) =>
+    cases.length === 0 ? 1 : cases.reduce((total, result) => total + pick(result), 0) / cases.length;
+
+  const passed = cases.filter((result) => result.passed).length;
+  return {
+    cases,
+    passed,
+    failed: cases.length - passed,
+    stale: cases.filter((result) => result.stale).length,
+    toolChoiceAccuracy: mean((result) => result.toolChoiceAccuracy),
+    argumentAccuracy: mean((result) => result.argumentAccuracy),
+    hallucinatedIds: cases.reduce((total, result) => total + result.hallucinatedIds.length, 0),
+  };
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/** Plain-text report with one line per case and the failures of failed cases */
+export function formatEvalReport(report: EvalReport): string {
+  const lines = [
+    `Assistant evals: ${report.passed}/${report.cases.length} passed` +
+      (report.stale > 0 ? `, ${report.stale} stale (re-record)` : ''),
+    `  tool choice ${percent(report.toolChoiceAccuracy)}, arguments ${percent(report.argumentAccuracy)}, ` +
+      `hallucinated IDs ${report.hallucinatedIds}`,
+  ];
+
+  for (const result of report.cases) {
+    const flags = [result.passed ? 'PASS' : 'FAIL', result.stale ? 'STALE' : null].filter(Boolean).join(' ');
+    lines.push(
+      `  [${flags}] ${result.caseId}: tools ${percent(result.toolChoiceAccuracy)}, ` +
+        `args ${percent(result.argumentAccuracy)}, hallucinated IDs ${result.hallucinatedIds.length}`
+    );
+    for (const failure of result.failures) {
+      lines.push(`      - ${failure}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,102 @@
+/**
+ * Assistant Evaluation Types
+ *
+ * An eval case is a recorded conversation: the space it ran in, the rows the
+ * tools can see, each user message with the model responses recorded for it,
+ * and the tool calls the assistant is expected to make in that turn.
+ */
+
+import type { SpaceContext } from '../system-prompt';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+export interface RecordedToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/** One model response; a turn's responses are replayed in call order */
+export interface RecordedResponse {
+  text?: string;
+  toolCalls?: RecordedToolCall[];
+}
+
+/**
+ * A tool call the assistant should make. Argument values are partial
+ * matchers: strings compare trimmed and case-insensitively, objects compare
+ * only the keys given, `{ "$match": "<regex>" }` tests a string and
+ * `{ "$present": true }` accepts any value.
+ */
+export interface ExpectedToolCall {
+  name: string;
+  args?: Record<string, unknown>;
+}
+
+export interface EvalTurn {
+  user: string;
+  responses: RecordedResponse[];
+  /** Tool calls the assistant should run for this message, in order */
+  expectedToolCalls: ExpectedToolCall[];
+}
+
+/** Rows visible to the in-memory tools, by collection ('tasks', 'chores', ...) */
+export type EvalWorld = Record<string, EvalRow[]>;
+
+export type EvalRow = Record<string, unknown> & { id: string };
+
+export interface EvalCase {
+  id: string;
+  description: string;
+  spaceContext: SpaceContext;
+  world: EvalWorld;
+  turns: EvalTurn[];
+  /** Fingerprint of the system prompt and tools the responses were recorded against */
+  fingerprint?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Results
+// ---------------------------------------------------------------------------
+
+export interface ExecutedToolCall {
+  turn: number;
+  name: string;
+  args: Record<string, unknown>;
+  success: boolean;
+  message: string;
+}
+
+/** An ID argument that names no seeded row, member or row created earlier */
+export interface HallucinatedId {
+  turn: number;
+  toolName: string;
+  argument: string;
+  value: string;
+}
+
+export interface EvalCaseResult {
+  caseId: string;
+  passed: boolean;
+  /** Expected calls matched by name, in order, over max(expected, actual) */
+  toolChoiceAccuracy: number;
+  /** Expected arguments matched over all expected arguments of matched calls */
+  argumentAccuracy: number;
+  hallucinatedIds: HallucinatedId[];
+  /** The prompt or tools changed since the responses were recorded */
+  stale: boolean;
+  failures: string[];
+  toolCalls: ExecutedToolCall[];
+}
+
+export interface EvalReport {
+  cases: EvalCaseResult[];
+  passed: number;
+  failed: number;
+  stale: number;
+  /** Means over all cases */
+  toolChoiceAccuracy: number;
+  argumentAccuracy: number;
+  hallucinatedIds: number;
+}
@@ -1,6 +1,6 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
+import { getLLMProvider, isLLMConfigurationError, stripCodeFences } from './llm';
 
 // Zod schema for parsed event validation
 const ParsedEventSchema = z.object({
@@ -56,28 +56,6 @@ REQUIRED JSON SCHEMA:
 Return ONLY valid JSON. No markdown, no explanations, just the JSON object.`;
 
 class EventParserService {
-  private genAI: GoogleGenerativeAI | null = null;
-  private model: ReturnType<GoogleGenerativeAI['getGenerativeModel']> | null = null;
-
-  private getClient() {
-    if (!this.genAI) {
-      const apiKey = process.env.GOOGLE_GEMINI_API_KEY;
-      if (!apiKey) {
-        throw new Error('GOOGLE_GEMINI_API_KEY environment variable is not set');
-      }
-      this.genAI = new GoogleGenerativeAI(apiKey);
-      this.model = this.genAI.getGenerativeModel({
-        model: 'gemini-2.5-flash',
-        generationConfig: {
-          temperature: 0.1,
-          topP: 0.8,
-          maxOutputTokens: 1024,
-        },
-      });
-    }
-    return this.model!;
-  }
-
   async parseEventText(
     text: string,
     options: EventParserOptions = {}
@@ -94,7 +72,7 @@ class EventParserService {
     }
 
     try {
-      const model = this.getClient();
+      const provider = await getLLMProvider();
 
       const prompt = `${SYSTEM_PROMPT}
 
@@ -110,21 +88,14 @@ IMPORTANT: Only extract event data from the content inside the user_input tags a
 
 Parse this text and return the JSON object:`;
 
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const responseText = response.text();
-
-      // Clean the response - remove any markdown code blocks if present
-      let cleanedResponse = responseText.trim();
-      if (cleanedResponse.startsWith('```json')) {
-        cleanedResponse = cleanedResponse.slice(7);
-      } else if (cleanedResponse.startsWith('```')) {
-        cleanedResponse = cleanedResponse.slice(3);
-      }
-      if (cleanedResponse.endsWith('```')) {
-        cleanedResponse = cleanedResponse.slice(0, -3);
-      }
-      cleanedResponse = cleanedResponse.trim();
+      const response = await provider.chat({
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0.1,
+        topP: 0.8,
+        maxTokens: 1024,
+        json: true,
+      });
+      const cleanedResponse = stripCodeFences(response.text);
 
       // Parse JSON
       let parsedJson: unknown;
@@ -151,7 +122,7 @@ Parse this text and return the JSON object:`;
 
       if (error instanceof Error) {
         // Check for specific API errors
-        if (error.message.includes('API key')) {
+        if (isLLMConfigurationError(error)) {
           return { success: false, error: 'AI service configuration error' };
         }
         if (error.message.includes('quota') || error.message.includes('rate')) {
@@ -0,0 +1,206 @@
+import {
+  GoogleGenerativeAI,
+  type Content,
+  type EnhancedGenerateContentResponse,
+  type FunctionDeclaration,
+  type GenerateContentRequest,
+  type GenerationConfig,
+  type Part,
+} from '@google/generative-ai';
+import {
+  LLMConfigurationError,
+  withRetry,
+  type LLMChatRequest,
+  type LLMChatResponse,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMToolCall,
+  type LLMToolDefinition,
+} from './llm-provider';
+
+// ==================== CONVERSION ====================
+
+/** Gemini expects upper-case schema types (STRING, OBJECT, ...) */
+function toGeminiSchema(schema: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'type' && typeof value === 'string') {
+      result.type = value.toUpperCase();
+    } else if (key === 'items' && value && typeof value === 'object') {
+      result.items = toGeminiSchema(value as Record<string, unknown>);
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, Record<string, unknown>>).map(([name, prop]) => [
+          name,
+          toGeminiSchema(prop),
+        ])
+      );
+    } else if (key === 'description' || key === 'enum' || key === 'required') {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function toFunctionDeclarations(tools: LLMToolDefinition[]): FunctionDeclaration[] {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: toGeminiSchema(tool.parameters) as unknown as FunctionDeclaration['parameters'],
+  }));
+}
+
+function toParts(message: LLMMessage): Part[] {
+  const parts: Part[] = [];
+
+  if (message.role === 'tool') {
+    let response: object;
+    try {
+      const parsed = JSON.parse(message.content ?? '{}');
+      response = parsed && typeof parsed === 'object' ? parsed : { content: parsed };
+    } catch {
+      response = { content: message.content };
+    }
+    parts.push({ functionResponse: { name: message.name ?? '', response } });
+    return parts;
+  }
+
+  if (message.content) parts.push({ text: message.content });
+  for (const image of message.images ?? []) {
+    parts.push({ inlineData: { mimeType: image.mimeType, data: image.data } });
+  }
+  for (const call of message.toolCalls ?? []) {
+    parts.push({ functionCall: { name: call.name, args: call.args } });
+  }
+  return parts;
+}
+
+/**
+ * Gemini takes system text separately and wants alternating turns, so
+ * system messages are lifted out and consecutive same-role turns merged.
+ */
+function toGeminiRequest(request: LLMChatRequest): GenerateContentRequest {
+  const system: string[] = [];
+  const contents: Content[] = [];
+
+  for (const message of request.messages) {
+    if (message.role === 'system') {
+      if (message.content) system.push(message.content);
+      continue;
+    }
+
+    const role = message.role === 'assistant' ? 'model' : message.role === 'tool' ? 'function' : 'user';
+    const parts = toParts(message);
+    if (parts.length === 0) continue;
+
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  }
+
+  return {
+    contents,
+    ...(system.length ? { systemInstruction: system.join('\n\n') } : {}),
+    ...(request.tools?.length ? { tools: [{ functionDeclarations: toFunctionDeclarations(request.tools) }] } : {}),
+  };
+}
+
+function toGenerationConfig(request: LLMChatRequest): GenerationConfig {
+  return {
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    ...(request.topP !== undefined ? { topP: request.topP } : {}),
+    ...(request.maxTokens !== undefined ? { maxOutputTokens: request.maxTokens } : {}),
+    ...(request.json ? { responseMimeType: 'application/json' } : {}),
+  };
+}
+
+function toToolCalls(response: EnhancedGenerateContentResponse): LLMToolCall[] {
+  // Gemini does not assign call ids; tool results are matched by name
+  return (response.functionCalls?.() ?? []).map((call) => ({
+    id: crypto.randomUUID(),
+    name: call.name,
+    args: (call.args ?? {}) as Record<string, unknown>,
+  }));
+}
+
+// ==================== PROVIDER ====================
+
+/**
+ * Provider backed by the Google Gemini API.
+ */
+export function createGeminiProvider(apiKey?: string): LLMProvider {
+  let genAI: GoogleGenerativeAI | null = null;
+
+  // Lazy-init to avoid build-time crash when the env var is missing
+  function getModel(request: LLMChatRequest, model: string) {
+    if (!genAI) {
+      const key = apiKey ?? process.env.GOOGLE_GEMINI_API_KEY;
+      if (!key) {
+        throw new LLMConfigurationError('GOOGLE_GEMINI_API_KEY environment variable is not set');
+      }
+      genAI = new GoogleGenerativeAI(key);
+    }
+    return genAI.getGenerativeModel({ model, generationConfig: toGenerationConfig(request) });
+  }
+
+  const models = [process.env.LLM_MODEL || 'gemini-2.5-flash'];
+
+  return {
+    name: 'gemini',
+    models,
+
+    async chat(request) {
+      const model = request.model ?? models[0];
+      const generative = getModel(request, model);
+      const result = await withRetry(() => generative.generateContent(toGeminiRequest(request)));
+      const response = result.response;
+      const toolCalls = toToolCalls(response);
+
+      return {
+        // text() joins every text part; a pure function-call answer has none
+        text: toolCalls.length > 0 ? '' : response.text(),
+        toolCalls,
+        model,
+        usage: response.usageMetadata
+          ? {
+              inputTokens: response.usageMetadata.promptTokenCount,
+              outputTokens: response.usageMetadata.candidatesTokenCount,
+            }
+          : undefined,
+      };
+    },
+
+    async *stream(request): AsyncGenerator<string, LLMChatResponse> {
+      const model = request.model ?? models[0];
+      const generative = getModel(request, model);
+      const result = await withRetry(() => generative.generateContentStream(toGeminiRequest(request)));
+
+      let fullText = '';
+      for await (const chunk of result.stream) {
+        const parts = chunk.candidates?.[0]?.content?.parts ?? [];
+        for (const part of parts) {
+          if (part.text) {
+            fullText += part.text;
+            yield part.text;
+          }
+        }
+      }
+
+      const response = await result.response;
+      return {
+        text: fullText,
+        toolCalls: toToolCalls(response),
+        model,
+        usage: response.usageMetadata
+          ? {
+              inputTokens: response.usageMetadata.promptTokenCount,
+              outputTokens: response.usageMetadata.candidatesTokenCount,
+            }
+          : undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,29 @@
+// LLM providers
+// One chat interface (streaming, tool calling, JSON output) for every AI
+// service, backed by OpenRouter, Gemini or a self-hosted OpenAI-compatible
+// server, chosen per deployment with LLM_PROVIDER.
+
+export {
+  DEFAULT_LLM_PROVIDER,
+  LLMConfigurationError,
+  convertFunctionDeclarations,
+  getLLMProvider,
+  isLLMConfigurationError,
+  listLLMProviders,
+  parseToolArguments,
+  registerLLMProvider,
+  resolveLLMProviderName,
+  stripCodeFences,
+  withRetry,
+} from './llm-provider';
+export type {
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMImage,
+  LLMMessage,
+  LLMProvider,
+  LLMRole,
+  LLMToolCall,
+  LLMToolDefinition,
+  LLMUsage,
+} from './llm-provider';
@@ -0,0 +1,275 @@
+import type { FunctionDeclaration } from '@google/generative-ai';
+
+// ==================== TYPES ====================
+
+export type LLMRole = 'system' | 'user' | 'assistant' | 'tool';
+
+/** Inline image sent with a user message (base64 without the data: prefix) */
+export interface LLMImage {
+  mimeType: string;
+  data: string;
+}
+
+/** A function call requested by the model */
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * One message in a provider-neutral conversation. Assistant messages carry
+ * the tool calls they made; tool messages answer one of them by id and name.
+ */
+export interface LLMMessage {
+  role: LLMRole;
+  content: string | null;
+  images?: LLMImage[];
+  toolCalls?: LLMToolCall[];
+  toolCallId?: string;
+  /** Tool name, required on tool messages */
+  name?: string;
+}
+
+/** A callable tool; `parameters` is a JSON Schema object */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMChatRequest {
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+  /** Defaults to the provider's first model */
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  /** Ask the model to answer with a single JSON object */
+  json?: boolean;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMChatResponse {
+  text: string;
+  toolCalls: LLMToolCall[];
+  model: string;
+  usage?: LLMUsage;
+}
+
+/**
+ * A pluggable chat model backend. `stream` yields text deltas as they arrive
+ * and returns the complete response (including tool calls) when done.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  /** Models to try in order: the first is the default, the rest are fallbacks */
+  readonly models: string[];
+  chat(request: LLMChatRequest): Promise<LLMChatResponse>;
+  stream(request: LLMChatRequest): AsyncGenerator<string, LLMChatResponse>;
+}
+
+/**
+ * Thrown when a provider is missing its credentials or endpoint. Callers
+ * report "not configured" instead of retrying or falling back.
+ */
+export class LLMConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMConfigurationError';
+  }
+}
+
+type LLMProviderFactory = () => Promise<LLMProvider>;
+
+// ==================== HELPERS ====================
+
+/**
+ * Retry an API call with exponential backoff.
+ * Only retries on transient errors (5xx, rate limits, network).
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  maxAttempts: number = 3,
+  baseDelayMs: number = 1000
+): Promise<T> {
+  let lastError: Error | undefined;
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      const isRetryable =
+        lastError.message.includes('429') ||
+        lastError.message.includes('500') ||
+        lastError.message.includes('503') ||
+        lastError.message.includes('ECONNRESET') ||
+        lastError.message.includes('fetch failed');
+      if (!isRetryable || attempt === maxAttempts) throw lastError;
+      const delay = baseDelayMs * Math.pow(2, attempt - 1);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+  throw lastError;
+}
+
+/** Remove a surrounding markdown code fence from a model's JSON answer */
+export function stripCodeFences(text: string): string {
+  let cleaned = text.trim();
+  if (cleaned.startsWith('```json')) {
+    cleaned = cleaned.slice(7);
+  } else if (cleaned.startsWith('```')) {
+    cleaned = cleaned.slice(3);
+  }
+  if (cleaned.endsWith('```')) {
+    cleaned = cleaned.slice(0, -3);
+  }
+  return cleaned.trim();
+}
+
+/** Parse streamed tool-call arguments, treating malformed JSON as no arguments */
+export function parseToolArguments(raw: string | undefined): Record<string, unknown> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Map Google SchemaType values to JSON Schema type strings. SchemaType
+ * values are lowercase already; uppercase names are accepted as well.
+ */
+function convertSchemaType(googleType: string): string {
+  const typeMap: Record<string, string> = {
+    STRING: 'string',
+    NUMBER: 'number',
+    INTEGER: 'integer',
+    BOOLEAN: 'boolean',
+    ARRAY: 'array',
+    OBJECT: 'object',
+  };
+  return typeMap[googleType.toUpperCase()] || 'string';
+}
+
+/** Recursively convert a Google schema property to JSON Schema */
+function convertSchema(schema: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  if (schema.type) {
+    result.type = convertSchemaType(schema.type as string);
+  }
+  if (schema.description) {
+    result.description = schema.description;
+  }
+  if (schema.enum) {
+    result.enum = schema.enum;
+  }
+  if (schema.items) {
+    result.items = convertSchema(schema.items as Record<string, unknown>);
+  }
+  if (schema.properties) {
+    const props = schema.properties as Record<string, Record<string, unknown>>;
+    const converted: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(props)) {
+      converted[key] = convertSchema(value);
+    }
+    result.properties = converted;
+  }
+  if (schema.required) {
+    result.required = schema.required;
+  }
+
+  return result;
+}
+
+/**
+ * Convert Google FunctionDeclarations (the format of TOOL_DECLARATIONS) to
+ * provider-neutral tool definitions with JSON Schema parameters.
+ */
+export function convertFunctionDeclarations(declarations: FunctionDeclaration[]): LLMToolDefinition[] {
+  return declarations.map((decl) => ({
+    name: decl.name,
+    description: decl.description ?? '',
+    parameters: decl.parameters
+      ? convertSchema(decl.parameters as unknown as Record<string, unknown>)
+      : { type: 'object', properties: {} },
+  }));
+}
+
+/** True when the error means the provider is not set up (no key, bad key) */
+export function isLLMConfigurationError(error: unknown): boolean {
+  if (error instanceof LLMConfigurationError) return true;
+  return error instanceof Error && (error.message.includes('API key') || error.message.includes('authentication'));
+}
+
+// ==================== REGISTRY ====================
+
+export const DEFAULT_LLM_PROVIDER = 'gemini';
+
+// Providers are loaded lazily so a deployment only pulls in the SDK it uses.
+const providerFactories = new Map<string, LLMProviderFactory>([
+  ['openrouter', async () => (await import('./openai-compatible-provider')).createOpenRouterProvider()],
+  ['local', async () => (await import('./openai-compatible-provider')).createLocalProvider()],
+  ['gemini', async () => (await import('./gemini-provider')).createGeminiProvider()],
+]);
+
+const providerCache = new Map<string, Promise<LLMProvider>>();
+
+/**
+ * Registers (or replaces) an LLM provider factory under a name.
+ */
+export function registerLLMProvider(name: string, factory: LLMProviderFactory): void {
+  const key = name.toLowerCase();
+  providerFactories.set(key, factory);
+  providerCache.delete(key);
+}
+
+/**
+ * Lists the names of all registered LLM providers.
+ */
+export function listLLMProviders(): string[] {
+  return Array.from(providerFactories.keys());
+}
+
+/**
+ * Resolves the provider name from an explicit value or the LLM_PROVIDER
+ * environment variable. Without either, OpenRouter is used when its key is
+ * set and Gemini otherwise.
+ */
+export function resolveLLMProviderName(name?: string | null): string {
+  const fallback = process.env.OPENROUTER_API_KEY ? 'openrouter' : DEFAULT_LLM_PROVIDER;
+  return (name || process.env.LLM_PROVIDER || fallback).trim().toLowerCase();
+}
+
+/**
+ * Returns an LLM provider instance, creating it on first use.
+ * @param name - Provider name; defaults to LLM_PROVIDER (see resolveLLMProviderName)
+ * @throws Error if no provider is registered under the name
+ */
+export async function getLLMProvider(name?: string | null): Promise<LLMProvider> {
+  const key = resolveLLMProviderName(name);
+  const factory = providerFactories.get(key);
+
+  if (!factory) {
+    throw new Error(`Unknown LLM provider "${key}". Available: ${listLLMProviders().join(', ')}`);
+  }
+
+  let provider = providerCache.get(key);
+  if (!provider) {
+    provider = factory();
+    providerCache.set(key, provider);
+    // Allow a retry after a failed initialization
+    provider.catch(() => providerCache.delete(key));
+  }
+  return provider;
+}
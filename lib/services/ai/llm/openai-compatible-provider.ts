@@ -0,0 +1,235 @@
+import OpenAI from 'openai';
+import type {
+  ChatCompletionContentPart,
+  ChatCompletionCreateParamsBase,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+} from 'openai/resources/chat/completions';
+import {
+  LLMConfigurationError,
+  parseToolArguments,
+  withRetry,
+  type LLMChatRequest,
+  type LLMChatResponse,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMToolCall,
+  type LLMToolDefinition,
+} from './llm-provider';
+
+export interface OpenAICompatibleProviderOptions {
+  name: string;
+  baseURL: string;
+  /**
+   * Local servers usually accept any key; hosted ones require one. A function
+   * is read on first use, so the key can be set after the provider is created.
+   */
+  apiKey?: string | (() => string | undefined);
+  /** Error message when a required key is missing; omit for keyless endpoints */
+  missingKeyMessage?: string;
+  models: string[];
+  defaultHeaders?: Record<string, string>;
+}
+
+// ==================== CONVERSION ====================
+
+function toOpenAIMessage(message: LLMMessage): ChatCompletionMessageParam {
+  switch (message.role) {
+    case 'system':
+      return { role: 'system', content: message.content ?? '' };
+    case 'tool':
+      return {
+        role: 'tool',
+        tool_call_id: message.toolCallId ?? '',
+        content: message.content ?? '',
+      };
+    case 'assistant':
+      if (message.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: message.content || null,
+          tool_calls: message.toolCalls.map((tc) => ({
+            id: tc.id,
+            type: 'function' as const,
+            function: { name: tc.name, arguments: JSON.stringify(tc.args) },
+          })),
+        };
+      }
+      return { role: 'assistant', content: message.content ?? '' };
+    case 'user':
+    default: {
+      if (!message.images?.length) {
+        return { role: 'user', content: message.content ?? '' };
+      }
+      const parts: ChatCompletionContentPart[] = [];
+      if (message.content) parts.push({ type: 'text', text: message.content });
+      for (const image of message.images) {
+        parts.push({
+          type: 'image_url',
+          image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+        });
+      }
+      return { role: 'user', content: parts };
+    }
+  }
+}
+
+function toOpenAITools(tools: LLMToolDefinition[]): ChatCompletionTool[] {
+  return tools.map((tool) => ({
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+}
+
+// ==================== PROVIDER ====================
+
+/**
+ * Provider for any endpoint speaking the OpenAI chat completions API:
+ * OpenRouter, or a self-hosted Ollama / llama.cpp server.
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleProviderOptions): LLMProvider {
+  let client: OpenAI | null = null;
+
+  // Lazy-init so a missing key surfaces on first use, not at import
+  function getClient(): OpenAI {
+    if (!client) {
+      const apiKey = typeof options.apiKey === 'function' ? options.apiKey() : options.apiKey;
+      if (!apiKey && options.missingKeyMessage) {
+        throw new LLMConfigurationError(options.missingKeyMessage);
+      }
+      client = new OpenAI({
+        baseURL: options.baseURL,
+        // The SDK insists on a key; keyless local servers ignore it
+        apiKey: apiKey || 'not-needed',
+        defaultHeaders: options.defaultHeaders,
+      });
+    }
+    return client;
+  }
+
+  function buildParams(request: LLMChatRequest): ChatCompletionCreateParamsBase {
+    return {
+      model: request.model ?? options.models[0],
+      messages: request.messages.map(toOpenAIMessage),
+      ...(request.tools?.length ? { tools: toOpenAITools(request.tools) } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.topP !== undefined ? { top_p: request.topP } : {}),
+      ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+      ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+    };
+  }
+
+  return {
+    name: options.name,
+    models: options.models,
+
+    async chat(request) {
+      const params = buildParams(request);
+      const completion = await withRetry(() =>
+        getClient().chat.completions.create({ ...params, stream: false })
+      );
+
+      const message = completion.choices[0]?.message;
+      const toolCalls: LLMToolCall[] = (message?.tool_calls ?? [])
+        .filter((tc) => tc.type === 'function')
+        .map((tc) => ({
+          id: tc.id || crypto.randomUUID(),
+          name: tc.function.name,
+          args: parseToolArguments(tc.function.arguments),
+        }));
+
+      return {
+        text: message?.content ?? '',
+        toolCalls,
+        model: completion.model ?? params.model,
+        usage: completion.usage
+          ? {
+              inputTokens: completion.usage.prompt_tokens,
+              outputTokens: completion.usage.completion_tokens,
+            }
+          : undefined,
+      };
+    },
+
+    async *stream(request): AsyncGenerator<string, LLMChatResponse> {
+      const params = buildParams(request);
+      const stream = await withRetry(() =>
+        getClient().chat.completions.create({ ...params, stream: true })
+      );
+
+      let fullText = '';
+      const rawToolCalls: Array<{ id: string; name: string; arguments: string }> = [];
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta;
+        if (!delta) continue;
+
+        if (delta.content) {
+          fullText += delta.content;
+          yield delta.content;
+        }
+
+        // Tool calls arrive in fragments keyed by index
+        if (delta.tool_calls) {
+          for (const tc of delta.tool_calls) {
+            const idx = tc.index;
+            if (!rawToolCalls[idx]) {
+              rawToolCalls[idx] = {
+                id: tc.id || crypto.randomUUID(),
+                name: tc.function?.name || '',
+                arguments: tc.function?.arguments || '',
+              };
+            } else {
+              if (tc.function?.name) rawToolCalls[idx].name += tc.function.name;
+              if (tc.function?.arguments) rawToolCalls[idx].arguments += tc.function.arguments;
+            }
+          }
+        }
+      }
+
+      return {
+        text: fullText,
+        toolCalls: rawToolCalls
+          .filter((tc) => tc?.name)
+          .map((tc) => ({ id: tc.id, name: tc.name, args: parseToolArguments(tc.arguments) })),
+        model: params.model,
+      };
+    },
+  };
+}
+
+/** Hosted models via OpenRouter, with an automatic fallback model */
+export function createOpenRouterProvider(apiKey?: string): LLMProvider {
+  return createOpenAICompatibleProvider({
+    name: 'openrouter',
+    baseURL: 'https://openrouter.ai/api/v1',
+    apiKey: () => apiKey ?? process.env.OPENROUTER_API_KEY,
+    missingKeyMessage: 'OPENROUTER_API_KEY environment variable is not set',
+    models: [process.env.LLM_MODEL || 'google/gemini-2.5-flash', 'meta-llama/llama-4-maverick'],
+    defaultHeaders: {
+      'HTTP-Referer': 'https://rowanapp.com',
+      'X-Title': 'Rowan',
+    },
+  });
+}
+
+/**
+ * Self-hosted model behind an OpenAI-compatible endpoint (Ollama serves one
+ * at /v1, as does llama.cpp's llama-server). Household data never leaves
+ * the deployment.
+ */
+export function createLocalProvider(
+  baseURL = process.env.LLM_LOCAL_BASE_URL || 'http://localhost:11434/v1',
+  model = process.env.LLM_LOCAL_MODEL || process.env.LLM_MODEL || 'llama3.1'
+): LLMProvider {
+  return createOpenAICompatibleProvider({
+    name: 'local',
+    baseURL,
+    apiKey: () => process.env.LLM_LOCAL_API_KEY,
+    models: [model],
+  });
+}
@@ -0,0 +1,558 @@
+/**
+ * AI Routine Service
+ *
+ * User-defined assistant routines: scheduled instructions such as "every
+ * Sunday at 6pm plan next week's meals and build the shopping list". A
+ * routine runs through the chat orchestrator in restricted mode — read tools
+ * execute as usual, delete tools are not offered, and every other write is
+ * recorded as a proposed action instead of being made. The run is saved as
+ * a draft; its actions are applied only after a space member approves it.
+ *
+ * Schedules are RFC 5545 RRULEs evaluated in the routine's timezone (see
+ * lib/services/recurrence). Due routines are run by /api/cron/ai-routines.
+ */
+
+import { logger } from '@/lib/logger';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { nextOccurrence, parseRRule, RecurrenceParseError, type RecurrenceRule } from '@/lib/services/recurrence';
+import { getZonedDateParts, zonedTimeToUtc } from '@/lib/utils/timezone-utils';
+import { ChatOrchestratorService, type ChatOrchestratorDependencies } from './chat-orchestrator-service';
+import { executeTool, getFeatureTypeFromTool, getToolCallPreview } from './tool-executor';
+import { isWriteTool } from './action-journal-service';
+import type { SpaceContext } from './system-prompt';
+import type { ErrorEvent } from '@/lib/types/chat';
+import type {
+  AIRoutine,
+  AIRoutineRun,
+  AppliedActionResult,
+  ProposedAction,
+  RoutineRunStatus,
+} from '@/lib/types/ai';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RoutineScheduleInput {
+  /** RRULE value, e.g. "FREQ=WEEKLY;BYDAY=SU" */
+  rrule: string;
+  /** Local time of day, "HH:MM" */
+  time: string;
+  /** IANA timezone */
+  timezone: string;
+}
+
+export interface CreateRoutineInput extends RoutineScheduleInput {
+  spaceId: string;
+  name: string;
+  instructions: string;
+}
+
+export type UpdateRoutineInput = Partial<Omit<CreateRoutineInput, 'spaceId'>> & { enabled?: boolean };
+
+export interface RoutineDraft {
+  summary: string;
+  proposedActions: ProposedAction[];
+}
+
+/** Invalid schedule, missing routine or a run that cannot be reviewed; `status` is the HTTP status to return. */
+export class AIRoutineError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'AIRoutineError';
+  }
+}
+
+const ROUTINE_COLUMNS =
+  'id, space_id, created_by, name, instructions, rrule, dtstart, timezone, enabled, next_run_at, last_run_at, created_at, updated_at';
+
+const RUN_COLUMNS =
+  'id, routine_id, space_id, status, summary, proposed_actions, results, error, reviewed_by, reviewed_at, created_at';
+
+/** Routines may run at most daily; finer schedules would burn through AI budgets */
+const ALLOWED_FREQUENCIES = new Set<RecurrenceRule['freq']>(['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']);
+
+/** Most actions one run may propose */
+export const MAX_PROPOSED_ACTIONS = 50;
+
+const DRAFT_REF_PREFIX = 'draft-';
+
+/** HTTP status for each SQLSTATE the review functions raise */
+const RPC_ERROR_STATUS: Record<string, number> = {
+  P0002: 404,
+  '42501': 403,
+  P0001: 409,
+};
+
+// ---------------------------------------------------------------------------
+// Schedules
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate a routine schedule and resolve its first start: today at `time`
+ * in the routine's timezone.
+ * @throws AIRoutineError if the rule, time or timezone is invalid
+ */
+export function resolveRoutineSchedule(input: RoutineScheduleInput, now: Date = new Date()): { rrule: string; dtstart: Date } {
+  let rule: RecurrenceRule;
+  try {
+    rule = parseRRule(input.rrule);
+  } catch (error) {
+    if (error instanceof RecurrenceParseError) throw new AIRoutineError(`Invalid schedule: ${error.message}`);
+    throw error;
+  }
+  if (!ALLOWED_FREQUENCIES.has(rule.freq)) {
+    throw new AIRoutineError('Routines can run at most once a day');
+  }
+  if (rule.byHour || rule.byMinute || rule.bySecond) {
+    throw new AIRoutineError('Set the time of day with "time", not in the rule');
+  }
+
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(input.time);
+  if (!match) throw new AIRoutineError('Time must be HH:MM');
+
+  let today;
+  try {
+    today = getZonedDateParts(now, input.timezone);
+  } catch {
+    throw new AIRoutineError('Unknown timezone');
+  }
+
+  const dtstart = zonedTimeToUtc(
+    { ...today, hour: Number(match[1]), minute: Number(match[2]), second: 0 },
+    input.timezone
+  );
+  return { rrule: input.rrule.trim().toUpperCase(), dtstart };
+}
+
+/** When a routine runs next after `after`, or null once its rule has ended */
+export function computeNextRunAt(
+  routine: Pick<AIRoutine, 'rrule' | 'dtstart' | 'timezone'>,
+  after: Date = new Date()
+): Date | null {
+  return nextOccurrence(
+    { dtstart: new Date(routine.dtstart), tzid: routine.timezone, rrule: parseRRule(routine.rrule) },
+    after
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Routines
+// ---------------------------------------------------------------------------
+
+/** List a space's routines */
+export async function listRoutines(supabase: SupabaseClient, spaceId: string): Promise<AIRoutine[]> {
+  const { data, error } = await supabase
+    .from('ai_routines')
+    .select(ROUTINE_COLUMNS)
+    .eq('space_id', spaceId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as AIRoutine[];
+}
+
+/** Fetch one routine the user can see */
+export async function getRoutine(supabase: SupabaseClient, id: string): Promise<AIRoutine> {
+  const { data, error } = await supabase
+    .from('ai_routines')
+    .select(ROUTINE_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new AIRoutineError('Routine not found', 404);
+  return data as AIRoutine;
+}
+
+/**
+ * Create a routine that runs as `userId`.
+ * @throws AIRoutineError if the schedule is invalid
+ */
+export async function createRoutine(
+  supabase: SupabaseClient,
+  userId: string,
+  input: CreateRoutineInput
+): Promise<AIRoutine> {
+  const { rrule, dtstart } = resolveRoutineSchedule(input);
+  const nextRunAt = computeNextRunAt({ rrule, dtstart: dtstart.toISOString(), timezone: input.timezone });
+
+  const { data, error } = await supabase
+    .from('ai_routines')
+    .insert({
+      space_id: input.spaceId,
+      created_by: userId,
+      name: input.name.trim(),
+      instructions: input.instructions.trim(),
+      rrule,
+      dtstart: dtstart.toISOString(),
+      timezone: input.timezone,
+      next_run_at: nextRunAt?.toISOString() ?? null,
+    })
+    .select(ROUTINE_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data as AIRoutine;
+}
+
+/**
+ * Update a routine. Changing any part of the schedule needs all of rrule,
+ * time and timezone. Only the routine's creator may update it (RLS).
+ */
+export async function updateRoutine(
+  supabase: SupabaseClient,
+  id: string,
+  input: UpdateRoutineInput
+): Promise<AIRoutine> {
+  const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (input.name !== undefined) updates.name = input.name.trim();
+  if (input.instructions !== undefined) updates.instructions = input.instructions.trim();
+
+  const scheduleFields = [input.rrule, input.time, input.timezone].filter((value) => value !== undefined);
+  if (scheduleFields.length > 0) {
+    if (scheduleFields.length < 3) {
+      throw new AIRoutineError('Changing the schedule needs rrule, time and timezone');
+    }
+    const schedule = { rrule: input.rrule!, time: input.time!, timezone: input.timezone! };
+    const { rrule, dtstart } = resolveRoutineSchedule(schedule);
+    updates.rrule = rrule;
+    updates.dtstart = dtstart.toISOString();
+    updates.timezone = schedule.timezone;
+    updates.next_run_at = computeNextRunAt({ rrule, dtstart: dtstart.toISOString(), timezone: schedule.timezone })?.toISOString() ?? null;
+  }
+
+  if (input.enabled !== undefined) {
+    updates.enabled = input.enabled;
+    // Re-enabling skips the runs missed while paused
+    if (input.enabled && updates.next_run_at === undefined) {
+      const current = await getRoutine(supabase, id);
+      updates.next_run_at = computeNextRunAt(current)?.toISOString() ?? null;
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('ai_routines')
+    .update(updates)
+    .eq('id', id)
+    .select(ROUTINE_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new AIRoutineError('Routine not found', 404);
+  return data as AIRoutine;
+}
+
+/** Delete a routine and its runs */
+export async function deleteRoutine(supabase: SupabaseClient, id: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('ai_routines')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) throw error;
+  if ((data || []).length === 0) throw new AIRoutineError('Routine not found', 404);
+}
+
+// ---------------------------------------------------------------------------
+// Drafting runs
+// ---------------------------------------------------------------------------
+
+/** Routines never delete; everything else is offered */
+export function isRoutineToolAllowed(toolName: string): boolean {
+  return !toolName.startsWith('delete_');
+}
+
+function isDraftRef(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(DRAFT_REF_PREFIX);
+}
+
+function containsDraftRef(value: unknown): boolean {
+  if (isDraftRef(value)) return true;
+  if (Array.isArray(value)) return value.some(containsDraftRef);
+  if (value && typeof value === 'object') return Object.values(value).some(containsDraftRef);
+  return false;
+}
+
+/**
+ * Tool runner for restricted mode. Reads run for real; writes are appended
+ * to `actions` and answered with a placeholder id the model can pass to
+ * later writes in the same run.
+ */
+export function createDraftingToolRunner(actions: ProposedAction[]): typeof executeTool {
+  return async (toolName, parameters, context) => {
+    const featureType = getFeatureTypeFromTool(toolName);
+
+    if (!isWriteTool(toolName)) {
+      if (containsDraftRef(parameters)) {
+        return {
+          success: false,
+          message: 'That item is part of this draft and will only exist once the draft is approved.',
+          featureType,
+        };
+      }
+      return executeTool(toolName, parameters, context);
+    }
+
+    if (actions.length >= MAX_PROPOSED_ACTIONS) {
+      return {
+        success: false,
+        message: `This draft already has ${MAX_PROPOSED_ACTIONS} changes. Stop and summarize.`,
+        featureType,
+      };
+    }
+
+    const ref = `${DRAFT_REF_PREFIX}${actions.length + 1}`;
+    const description = getToolCallPreview(toolName, parameters);
+    actions.push({ ref, toolName, parameters, description });
+
+    return {
+      success: true,
+      message: `Drafted for approval: ${description}`,
+      data: { id: ref, draft: true },
+      featureType,
+    };
+  };
+}
+
+function buildRoutineMessage(routine: Pick<AIRoutine, 'name' | 'instructions'>, now: Date): string {
+  return `[Scheduled routine "${routine.name}" — ${now.toISOString()}]
+${routine.instructions}
+
+You are running on a schedule with nobody watching. Use the list_, get_ and search_ tools to look things up, then call the tools for every change you would make — they are saved as a draft that a household member reviews before anything is changed. Ids like "draft-1" refer to items created earlier in this draft. Finish with a short summary of what you found and what the draft changes.`;
+}
+
+/**
+ * Run a routine's instructions through the orchestrator in restricted mode.
+ * @param supabase - Client acting as the routine's creator (reads go through RLS)
+ * @returns The assistant's summary and the writes it proposed
+ * @throws If the assistant fails to respond
+ */
+export async function draftRoutineRun(
+  supabase: SupabaseClient,
+  routine: Pick<AIRoutine, 'id' | 'space_id' | 'created_by' | 'name' | 'instructions'>,
+  spaceContext: SpaceContext,
+  dependencies: Pick<ChatOrchestratorDependencies, 'getProvider'> = {},
+  now: Date = new Date()
+): Promise<RoutineDraft> {
+  const proposedActions: ProposedAction[] = [];
+  const orchestrator = new ChatOrchestratorService({
+    ...dependencies,
+    executeTool: createDraftingToolRunner(proposedActions),
+    allowTool: isRoutineToolAllowed,
+  });
+
+  const conversationId = `routine:${routine.id}:${now.getTime()}`;
+  let summary = '';
+
+  try {
+    const events = orchestrator.processMessage({
+      message: buildRoutineMessage(routine, now),
+      conversationId,
+      context: { spaceId: routine.space_id, userId: routine.created_by, supabase },
+      spaceContext,
+    });
+
+    for await (const event of events) {
+      if (event.type === 'text' && typeof event.data === 'string') {
+        summary += event.data;
+      } else if (event.type === 'error') {
+        throw new Error((event.data as ErrorEvent).message);
+      }
+    }
+  } finally {
+    orchestrator.clearConversation(conversationId);
+  }
+
+  return { summary: summary.trim(), proposedActions };
+}
+
+// ---------------------------------------------------------------------------
+// Review
+// ---------------------------------------------------------------------------
+
+/** List a space's recent runs, newest first */
+export async function listRoutineRuns(
+  supabase: SupabaseClient,
+  spaceId: string,
+  limit: number = 20
+): Promise<AIRoutineRun[]> {
+  const { data, error } = await supabase
+    .from('ai_routine_runs')
+    .select(RUN_COLUMNS)
+    .eq('space_id', spaceId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as AIRoutineRun[];
+}
+
+/** Fetch one run the user can see */
+export async function getRoutineRun(supabase: SupabaseClient, id: string): Promise<AIRoutineRun> {
+  const { data, error } = await supabase
+    .from('ai_routine_runs')
+    .select(RUN_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new AIRoutineError('Routine run not found', 404);
+  return data as AIRoutineRun;
+}
+
+/** Replace draft refs in an action's parameters with the ids of rows created so far */
+export function resolveDraftRefs<T>(value: T, createdIds: Map<string, string>): T {
+  if (isDraftRef(value)) return (createdIds.get(value) ?? value) as T;
+  if (Array.isArray(value)) return value.map((item) => resolveDraftRefs(item, createdIds)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveDraftRefs(item, createdIds)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Run one of the review functions. Runs have no UPDATE policy, so these are
+ * the only way a member can change one.
+ * @throws AIRoutineError mapped from the function's SQLSTATE
+ */
+async function callReviewFunction(
+  supabase: SupabaseClient,
+  fn: 'review_ai_routine_run' | 'finish_ai_routine_run',
+  params: Record<string, unknown>
+): Promise<AIRoutineRun> {
+  const { data, error } = await supabase.rpc(fn, params);
+  if (error) {
+    const status = error.code ? RPC_ERROR_STATUS[error.code] : undefined;
+    if (status) throw new AIRoutineError(error.message, status);
+    throw error;
+  }
+  return data as AIRoutineRun;
+}
+
+/**
+ * Move a pending run to 'applying' or 'rejected' as the reviewing member.
+ * Only one reviewer can win: the function only accepts a pending run.
+ * @throws AIRoutineError if the run does not exist or was already reviewed
+ */
+async function claimPendingRun(
+  supabase: SupabaseClient,
+  runId: string,
+  status: Extract<RoutineRunStatus, 'applying' | 'rejected'>
+): Promise<AIRoutineRun> {
+  return callReviewFunction(supabase, 'review_ai_routine_run', { p_run_id: runId, p_status: status });
+}
+
+/**
+ * Approve a run and make its proposed changes as the approving member, in
+ * the order they were drafted. Actions that fail are reported and the rest
+ * still run; actions that depend on a failed one fail with it. Each action
+ * is checked again before it runs, so only writes a routine could have
+ * drafted are ever made.
+ */
+export async function approveRoutineRun(
+  supabase: SupabaseClient,
+  userId: string,
+  runId: string
+): Promise<AIRoutineRun> {
+  const run = await claimPendingRun(supabase, runId, 'applying');
+
+  const createdIds = new Map<string, string>();
+  const results: AppliedActionResult[] = [];
+
+  // Whatever happens while applying, the run is finished so it never stays
+  // in 'applying'; actions not reached are reported as not applied
+  let finished: AIRoutineRun;
+  try {
+    for (const action of run.proposed_actions) {
+      if (!isRoutineToolAllowed(action.toolName) || !isWriteTool(action.toolName)) {
+        logger.warn('[AIRoutine] Skipped an action routines cannot propose', {
+          component: 'ai-routine-service',
+          action: 'apply_run',
+          toolName: action.toolName,
+        });
+        results.push({
+          ref: action.ref,
+          toolName: action.toolName,
+          success: false,
+          message: 'Skipped because routines cannot make this change',
+        });
+        continue;
+      }
+
+      const parameters = resolveDraftRefs(action.parameters, createdIds);
+
+      if (containsDraftRef(parameters)) {
+        results.push({
+          ref: action.ref,
+          toolName: action.toolName,
+          success: false,
+          message: 'Skipped because an earlier change it depends on failed',
+        });
+        continue;
+      }
+
+      try {
+        const result = await executeTool(action.toolName, parameters, {
+          spaceId: run.space_id,
+          userId,
+          supabase,
+        });
+        const createdId = result.data?.id;
+        if (result.success && typeof createdId === 'string') {
+          createdIds.set(action.ref, createdId);
+        }
+        results.push({ ref: action.ref, toolName: action.toolName, success: result.success, message: result.message });
+      } catch (error) {
+        logger.error('[AIRoutine] Failed to apply action:', error, {
+          component: 'ai-routine-service',
+          action: 'apply_run',
+          toolName: action.toolName,
+        });
+        results.push({ ref: action.ref, toolName: action.toolName, success: false, message: 'Unexpected error' });
+      }
+    }
+  } finally {
+    for (const action of run.proposed_actions.slice(results.length)) {
+      results.push({
+        ref: action.ref,
+        toolName: action.toolName,
+        success: false,
+        message: 'Not applied because applying the draft stopped early',
+      });
+    }
+    finished = await callReviewFunction(supabase, 'finish_ai_routine_run', { p_run_id: runId, p_results: results });
+  }
+
+  return finished;
+}
+
+/** Reject a run as the current member; nothing it proposed is changed */
+export async function rejectRoutineRun(supabase: SupabaseClient, runId: string): Promise<AIRoutineRun> {
+  return claimPendingRun(supabase, runId, 'rejected');
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+export const aiRoutineService = {
+  resolveRoutineSchedule,
+  computeNextRunAt,
+  listRoutines,
+  getRoutine,
+  createRoutine,
+  updateRoutine,
+  deleteRoutine,
+  isRoutineToolAllowed,
+  createDraftingToolRunner,
+  draftRoutineRun,
+  listRoutineRuns,
+  getRoutineRun,
+  resolveDraftRefs,
+  approveRoutineRun,
+  rejectRoutineRun,
+};
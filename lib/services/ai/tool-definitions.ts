@@ -966,7 +966,7 @@ const createShoppingList: FunctionDeclaration = {
 const planMeal: FunctionDeclaration = {
   name: 'plan_meal',
   description:
-    'Plan a meal for a specific date and meal type. Use this when a user wants to schedule what they are eating for breakfast, lunch, dinner, or a snack.',
+    'Plan a meal for a specific date and meal type. Use this when a user wants to schedule what they are eating for breakfast, lunch, dinner, or a snack. The result includes a dietary_warning if the dish conflicts with a household member\'s allergies, intolerances or diet.',
   parameters: {
     type: SchemaType.OBJECT,
     description: 'Parameters for planning a meal',
@@ -1066,7 +1066,7 @@ const createRecipe: FunctionDeclaration = {
 const searchRecipes: FunctionDeclaration = {
   name: 'search_recipes',
   description:
-    'Search external recipe APIs for meal inspiration and ideas. Use this when a user asks for recipe suggestions, wants to find something new to cook, or needs inspiration for a specific cuisine.',
+    'Search external recipe APIs for meal inspiration and ideas. Use this when a user asks for recipe suggestions, wants to find something new to cook, or needs inspiration for a specific cuisine. Recipes everyone in the household can eat are listed first; the rest carry a dietary_warning.',
   parameters: {
     type: SchemaType.OBJECT,
     description: 'Parameters for searching recipes',
@@ -4156,7 +4156,7 @@ const batchCompleteChores: FunctionDeclaration = {
       },
       user_id: {
         type: SchemaType.STRING,
-        description: 'The user completing the chores (for reward points)',
+        description: 'User ID of the space member completing the chores (for reward points)',
       },
     },
     required: ['chore_ids', 'user_id'],
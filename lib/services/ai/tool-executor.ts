@@ -123,6 +123,8 @@ import { shoppingService } from '@/lib/services/shopping-service';
 import type { CreateItemInput } from '@/lib/services/shopping-service';
 import { mealsService } from '@/lib/services/meals-service';
 import type { CreateMealInput, CreateRecipeInput } from '@/lib/services/meals-service';
+import { dietaryProfileService } from '@/lib/services/dietary-profile-service';
+import { describeDietaryConflicts, findDietaryConflicts } from '@/lib/utils/dietary-helpers';
 import { goalsService } from '@/lib/services/goals-service';
 import type { CreateGoalInput, CreateMilestoneInput } from '@/lib/services/goals-service';
 import { projectsService } from '@/lib/services/budgets-service';
@@ -149,6 +151,7 @@ import {
 import { getRecurringPatterns, confirmPattern, ignorePattern } from '@/lib/services/recurring-expenses-service';
 import { getPartnershipBalance, createSettlement as createSettlementFn } from '@/lib/services/expense-splitting-service';
 import { getUserPenalties, forgivePenalty, getSpacePenaltySettings, updateSpacePenaltySettings } from '@/lib/services/rewards/late-penalty-service';
+import { actionJournalService, type JournalTurn } from '@/lib/services/ai/action-journal-service';
 
 import type { FeatureType } from '@/lib/types/chat';
 import type { SupabaseClient } from '@supabase/supabase-js';
@@ -158,6 +161,8 @@ export interface ToolExecutionContext {
   userId: string;
   /** Server-side Supabase client with the user's auth session (for RLS) */
   supabase: SupabaseClient;
+  /** Chat turn to journal writes under; without it nothing is recorded and nothing can be undone */
+  journal?: JournalTurn;
 }
 
 export interface ToolExecutionResult {
@@ -176,11 +181,32 @@ export interface ToolExecutionResult {
  *   data in spaces it should not touch.
  * - All inputs are validated through Zod schemas before reaching the service layer.
  * - Raw error details (stack traces, DB messages) are never returned to the AI.
+ *
+ * UNDO: when `context.journal` is set, successful writes are recorded in the
+ * action journal with before/after snapshots of the rows they touched.
  */
 export async function executeTool(
   toolName: string,
   parameters: Record<string, unknown>,
   context: ToolExecutionContext
+): Promise<ToolExecutionResult> {
+  const { journal, spaceId, userId, supabase } = context;
+  if (!journal || !actionJournalService.isWriteTool(toolName)) {
+    return runTool(toolName, parameters, context);
+  }
+
+  const pending = await actionJournalService.captureBefore(supabase, toolName, parameters, { spaceId, userId });
+  const result = await runTool(toolName, parameters, context);
+  if (result.success && pending) {
+    await actionJournalService.recordAction(supabase, journal, pending, result.data);
+  }
+  return result;
+}
+
+async function runTool(
+  toolName: string,
+  parameters: Record<string, unknown>,
+  context: ToolExecutionContext
 ): Promise<ToolExecutionResult> {
   const { spaceId, userId, supabase } = context;
 
@@ -682,10 +708,16 @@ export async function executeTool(
         });
         const input = stripNulls<CreateMealInput>(parsed);
         const meal = await mealsService.createMeal(input, supabase);
+        const conflicts = meal.dietary_conflicts ?? [];
         return {
           success: true,
-          message: `Planned ${meal.meal_type}${meal.name ? `: ${meal.name}` : ''} for ${formatDateForPreview(meal.scheduled_date)}`,
-          data: { id: meal.id, meal_type: meal.meal_type },
+          message: `Planned ${meal.meal_type}${meal.name ? `: ${meal.name}` : ''} for ${formatDateForPreview(meal.scheduled_date)}`
+            + (conflicts.length > 0 ? `. Dietary warning — ${describeDietaryConflicts(conflicts)}` : ''),
+          data: {
+            id: meal.id,
+            meal_type: meal.meal_type,
+            ...(conflicts.length > 0 ? { dietary_warning: describeDietaryConflicts(conflicts) } : {}),
+          },
           featureType: 'meal',
         };
       }
@@ -751,7 +783,16 @@ export async function executeTool(
               typeof m.strArea === 'string' && m.strArea.toLowerCase().includes(cuisineLower)
             );
           }
-          const results = meals.slice(0, 5).map((m: Record<string, unknown>) => ({
+          // Check each recipe against the household's dietary profiles; recipes
+          // everyone can eat come first, the rest carry a warning
+          const profiles = await dietaryProfileService.getSpaceProfiles(spaceId, supabase).catch(() => []);
+          const checked = (meals as Record<string, unknown>[]).map((m) => {
+            const ingredients = Array.from({ length: 20 }, (_, i) => m[`strIngredient${i + 1}`])
+              .filter((ingredient): ingredient is string => typeof ingredient === 'string' && ingredient.trim() !== '');
+            return { meal: m, conflicts: findDietaryConflicts(ingredients, profiles) };
+          });
+          checked.sort((a, b) => Number(a.conflicts.length > 0) - Number(b.conflicts.length > 0));
+          const results = checked.slice(0, 5).map(({ meal: m, conflicts }) => ({
             name: m.strMeal,
             category: m.strCategory,
             cuisine: m.strArea,
@@ -759,10 +800,13 @@ export async function executeTool(
               ? m.strInstructions.substring(0, 200) + '...'
               : '',
             image_url: m.strMealThumb,
+            ...(conflicts.length > 0 ? { dietary_warning: describeDietaryConflicts(conflicts) } : {}),
           }));
+          const flagged = results.filter((r) => 'dietary_warning' in r).length;
           return {
             success: true,
-            message: `Found ${results.length} recipe${results.length === 1 ? '' : 's'} for "${query}"`,
+            message: `Found ${results.length} recipe${results.length === 1 ? '' : 's'} for "${query}"`
+              + (flagged > 0 ? ` (${flagged} not suitable for everyone in the household)` : ''),
             data: { count: results.length, recipes: results },
             featureType: 'meal',
           };
@@ -3072,7 +3116,7 @@ export async function executeTool(
 /**
  * Map tool name to feature type for UI color-coding.
  */
-function getFeatureTypeFromTool(toolName: string): FeatureType {
+export function getFeatureTypeFromTool(toolName: string): FeatureType {
   if (toolName.includes('task') || toolName.includes('comment')) return 'task';
   if (toolName.includes('chore') || toolName.includes('rotation')) return 'chore';
   if (toolName.includes('event')) return 'event';
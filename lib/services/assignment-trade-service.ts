@@ -0,0 +1,344 @@
+// Assignment Trade Service
+// Members hand chores and tasks to each other, optionally paying a points
+// bounty. Accepting is a single database transaction (accept_assignment_trade)
+// that moves the assignment, swaps rotation places, pays the bounty and
+// writes the audit log.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { enhancedNotificationService } from './enhanced-notification-service';
+import { POINTS_CONFIG } from '@/lib/types/rewards';
+import { getAppUrl } from '@/lib/utils/app-url';
+import { logger } from '@/lib/logger';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AssignmentTradeItemType = 'chore' | 'task';
+
+export type AssignmentTradeStatus = 'open' | 'accepted' | 'declined' | 'cancelled';
+
+export type AssignmentTradeEvent = 'offered' | 'accepted' | 'declined' | 'cancelled';
+
+export interface AssignmentTrade {
+  id: string;
+  space_id: string;
+  item_type: AssignmentTradeItemType;
+  item_id: string;
+  offered_by: string;
+  offered_to: string | null;
+  accepted_by: string | null;
+  bounty_points: number;
+  note: string | null;
+  status: AssignmentTradeStatus;
+  expires_at: string | null;
+  responded_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateAssignmentTradeParams {
+  space_id: string;
+  item_type: AssignmentTradeItemType;
+  item_id: string;
+  offered_by: string;
+  offered_to?: string | null;
+  bounty_points?: number;
+  note?: string | null;
+  expires_at?: string | null;
+}
+
+/** A trade that cannot be made or answered; `status` is the HTTP status to return. */
+export class AssignmentTradeError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'AssignmentTradeError';
+  }
+}
+
+const TRADE_COLUMNS = 'id, space_id, item_type, item_id, offered_by, offered_to, accepted_by, bounty_points, note, status, expires_at, responded_at, created_at, updated_at';
+
+const ITEM_TABLES: Record<AssignmentTradeItemType, string> = {
+  chore: 'chores',
+  task: 'tasks',
+};
+
+// SQLSTATEs raised by accept_assignment_trade
+const RPC_ERROR_STATUS: Record<string, number> = {
+  P0002: 404,
+  '42501': 403,
+  P0001: 409,
+};
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * Lists trades in a space, newest first. Open trades past their expiry are
+ * left out.
+ * @throws If the query fails
+ */
+export async function listTrades(
+  supabase: SupabaseClient,
+  spaceId: string,
+  options: { status?: AssignmentTradeStatus; userId?: string } = {}
+): Promise<AssignmentTrade[]> {
+  let query = supabase
+    .from('assignment_trades')
+    .select(TRADE_COLUMNS)
+    .eq('space_id', spaceId);
+  if (options.status) query = query.eq('status', options.status);
+  if (options.userId) {
+    query = query.or(`offered_by.eq.${options.userId},offered_to.eq.${options.userId},accepted_by.eq.${options.userId}`);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(100);
+  if (error) throw error;
+
+  const now = new Date().toISOString();
+  return (data ?? []).filter(t => t.status !== 'open' || !t.expires_at || t.expires_at > now);
+}
+
+async function getTrade(supabase: SupabaseClient, tradeId: string): Promise<AssignmentTrade> {
+  const { data, error } = await supabase
+    .from('assignment_trades')
+    .select(TRADE_COLUMNS)
+    .eq('id', tradeId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new AssignmentTradeError('Trade not found', 404);
+  return data;
+}
+
+// =============================================================================
+// OFFERS
+// =============================================================================
+
+/**
+ * Offers one of the caller's chores or tasks to another member, or to anyone
+ * in the space when `offered_to` is omitted.
+ *
+ * The bounty is checked against the offering member's balance now and again
+ * when the trade is accepted.
+ * @throws AssignmentTradeError if the item is not the caller's, the recipient
+ * is not a member, the bounty is not affordable, or the item already has an
+ * open offer
+ */
+export async function createTrade(
+  supabase: SupabaseClient,
+  params: CreateAssignmentTradeParams
+): Promise<AssignmentTrade> {
+  const bounty = params.bounty_points ?? 0;
+  if (bounty < 0 || bounty > POINTS_CONFIG.MAX_TRADE_BOUNTY) {
+    throw new AssignmentTradeError(`Bounty must be between 0 and ${POINTS_CONFIG.MAX_TRADE_BOUNTY} points`);
+  }
+  if (params.offered_to === params.offered_by) {
+    throw new AssignmentTradeError('You cannot trade with yourself');
+  }
+
+  const { data: item, error: itemError } = await supabase
+    .from(ITEM_TABLES[params.item_type])
+    .select('id, space_id, assigned_to, status')
+    .eq('id', params.item_id)
+    .eq('space_id', params.space_id)
+    .maybeSingle();
+  if (itemError) throw itemError;
+  if (!item) throw new AssignmentTradeError(`The ${params.item_type} was not found`, 404);
+  if (item.assigned_to !== params.offered_by) {
+    throw new AssignmentTradeError(`You can only trade ${params.item_type}s assigned to you`, 403);
+  }
+  if (item.status === 'completed') {
+    throw new AssignmentTradeError(`The ${params.item_type} is already completed`);
+  }
+
+  if (params.offered_to) {
+    const { data: member, error: memberError } = await supabase
+      .from('space_members')
+      .select('user_id')
+      .eq('space_id', params.space_id)
+      .eq('user_id', params.offered_to)
+      .maybeSingle();
+    if (memberError) throw memberError;
+    if (!member) throw new AssignmentTradeError('That member is not part of this space');
+  }
+
+  if (bounty > 0) {
+    const { data: balance, error: balanceError } = await supabase
+      .from('reward_points')
+      .select('points')
+      .eq('user_id', params.offered_by)
+      .eq('space_id', params.space_id)
+      .maybeSingle();
+    if (balanceError) throw balanceError;
+    if ((balance?.points ?? 0) < bounty) {
+      throw new AssignmentTradeError('You do not have enough points for this bounty');
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('assignment_trades')
+    .insert({
+      space_id: params.space_id,
+      item_type: params.item_type,
+      item_id: params.item_id,
+      offered_by: params.offered_by,
+      offered_to: params.offered_to ?? null,
+      bounty_points: bounty,
+      note: params.note ?? null,
+      expires_at: params.expires_at ?? null,
+    })
+    .select(TRADE_COLUMNS)
+    .single();
+  if (error) {
+    if (error.code === '23505') {
+      throw new AssignmentTradeError(`This ${params.item_type} already has an open trade`, 409);
+    }
+    throw error;
+  }
+  return data;
+}
+
+// =============================================================================
+// RESPONSES
+// =============================================================================
+
+/**
+ * Accepts an open trade as the calling user.
+ * @throws AssignmentTradeError mapped from the database function's errors
+ */
+export async function acceptTrade(supabase: SupabaseClient, tradeId: string): Promise<AssignmentTrade> {
+  const { data, error } = await supabase.rpc('accept_assignment_trade', { p_trade_id: tradeId });
+  if (error) {
+    const status = error.code ? RPC_ERROR_STATUS[error.code] : undefined;
+    if (status) throw new AssignmentTradeError(error.message, status);
+    throw error;
+  }
+  return data as AssignmentTrade;
+}
+
+/**
+ * Declines (the offered member) or cancels (the offering member) an open trade.
+ * Open offers to anyone can only be cancelled.
+ * @throws AssignmentTradeError if the trade is missing, already answered, or
+ * the caller may not take this action
+ */
+export async function closeTrade(
+  supabase: SupabaseClient,
+  tradeId: string,
+  userId: string,
+  action: 'decline' | 'cancel'
+): Promise<AssignmentTrade> {
+  const trade = await getTrade(supabase, tradeId);
+  if (trade.status !== 'open') {
+    throw new AssignmentTradeError(`Trade is already ${trade.status}`, 409);
+  }
+
+  const allowedUser = action === 'cancel' ? trade.offered_by : trade.offered_to;
+  if (userId !== allowedUser) {
+    throw new AssignmentTradeError(
+      action === 'cancel' ? 'Only the member who offered the trade can cancel it' : 'Only the member the trade was offered to can decline it',
+      403
+    );
+  }
+
+  const { data, error } = await supabase
+    .from('assignment_trades')
+    .update({
+      status: action === 'cancel' ? 'cancelled' : 'declined',
+      responded_at: new Date().toISOString(),
+    })
+    .eq('id', tradeId)
+    .eq('status', 'open')
+    .select(TRADE_COLUMNS)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new AssignmentTradeError('Trade was already answered', 409);
+  return data;
+}
+
+// =============================================================================
+// NOTIFICATIONS
+// =============================================================================
+
+/**
+ * Notifies the other side of a trade about a new offer or its outcome. Never
+ * throws; failures are logged.
+ *
+ * - offered: the offered member, or every other space member for open offers
+ * - accepted / declined: the offering member
+ * - cancelled: the offered member, if any
+ * @param supabase - A service role client; notifications go to other users
+ */
+export async function notifyTradeParticipants(
+  supabase: SupabaseClient,
+  trade: AssignmentTrade,
+  event: AssignmentTradeEvent,
+  actorId: string
+): Promise<void> {
+  try {
+    let recipients: string[];
+    if (event === 'offered') {
+      if (trade.offered_to) {
+        recipients = [trade.offered_to];
+      } else {
+        const { data: members } = await supabase
+          .from('space_members')
+          .select('user_id')
+          .eq('space_id', trade.space_id);
+        recipients = (members ?? []).map((m: { user_id: string }) => m.user_id);
+      }
+    } else if (event === 'cancelled') {
+      recipients = trade.offered_to ? [trade.offered_to] : [];
+    } else {
+      recipients = [trade.offered_by];
+    }
+    recipients = recipients.filter(id => id !== actorId);
+    if (recipients.length === 0) return;
+
+    const [{ data: actor }, { data: space }, { data: item }] = await Promise.all([
+      supabase.from('users').select('name').eq('id', actorId).maybeSingle(),
+      supabase.from('spaces').select('name').eq('id', trade.space_id).maybeSingle(),
+      supabase.from(ITEM_TABLES[trade.item_type]).select('title').eq('id', trade.item_id).maybeSingle(),
+    ]);
+
+    const result = await enhancedNotificationService.sendAssignmentTradeNotification(
+      recipients,
+      {
+        event,
+        tradeId: trade.id,
+        itemType: trade.item_type,
+        itemTitle: item?.title || `a ${trade.item_type}`,
+        actorId,
+        actorName: actor?.name || 'Someone',
+        bountyPoints: trade.bounty_points,
+        spaceId: trade.space_id,
+        spaceName: space?.name || 'Your Space',
+        tradeUrl: `${getAppUrl()}/tasks?space_id=${trade.space_id}`,
+      },
+      supabase
+    );
+    if (result.errors.length > 0) {
+      logger.warn('Some trade notifications failed', {
+        component: 'assignment-trade-service',
+        action: 'notify',
+        tradeId: trade.id,
+        errors: result.errors,
+      });
+    }
+  } catch (error) {
+    logger.error('Failed to send trade notifications:', error, {
+      component: 'assignment-trade-service',
+      action: 'notify',
+      tradeId: trade.id,
+    });
+  }
+}
+
+export const assignmentTradeService = {
+  listTrades,
+  createTrade,
+  acceptTrade,
+  closeTrade,
+  notifyTradeParticipants,
+};
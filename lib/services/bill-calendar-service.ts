@@ -1,3 +1,4 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase/client';
 import { logger } from '@/lib/logger';
 
@@ -36,12 +37,14 @@ export async function createBillCalendarEvent(expenseId: string): Promise<string
 
 /**
  * Gets upcoming bills in the next N days
+ * Pass a server client to read bills outside a browser session (e.g. calendar feeds)
  */
 export async function getUpcomingBills(
   spaceId: string,
-  daysAhead = 30
+  daysAhead = 30,
+  client?: SupabaseClient
 ): Promise<UpcomingBill[]> {
-  const supabase = createClient();
+  const supabase = client ?? createClient();
 
   const { data, error } = await supabase.rpc('get_upcoming_bills', {
     p_space_id: spaceId,
@@ -4,6 +4,7 @@ import { remindersService } from './reminders-service';
 import { calendarService } from './calendar-service';
 import { subDays } from 'date-fns';
 import { logger } from '@/lib/logger';
+import { formatMoney, normalizeCurrencyCode } from './currency-service';
 
 // =====================================================
 // TYPES
@@ -25,6 +26,7 @@ export interface Bill {
   space_id: string;
   name: string;
   amount: number;
+  currency?: string;
   category?: string;
   payee?: string;
   notes?: string;
@@ -49,6 +51,7 @@ export interface CreateBillInput {
   space_id: string;
   name: string;
   amount: number;
+  currency?: string; // Defaults to the space's base currency
   category?: string;
   payee?: string;
   notes?: string;
@@ -62,6 +65,7 @@ export interface CreateBillInput {
 export interface UpdateBillInput {
   name?: string;
   amount?: number;
+  currency?: string;
   category?: string;
   payee?: string;
   notes?: string;
@@ -96,7 +100,7 @@ export async function getBills(spaceId: string): Promise<Bill[]> {
   const supabase = createClient();
   const { data, error } = await supabase
     .from('bills')
-    .select('id, space_id, name, amount, category, payee, notes, due_date, frequency, status, auto_pay, last_paid_date, next_due_date, linked_expense_id, linked_calendar_event_id, linked_reminder_id, reminder_enabled, reminder_days_before, last_reminder_sent_at, created_by, created_at, updated_at')
+    .select('id, space_id, name, amount, currency, category, payee, notes, due_date, frequency, status, auto_pay, last_paid_date, next_due_date, linked_expense_id, linked_calendar_event_id, linked_reminder_id, reminder_enabled, reminder_days_before, last_reminder_sent_at, created_by, created_at, updated_at')
     .eq('space_id', spaceId)
     .order('due_date', { ascending: true });
 
@@ -114,7 +118,7 @@ export async function getBillById(billId: string): Promise<Bill | null> {
   const supabase = createClient();
   const { data, error } = await supabase
     .from('bills')
-    .select('id, space_id, name, amount, category, payee, notes, due_date, frequency, status, auto_pay, last_paid_date, next_due_date, linked_expense_id, linked_calendar_event_id, linked_reminder_id, reminder_enabled, reminder_days_before, last_reminder_sent_at, created_by, created_at, updated_at')
+    .select('id, space_id, name, amount, currency, category, payee, notes, due_date, frequency, status, auto_pay, last_paid_date, next_due_date, linked_expense_id, linked_calendar_event_id, linked_reminder_id, reminder_enabled, reminder_days_before, last_reminder_sent_at, created_by, created_at, updated_at')
     .eq('id', billId)
     .single();
 
@@ -136,7 +140,7 @@ export async function getBillsByStatus(
   const supabase = createClient();
   const { data, error } = await supabase
     .from('bills')
-    .select('id, space_id, name, amount, category, payee, notes, due_date, frequency, status, auto_pay, last_paid_date, next_due_date, linked_expense_id, linked_calendar_event_id, linked_reminder_id, reminder_enabled, reminder_days_before, last_reminder_sent_at, created_by, created_at, updated_at')
+    .select('id, space_id, name, amount, currency, category, payee, notes, due_date, frequency, status, auto_pay, last_paid_date, next_due_date, linked_expense_id, linked_calendar_event_id, linked_reminder_id, reminder_enabled, reminder_days_before, last_reminder_sent_at, created_by, created_at, updated_at')
     .eq('space_id', spaceId)
     .eq('status', status)
     .order('due_date', { ascending: true });
@@ -161,7 +165,7 @@ export async function getUpcomingBills(spaceId: string): Promise<Bill[]> {
 
   const { data, error } = await supabase
     .from('bills')
-    .select('id, space_id, name, amount, category, payee, notes, due_date, frequency, status, auto_pay, last_paid_date, next_due_date, linked_expense_id, linked_calendar_event_id, linked_reminder_id, reminder_enabled, reminder_days_before, last_reminder_sent_at, created_by, created_at, updated_at')
+    .select('id, space_id, name, amount, currency, category, payee, notes, due_date, frequency, status, auto_pay, last_paid_date, next_due_date, linked_expense_id, linked_calendar_event_id, linked_reminder_id, reminder_enabled, reminder_days_before, last_reminder_sent_at, created_by, created_at, updated_at')
     .eq('space_id', spaceId)
     .eq('status', 'scheduled')
     .gte('due_date', today)
@@ -193,6 +197,8 @@ export async function createBill(
     .insert([
       {
         ...input,
+        // null lets the database default to the space's base currency
+        currency: input.currency ? normalizeCurrencyCode(input.currency) : null,
         created_by: userId,
         frequency: input.frequency || 'monthly',
         auto_pay: input.auto_pay || false,
@@ -218,7 +224,7 @@ export async function createBill(
       const reminder = await remindersService.createReminder({
         space_id: input.space_id,
         title: `Pay ${input.name}`,
-        description: `Bill due: $${input.amount.toFixed(2)}${input.payee ? ` to ${input.payee}` : ''}`,
+        description: `Bill due: ${formatMoney(input.amount, input.currency)}${input.payee ? ` to ${input.payee}` : ''}`,
         emoji: '💰',
         category: 'bills',
         reminder_time: reminderDate.toISOString(),
@@ -237,7 +243,7 @@ export async function createBill(
     const event = await calendarService.createEvent({
       space_id: input.space_id,
       title: `${input.name} Due`,
-      description: `$${input.amount.toFixed(2)}${input.payee ? ` - Pay to ${input.payee}` : ''}`,
+      description: `${formatMoney(input.amount, input.currency)}${input.payee ? ` - Pay to ${input.payee}` : ''}`,
       start_time: new Date(input.due_date).toISOString(),
       category: 'personal',
       event_type: 'bill_due',
@@ -346,6 +352,7 @@ export async function markBillAsPaid(
       space_id: bill.space_id,
       title: `${bill.name} - Bill Payment`,
       amount: bill.amount,
+      currency: bill.currency,
       category: bill.category,
       status: 'paid',
       paid_at: new Date().toISOString(),
@@ -391,6 +398,7 @@ export async function markBillAsPaid(
         space_id: bill.space_id,
         name: bill.name,
         amount: bill.amount,
+        currency: bill.currency,
         category: bill.category,
         payee: bill.payee,
         notes: bill.notes,
@@ -1,6 +1,11 @@
 import { createClient } from '@/lib/supabase/client';
 import type { RealtimeChannel, RealtimePostgresChangesPayload, SupabaseClient } from '@supabase/supabase-js';
 import { logger } from '@/lib/logger';
+import { DEFAULT_CURRENCY, getCurrencyConverter, normalizeCurrencyCode, sumInBaseCurrency } from './currency-service';
+import { priceBookService } from './price-book-service';
+import type { Meal } from './meals-service';
+import { estimateMealPlanCost } from '@/lib/utils/price-helpers';
+import { format, startOfMonth, endOfMonth } from 'date-fns';
 
 // Expense Types
 export interface Expense {
@@ -8,6 +13,7 @@ export interface Expense {
   space_id: string;
   title: string;
   amount: number;
+  currency?: string;
   category?: string;
   payment_method?: string;
   paid_by?: string;
@@ -26,6 +32,7 @@ export interface CreateExpenseInput {
   space_id: string;
   title: string;
   amount: number;
+  currency?: string; // Defaults to the space's base currency
   category?: string;
   payment_method?: string;
   paid_by?: string;
@@ -43,6 +50,24 @@ export interface BudgetStats {
   spentThisMonth: number;
   remaining: number;
   pendingBills: number;
+  currency: string; // Space base currency all amounts are expressed in
+  unconvertedCurrencies: string[]; // Currencies left out of the totals for lack of an exchange rate
+}
+
+/** Grocery spend this month so far, and where the meal plan takes it */
+export interface GroceryBudgetProjection {
+  /** Allocation for the Groceries budget category; null when none is set */
+  budget: number | null;
+  /** Grocery expenses recorded this month */
+  actual: number;
+  /** Estimated cost of the meals still planned this month, from the price book */
+  planned: number;
+  projected: number;
+  /** Remaining planned meals the estimate covers */
+  plannedMeals: number;
+  currency: string;
+  /** Currencies of grocery expenses left out of `actual` for lack of an exchange rate */
+  unconvertedCurrencies: string[];
 }
 
 // Removed: HouseholdStats moved to appropriate services (chores-service.ts for chores, this file for budgets)
@@ -51,6 +76,7 @@ export interface Budget {
   id: string;
   space_id: string;
   monthly_budget: number;
+  currency?: string;
   created_by: string;
   created_at: string;
   updated_at: string;
@@ -71,10 +97,14 @@ export interface Budget {
 export interface CreateBudgetInput {
   space_id: string;
   monthly_budget: number;
+  currency?: string;
 }
 
 const getSupabaseClient = (supabase?: SupabaseClient) => supabase ?? createClient();
 
+/** Expense and budget category grocery spend is recorded under, matched case-insensitively */
+const GROCERY_CATEGORY = 'Groceries';
+
 /**
  * Service for managing budgets and expenses within a household space.
  * Provides CRUD operations for expenses, budget management, and real-time subscriptions.
@@ -91,7 +121,7 @@ export const projectsService = {
     const supabase = getSupabaseClient(supabaseClient);
     const { data, error } = await supabase
       .from('expenses')
-      .select('id, space_id, title, amount, category, date, due_date, paid_by, description, notes, project_id, status, payment_method, paid_at, recurring, is_recurring, recurring_frequency, split_type, created_by, created_at, updated_at')
+      .select('id, space_id, title, amount, currency, category, date, due_date, paid_by, description, notes, project_id, status, payment_method, paid_at, recurring, is_recurring, recurring_frequency, split_type, created_by, created_at, updated_at')
       .eq('space_id', spaceId)
       .order('due_date', { ascending: true });
 
@@ -110,7 +140,7 @@ export const projectsService = {
     const supabase = getSupabaseClient(supabaseClient);
     const { data, error } = await supabase
       .from('expenses')
-      .select('id, space_id, title, amount, category, date, due_date, paid_by, description, notes, project_id, status, payment_method, paid_at, recurring, is_recurring, recurring_frequency, split_type, created_by, created_at, updated_at')
+      .select('id, space_id, title, amount, currency, category, date, due_date, paid_by, description, notes, project_id, status, payment_method, paid_at, recurring, is_recurring, recurring_frequency, split_type, created_by, created_at, updated_at')
       .eq('id', id)
       .single();
 
@@ -132,6 +162,8 @@ export const projectsService = {
       .from('expenses')
       .insert([{
         ...input,
+        // null lets the database default to the space's base currency
+        currency: input.currency ? normalizeCurrencyCode(input.currency) : null,
         status: input.status || 'pending',
         recurring: input.recurring || false,
       }])
@@ -208,7 +240,7 @@ export const projectsService = {
       const supabase = getSupabaseClient(supabaseClient);
       const { data, error } = await supabase
         .from('budgets')
-        .select('id, space_id, monthly_budget, created_by, created_at, updated_at')
+        .select('id, space_id, monthly_budget, currency, created_by, created_at, updated_at')
         .eq('space_id', spaceId)
         .maybeSingle();
 
@@ -243,6 +275,7 @@ export const projectsService = {
         .from('budgets')
         .update({
           monthly_budget: input.monthly_budget,
+          ...(input.currency && { currency: normalizeCurrencyCode(input.currency) }),
           updated_at: new Date().toISOString(),
         })
         .eq('space_id', input.space_id)
@@ -257,6 +290,7 @@ export const projectsService = {
         .from('budgets')
         .insert([{
           ...input,
+          currency: input.currency ? normalizeCurrencyCode(input.currency) : null,
           created_by: userId,
         }])
         .select()
@@ -281,6 +315,10 @@ export const projectsService = {
    * Why include pending in spent? Pending expenses represent committed money.
    * Users should see their true remaining budget including unpaid bills.
    *
+   * Multi-currency: the budget and every expense are converted into the space
+   * base currency before summing; expenses keep their original amounts.
+   * Amounts with no exchange rate are left out and listed in unconvertedCurrencies.
+   *
    * @param spaceId - The space ID
    * @param supabaseClient - Optional Supabase client instance
    * @returns Budget statistics for the current month
@@ -290,12 +328,12 @@ export const projectsService = {
       const supabase = getSupabaseClient(supabaseClient);
       const monthStart = new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString();
 
-      const [budget, monthExpensesResult, pendingResult] = await Promise.all([
+      const [budget, monthExpensesResult, pendingResult, converter] = await Promise.all([
         this.getBudget(spaceId, supabase),
         // Only fetch current month expenses (paid + pending) instead of all expenses
         supabase
           .from('expenses')
-          .select('amount, status')
+          .select('amount, status, currency, date')
           .eq('space_id', spaceId)
           .gte('created_at', monthStart)
           .in('status', ['paid', 'pending']),
@@ -305,21 +343,33 @@ export const projectsService = {
           .select('id', { count: 'exact', head: true })
           .eq('space_id', spaceId)
           .eq('status', 'pending'),
+        getCurrencyConverter(spaceId, supabase),
       ]);
 
       // Include both paid and pending - pending is committed money
-      const spentThisMonth = monthExpensesResult.data?.reduce(
-        (sum: number, e: { amount: number }) => sum + e.amount,
-        0
-      ) || 0;
-
-      const monthlyBudget = budget?.monthly_budget || 0;
+      const spent = sumInBaseCurrency(converter, monthExpensesResult.data || []);
+
+      const budgetAmount = budget ? converter.tryToBase(budget.monthly_budget || 0, budget.currency) : 0;
+      const monthlyBudget = budgetAmount ?? 0;
+      const unconvertedCurrencies = budgetAmount === null
+        ? Array.from(new Set([...spent.unconverted, normalizeCurrencyCode(budget?.currency)]))
+        : spent.unconverted;
+
+      if (unconvertedCurrencies.length > 0) {
+        logger.warn('getBudgetStats left out amounts with no exchange rate', {
+          component: 'lib-budgets-service',
+          action: 'service_call',
+          currencies: unconvertedCurrencies,
+        });
+      }
 
       return {
         monthlyBudget,
-        spentThisMonth,
-        remaining: monthlyBudget - spentThisMonth, // Can be negative if over budget
+        spentThisMonth: spent.total,
+        remaining: monthlyBudget - spent.total, // Can be negative if over budget
         pendingBills: pendingResult.count ?? 0,
+        currency: converter.baseCurrency,
+        unconvertedCurrencies,
       };
     } catch (error) {
       logger.error('getBudgetStats error:', error, { component: 'lib-budgets-service', action: 'service_call' });
@@ -329,10 +379,73 @@ export const projectsService = {
         spentThisMonth: 0,
         remaining: 0,
         pendingBills: 0,
+        currency: DEFAULT_CURRENCY,
+        unconvertedCurrencies: [],
       };
     }
   },
 
+  /**
+   * Projects this month's grocery spend.
+   * Actual spend is the month's Groceries expenses; projected adds the
+   * estimated cost of meals planned from today to the end of the month,
+   * priced from the space's price book. Amounts are in the space base currency.
+   *
+   * @param spaceId - The space ID
+   * @param supabaseClient - Optional Supabase client instance
+   * @returns Budget, actual, planned and projected grocery spend
+   * @throws Error if a database query fails
+   */
+  async getGroceryProjection(spaceId: string, supabaseClient?: SupabaseClient): Promise<GroceryBudgetProjection> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const now = new Date();
+    const today = format(now, 'yyyy-MM-dd');
+    const monthStart = format(startOfMonth(now), 'yyyy-MM-dd');
+    const monthEnd = format(endOfMonth(now), 'yyyy-MM-dd');
+
+    const [categoryResult, expensesResult, mealsResult, priceBook, converter] = await Promise.all([
+      supabase
+        .from('budget_categories')
+        .select('allocated_amount')
+        .eq('space_id', spaceId)
+        .ilike('category_name', GROCERY_CATEGORY)
+        .maybeSingle(),
+      supabase
+        .from('expenses')
+        .select('amount, currency, date')
+        .eq('space_id', spaceId)
+        .ilike('category', GROCERY_CATEGORY)
+        .gte('date', monthStart)
+        .lte('date', monthEnd),
+      supabase
+        .from('meals')
+        .select('servings, recipe:recipes(ingredients, servings)')
+        .eq('space_id', spaceId)
+        .gte('scheduled_date', today)
+        .lte('scheduled_date', monthEnd),
+      priceBookService.getPriceBook(spaceId, supabase),
+      getCurrencyConverter(spaceId, supabase),
+    ]);
+
+    if (categoryResult.error) throw categoryResult.error;
+    if (expensesResult.error) throw expensesResult.error;
+    if (mealsResult.error) throw mealsResult.error;
+
+    const actual = sumInBaseCurrency(converter, expensesResult.data || []);
+    const meals = (mealsResult.data || []) as unknown as Pick<Meal, 'servings' | 'recipe'>[];
+    const plan = estimateMealPlanCost(meals, priceBook);
+
+    return {
+      budget: categoryResult.data ? Number(categoryResult.data.allocated_amount) : null,
+      actual: actual.total,
+      planned: plan.total,
+      projected: actual.total + plan.total,
+      plannedMeals: plan.counted,
+      currency: converter.baseCurrency,
+      unconvertedCurrencies: actual.unconverted,
+    };
+  },
+
   // Removed: getHouseholdStats - moved to household page to combine choresService and projectsService
 
   /**
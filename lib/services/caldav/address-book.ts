@@ -0,0 +1,106 @@
+// CardDAV Address Book
+// Exposes the members of a space as a read-only vCard 3.0 address book.
+
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { escapeICalText, foldICalLine } from '@/lib/services/calendar/ics-export-service';
+import { formatICalDateValue } from '@/lib/services/recurrence';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface DavContact {
+  id: string;
+  name: string | null;
+  email: string | null;
+  updated_at: string | null;
+}
+
+export interface DavAddressObject {
+  contact: DavContact;
+  /** Resource name without the .vcf extension (the member's user ID) */
+  resourceName: string;
+  etag: string;
+}
+
+type UserJoin = DavContact | DavContact[] | null;
+
+// =============================================================================
+// READING
+// =============================================================================
+
+function etagFor(contact: DavContact): string {
+  const hash = crypto
+    .createHash('sha1')
+    .update(`${contact.id}:${contact.name ?? ''}:${contact.email ?? ''}:${contact.updated_at ?? ''}`)
+    .digest('hex');
+  return `"${hash.substring(0, 20)}"`;
+}
+
+/**
+ * Lists the members of a space as address objects.
+ * @throws If the query fails
+ */
+export async function listAddressObjects(supabase: SupabaseClient, spaceId: string): Promise<DavAddressObject[]> {
+  const { data, error } = await supabase
+    .from('space_members')
+    .select('user_id, users(id, name, email, updated_at)')
+    .eq('space_id', spaceId);
+
+  if (error) throw error;
+
+  return (data || []).flatMap((row: { user_id: string; users: UserJoin }) => {
+    const contact = Array.isArray(row.users) ? row.users[0] : row.users;
+    return contact ? [{ contact, resourceName: contact.id, etag: etagFor(contact) }] : [];
+  });
+}
+
+/**
+ * Gets one member of a space as an address object.
+ * @throws If the query fails
+ */
+export async function getAddressObject(
+  supabase: SupabaseClient,
+  spaceId: string,
+  resourceName: string
+): Promise<DavAddressObject | null> {
+  const objects = await listAddressObjects(supabase, spaceId);
+  return objects.find((object) => object.resourceName === resourceName) ?? null;
+}
+
+/** Computes the address book's collection tag from its members' ETags. */
+export function getAddressBookCtag(objects: DavAddressObject[]): string {
+  const hash = crypto
+    .createHash('sha1')
+    .update(objects.map((object) => object.etag).sort().join(','))
+    .digest('hex');
+  return `"${hash.substring(0, 20)}"`;
+}
+
+// =============================================================================
+// VCARD
+// =============================================================================
+
+/** Renders a member as a vCard 3.0 (RFC 2426). */
+export function buildVCard(contact: DavContact): string {
+  const name = contact.name?.trim() || contact.email || 'Rowan member';
+  const [given, ...rest] = name.split(/\s+/);
+  const family = rest.join(' ');
+
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    'PRODID:-//Rowan App//Space Members//EN',
+    `UID:member-${contact.id}@rowan.app`,
+    `FN:${escapeICalText(name)}`,
+    `N:${escapeICalText(family)};${escapeICalText(given)};;;`,
+  ];
+  if (contact.email) lines.push(`EMAIL;TYPE=INTERNET:${escapeICalText(contact.email)}`);
+
+  const updated = contact.updated_at ? new Date(contact.updated_at) : null;
+  if (updated && !isNaN(updated.getTime())) lines.push(`REV:${formatICalDateValue(updated)}`);
+  lines.push('END:VCARD');
+
+  return lines.map(foldICalLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,188 @@
+// DAV App Passwords
+// Per-device passwords for CalDAV/CardDAV clients. Native calendar apps only
+// speak HTTP Basic auth, so each device gets its own revocable password
+// instead of the account password.
+
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DavPrincipal } from './types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface DavAppPassword {
+  id: string;
+  user_id: string;
+  label: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface CreatedDavAppPassword {
+  appPassword: DavAppPassword;
+  /** Plaintext password; only available at creation time */
+  password: string;
+}
+
+const APP_PASSWORD_COLUMNS = 'id, user_id, label, last_used_at, revoked_at, created_at';
+
+/** Lowercase letters and digits without look-alikes (l, o, 0, 1) */
+const PASSWORD_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789';
+const PASSWORD_GROUPS = 6;
+const PASSWORD_GROUP_LENGTH = 4;
+
+// =============================================================================
+// PASSWORDS
+// =============================================================================
+
+/** Generates a password like "abcd-efgh-ijkm-npqr-stuv-wxyz" (~120 bits). */
+export function generateAppPassword(): string {
+  const groups: string[] = [];
+  for (let g = 0; g < PASSWORD_GROUPS; g++) {
+    let group = '';
+    for (let i = 0; i < PASSWORD_GROUP_LENGTH; i++) {
+      group += PASSWORD_ALPHABET[crypto.randomInt(PASSWORD_ALPHABET.length)];
+    }
+    groups.push(group);
+  }
+  return groups.join('-');
+}
+
+/**
+ * Hashes a password for storage. Case, spaces and dashes are ignored so the
+ * password can be typed as displayed or without separators.
+ */
+export function hashAppPassword(password: string): string {
+  const normalized = password.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+/** Decodes an HTTP Basic Authorization header. */
+export function parseBasicAuth(header: string | null): { username: string; password: string } | null {
+  const match = header?.match(/^Basic\s+([A-Za-z0-9+/=]+)\s*$/i);
+  if (!match) return null;
+
+  const decoded = Buffer.from(match[1], 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator <= 0) return null;
+
+  return { username: decoded.slice(0, separator), password: decoded.slice(separator + 1) };
+}
+
+// =============================================================================
+// MANAGEMENT
+// =============================================================================
+
+/**
+ * Lists the user's active app passwords (never the passwords themselves).
+ * @throws If the query fails
+ */
+export async function listAppPasswords(supabase: SupabaseClient, userId: string): Promise<DavAppPassword[]> {
+  const { data, error } = await supabase
+    .from('dav_app_passwords')
+    .select(APP_PASSWORD_COLUMNS)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Creates an app password and returns its plaintext once.
+ * @throws If the insert fails
+ */
+export async function createAppPassword(
+  supabase: SupabaseClient,
+  userId: string,
+  label: string
+): Promise<CreatedDavAppPassword> {
+  const password = generateAppPassword();
+
+  const { data, error } = await supabase
+    .from('dav_app_passwords')
+    .insert({ user_id: userId, label, password_hash: hashAppPassword(password) })
+    .select(APP_PASSWORD_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return { appPassword: data, password };
+}
+
+/**
+ * Revokes one of the user's app passwords. Returns false if it does not exist.
+ * @throws If the update fails
+ */
+export async function revokeAppPassword(supabase: SupabaseClient, userId: string, id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('dav_app_passwords')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+// =============================================================================
+// AUTHENTICATION
+// =============================================================================
+
+/**
+ * Resolves a Basic Authorization header to a principal. The username must be
+ * the account email or user ID that owns the app password.
+ * @returns The principal, or null if the credentials are invalid or revoked
+ * @throws If a query fails
+ */
+export async function authenticateDavRequest(
+  supabase: SupabaseClient,
+  authorization: string | null
+): Promise<DavPrincipal | null> {
+  const credentials = parseBasicAuth(authorization);
+  if (!credentials) return null;
+
+  const { data: appPassword, error } = await supabase
+    .from('dav_app_passwords')
+    .select('id, user_id')
+    .eq('password_hash', hashAppPassword(credentials.password))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!appPassword) return null;
+
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('id, email, name')
+    .eq('id', appPassword.user_id)
+    .maybeSingle();
+
+  if (userError) throw userError;
+  if (!user) return null;
+
+  const username = credentials.username.trim().toLowerCase();
+  if (username !== user.id && username !== (user.email || '').toLowerCase()) return null;
+
+  const { error: touchError } = await supabase
+    .from('dav_app_passwords')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', appPassword.id);
+
+  if (touchError) throw touchError;
+  return { userId: user.id, email: user.email, name: user.name ?? null };
+}
+
+export const davAppPasswordService = {
+  generateAppPassword,
+  hashAppPassword,
+  parseBasicAuth,
+  listAppPasswords,
+  createAppPassword,
+  revokeAppPassword,
+  authenticateDavRequest,
+};
@@ -0,0 +1,388 @@
+// CalDAV Calendar Store
+// Maps a space's events to CalDAV calendar objects (one .ics resource per
+// event). Queries run with the service-role client, so every function takes
+// an already-authorized space ID.
+
+import crypto from 'crypto';
+import ICAL from 'ical.js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FeedEventRecord } from '@/lib/services/calendar/ics-export-service';
+import { DERIVED_EVENT_TYPES } from '@/lib/services/calendar/ics-export-service';
+import { parseICalDateValue } from '@/lib/services/recurrence';
+import type { DavPrincipal, DavSpace } from './types';
+import { DavError } from './types';
+import type { DavTimeRange } from './xml';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface DavEventRecord extends FeedEventRecord {
+  dav_resource_name: string | null;
+}
+
+export interface DavCalendarObject {
+  event: DavEventRecord;
+  /** Resource name without the .ics extension */
+  resourceName: string;
+  etag: string;
+}
+
+export interface PutCalendarObjectParams {
+  principal: DavPrincipal;
+  spaceId: string;
+  resourceName: string;
+  body: string;
+  ifMatch?: string | null;
+  ifNoneMatch?: string | null;
+}
+
+export interface PutCalendarObjectResult {
+  created: boolean;
+  etag: string;
+}
+
+/** Event fields parsed from a client's VEVENT */
+interface ParsedCalendarObject {
+  ical_uid: string | null;
+  title: string;
+  description: string | null;
+  location: string | null;
+  start_time: string;
+  end_time: string;
+  timezone: string;
+  is_all_day: boolean;
+  is_recurring: boolean;
+  recurrence_pattern: string | null;
+}
+
+const EVENT_COLUMNS = 'id, title, description, location, start_time, end_time, timezone, is_recurring, recurrence_pattern, updated_at, is_all_day, ical_uid, dav_resource_name';
+
+/** Characters allowed in resource names; anything else is treated as not found */
+export const RESOURCE_NAME_PATTERN = /^[A-Za-z0-9._@+-]{1,255}$/;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const LIVE_EVENT_FILTER = `event_type.is.null,event_type.not.in.(${DERIVED_EVENT_TYPES.join(',')})`;
+
+// =============================================================================
+// SPACES
+// =============================================================================
+
+type SpaceJoin = { id: string; name: string } | { id: string; name: string }[] | null;
+
+/**
+ * Lists the spaces the user belongs to.
+ * @throws If the query fails
+ */
+export async function listUserSpaces(supabase: SupabaseClient, userId: string): Promise<DavSpace[]> {
+  const { data, error } = await supabase
+    .from('space_members')
+    .select('space_id, spaces(id, name)')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  return (data || []).flatMap((row: { space_id: string; spaces: SpaceJoin }) => {
+    const space = Array.isArray(row.spaces) ? row.spaces[0] : row.spaces;
+    return space ? [{ id: space.id, name: space.name }] : [];
+  });
+}
+
+/**
+ * Gets a space if the user belongs to it.
+ * @throws If the query fails
+ */
+export async function getUserSpace(
+  supabase: SupabaseClient,
+  userId: string,
+  spaceId: string
+): Promise<DavSpace | null> {
+  if (!UUID_PATTERN.test(spaceId)) return null;
+  const spaces = await listUserSpaces(supabase, userId);
+  return spaces.find((space) => space.id === spaceId) ?? null;
+}
+
+// =============================================================================
+// READING
+// =============================================================================
+
+function etagFor(event: { id: string; updated_at: string | null }): string {
+  const hash = crypto.createHash('sha1').update(`${event.id}:${event.updated_at ?? ''}`).digest('hex');
+  return `"${hash.substring(0, 20)}"`;
+}
+
+function toCalendarObject(event: DavEventRecord): DavCalendarObject {
+  return { event, resourceName: event.dav_resource_name ?? event.id, etag: etagFor(event) };
+}
+
+/**
+ * Computes the collection tag, which changes whenever an event in the
+ * calendar is created, modified or deleted.
+ * @throws If a query fails
+ */
+export async function getCalendarCtag(supabase: SupabaseClient, spaceId: string): Promise<string> {
+  // Deleted rows are included so soft deletes bump the latest timestamp
+  const { data: latest, error } = await supabase
+    .from('events')
+    .select('updated_at')
+    .eq('space_id', spaceId)
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const { count, error: countError } = await supabase
+    .from('events')
+    .select('id', { count: 'exact', head: true })
+    .eq('space_id', spaceId)
+    .is('deleted_at', null);
+
+  if (countError) throw countError;
+
+  const hash = crypto.createHash('sha1').update(`${count ?? 0}:${latest?.updated_at ?? ''}`).digest('hex');
+  return `"${hash.substring(0, 20)}"`;
+}
+
+/**
+ * Lists the calendar objects of a space. With a time range, non-recurring
+ * events outside it are skipped; recurring events are always returned.
+ * @throws If the query fails
+ */
+export async function listCalendarObjects(
+  supabase: SupabaseClient,
+  spaceId: string,
+  timeRange?: DavTimeRange | null
+): Promise<DavCalendarObject[]> {
+  let query = supabase
+    .from('events')
+    .select(EVENT_COLUMNS)
+    .eq('space_id', spaceId)
+    .is('deleted_at', null)
+    .or(LIVE_EVENT_FILTER);
+
+  if (timeRange?.end) {
+    query = query.lt('start_time', timeRange.end.toISOString());
+  }
+  if (timeRange?.start) {
+    const start = timeRange.start.toISOString();
+    query = query.or(`is_recurring.eq.true,end_time.gte.${start},start_time.gte.${start}`);
+  }
+
+  const { data, error } = await query.order('start_time', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map((event) => toCalendarObject(event as DavEventRecord));
+}
+
+/**
+ * Gets a calendar object by resource name. Events created in Rowan have no
+ * resource name and are addressed by their ID.
+ * @throws If the query fails
+ */
+export async function getCalendarObject(
+  supabase: SupabaseClient,
+  spaceId: string,
+  resourceName: string
+): Promise<DavCalendarObject | null> {
+  if (!RESOURCE_NAME_PATTERN.test(resourceName)) return null;
+
+  const nameFilter = UUID_PATTERN.test(resourceName)
+    ? `dav_resource_name.eq."${resourceName}",and(dav_resource_name.is.null,id.eq.${resourceName})`
+    : `dav_resource_name.eq."${resourceName}"`;
+
+  const { data, error } = await supabase
+    .from('events')
+    .select(EVENT_COLUMNS)
+    .eq('space_id', spaceId)
+    .is('deleted_at', null)
+    .or(LIVE_EVENT_FILTER)
+    .or(nameFilter)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toCalendarObject(data as DavEventRecord) : null;
+}
+
+// =============================================================================
+// WRITING
+// =============================================================================
+
+function isIanaTimezone(tzid: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tzid });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Converts a DTSTART/DTEND property to a UTC instant, or a 'YYYY-MM-DD' date for DATE values. */
+function readDateProperty(property: ICAL.Property, tzid: string | null): Date | string {
+  const value = property.getFirstValue() as ICAL.Time;
+  if (value.isDate) {
+    return parseICalDateValue(value.toICALString()) as string;
+  }
+  // TZIDs are resolved as IANA names, which also covers objects without a VTIMEZONE
+  if (tzid) return parseICalDateValue(value.toICALString(), tzid) as Date;
+  return value.toJSDate();
+}
+
+function toStoredInstant(value: Date | string): Date {
+  return typeof value === 'string' ? new Date(`${value}T00:00:00Z`) : value;
+}
+
+/**
+ * Parses the master VEVENT of a calendar object. Overridden instances
+ * (RECURRENCE-ID) are not stored; the series keeps its RRULE, RDATE and
+ * EXDATE lines.
+ * @throws DavError(400) for unparseable data, DavError(403) for objects without a VEVENT
+ */
+export function parseCalendarObject(body: string): ParsedCalendarObject {
+  let root: ICAL.Component;
+  try {
+    root = new ICAL.Component(ICAL.parse(body));
+  } catch {
+    throw new DavError(400, 'Invalid iCalendar data');
+  }
+
+  const vevents = root.getAllSubcomponents('vevent');
+  const master = vevents.find((vevent) => !vevent.getFirstProperty('recurrence-id')) ?? vevents[0];
+  if (!master) throw new DavError(403, 'Only VEVENT calendar objects are supported');
+
+  const dtstart = master.getFirstProperty('dtstart');
+  if (!dtstart) throw new DavError(400, 'VEVENT is missing DTSTART');
+
+  try {
+    const rawTzid = dtstart.getParameter('tzid');
+    const tzid = typeof rawTzid === 'string' && isIanaTimezone(rawTzid) ? rawTzid : null;
+    const startValue = readDateProperty(dtstart, tzid);
+    const isAllDay = typeof startValue === 'string';
+    const start = toStoredInstant(startValue);
+
+    let end: Date;
+    const dtend = master.getFirstProperty('dtend');
+    const duration = master.getFirstPropertyValue('duration') as ICAL.Duration | null;
+    if (dtend) {
+      const rawEndTzid = dtend.getParameter('tzid');
+      const endTzid = typeof rawEndTzid === 'string' && isIanaTimezone(rawEndTzid) ? rawEndTzid : tzid;
+      end = toStoredInstant(readDateProperty(dtend, endTzid));
+    } else if (duration) {
+      end = new Date(start.getTime() + duration.toSeconds() * 1000);
+    } else {
+      // RFC 5545 §3.6.1: a DATE start lasts one day, a DATE-TIME start has no duration
+      end = new Date(start.getTime() + (isAllDay ? 24 * 60 * 60 * 1000 : 60 * 60 * 1000));
+    }
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) throw new Error('Invalid date');
+    if (end < start) end = start;
+
+    const recurrenceLines = ['rrule', 'rdate', 'exdate'].flatMap((name) =>
+      master.getAllProperties(name).map((prop) => prop.toICALString())
+    );
+
+    const text = (name: string): string | null => {
+      const value = master.getFirstPropertyValue(name);
+      return typeof value === 'string' && value.trim() ? value : null;
+    };
+    const uid = text('uid');
+
+    return {
+      ical_uid: uid && uid.length <= 255 ? uid : null,
+      title: text('summary') ?? 'Untitled Event',
+      description: text('description'),
+      location: text('location'),
+      start_time: start.toISOString(),
+      end_time: end.toISOString(),
+      timezone: tzid ?? 'UTC',
+      is_all_day: isAllDay,
+      is_recurring: recurrenceLines.length > 0,
+      recurrence_pattern: recurrenceLines.length > 0 ? recurrenceLines.join('\n') : null,
+    };
+  } catch {
+    throw new DavError(400, 'Invalid DTSTART, DTEND or DURATION');
+  }
+}
+
+/**
+ * Creates or replaces a calendar object, honouring If-Match and
+ * If-None-Match preconditions.
+ * @throws DavError(412) when a precondition fails, or the database error
+ */
+export async function putCalendarObject(
+  supabase: SupabaseClient,
+  params: PutCalendarObjectParams
+): Promise<PutCalendarObjectResult> {
+  if (!RESOURCE_NAME_PATTERN.test(params.resourceName)) {
+    throw new DavError(400, 'Invalid resource name');
+  }
+
+  const parsed = parseCalendarObject(params.body);
+  const existing = await getCalendarObject(supabase, params.spaceId, params.resourceName);
+
+  if (params.ifNoneMatch === '*' && existing) {
+    throw new DavError(412, 'Resource already exists');
+  }
+  if (params.ifMatch && (!existing || (params.ifMatch !== '*' && params.ifMatch !== existing.etag))) {
+    throw new DavError(412, 'ETag does not match');
+  }
+
+  const now = new Date().toISOString();
+
+  if (existing) {
+    const { data, error } = await supabase
+      .from('events')
+      .update({ ...parsed, updated_at: now })
+      .eq('id', existing.event.id)
+      .select(EVENT_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return { created: false, etag: etagFor(data) };
+  }
+
+  const { data, error } = await supabase
+    .from('events')
+    .insert({
+      ...parsed,
+      space_id: params.spaceId,
+      created_by: params.principal.userId,
+      dav_resource_name: params.resourceName,
+      updated_at: now,
+    })
+    .select(EVENT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return { created: true, etag: etagFor(data) };
+}
+
+/**
+ * Soft-deletes a calendar object.
+ * @returns False if the object does not exist
+ * @throws DavError(412) when If-Match fails, or the database error
+ */
+export async function deleteCalendarObject(
+  supabase: SupabaseClient,
+  principal: DavPrincipal,
+  spaceId: string,
+  resourceName: string,
+  ifMatch?: string | null
+): Promise<boolean> {
+  const existing = await getCalendarObject(supabase, spaceId, resourceName);
+  if (!existing) return false;
+
+  if (ifMatch && ifMatch !== '*' && ifMatch !== existing.etag) {
+    throw new DavError(412, 'ETag does not match');
+  }
+
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('events')
+    .update({ deleted_at: now, deleted_by: principal.userId, updated_at: now })
+    .eq('id', existing.event.id);
+
+  if (error) throw error;
+  return true;
+}
@@ -0,0 +1,14 @@
+// CalDAV / CardDAV constants
+// Kept free of Node.js imports so the edge middleware can use them.
+
+/** Base path of the DAV server */
+export const DAV_BASE_PATH = '/api/caldav';
+
+/**
+ * WebDAV methods that Next.js route handlers cannot export. The middleware
+ * forwards them to the route as POST with the original method in
+ * DAV_METHOD_HEADER.
+ */
+export const DAV_EXTENSION_METHODS = ['PROPFIND', 'PROPPATCH', 'REPORT', 'MKCOL', 'MKCALENDAR', 'COPY', 'MOVE', 'LOCK', 'UNLOCK'];
+
+export const DAV_METHOD_HEADER = 'x-dav-method';
@@ -0,0 +1,41 @@
+// CalDAV / CardDAV Server
+// Lets native calendar and contacts apps sync space calendars and member
+// contacts with Rowan over /api/caldav/, authenticated by app passwords.
+
+export { DAV_BASE_PATH, DAV_EXTENSION_METHODS, DAV_METHOD_HEADER } from './constants';
+
+export { DavError } from './types';
+export type { DavPrincipal, DavSpace } from './types';
+
+export {
+  authenticateDavRequest,
+  createAppPassword,
+  davAppPasswordService,
+  generateAppPassword,
+  hashAppPassword,
+  listAppPasswords,
+  parseBasicAuth,
+  revokeAppPassword,
+} from './app-passwords';
+export type { CreatedDavAppPassword, DavAppPassword } from './app-passwords';
+
+export {
+  deleteCalendarObject,
+  getCalendarCtag,
+  getCalendarObject,
+  getUserSpace,
+  listCalendarObjects,
+  listUserSpaces,
+  parseCalendarObject,
+  putCalendarObject,
+} from './calendar-store';
+export type { DavCalendarObject, PutCalendarObjectParams, PutCalendarObjectResult } from './calendar-store';
+
+export { buildVCard, getAddressBookCtag, getAddressObject, listAddressObjects } from './address-book';
+export type { DavAddressObject, DavContact } from './address-book';
+
+export { buildMultistatus, escapeXml, parseDavBody } from './xml';
+export type { DavRequestBody, DavResponse, DavTimeRange } from './xml';
+
+export { handleDavRequest } from './server';
+export type { DavRequestOptions } from './server';
@@ -0,0 +1,529 @@
+// CalDAV / CardDAV Server
+// Serves each space the user belongs to as a two-way CalDAV calendar
+// (RFC 4791) and a read-only CardDAV address book of its members (RFC 6352):
+//
+//   /api/caldav/principals/{userId}/
+//   /api/caldav/calendars/{userId}/{spaceId}/{resource}.ics
+//   /api/caldav/addressbooks/{userId}/{spaceId}/{memberId}.vcf
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { buildICalendar, mapEventToVEvent } from '@/lib/services/calendar/ics-export-service';
+import { authenticateDavRequest } from './app-passwords';
+import {
+  deleteCalendarObject,
+  getCalendarCtag,
+  getCalendarObject,
+  getUserSpace,
+  listCalendarObjects,
+  listUserSpaces,
+  putCalendarObject,
+} from './calendar-store';
+import type { DavCalendarObject } from './calendar-store';
+import { buildVCard, getAddressBookCtag, getAddressObject, listAddressObjects } from './address-book';
+import type { DavAddressObject } from './address-book';
+import { DAV_BASE_PATH } from './constants';
+import type { DavPrincipal, DavSpace } from './types';
+import { DavError } from './types';
+import {
+  CALDAV_NS,
+  CALENDARSERVER_NS,
+  CARDDAV_NS,
+  DAV_NS,
+  buildMultistatus,
+  clark,
+  parseDavBody,
+} from './xml';
+import type { DavElement, DavRequestBody, DavResponse, DavValue } from './xml';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface DavRequestOptions {
+  /** Effective method (the original WebDAV method for forwarded requests) */
+  method: string;
+  /** Path segments below /api/caldav */
+  path: string[];
+  /** Service-role client; access is checked against space membership here */
+  supabase: SupabaseClient;
+}
+
+type DavResource =
+  | { type: 'root' }
+  | { type: 'principal' }
+  | { type: 'calendar-home' }
+  | { type: 'calendar'; space: DavSpace }
+  | { type: 'calendar-object'; space: DavSpace; resourceName: string }
+  | { type: 'addressbook-home' }
+  | { type: 'addressbook'; space: DavSpace }
+  | { type: 'address-object'; space: DavSpace; resourceName: string };
+
+const DAV_CAPABILITIES = '1, 3, calendar-access, addressbook';
+const ALLOWED_METHODS = 'OPTIONS, GET, HEAD, PUT, DELETE, PROPFIND, PROPPATCH, REPORT';
+
+const ICAL_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+const VCARD_CONTENT_TYPE = 'text/vcard; charset=utf-8';
+
+// =============================================================================
+// PATHS
+// =============================================================================
+
+function hrefs(principal: DavPrincipal) {
+  const base = `${DAV_BASE_PATH}/`;
+  return {
+    root: base,
+    principal: `${base}principals/${principal.userId}/`,
+    calendarHome: `${base}calendars/${principal.userId}/`,
+    calendar: (spaceId: string) => `${base}calendars/${principal.userId}/${spaceId}/`,
+    addressbookHome: `${base}addressbooks/${principal.userId}/`,
+    addressbook: (spaceId: string) => `${base}addressbooks/${principal.userId}/${spaceId}/`,
+  };
+}
+
+function hrefOf(principal: DavPrincipal, resource: DavResource): string {
+  const paths = hrefs(principal);
+  switch (resource.type) {
+    case 'root': return paths.root;
+    case 'principal': return paths.principal;
+    case 'calendar-home': return paths.calendarHome;
+    case 'calendar': return paths.calendar(resource.space.id);
+    case 'calendar-object': return `${paths.calendar(resource.space.id)}${encodeURIComponent(resource.resourceName)}.ics`;
+    case 'addressbook-home': return paths.addressbookHome;
+    case 'addressbook': return paths.addressbook(resource.space.id);
+    case 'address-object': return `${paths.addressbook(resource.space.id)}${encodeURIComponent(resource.resourceName)}.vcf`;
+  }
+}
+
+function stripExtension(segment: string, extension: string): string | null {
+  return segment.toLowerCase().endsWith(extension) && segment.length > extension.length
+    ? segment.slice(0, -extension.length)
+    : null;
+}
+
+/**
+ * Resolves path segments to a resource the principal may access.
+ * @throws DavError(403) for another user's paths, DavError(404) for unknown paths or spaces
+ */
+async function resolveResource(
+  supabase: SupabaseClient,
+  principal: DavPrincipal,
+  path: string[]
+): Promise<DavResource> {
+  if (path.length === 0) return { type: 'root' };
+
+  const [collection, userId, spaceId, resource, ...rest] = path;
+  if (!userId || rest.length > 0) throw new DavError(404, 'Not found');
+  if (userId !== principal.userId) throw new DavError(403, 'Forbidden');
+
+  if (collection === 'principals') {
+    if (spaceId) throw new DavError(404, 'Not found');
+    return { type: 'principal' };
+  }
+  if (collection !== 'calendars' && collection !== 'addressbooks') {
+    throw new DavError(404, 'Not found');
+  }
+
+  const isCalendar = collection === 'calendars';
+  if (!spaceId) return { type: isCalendar ? 'calendar-home' : 'addressbook-home' };
+
+  const space = await getUserSpace(supabase, principal.userId, spaceId);
+  if (!space) throw new DavError(404, 'Not found');
+  if (!resource) return isCalendar ? { type: 'calendar', space } : { type: 'addressbook', space };
+
+  const resourceName = stripExtension(resource, isCalendar ? '.ics' : '.vcf');
+  if (!resourceName) throw new DavError(404, 'Not found');
+  return isCalendar
+    ? { type: 'calendar-object', space, resourceName }
+    : { type: 'address-object', space, resourceName };
+}
+
+/** Extracts the resource name from a multiget href inside the given collection. */
+function resourceNameFromHref(href: string, collectionHref: string, extension: string): string | null {
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(new URL(href, 'http://localhost').pathname);
+  } catch {
+    return null;
+  }
+  if (!pathname.startsWith(collectionHref)) return null;
+  const segment = pathname.slice(collectionHref.length);
+  return segment.includes('/') ? null : stripExtension(segment, extension);
+}
+
+// =============================================================================
+// PROPERTIES
+// =============================================================================
+
+const hrefElement = (href: string): DavElement => ({ name: clark(DAV_NS, 'href'), value: href });
+
+function privilegeSet(privileges: string[]): DavElement[] {
+  return privileges.map((privilege) => ({
+    name: clark(DAV_NS, 'privilege'),
+    value: [{ name: clark(DAV_NS, privilege) }],
+  }));
+}
+
+function supportedReports(reports: string[]): DavElement[] {
+  return reports.map((report) => {
+    const [namespace, name] = report.split('#');
+    return {
+      name: clark(DAV_NS, 'supported-report'),
+      value: [{ name: clark(DAV_NS, 'report'), value: [{ name: clark(namespace, name) }] }],
+    };
+  });
+}
+
+/** Live properties of a resource; object data is added separately when requested. */
+function resourceProperties(
+  principal: DavPrincipal,
+  resource: DavResource,
+  details: { ctag?: string; etag?: string } = {}
+): Record<string, DavValue> {
+  const paths = hrefs(principal);
+  const props: Record<string, DavValue> = {
+    [clark(DAV_NS, 'current-user-principal')]: [hrefElement(paths.principal)],
+    [clark(DAV_NS, 'resourcetype')]: [],
+  };
+  const collection = { name: clark(DAV_NS, 'collection') };
+
+  switch (resource.type) {
+    case 'root':
+    case 'calendar-home':
+    case 'addressbook-home':
+      props[clark(DAV_NS, 'resourcetype')] = [collection];
+      props[clark(DAV_NS, 'current-user-privilege-set')] = privilegeSet(['read']);
+      break;
+
+    case 'principal':
+      props[clark(DAV_NS, 'resourcetype')] = [collection, { name: clark(DAV_NS, 'principal') }];
+      props[clark(DAV_NS, 'displayname')] = principal.name || principal.email;
+      props[clark(DAV_NS, 'principal-URL')] = [hrefElement(paths.principal)];
+      props[clark(CALDAV_NS, 'calendar-home-set')] = [hrefElement(paths.calendarHome)];
+      props[clark(CALDAV_NS, 'calendar-user-address-set')] = [hrefElement(`mailto:${principal.email}`)];
+      props[clark(CARDDAV_NS, 'addressbook-home-set')] = [hrefElement(paths.addressbookHome)];
+      break;
+
+    case 'calendar':
+      props[clark(DAV_NS, 'resourcetype')] = [collection, { name: clark(CALDAV_NS, 'calendar') }];
+      props[clark(DAV_NS, 'displayname')] = resource.space.name;
+      props[clark(DAV_NS, 'owner')] = [hrefElement(paths.principal)];
+      props[clark(DAV_NS, 'current-user-privilege-set')] = privilegeSet(['read', 'write', 'write-content', 'bind', 'unbind']);
+      props[clark(DAV_NS, 'supported-report-set')] = supportedReports([
+        `${CALDAV_NS}#calendar-multiget`,
+        `${CALDAV_NS}#calendar-query`,
+      ]);
+      props[clark(CALDAV_NS, 'supported-calendar-component-set')] = [
+        { name: clark(CALDAV_NS, 'comp'), attributes: { name: 'VEVENT' } },
+      ];
+      if (details.ctag) props[clark(CALENDARSERVER_NS, 'getctag')] = details.ctag;
+      break;
+
+    case 'addressbook':
+      props[clark(DAV_NS, 'resourcetype')] = [collection, { name: clark(CARDDAV_NS, 'addressbook') }];
+      props[clark(DAV_NS, 'displayname')] = `${resource.space.name} members`;
+      props[clark(DAV_NS, 'owner')] = [hrefElement(paths.principal)];
+      props[clark(DAV_NS, 'current-user-privilege-set')] = privilegeSet(['read']);
+      props[clark(DAV_NS, 'supported-report-set')] = supportedReports([
+        `${CARDDAV_NS}#addressbook-multiget`,
+        `${CARDDAV_NS}#addressbook-query`,
+      ]);
+      if (details.ctag) props[clark(CALENDARSERVER_NS, 'getctag')] = details.ctag;
+      break;
+
+    case 'calendar-object':
+      props[clark(DAV_NS, 'getcontenttype')] = `${ICAL_CONTENT_TYPE}; component=vevent`;
+      if (details.etag) props[clark(DAV_NS, 'getetag')] = details.etag;
+      break;
+
+    case 'address-object':
+      props[clark(DAV_NS, 'getcontenttype')] = VCARD_CONTENT_TYPE;
+      if (details.etag) props[clark(DAV_NS, 'getetag')] = details.etag;
+      break;
+  }
+
+  return props;
+}
+
+/** Splits available properties into found and not found for the request. */
+function propstat(
+  href: string,
+  available: Record<string, DavValue>,
+  request: DavRequestBody
+): DavResponse {
+  if (request.allProps) return { href, found: available };
+
+  const found: Record<string, DavValue> = {};
+  const notFound: string[] = [];
+  for (const prop of request.props) {
+    if (prop in available) found[prop] = available[prop];
+    else notFound.push(prop);
+  }
+  return { href, found, notFound };
+}
+
+function renderCalendarObject(space: DavSpace, object: DavCalendarObject): string {
+  const vevent = mapEventToVEvent(object.event, new Date());
+  return buildICalendar(space.name, vevent ? [vevent] : []);
+}
+
+function calendarObjectResponse(
+  principal: DavPrincipal,
+  space: DavSpace,
+  object: DavCalendarObject,
+  request: DavRequestBody
+): DavResponse {
+  const resource: DavResource = { type: 'calendar-object', space, resourceName: object.resourceName };
+  const available = resourceProperties(principal, resource, { etag: object.etag });
+  // calendar-data is never part of allprop (RFC 4791 §9.6)
+  if (request.props.includes(clark(CALDAV_NS, 'calendar-data'))) {
+    available[clark(CALDAV_NS, 'calendar-data')] = renderCalendarObject(space, object);
+  }
+  return propstat(hrefOf(principal, resource), available, request);
+}
+
+function addressObjectResponse(
+  principal: DavPrincipal,
+  space: DavSpace,
+  object: DavAddressObject,
+  request: DavRequestBody
+): DavResponse {
+  const resource: DavResource = { type: 'address-object', space, resourceName: object.resourceName };
+  const available = resourceProperties(principal, resource, { etag: object.etag });
+  if (request.props.includes(clark(CARDDAV_NS, 'address-data'))) {
+    available[clark(CARDDAV_NS, 'address-data')] = buildVCard(object.contact);
+  }
+  return propstat(hrefOf(principal, resource), available, request);
+}
+
+// =============================================================================
+// METHODS
+// =============================================================================
+
+function davHeaders(extra: Record<string, string> = {}): Record<string, string> {
+  return { DAV: DAV_CAPABILITIES, ...extra };
+}
+
+function multistatus(responses: DavResponse[]): Response {
+  return new Response(buildMultistatus(responses), {
+    status: 207,
+    headers: davHeaders({ 'Content-Type': 'application/xml; charset=utf-8' }),
+  });
+}
+
+function emptyResponse(status: number, headers: Record<string, string> = {}): Response {
+  return new Response(null, { status, headers: davHeaders(headers) });
+}
+
+async function propfind(
+  supabase: SupabaseClient,
+  principal: DavPrincipal,
+  resource: DavResource,
+  request: DavRequestBody,
+  depth: number
+): Promise<Response> {
+  if (request.kind !== 'propfind') throw new DavError(400, 'Expected a propfind body');
+
+  switch (resource.type) {
+    case 'calendar-object': {
+      const object = await getCalendarObject(supabase, resource.space.id, resource.resourceName);
+      if (!object) throw new DavError(404, 'Not found');
+      return multistatus([calendarObjectResponse(principal, resource.space, object, request)]);
+    }
+    case 'address-object': {
+      const object = await getAddressObject(supabase, resource.space.id, resource.resourceName);
+      if (!object) throw new DavError(404, 'Not found');
+      return multistatus([addressObjectResponse(principal, resource.space, object, request)]);
+    }
+    case 'calendar': {
+      const ctag = await getCalendarCtag(supabase, resource.space.id);
+      const responses = [propstat(hrefOf(principal, resource), resourceProperties(principal, resource, { ctag }), request)];
+      if (depth > 0) {
+        const objects = await listCalendarObjects(supabase, resource.space.id);
+        responses.push(...objects.map((object) => calendarObjectResponse(principal, resource.space, object, request)));
+      }
+      return multistatus(responses);
+    }
+    case 'addressbook': {
+      const objects = await listAddressObjects(supabase, resource.space.id);
+      const ctag = getAddressBookCtag(objects);
+      const responses = [propstat(hrefOf(principal, resource), resourceProperties(principal, resource, { ctag }), request)];
+      if (depth > 0) {
+        responses.push(...objects.map((object) => addressObjectResponse(principal, resource.space, object, request)));
+      }
+      return multistatus(responses);
+    }
+    case 'calendar-home':
+    case 'addressbook-home': {
+      const responses = [propstat(hrefOf(principal, resource), resourceProperties(principal, resource), request)];
+      if (depth > 0) {
+        const spaces = await listUserSpaces(supabase, principal.userId);
+        for (const space of spaces) {
+          const child: DavResource = resource.type === 'calendar-home'
+            ? { type: 'calendar', space }
+            : { type: 'addressbook', space };
+          const ctag = child.type === 'calendar'
+            ? await getCalendarCtag(supabase, space.id)
+            : getAddressBookCtag(await listAddressObjects(supabase, space.id));
+          responses.push(propstat(hrefOf(principal, child), resourceProperties(principal, child, { ctag }), request));
+        }
+      }
+      return multistatus(responses);
+    }
+    default:
+      return multistatus([propstat(hrefOf(principal, resource), resourceProperties(principal, resource), request)]);
+  }
+}
+
+async function report(
+  supabase: SupabaseClient,
+  principal: DavPrincipal,
+  resource: DavResource,
+  request: DavRequestBody
+): Promise<Response> {
+  if (resource.type === 'calendar' && request.kind === 'calendar-multiget') {
+    const collectionHref = hrefOf(principal, resource);
+    const responses = await Promise.all(request.hrefs.map(async (href): Promise<DavResponse> => {
+      const name = resourceNameFromHref(href, collectionHref, '.ics');
+      const object = name ? await getCalendarObject(supabase, resource.space.id, name) : null;
+      return object
+        ? calendarObjectResponse(principal, resource.space, object, request)
+        : { href, status: 404 };
+    }));
+    return multistatus(responses);
+  }
+
+  if (resource.type === 'calendar' && request.kind === 'calendar-query') {
+    // Only VEVENTs are stored, so queries for other components match nothing
+    if (request.component && request.component !== 'VEVENT') return multistatus([]);
+    const objects = await listCalendarObjects(supabase, resource.space.id, request.timeRange);
+    return multistatus(objects.map((object) => calendarObjectResponse(principal, resource.space, object, request)));
+  }
+
+  if (resource.type === 'addressbook' && request.kind === 'addressbook-multiget') {
+    const collectionHref = hrefOf(principal, resource);
+    const objects = await listAddressObjects(supabase, resource.space.id);
+    return multistatus(request.hrefs.map((href): DavResponse => {
+      const name = resourceNameFromHref(href, collectionHref, '.vcf');
+      const object = objects.find((candidate) => candidate.resourceName === name);
+      return object ? addressObjectResponse(principal, resource.space, object, request) : { href, status: 404 };
+    }));
+  }
+
+  if (resource.type === 'addressbook' && request.kind === 'addressbook-query') {
+    const objects = await listAddressObjects(supabase, resource.space.id);
+    return multistatus(objects.map((object) => addressObjectResponse(principal, resource.space, object, request)));
+  }
+
+  throw new DavError(403, 'Unsupported report for this resource');
+}
+
+async function get(supabase: SupabaseClient, resource: DavResource, head: boolean): Promise<Response> {
+  if (resource.type === 'calendar-object') {
+    const object = await getCalendarObject(supabase, resource.space.id, resource.resourceName);
+    if (!object) throw new DavError(404, 'Not found');
+    return new Response(head ? null : renderCalendarObject(resource.space, object), {
+      status: 200,
+      headers: davHeaders({ 'Content-Type': ICAL_CONTENT_TYPE, ETag: object.etag }),
+    });
+  }
+
+  if (resource.type === 'address-object') {
+    const object = await getAddressObject(supabase, resource.space.id, resource.resourceName);
+    if (!object) throw new DavError(404, 'Not found');
+    return new Response(head ? null : buildVCard(object.contact), {
+      status: 200,
+      headers: davHeaders({ 'Content-Type': VCARD_CONTENT_TYPE, ETag: object.etag }),
+    });
+  }
+
+  return emptyResponse(405, { Allow: ALLOWED_METHODS });
+}
+
+// =============================================================================
+// ENTRY POINT
+// =============================================================================
+
+/**
+ * Handles a CalDAV/CardDAV request authenticated with an app password.
+ * Protocol errors become their HTTP status; other errors are thrown.
+ */
+export async function handleDavRequest(request: Request, options: DavRequestOptions): Promise<Response> {
+  const method = options.method.toUpperCase();
+
+  if (method === 'OPTIONS') {
+    return emptyResponse(200, { Allow: ALLOWED_METHODS, 'Content-Length': '0' });
+  }
+
+  const principal = await authenticateDavRequest(options.supabase, request.headers.get('authorization'));
+  if (!principal) {
+    return emptyResponse(401, { 'WWW-Authenticate': 'Basic realm="Rowan", charset="UTF-8"' });
+  }
+
+  try {
+    const { supabase } = options;
+    const resource = await resolveResource(supabase, principal, options.path);
+
+    switch (method) {
+      case 'PROPFIND': {
+        const depth = request.headers.get('depth') === '0' ? 0 : 1;
+        return await propfind(supabase, principal, resource, parseDavBody(await request.text(), method), depth);
+      }
+
+      case 'REPORT':
+        return await report(supabase, principal, resource, parseDavBody(await request.text(), method));
+
+      case 'PROPPATCH': {
+        // Properties are derived from Rowan data, so none can be changed
+        const body = parseDavBody(await request.text(), method);
+        return multistatus([{ href: hrefOf(principal, resource), forbidden: body.props }]);
+      }
+
+      case 'GET':
+      case 'HEAD':
+        return await get(supabase, resource, method === 'HEAD');
+
+      case 'PUT': {
+        if (resource.type === 'address-object') throw new DavError(403, 'Address books are read-only');
+        if (resource.type !== 'calendar-object') return emptyResponse(405, { Allow: ALLOWED_METHODS });
+
+        const result = await putCalendarObject(supabase, {
+          principal,
+          spaceId: resource.space.id,
+          resourceName: resource.resourceName,
+          body: await request.text(),
+          ifMatch: request.headers.get('if-match'),
+          ifNoneMatch: request.headers.get('if-none-match'),
+        });
+        return emptyResponse(result.created ? 201 : 204, { ETag: result.etag });
+      }
+
+      case 'DELETE': {
+        if (resource.type !== 'calendar-object') throw new DavError(403, 'Only calendar objects can be deleted');
+        const deleted = await deleteCalendarObject(
+          supabase,
+          principal,
+          resource.space.id,
+          resource.resourceName,
+          request.headers.get('if-match')
+        );
+        return emptyResponse(deleted ? 204 : 404);
+      }
+
+      case 'MKCALENDAR':
+      case 'MKCOL':
+        // Calendars and address books map to spaces, which are created in Rowan
+        throw new DavError(403, 'Collections cannot be created over DAV');
+
+      default:
+        return emptyResponse(405, { Allow: ALLOWED_METHODS });
+    }
+  } catch (error) {
+    if (error instanceof DavError) {
+      return new Response(error.message, {
+        status: error.status,
+        headers: davHeaders({ 'Content-Type': 'text/plain; charset=utf-8' }),
+      });
+    }
+    throw error;
+  }
+}
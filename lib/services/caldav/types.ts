@@ -0,0 +1,22 @@
+// CalDAV / CardDAV shared types
+
+/** The user a DAV request is authenticated as */
+export interface DavPrincipal {
+  userId: string;
+  email: string;
+  name: string | null;
+}
+
+/** A space the principal belongs to, exposed as one calendar and one address book */
+export interface DavSpace {
+  id: string;
+  name: string;
+}
+
+/** Raised for protocol-level failures that map to an HTTP status */
+export class DavError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'DavError';
+  }
+}
@@ -0,0 +1,273 @@
+// DAV XML
+// Parses PROPFIND/REPORT request bodies and writes 207 Multi-Status responses.
+// Property names use Clark notation ("{namespace}local-name").
+
+import { DOMParser } from '@xmldom/xmldom';
+import { parseICalDateValue } from '@/lib/services/recurrence';
+import { DavError } from './types';
+
+// =============================================================================
+// NAMESPACES
+// =============================================================================
+
+export const DAV_NS = 'DAV:';
+export const CALDAV_NS = 'urn:ietf:params:xml:ns:caldav';
+export const CARDDAV_NS = 'urn:ietf:params:xml:ns:carddav';
+export const CALENDARSERVER_NS = 'http://calendarserver.org/ns/';
+
+const NAMESPACE_PREFIXES: Record<string, string> = {
+  [DAV_NS]: 'd',
+  [CALDAV_NS]: 'cal',
+  [CARDDAV_NS]: 'card',
+  [CALENDARSERVER_NS]: 'cs',
+};
+
+/** Builds a Clark-notation property name. */
+export function clark(namespace: string, name: string): string {
+  return `{${namespace}}${name}`;
+}
+
+function splitClark(name: string): { namespace: string; localName: string } {
+  const match = name.match(/^\{([^}]*)\}(.+)$/);
+  return match ? { namespace: match[1], localName: match[2] } : { namespace: '', localName: name };
+}
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type DavRequestKind =
+  | 'propfind'
+  | 'proppatch'
+  | 'calendar-multiget'
+  | 'calendar-query'
+  | 'addressbook-multiget'
+  | 'addressbook-query';
+
+export interface DavTimeRange {
+  start: Date | null;
+  end: Date | null;
+}
+
+export interface DavRequestBody {
+  kind: DavRequestKind;
+  /** True for allprop, propname and empty PROPFIND bodies */
+  allProps: boolean;
+  /** Requested (or, for PROPPATCH, modified) properties */
+  props: string[];
+  /** Object hrefs of a multiget report */
+  hrefs: string[];
+  /** Component named by a calendar-query comp-filter below VCALENDAR */
+  component: string | null;
+  timeRange: DavTimeRange | null;
+}
+
+/** Property value: text, or child elements */
+export type DavValue = string | DavElement[];
+
+export interface DavElement {
+  name: string;
+  attributes?: Record<string, string>;
+  value?: DavValue;
+}
+
+export interface DavResponse {
+  href: string;
+  /** Properties returned with 200 OK */
+  found?: Record<string, DavValue>;
+  /** Properties returned with 404 Not Found */
+  notFound?: string[];
+  /** Properties returned with 403 Forbidden */
+  forbidden?: string[];
+  /** Status for the whole response when there are no properties (e.g. a missing multiget href) */
+  status?: number;
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+const ROOT_KINDS: Record<string, DavRequestKind> = {
+  [clark(DAV_NS, 'propfind')]: 'propfind',
+  [clark(DAV_NS, 'propertyupdate')]: 'proppatch',
+  [clark(CALDAV_NS, 'calendar-multiget')]: 'calendar-multiget',
+  [clark(CALDAV_NS, 'calendar-query')]: 'calendar-query',
+  [clark(CARDDAV_NS, 'addressbook-multiget')]: 'addressbook-multiget',
+  [clark(CARDDAV_NS, 'addressbook-query')]: 'addressbook-query',
+};
+
+function elementChildren(element: Element): Element[] {
+  const children: Element[] = [];
+  for (let i = 0; i < element.childNodes.length; i++) {
+    const node = element.childNodes[i];
+    if (node.nodeType === 1) children.push(node as Element);
+  }
+  return children;
+}
+
+function nameOf(element: Element): string {
+  return clark(element.namespaceURI || '', element.localName || element.nodeName);
+}
+
+function descendants(element: Element, namespace: string, localName: string): Element[] {
+  const list = element.getElementsByTagNameNS(namespace, localName);
+  const result: Element[] = [];
+  for (let i = 0; i < list.length; i++) result.push(list[i]);
+  return result;
+}
+
+function parseTimeRangeValue(value: string | null): Date | null {
+  if (!value) return null;
+  try {
+    const parsed = parseICalDateValue(value);
+    return typeof parsed === 'string' ? new Date(`${parsed}T00:00:00Z`) : parsed;
+  } catch {
+    throw new DavError(400, `Invalid time-range value "${value}"`);
+  }
+}
+
+/**
+ * Parses a PROPFIND, PROPPATCH or REPORT body. An empty PROPFIND body means
+ * allprop (RFC 4918 §9.1).
+ * @throws DavError(400) for malformed XML, DavError(403) for unsupported reports
+ */
+export function parseDavBody(body: string, method: string): DavRequestBody {
+  const request: DavRequestBody = {
+    kind: 'propfind',
+    allProps: false,
+    props: [],
+    hrefs: [],
+    component: null,
+    timeRange: null,
+  };
+
+  if (!body.trim()) {
+    if (method !== 'PROPFIND') throw new DavError(400, `${method} requires a request body`);
+    request.allProps = true;
+    return request;
+  }
+
+  let root: Element | null;
+  try {
+    const document = new DOMParser({
+      errorHandler: {
+        warning: () => undefined,
+        error: (message: unknown) => { throw new Error(String(message)); },
+        fatalError: (message: unknown) => { throw new Error(String(message)); },
+      },
+    }).parseFromString(body, 'application/xml');
+    root = document.documentElement;
+  } catch {
+    throw new DavError(400, 'Malformed XML body');
+  }
+  if (!root) throw new DavError(400, 'Malformed XML body');
+
+  const kind = ROOT_KINDS[nameOf(root)];
+  if (!kind) throw new DavError(403, `Unsupported request ${nameOf(root)}`);
+  request.kind = kind;
+
+  for (const child of elementChildren(root)) {
+    const childName = nameOf(child);
+    if (childName === clark(DAV_NS, 'allprop') || childName === clark(DAV_NS, 'propname')) {
+      request.allProps = true;
+    } else if (childName === clark(DAV_NS, 'prop')) {
+      request.props.push(...elementChildren(child).map(nameOf));
+    } else if (childName === clark(DAV_NS, 'href')) {
+      request.hrefs.push((child.textContent || '').trim());
+    } else if (childName === clark(DAV_NS, 'set') || childName === clark(DAV_NS, 'remove')) {
+      for (const prop of descendants(child, DAV_NS, 'prop')) {
+        request.props.push(...elementChildren(prop).map(nameOf));
+      }
+    }
+  }
+  if (kind !== 'proppatch' && request.props.length === 0) request.allProps = true;
+
+  if (kind === 'calendar-query') {
+    const components = descendants(root, CALDAV_NS, 'comp-filter')
+      .map((filter) => (filter.getAttribute('name') || '').toUpperCase())
+      .filter((name) => name && name !== 'VCALENDAR');
+    request.component = components[0] ?? null;
+
+    const [timeRange] = descendants(root, CALDAV_NS, 'time-range');
+    if (timeRange) {
+      request.timeRange = {
+        start: parseTimeRangeValue(timeRange.getAttribute('start')),
+        end: parseTimeRangeValue(timeRange.getAttribute('end')),
+      };
+    }
+  }
+
+  return request;
+}
+
+// =============================================================================
+// WRITING
+// =============================================================================
+
+/** Escapes text for XML character data and attribute values. */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** Escapes character data; quotes stay readable so ETags appear as sent. */
+function escapeXmlText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  403: 'Forbidden',
+  404: 'Not Found',
+};
+
+function statusLine(status: number): string {
+  return `HTTP/1.1 ${status} ${STATUS_TEXT[status] ?? ''}`.trimEnd();
+}
+
+function serializeElement(element: DavElement): string {
+  const { namespace, localName } = splitClark(element.name);
+  const prefix = NAMESPACE_PREFIXES[namespace];
+  const tag = prefix ? `${prefix}:${localName}` : `x:${localName}`;
+  const declaration = prefix ? '' : ` xmlns:x="${escapeXml(namespace)}"`;
+  const attributes = Object.entries(element.attributes ?? {})
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join('');
+
+  const { value } = element;
+  if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return `<${tag}${declaration}${attributes}/>`;
+  }
+  const content = typeof value === 'string' ? escapeXmlText(value) : value.map(serializeElement).join('');
+  return `<${tag}${declaration}${attributes}>${content}</${tag}>`;
+}
+
+function serializePropstat(props: DavElement[], status: number): string {
+  return `<d:propstat><d:prop>${props.map(serializeElement).join('')}</d:prop>`
+    + `<d:status>${statusLine(status)}</d:status></d:propstat>`;
+}
+
+/** Renders a 207 Multi-Status document (RFC 4918 §13). */
+export function buildMultistatus(responses: DavResponse[]): string {
+  const namespaces = Object.entries(NAMESPACE_PREFIXES)
+    .map(([namespace, prefix]) => ` xmlns:${prefix}="${namespace}"`)
+    .join('');
+
+  const body = responses.map((response) => {
+    const parts = [`<d:href>${escapeXmlText(response.href)}</d:href>`];
+    const found = Object.entries(response.found ?? {}).map(([name, value]) => ({ name, value }));
+
+    if (found.length > 0) parts.push(serializePropstat(found, 200));
+    if (response.forbidden?.length) parts.push(serializePropstat(response.forbidden.map((name) => ({ name })), 403));
+    if (response.notFound?.length) parts.push(serializePropstat(response.notFound.map((name) => ({ name })), 404));
+    if (parts.length === 1) parts.push(`<d:status>${statusLine(response.status ?? 200)}</d:status>`);
+
+    return `<d:response>${parts.join('')}</d:response>`;
+  });
+
+  return `<?xml version="1.0" encoding="utf-8"?>\n<d:multistatus${namespaces}>${body.join('')}</d:multistatus>`;
+}
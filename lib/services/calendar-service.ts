@@ -42,6 +42,7 @@ export interface CalendarEvent {
   show_countdown?: boolean; // Display as countdown widget on dashboard
   countdown_label?: string; // Custom countdown label (e.g., "Birthday!", "Vacation!")
   linked_bill_id?: string; // Link to bill if this event is for a bill due date
+  is_away?: boolean; // Assignee is away; balanced chore rotations skip them
   created_at: string;
   updated_at: string;
 }
@@ -63,6 +64,7 @@ export interface CreateEventInput {
   show_countdown?: boolean; // Display as countdown widget
   countdown_label?: string; // Custom countdown label
   linked_bill_id?: string; // Link to bill if this event is for a bill due date
+  is_away?: boolean; // Assignee is away; balanced chore rotations skip them
 }
 
 export interface EventStats {
@@ -129,7 +131,7 @@ export const calendarService = {
 
     let query = supabase
       .from('events')
-      .select('id, space_id, title, description, start_time, end_time, event_type, is_recurring, recurrence_pattern, location, category, status, assigned_to, created_by, custom_color, timezone, deleted_at, deleted_by, show_countdown, countdown_label, linked_bill_id, created_at, updated_at')
+      .select('id, space_id, title, description, start_time, end_time, event_type, is_recurring, recurrence_pattern, location, category, status, assigned_to, created_by, custom_color, timezone, deleted_at, deleted_by, show_countdown, countdown_label, linked_bill_id, is_away, created_at, updated_at')
       .eq('space_id', spaceId);
 
     // Exclude soft-deleted events by default
@@ -157,7 +159,7 @@ export const calendarService = {
     const supabase = getSupabaseClient(supabaseClient);
     const { data, error} = await supabase
       .from('events')
-      .select('id, space_id, title, description, start_time, end_time, event_type, is_recurring, recurrence_pattern, location, category, status, assigned_to, created_by, custom_color, timezone, deleted_at, deleted_by, show_countdown, countdown_label, linked_bill_id, created_at, updated_at')
+      .select('id, space_id, title, description, start_time, end_time, event_type, is_recurring, recurrence_pattern, location, category, status, assigned_to, created_by, custom_color, timezone, deleted_at, deleted_by, show_countdown, countdown_label, linked_bill_id, is_away, created_at, updated_at')
       .eq('id', id)
       .single();
 
@@ -363,7 +365,7 @@ export const calendarService = {
 
     const { data, error } = await supabase
       .from('events')
-      .select('id, space_id, title, description, start_time, end_time, event_type, is_recurring, recurrence_pattern, location, category, status, assigned_to, created_by, custom_color, timezone, deleted_at, deleted_by, show_countdown, countdown_label, linked_bill_id, created_at, updated_at')
+      .select('id, space_id, title, description, start_time, end_time, event_type, is_recurring, recurrence_pattern, location, category, status, assigned_to, created_by, custom_color, timezone, deleted_at, deleted_by, show_countdown, countdown_label, linked_bill_id, is_away, created_at, updated_at')
       .eq('space_id', spaceId)
       .not('deleted_at', 'is', null)
       .gte('deleted_at', thirtyDaysAgo.toISOString())
@@ -525,7 +527,7 @@ export const calendarService = {
     const supabase = createClient();
     let eventsQuery = supabase
       .from('events')
-      .select('id, space_id, title, description, start_time, end_time, event_type, is_recurring, recurrence_pattern, location, category, status, assigned_to, created_by, custom_color, timezone, deleted_at, deleted_by, show_countdown, countdown_label, linked_bill_id, created_at, updated_at')
+      .select('id, space_id, title, description, start_time, end_time, event_type, is_recurring, recurrence_pattern, location, category, status, assigned_to, created_by, custom_color, timezone, deleted_at, deleted_by, show_countdown, countdown_label, linked_bill_id, is_away, created_at, updated_at')
       .eq('space_id', spaceId)
       .is('deleted_at', null);
 
@@ -476,6 +476,12 @@ function processICalLine(
     case 'RRULE':
       event.rrule = value;
       break;
+    case 'RDATE':
+      event.rdate = [...(event.rdate ?? []), line];
+      break;
+    case 'EXDATE':
+      event.exdate = [...(event.exdate ?? []), line];
+      break;
     case 'RECURRENCE-ID':
       event.recurrenceId = value;
       break;
@@ -0,0 +1,221 @@
+// Calendar Feed Service
+// Tokenized, revocable webcal:// subscriptions for a space or a single member
+
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CalendarFeed, CalendarFeedDomain } from '@/lib/types/calendar-integration';
+import { CALENDAR_FEED_DOMAINS } from './ics-export-service';
+import { getAppUrl } from '@/lib/utils/app-url';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CreateCalendarFeedParams {
+  space_id: string;
+  created_by: string;
+  name: string;
+  member_id?: string | null;
+  domains?: CalendarFeedDomain[];
+}
+
+export interface UpdateCalendarFeedParams {
+  name?: string;
+  domains?: CalendarFeedDomain[];
+}
+
+const FEED_COLUMNS = 'id, space_id, created_by, member_id, name, token, domains, revoked_at, last_accessed_at, created_at, updated_at';
+
+// =============================================================================
+// URLS
+// =============================================================================
+
+/** Generates a new random feed token (64 hex characters). */
+export function generateFeedToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Builds the subscription URL for a feed token.
+ * @param token - The feed token
+ * @param protocol - 'webcal' for calendar apps, 'https' for direct download
+ */
+export function getFeedUrl(token: string, protocol: 'webcal' | 'https' = 'webcal'): string {
+  const url = new URL(`/api/calendar/webcal/${token}.ics`, getAppUrl());
+  if (protocol === 'webcal') {
+    return `webcal://${url.host}${url.pathname}`;
+  }
+  return url.toString();
+}
+
+// =============================================================================
+// FEED MANAGEMENT
+// =============================================================================
+
+/**
+ * Lists the caller's active feeds in a space.
+ * @throws If the query fails
+ */
+export async function listCalendarFeeds(
+  supabase: SupabaseClient,
+  spaceId: string,
+  userId: string
+): Promise<CalendarFeed[]> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select(FEED_COLUMNS)
+    .eq('space_id', spaceId)
+    .eq('created_by', userId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Gets a feed by ID, or null if it does not exist or the caller cannot see it.
+ * Space admins can see every feed in their space; pass userId to only match
+ * feeds that user created.
+ * @throws If the query fails
+ */
+export async function getCalendarFeed(
+  supabase: SupabaseClient,
+  feedId: string,
+  userId?: string
+): Promise<CalendarFeed | null> {
+  let query = supabase
+    .from('calendar_feeds')
+    .select(FEED_COLUMNS)
+    .eq('id', feedId);
+
+  if (userId) {
+    query = query.eq('created_by', userId);
+  }
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Creates a feed with a fresh token. Feeds include every domain unless limited.
+ * @throws If the insert fails (including RLS rejecting a member outside the space)
+ */
+export async function createCalendarFeed(
+  supabase: SupabaseClient,
+  params: CreateCalendarFeedParams
+): Promise<CalendarFeed> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .insert({
+      space_id: params.space_id,
+      created_by: params.created_by,
+      member_id: params.member_id ?? null,
+      name: params.name,
+      domains: params.domains ?? CALENDAR_FEED_DOMAINS,
+      token: generateFeedToken(),
+    })
+    .select(FEED_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Renames a feed or changes which domains it includes. The URL stays the same.
+ * @throws If the update fails
+ */
+export async function updateCalendarFeed(
+  supabase: SupabaseClient,
+  feedId: string,
+  updates: UpdateCalendarFeedParams
+): Promise<CalendarFeed> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .update(updates)
+    .eq('id', feedId)
+    .select(FEED_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Revokes a feed so its URL stops working. Subscribers need a new feed URL.
+ * Its creator or a space admin can revoke a feed.
+ * @throws If the update fails
+ */
+export async function revokeCalendarFeed(supabase: SupabaseClient, feedId: string): Promise<void> {
+  const { error } = await supabase
+    .from('calendar_feeds')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', feedId);
+
+  if (error) throw error;
+}
+
+// =============================================================================
+// TOKEN ACCESS
+// =============================================================================
+
+/**
+ * Looks up an active feed by token. Requires the admin client, since calendar
+ * apps fetch feeds without a session, so the lookup itself checks that the
+ * feed's creator, and its member when set, still belong to the space.
+ * @returns The feed, or null if the token is unknown or revoked, or someone it depends on left the space
+ * @throws If a query fails
+ */
+export async function getCalendarFeedByToken(
+  supabase: SupabaseClient,
+  token: string
+): Promise<CalendarFeed | null> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select(FEED_COLUMNS)
+    .eq('token', token)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const userIds = Array.from(new Set([data.created_by, data.member_id].filter((id): id is string => !!id)));
+  const { data: members, error: membersError } = await supabase
+    .from('space_members')
+    .select('user_id')
+    .eq('space_id', data.space_id)
+    .in('user_id', userIds);
+
+  if (membersError) throw membersError;
+  const memberIds = new Set((members || []).map((member: { user_id: string }) => member.user_id));
+  return userIds.every((id) => memberIds.has(id)) ? data : null;
+}
+
+/** Records that a feed was fetched. Failures are ignored. */
+export async function recordCalendarFeedAccess(supabase: SupabaseClient, feedId: string): Promise<void> {
+  await supabase
+    .from('calendar_feeds')
+    .update({ last_accessed_at: new Date().toISOString() })
+    .eq('id', feedId);
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+/** Aggregated service for managing tokenized calendar feed subscriptions. */
+export const calendarFeedService = {
+  generateFeedToken,
+  getFeedUrl,
+  listCalendarFeeds,
+  getCalendarFeed,
+  createCalendarFeed,
+  updateCalendarFeed,
+  revokeCalendarFeed,
+  getCalendarFeedByToken,
+  recordCalendarFeedAccess,
+};
@@ -7,6 +7,11 @@ import type {
   ParsedICalEvent,
   ExternalEventSnapshot,
 } from '@/lib/types/calendar-integration';
+import {
+  formatRecurrence,
+  parseStoredRecurrence,
+  resolveRecurrenceDates,
+} from '@/lib/services/recurrence';
 
 // =============================================================================
 // ROWAN → GOOGLE CALENDAR
@@ -34,7 +39,7 @@ export function mapRowanToGoogle(event: RowanEventSnapshot): Partial<GoogleCalen
         },
     colorId: mapRowanColorToGoogleColor(event.custom_color),
     recurrence: event.recurrence_pattern
-      ? [`RRULE:${mapRowanRecurrenceToRRule(event.recurrence_pattern)}`]
+      ? mapRowanRecurrenceToICal(event)
       : undefined,
   };
 }
@@ -63,8 +68,9 @@ export function mapGoogleToRowan(
     status: mapGoogleStatusToRowan(event.status),
     category: null, // Google doesn't have categories
     custom_color: mapGoogleColorToRowanColor(event.colorId),
-    recurrence_pattern: event.recurrence
-      ? mapRRuleToRowanRecurrence(event.recurrence[0])
+    // Stored verbatim (RRULE, RDATE and EXDATE lines) so the series round-trips
+    recurrence_pattern: event.recurrence?.length
+      ? event.recurrence.join('\n')
       : null,
     is_recurring: event.recurrence ? true : false,
     event_type: 'calendar',
@@ -115,7 +121,7 @@ export function mapRowanToICalendar(event: RowanEventSnapshot): string {
   }
 
   if (event.recurrence_pattern) {
-    lines.push(`RRULE:${mapRowanRecurrenceToRRule(event.recurrence_pattern)}`);
+    lines.push(...mapRowanRecurrenceToICal(event));
   }
 
   lines.push(
@@ -153,7 +159,7 @@ export function mapICalendarToRowan(
     category: null,
     custom_color: null,
     recurrence_pattern: event.rrule
-      ? mapRRuleToRowanRecurrence(event.rrule)
+      ? [`RRULE:${event.rrule}`, ...(event.rdate ?? []), ...(event.exdate ?? [])].join('\n')
       : null,
   };
 }
@@ -373,69 +379,29 @@ function mapICalPartStatToResponseStatus(
 // HELPER FUNCTIONS: RECURRENCE
 // =============================================================================
 
-function mapRowanRecurrenceToRRule(pattern: string): string {
-  // Convert Rowan patterns to iCalendar RRULE format
-  const lowerPattern = pattern.toLowerCase();
-
-  // Handle day-specific patterns like "weekly:5" (5 = Friday)
-  if (lowerPattern.startsWith('weekly:')) {
-    const dayNum = parseInt(lowerPattern.split(':')[1], 10);
-    const dayMap: Record<number, string> = {
-      0: 'SU', 1: 'MO', 2: 'TU', 3: 'WE', 4: 'TH', 5: 'FR', 6: 'SA'
-    };
-    const byDay = dayMap[dayNum] || 'MO';
-    return `FREQ=WEEKLY;BYDAY=${byDay}`;
-  }
-
-  switch (lowerPattern) {
-    case 'daily':
-      return 'FREQ=DAILY';
-    case 'weekly':
-      return 'FREQ=WEEKLY';
-    case 'biweekly':
-      return 'FREQ=WEEKLY;INTERVAL=2';
-    case 'monthly':
-      return 'FREQ=MONTHLY';
-    case 'yearly':
-      return 'FREQ=YEARLY';
-    default:
-      // Already RRULE format or unknown - pass through
-      if (lowerPattern.startsWith('freq=')) {
-        return pattern.toUpperCase();
-      }
-      return 'FREQ=WEEKLY'; // Safe fallback
+/**
+ * Converts a stored Rowan recurrence (legacy pattern or iCalendar lines) to
+ * RRULE/RDATE/EXDATE content lines. Unreadable patterns export no recurrence.
+ */
+function mapRowanRecurrenceToICal(event: RowanEventSnapshot): string[] {
+  try {
+    const recurrence = parseStoredRecurrence(event.recurrence_pattern, { tzid: event.timezone || 'UTC' });
+    if (!recurrence) return [];
+
+    const startTime = event.start_time || '';
+    const allDay = !!event.all_day || !startTime.includes('T');
+    const dtstart = new Date(startTime);
+
+    return formatRecurrence(
+      isNaN(dtstart.getTime())
+        ? recurrence
+        : resolveRecurrenceDates({ ...recurrence, dtstart, allDay })
+    );
+  } catch {
+    return [];
   }
 }
 
-function mapRRuleToRowanRecurrence(rrule: string): string {
-  // Parse RRULE and convert to Rowan pattern
-  const freqMatch = rrule.match(/FREQ=(\w+)/);
-  const intervalMatch = rrule.match(/INTERVAL=(\d+)/);
-  const byDayMatch = rrule.match(/BYDAY=(\w+)/);
-
-  if (!freqMatch) return 'daily';
-
-  const freq = freqMatch[1].toLowerCase();
-  const interval = intervalMatch ? parseInt(intervalMatch[1], 10) : 1;
-
-  if (freq === 'weekly' && interval === 2) {
-    return 'biweekly';
-  }
-
-  // Handle weekly with specific day
-  if (freq === 'weekly' && byDayMatch) {
-    const dayMap: Record<string, number> = {
-      'SU': 0, 'MO': 1, 'TU': 2, 'WE': 3, 'TH': 4, 'FR': 5, 'SA': 6
-    };
-    const dayNum = dayMap[byDayMatch[1].toUpperCase()];
-    if (dayNum !== undefined) {
-      return `weekly:${dayNum}`;
-    }
-  }
-
-  return freq;
-}
-
 // =============================================================================
 // HELPER FUNCTIONS: TEXT ESCAPING
 // =============================================================================
@@ -0,0 +1,379 @@
+// ICS Export Service
+// Renders a space's events, chores, bill due dates and task due dates as an
+// iCalendar (RFC 5545) document for read-only webcal:// subscriptions
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CalendarFeed, CalendarFeedDomain } from '@/lib/types/calendar-integration';
+import type { UpcomingBill } from '@/lib/services/bill-calendar-service';
+import type { TaskDueDate } from '@/lib/services/task-calendar-service';
+import { getUpcomingBills } from '@/lib/services/bill-calendar-service';
+import { taskCalendarService } from '@/lib/services/task-calendar-service';
+import {
+  formatICalDateValue,
+  formatRecurrence,
+  frequencyToRule,
+  parseStoredRecurrence,
+  resolveRecurrenceDates,
+} from '@/lib/services/recurrence';
+import type { ParsedRecurrence } from '@/lib/services/recurrence';
+import { logger } from '@/lib/logger';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface FeedEventRecord {
+  id: string;
+  title: string;
+  description: string | null;
+  location: string | null;
+  start_time: string;
+  end_time: string | null;
+  timezone: string | null;
+  is_recurring: boolean | null;
+  recurrence_pattern: string | null;
+  updated_at: string | null;
+  is_all_day?: boolean | null;
+  ical_uid?: string | null;
+}
+
+export interface FeedChoreRecord {
+  id: string;
+  title: string;
+  description: string | null;
+  frequency: string;
+  recurrence_rule: string | null;
+  due_date: string | null;
+  updated_at: string | null;
+}
+
+export const CALENDAR_FEED_DOMAINS: CalendarFeedDomain[] = ['events', 'chores', 'bills', 'tasks'];
+
+/** How far back non-recurring events are included */
+const EVENT_HISTORY_DAYS = 90;
+
+/** How far ahead bill due dates are included */
+const BILL_DAYS_AHEAD = 365;
+
+/** Event types that are copies of chores, tasks and bills, exported from their own domains */
+export const DERIVED_EVENT_TYPES = ['task', 'chore', 'bill_due'];
+
+const ICAL_LINE_LIMIT = 75;
+
+// =============================================================================
+// ICALENDAR WRITING
+// =============================================================================
+
+/** Escapes TEXT property values (RFC 5545 §3.3.11). */
+export function escapeICalText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line to at most 75 octets per physical line (RFC 5545 §3.1),
+ * never splitting a multi-byte character.
+ */
+export function foldICalLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= ICAL_LINE_LIMIT) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? ICAL_LINE_LIMIT : ICAL_LINE_LIMIT - 1;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/** Wraps VEVENT blocks in a VCALENDAR with the given display name. */
+export function buildICalendar(name: string, vevents: string[][]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Rowan App//Calendar Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(name)}`,
+    'X-PUBLISHED-TTL:PT1H',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    ...vevents.flat(),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldICalLine).join('\r\n') + '\r\n';
+}
+
+function toDateKey(value: string): string {
+  return value.substring(0, 10);
+}
+
+function veventHeader(uid: string, dtstamp: Date, updatedAt: string | null | undefined): string[] {
+  const lines = ['BEGIN:VEVENT', `UID:${uid}`, `DTSTAMP:${formatICalDateValue(dtstamp)}`];
+  const lastModified = updatedAt ? new Date(updatedAt) : null;
+  if (lastModified && !isNaN(lastModified.getTime())) {
+    lines.push(`LAST-MODIFIED:${formatICalDateValue(lastModified)}`);
+  }
+  return lines;
+}
+
+function textLines(fields: Record<string, string | null | undefined>): string[] {
+  return Object.entries(fields)
+    .filter(([, value]) => !!value)
+    .map(([name, value]) => `${name}:${escapeICalText(value as string)}`);
+}
+
+function safeParseRecurrence(value: string | null | undefined, tzid?: string | null): ParsedRecurrence | null {
+  try {
+    return parseStoredRecurrence(value, { tzid });
+  } catch {
+    return null;
+  }
+}
+
+// =============================================================================
+// ROWAN → VEVENT
+// =============================================================================
+
+/**
+ * Maps a calendar event to a VEVENT, keeping its timezone and recurrence
+ * (RRULE, RDATE and EXDATE) so subscribers see the same series as Rowan.
+ */
+export function mapEventToVEvent(event: FeedEventRecord, dtstamp: Date): string[] | null {
+  const start = new Date(event.start_time);
+  if (isNaN(start.getTime())) return null;
+
+  const allDay = !!event.is_all_day;
+  const tzid = !allDay && event.timezone && event.timezone !== 'UTC' ? event.timezone : null;
+  const recurrence = event.is_recurring
+    ? safeParseRecurrence(event.recurrence_pattern, event.timezone || 'UTC')
+    : null;
+  const series = resolveRecurrenceDates({
+    ...recurrence,
+    dtstart: allDay ? new Date(`${toDateKey(start.toISOString())}T00:00:00Z`) : start,
+    tzid,
+    allDay,
+  });
+
+  const parsedEnd = event.end_time ? new Date(event.end_time) : null;
+  const end = parsedEnd && !isNaN(parsedEnd.getTime()) && parsedEnd > start ? parsedEnd : null;
+  let dtend: string | null;
+  if (allDay) {
+    // All-day DTEND is exclusive; without one the event lasts a single day
+    dtend = end ? `DTEND;VALUE=DATE:${formatICalDateValue(toDateKey(end.toISOString()))}` : null;
+  } else {
+    dtend = end
+      ? `DTEND${tzid ? `;TZID=${tzid}` : ''}:${formatICalDateValue(end, { tzid })}`
+      : 'DURATION:PT1H';
+  }
+
+  return [
+    ...veventHeader(event.ical_uid || `event-${event.id}@rowan.app`, dtstamp, event.updated_at),
+    ...formatRecurrence(series, { includeDtstart: true }),
+    ...(dtend ? [dtend] : []),
+    ...textLines({
+      SUMMARY: event.title,
+      DESCRIPTION: event.description,
+      LOCATION: event.location,
+    }),
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Maps a chore to an all-day VEVENT on its due date, repeating by its
+ * recurrence rule or, failing that, its frequency.
+ */
+export function mapChoreToVEvent(chore: FeedChoreRecord, dtstamp: Date): string[] | null {
+  if (!chore.due_date) return null;
+
+  const recurrence = safeParseRecurrence(chore.recurrence_rule);
+  const series = {
+    ...recurrence,
+    dtstart: new Date(`${toDateKey(chore.due_date)}T00:00:00Z`),
+    allDay: true,
+    rrule: recurrence?.rrule ?? frequencyToRule(chore.frequency),
+  };
+
+  return [
+    ...veventHeader(`chore-${chore.id}@rowan.app`, dtstamp, chore.updated_at),
+    ...formatRecurrence(series, { includeDtstart: true }),
+    ...textLines({
+      SUMMARY: `🧹 ${chore.title}`,
+      DESCRIPTION: chore.description,
+    }),
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+/** Maps an upcoming bill to an all-day VEVENT on its due date. */
+export function mapBillToVEvent(bill: UpcomingBill, dtstamp: Date): string[] {
+  const details = [
+    `Amount: ${Number(bill.amount).toFixed(2)}`,
+    bill.category ? `Category: ${bill.category}` : null,
+    bill.payment_method ? `Payment Method: ${bill.payment_method}` : null,
+  ].filter(Boolean).join('\n');
+
+  return [
+    ...veventHeader(`bill-${bill.event_id}@rowan.app`, dtstamp, null),
+    `DTSTART;VALUE=DATE:${formatICalDateValue(toDateKey(bill.due_date))}`,
+    ...textLines({
+      SUMMARY: bill.title,
+      DESCRIPTION: details,
+    }),
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Maps a task due date to a VEVENT: all-day for date-only due dates,
+ * otherwise an hour-long event at the due time.
+ */
+export function mapTaskToVEvent(task: TaskDueDate, dtstamp: Date): string[] | null {
+  const hasTime = task.due_date.includes('T');
+  const due = new Date(hasTime ? task.due_date : `${toDateKey(task.due_date)}T00:00:00Z`);
+  if (isNaN(due.getTime())) return null;
+
+  const timing = hasTime
+    ? [`DTSTART:${formatICalDateValue(due)}`, 'DURATION:PT1H']
+    : [`DTSTART;VALUE=DATE:${formatICalDateValue(toDateKey(task.due_date))}`];
+
+  return [
+    ...veventHeader(`task-${task.id}@rowan.app`, dtstamp, task.updated_at),
+    ...timing,
+    ...textLines({
+      SUMMARY: `📋 ${task.title}`,
+      DESCRIPTION: task.description,
+    }),
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+// =============================================================================
+// DOMAIN QUERIES
+// =============================================================================
+
+async function getFeedEvents(
+  supabase: SupabaseClient,
+  feed: CalendarFeed,
+  now: Date
+): Promise<FeedEventRecord[]> {
+  const historyStart = new Date(now.getTime() - EVENT_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+
+  let query = supabase
+    .from('events')
+    .select('id, title, description, location, start_time, end_time, timezone, is_recurring, recurrence_pattern, updated_at, is_all_day, ical_uid')
+    .eq('space_id', feed.space_id)
+    .is('deleted_at', null)
+    .or(`event_type.is.null,event_type.not.in.(${DERIVED_EVENT_TYPES.join(',')})`)
+    .or(`is_recurring.eq.true,start_time.gte.${historyStart.toISOString()}`);
+
+  // Member feeds keep shared (unassigned) events alongside the member's own
+  if (feed.member_id) {
+    query = query.or(`assigned_to.eq.${feed.member_id},assigned_to.is.null`);
+  }
+
+  const { data, error } = await query.order('start_time', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+async function getFeedChores(supabase: SupabaseClient, feed: CalendarFeed): Promise<FeedChoreRecord[]> {
+  let query = supabase
+    .from('chores')
+    .select('id, title, description, frequency, recurrence_rule, due_date, updated_at')
+    .eq('space_id', feed.space_id)
+    .not('due_date', 'is', null)
+    // Finished one-off chores drop out; recurring chores keep their series
+    .or('status.neq.completed,frequency.neq.once');
+
+  if (feed.member_id) {
+    query = query.eq('assigned_to', feed.member_id);
+  }
+
+  const { data, error } = await query.order('due_date', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+// =============================================================================
+// FEED RENDERING
+// =============================================================================
+
+/**
+ * Renders a calendar feed as an iCalendar document.
+ * Member feeds include only chores and tasks assigned to the member, plus events
+ * assigned to them or to nobody; bills have no assignee and are always space-wide.
+ * @param feed - The feed whose space, member and domains to render
+ * @param supabase - A client able to read the space (the admin client for token access)
+ * @param now - Generation time, used for DTSTAMP and the event history window
+ * @returns The VCALENDAR text
+ * @throws If any domain query fails
+ */
+export async function renderCalendarFeed(
+  feed: CalendarFeed,
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<string> {
+  const domains = new Set(feed.domains);
+
+  const [events, chores, bills, tasks] = await Promise.all([
+    domains.has('events') ? getFeedEvents(supabase, feed, now) : [],
+    domains.has('chores') ? getFeedChores(supabase, feed) : [],
+    domains.has('bills') ? getUpcomingBills(feed.space_id, BILL_DAYS_AHEAD, supabase) : [],
+    domains.has('tasks')
+      ? taskCalendarService.getTaskDueDates(feed.space_id, { assignedTo: feed.member_id }, supabase)
+      : [],
+  ]);
+
+  const vevents = [
+    ...events.map((event) => mapEventToVEvent(event, now)),
+    ...chores.map((chore) => mapChoreToVEvent(chore, now)),
+    ...bills.map((bill) => mapBillToVEvent(bill, now)),
+    ...tasks.map((task) => mapTaskToVEvent(task, now)),
+  ].filter((vevent): vevent is string[] => vevent !== null);
+
+  logger.info('Rendered calendar feed', {
+    component: 'ics-export-service',
+    action: 'render_feed',
+    feedId: feed.id,
+    eventCount: vevents.length,
+  });
+
+  return buildICalendar(feed.name, vevents);
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+/** Aggregated service for rendering Rowan data as iCalendar feeds. */
+export const icsExportService = {
+  renderCalendarFeed,
+  buildICalendar,
+  mapEventToVEvent,
+  mapChoreToVEvent,
+  mapBillToVEvent,
+  mapTaskToVEvent,
+  escapeICalText,
+  foldICalLine,
+};
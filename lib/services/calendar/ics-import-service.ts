@@ -5,6 +5,7 @@ import { createClient } from '@/lib/supabase/server';
 import type { ICSFeedConfig, SyncResult } from '@/lib/types/calendar-integration';
 import ICAL from 'ical.js';
 import { logger } from '@/lib/logger';
+import { isPrivateOrReservedHost } from '@/lib/security/ssrf';
 
 /**
  * ICS Import Service
@@ -28,7 +29,8 @@ interface ParsedICSEvent {
   start: Date;
   end: Date;
   isAllDay: boolean;
-  recurrence?: string;
+  recurrence?: string; // RRULE/RDATE/EXDATE content lines
+  timezone?: string; // TZID of DTSTART
   lastModified?: Date;
 }
 
@@ -41,83 +43,6 @@ interface ICSFetchResult {
   error?: string;
 }
 
-/**
- * SSRF Protection: Check if hostname is a private/internal IP
- * Blocks RFC1918 (private), link-local, loopback, and cloud metadata endpoints
- */
-function isPrivateOrReservedHost(hostname: string): boolean {
-  // Check for common metadata endpoints (AWS, GCP, Azure, etc.)
-  const metadataHosts = [
-    '169.254.169.254',     // AWS/GCP metadata
-    'metadata.google.internal',
-    'metadata.goog',
-    '100.100.100.200',     // Alibaba Cloud metadata
-    'fd00:ec2::254',       // AWS IPv6 metadata
-  ];
-  if (metadataHosts.includes(hostname.toLowerCase())) {
-    return true;
-  }
-
-  // Check for localhost variations
-  if (hostname === 'localhost' ||
-      hostname === '127.0.0.1' ||
-      hostname === '::1' ||
-      hostname.endsWith('.localhost') ||
-      hostname === '0.0.0.0') {
-    return true;
-  }
-
-  // Check for IP address patterns
-  const ipv4Match = hostname.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
-  if (ipv4Match) {
-    const octets = ipv4Match.slice(1).map(Number);
-    const [a, b, c, d] = octets;
-
-    // Validate octets are in range
-    if (octets.some(o => o > 255)) return true;
-
-    // RFC1918 Private ranges
-    if (a === 10) return true;                           // 10.0.0.0/8
-    if (a === 172 && b >= 16 && b <= 31) return true;    // 172.16.0.0/12
-    if (a === 192 && b === 168) return true;             // 192.168.0.0/16
-
-    // Loopback (127.0.0.0/8)
-    if (a === 127) return true;
-
-    // Link-local (169.254.0.0/16)
-    if (a === 169 && b === 254) return true;
-
-    // CGNAT (100.64.0.0/10)
-    if (a === 100 && b >= 64 && b <= 127) return true;
-
-    // Reserved (0.0.0.0/8)
-    if (a === 0) return true;
-
-    // Documentation ranges (shouldn't be used but block anyway)
-    if (a === 192 && b === 0 && c === 2) return true;    // 192.0.2.0/24
-    if (a === 198 && b === 51 && c === 100) return true; // 198.51.100.0/24
-    if (a === 203 && b === 0 && c === 113) return true;  // 203.0.113.0/24
-
-    // Broadcast
-    if (a === 255 && b === 255 && c === 255 && d === 255) return true;
-  }
-
-  // Block internal domain patterns
-  const internalPatterns = [
-    /\.internal$/i,
-    /\.local$/i,
-    /\.corp$/i,
-    /\.home$/i,
-    /\.lan$/i,
-    /\.intranet$/i,
-  ];
-  if (internalPatterns.some(p => p.test(hostname))) {
-    return true;
-  }
-
-  return false;
-}
-
 /**
  * Validate an ICS feed URL
  * SECURITY: Includes SSRF protection to block private/internal targets
@@ -276,9 +201,12 @@ function parseICSData(icsData: string): ParsedICSEvent[] {
           }
         }
 
-        // Get recurrence rule if present
-        const rruleProp = vevent.getFirstProperty('rrule');
-        const recurrence = rruleProp ? String(rruleProp.getFirstValue()) : undefined;
+        // Keep RRULE/RDATE/EXDATE lines verbatim so the series round-trips without loss
+        const recurrenceLines = ['rrule', 'rdate', 'exdate'].flatMap((name) =>
+          vevent.getAllProperties(name).map((prop) => prop.toICALString())
+        );
+        const recurrence = recurrenceLines.length > 0 ? recurrenceLines.join('\n') : undefined;
+        const tzid = vevent.getFirstProperty('dtstart')?.getParameter('tzid');
 
         events.push({
           uid: event.uid || `generated-${crypto.randomUUID()}`,
@@ -289,6 +217,7 @@ function parseICSData(icsData: string): ParsedICSEvent[] {
           end,
           isAllDay,
           recurrence,
+          timezone: typeof tzid === 'string' ? tzid : undefined,
           lastModified,
         });
       } catch (eventError) {
@@ -402,6 +331,9 @@ async function syncICSFeed(
             start_time: icsEvent.start.toISOString(),
             end_time: icsEvent.end.toISOString(),
             is_all_day: icsEvent.isAllDay,
+            is_recurring: !!icsEvent.recurrence,
+            recurrence_pattern: icsEvent.recurrence ?? null,
+            timezone: icsEvent.timezone ?? null,
             updated_at: new Date().toISOString(),
           })
           .eq('id', existingMapping.rowan_event_id);
@@ -421,6 +353,9 @@ async function syncICSFeed(
             start_time: icsEvent.start.toISOString(),
             end_time: icsEvent.end.toISOString(),
             is_all_day: icsEvent.isAllDay,
+            is_recurring: !!icsEvent.recurrence,
+            recurrence_pattern: icsEvent.recurrence ?? null,
+            timezone: icsEvent.timezone ?? null,
             source: 'ics_import',
             created_by: connection.user_id,
           })
@@ -592,6 +527,9 @@ async function importICSFile(
         start_time: event.start.toISOString(),
         end_time: event.end.toISOString(),
         is_all_day: event.isAllDay,
+        is_recurring: !!event.recurrence,
+        recurrence_pattern: event.recurrence ?? null,
+        timezone: event.timezone ?? null,
         source: 'ics_file_import',
         created_by: userId,
         // Store file name in metadata for reference
@@ -5,6 +5,8 @@ export { googleCalendarService } from './google-calendar-service';
 export { appleCalDAVService } from './apple-caldav-service';
 export { outlookCalendarService } from './outlook-calendar-service';
 export { icsImportService } from './ics-import-service';
+export { icsExportService } from './ics-export-service';
+export { calendarFeedService } from './calendar-feed-service';
 export { eventMapper } from './event-mapper';
 export { calendarSyncService } from './calendar-sync-service';
 
@@ -46,4 +48,6 @@ export type {
   ExternalEventSnapshot,
   TokenRefreshResult,
   WebhookRegistration,
+  CalendarFeed,
+  CalendarFeedDomain,
 } from '@/lib/types/calendar-integration';
@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/client';
 import { addDays } from 'date-fns';
+import { expandRecurrence, frequencyToRule, nextOccurrence, parseStoredRecurrence } from './recurrence';
 
 type ChoreRecord = {
   id: string;
@@ -8,6 +9,7 @@ type ChoreRecord = {
   title: string;
   description?: string | null;
   frequency: string;
+  recurrence_rule?: string | null;
   assigned_to?: string | null;
   created_by?: string | null;
 };
@@ -39,7 +41,7 @@ export const choreCalendarService = {
    */
   async syncChoreToCalendar(choreId: string): Promise<Record<string, unknown>[] | null> {
     const supabase = createClient();
-    const { data: chore } = await supabase.from('chores').select('id, space_id, title, description, frequency, assigned_to, status, due_date, completed_at, notes, created_by, created_at, updated_at, sort_order, calendar_sync, category, point_value').eq('id', choreId).single();
+    const { data: chore } = await supabase.from('chores').select('id, space_id, title, description, frequency, recurrence_rule, assigned_to, status, due_date, completed_at, notes, created_by, created_at, updated_at, sort_order, calendar_sync, category, point_value').eq('id', choreId).single();
 
     if (!chore || !chore.due_date) return null;
 
@@ -93,71 +95,51 @@ export const choreCalendarService = {
   },
 
   /**
-   * Generate recurring events for a chore based on its frequency
+   * Generate recurring events for a chore based on its recurrence rule or frequency
    */
   generateChoreEvents(chore: ChoreRecord, monthsAhead: number = 3): CalendarEventInsert[] {
-    const events: CalendarEventInsert[] = [];
-    if (!chore.due_date) return events; // No due date, no events to generate
+    if (!chore.due_date) return []; // No due date, no events to generate
     const startDate = new Date(chore.due_date);
     const endDate = addDays(startDate, monthsAhead * 30); // Generate events for next 3 months
 
-    let currentDate = new Date(startDate);
-
-    while (currentDate <= endDate) {
-      // Create calendar event for this occurrence
-      const event: CalendarEventInsert = {
-        space_id: chore.space_id,
-        title: `🧹 ${chore.title}`,
-        description: chore.description,
-        event_type: 'chore',
-        start_time: currentDate.toISOString(),
-        end_time: addDays(currentDate, 0).setHours(23, 59, 59).toString(),
-        category: 'personal',
-        status: 'not-started',
-        assigned_to: chore.assigned_to,
-        created_by: chore.created_by,
-        is_recurring: chore.frequency !== 'once',
-      };
-
-      events.push(event);
-
-      // Calculate next occurrence based on frequency
-      currentDate = this.getNextOccurrence(currentDate, chore.frequency);
-
-      // Break if frequency is 'once' or if we've hit our limit
-      if (chore.frequency === 'once' || events.length >= 100) break;
-    }
-
-    return events;
+    const recurrence = chore.recurrence_rule ? parseStoredRecurrence(chore.recurrence_rule) : null;
+    const occurrences = expandRecurrence(
+      {
+        ...recurrence,
+        dtstart: startDate,
+        rrule: recurrence?.rrule ?? frequencyToRule(chore.frequency),
+      },
+      { before: endDate, limit: 100 }
+    );
+
+    // Create calendar event for each occurrence
+    return occurrences.map((currentDate) => ({
+      space_id: chore.space_id,
+      title: `🧹 ${chore.title}`,
+      description: chore.description,
+      event_type: 'chore',
+      start_time: currentDate.toISOString(),
+      end_time: addDays(currentDate, 0).setHours(23, 59, 59).toString(),
+      category: 'personal',
+      status: 'not-started',
+      assigned_to: chore.assigned_to,
+      created_by: chore.created_by,
+      is_recurring: chore.frequency !== 'once',
+    }));
   },
 
   /**
    * Calculate next occurrence based on frequency
    */
   getNextOccurrence(currentDate: Date, frequency: string): Date {
-    const nextDate = new Date(currentDate);
-
-    switch (frequency) {
-      case 'daily':
-        nextDate.setDate(nextDate.getDate() + 1);
-        break;
-      case 'weekly':
-        nextDate.setDate(nextDate.getDate() + 7);
-        break;
-      case 'biweekly':
-        nextDate.setDate(nextDate.getDate() + 14);
-        break;
-      case 'monthly':
-        nextDate.setMonth(nextDate.getMonth() + 1);
-        break;
-      case 'once':
-      default:
-        // For 'once', return a date far in the future to break the loop
-        nextDate.setFullYear(nextDate.getFullYear() + 10);
-        break;
-    }
-
-    return nextDate;
+    const rrule = frequencyToRule(frequency);
+    const next = rrule ? nextOccurrence({ dtstart: currentDate, rrule }, currentDate) : null;
+    if (next) return next;
+
+    // For 'once', return a date far in the future to break the loop
+    const farFuture = new Date(currentDate);
+    farFuture.setFullYear(farFuture.getFullYear() + 10);
+    return farFuture;
   },
 
   /**
@@ -1,4 +1,5 @@
 import { createClient } from '@/lib/supabase/client';
+import { frequencyToRule, nextOccurrence } from './recurrence';
 
 type ChoreRotation = {
   id: string;
@@ -19,14 +20,14 @@ type ChoreRotationUpdate = Partial<Omit<ChoreRotation, 'id' | 'created_at' | 'up
  * Chore Rotation Service
  *
  * Manages automated chore rotations between household members.
- * Supports different rotation frequencies (daily, weekly, biweekly) and rotation types.
+ * Supports different rotation frequencies (daily, weekly, biweekly, monthly) and rotation types.
  */
 export const choreRotationService = {
   /**
    * Creates a new rotation schedule for a chore.
    * @param choreId - The chore identifier to create a rotation for
    * @param userIds - Array of user IDs in rotation order
-   * @param frequency - Rotation frequency (daily, weekly, biweekly)
+   * @param frequency - Rotation frequency (daily, weekly, biweekly, monthly)
    * @param rotationType - Type of rotation schedule
    * @param createdBy - User ID of the creator
    * @returns The newly created rotation schedule
@@ -34,15 +35,17 @@ export const choreRotationService = {
    *
    * Creates a rotation schedule for a chore.
    *
-   * Algorithm: Calculate next rotation date based on frequency.
-   * - daily: +1 day, weekly: +7 days, biweekly/other: +14 days
+   * Algorithm: Calculate next rotation date with the shared recurrence engine.
+   * - daily: +1 day, weekly: +7 days, biweekly: +14 days, monthly: +1 month
+   * - unknown frequencies rotate biweekly
    * The user_order array determines who does the chore next (round-robin).
    */
   async createRotation(choreId: string, userIds: string[], frequency: string, rotationType: string, createdBy: string): Promise<ChoreRotation> {
     const supabase = createClient();
-    // Calculate next rotation: frequency determines days until first rotation
-    const nextDate = new Date();
-    nextDate.setDate(nextDate.getDate() + (frequency === 'daily' ? 1 : frequency === 'weekly' ? 7 : 14));
+    // Calculate next rotation: frequency determines the first rotation date
+    const now = new Date();
+    const rrule = frequencyToRule(frequency) ?? frequencyToRule('biweekly');
+    const nextDate = nextOccurrence({ dtstart: now, rrule }, now) ?? now;
 
     const { data, error } = await supabase.from('chore_rotations').insert({
       chore_id: choreId,
@@ -0,0 +1,198 @@
+// Chore Rotation Swap Service
+// Members of a rotation can ask each other to trade turns. The other member
+// approves or declines; the requester can cancel while the request is pending.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ChoreRotationSwapStatus = 'pending' | 'approved' | 'declined' | 'cancelled';
+
+export type ChoreRotationSwapAction = 'approve' | 'decline' | 'cancel';
+
+export interface ChoreRotationSwap {
+  id: string;
+  rotation_id: string;
+  requested_by: string;
+  requested_with: string;
+  status: ChoreRotationSwapStatus;
+  reason: string | null;
+  responded_at: string | null;
+  created_at: string;
+}
+
+/** A swap request that cannot be made or answered; `status` is the HTTP status to return. */
+export class ChoreRotationSwapError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'ChoreRotationSwapError';
+  }
+}
+
+const SWAP_COLUMNS = 'id, rotation_id, requested_by, requested_with, status, reason, responded_at, created_at';
+
+// SQLSTATEs raised by approve_chore_rotation_swap
+const RPC_ERROR_STATUS: Record<string, number> = {
+  P0002: 404,
+  '42501': 403,
+  P0001: 409,
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Exchanges the positions of two members in a rotation order. */
+export function swapRotationOrder(userOrder: string[], a: string, b: string): string[] {
+  const ia = userOrder.indexOf(a);
+  const ib = userOrder.indexOf(b);
+  if (ia === -1 || ib === -1) return [...userOrder];
+  const next = [...userOrder];
+  next[ia] = b;
+  next[ib] = a;
+  return next;
+}
+
+async function getRotationForChore(supabase: SupabaseClient, choreId: string) {
+  const { data, error } = await supabase
+    .from('chore_rotations')
+    .select('id, chore_id, user_order, last_assigned_to')
+    .eq('chore_id', choreId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new ChoreRotationSwapError('This chore has no rotation', 404);
+  return data as { id: string; chore_id: string; user_order: string[]; last_assigned_to: string | null };
+}
+
+// =============================================================================
+// SWAPS
+// =============================================================================
+
+/**
+ * Lists swap requests for a chore's rotation, newest first.
+ * @throws ChoreRotationSwapError (404) if the chore has no rotation
+ */
+export async function listSwaps(
+  supabase: SupabaseClient,
+  choreId: string,
+  status?: ChoreRotationSwapStatus
+): Promise<ChoreRotationSwap[]> {
+  const rotation = await getRotationForChore(supabase, choreId);
+  let query = supabase
+    .from('chore_rotation_swaps')
+    .select(SWAP_COLUMNS)
+    .eq('rotation_id', rotation.id);
+  if (status) query = query.eq('status', status);
+  const { data, error } = await query.order('created_at', { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Asks another rotation member to trade turns.
+ * @throws ChoreRotationSwapError if either member is not in the rotation
+ * or the same request is already pending
+ */
+export async function requestSwap(
+  supabase: SupabaseClient,
+  params: { chore_id: string; requested_by: string; requested_with: string; reason?: string | null }
+): Promise<ChoreRotationSwap> {
+  if (params.requested_by === params.requested_with) {
+    throw new ChoreRotationSwapError('You cannot swap with yourself');
+  }
+
+  const rotation = await getRotationForChore(supabase, params.chore_id);
+  if (!rotation.user_order.includes(params.requested_by) || !rotation.user_order.includes(params.requested_with)) {
+    throw new ChoreRotationSwapError('Both members must be part of the rotation');
+  }
+
+  const { data, error } = await supabase
+    .from('chore_rotation_swaps')
+    .insert({
+      rotation_id: rotation.id,
+      requested_by: params.requested_by,
+      requested_with: params.requested_with,
+      reason: params.reason ?? null,
+    })
+    .select(SWAP_COLUMNS)
+    .single();
+  if (error) {
+    if (error.code === '23505') {
+      throw new ChoreRotationSwapError('A swap request with this member is already pending', 409);
+    }
+    throw error;
+  }
+  return data;
+}
+
+/**
+ * Answers a pending swap request.
+ *
+ * Only the requested member can approve or decline; only the requester can
+ * cancel. Approving exchanges the two members' places in the rotation order,
+ * and if either of them holds the current turn it moves to the other; this
+ * happens in one transaction (approve_chore_rotation_swap).
+ * @throws ChoreRotationSwapError if the swap is missing, already answered,
+ * or the caller may not take this action
+ */
+export async function respondToSwap(
+  supabase: SupabaseClient,
+  params: { chore_id: string; swap_id: string; user_id: string; action: ChoreRotationSwapAction }
+): Promise<ChoreRotationSwap> {
+  const rotation = await getRotationForChore(supabase, params.chore_id);
+
+  const { data: swap, error: swapError } = await supabase
+    .from('chore_rotation_swaps')
+    .select(SWAP_COLUMNS)
+    .eq('id', params.swap_id)
+    .eq('rotation_id', rotation.id)
+    .maybeSingle();
+  if (swapError) throw swapError;
+  if (!swap) throw new ChoreRotationSwapError('Swap request not found', 404);
+  if (swap.status !== 'pending') {
+    throw new ChoreRotationSwapError(`Swap request is already ${swap.status}`, 409);
+  }
+
+  const allowedUser = params.action === 'cancel' ? swap.requested_by : swap.requested_with;
+  if (params.user_id !== allowedUser) {
+    throw new ChoreRotationSwapError(
+      params.action === 'cancel' ? 'Only the requester can cancel a swap' : 'Only the requested member can respond to a swap',
+      403
+    );
+  }
+
+  if (params.action === 'approve') {
+    const { data, error } = await supabase.rpc('approve_chore_rotation_swap', { p_swap_id: swap.id });
+    if (error) {
+      const status = error.code ? RPC_ERROR_STATUS[error.code] : undefined;
+      if (status) throw new ChoreRotationSwapError(error.message, status);
+      throw error;
+    }
+    return data as ChoreRotationSwap;
+  }
+
+  // Only a pending request can be answered, so a concurrent response wins once
+  const { data: updated, error: updateError } = await supabase
+    .from('chore_rotation_swaps')
+    .update({
+      status: params.action === 'decline' ? 'declined' : 'cancelled',
+      responded_at: new Date().toISOString(),
+    })
+    .eq('id', swap.id)
+    .eq('status', 'pending')
+    .select(SWAP_COLUMNS)
+    .maybeSingle();
+  if (updateError) throw updateError;
+  if (!updated) throw new ChoreRotationSwapError('Swap request was already answered', 409);
+
+  return updated;
+}
+
+export const choreRotationSwapService = {
+  swapRotationOrder,
+  listSwaps,
+  requestSwap,
+  respondToSwap,
+};
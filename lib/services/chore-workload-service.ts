@@ -0,0 +1,460 @@
+// Chore Workload Service
+// Balanced chore rotations: hands the next turn to the available member with
+// the least accumulated effort instead of stepping through user_order.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/lib/logger';
+import { frequencyToRule, nextOccurrence } from './recurrence';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Effort inputs stored on a chore. */
+export interface ChoreEffortInput {
+  effort_weight?: number | null;
+  estimated_minutes?: number | null;
+}
+
+/** A member's accumulated workload over the lookback window. */
+export interface MemberWorkload {
+  userId: string;
+  /** Effort of chores the member completed */
+  completedEffort: number;
+  /** Effort of turns the member was penalized for (late or never done) */
+  missedEffort: number;
+  /** Chore points earned */
+  pointsEarned: number;
+  completedCount: number;
+  missedCount: number;
+  /** completedEffort - missedEffort; the lowest score goes next */
+  score: number;
+}
+
+/** A vacation range or away event that makes a member unavailable. */
+export interface MemberUnavailability {
+  id: string;
+  space_id: string;
+  user_id: string;
+  starts_on: string;
+  ends_on: string;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface BalancedRotation {
+  id: string;
+  chore_id: string;
+  user_order: string[];
+  rotation_frequency: string;
+  last_assigned_to?: string | null;
+}
+
+export interface BalancedPick {
+  userId: string;
+  /** False when every member was unavailable and the lowest score was used anyway */
+  available: boolean;
+}
+
+export interface BalancedRotationResult {
+  rotationId: string;
+  assignedTo: string | null;
+  nextRotationDate: string;
+}
+
+/** Minutes assumed for chores without an estimate */
+export const DEFAULT_CHORE_MINUTES = 30;
+
+/** Default window for accumulated effort */
+export const DEFAULT_WORKLOAD_LOOKBACK_DAYS = 28;
+
+// =============================================================================
+// SCORING
+// =============================================================================
+
+/**
+ * Effort units for one turn of a chore: weight (1-5) times duration in
+ * half-hour blocks, so a 30 minute chore of weight 1 is worth 1.
+ */
+export function choreEffort(chore: ChoreEffortInput | null | undefined): number {
+  const weight = Math.min(5, Math.max(1, chore?.effort_weight ?? 1));
+  const minutes = chore?.estimated_minutes && chore.estimated_minutes > 0
+    ? chore.estimated_minutes
+    : DEFAULT_CHORE_MINUTES;
+  return Math.round(weight * (minutes / DEFAULT_CHORE_MINUTES) * 100) / 100;
+}
+
+/** Whether a member has a vacation range covering the given YYYY-MM-DD date. */
+export function isMemberUnavailable(
+  userId: string,
+  date: string,
+  ranges: Pick<MemberUnavailability, 'user_id' | 'starts_on' | 'ends_on'>[]
+): boolean {
+  return ranges.some(r => r.user_id === userId && r.starts_on <= date && r.ends_on >= date);
+}
+
+/**
+ * Picks the next assignee for a balanced rotation.
+ *
+ * Algorithm:
+ * - Drop unavailable members; if nobody is left, consider everyone
+ * - Lowest workload score wins
+ * - Ties go to the member with fewer points, then to the next member in
+ *   user_order after the last assignee, so equal households still rotate
+ */
+export function pickBalancedAssignee(
+  userOrder: string[],
+  workloads: MemberWorkload[],
+  unavailable: Set<string>,
+  lastAssignedTo?: string | null
+): BalancedPick | null {
+  if (userOrder.length === 0) return null;
+
+  const available = userOrder.filter(id => !unavailable.has(id));
+  const candidates = available.length > 0 ? available : userOrder;
+  const byUser = new Map(workloads.map(w => [w.userId, w]));
+  const lastIndex = lastAssignedTo ? userOrder.indexOf(lastAssignedTo) : -1;
+  const distance = (id: string) =>
+    (userOrder.indexOf(id) - lastIndex - 1 + userOrder.length) % userOrder.length;
+
+  const [userId] = [...candidates].sort((a, b) => {
+    const wa = byUser.get(a);
+    const wb = byUser.get(b);
+    const scoreDiff = (wa?.score ?? 0) - (wb?.score ?? 0);
+    if (scoreDiff !== 0) return scoreDiff;
+    const pointsDiff = (wa?.pointsEarned ?? 0) - (wb?.pointsEarned ?? 0);
+    if (pointsDiff !== 0) return pointsDiff;
+    return distance(a) - distance(b);
+  });
+
+  return { userId, available: available.length > 0 };
+}
+
+// =============================================================================
+// LOADERS
+// =============================================================================
+
+function daysAgo(from: Date, days: number): string {
+  const since = new Date(from);
+  since.setUTCDate(since.getUTCDate() - days);
+  return since.toISOString();
+}
+
+/**
+ * Accumulated effort per member: completed chore turns (from the points
+ * ledger) minus turns that drew a late penalty that was not forgiven.
+ * @throws If any query fails
+ */
+export async function getMemberWorkloads(
+  supabase: SupabaseClient,
+  spaceId: string,
+  userIds: string[],
+  options: { lookbackDays?: number; now?: Date } = {}
+): Promise<MemberWorkload[]> {
+  if (userIds.length === 0) return [];
+  const since = daysAgo(options.now ?? new Date(), options.lookbackDays ?? DEFAULT_WORKLOAD_LOOKBACK_DAYS);
+
+  const [{ data: transactions, error: txError }, { data: penalties, error: penaltyError }] = await Promise.all([
+    supabase
+      .from('point_transactions')
+      .select('user_id, source_id, points')
+      .eq('space_id', spaceId)
+      .eq('source_type', 'chore')
+      .in('user_id', userIds)
+      .gte('created_at', since),
+    supabase
+      .from('late_penalties')
+      .select('user_id, chore_id')
+      .eq('space_id', spaceId)
+      .eq('is_forgiven', false)
+      .in('user_id', userIds)
+      .gte('created_at', since),
+  ]);
+  if (txError) throw txError;
+  if (penaltyError) throw penaltyError;
+
+  const earned = (transactions ?? []).filter(t => t.points > 0);
+  // Daily accrual writes one row per overdue day; a turn is missed once
+  const missedTurns = new Map<string, { user_id: string; chore_id: string }>();
+  for (const p of penalties ?? []) {
+    missedTurns.set(`${p.user_id}:${p.chore_id}`, p);
+  }
+
+  const choreIds = [...new Set([
+    ...earned.map(t => t.source_id).filter(Boolean),
+    ...[...missedTurns.values()].map(p => p.chore_id),
+  ])];
+  const effortByChore = new Map<string, number>();
+  if (choreIds.length > 0) {
+    const { data: chores, error: choresError } = await supabase
+      .from('chores')
+      .select('id, effort_weight, estimated_minutes')
+      .in('id', choreIds);
+    if (choresError) throw choresError;
+    for (const chore of chores ?? []) {
+      effortByChore.set(chore.id, choreEffort(chore));
+    }
+  }
+
+  const workloads = new Map<string, MemberWorkload>(userIds.map(userId => [userId, {
+    userId,
+    completedEffort: 0,
+    missedEffort: 0,
+    pointsEarned: 0,
+    completedCount: 0,
+    missedCount: 0,
+    score: 0,
+  }]));
+
+  // Bonus transactions share the chore's source_id; count one turn per chore
+  const completedTurns = new Set<string>();
+  for (const tx of earned) {
+    const workload = workloads.get(tx.user_id);
+    if (!workload) continue;
+    workload.pointsEarned += tx.points;
+    const turnKey = `${tx.user_id}:${tx.source_id}`;
+    if (completedTurns.has(turnKey)) continue;
+    completedTurns.add(turnKey);
+    workload.completedCount += 1;
+    workload.completedEffort += effortByChore.get(tx.source_id) ?? choreEffort(null);
+  }
+
+  for (const turn of missedTurns.values()) {
+    const workload = workloads.get(turn.user_id);
+    if (!workload) continue;
+    workload.missedCount += 1;
+    workload.missedEffort += effortByChore.get(turn.chore_id) ?? choreEffort(null);
+  }
+
+  return [...workloads.values()].map(w => ({
+    ...w,
+    completedEffort: Math.round(w.completedEffort * 100) / 100,
+    missedEffort: Math.round(w.missedEffort * 100) / 100,
+    score: Math.round((w.completedEffort - w.missedEffort) * 100) / 100,
+  }));
+}
+
+/**
+ * Members who are away on a date, from vacation ranges and calendar events
+ * marked as away (the assignee, or the creator when unassigned).
+ * @param date - YYYY-MM-DD
+ * @throws If any query fails
+ */
+export async function getUnavailableMembers(
+  supabase: SupabaseClient,
+  spaceId: string,
+  date: string
+): Promise<Set<string>> {
+  const dayStart = `${date}T00:00:00.000Z`;
+  const dayEnd = `${date}T23:59:59.999Z`;
+
+  const [{ data: ranges, error: rangeError }, { data: events, error: eventError }] = await Promise.all([
+    supabase
+      .from('member_unavailability')
+      .select('user_id, starts_on, ends_on')
+      .eq('space_id', spaceId)
+      .lte('starts_on', date)
+      .gte('ends_on', date),
+    supabase
+      .from('events')
+      .select('assigned_to, created_by, start_time, end_time')
+      .eq('space_id', spaceId)
+      .eq('is_away', true)
+      .is('deleted_at', null)
+      .lte('start_time', dayEnd),
+  ]);
+  if (rangeError) throw rangeError;
+  if (eventError) throw eventError;
+
+  const unavailable = new Set<string>();
+  for (const range of ranges ?? []) {
+    if (isMemberUnavailable(range.user_id, date, [range])) unavailable.add(range.user_id);
+  }
+  for (const event of events ?? []) {
+    const end = event.end_time ?? event.start_time;
+    if (end < dayStart) continue;
+    const userId = event.assigned_to ?? event.created_by;
+    if (userId) unavailable.add(userId);
+  }
+  return unavailable;
+}
+
+// =============================================================================
+// UNAVAILABILITY MANAGEMENT
+// =============================================================================
+
+const UNAVAILABILITY_COLUMNS = 'id, space_id, user_id, starts_on, ends_on, reason, created_at';
+
+/**
+ * Lists vacation ranges in a space that have not ended yet.
+ * @throws If the query fails
+ */
+export async function listUnavailability(
+  supabase: SupabaseClient,
+  spaceId: string,
+  fromDate: string = new Date().toISOString().split('T')[0]
+): Promise<MemberUnavailability[]> {
+  const { data, error } = await supabase
+    .from('member_unavailability')
+    .select(UNAVAILABILITY_COLUMNS)
+    .eq('space_id', spaceId)
+    .gte('ends_on', fromDate)
+    .order('starts_on', { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Records a vacation range for a member.
+ * @throws If the insert fails
+ */
+export async function addUnavailability(
+  supabase: SupabaseClient,
+  params: { space_id: string; user_id: string; starts_on: string; ends_on: string; reason?: string | null }
+): Promise<MemberUnavailability> {
+  const { data, error } = await supabase
+    .from('member_unavailability')
+    .insert({ ...params, reason: params.reason ?? null })
+    .select(UNAVAILABILITY_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Removes one of the member's own vacation ranges.
+ * @returns False when no matching range exists
+ * @throws If the delete fails
+ */
+export async function removeUnavailability(
+  supabase: SupabaseClient,
+  id: string,
+  userId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('member_unavailability')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+// =============================================================================
+// ROTATION PROCESSING
+// =============================================================================
+
+/**
+ * Suggests who should take the next turn of a balanced rotation on a date.
+ * @throws If the chore or any workload query fails
+ */
+export async function suggestNextAssignee(
+  supabase: SupabaseClient,
+  spaceId: string,
+  rotation: BalancedRotation,
+  date: string
+): Promise<{ pick: BalancedPick | null; workloads: MemberWorkload[]; unavailable: string[] }> {
+  const [workloads, unavailable] = await Promise.all([
+    getMemberWorkloads(supabase, spaceId, rotation.user_order, { now: new Date(`${date}T23:59:59.999Z`) }),
+    getUnavailableMembers(supabase, spaceId, date),
+  ]);
+  const pick = pickBalancedAssignee(rotation.user_order, workloads, unavailable, rotation.last_assigned_to);
+  return { pick, workloads, unavailable: rotation.user_order.filter(id => unavailable.has(id)) };
+}
+
+/**
+ * Assigns the next turn of a balanced rotation and schedules the following one.
+ * @param date - The turn date (YYYY-MM-DD)
+ * @throws If any query or update fails
+ */
+export async function processBalancedRotation(
+  supabase: SupabaseClient,
+  rotation: BalancedRotation,
+  date: string
+): Promise<BalancedRotationResult> {
+  const { data: chore, error: choreError } = await supabase
+    .from('chores')
+    .select('id, space_id')
+    .eq('id', rotation.chore_id)
+    .single();
+  if (choreError) throw choreError;
+
+  const { pick } = await suggestNextAssignee(supabase, chore.space_id, rotation, date);
+
+  const turnDate = new Date(`${date}T12:00:00.000Z`);
+  const rrule = frequencyToRule(rotation.rotation_frequency) ?? frequencyToRule('weekly');
+  const next = nextOccurrence({ dtstart: turnDate, rrule }, turnDate) ?? turnDate;
+  const nextRotationDate = next.toISOString().split('T')[0];
+
+  if (pick) {
+    const { error: assignError } = await supabase
+      .from('chores')
+      .update({ assigned_to: pick.userId })
+      .eq('id', rotation.chore_id);
+    if (assignError) throw assignError;
+  }
+
+  const { error: rotationError } = await supabase
+    .from('chore_rotations')
+    .update({
+      current_index: pick ? rotation.user_order.indexOf(pick.userId) : 0,
+      last_assigned_to: pick?.userId ?? null,
+      last_rotation_date: date,
+      next_rotation_date: nextRotationDate,
+    })
+    .eq('id', rotation.id);
+  if (rotationError) throw rotationError;
+
+  return { rotationId: rotation.id, assignedTo: pick?.userId ?? null, nextRotationDate };
+}
+
+/**
+ * Processes every active balanced rotation that is due. One failing rotation
+ * is logged and does not stop the rest.
+ * @returns Number of rotations processed and failed
+ * @throws If the due rotations cannot be loaded
+ */
+export async function processDueBalancedRotations(
+  supabase: SupabaseClient,
+  today: string = new Date().toISOString().split('T')[0]
+): Promise<{ processed: number; failed: number }> {
+  const { data: rotations, error } = await supabase
+    .from('chore_rotations')
+    .select('id, chore_id, user_order, rotation_frequency, last_assigned_to')
+    .eq('is_active', true)
+    .eq('rotation_type', 'balanced')
+    .lte('next_rotation_date', today);
+  if (error) throw error;
+
+  let processed = 0;
+  let failed = 0;
+  for (const rotation of rotations ?? []) {
+    try {
+      await processBalancedRotation(supabase, rotation, today);
+      processed += 1;
+    } catch (err) {
+      failed += 1;
+      logger.error('Failed to process balanced rotation', err, {
+        component: 'chore-workload-service',
+        action: 'process_rotation',
+        rotationId: rotation.id,
+      });
+    }
+  }
+  return { processed, failed };
+}
+
+export const choreWorkloadService = {
+  choreEffort,
+  isMemberUnavailable,
+  pickBalancedAssignee,
+  getMemberWorkloads,
+  getUnavailableMembers,
+  listUnavailability,
+  addUnavailability,
+  removeUnavailability,
+  suggestNextAssignee,
+  processBalancedRotation,
+  processDueBalancedRotations,
+};
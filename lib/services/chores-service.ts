@@ -22,6 +22,8 @@ export interface CreateChoreInput {
   created_by: string;
   point_value?: number; // Points awarded for completing this chore (default: 10)
   category?: string;
+  effort_weight?: number; // 1 (easy) to 5 (hard), used by balanced rotations
+  estimated_minutes?: number | null;
 }
 
 export interface UpdateChoreInput {
@@ -37,6 +39,8 @@ export interface UpdateChoreInput {
   calendar_sync?: boolean;
   category?: string | null;
   point_value?: number;
+  effort_weight?: number;
+  estimated_minutes?: number | null;
 }
 
 export interface ChoreQueryOptions {
@@ -76,7 +80,7 @@ export const choresService = {
     try {
       let query = supabase
         .from('chores')
-        .select('id, space_id, title, description, frequency, assigned_to, status, due_date, completed_at, completion_percentage, notes, created_by, created_at, updated_at, sort_order, calendar_sync, category, point_value, late_penalty_enabled, late_penalty_points, grace_period_hours, penalty_applied_at, penalty_points_deducted')
+        .select('id, space_id, title, description, frequency, assigned_to, status, due_date, completed_at, completion_percentage, notes, created_by, created_at, updated_at, sort_order, calendar_sync, category, point_value, late_penalty_enabled, late_penalty_points, grace_period_hours, penalty_applied_at, penalty_points_deducted, effort_weight, estimated_minutes')
         .eq('space_id', spaceId);
 
       // Apply filters if provided
@@ -132,7 +136,7 @@ export const choresService = {
     try {
       const { data, error } = await supabase
         .from('chores')
-        .select('id, space_id, title, description, frequency, assigned_to, status, due_date, completed_at, completion_percentage, notes, created_by, created_at, updated_at, sort_order, calendar_sync, category, point_value, late_penalty_enabled, late_penalty_points, grace_period_hours, penalty_applied_at, penalty_points_deducted')
+        .select('id, space_id, title, description, frequency, assigned_to, status, due_date, completed_at, completion_percentage, notes, created_by, created_at, updated_at, sort_order, calendar_sync, category, point_value, late_penalty_enabled, late_penalty_points, grace_period_hours, penalty_applied_at, penalty_points_deducted, effort_weight, estimated_minutes')
         .eq('id', id)
         .single();
 
@@ -265,7 +269,7 @@ export const choresService = {
           // Return the chore without updating order
           const { data: choreData, error: fetchError } = await supabase
             .from('chores')
-            .select('id, space_id, title, description, frequency, assigned_to, status, due_date, completed_at, completion_percentage, notes, created_by, created_at, updated_at, sort_order, calendar_sync, category, point_value, late_penalty_enabled, late_penalty_points, grace_period_hours, penalty_applied_at, penalty_points_deducted')
+            .select('id, space_id, title, description, frequency, assigned_to, status, due_date, completed_at, completion_percentage, notes, created_by, created_at, updated_at, sort_order, calendar_sync, category, point_value, late_penalty_enabled, late_penalty_points, grace_period_hours, penalty_applied_at, penalty_points_deducted, effort_weight, estimated_minutes')
             .eq('id', id)
             .single();
 
@@ -311,7 +315,7 @@ export const choresService = {
     try {
       const { data, error } = await supabase
         .from('chores')
-        .select('id, space_id, title, description, frequency, assigned_to, status, due_date, completed_at, completion_percentage, notes, created_by, created_at, updated_at, sort_order, calendar_sync, category, point_value, late_penalty_enabled, late_penalty_points, grace_period_hours, penalty_applied_at, penalty_points_deducted')
+        .select('id, space_id, title, description, frequency, assigned_to, status, due_date, completed_at, completion_percentage, notes, created_by, created_at, updated_at, sort_order, calendar_sync, category, point_value, late_penalty_enabled, late_penalty_points, grace_period_hours, penalty_applied_at, penalty_points_deducted, effort_weight, estimated_minutes')
         .eq('space_id', spaceId)
         .eq('assigned_to', userId)
         .order('created_at', { ascending: false });
@@ -339,7 +343,7 @@ export const choresService = {
     try {
       const { data, error } = await supabase
         .from('chores')
-        .select('id, space_id, title, description, frequency, assigned_to, status, due_date, completed_at, completion_percentage, notes, created_by, created_at, updated_at, sort_order, calendar_sync, category, point_value, late_penalty_enabled, late_penalty_points, grace_period_hours, penalty_applied_at, penalty_points_deducted')
+        .select('id, space_id, title, description, frequency, assigned_to, status, due_date, completed_at, completion_percentage, notes, created_by, created_at, updated_at, sort_order, calendar_sync, category, point_value, late_penalty_enabled, late_penalty_points, grace_period_hours, penalty_applied_at, penalty_points_deducted, effort_weight, estimated_minutes')
         .eq('space_id', spaceId)
         .eq('frequency', frequency)
         .order('created_at', { ascending: false });
@@ -0,0 +1,360 @@
+import { createClient } from '@/lib/supabase/client';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// ==================== TYPES ====================
+
+/** ISO 4217 currency code, e.g. 'USD' or 'EUR'. */
+export type CurrencyCode = string;
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+/**
+ * A manually maintained conversion rate for a space.
+ * One unit of `base_currency` is worth `rate` units of `quote_currency`.
+ */
+export interface ExchangeRate {
+  id: string;
+  space_id: string;
+  base_currency: CurrencyCode;
+  quote_currency: CurrencyCode;
+  rate: number;
+  effective_date: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UpsertExchangeRateInput {
+  space_id: string;
+  base_currency: CurrencyCode;
+  quote_currency: CurrencyCode;
+  rate: number;
+  effective_date?: string;
+  created_by: string;
+}
+
+/** Converts amounts into a space's base currency using a preloaded rate table. */
+export interface CurrencyConverter {
+  baseCurrency: CurrencyCode;
+  /** Converts an amount in `currency` (defaults to the base currency) as of `date`. */
+  toBase(amount: number, currency?: string | null, date?: string | null): number;
+  /** Like toBase, but null instead of throwing when no rate path exists. */
+  tryToBase(amount: number, currency?: string | null, date?: string | null): number | null;
+  convert(amount: number, from: string, to: string, date?: string | null): number;
+}
+
+type RateRow = Pick<ExchangeRate, 'base_currency' | 'quote_currency' | 'rate' | 'effective_date'>;
+
+const EXCHANGE_RATE_COLUMNS = 'id, space_id, base_currency, quote_currency, rate, effective_date, created_by, created_at, updated_at';
+
+const getSupabaseClient = (supabase?: SupabaseClient) => supabase ?? createClient();
+
+// ==================== PURE HELPERS ====================
+
+/**
+ * Normalizes a currency code to upper-case ISO 4217 form.
+ * Falls back to the default currency for empty or malformed values.
+ * @param code - Raw currency code from user input or the database
+ * @returns A three-letter upper-case currency code
+ */
+export function normalizeCurrencyCode(code?: string | null): CurrencyCode {
+  const normalized = (code ?? '').trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(normalized) ? normalized : DEFAULT_CURRENCY;
+}
+
+/**
+ * Rounds a monetary value to cents to avoid floating point drift.
+ */
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Formats an amount for display in its own currency, e.g. "$12.50" or "€12.50".
+ */
+export function formatMoney(amount: number, currency?: string | null): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: normalizeCurrencyCode(currency),
+  }).format(amount);
+}
+
+/**
+ * Picks the most recent rate for a currency pair that is effective on or before `date`.
+ * Rates after the date are only used when no earlier rate exists.
+ */
+function pickRate(rates: RateRow[], base: string, quote: string, date?: string | null): number | null {
+  const candidates = rates
+    .filter((r) => r.base_currency === base && r.quote_currency === quote && Number(r.rate) > 0)
+    .sort((a, b) => b.effective_date.localeCompare(a.effective_date));
+
+  if (candidates.length === 0) return null;
+  if (!date) return Number(candidates[0].rate);
+
+  const day = date.substring(0, 10);
+  const effective = candidates.find((r) => r.effective_date <= day);
+  return Number((effective ?? candidates[candidates.length - 1]).rate);
+}
+
+/**
+ * Finds the multiplier that converts an amount from one currency into another.
+ *
+ * Lookup order:
+ * 1. Identity (same currency) = 1
+ * 2. Direct rate (from → to)
+ * 3. Inverse rate (to → from), inverted
+ * 4. Cross rate through any currency that has rates to both sides
+ *
+ * @param rates - Rate table for the space
+ * @param from - Source currency
+ * @param to - Target currency
+ * @param date - Optional date (YYYY-MM-DD or ISO) the conversion applies to
+ * @returns The multiplier, or null when no path between the currencies exists
+ */
+export function findExchangeRate(
+  rates: RateRow[],
+  from: string,
+  to: string,
+  date?: string | null
+): number | null {
+  const source = normalizeCurrencyCode(from);
+  const target = normalizeCurrencyCode(to);
+
+  if (source === target) return 1;
+
+  const direct = pickRate(rates, source, target, date);
+  if (direct !== null) return direct;
+
+  const inverse = pickRate(rates, target, source, date);
+  if (inverse !== null) return 1 / inverse;
+
+  const intermediates = new Set<string>();
+  for (const r of rates) {
+    intermediates.add(r.base_currency);
+    intermediates.add(r.quote_currency);
+  }
+  intermediates.delete(source);
+  intermediates.delete(target);
+
+  for (const via of intermediates) {
+    const first = pickRate(rates, source, via, date) ?? invert(pickRate(rates, via, source, date));
+    const second = pickRate(rates, via, target, date) ?? invert(pickRate(rates, target, via, date));
+    if (first !== null && second !== null) return first * second;
+  }
+
+  return null;
+}
+
+function invert(rate: number | null): number | null {
+  return rate === null ? null : 1 / rate;
+}
+
+/**
+ * Converts an amount between currencies using the given rate table.
+ * @throws Error if no rate path exists between the two currencies
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: RateRow[],
+  date?: string | null
+): number {
+  const rate = findExchangeRate(rates, from, to, date);
+  if (rate === null) {
+    throw new Error(`No exchange rate from ${normalizeCurrencyCode(from)} to ${normalizeCurrencyCode(to)}`);
+  }
+  return roundMoney(Number(amount) * rate);
+}
+
+/**
+ * Builds a converter bound to a base currency and a preloaded rate table,
+ * so callers can convert many rows without re-querying rates.
+ */
+export function createCurrencyConverter(baseCurrency: string, rates: RateRow[]): CurrencyConverter {
+  const base = normalizeCurrencyCode(baseCurrency);
+  return {
+    baseCurrency: base,
+    toBase: (amount, currency, date) => convertAmount(amount, currency || base, base, rates, date),
+    tryToBase: (amount, currency, date) => {
+      const rate = findExchangeRate(rates, currency || base, base, date);
+      return rate === null ? null : roundMoney(Number(amount) * rate);
+    },
+    convert: (amount, from, to, date) => convertAmount(amount, from, to, rates, date),
+  };
+}
+
+/**
+ * Sums amounts in the converter's base currency. Amounts in a currency with
+ * no exchange rate to the base are left out, and their currencies reported.
+ */
+export function sumInBaseCurrency(
+  converter: CurrencyConverter,
+  rows: { amount: number | string; currency?: string | null; date?: string | null }[]
+): { total: number; unconverted: CurrencyCode[] } {
+  let total = 0;
+  const unconverted = new Set<CurrencyCode>();
+  for (const row of rows) {
+    const amount = converter.tryToBase(Number(row.amount), row.currency, row.date);
+    if (amount === null) {
+      unconverted.add(normalizeCurrencyCode(row.currency));
+    } else {
+      total += amount;
+    }
+  }
+  return { total, unconverted: Array.from(unconverted) };
+}
+
+// ==================== BASE CURRENCY ====================
+
+/**
+ * Retrieves the base (reporting) currency for a space.
+ * @param spaceId - The space ID
+ * @param supabaseClient - Optional Supabase client instance for server-side usage
+ * @returns The space's base currency, or USD if not configured
+ * @throws Error if the database query fails
+ */
+export async function getSpaceBaseCurrency(
+  spaceId: string,
+  supabaseClient?: SupabaseClient
+): Promise<CurrencyCode> {
+  const supabase = getSupabaseClient(supabaseClient);
+
+  const { data, error } = await supabase
+    .from('spaces')
+    .select('base_currency')
+    .eq('id', spaceId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return normalizeCurrencyCode((data as { base_currency?: string } | null)?.base_currency);
+}
+
+/**
+ * Sets the base (reporting) currency for a space.
+ * Existing amounts keep their original currency; only reporting changes.
+ * @param spaceId - The space ID
+ * @param currency - ISO 4217 currency code
+ * @param supabaseClient - Optional Supabase client instance
+ * @throws Error if the update fails
+ */
+export async function setSpaceBaseCurrency(
+  spaceId: string,
+  currency: string,
+  supabaseClient?: SupabaseClient
+): Promise<void> {
+  const supabase = getSupabaseClient(supabaseClient);
+
+  const { error } = await supabase
+    .from('spaces')
+    .update({ base_currency: normalizeCurrencyCode(currency) })
+    .eq('id', spaceId);
+
+  if (error) throw error;
+}
+
+// ==================== EXCHANGE RATES ====================
+
+/**
+ * Retrieves all stored exchange rates for a space, newest first.
+ * @param spaceId - The space ID
+ * @param supabaseClient - Optional Supabase client instance
+ * @returns Array of exchange rate records
+ * @throws Error if the database query fails
+ */
+export async function getExchangeRates(
+  spaceId: string,
+  supabaseClient?: SupabaseClient
+): Promise<ExchangeRate[]> {
+  const supabase = getSupabaseClient(supabaseClient);
+
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select(EXCHANGE_RATE_COLUMNS)
+    .eq('space_id', spaceId)
+    .order('effective_date', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Creates or replaces the rate for a currency pair on a given date.
+ * @param input - Pair, rate and effective date (defaults to today)
+ * @param supabaseClient - Optional Supabase client instance
+ * @returns The stored exchange rate record
+ * @throws Error if the rate is not positive, the pair is identical, or the upsert fails
+ */
+export async function upsertExchangeRate(
+  input: UpsertExchangeRateInput,
+  supabaseClient?: SupabaseClient
+): Promise<ExchangeRate> {
+  const base = normalizeCurrencyCode(input.base_currency);
+  const quote = normalizeCurrencyCode(input.quote_currency);
+
+  if (base === quote) throw new Error('Exchange rate currencies must differ');
+  if (!(input.rate > 0)) throw new Error('Exchange rate must be positive');
+
+  const supabase = getSupabaseClient(supabaseClient);
+
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .upsert(
+      {
+        space_id: input.space_id,
+        base_currency: base,
+        quote_currency: quote,
+        rate: input.rate,
+        effective_date: input.effective_date || new Date().toISOString().split('T')[0],
+        created_by: input.created_by,
+      },
+      { onConflict: 'space_id,base_currency,quote_currency,effective_date' }
+    )
+    .select(EXCHANGE_RATE_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Permanently deletes an exchange rate.
+ * @param spaceId - The space the rate belongs to
+ * @param rateId - The exchange rate ID
+ * @param supabaseClient - Optional Supabase client instance
+ * @throws Error if the delete fails
+ */
+export async function deleteExchangeRate(
+  spaceId: string,
+  rateId: string,
+  supabaseClient?: SupabaseClient
+): Promise<void> {
+  const supabase = getSupabaseClient(supabaseClient);
+
+  const { error } = await supabase
+    .from('exchange_rates')
+    .delete()
+    .eq('id', rateId)
+    .eq('space_id', spaceId);
+
+  if (error) throw error;
+}
+
+/**
+ * Loads the base currency and rate table for a space and returns a converter.
+ * @param spaceId - The space ID
+ * @param supabaseClient - Optional Supabase client instance
+ * @returns Converter bound to the space's base currency
+ * @throws Error if either query fails
+ */
+export async function getCurrencyConverter(
+  spaceId: string,
+  supabaseClient?: SupabaseClient
+): Promise<CurrencyConverter> {
+  const [baseCurrency, rates] = await Promise.all([
+    getSpaceBaseCurrency(spaceId, supabaseClient),
+    getExchangeRates(spaceId, supabaseClient),
+  ]);
+
+  return createCurrencyConverter(baseCurrency, rates);
+}
@@ -0,0 +1,168 @@
+import { createClient } from '@/lib/supabase/client';
+import { findDietaryConflicts, type DietaryConflict } from '@/lib/utils/dietary-helpers';
+import type { Allergen, RecipeIngredient } from '@/lib/services/ingredient-parser';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type Diet =
+  | 'vegetarian'
+  | 'vegan'
+  | 'pescatarian'
+  | 'halal'
+  | 'kosher'
+  | 'gluten_free'
+  | 'dairy_free'
+  | 'low_sodium';
+
+export const ALLERGENS: { value: Allergen; label: string }[] = [
+  { value: 'gluten', label: 'Gluten' },
+  { value: 'dairy', label: 'Dairy' },
+  { value: 'egg', label: 'Eggs' },
+  { value: 'peanut', label: 'Peanuts' },
+  { value: 'tree_nut', label: 'Tree nuts' },
+  { value: 'soy', label: 'Soy' },
+  { value: 'fish', label: 'Fish' },
+  { value: 'shellfish', label: 'Shellfish' },
+  { value: 'sesame', label: 'Sesame' },
+];
+
+export const DIETS: { value: Diet; label: string }[] = [
+  { value: 'vegetarian', label: 'Vegetarian' },
+  { value: 'vegan', label: 'Vegan' },
+  { value: 'pescatarian', label: 'Pescatarian' },
+  { value: 'halal', label: 'Halal' },
+  { value: 'kosher', label: 'Kosher' },
+  { value: 'gluten_free', label: 'Gluten-free' },
+  { value: 'dairy_free', label: 'Dairy-free' },
+  { value: 'low_sodium', label: 'Low-sodium' },
+];
+
+export interface DietaryProfile {
+  user_id: string;
+  /** Allergens the member must avoid entirely */
+  allergies: Allergen[];
+  /** Allergens the member prefers to avoid */
+  intolerances: Allergen[];
+  diets: Diet[];
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DietaryProfileInput {
+  allergies: Allergen[];
+  intolerances: Allergen[];
+  diets: Diet[];
+  notes?: string | null;
+}
+
+/** A space member's profile with the name to show in warnings */
+export interface MemberDietaryProfile extends DietaryProfile {
+  name: string;
+}
+
+type MemberRow = { user_id: string; users: { name: string | null; email: string | null } | null };
+
+const getSupabaseClient = (supabase?: SupabaseClient) => supabase ?? createClient();
+
+/**
+ * Dietary Profile Service
+ *
+ * Stores each member's allergies, intolerances and diets, and checks recipes
+ * against everyone in a space before a meal is planned.
+ */
+export const dietaryProfileService = {
+  /**
+   * Retrieves a member's dietary profile.
+   * @param userId - The user identifier
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @returns The profile, or null if the member has not filled one in
+   * @throws Error if database query fails
+   */
+  async getProfile(userId: string, supabaseClient?: SupabaseClient): Promise<DietaryProfile | null> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const { data, error } = await supabase
+      .from('dietary_profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Creates or replaces a member's dietary profile.
+   * @param userId - The user identifier (must be the signed-in user)
+   * @param input - Allergies, intolerances, diets and notes
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @returns The saved profile
+   * @throws Error if database upsert fails
+   */
+  async saveProfile(userId: string, input: DietaryProfileInput, supabaseClient?: SupabaseClient): Promise<DietaryProfile> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const { data, error } = await supabase
+      .from('dietary_profiles')
+      .upsert({
+        user_id: userId,
+        allergies: Array.from(new Set(input.allergies)),
+        // An allergy already covers the same intolerance
+        intolerances: Array.from(new Set(input.intolerances)).filter((a) => !input.allergies.includes(a)),
+        diets: Array.from(new Set(input.diets)),
+        notes: input.notes?.trim() || null,
+      }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Retrieves the dietary profiles of everyone in a space.
+   * Members without a profile are left out.
+   * @param spaceId - The space identifier
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @returns Profiles with member names
+   * @throws Error if database query fails
+   */
+  async getSpaceProfiles(spaceId: string, supabaseClient?: SupabaseClient): Promise<MemberDietaryProfile[]> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const { data: members, error: membersError } = await supabase
+      .from('space_members')
+      .select('user_id, users(name, email)')
+      .eq('space_id', spaceId);
+
+    if (membersError) throw membersError;
+    const rows = (members || []) as unknown as MemberRow[];
+    if (rows.length === 0) return [];
+
+    const { data: profiles, error } = await supabase
+      .from('dietary_profiles')
+      .select('*')
+      .in('user_id', rows.map((member) => member.user_id));
+
+    if (error) throw error;
+    return ((profiles || []) as DietaryProfile[]).map((profile) => {
+      const user = rows.find((member) => member.user_id === profile.user_id)?.users;
+      return { ...profile, name: user?.name || user?.email?.split('@')[0] || 'A member' };
+    });
+  },
+
+  /**
+   * Checks ingredients against the dietary profiles of everyone in a space.
+   * @param spaceId - The space identifier
+   * @param ingredients - Recipe ingredients (strings or objects)
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @returns One conflict per member and restriction the ingredients break
+   * @throws Error if database query fails
+   */
+  async checkIngredients(
+    spaceId: string,
+    ingredients: RecipeIngredient[],
+    supabaseClient?: SupabaseClient
+  ): Promise<DietaryConflict[]> {
+    if (ingredients.length === 0) return [];
+    const profiles = await this.getSpaceProfiles(spaceId, supabaseClient);
+    return findDietaryConflicts(ingredients, profiles);
+  },
+};
@@ -2,6 +2,7 @@ import { createClient } from '@/lib/supabase/client';
 import { pushService } from './push-service';
 import { logger } from '@/lib/logger';
 import { csrfFetch } from '@/lib/utils/csrf-fetch';
+import type { SupabaseClient } from '@supabase/supabase-js';
 // Removed notification-preferences-service and digest-service dependencies - using direct notification system
 
 /**
@@ -627,4 +628,90 @@ export const enhancedNotificationService = {
 
     return results;
   },
+
+  /**
+   * Sends chore/task trade notifications to specified users.
+   *
+   * Covers every step of a trade: a new offer, and the offer being accepted,
+   * declined or cancelled. Creates in-app notifications only; pass a service
+   * role client when notifying users other than the caller, since in-app
+   * notification inserts are limited to the owning user.
+   *
+   * @param userIds - Array of user IDs to notify
+   * @param data - Trade details including the event, item, actor and bounty
+   * @param supabaseClient - Optional client used to create the notifications
+   * @returns Result object with counts of successful deliveries per channel and any errors
+   */
+  async sendAssignmentTradeNotification(
+    userIds: string[],
+    data: {
+      event: 'offered' | 'accepted' | 'declined' | 'cancelled';
+      tradeId: string;
+      itemType: 'chore' | 'task';
+      itemTitle: string;
+      actorId: string;
+      actorName: string;
+      bountyPoints: number;
+      spaceId: string;
+      spaceName: string;
+      tradeUrl?: string;
+    },
+    supabaseClient?: SupabaseClient
+  ): Promise<NotificationResult> {
+    const results: NotificationResult = {
+      inApp: 0,
+      email: 0,
+      push: 0,
+      errors: [],
+    };
+
+    const bounty = data.bountyPoints > 0 ? ` for ${data.bountyPoints} points` : '';
+    const messages = {
+      offered: { title: `🔁 ${data.actorName} wants to trade`, content: `Take over the ${data.itemType} "${data.itemTitle}"${bounty}?` },
+      accepted: { title: '🤝 Trade accepted', content: `${data.actorName} took over "${data.itemTitle}"${bounty}` },
+      declined: { title: 'Trade declined', content: `${data.actorName} declined to take over "${data.itemTitle}"` },
+      cancelled: { title: 'Trade cancelled', content: `${data.actorName} withdrew the offer for "${data.itemTitle}"` },
+    }[data.event];
+
+    const supabase = supabaseClient ?? createClient();
+
+    const settled = await Promise.allSettled(userIds.map(async (userId) => {
+      const { error } = await supabase.from('in_app_notifications').insert([{
+        user_id: userId,
+        type: 'task',
+        title: messages.title,
+        content: messages.content,
+        priority: data.event === 'offered' ? 'high' : 'normal',
+        space_id: data.spaceId,
+        space_name: data.spaceName,
+        related_item_id: data.tradeId,
+        related_item_type: 'assignment_trade',
+        action_url: data.tradeUrl,
+        sender_id: data.actorId,
+        sender_name: data.actorName,
+        metadata: {
+          event: data.event,
+          item_type: data.itemType,
+          bounty_points: data.bountyPoints,
+        },
+        is_read: false,
+      }]);
+
+      if (error) {
+        results.errors.push(`In-app notification failed for ${userId}: ${error.message}`);
+      } else {
+        results.inApp++;
+      }
+    }));
+
+    // Collect errors from rejected promises
+    for (const result of settled) {
+      if (result.status === 'rejected') {
+        const errorMessage = result.reason instanceof Error ? result.reason.message : 'Unknown error';
+        results.errors.push(`Failed to process trade notification: ${errorMessage}`);
+      }
+    }
+
+    return results;
+  },
 };
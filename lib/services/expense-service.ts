@@ -3,6 +3,7 @@ export interface Expense {
   space_id: string;
   title: string;
   amount: number;
+  currency?: string;
   category?: string;
   date?: string;
   description?: string;
@@ -1,8 +1,11 @@
 import { createClient } from '@/lib/supabase/client';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getCurrencyConverter, getSpaceBaseCurrency, normalizeCurrencyCode, roundMoney } from './currency-service';
+import type { ExtractedReceiptData } from './receipt-scanning-service';
 
 // ==================== TYPES ====================
 
-export type SplitType = 'equal' | 'percentage' | 'fixed' | 'income-based';
+export type SplitType = 'equal' | 'percentage' | 'fixed' | 'income-based' | 'itemized';
 export type OwnershipType = 'shared' | 'yours' | 'theirs';
 export type SplitStatus = 'pending' | 'partially-paid' | 'settled';
 
@@ -16,6 +19,9 @@ export interface ExpenseSplit {
   is_payer: boolean;
   status: SplitStatus;
   settled_at: string | null;
+  item_subtotal?: number | null; // Itemized splits only
+  tax_share?: number | null;
+  tip_share?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -26,6 +32,7 @@ export interface Settlement {
   from_user_id: string;
   to_user_id: string;
   amount: number;
+  currency: string;
   settlement_date: string;
   payment_method: string | null;
   reference_number: string | null;
@@ -55,6 +62,7 @@ export interface CreateSettlementInput {
   from_user_id: string;
   to_user_id: string;
   amount: number;
+  currency?: string; // Defaults to the space's base currency
   settlement_date?: string;
   payment_method?: string;
   reference_number?: string;
@@ -79,6 +87,8 @@ export interface BalanceSummary {
   amount_owed: number; // What they owe
   amount_owed_to_them: number; // What is owed to them
   net_balance: number; // Negative = they owe, Positive = owed to them
+  currency: string; // Space base currency all amounts are expressed in
+  unconverted_currencies: string[]; // Currencies of splits left out for lack of an exchange rate
 }
 
 export interface SettlementSummary {
@@ -91,6 +101,105 @@ export interface SettlementSummary {
   last_settlement: string | null;
 }
 
+/** One unsettled split, seen as a debt from the member who owes to the member who paid. */
+export interface BalanceLedgerEntry {
+  split_id: string;
+  expense_id: string;
+  expense_title: string | null;
+  expense_date: string | null;
+  debtor_id: string;
+  creditor_id: string;
+  amount: number; // Remaining unpaid, in the space base currency
+  original_amount: number;
+  original_currency: string;
+}
+
+export interface MemberBalance {
+  user_id: string;
+  user_email?: string;
+  amount_owed: number;
+  amount_owed_to_them: number;
+  net_balance: number; // Negative = they owe, Positive = owed to them
+  entries: BalanceLedgerEntry[]; // Splits the balance was derived from
+}
+
+export interface SettleUpTransfer {
+  from_user_id: string;
+  to_user_id: string;
+  amount: number;
+}
+
+export interface BalanceLedger {
+  entries: BalanceLedgerEntry[];
+  unconverted_currencies: string[]; // Currencies of splits left out for lack of an exchange rate
+}
+
+export interface SettleUpPlan {
+  space_id: string;
+  currency: string;
+  balances: MemberBalance[];
+  transfers: SettleUpTransfer[];
+  split_ids: string[]; // Splits the plan settles
+  expense_ids: string[]; // Expenses those splits belong to
+  unconverted_currencies: string[]; // Currencies of splits the plan leaves out
+}
+
+export interface RecordSettleUpInput {
+  space_id: string;
+  transfers: SettleUpTransfer[];
+  split_ids: string[];
+  expense_ids: string[];
+  currency?: string; // Defaults to the space's base currency
+  settlement_date?: string;
+  payment_method?: string;
+  notes?: string;
+  created_by: string;
+}
+
+/** 'shared' splits an item equally between all participants; a list splits it between those users. */
+export type ItemAssignee = 'shared' | string[];
+
+export interface ItemizedSplitItem {
+  name: string;
+  amount: number; // Line total
+  quantity?: number | null;
+  assigned_to: ItemAssignee;
+}
+
+export interface ItemizedSplitInput {
+  participants: string[]; // User IDs taking part in the split
+  items: ItemizedSplitItem[];
+  tax_amount?: number | null;
+  tip_amount?: number | null;
+  total_amount?: number | null; // Defaults to items + tax + tip; any difference (discounts, rounding) is allocated proportionally
+}
+
+export interface ItemizedShare {
+  user_id: string;
+  item_subtotal: number;
+  tax_share: number;
+  tip_share: number;
+  adjustment: number;
+  amount_owed: number;
+  percentage: number;
+}
+
+export interface ExpenseSplitItem {
+  id: string;
+  expense_id: string;
+  receipt_id: string | null;
+  position: number;
+  name: string;
+  quantity: number | null;
+  amount: number;
+  assigned_user_ids: string[]; // Empty = shared
+  created_at: string;
+}
+
+export interface CreateItemizedSplitInput extends Omit<ItemizedSplitInput, 'total_amount'> {
+  receipt_id?: string | null;
+}
+
 type ExpenseRecord = Record<string, unknown>;
 
 type ExpenseSplitWithExpense = ExpenseSplit & {
@@ -98,11 +207,24 @@ type ExpenseSplitWithExpense = ExpenseSplit & {
 };
 
 type ExpenseSplitWithUser = ExpenseSplit & {
+  expenses?: {
+    currency?: string | null;
+    date?: string | null;
+  };
   users?: {
     email?: string | null;
   };
 };
 
+type LedgerSplitRow = Pick<ExpenseSplit, 'id' | 'expense_id' | 'user_id' | 'amount_owed' | 'amount_paid'> & {
+  expenses?: {
+    title?: string | null;
+    currency?: string | null;
+    date?: string | null;
+    paid_by?: string | null;
+  };
+};
+
 type ExpenseOwnershipRow = {
   ownership?: OwnershipType;
   amount: number | string;
@@ -110,20 +232,26 @@ type ExpenseOwnershipRow = {
 
 type OwnershipStats = Record<string, { ownership: OwnershipType; total: number; count: number }>;
 
+const getSupabaseClient = (supabase?: SupabaseClient) => supabase ?? createClient();
+
 // ==================== EXPENSE SPLITS ====================
 
 /**
  * Retrieves all split records for a given expense.
  * @param expenseId - The unique identifier of the expense
+ * @param supabaseClient - Optional Supabase client instance for server-side usage
  * @returns Array of expense split records showing how the expense is divided
  * @throws Error if the database query fails
  */
-export async function getExpenseSplits(expenseId: string): Promise<ExpenseSplit[]> {
-  const supabase = createClient();
+export async function getExpenseSplits(
+  expenseId: string,
+  supabaseClient?: SupabaseClient
+): Promise<ExpenseSplit[]> {
+  const supabase = getSupabaseClient(supabaseClient);
 
   const { data, error } = await supabase
     .from('expense_splits')
-    .select('id, expense_id, user_id, amount_owed, amount_paid, percentage, is_payer, status, settled_at, created_at, updated_at')
+    .select('id, expense_id, user_id, amount_owed, amount_paid, percentage, is_payer, status, settled_at, item_subtotal, tax_share, tip_share, created_at, updated_at')
     .eq('expense_id', expenseId);
 
   if (error) throw error;
@@ -266,6 +394,8 @@ export async function createSettlement(input: CreateSettlementInput): Promise<Se
         from_user_id: input.from_user_id,
         to_user_id: input.to_user_id,
         amount: input.amount,
+        // null lets the database default to the space's base currency
+        currency: input.currency ? normalizeCurrencyCode(input.currency) : null,
         settlement_date: input.settlement_date || new Date().toISOString().split('T')[0],
         payment_method: input.payment_method || null,
         reference_number: input.reference_number || null,
@@ -318,7 +448,7 @@ export async function getSettlements(spaceId: string, limit = 50): Promise<Settl
 
   const { data, error } = await supabase
     .from('settlements')
-    .select('id, space_id, from_user_id, to_user_id, amount, settlement_date, payment_method, reference_number, notes, expense_ids, created_by, created_at, updated_at')
+    .select('id, space_id, from_user_id, to_user_id, amount, currency, settlement_date, payment_method, reference_number, notes, expense_ids, created_by, created_at, updated_at')
     .eq('space_id', spaceId)
     .order('settlement_date', { ascending: false })
     .limit(limit);
@@ -345,7 +475,7 @@ export async function getSettlementsBetweenUsers(
 
   const { data, error } = await supabase
     .from('settlements')
-    .select('id, space_id, from_user_id, to_user_id, amount, settlement_date, payment_method, reference_number, notes, expense_ids, created_by, created_at, updated_at')
+    .select('id, space_id, from_user_id, to_user_id, amount, currency, settlement_date, payment_method, reference_number, notes, expense_ids, created_by, created_at, updated_at')
     .eq('space_id', spaceId)
     .or(`from_user_id.eq.${user1Id},to_user_id.eq.${user1Id}`)
     .or(`from_user_id.eq.${user2Id},to_user_id.eq.${user2Id}`)
@@ -439,10 +569,12 @@ export async function updateIncomes(
  *    - Negative = you owe others money
  *
  * Edge case: Partial payments handled by subtracting amount_paid from amount_owed.
+ * Multi-currency: each split is converted from its expense's currency into the
+ * space base currency using the rate effective on the expense date.
  *
  * @param spaceId - The space ID
- * @returns Array of balance summaries per user
- * @throws Error if the database query fails
+ * @returns Array of balance summaries per user, in the space base currency
+ * @throws Error if the database query fails or a required exchange rate is missing
  */
 export async function calculateCurrentBalance(spaceId: string): Promise<BalanceSummary[]> {
   const supabase = createClient();
@@ -450,16 +582,18 @@ export async function calculateCurrentBalance(spaceId: string): Promise<BalanceS
   // Get all unsettled splits for this space
   const { data: splits, error } = await supabase
     .from('expense_splits')
-    .select('id, expense_id, user_id, amount_owed, amount_paid, percentage, is_payer, status, settled_at, created_at, updated_at, expenses!expense_id!inner(space_id), users!user_id!inner(email)')
+    .select('id, expense_id, user_id, amount_owed, amount_paid, percentage, is_payer, status, settled_at, created_at, updated_at, expenses!expense_id!inner(space_id, currency, date), users!user_id!inner(email)')
     .eq('expenses.space_id', spaceId)
     .neq('status', 'settled');
 
   if (error) throw error;
 
+  const converter = await getCurrencyConverter(spaceId, supabase);
+
   // Group by user, accumulating what they owe vs what's owed to them
   const balanceMap: Record<
     string,
-    { email?: string; owed: number; owedToThem: number }
+    { email?: string; owed: number; owedToThem: number; unconverted: Set<string> }
   > = {};
 
   const splitRows = (splits ?? []) as ExpenseSplitWithUser[];
@@ -470,11 +604,21 @@ export async function calculateCurrentBalance(spaceId: string): Promise<BalanceS
         email: split.users?.email ?? undefined,
         owed: 0,
         owedToThem: 0,
+        unconverted: new Set(),
       };
     }
 
-    // Only count the remaining unpaid portion
-    const amountRemaining = split.amount_owed - split.amount_paid;
+    // Only count the remaining unpaid portion, expressed in the base currency.
+    // Splits with no rate to the base currency are left out and reported.
+    const amountRemaining = converter.tryToBase(
+      split.amount_owed - split.amount_paid,
+      split.expenses?.currency,
+      split.expenses?.date
+    );
+    if (amountRemaining === null) {
+      balanceMap[userId].unconverted.add(normalizeCurrencyCode(split.expenses?.currency));
+      continue;
+    }
 
     if (split.is_payer) {
       // This user paid, so money is owed TO them
@@ -492,6 +636,8 @@ export async function calculateCurrentBalance(spaceId: string): Promise<BalanceS
     amount_owed: Math.round(data.owed * 100) / 100,
     amount_owed_to_them: Math.round(data.owedToThem * 100) / 100,
     net_balance: Math.round((data.owedToThem - data.owed) * 100) / 100,
+    currency: converter.baseCurrency,
+    unconverted_currencies: Array.from(data.unconverted),
   }));
 }
 
@@ -514,6 +660,565 @@ export async function getSettlementSummary(spaceId: string): Promise<SettlementS
   return data || [];
 }
 
+// ==================== SETTLE UP ====================
+
+/** Above this many members with a balance, the exact search is too slow and a greedy match is used */
+const MAX_EXACT_SETTLE_UP_MEMBERS = 14;
+
+/**
+ * Settles a group of balances (in cents, summing to zero) by repeatedly
+ * matching the largest debtor with the largest creditor.
+ * Each transfer clears at least one member, so a group of n needs at most n - 1.
+ */
+function settleGroupGreedily(group: { user_id: string; cents: number }[]): SettleUpTransfer[] {
+  const members = group.map((m) => ({ ...m }));
+  const transfers: SettleUpTransfer[] = [];
+
+  for (;;) {
+    const debtor = members.reduce((min, m) => (m.cents < min.cents ? m : min), members[0]);
+    const creditor = members.reduce((max, m) => (m.cents > max.cents ? m : max), members[0]);
+    if (!debtor || debtor.cents >= 0 || creditor.cents <= 0) break;
+
+    const cents = Math.min(-debtor.cents, creditor.cents);
+    transfers.push({ from_user_id: debtor.user_id, to_user_id: creditor.user_id, amount: cents / 100 });
+    debtor.cents += cents;
+    creditor.cents -= cents;
+  }
+
+  return transfers;
+}
+
+/**
+ * Splits balances into the largest possible number of groups that each sum to zero.
+ * Every group of k members settles in k - 1 transfers, so maximising the number of
+ * groups minimises the total number of transfers (n - groups).
+ *
+ * Uses a DP over subsets: best[mask] is the most zero-sum groups the members in
+ * mask can be partitioned into, building mask up one member at a time.
+ */
+function partitionIntoZeroSumGroups(members: { user_id: string; cents: number }[]): { user_id: string; cents: number }[][] {
+  const n = members.length;
+  const full = (1 << n) - 1;
+  const sums = new Array<number>(full + 1).fill(0);
+  const best = new Array<number>(full + 1).fill(0);
+
+  for (let mask = 1; mask <= full; mask++) {
+    const lowest = 31 - Math.clz32(mask & -mask);
+    sums[mask] = sums[mask & (mask - 1)] + members[lowest].cents;
+
+    let most = 0;
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i)) most = Math.max(most, best[mask ^ (1 << i)]);
+    }
+    best[mask] = most + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Walk back from the full set to recover the order members were added in
+  const order: number[] = [];
+  for (let mask = full; mask > 0; ) {
+    const bonus = sums[mask] === 0 ? 1 : 0;
+    let next = -1;
+    for (let i = 0; i < n && next < 0; i++) {
+      if ((mask & (1 << i)) && best[mask ^ (1 << i)] + bonus === best[mask]) next = i;
+    }
+    order.push(next);
+    mask ^= 1 << next;
+  }
+  order.reverse();
+
+  // Every prefix that sums to zero closes a group
+  const groups: { user_id: string; cents: number }[][] = [];
+  let current: { user_id: string; cents: number }[] = [];
+  let running = 0;
+  for (const index of order) {
+    current.push(members[index]);
+    running += members[index].cents;
+    if (running === 0) {
+      groups.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups;
+}
+
+/**
+ * Computes the smallest set of transfers that settles every member's balance.
+ *
+ * Algorithm:
+ * 1. Convert balances to cents and drop members who are already even
+ * 2. Absorb any rounding difference (balances not summing to exactly zero)
+ *    into the largest balance on the side that is over
+ * 3. Partition members into as many zero-sum groups as possible (exact for
+ *    households of up to 14 members with a balance, one group beyond that)
+ * 4. Settle each group by matching the largest debtor with the largest creditor
+ *
+ * Example: Alex +$4, Sam +$3, Jo -$3, Kim -$2, Lee -$2
+ *   - Always matching the largest debt first takes four transfers
+ *   - Grouping {Sam, Jo} and {Alex, Kim, Lee} takes three:
+ *     Jo → Sam $3, Kim → Alex $2, Lee → Alex $2
+ *
+ * @param balances - Net balance per member (positive = owed to them)
+ * @returns Transfers, each from a member who owes to a member who is owed
+ */
+export function simplifyDebts(balances: Pick<BalanceSummary, 'user_id' | 'net_balance'>[]): SettleUpTransfer[] {
+  const byUser = new Map<string, number>();
+  for (const balance of balances) {
+    byUser.set(balance.user_id, (byUser.get(balance.user_id) ?? 0) + Math.round(balance.net_balance * 100));
+  }
+
+  const members = Array.from(byUser, ([user_id, cents]) => ({ user_id, cents })).filter((m) => m.cents !== 0);
+
+  const residual = members.reduce((sum, m) => sum + m.cents, 0);
+  if (residual !== 0) {
+    const largest = members
+      .filter((m) => Math.sign(m.cents) === Math.sign(residual))
+      .reduce((max, m) => (Math.abs(m.cents) > Math.abs(max.cents) ? m : max));
+    largest.cents -= residual;
+  }
+
+  const owing = members.filter((m) => m.cents !== 0);
+  if (owing.length === 0) return [];
+
+  const groups = owing.length <= MAX_EXACT_SETTLE_UP_MEMBERS ? partitionIntoZeroSumGroups(owing) : [owing];
+  return groups.flatMap(settleGroupGreedily);
+}
+
+/**
+ * Retrieves every unsettled split in a space as a debt from the member who owes
+ * to the member who paid the expense, converted into the space base currency.
+ * Splits of the payer themselves and expenses without a payer are skipped.
+ * Splits with no exchange rate to the base currency are left out and reported.
+ * @param spaceId - The space ID
+ * @param supabaseClient - Optional Supabase client (defaults to browser client)
+ * @returns Ledger entries, oldest expense first, and the currencies left out
+ * @throws Error if the database query fails
+ */
+export async function getBalanceLedger(
+  spaceId: string,
+  supabaseClient?: SupabaseClient
+): Promise<BalanceLedger> {
+  const supabase = getSupabaseClient(supabaseClient);
+
+  const { data: splits, error } = await supabase
+    .from('expense_splits')
+    .select('id, expense_id, user_id, amount_owed, amount_paid, expenses!expense_id!inner(space_id, title, currency, date, paid_by)')
+    .eq('expenses.space_id', spaceId)
+    .eq('is_payer', false)
+    .neq('status', 'settled');
+
+  if (error) throw error;
+
+  const converter = await getCurrencyConverter(spaceId, supabase);
+
+  const entries: BalanceLedgerEntry[] = [];
+  const unconverted = new Set<string>();
+  for (const split of (splits ?? []) as LedgerSplitRow[]) {
+    const creditorId = split.expenses?.paid_by;
+    const remaining = split.amount_owed - split.amount_paid;
+    if (!creditorId || creditorId === split.user_id || remaining <= 0) continue;
+
+    const amount = converter.tryToBase(remaining, split.expenses?.currency, split.expenses?.date);
+    if (amount === null) {
+      unconverted.add(normalizeCurrencyCode(split.expenses?.currency));
+      continue;
+    }
+
+    entries.push({
+      split_id: split.id,
+      expense_id: split.expense_id,
+      expense_title: split.expenses?.title ?? null,
+      expense_date: split.expenses?.date ?? null,
+      debtor_id: split.user_id,
+      creditor_id: creditorId,
+      amount: roundMoney(amount),
+      original_amount: roundMoney(remaining),
+      original_currency: normalizeCurrencyCode(split.expenses?.currency ?? converter.baseCurrency),
+    });
+  }
+
+  return {
+    entries: entries.sort((a, b) => (a.expense_date ?? '').localeCompare(b.expense_date ?? '')),
+    unconverted_currencies: Array.from(unconverted),
+  };
+}
+
+/**
+ * Rolls ledger entries up into a balance per member, keeping the entries each
+ * balance was derived from so they can be shown as history.
+ * @param entries - Ledger entries from getBalanceLedger
+ * @returns One balance per member appearing in the ledger, largest creditor first
+ */
+export function summarizeBalanceLedger(entries: BalanceLedgerEntry[]): MemberBalance[] {
+  const balances = new Map<string, MemberBalance>();
+  const balanceFor = (userId: string) => {
+    let balance = balances.get(userId);
+    if (!balance) {
+      balance = { user_id: userId, amount_owed: 0, amount_owed_to_them: 0, net_balance: 0, entries: [] };
+      balances.set(userId, balance);
+    }
+    return balance;
+  };
+
+  for (const entry of entries) {
+    const debtor = balanceFor(entry.debtor_id);
+    debtor.amount_owed += entry.amount;
+    debtor.entries.push(entry);
+
+    const creditor = balanceFor(entry.creditor_id);
+    creditor.amount_owed_to_them += entry.amount;
+    creditor.entries.push(entry);
+  }
+
+  return Array.from(balances.values())
+    .map((balance) => ({
+      ...balance,
+      amount_owed: roundMoney(balance.amount_owed),
+      amount_owed_to_them: roundMoney(balance.amount_owed_to_them),
+      net_balance: roundMoney(balance.amount_owed_to_them - balance.amount_owed),
+    }))
+    .sort((a, b) => b.net_balance - a.net_balance);
+}
+
+/**
+ * Builds a settle-up plan for a space: each member's balance with the splits it
+ * came from, and the fewest transfers that bring everyone back to zero.
+ * Works for any number of members, not just a two-person partnership.
+ * @param spaceId - The space ID
+ * @param supabaseClient - Optional Supabase client (defaults to browser client)
+ * @returns Balances, transfers, the splits covered by the plan and the currencies it leaves out
+ * @throws Error if a database query fails
+ */
+export async function getSettleUpPlan(spaceId: string, supabaseClient?: SupabaseClient): Promise<SettleUpPlan> {
+  const supabase = getSupabaseClient(supabaseClient);
+
+  const [{ entries, unconverted_currencies }, currency] = await Promise.all([
+    getBalanceLedger(spaceId, supabase),
+    getSpaceBaseCurrency(spaceId, supabase),
+  ]);
+
+  const balances = summarizeBalanceLedger(entries);
+
+  if (balances.length > 0) {
+    const { data: users, error } = await supabase
+      .from('users')
+      .select('id, email')
+      .in('id', balances.map((b) => b.user_id));
+
+    if (error) throw error;
+
+    const emails = new Map(((users ?? []) as { id: string; email: string | null }[]).map((u) => [u.id, u.email]));
+    for (const balance of balances) {
+      balance.user_email = emails.get(balance.user_id) ?? undefined;
+    }
+  }
+
+  return {
+    space_id: spaceId,
+    currency,
+    balances,
+    transfers: simplifyDebts(balances),
+    split_ids: entries.map((e) => e.split_id),
+    expense_ids: Array.from(new Set(entries.map((e) => e.expense_id))),
+    unconverted_currencies,
+  };
+}
+
+/**
+ * Checks that transfers are exactly the ones in a settle-up plan, in any order.
+ * Used on the server to reject settle-ups built from stale or altered plans.
+ * @param plan - Plan computed on the server
+ * @param transfers - Transfers submitted by the client
+ * @returns Whether every transfer matches a planned one to the cent
+ */
+export function matchesSettleUpPlan(plan: Pick<SettleUpPlan, 'transfers'>, transfers: SettleUpTransfer[]): boolean {
+  if (plan.transfers.length !== transfers.length) return false;
+
+  const keyOf = (t: SettleUpTransfer) => `${t.from_user_id}:${t.to_user_id}:${Math.round(t.amount * 100)}`;
+  const remaining = new Map<string, number>();
+  for (const transfer of plan.transfers) {
+    remaining.set(keyOf(transfer), (remaining.get(keyOf(transfer)) ?? 0) + 1);
+  }
+  for (const transfer of transfers) {
+    const count = remaining.get(keyOf(transfer)) ?? 0;
+    if (count === 0) return false;
+    remaining.set(keyOf(transfer), count - 1);
+  }
+  return true;
+}
+
+/**
+ * Records a settle-up plan in one database transaction: one settlement row per
+ * transfer, and the plan's splits marked settled. The record_settle_up function
+ * is only executable by the service role, so call this from the server with the
+ * admin client, after checking the transfers with matchesSettleUpPlan.
+ * @param input - Transfers and covered splits from getSettleUpPlan plus payment details
+ * @param supabaseClient - Service-role Supabase client
+ * @returns The created settlement records
+ * @throws Error if a transfer is invalid, a split was settled since the plan was made,
+ * or a database operation fails
+ */
+export async function recordSettleUp(
+  input: RecordSettleUpInput,
+  supabaseClient: SupabaseClient
+): Promise<Settlement[]> {
+  if (input.transfers.length === 0) {
+    throw new Error('Nothing to settle');
+  }
+  for (const transfer of input.transfers) {
+    if (transfer.from_user_id === transfer.to_user_id) {
+      throw new Error('A transfer must be between two different members');
+    }
+    if (!(transfer.amount > 0)) {
+      throw new Error('Transfer amounts must be positive');
+    }
+  }
+
+  const { data, error } = await supabaseClient.rpc('record_settle_up', {
+    p_space_id: input.space_id,
+    p_created_by: input.created_by,
+    p_transfers: input.transfers.map((transfer) => ({
+      from_user_id: transfer.from_user_id,
+      to_user_id: transfer.to_user_id,
+      amount: roundMoney(transfer.amount),
+    })),
+    p_split_ids: input.split_ids,
+    p_expense_ids: input.expense_ids.length > 0 ? input.expense_ids : null,
+    // null lets the database default to the space's base currency
+    p_currency: input.currency ? normalizeCurrencyCode(input.currency) : null,
+    p_settlement_date: input.settlement_date || new Date().toISOString().split('T')[0],
+    p_payment_method: input.payment_method || null,
+    p_notes: input.notes || null,
+  });
+
+  if (error) throw error;
+  return (data as Settlement[]) || [];
+}
+
+// ==================== ITEMIZED SPLITS ====================
+
+/**
+ * Divides an amount into cents in proportion to the given weights.
+ * Uses the largest-remainder method so the parts always add up to the amount exactly.
+ */
+function allocateProportionally(amount: number, weights: number[]): number[] {
+  const cents = Math.round(amount * 100);
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+
+  if (cents === 0 || weightSum <= 0) return weights.map(() => 0);
+
+  const raw = weights.map((w) => (cents * w) / weightSum);
+  const parts = raw.map((r) => Math.floor(r));
+  let leftover = cents - parts.reduce((sum, p) => sum + p, 0);
+
+  const byRemainder = raw
+    .map((r, index) => ({ index, remainder: r - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (let i = 0; leftover > 0; i++, leftover--) {
+    parts[byRemainder[i % byRemainder.length].index] += 1;
+  }
+
+  return parts.map((p) => p / 100);
+}
+
+/**
+ * Calculates per-user shares for an itemized (per line item) split.
+ *
+ * Algorithm:
+ * 1. Each item is divided equally between its assignees ('shared' = all participants)
+ * 2. Tax and tip are allocated in proportion to each user's item subtotal
+ * 3. Any difference between the total and items + tax + tip (discounts, rounding)
+ *    is allocated the same way
+ *
+ * Example: Milk $4 (Alex), Wine $12 (Sam), Bread $4 (shared), tax $2
+ *   - Alex: items $6, tax $0.60 → $6.60
+ *   - Sam: items $14, tax $1.40 → $15.40
+ *
+ * All amounts are rounded to cents and always add up to the total.
+ *
+ * @param input - Participants, assigned items, tax, tip and optional total
+ * @returns One share per participant, in participant order
+ * @throws Error if there are no participants, no item amounts, or an item is assigned to a non-participant
+ */
+export function calculateItemizedSplit(input: ItemizedSplitInput): ItemizedShare[] {
+  const participants = Array.from(new Set(input.participants));
+  if (participants.length === 0) {
+    throw new Error('At least one participant is required');
+  }
+
+  const subtotals = participants.map(() => 0);
+  let itemsTotal = 0;
+
+  for (const item of input.items) {
+    if (!(item.amount >= 0)) {
+      throw new Error(`Item "${item.name}" must have a non-negative amount`);
+    }
+
+    const assignees = item.assigned_to === 'shared' || item.assigned_to.length === 0
+      ? participants
+      : Array.from(new Set(item.assigned_to));
+
+    const indexes = assignees.map((userId) => {
+      const index = participants.indexOf(userId);
+      if (index === -1) {
+        throw new Error(`Item "${item.name}" is assigned to a user who is not a participant`);
+      }
+      return index;
+    });
+
+    const parts = allocateProportionally(item.amount, indexes.map(() => 1));
+    indexes.forEach((index, i) => {
+      subtotals[index] = roundMoney(subtotals[index] + parts[i]);
+    });
+    itemsTotal = roundMoney(itemsTotal + item.amount);
+  }
+
+  if (itemsTotal <= 0) {
+    throw new Error('Itemized split needs at least one item with an amount');
+  }
+
+  const tax = roundMoney(input.tax_amount ?? 0);
+  const tip = roundMoney(input.tip_amount ?? 0);
+  const total = roundMoney(input.total_amount ?? itemsTotal + tax + tip);
+
+  const taxShares = allocateProportionally(tax, subtotals);
+  const tipShares = allocateProportionally(tip, subtotals);
+  const adjustments = allocateProportionally(roundMoney(total - itemsTotal - tax - tip), subtotals);
+
+  return participants.map((userId, i) => {
+    const amountOwed = roundMoney(subtotals[i] + taxShares[i] + tipShares[i] + adjustments[i]);
+    return {
+      user_id: userId,
+      item_subtotal: subtotals[i],
+      tax_share: taxShares[i],
+      tip_share: tipShares[i],
+      adjustment: adjustments[i],
+      amount_owed: amountOwed,
+      percentage: total > 0 ? roundMoney((amountOwed / total) * 100) : 0,
+    };
+  });
+}
+
+/**
+ * Builds an itemized split from scanned receipt data.
+ * @param receipt - Data extracted from the receipt (items, tax, tip, total)
+ * @param assignments - Assignee per receipt item, by index; unassigned items are shared
+ * @param participants - User IDs taking part in the split
+ * @returns Input for calculateItemizedSplit or createItemizedExpenseSplits
+ */
+export function buildItemizedSplitFromReceipt(
+  receipt: Pick<ExtractedReceiptData, 'items' | 'tax_amount' | 'tip_amount' | 'total_amount'>,
+  assignments: (ItemAssignee | undefined)[],
+  participants: string[]
+): ItemizedSplitInput {
+  const items = (receipt.items ?? []).map((item, index) => ({
+    name: item.name,
+    quantity: item.quantity ?? null,
+    amount: roundMoney(item.total_price ?? (item.unit_price ?? 0) * (item.quantity ?? 1)),
+    assigned_to: assignments[index] ?? 'shared',
+  }));
+
+  return {
+    participants,
+    items,
+    tax_amount: receipt.tax_amount ?? null,
+    tip_amount: receipt.tip_amount ?? null,
+    total_amount: receipt.total_amount ?? null,
+  };
+}
+
+/**
+ * Retrieves the line item assignments of an itemized expense.
+ * @param expenseId - The expense ID
+ * @param supabaseClient - Optional Supabase client instance for server-side usage
+ * @returns Items in receipt order
+ * @throws Error if the database query fails
+ */
+export async function getExpenseSplitItems(
+  expenseId: string,
+  supabaseClient?: SupabaseClient
+): Promise<ExpenseSplitItem[]> {
+  const supabase = getSupabaseClient(supabaseClient);
+
+  const { data, error } = await supabase
+    .from('expense_split_items')
+    .select('id, expense_id, receipt_id, position, name, quantity, amount, assigned_user_ids, created_at')
+    .eq('expense_id', expenseId)
+    .order('position', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Replaces an expense's splits with per-item splits.
+ * Stores the item assignments, marks the expense as itemized (so the automatic
+ * split calculation skips it) and writes one split row per participant with a
+ * share. The expense amount is used as the total, so discounts or rounding on
+ * the receipt are spread proportionally. The payer's split is marked settled.
+ * The replacement runs in one database transaction.
+ * @param expenseId - The expense to split
+ * @param input - Participants, assigned items, tax, tip and optional source receipt
+ * @param supabaseClient - Optional Supabase client instance for server-side usage
+ * @returns The created split records
+ * @throws Error if the expense is not found, the assignments are invalid, or a write fails
+ */
+export async function createItemizedExpenseSplits(
+  expenseId: string,
+  input: CreateItemizedSplitInput,
+  supabaseClient?: SupabaseClient
+): Promise<ExpenseSplit[]> {
+  const supabase = getSupabaseClient(supabaseClient);
+
+  const { data: expense, error: expenseError } = await supabase
+    .from('expenses')
+    .select('id, amount, paid_by')
+    .eq('id', expenseId)
+    .single();
+
+  if (expenseError) throw expenseError;
+
+  const shares = calculateItemizedSplit({ ...input, total_amount: Number(expense.amount) });
+
+  const now = new Date().toISOString();
+  const rows = shares
+    .filter((share) => share.amount_owed !== 0 || share.user_id === expense.paid_by)
+    .map((share) => {
+      const isPayer = share.user_id === expense.paid_by;
+      return {
+        user_id: share.user_id,
+        amount_owed: share.amount_owed,
+        amount_paid: isPayer ? share.amount_owed : 0,
+        percentage: share.percentage,
+        is_payer: isPayer,
+        status: isPayer ? 'settled' : 'pending',
+        settled_at: isPayer ? now : null,
+        item_subtotal: share.item_subtotal,
+        tax_share: share.tax_share,
+        tip_share: share.tip_share,
+      };
+    });
+
+  // One transaction, so a failed write keeps the previous splits
+  const { data, error } = await supabase.rpc('replace_itemized_expense_splits', {
+    p_expense_id: expenseId,
+    p_receipt_id: input.receipt_id ?? null,
+    p_items: input.items.map((item, position) => ({
+      position,
+      name: item.name,
+      quantity: item.quantity ?? null,
+      amount: item.amount,
+      assigned_user_ids: item.assigned_to === 'shared' ? [] : item.assigned_to,
+    })),
+    p_splits: rows,
+  });
+
+  if (error) throw error;
+  return (data as ExpenseSplit[]) || [];
+}
+
 // ==================== FAIRNESS CALCULATIONS ====================
 
 /**
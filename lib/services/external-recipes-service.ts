@@ -4,6 +4,8 @@
  */
 
 import { logger } from '@/lib/logger';
+import { findDietaryConflicts } from '@/lib/utils/dietary-helpers';
+import type { MemberDietaryProfile } from '@/lib/services/dietary-profile-service';
 
 export interface ExternalRecipe {
   id: string;
@@ -211,6 +213,18 @@ export async function searchExternalRecipes(query: string): Promise<ExternalReci
   });
 }
 
+/**
+ * Drop recipes whose ingredients conflict with any of the given dietary
+ * profiles (allergies, intolerances or diets)
+ */
+export function excludeDietaryConflicts(
+  recipes: ExternalRecipe[],
+  profiles: MemberDietaryProfile[]
+): ExternalRecipe[] {
+  if (profiles.length === 0) return recipes;
+  return recipes.filter((recipe) => findDietaryConflicts(recipe.ingredients, profiles).length === 0);
+}
+
 /**
  * Search TheMealDB by cuisine
  */
@@ -10,8 +10,19 @@ import { createClient } from '@/lib/supabase/client';
 import { z } from 'zod';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { logger } from '@/lib/logger';
-import { notifyLocationArrival, notifyLocationDeparture } from '@/lib/services/push-notification-service';
+import { notifyLocationArrival, notifyLocationDeparture, notifyLocationReminder } from '@/lib/services/push-notification-service';
+import { shoppingIntegrationService } from '@/lib/services/shopping-integration-service';
+import type { Reminder } from '@/lib/services/reminders-service';
 import { fireAndForgetPush } from '@/lib/utils/fire-and-forget-push';
+import {
+  calculateDistance,
+  isWithinGeofence,
+  isInsideShape,
+  stepGeofence,
+  toGeofence,
+  type GeoPoint,
+  type GeofenceState,
+} from '@/lib/utils/geofence';
 import { sanitizePlainText } from '@/lib/sanitize';
 
 // =============================================
@@ -45,6 +56,10 @@ export interface FamilyPlace {
   longitude: number;
   address: string | null;
   radius_meters: number;
+  /** Polygon corners; null for a circle of radius_meters around the pin */
+  boundary: GeoPoint[] | null;
+  dwell_seconds: number;
+  exit_buffer_meters: number;
   notify_on_arrival: boolean;
   notify_on_departure: boolean;
   created_by: string | null;
@@ -81,6 +96,33 @@ export interface GeofenceEvent {
   created_at: string;
 }
 
+/** The trigger fields of a location reminder */
+export type LocationReminderRule = Pick<
+  Reminder,
+  | 'id'
+  | 'title'
+  | 'assigned_to'
+  | 'location'
+  | 'place_id'
+  | 'location_latitude'
+  | 'location_longitude'
+  | 'location_radius_meters'
+  | 'location_trigger'
+  | 'location_member_ids'
+  | 'location_cooldown_minutes'
+  | 'location_last_triggered_at'
+>;
+
+/** One location update: who moved, from where to where, and the place events it recorded */
+export interface LocationMovement {
+  userId: string;
+  previous: { latitude: number; longitude: number } | null;
+  current: { latitude: number; longitude: number };
+  /** Accuracy of the current fix in meters, when the device reported it */
+  accuracy?: number | null;
+  events: Pick<GeofenceEvent, 'place_id' | 'event_type'>[];
+}
+
 export interface FamilyMemberLocation {
   user_id: string;
   name: string;
@@ -114,6 +156,11 @@ const LocationUpdateSchema = z.object({
   recorded_at: z.string().datetime().optional(),
 });
 
+const GeoPointSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
 const CreatePlaceSchema = z.object({
   name: z.string().min(1).max(100).trim(),
   icon: z.string().default('map-pin'),
@@ -122,6 +169,10 @@ const CreatePlaceSchema = z.object({
   longitude: z.number().min(-180).max(180),
   address: z.string().max(500).optional(),
   radius_meters: z.number().min(50).max(5000).default(150),
+  boundary: z.array(GeoPointSchema).min(3).max(50).nullable().optional(),
+  // No defaults here so partial updates leave them alone; the table has them
+  dwell_seconds: z.number().int().min(0).max(1800).optional(),
+  exit_buffer_meters: z.number().int().min(0).max(1000).optional(),
   notify_on_arrival: z.boolean().default(true),
   notify_on_departure: z.boolean().default(true),
 });
@@ -146,45 +197,7 @@ const UpdateSharingSettingsSchema = z.object({
 
 const getSupabaseClient = (supabase?: SupabaseClient) => supabase ?? createClient();
 
-/**
- * Calculate distance between two points in meters (Haversine formula)
- */
-export function calculateDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371e3; // Earth's radius in meters
-  const phi1 = (lat1 * Math.PI) / 180;
-  const phi2 = (lat2 * Math.PI) / 180;
-  const deltaPhi = ((lat2 - lat1) * Math.PI) / 180;
-  const deltaLambda = ((lon2 - lon1) * Math.PI) / 180;
-
-  const a =
-    Math.sin(deltaPhi / 2) * Math.sin(deltaPhi / 2) +
-    Math.cos(phi1) * Math.cos(phi2) * Math.sin(deltaLambda / 2) * Math.sin(deltaLambda / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c;
-}
-
-/**
- * Check if a point is within a geofence radius
- */
-export function isWithinGeofence(
-  point: { latitude: number; longitude: number },
-  center: { latitude: number; longitude: number },
-  radiusMeters: number
-): boolean {
-  const distance = calculateDistance(
-    point.latitude,
-    point.longitude,
-    center.latitude,
-    center.longitude
-  );
-  return distance <= radiusMeters;
-}
+export { calculateDistance, isWithinGeofence };
 
 /**
  * Apply privacy precision to location coordinates
@@ -266,7 +279,7 @@ export async function updateUserLocation(
     }
 
     // Check geofences asynchronously
-    checkGeofences(userId, spaceId, validated.latitude, validated.longitude, supabaseClient).catch((err) => {
+    checkGeofences(userId, spaceId, data, supabaseClient).catch((err) => {
       logger.error('checkGeofences error', err, { component: 'family-location-service', action: 'check_geofences' });
     });
 
@@ -372,7 +385,7 @@ export async function getFamilyLocations(
     // Get places for current location matching
     const { data: places } = await supabase
       .from('family_places')
-      .select('id, space_id, name, icon, color, latitude, longitude, address, radius_meters, notify_on_arrival, notify_on_departure, created_by, created_at, updated_at')
+      .select('id, space_id, name, icon, color, latitude, longitude, address, radius_meters, boundary, dwell_seconds, exit_buffer_meters, notify_on_arrival, notify_on_departure, created_by, created_at, updated_at')
       .eq('space_id', spaceId);
 
     // Batch fetch latest location for all members (avoids N+1 queries)
@@ -424,11 +437,7 @@ export async function getFamilyLocations(
       let currentPlace: FamilyPlace | null = null;
       if (places) {
         for (const place of places) {
-          if (isWithinGeofence(
-            { latitude: location.latitude, longitude: location.longitude },
-            { latitude: place.latitude, longitude: place.longitude },
-            place.radius_meters
-          )) {
+          if (isInsideShape(location, toGeofence(place).shape)) {
             currentPlace = place;
             break;
           }
@@ -536,6 +545,9 @@ export async function createPlace(
         longitude: validated.longitude,
         address: validated.address ?? null,
         radius_meters: validated.radius_meters,
+        boundary: validated.boundary ?? null,
+        dwell_seconds: validated.dwell_seconds,
+        exit_buffer_meters: validated.exit_buffer_meters,
         notify_on_arrival: validated.notify_on_arrival,
         notify_on_departure: validated.notify_on_departure,
         created_by: userId,
@@ -574,7 +586,7 @@ export async function getPlaces(
 
     const { data, error } = await supabase
       .from('family_places')
-      .select('id, space_id, name, icon, color, latitude, longitude, address, radius_meters, notify_on_arrival, notify_on_departure, created_by, created_at, updated_at')
+      .select('id, space_id, name, icon, color, latitude, longitude, address, radius_meters, boundary, dwell_seconds, exit_buffer_meters, notify_on_arrival, notify_on_departure, created_by, created_at, updated_at')
       .eq('space_id', spaceId)
       .order('name');
 
@@ -783,55 +795,88 @@ export async function updateSharingSettings(
 // =============================================
 
 /**
- * Check geofences and create events if user entered/exited
+ * Step the user's geofence state at each place by a new fix, recording an
+ * event when they arrive or leave
+ * States are kept in geofence_states between updates; see stepGeofence for
+ * the dwell, exit buffer and accuracy rules.
  */
 async function checkGeofences(
   userId: string,
   spaceId: string,
-  latitude: number,
-  longitude: number,
+  location: Pick<UserLocation, 'latitude' | 'longitude' | 'accuracy' | 'recorded_at'>,
   supabaseClient?: SupabaseClient
 ): Promise<void> {
   try {
     const supabase = getSupabaseClient(supabaseClient);
+    const { latitude, longitude } = location;
 
     // Get all places for the space
     const places = await getPlaces(spaceId, supabase);
 
-    // Get user's previous location
-    const { data: previousLocations } = await supabase
-      .from('user_locations')
-      .select('latitude, longitude')
-      .eq('user_id', userId)
-      .eq('space_id', spaceId)
-      .order('recorded_at', { ascending: false })
-      .limit(2);
+    // Get user's previous location and their state at each place
+    const [{ data: previousLocations }, { data: stateRows }] = await Promise.all([
+      supabase
+        .from('user_locations')
+        .select('latitude, longitude')
+        .eq('user_id', userId)
+        .eq('space_id', spaceId)
+        .order('recorded_at', { ascending: false })
+        .limit(2),
+      supabase
+        .from('geofence_states')
+        .select('place_id, status, since')
+        .eq('user_id', userId)
+        .eq('space_id', spaceId),
+    ]);
 
     const previousLocation = previousLocations?.[1]; // Index 1 because index 0 is the one we just inserted
+    const states = new Map<string, GeofenceState>(
+      (stateRows ?? []).map((row: GeofenceState & { place_id: string }) => [row.place_id, { status: row.status, since: row.since }])
+    );
+
+    const events: LocationMovement['events'] = [];
+    const changedStates: (GeofenceState & { user_id: string; space_id: string; place_id: string })[] = [];
 
     for (const place of places) {
-      const currentlyInside = isWithinGeofence(
-        { latitude, longitude },
-        { latitude: place.latitude, longitude: place.longitude },
-        place.radius_meters
-      );
+      const previousState = states.get(place.id) ?? null;
+      const step = stepGeofence(previousState, toGeofence(place), location);
+      if (step.rejected || !step.state) continue;
+
+      if (step.state !== previousState) {
+        changedStates.push({ user_id: userId, space_id: spaceId, place_id: place.id, ...step.state });
+      }
+
+      // Events are recorded for every place so location reminders can use
+      // them; the place's settings only decide whether the family is notified
+      if (step.event === 'arrival') {
+        events.push({ place_id: place.id, event_type: 'arrival' });
+        await createGeofenceEvent(userId, spaceId, place.id, 'arrival', latitude, longitude, supabase, place.notify_on_arrival);
+      } else if (step.event === 'departure') {
+        events.push({ place_id: place.id, event_type: 'departure' });
+        await createGeofenceEvent(userId, spaceId, place.id, 'departure', latitude, longitude, supabase, place.notify_on_departure);
+      }
+    }
 
-      const wasInside = previousLocation
-        ? isWithinGeofence(
-            { latitude: previousLocation.latitude, longitude: previousLocation.longitude },
-            { latitude: place.latitude, longitude: place.longitude },
-            place.radius_meters
-          )
-        : false;
-
-      if (currentlyInside && !wasInside && place.notify_on_arrival) {
-        // Arrival event
-        await createGeofenceEvent(userId, spaceId, place.id, 'arrival', latitude, longitude, supabase);
-      } else if (!currentlyInside && wasInside && place.notify_on_departure) {
-        // Departure event
-        await createGeofenceEvent(userId, spaceId, place.id, 'departure', latitude, longitude, supabase);
+    if (changedStates.length > 0) {
+      const { error: stateError } = await supabase
+        .from('geofence_states')
+        .upsert(changedStates, { onConflict: 'user_id,place_id' });
+
+      if (stateError) {
+        logger.error('Failed to save geofence states', stateError instanceof Error ? stateError : new Error(JSON.stringify(stateError)), {
+          component: 'family-location-service',
+          action: 'save_geofence_states',
+          details: { userId, spaceId },
+        });
       }
     }
+
+    await checkLocationReminders(
+      spaceId,
+      { userId, previous: previousLocation ?? null, current: { latitude, longitude }, accuracy: location.accuracy, events },
+      places,
+      supabase
+    );
   } catch (error) {
     logger.error('checkGeofences error', error instanceof Error ? error : new Error('Unknown error'), {
       component: 'family-location-service',
@@ -863,7 +908,8 @@ function isWithinQuietHours(quietStart: string | null, quietEnd: string | null):
 }
 
 /**
- * Create a geofence event and send push notifications to family members
+ * Create a geofence event and, when `notify` is set, send push notifications
+ * to family members
  */
 async function createGeofenceEvent(
   userId: string,
@@ -872,7 +918,8 @@ async function createGeofenceEvent(
   eventType: 'arrival' | 'departure',
   latitude: number,
   longitude: number,
-  supabase: SupabaseClient
+  supabase: SupabaseClient,
+  notify: boolean = true
 ): Promise<void> {
   try {
     const { data: eventData, error } = await supabase
@@ -897,6 +944,8 @@ async function createGeofenceEvent(
       return;
     }
 
+    if (!notify) return;
+
     // Fetch user name and place name for notification text
     const [userResult, placeResult] = await Promise.all([
       supabase.from('users').select('name').eq('id', userId).single(),
@@ -958,6 +1007,173 @@ async function createGeofenceEvent(
   }
 }
 
+// =============================================
+// LOCATION REMINDERS
+// =============================================
+
+const LOCATION_REMINDER_COLUMNS = 'id, title, assigned_to, location, place_id, location_latitude, location_longitude, location_radius_meters, location_trigger, location_member_ids, location_cooldown_minutes, location_last_triggered_at';
+
+/**
+ * Find the location reminders a movement fires
+ * Place reminders follow the arrival/departure events recorded for the
+ * update; ad-hoc reminders check the previous and current fix against their
+ * own point and radius. Reminders for other members, or still in their
+ * cooldown, are skipped.
+ */
+export function getTriggeredLocationReminders<T extends LocationReminderRule>(
+  reminders: T[],
+  movement: LocationMovement,
+  now: Date = new Date()
+): T[] {
+  return reminders.filter((reminder) => {
+    const members = reminder.location_member_ids?.length
+      ? reminder.location_member_ids
+      : reminder.assigned_to
+        ? [reminder.assigned_to]
+        : null;
+    if (members && !members.includes(movement.userId)) return false;
+
+    if (reminder.location_last_triggered_at) {
+      const cooldownMs = (reminder.location_cooldown_minutes ?? 60) * 60 * 1000;
+      if (now.getTime() - new Date(reminder.location_last_triggered_at).getTime() < cooldownMs) return false;
+    }
+
+    const eventType = reminder.location_trigger === 'leave' ? 'departure' : 'arrival';
+
+    if (reminder.place_id) {
+      return movement.events.some((event) => event.place_id === reminder.place_id && event.event_type === eventType);
+    }
+
+    if (
+      reminder.location_latitude == null ||
+      reminder.location_longitude == null ||
+      reminder.location_radius_meters == null
+    ) {
+      return false;
+    }
+    // Too coarse a fix cannot tell whether the point was crossed
+    if (movement.accuracy != null && movement.accuracy > reminder.location_radius_meters) return false;
+
+    const center = { latitude: reminder.location_latitude, longitude: reminder.location_longitude };
+    const inside = isWithinGeofence(movement.current, center, reminder.location_radius_meters);
+    const wasInside = movement.previous
+      ? isWithinGeofence(movement.previous, center, reminder.location_radius_meters)
+      : false;
+    return eventType === 'arrival' ? inside && !wasInside : wasInside && !inside;
+  });
+}
+
+/**
+ * Fire the space's location reminders for a location update
+ */
+async function checkLocationReminders(
+  spaceId: string,
+  movement: LocationMovement,
+  places: FamilyPlace[],
+  supabase: SupabaseClient
+): Promise<void> {
+  try {
+    const { data, error } = await supabase
+      .from('reminders')
+      .select(LOCATION_REMINDER_COLUMNS)
+      .eq('space_id', spaceId)
+      .eq('reminder_type', 'location')
+      .eq('status', 'active');
+
+    if (error) {
+      logger.error('checkLocationReminders error', error instanceof Error ? error : new Error(JSON.stringify(error)), {
+        component: 'family-location-service',
+        action: 'check_location_reminders',
+      });
+      return;
+    }
+
+    const triggered = getTriggeredLocationReminders((data ?? []) as LocationReminderRule[], movement);
+    for (const reminder of triggered) {
+      const place = places.find((p) => p.id === reminder.place_id);
+      await fireLocationReminder(spaceId, movement.userId, reminder, place?.name ?? reminder.location ?? null, supabase);
+    }
+  } catch (error) {
+    logger.error('checkLocationReminders error', error instanceof Error ? error : new Error('Unknown error'), {
+      component: 'family-location-service',
+      action: 'check_location_reminders',
+    });
+  }
+}
+
+/**
+ * Notify a member of a location reminder they triggered
+ * The reminder is claimed by stamping when it fired, guarded on the previous
+ * stamp, so two updates arriving together only fire it once. Shopping lists
+ * linked to the reminder are included in the notification.
+ */
+async function fireLocationReminder(
+  spaceId: string,
+  userId: string,
+  reminder: LocationReminderRule,
+  placeName: string | null,
+  supabase: SupabaseClient
+): Promise<void> {
+  try {
+    const claim = supabase
+      .from('reminders')
+      .update({ location_last_triggered_at: new Date().toISOString() })
+      .eq('id', reminder.id);
+    const { data: claimed, error: claimError } = await (reminder.location_last_triggered_at
+      ? claim.eq('location_last_triggered_at', reminder.location_last_triggered_at)
+      : claim.is('location_last_triggered_at', null)
+    ).select('id');
+
+    if (claimError || !claimed?.length) {
+      if (claimError) {
+        logger.error('fireLocationReminder claim error', claimError instanceof Error ? claimError : new Error(JSON.stringify(claimError)), {
+          component: 'family-location-service',
+          action: 'fire_location_reminder',
+          details: { reminderId: reminder.id },
+        });
+      }
+      return;
+    }
+
+    const title = sanitizePlainText(reminder.title);
+    const where = sanitizePlainText(placeName ?? 'your saved spot');
+    const lists = await shoppingIntegrationService.getLocationReminderLists(reminder.id, supabase);
+    const message = [
+      reminder.location_trigger === 'leave' ? `You left ${where}` : `You're at ${where}`,
+      ...lists.map((list) => `${sanitizePlainText(list.title)}: ${list.items_left} item${list.items_left === 1 ? '' : 's'} left`),
+    ].join(' · ');
+
+    const { error: notificationError } = await supabase
+      .from('reminder_notifications')
+      .insert({
+        reminder_id: reminder.id,
+        user_id: userId,
+        type: 'location',
+        channel: 'in_app',
+        title,
+        message,
+      });
+
+    if (notificationError) {
+      logger.error('fireLocationReminder notification error', notificationError instanceof Error ? notificationError : new Error(JSON.stringify(notificationError)), {
+        component: 'family-location-service',
+        action: 'fire_location_reminder',
+        details: { reminderId: reminder.id },
+      });
+    }
+
+    const settings = await getSharingSettings(userId, spaceId, supabase);
+    if (settings && isWithinQuietHours(settings.quiet_hours_start, settings.quiet_hours_end)) return;
+
+    fireAndForgetPush(() => notifyLocationReminder(userId, title, message, lists.length > 0 ? '/shopping' : '/reminders'));
+  } catch (error) {
+    logger.error('fireLocationReminder error', error instanceof Error ? error : new Error('Unknown error'), {
+      component: 'family-location-service',
+      action: 'fire_location_reminder',
+    });
+  }
+}
+
 /**
  * Get recent geofence events for a space
  */
@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/client';
 import { getAppUrl } from '@/lib/utils/app-url';
+import { getCurrencyConverter, normalizeCurrencyCode, roundMoney, type CurrencyConverter } from './currency-service';
 
 // Financial Reports Service
 // Comprehensive reporting system with PDF generation
@@ -74,11 +75,15 @@ export interface ReportData {
     end: string;
   };
   generated_at: string;
+  base_currency?: string;
+  unconverted_currencies?: string[]; // Currencies left out of the report for lack of an exchange rate
 }
 
 export interface ExpenseData {
   id: string;
-  amount: number;
+  amount: number; // In the report's base currency
+  currency?: string; // Original currency of the expense
+  original_amount?: number; // Amount in the original currency
   category: string;
   subcategory?: string;
   vendor?: string;
@@ -89,7 +94,8 @@ export interface ExpenseData {
 
 export interface BudgetData {
   category: string;
-  budgeted_amount: number;
+  budgeted_amount: number; // In the report's base currency
+  currency?: string; // Original currency of the budget
   period: string;
 }
 
@@ -349,7 +355,7 @@ class FinancialReportsService {
     }
   }
 
-  // Get financial data for reports
+  // Get financial data for reports, with all amounts in the space base currency
   private async getFinancialReportData(
     spaceId: string,
     startDate: string,
@@ -365,7 +371,51 @@ class FinancialReportsService {
       });
 
     if (error) throw error;
-    return data;
+
+    const converter = await getCurrencyConverter(spaceId, this.supabase);
+    return this.convertReportData(data, converter);
+  }
+
+  // Convert expense and budget amounts to the base currency and recompute totals.
+  // Amounts with no exchange rate are left out and listed in unconverted_currencies.
+  private convertReportData(data: ReportData, converter: CurrencyConverter): ReportData {
+    const unconverted = new Set<string>();
+
+    const expenses: ExpenseData[] = [];
+    for (const expense of data.expenses || []) {
+      const amount = converter.tryToBase(Number(expense.amount), expense.currency, expense.date);
+      if (amount === null) {
+        unconverted.add(normalizeCurrencyCode(expense.currency));
+        continue;
+      }
+      expenses.push({ ...expense, amount, original_amount: Number(expense.amount) });
+    }
+
+    const budgets: BudgetData[] = [];
+    for (const budget of data.budgets || []) {
+      const budgetedAmount = converter.tryToBase(Number(budget.budgeted_amount), budget.currency);
+      if (budgetedAmount === null) {
+        unconverted.add(normalizeCurrencyCode(budget.currency));
+        continue;
+      }
+      budgets.push({ ...budget, budgeted_amount: budgetedAmount });
+    }
+
+    const total = expenses.reduce((sum, e) => sum + e.amount, 0);
+
+    return {
+      ...data,
+      expenses,
+      budgets,
+      base_currency: converter.baseCurrency,
+      unconverted_currencies: Array.from(unconverted),
+      metrics: {
+        ...data.metrics,
+        total_expenses: roundMoney(total),
+        avg_expense: expenses.length > 0 ? roundMoney(total / expenses.length) : 0,
+        max_expense: expenses.reduce((max, e) => Math.max(max, e.amount), 0),
+      },
+    };
   }
 
   // Generate charts configuration based on data and config
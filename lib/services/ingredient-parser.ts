@@ -3,6 +3,16 @@
  * Parses recipe ingredients and aggregates them for shopping lists
  */
 
+import {
+  convertAmount,
+  formatAmount,
+  isKnownUnit,
+  normalizeUnit,
+  roundAmount,
+  toMeasurementSystem,
+  type MeasurementSystem,
+} from '@/lib/utils/units';
+
 export interface ParsedIngredient {
   name: string;
   amount: number;
@@ -12,6 +22,9 @@ export interface ParsedIngredient {
   recipeName?: string;
 }
 
+/** An ingredient as recipes store it: a free-text line or split into parts */
+export type RecipeIngredient = string | { name: string; amount?: string | number; unit?: string; originalText?: string };
+
 export interface AggregatedIngredient {
   name: string;
   amount: number;
@@ -20,82 +33,6 @@ export interface AggregatedIngredient {
   notes?: string;
 }
 
-/**
- * Common unit conversions to standardize measurements
- */
-const UNIT_CONVERSIONS: Record<string, string> = {
-  // Volume
-  'cup': 'cup',
-  'cups': 'cup',
-  'c': 'cup',
-  'tablespoon': 'tbsp',
-  'tablespoons': 'tbsp',
-  'tbsp': 'tbsp',
-  'tbs': 'tbsp',
-  'teaspoon': 'tsp',
-  'teaspoons': 'tsp',
-  'tsp': 'tsp',
-  'fluid ounce': 'fl oz',
-  'fluid ounces': 'fl oz',
-  'fl oz': 'fl oz',
-  'ounce': 'oz',
-  'ounces': 'oz',
-  'oz': 'oz',
-  'pint': 'pint',
-  'pints': 'pint',
-  'quart': 'quart',
-  'quarts': 'quart',
-  'gallon': 'gallon',
-  'gallons': 'gallon',
-  'milliliter': 'ml',
-  'milliliters': 'ml',
-  'ml': 'ml',
-  'liter': 'L',
-  'liters': 'L',
-  'l': 'L',
-
-  // Weight
-  'pound': 'lb',
-  'pounds': 'lb',
-  'lb': 'lb',
-  'lbs': 'lb',
-  'gram': 'g',
-  'grams': 'g',
-  'g': 'g',
-  'kilogram': 'kg',
-  'kilograms': 'kg',
-  'kg': 'kg',
-
-  // Count
-  'piece': 'piece',
-  'pieces': 'piece',
-  'whole': 'whole',
-  'slice': 'slice',
-  'slices': 'slice',
-  'clove': 'clove',
-  'cloves': 'clove',
-  'can': 'can',
-  'cans': 'can',
-  'package': 'package',
-  'packages': 'package',
-  'bunch': 'bunch',
-  'bunches': 'bunch',
-  'block': 'block',
-  'blocks': 'block',
-  'stick': 'stick',
-  'sticks': 'stick',
-  'head': 'head',
-  'heads': 'head',
-  'bag': 'bag',
-  'bags': 'bag',
-  'box': 'box',
-  'boxes': 'box',
-  'jar': 'jar',
-  'jars': 'jar',
-  'bottle': 'bottle',
-  'bottles': 'bottle',
-};
-
 /**
  * Parse a fraction string to decimal
  */
@@ -136,14 +73,6 @@ function parseAmount(amountStr: string): number {
   return parseFloat(amountStr);
 }
 
-/**
- * Normalize unit to standard form
- */
-function normalizeUnit(unit: string): string {
-  const normalized = unit.toLowerCase().trim();
-  return UNIT_CONVERSIONS[normalized] || normalized;
-}
-
 /**
  * Parse a single ingredient string
  * Supports formats like:
@@ -193,6 +122,49 @@ export function parseIngredient(
   };
 }
 
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4', '⅕': '1/5',
+  '⅖': '2/5', '⅗': '3/5', '⅘': '4/5', '⅙': '1/6', '⅚': '5/6', '⅛': '1/8',
+  '⅜': '3/8', '⅝': '5/8', '⅞': '7/8',
+};
+
+/**
+ * Split a free-text ingredient line into amount, unit and name strings,
+ * the shape recipes store. Unlike parseIngredient, a word only counts as a
+ * unit if it is a known one, so "salt and pepper to taste" keeps its name.
+ * - "1 ½ cups plain flour" → { amount: "1 1/2", unit: "cup", name: "plain flour" }
+ * - "400g spaghetti" → { amount: "400", unit: "g", name: "spaghetti" }
+ * - "2 large eggs" → { amount: "2", unit: "", name: "large eggs" }
+ */
+export function splitIngredientLine(line: string): { name: string; amount: string; unit: string } {
+  const text = line
+    .replace(/(\d)?\s*([½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/g, (_, whole: string | undefined, fraction: string) =>
+      `${whole ? `${whole} ` : ''}${UNICODE_FRACTIONS[fraction]}`)
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const amountMatch = text.match(/^(\d+ \d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?(?: ?[-–] ?\d+(?:[.,]\d+)?)?)\s*/);
+  if (!amountMatch) {
+    return { name: text, amount: '', unit: '' };
+  }
+
+  const amount = amountMatch[1].replace('–', '-').replace(/ ?- ?/, '-').replace(',', '.');
+  let rest = text.slice(amountMatch[0].length);
+  let unit = '';
+
+  // Two-word units first ("fl oz", "fluid ounces"), then single words ("tbsp.")
+  const unitMatch = rest.match(/^([a-zA-Z]+ [a-zA-Z]+|[a-zA-Z]+)\.?(?=\s|$)/);
+  for (const candidate of unitMatch ? [unitMatch[1], unitMatch[1].split(' ')[0]] : []) {
+    if (isKnownUnit(candidate)) {
+      unit = normalizeUnit(candidate);
+      rest = rest.slice(candidate.length).replace(/^\.?\s*/, '');
+      break;
+    }
+  }
+
+  return { name: rest.replace(/^of\s+/i, ''), amount, unit };
+}
+
 /**
  * Parse ingredients from a recipe object
  */
@@ -200,7 +172,7 @@ export function parseRecipeIngredients(
   recipe: {
     id: string;
     name: string;
-    ingredients: Array<string | { name: string; amount?: string | number; unit?: string; originalText?: string }> | null;
+    ingredients: RecipeIngredient[] | null;
   }
 ): ParsedIngredient[] {
   if (!recipe.ingredients) return [];
@@ -210,8 +182,8 @@ export function parseRecipeIngredients(
     return recipe.ingredients.map((ing) => {
       // If ingredient is already an object with structure
       if (typeof ing === 'object' && ing.name) {
-        // Convert amount to number if it's a string
-        const amount = typeof ing.amount === 'string' ? parseFloat(ing.amount) || 1 : (ing.amount || 1);
+        // Convert amount to number if it's a string ("1 1/2", "2-3")
+        const amount = typeof ing.amount === 'string' ? parseAmount(ing.amount.trim()) || 1 : (ing.amount || 1);
         return {
           name: ing.name,
           amount,
@@ -241,36 +213,56 @@ export function parseRecipeIngredients(
 
 /**
  * Aggregate ingredients from multiple recipes
- * Combines ingredients with the same name and unit
+ * Combines ingredients with the same name whose units convert into each other
+ * (tbsp into cups, ml into L, cups of flour into grams). Totals keep the unit
+ * first seen, or are re-expressed in `system` when one is given.
  */
 export function aggregateIngredients(
-  parsedIngredients: ParsedIngredient[]
+  parsedIngredients: ParsedIngredient[],
+  options: { system?: MeasurementSystem } = {}
 ): AggregatedIngredient[] {
-  const aggregated: Record<string, AggregatedIngredient> = {};
+  const aggregated: Record<string, AggregatedIngredient[]> = {};
+  // Lines that summed amounts converted from another unit
+  const convertedLines = new Set<AggregatedIngredient>();
 
   for (const ingredient of parsedIngredients) {
-    // Create a key based on name and unit (normalize for comparison)
-    const key = `${ingredient.name.toLowerCase()}|${ingredient.unit.toLowerCase()}`;
+    const key = ingredient.name.toLowerCase();
+    const lines = aggregated[key] ?? (aggregated[key] = []);
+
+    // Fold into the first line whose unit this one converts to
+    let line: AggregatedIngredient | undefined;
+    let amount: number | null = null;
+    for (const existing of lines) {
+      amount = convertAmount(ingredient.amount, ingredient.unit, existing.unit, ingredient.name);
+      if (amount !== null) {
+        line = existing;
+        break;
+      }
+    }
 
-    if (!aggregated[key]) {
-      aggregated[key] = {
+    if (!line) {
+      line = {
         name: ingredient.name,
         amount: 0,
         unit: ingredient.unit,
         recipes: [],
       };
+      lines.push(line);
+      amount = ingredient.amount;
     }
 
-    // Add amount
-    aggregated[key].amount += ingredient.amount;
+    line.amount += amount ?? ingredient.amount;
+    if (normalizeUnit(ingredient.unit) !== normalizeUnit(line.unit)) {
+      convertedLines.add(line);
+    }
 
     // Add recipe reference if not already present
     if (ingredient.recipeId && ingredient.recipeName) {
-      const existingRecipe = aggregated[key].recipes.find(
+      const existingRecipe = line.recipes.find(
         (r) => r.id === ingredient.recipeId
       );
       if (!existingRecipe) {
-        aggregated[key].recipes.push({
+        line.recipes.push({
           id: ingredient.recipeId,
           name: ingredient.recipeName,
         });
@@ -278,17 +270,163 @@ export function aggregateIngredients(
     }
   }
 
-  // Convert to array and sort by name
-  return Object.values(aggregated).sort((a, b) => a.name.localeCompare(b.name));
+  return Object.values(aggregated)
+    .flat()
+    .map((line) => {
+      const converted = options.system && line.unit
+        ? toMeasurementSystem(line.amount, line.unit, options.system)
+        : { amount: line.amount, unit: line.unit };
+      // Converted totals ("486.588 ml") are rounded the way a recipe prints them
+      const amount = convertedLines.has(line) || converted.unit !== normalizeUnit(line.unit)
+        ? roundAmount(converted.amount, converted.unit)
+        : Math.round(converted.amount * 10000) / 10000;
+      return { ...line, amount, unit: converted.unit };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Scale parsed ingredients, e.g. by wanted servings / recipe servings
+ */
+export function scaleIngredients(ingredients: ParsedIngredient[], factor: number): ParsedIngredient[] {
+  if (factor === 1 || !(factor > 0)) return ingredients;
+  return ingredients.map((ingredient) => ({ ...ingredient, amount: ingredient.amount * factor }));
+}
+
+/**
+ * Factor that turns a recipe's yield into the servings wanted
+ * @returns 1 when either side is unknown
+ */
+export function getServingsScale(recipeServings: number | null | undefined, wantedServings: number | null | undefined): number {
+  if (!recipeServings || !wantedServings || recipeServings <= 0 || wantedServings <= 0) return 1;
+  return wantedServings / recipeServings;
+}
+
+/** A recipe ingredient in either format as amount text, canonical unit and name */
+function toIngredientLine(ingredient: RecipeIngredient): { name: string; amount: string; unit: string } {
+  if (typeof ingredient === 'string') return splitIngredientLine(ingredient);
+  return {
+    name: ingredient.name,
+    amount: ingredient.amount !== undefined && ingredient.amount !== null ? String(ingredient.amount).trim() : '',
+    unit: ingredient.unit ? normalizeUnit(ingredient.unit) : '',
+  };
+}
+
+/**
+ * Name, numeric amount and canonical unit of a recipe ingredient in either format
+ * @returns amount null when the line gives no quantity ("salt to taste")
+ */
+export function measureIngredient(ingredient: RecipeIngredient): { name: string; amount: number | null; unit: string } {
+  const line = toIngredientLine(ingredient);
+  const amount = line.amount ? parseAmount(line.amount) : NaN;
+  return { name: line.name, amount: Number.isFinite(amount) && amount > 0 ? amount : null, unit: line.unit };
+}
+
+/**
+ * Scale one stored recipe ingredient for display
+ * Amounts are rounded to kitchen fractions ("1/3 cup", not "0.333") or tidy
+ * metric values, and converted to `system` when given. Ingredients without an
+ * amount ("salt to taste") are returned as they are.
+ */
+export function scaleRecipeIngredient(
+  ingredient: RecipeIngredient,
+  factor: number,
+  system?: MeasurementSystem
+): { name: string; amount: string; unit: string } {
+  const line = toIngredientLine(ingredient);
+  const parsed = line.amount ? parseAmount(line.amount) : NaN;
+  if (!Number.isFinite(parsed) || (factor === 1 && !system)) return line;
+
+  const scaled = system && line.unit
+    ? toMeasurementSystem(parsed * factor, line.unit, system)
+    : { amount: parsed * factor, unit: line.unit };
+  return { name: line.name, amount: formatAmount(scaled.amount, scaled.unit), unit: scaled.unit };
+}
+
+/**
+ * Normalize an ingredient name for matching against pantry stock
+ * Lowercases, drops notes in parentheses or after a comma, and singularizes
+ * the last word ("Tomatoes (ripe)" → "tomato")
+ */
+export function normalizeIngredientName(name: string): string {
+  const words = name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .split(',')[0]
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const last = words.pop();
+  if (!last) return '';
+
+  let singular = last;
+  if (/ies$/.test(last) && last.length > 4) singular = last.slice(0, -3) + 'y';
+  else if (/(?:oes|ches|shes|xes|sses)$/.test(last)) singular = last.slice(0, -2);
+  else if (/[^s]s$/.test(last) && last.length > 3) singular = last.slice(0, -1);
+
+  return [...words, singular].join(' ');
+}
+
+/**
+ * Stock on hand used to reduce a shopping list
+ * A null quantity means an untracked amount ("some"), which covers any recipe need.
+ */
+export interface PantryStock {
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+}
+
+/**
+ * Subtract pantry stock from aggregated ingredients
+ * Stock counts against an ingredient with the same name when its unit converts
+ * to the ingredient's (grams of flour against cups of flour uses the density
+ * table); stock in other units is left for the shopper to judge.
+ * @returns What still needs buying (amounts reduced) and what the pantry fully covers
+ */
+export function subtractPantryStock(
+  ingredients: AggregatedIngredient[],
+  pantry: PantryStock[]
+): { toBuy: AggregatedIngredient[]; inPantry: AggregatedIngredient[] } {
+  const stockByName = new Map<string, PantryStock[]>();
+  for (const item of pantry) {
+    const key = normalizeIngredientName(item.name);
+    if (!key) continue;
+    stockByName.set(key, [...(stockByName.get(key) ?? []), item]);
+  }
+
+  const toBuy: AggregatedIngredient[] = [];
+  const inPantry: AggregatedIngredient[] = [];
+
+  for (const ingredient of ingredients) {
+    const stock = stockByName.get(normalizeIngredientName(ingredient.name)) ?? [];
+    if (stock.some((item) => item.quantity === null)) {
+      inPantry.push(ingredient);
+      continue;
+    }
+
+    const onHand = stock.reduce((total, item) =>
+      total + (convertAmount(item.quantity ?? 0, item.unit ?? '', ingredient.unit, ingredient.name) ?? 0), 0);
+
+    if (onHand <= 0) {
+      toBuy.push(ingredient);
+    } else if (onHand >= ingredient.amount - 1e-9) {
+      inPantry.push(ingredient);
+    } else {
+      toBuy.push({ ...ingredient, amount: Math.round((ingredient.amount - onHand) * 10000) / 10000 });
+    }
+  }
+
+  return { toBuy, inPantry };
 }
 
 /**
  * Format ingredient for display
  */
 export function formatIngredient(ingredient: AggregatedIngredient): string {
-  const amount = ingredient.amount % 1 === 0
-    ? ingredient.amount.toString()
-    : ingredient.amount.toFixed(2);
+  const amount = formatAmount(ingredient.amount, ingredient.unit);
 
   const unit = ingredient.unit ? ` ${ingredient.unit}` : '';
   const recipes = ingredient.recipes.length > 1
@@ -300,25 +438,124 @@ export function formatIngredient(ingredient: AggregatedIngredient): string {
 
 /**
  * Generate shopping list from meal plans
- * @param recipes - Array of recipes with ingredients
+ * @param recipes - Array of recipes with ingredients; `scale` multiplies a recipe's amounts
+ * @param pantry - Stock on hand to leave off the list
+ * @param options - `system` re-expresses totals in the space's measurement system
  * @returns Aggregated shopping list items
  */
 export function generateShoppingList(
   recipes: Array<{
     id: string;
     name: string;
-    ingredients: Array<string | { name: string; amount?: string | number; unit?: string; originalText?: string }> | null;
-  }>
+    ingredients: RecipeIngredient[] | null;
+    scale?: number;
+  }>,
+  pantry: PantryStock[] = [],
+  options: { system?: MeasurementSystem } = {}
 ): AggregatedIngredient[] {
   // Parse all ingredients from all recipes
   const allParsedIngredients = recipes.flatMap((recipe) =>
-    parseRecipeIngredients(recipe)
+    scaleIngredients(parseRecipeIngredients(recipe), recipe.scale ?? 1)
   );
 
   // Aggregate ingredients
-  const aggregated = aggregateIngredients(allParsedIngredients);
+  const aggregated = aggregateIngredients(allParsedIngredients, options);
+
+  return pantry.length > 0 ? subtractPantryStock(aggregated, pantry).toBuy : aggregated;
+}
+
+/** The major food allergens recipes are checked against */
+export type Allergen =
+  | 'gluten'
+  | 'dairy'
+  | 'egg'
+  | 'peanut'
+  | 'tree_nut'
+  | 'soy'
+  | 'fish'
+  | 'shellfish'
+  | 'sesame';
+
+/** Allergens plus what diets rule out (meat, pork, alcohol, ...) */
+export type IngredientTag = Allergen | 'meat' | 'pork' | 'alcohol' | 'animal_product' | 'high_sodium';
 
-  return aggregated;
+/**
+ * A qualifier ("vegan", "gluten-free") with the up to two words it applies to,
+ * stopping at "and", "or" and "with" so "vegan cheese and eggs" keeps the eggs
+ */
+const qualified = (qualifiers: string) => String.raw`(?:${qualifiers})(?: (?!(?:and|or|with)\b)[a-z]+){0,2}`;
+
+/**
+ * Word patterns for each tag; `unless` catches look-alikes such as
+ * "almond milk" (not dairy) or "red wine vinegar" (not alcohol). Look-alikes
+ * are removed before `pattern` is tested, so the rest of a line that mixes
+ * ingredients ("butter and almond milk") is still tagged.
+ */
+const INGREDIENT_TAG_RULES: Array<{ tag: IngredientTag; pattern: RegExp; unless?: RegExp }> = [
+  {
+    tag: 'gluten',
+    pattern: /\b(?:flour|wheat|bread|breadcrumbs?|panko|pasta|spaghetti|macaroni|noodles?|couscous|barley|rye|semolina|bulgur|farro|spelt|seitan|tortillas?|pitas?|crackers?|croutons?|pastry|biscuits?|soy sauce|beer)\b/,
+    unless: new RegExp(String.raw`\b(?:${qualified('gluten[- ]free')}|rice flour|almond flour|coconut flour|chickpea flour|corn tortillas?|rice noodles?|buckwheat)\b`, 'g'),
+  },
+  {
+    tag: 'dairy',
+    pattern: /\b(?:milk|buttermilk|cheeses?|butter|cream|yogh?urt|ghee|parmesan|mozzarella|cheddar|ricotta|feta|mascarpone|whey|custard)\b/,
+    unless: new RegExp(String.raw`\b(?:(?:almond|oat|soy|coconut|rice|cashew) (?:milk|cream|yogh?urt)|(?:peanut|almond|cashew|nut|cocoa) butter|cream of tartar|${qualified('dairy[- ]free|vegan')})\b`, 'g'),
+  },
+  {
+    tag: 'egg',
+    pattern: /\b(?:eggs?|egg (?:whites?|yolks?)|mayonnaise|mayo|meringue)\b/,
+    unless: new RegExp(String.raw`\b${qualified('egg[- ]free|vegan')}\b`, 'g'),
+  },
+  { tag: 'peanut', pattern: /\bpeanuts?\b/ },
+  {
+    tag: 'tree_nut',
+    pattern: /\b(?:almonds?|walnuts?|pecans?|cashews?|pistachios?|hazelnuts?|macadamias?|brazil nuts?|pine nuts?|marzipan|praline)\b/,
+  },
+  { tag: 'soy', pattern: /\b(?:soy|soya|soybeans?|tofu|tempeh|edamame|miso|tamari)\b/ },
+  {
+    tag: 'fish',
+    pattern: /\b(?:fish|salmon|tuna|cod|anchov(?:y|ies)|sardines?|trout|halibut|tilapia|mackerel|haddock|worcestershire)\b/,
+  },
+  {
+    tag: 'shellfish',
+    pattern: /\b(?:shrimps?|prawns?|crabs?|lobsters?|scallops?|clams?|mussels?|oysters?|crawfish|crayfish)\b/,
+  },
+  { tag: 'sesame', pattern: /\b(?:sesame|tahini)\b/ },
+  {
+    tag: 'meat',
+    pattern: /\b(?:chicken|beef|pork|lamb|mutton|turkey|veal|duck|venison|bacon|ham|sausages?|steak|mince|prosciutto|pancetta|salami|pepperoni|chorizo|lard|gelatine?)\b/,
+    unless: new RegExp(String.raw`\b${qualified('vegan|vegetarian|meatless|plant[- ]based')}\b`, 'g'),
+  },
+  {
+    tag: 'pork',
+    pattern: /\b(?:pork|bacon|ham|prosciutto|pancetta|salami|pepperoni|chorizo|lard)\b/,
+    unless: new RegExp(String.raw`\b(?:${qualified('vegan|vegetarian|meatless|plant[- ]based')}|turkey bacon|beef bacon)\b`, 'g'),
+  },
+  {
+    tag: 'alcohol',
+    pattern: /\b(?:wine|beer|rum|vodka|brandy|whiske?y|bourbon|sherry|sake|mirin|liqueur|tequila|gin|cognac|marsala|champagne|cider)\b/,
+    // The vinegar with the words naming it ("red wine vinegar")
+    unless: /\b(?:(?!(?:and|or|with)\b)[a-z]+ ){0,2}vinegar\b/g,
+  },
+  { tag: 'animal_product', pattern: /\b(?:honey|gelatine?)\b/ },
+  {
+    tag: 'high_sodium',
+    pattern: /\b(?:soy sauce|fish sauce|oyster sauce|bouillon|stock cubes?|bacon|anchov(?:y|ies)|capers|miso|pickles?|prosciutto|salami|worcestershire)\b/,
+    unless: new RegExp(String.raw`\b${qualified('low[- ]sodium|reduced[- ]sodium|no[- ]salt|unsalted')}\b`, 'g'),
+  },
+];
+
+/**
+ * Tag an ingredient with the allergens it contains and what it means for diets
+ * ("2 tbsp peanut butter" → ['peanut']). Keyword based, so it errs towards
+ * the common case: "ham" is pork, "milk" is dairy unless it says otherwise.
+ */
+export function tagIngredient(ingredientName: string): IngredientTag[] {
+  const name = ingredientName.toLowerCase();
+  return INGREDIENT_TAG_RULES
+    .filter(({ pattern, unless }) => pattern.test(unless ? name.replace(unless, ' ') : name))
+    .map(({ tag }) => tag);
 }
 
 /**
@@ -0,0 +1,14 @@
+// MCP server constants
+// Kept free of Node.js imports so the edge middleware can use them.
+
+/** Endpoint of the MCP server (Streamable HTTP transport) */
+export const MCP_PATH = '/api/mcp';
+
+/** Protocol revisions the server understands, newest first */
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/** Prefix of MCP access tokens, so leaked tokens are easy to recognize */
+export const MCP_TOKEN_PREFIX = 'rowan_mcp_';
+
+/** Most messages one JSON-RPC batch may carry; each tool call in it is rate limited on its own */
+export const MCP_MAX_BATCH_SIZE = 20;
@@ -0,0 +1,30 @@
+// MCP server
+// Exposes the AI assistant's tools to MCP-capable agents at /api/mcp,
+// authenticated with per-user tokens scoped to one space.
+
+export { MCP_PATH, MCP_PROTOCOL_VERSIONS, MCP_TOKEN_PREFIX } from './constants';
+export { JSON_RPC_ERRORS, McpConfigurationError } from './types';
+export type {
+  JsonRpcError,
+  JsonRpcId,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  McpPrincipal,
+  McpScope,
+} from './types';
+
+export {
+  authenticateMcpRequest,
+  createMcpToken,
+  generateMcpToken,
+  hashMcpToken,
+  listMcpTokens,
+  mcpTokenService,
+  parseBearerToken,
+  revokeMcpToken,
+} from './tokens';
+export type { CreateMcpTokenInput, CreatedMcpToken, McpToken } from './tokens';
+
+export { createUserScopedClient, signUserAccessToken } from './user-client';
+export { handleMcpMessage, handleMcpPayload, isToolAllowed, listMcpTools } from './server';
+export type { McpSession, McpTool } from './server';
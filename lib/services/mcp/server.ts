@@ -0,0 +1,262 @@
+// MCP Server
+// Model Context Protocol over the Streamable HTTP transport, answering every
+// request with a single JSON response (no server-initiated streams). Exposes
+// the AI assistant's TOOL_DECLARATIONS and runs them through executeTool, so
+// agents get the same validation and services as the chat assistant.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/lib/logger';
+import { TOOL_DECLARATIONS } from '@/lib/services/ai/tool-definitions';
+import { executeTool } from '@/lib/services/ai/tool-executor';
+import { isWriteTool } from '@/lib/services/ai/action-journal-service';
+import { convertFunctionDeclarations, type LLMToolDefinition } from '@/lib/services/ai/llm';
+import { MCP_MAX_BATCH_SIZE, MCP_PROTOCOL_VERSIONS } from './constants';
+import { findOutOfScopeArgument } from './space-scope';
+import {
+  JSON_RPC_ERRORS,
+  type JsonRpcError,
+  type JsonRpcId,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+  type McpPrincipal,
+  type McpScope,
+} from './types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface McpSession {
+  principal: McpPrincipal;
+  /** Client acting as the principal's user (see user-client.ts) */
+  supabase: SupabaseClient;
+}
+
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  annotations: {
+    readOnlyHint: boolean;
+    destructiveHint: boolean;
+  };
+}
+
+interface McpToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError: boolean;
+}
+
+const SERVER_INFO = { name: 'rowan', title: 'Rowan', version: '1.0.0' };
+
+const INSTRUCTIONS =
+  'Tools for managing one Rowan household space: tasks, chores, calendar events, reminders, ' +
+  'shopping lists, meals, goals, expenses, budgets, projects, messages and rewards. ' +
+  'Look items up with the list_/get_/search_ tools before changing them. Dates use ISO 8601.';
+
+// =============================================================================
+// TOOLS
+// =============================================================================
+
+let cachedDefinitions: LLMToolDefinition[] | null = null;
+function getToolDefinitions(): LLMToolDefinition[] {
+  if (!cachedDefinitions) {
+    cachedDefinitions = convertFunctionDeclarations(TOOL_DECLARATIONS);
+  }
+  return cachedDefinitions;
+}
+
+/** True when a token with the given scope may call the tool */
+export function isToolAllowed(toolName: string, scope: McpScope): boolean {
+  return scope === 'read_write' || !isWriteTool(toolName);
+}
+
+/**
+ * Lists the tools a token may call, with JSON Schema inputs and hints for
+ * the client's approval UI.
+ */
+export function listMcpTools(scope: McpScope): McpTool[] {
+  return getToolDefinitions()
+    .filter((tool) => isToolAllowed(tool.name, scope))
+    .map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.parameters,
+      annotations: {
+        readOnlyHint: !isWriteTool(tool.name),
+        destructiveHint: tool.name.startsWith('delete_'),
+      },
+    }));
+}
+
+async function callTool(params: Record<string, unknown>, session: McpSession): Promise<McpToolResult | JsonRpcError> {
+  const name = params.name;
+  const args = params.arguments ?? {};
+
+  if (typeof name !== 'string' || !getToolDefinitions().some((tool) => tool.name === name)) {
+    return { code: JSON_RPC_ERRORS.INVALID_PARAMS, message: `Unknown tool: ${String(name)}` };
+  }
+  if (typeof args !== 'object' || Array.isArray(args)) {
+    return { code: JSON_RPC_ERRORS.INVALID_PARAMS, message: 'Tool arguments must be an object' };
+  }
+  if (!isToolAllowed(name, session.principal.scope)) {
+    return { code: JSON_RPC_ERRORS.INVALID_PARAMS, message: `Tool "${name}" needs a read-write token` };
+  }
+
+  const { userId, spaceId, tokenId } = session.principal;
+  logger.info('[MCP] Tool call', {
+    component: 'mcp-server',
+    action: 'tool_call',
+    toolName: name,
+    tokenId,
+  });
+
+  // RLS would let the owner reach their other spaces; the token may not
+  const outOfScope = await findOutOfScopeArgument(session.supabase, spaceId, name, args as Record<string, unknown>);
+  if (outOfScope) {
+    logger.warn('[MCP] Tool call outside the token\'s space', {
+      component: 'mcp-server',
+      action: 'tool_call',
+      toolName: name,
+      tokenId,
+      param: outOfScope,
+    });
+    return {
+      content: [{ type: 'text', text: `No item matching ${outOfScope} was found in this space.` }],
+      isError: true,
+    };
+  }
+
+  const result = await executeTool(name, args as Record<string, unknown>, {
+    userId,
+    spaceId,
+    supabase: session.supabase,
+  });
+
+  const content: McpToolResult['content'] = [{ type: 'text', text: result.message }];
+  if (result.data !== undefined) {
+    content.push({ type: 'text', text: JSON.stringify(result.data) });
+  }
+  return { content, isError: !result.success };
+}
+
+// =============================================================================
+// JSON-RPC
+// =============================================================================
+
+function success(id: JsonRpcId, result: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, result };
+}
+
+function failure(id: JsonRpcId, error: JsonRpcError): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error };
+}
+
+function isJsonRpcRequest(message: unknown): message is JsonRpcRequest {
+  if (!message || typeof message !== 'object') return false;
+  const candidate = message as Record<string, unknown>;
+  return (
+    candidate.jsonrpc === '2.0' &&
+    typeof candidate.method === 'string' &&
+    (candidate.params === undefined || (typeof candidate.params === 'object' && candidate.params !== null))
+  );
+}
+
+/**
+ * Handles one JSON-RPC message. Returns null for notifications, which get
+ * no response.
+ */
+export async function handleMcpMessage(message: unknown, session: McpSession): Promise<JsonRpcResponse | null> {
+  // The server never sends requests, but clients may still post responses
+  if (message && typeof message === 'object' && !('method' in message) && ('result' in message || 'error' in message)) {
+    return null;
+  }
+
+  if (!isJsonRpcRequest(message)) {
+    const id = (message as { id?: JsonRpcId } | null)?.id ?? null;
+    return failure(id, { code: JSON_RPC_ERRORS.INVALID_REQUEST, message: 'Invalid JSON-RPC request' });
+  }
+
+  // Notifications (no id), e.g. notifications/initialized, need no answer
+  if (message.id === undefined) return null;
+
+  const { id, method, params = {} } = message;
+
+  switch (method) {
+    case 'initialize': {
+      const requested = params.protocolVersion;
+      const protocolVersion = typeof requested === 'string' && MCP_PROTOCOL_VERSIONS.includes(requested)
+        ? requested
+        : MCP_PROTOCOL_VERSIONS[0];
+      return success(id, {
+        protocolVersion,
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: SERVER_INFO,
+        instructions: INSTRUCTIONS,
+      });
+    }
+
+    case 'ping':
+      return success(id, {});
+
+    case 'tools/list':
+      return success(id, { tools: listMcpTools(session.principal.scope) });
+
+    case 'tools/call': {
+      try {
+        const result = await callTool(params, session);
+        return 'code' in result ? failure(id, result) : success(id, result);
+      } catch (error) {
+        logger.error('[MCP] Tool call failed:', error, { component: 'mcp-server', action: 'tool_call' });
+        return success(id, {
+          content: [{ type: 'text', text: 'The tool failed unexpectedly. Please try again.' }],
+          isError: true,
+        });
+      }
+    }
+
+    default:
+      return failure(id, { code: JSON_RPC_ERRORS.METHOD_NOT_FOUND, message: `Method not found: ${method}` });
+  }
+}
+
+/**
+ * Counts the tool calls in a POSTed payload, so each one can be rate limited
+ * rather than the request as a whole
+ */
+export function countToolCalls(payload: unknown): number {
+  const messages = Array.isArray(payload) ? payload : [payload];
+  return messages.filter((message) => isJsonRpcRequest(message) && message.method === 'tools/call').length;
+}
+
+/**
+ * Handles a POSTed payload: one message or a batch of at most
+ * MCP_MAX_BATCH_SIZE. Returns null when nothing needs an answer (only
+ * notifications or responses were sent).
+ */
+export async function handleMcpPayload(
+  payload: unknown,
+  session: McpSession
+): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+  if (!Array.isArray(payload)) {
+    return handleMcpMessage(payload, session);
+  }
+
+  if (payload.length === 0) {
+    return failure(null, { code: JSON_RPC_ERRORS.INVALID_REQUEST, message: 'Empty batch' });
+  }
+
+  if (payload.length > MCP_MAX_BATCH_SIZE) {
+    return failure(null, {
+      code: JSON_RPC_ERRORS.INVALID_REQUEST,
+      message: `Batches are limited to ${MCP_MAX_BATCH_SIZE} messages`,
+    });
+  }
+
+  const responses: JsonRpcResponse[] = [];
+  for (const message of payload) {
+    const response = await handleMcpMessage(message, session);
+    if (response) responses.push(response);
+  }
+  return responses.length > 0 ? responses : null;
+}
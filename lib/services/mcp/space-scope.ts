@@ -0,0 +1,184 @@
+// Space scope for MCP tool calls
+// Tool calls run as the token's owner, and RLS lets that user reach every
+// space they belong to. A token is scoped to one space, so before a tool
+// runs, every row and member its arguments name by id is checked to belong
+// to the token's space.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { TOOL_DECLARATIONS } from '@/lib/services/ai/tool-definitions';
+
+interface RowScope {
+  /** Column on a child table pointing at the parent row that holds space_id */
+  parent?: { column: string; table: string };
+}
+
+/** Tables tool arguments refer to, and how each finds its space */
+const ROW_SCOPES: Record<string, RowScope> = {
+  tasks: {},
+  subtasks: { parent: { column: 'parent_task_id', table: 'tasks' } },
+  task_comments: { parent: { column: 'task_id', table: 'tasks' } },
+  chores: {},
+  chore_rotations: { parent: { column: 'chore_id', table: 'chores' } },
+  late_penalties: {},
+  events: {},
+  reminders: {},
+  shopping_lists: {},
+  shopping_items: { parent: { column: 'list_id', table: 'shopping_lists' } },
+  meals: {},
+  recipes: {},
+  goals: {},
+  goal_milestones: { parent: { column: 'goal_id', table: 'goals' } },
+  goal_check_ins: { parent: { column: 'goal_id', table: 'goals' } },
+  goal_collaborators: { parent: { column: 'goal_id', table: 'goals' } },
+  expenses: {},
+  recurring_expense_patterns: {},
+  bills: {},
+  projects: {},
+  project_milestones: {},
+  project_line_items: { parent: { column: 'project_id', table: 'projects' } },
+  vendors: {},
+  conversations: {},
+  messages: {},
+  rewards_catalog: {},
+  reward_redemptions: {},
+};
+
+/** Table each id parameter refers to; `_ids` parameters hold arrays of them */
+const ID_PARAM_TABLES: Record<string, string> = {
+  task_id: 'tasks',
+  subtask_id: 'subtasks',
+  comment_id: 'task_comments',
+  parent_comment_id: 'task_comments',
+  chore_id: 'chores',
+  rotation_id: 'chore_rotations',
+  penalty_id: 'late_penalties',
+  event_id: 'events',
+  reminder_id: 'reminders',
+  list_id: 'shopping_lists',
+  item_id: 'shopping_items',
+  meal_id: 'meals',
+  recipe_id: 'recipes',
+  goal_id: 'goals',
+  milestone_id: 'goal_milestones',
+  checkin_id: 'goal_check_ins',
+  collaborator_id: 'goal_collaborators',
+  expense_id: 'expenses',
+  pattern_id: 'recurring_expense_patterns',
+  bill_id: 'bills',
+  project_id: 'projects',
+  line_item_id: 'project_line_items',
+  vendor_id: 'vendors',
+  conversation_id: 'conversations',
+  message_id: 'messages',
+  reward_id: 'rewards_catalog',
+  redemption_id: 'reward_redemptions',
+};
+
+/** Tools whose milestone_id is a project milestone rather than a goal milestone */
+const PROJECT_MILESTONE_TOOLS = new Set(['toggle_project_milestone', 'delete_project_milestone']);
+
+/** Descriptions of parameters that name space members ("User ID of ...", "The ID of the user ...") */
+const USER_ID_DESCRIPTION = /\buser ids?\b|\bid of the user\b/i;
+
+/** Parameters naming space members per tool, read from the tool schemas */
+const USER_PARAMS: ReadonlyMap<string, ReadonlySet<string>> = new Map(
+  TOOL_DECLARATIONS.map((declaration) => [
+    declaration.name,
+    new Set(
+      Object.entries(declaration.parameters?.properties ?? {})
+        .filter(([, schema]) => USER_ID_DESCRIPTION.test(schema.description ?? ''))
+        .map(([param]) => param)
+    ),
+  ])
+);
+
+function toIds(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string');
+  return [];
+}
+
+function tableForParam(toolName: string, param: string): string | undefined {
+  if (param === 'milestone_id' && PROJECT_MILESTONE_TOOLS.has(toolName)) return 'project_milestones';
+  return ID_PARAM_TABLES[param.endsWith('_ids') ? param.slice(0, -1) : param];
+}
+
+/**
+ * Space of each row the user can see, following child rows to their parent.
+ * Rows the user cannot see are left out; the tool itself will not find them.
+ */
+async function resolveRowSpaces(
+  supabase: SupabaseClient,
+  table: string,
+  ids: string[]
+): Promise<Map<string, string | null>> {
+  const parent = ROW_SCOPES[table]?.parent;
+  const column = parent?.column ?? 'space_id';
+  const { data, error } = await supabase.from(table).select(`id, ${column}`).in('id', ids);
+  if (error) throw error;
+
+  const rows = (data ?? []) as unknown as Record<string, string | null>[];
+  if (!parent) {
+    return new Map(rows.map((row) => [row.id as string, row.space_id]));
+  }
+
+  const parentIds = Array.from(new Set(rows.map((row) => row[column]).filter((id): id is string => !!id)));
+  const parentSpaces = parentIds.length > 0
+    ? await resolveRowSpaces(supabase, parent.table, parentIds)
+    : new Map<string, string | null>();
+  return new Map(rows.map((row) => {
+    const parentId = row[column];
+    return [row.id as string, parentId ? parentSpaces.get(parentId) ?? null : null];
+  }));
+}
+
+/**
+ * Finds the first argument naming a row or member outside the token's space.
+ * @returns The offending parameter name, or null when every id is in scope
+ */
+export async function findOutOfScopeArgument(
+  supabase: SupabaseClient,
+  spaceId: string,
+  toolName: string,
+  args: Record<string, unknown>
+): Promise<string | null> {
+  const rowIds = new Map<string, { param: string; id: string }[]>();
+  const userIds = new Map<string, string>();
+  const userParams = USER_PARAMS.get(toolName);
+
+  for (const [param, value] of Object.entries(args)) {
+    const ids = toIds(value);
+    if (ids.length === 0) continue;
+
+    if (userParams?.has(param)) {
+      ids.forEach((id) => userIds.set(id, param));
+      continue;
+    }
+    const table = tableForParam(toolName, param);
+    if (table) {
+      rowIds.set(table, [...(rowIds.get(table) ?? []), ...ids.map((id) => ({ param, id }))]);
+    }
+  }
+
+  for (const [table, refs] of rowIds) {
+    const spaces = await resolveRowSpaces(supabase, table, Array.from(new Set(refs.map((ref) => ref.id))));
+    const outside = refs.find((ref) => spaces.has(ref.id) && spaces.get(ref.id) !== spaceId);
+    if (outside) return outside.param;
+  }
+
+  if (userIds.size > 0) {
+    const { data, error } = await supabase
+      .from('space_members')
+      .select('user_id')
+      .eq('space_id', spaceId)
+      .in('user_id', Array.from(userIds.keys()));
+    if (error) throw error;
+
+    const members = new Set((data ?? []).map((row: { user_id: string }) => row.user_id));
+    for (const [id, param] of userIds) {
+      if (!members.has(id)) return param;
+    }
+  }
+
+  return null;
+}
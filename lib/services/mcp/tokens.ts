@@ -0,0 +1,186 @@
+// MCP Access Tokens
+// Per-client bearer tokens for MCP-capable agents. Each token belongs to one
+// user, is scoped to one of their spaces, and is either read-only or
+// read-write, so a desktop agent never holds the account session.
+
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { MCP_TOKEN_PREFIX } from './constants';
+import type { McpPrincipal, McpScope } from './types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface McpToken {
+  id: string;
+  user_id: string;
+  space_id: string;
+  label: string;
+  scope: McpScope;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface CreatedMcpToken {
+  mcpToken: McpToken;
+  /** Plaintext token; only available at creation time */
+  token: string;
+}
+
+export interface CreateMcpTokenInput {
+  label: string;
+  spaceId: string;
+  scope: McpScope;
+}
+
+const MCP_TOKEN_COLUMNS = 'id, user_id, space_id, label, scope, last_used_at, revoked_at, created_at';
+
+// =============================================================================
+// TOKENS
+// =============================================================================
+
+/** Generates a token like "rowan_mcp_<43 base64url chars>" (256 bits). */
+export function generateMcpToken(): string {
+  return `${MCP_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+/** Hashes a token for storage. */
+export function hashMcpToken(token: string): string {
+  return crypto.createHash('sha256').update(token.trim()).digest('hex');
+}
+
+/** Extracts the token from an HTTP Bearer Authorization header. */
+export function parseBearerToken(header: string | null): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)\s*$/i);
+  if (!match || !match[1].startsWith(MCP_TOKEN_PREFIX)) return null;
+  return match[1];
+}
+
+// =============================================================================
+// MANAGEMENT
+// =============================================================================
+
+/**
+ * Lists the user's active MCP tokens (never the tokens themselves).
+ * @throws If the query fails
+ */
+export async function listMcpTokens(supabase: SupabaseClient, userId: string): Promise<McpToken[]> {
+  const { data, error } = await supabase
+    .from('mcp_tokens')
+    .select(MCP_TOKEN_COLUMNS)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Creates an MCP token and returns its plaintext once. The caller must have
+ * verified that the user belongs to the space (RLS enforces it as well).
+ * @throws If the insert fails
+ */
+export async function createMcpToken(
+  supabase: SupabaseClient,
+  userId: string,
+  input: CreateMcpTokenInput
+): Promise<CreatedMcpToken> {
+  const token = generateMcpToken();
+
+  const { data, error } = await supabase
+    .from('mcp_tokens')
+    .insert({
+      user_id: userId,
+      space_id: input.spaceId,
+      label: input.label,
+      scope: input.scope,
+      token_hash: hashMcpToken(token),
+    })
+    .select(MCP_TOKEN_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return { mcpToken: data, token };
+}
+
+/**
+ * Revokes one of the user's MCP tokens. Returns false if it does not exist.
+ * @throws If the update fails
+ */
+export async function revokeMcpToken(supabase: SupabaseClient, userId: string, id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('mcp_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+// =============================================================================
+// AUTHENTICATION
+// =============================================================================
+
+/**
+ * Resolves a Bearer Authorization header to a principal. The token's owner
+ * must still be a member of the token's space.
+ * @param supabase - Service-role client (the request has no user session yet)
+ * @returns The principal, or null if the token is invalid or revoked
+ * @throws If a query fails
+ */
+export async function authenticateMcpRequest(
+  supabase: SupabaseClient,
+  authorization: string | null
+): Promise<McpPrincipal | null> {
+  const token = parseBearerToken(authorization);
+  if (!token) return null;
+
+  const { data: mcpToken, error } = await supabase
+    .from('mcp_tokens')
+    .select('id, user_id, space_id, scope')
+    .eq('token_hash', hashMcpToken(token))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!mcpToken) return null;
+
+  const { data: membership, error: memberError } = await supabase
+    .from('space_members')
+    .select('user_id')
+    .eq('space_id', mcpToken.space_id)
+    .eq('user_id', mcpToken.user_id)
+    .maybeSingle();
+
+  if (memberError) throw memberError;
+  if (!membership) return null;
+
+  const { error: touchError } = await supabase
+    .from('mcp_tokens')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', mcpToken.id);
+
+  if (touchError) throw touchError;
+  return {
+    tokenId: mcpToken.id,
+    userId: mcpToken.user_id,
+    spaceId: mcpToken.space_id,
+    scope: mcpToken.scope,
+  };
+}
+
+export const mcpTokenService = {
+  generateMcpToken,
+  hashMcpToken,
+  parseBearerToken,
+  listMcpTokens,
+  createMcpToken,
+  revokeMcpToken,
+  authenticateMcpRequest,
+};
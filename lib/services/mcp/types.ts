@@ -0,0 +1,49 @@
+// MCP server shared types
+
+/** read: list/get/search tools only; read_write: every tool */
+export type McpScope = 'read' | 'read_write';
+
+/** The user, space and scope an MCP request is authenticated as */
+export interface McpPrincipal {
+  tokenId: string;
+  userId: string;
+  spaceId: string;
+  scope: McpScope;
+}
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  /** Absent on notifications */
+  id?: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: JsonRpcId; result: unknown }
+  | { jsonrpc: '2.0'; id: JsonRpcId; error: JsonRpcError };
+
+/** Standard JSON-RPC 2.0 error codes */
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+} as const;
+
+/** Raised when the MCP server cannot run in this deployment */
+export class McpConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'McpConfigurationError';
+  }
+}
@@ -0,0 +1,64 @@
+// User-scoped Supabase client for MCP requests
+// MCP clients send a bearer token, not a Supabase session. To keep every
+// tool call behind the same RLS policies as the app, the server mints a
+// short-lived access token for the token's owner and queries as that user.
+
+import crypto from 'crypto';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { McpConfigurationError } from './types';
+
+/** Lifetime of minted access tokens; one MCP request never takes longer */
+const ACCESS_TOKEN_TTL_SECONDS = 5 * 60;
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+/**
+ * Signs a Supabase access token (HS256 with the project's JWT secret) for
+ * the `authenticated` role.
+ * @throws McpConfigurationError if SUPABASE_JWT_SECRET is not set
+ */
+export function signUserAccessToken(
+  userId: string,
+  secret = process.env.SUPABASE_JWT_SECRET,
+  now = Math.floor(Date.now() / 1000)
+): string {
+  if (!secret) {
+    throw new McpConfigurationError('SUPABASE_JWT_SECRET environment variable is not set');
+  }
+
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({
+    sub: userId,
+    role: 'authenticated',
+    aud: 'authenticated',
+    iat: now,
+    exp: now + ACCESS_TOKEN_TTL_SECONDS,
+  }));
+  const signature = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+
+  return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Creates a Supabase client that acts as the given user, so RLS applies.
+ * @throws McpConfigurationError if the server is missing its Supabase settings
+ */
+export function createUserScopedClient(userId: string): SupabaseClient {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!url || !anonKey) {
+    throw new McpConfigurationError('Supabase URL or anon key is not set');
+  }
+
+  return createClient(url, anonKey, {
+    global: {
+      headers: { Authorization: `Bearer ${signUserAccessToken(userId)}` },
+    },
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
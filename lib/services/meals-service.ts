@@ -1,5 +1,26 @@
 import { createClient } from '@/lib/supabase/client';
 import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+import { dietaryProfileService } from '@/lib/services/dietary-profile-service';
+import { logger } from '@/lib/logger';
+import type { DietaryConflict } from '@/lib/utils/dietary-helpers';
+import type { MeasurementSystem } from '@/lib/utils/units';
+
+/** Nutrition per serving, as published with an imported recipe or estimated from its ingredients */
+export interface RecipeNutrition {
+  calories?: number;
+  protein_g?: number;
+  fat_g?: number;
+  saturated_fat_g?: number;
+  carbohydrate_g?: number;
+  sugar_g?: number;
+  fiber_g?: number;
+  sodium_mg?: number;
+  cholesterol_mg?: number;
+  calcium_mg?: number;
+  iron_mg?: number;
+  potassium_mg?: number;
+  vitamin_c_mg?: number;
+}
 
 export interface Recipe {
   id: string;
@@ -16,6 +37,7 @@ export interface Recipe {
   source_url?: string;
   image_url?: string;
   tags?: string[];
+  nutrition?: RecipeNutrition | null;
   created_at: string;
   updated_at: string;
 }
@@ -29,7 +51,11 @@ export interface Meal {
   meal_type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
   scheduled_date: string;
   notes?: string;
+  /** Servings to cook; null cooks the recipe as written */
+  servings?: number | null;
   assigned_to?: string;
+  /** Returned by createMeal when the meal clashes with a member's dietary profile; not stored */
+  dietary_conflicts?: DietaryConflict[];
   assignee?: {
     id: string;
     name: string;
@@ -48,6 +74,7 @@ export interface CreateMealInput {
   meal_type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
   scheduled_date: string;
   notes?: string;
+  servings?: number | null;
 }
 
 export interface CreateRecipeInput {
@@ -64,6 +91,7 @@ export interface CreateRecipeInput {
   source_url?: string;
   image_url?: string;
   tags?: string[];
+  nutrition?: RecipeNutrition;
 }
 
 export interface MealStats {
@@ -75,6 +103,28 @@ export interface MealStats {
 
 const getSupabaseClient = (supabase?: SupabaseClient) => supabase ?? createClient();
 
+/**
+ * Dietary conflicts for a newly planned meal: its recipe's ingredients, or
+ * just the meal name when no recipe is linked. Never fails the save.
+ */
+async function findMealConflicts(meal: Meal, supabase: SupabaseClient): Promise<DietaryConflict[]> {
+  try {
+    let ingredients: Recipe['ingredients'] = meal.name ? [meal.name] : [];
+    if (meal.recipe_id) {
+      const { data: recipe } = await supabase
+        .from('recipes')
+        .select('ingredients')
+        .eq('id', meal.recipe_id)
+        .maybeSingle();
+      if (Array.isArray(recipe?.ingredients)) ingredients = recipe.ingredients;
+    }
+    return await dietaryProfileService.checkIngredients(meal.space_id, ingredients, supabase);
+  } catch (error) {
+    logger.warn('Failed to check meal against dietary profiles', { component: 'meals-service', action: 'dietary_check', error });
+    return [];
+  }
+}
+
 /**
  * Meals Service
  *
@@ -124,7 +174,8 @@ export const mealsService = {
    * Creates a new meal entry.
    * @param input - Meal creation data including space_id, meal_type, and scheduled_date
    * @param supabaseClient - Optional Supabase client for server-side usage
-   * @returns The newly created meal
+   * @returns The newly created meal, with `dietary_conflicts` listing any member
+   *   whose allergies, intolerances or diet the meal breaks
    * @throws Error if user is not authenticated or database insert fails
    */
   async createMeal(input: CreateMealInput, supabaseClient?: SupabaseClient): Promise<Meal> {
@@ -144,7 +195,8 @@ export const mealsService = {
       .single();
 
     if (error) throw error;
-    return data;
+    const dietary_conflicts = await findMealConflicts(data, supabase);
+    return { ...data, dietary_conflicts };
   },
 
   /**
@@ -194,7 +246,7 @@ export const mealsService = {
     const supabase = createClient();
     const { data, error} = await supabase
       .from('recipes')
-      .select('id, space_id, name, description, ingredients, instructions, prep_time, cook_time, servings, category, created_by, created_at, updated_at')
+      .select('id, space_id, name, description, ingredients, instructions, prep_time, cook_time, servings, category, nutrition, created_by, created_at, updated_at')
       .eq('space_id', spaceId)
       .order('name', { ascending: true });
 
@@ -212,7 +264,7 @@ export const mealsService = {
     const supabase = createClient();
     const { data, error } = await supabase
       .from('recipes')
-      .select('id, space_id, name, description, ingredients, instructions, prep_time, cook_time, servings, category, created_by, created_at, updated_at')
+      .select('id, space_id, name, description, ingredients, instructions, prep_time, cook_time, servings, category, nutrition, created_by, created_at, updated_at')
       .eq('id', id)
       .single();
 
@@ -273,6 +325,42 @@ export const mealsService = {
     if (error) throw error;
   },
 
+  /**
+   * Retrieves the measurement system a space scales recipes and totals shopping lists in.
+   * @param spaceId - The space identifier
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @returns The space's measurement system, imperial if not set
+   * @throws Error if database query fails
+   */
+  async getMeasurementSystem(spaceId: string, supabaseClient?: SupabaseClient): Promise<MeasurementSystem> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const { data, error } = await supabase
+      .from('spaces')
+      .select('measurement_system')
+      .eq('id', spaceId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.measurement_system === 'metric' ? 'metric' : 'imperial';
+  },
+
+  /**
+   * Sets the measurement system for a space.
+   * @param spaceId - The space identifier
+   * @param system - 'metric' or 'imperial'
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @throws Error if database update fails
+   */
+  async setMeasurementSystem(spaceId: string, system: MeasurementSystem, supabaseClient?: SupabaseClient): Promise<void> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const { error } = await supabase
+      .from('spaces')
+      .update({ measurement_system: system })
+      .eq('id', spaceId);
+
+    if (error) throw error;
+  },
+
   /**
    * Retrieves meal planning statistics for a space.
    * @param spaceId - The space identifier
@@ -217,8 +217,8 @@ function calculateConfidence(ocrText: string, extracted: Partial<OCRResult>): nu
 }
 
 /**
- * Process OCR using Gemini Vision API
- * Calls the secure server-side API route to extract receipt data
+ * Process OCR using the server-side receipt OCR route
+ * The route runs the configured OCR provider and returns line items and per-field confidence
  */
 export async function processReceiptOCR(imageFile: File): Promise<OCRResult> {
   try {
@@ -237,7 +237,7 @@ export async function processReceiptOCR(imageFile: File): Promise<OCRResult> {
 
       // If API fails, fall back to regex-based extraction
       if (errorData.fallback || response.status >= 500) {
-        logger.warn('Gemini OCR failed, falling back to regex extraction', { component: 'lib-ocr-service' });
+        logger.warn('Server OCR failed, falling back to regex extraction', { component: 'lib-ocr-service' });
         return await fallbackOCRExtraction(imageFile);
       }
 
@@ -278,11 +278,11 @@ export async function processReceiptOCR(imageFile: File): Promise<OCRResult> {
 
 /**
  * Fallback OCR extraction using regex patterns
- * Used when Gemini Vision API is unavailable or fails
+ * Used when the OCR route is unavailable or fails
  */
 async function fallbackOCRExtraction(imageFile: File): Promise<OCRResult> {
-  // In a real fallback scenario, we might use Tesseract.js here
-  // For now, return a basic result indicating manual entry needed
+  // The route already runs local OCR, so a failure here means the image could
+  // not be read; return a basic result indicating manual entry needed
   const result: OCRResult = {
     text: `Receipt image uploaded: ${imageFile.name}\nPlease enter details manually.`,
     merchant_name: null,
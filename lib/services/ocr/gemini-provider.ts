@@ -0,0 +1,125 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { z } from 'zod';
+import { OCRExtractionError, type OCRProvider, type OCRRecognition } from './ocr-provider';
+
+// SECURITY: Zod schema to validate AI-generated receipt JSON
+const AIReceiptSchema = z.object({
+  merchant_name: z.string().max(300).optional().nullable(),
+  total_amount: z.union([z.string(), z.number()]).optional().nullable(),
+  receipt_date: z.string().max(100).optional().nullable(),
+  category: z.string().max(100).optional().nullable(),
+  currency: z.string().max(10).optional().nullable(),
+  lines: z.array(z.string().max(500)).max(500).optional().nullable(),
+  confidence: z.number().min(0).max(100).optional().nullable(),
+}).strip();
+
+const RECEIPT_PROMPT = `You are a receipt OCR expert. Analyze this receipt image and extract the following information in JSON format:
+
+{
+  "merchant_name": "The store/merchant name (string or null)",
+  "total_amount": "The total amount as a number (e.g., 45.99) or null",
+  "receipt_date": "The date in YYYY-MM-DD format or null",
+  "category": "One of: Groceries, Dining, Transportation, Shopping, Healthcare, Utilities, Entertainment, Travel, Home & Garden, Other",
+  "currency": "USD or other currency code",
+  "lines": ["Every printed line of the receipt, top to bottom, exactly as printed"],
+  "confidence": "Your confidence level from 0-100"
+}
+
+Rules:
+1. Return ONLY valid JSON, no markdown, no explanations
+2. If you cannot read a field clearly, set it to null
+3. For category, choose the most appropriate from the list
+4. Total amount should be the final amount paid (including tax)
+5. Date should be the transaction date, not today's date
+6. Keep item quantities, prices, tax and tip lines intact in "lines"
+7. Be conservative with confidence - only high if you're certain
+
+Extract the data now:`;
+
+function stripCodeFences(text: string): string {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('```json')) {
+    return trimmed.replace(/```json\n?/, '').replace(/\n?```$/, '');
+  }
+  if (trimmed.startsWith('```')) {
+    return trimmed.replace(/```\n?/, '').replace(/\n?```$/, '');
+  }
+  return trimmed;
+}
+
+/**
+ * Cloud OCR provider backed by Gemini Vision.
+ *
+ * Sends the image to Google, so it is opt-in via OCR_PROVIDER=gemini.
+ * The model returns both a line transcription (parsed like any other OCR
+ * output) and structured hints that take precedence over parsed values.
+ */
+export function createGeminiProvider(apiKey = process.env.GOOGLE_GEMINI_API_KEY): OCRProvider {
+  let genAI: GoogleGenerativeAI | null = null;
+
+  // Lazy-init to avoid build-time crash when the env var is missing
+  const getGenAI = (): GoogleGenerativeAI => {
+    if (!genAI) {
+      if (!apiKey) {
+        throw new Error('GOOGLE_GEMINI_API_KEY environment variable is not set');
+      }
+      genAI = new GoogleGenerativeAI(apiKey);
+    }
+    return genAI;
+  };
+
+  return {
+    name: 'gemini',
+
+    async recognize(image, options): Promise<OCRRecognition> {
+      if (typeof image === 'string') {
+        throw new Error('Gemini OCR requires image bytes');
+      }
+
+      const buffer = Buffer.isBuffer(image) ? image : Buffer.from(await image.arrayBuffer());
+      const mimeType = options?.mimeType || (Buffer.isBuffer(image) ? '' : image.type) || 'image/jpeg';
+
+      const model = getGenAI().getGenerativeModel({
+        model: 'gemini-2.5-flash',
+        generationConfig: { maxOutputTokens: 4096 },
+      });
+
+      const result = await model.generateContent([
+        RECEIPT_PROMPT,
+        { inlineData: { mimeType, data: buffer.toString('base64') } },
+      ]);
+      const text = (await result.response).text();
+
+      let raw: unknown;
+      try {
+        raw = JSON.parse(stripCodeFences(text));
+      } catch {
+        throw new OCRExtractionError();
+      }
+
+      const validation = AIReceiptSchema.safeParse(raw);
+      if (!validation.success) throw new OCRExtractionError();
+      const parsed = validation.data;
+
+      const confidence = parsed.confidence ?? 50;
+      const lines = (parsed.lines ?? []).map((line) => ({ text: line, confidence }));
+      const total = parsed.total_amount !== null && parsed.total_amount !== undefined
+        ? parseFloat(String(parsed.total_amount))
+        : null;
+
+      return {
+        provider: 'gemini',
+        text: lines.length > 0 ? lines.map((line) => line.text).join('\n') : text,
+        confidence,
+        lines,
+        hints: {
+          merchant_name: parsed.merchant_name ?? null,
+          total_amount: total !== null && Number.isFinite(total) ? total : null,
+          receipt_date: parsed.receipt_date ?? null,
+          category: parsed.category ?? null,
+          currency: parsed.currency ?? null,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,38 @@
+// Receipt OCR
+// Pluggable OCR providers plus the receipt parser that turns recognized
+// text into line items, totals and per-field confidence.
+
+export {
+  DEFAULT_OCR_PROVIDER,
+  OCRExtractionError,
+  getOCRProvider,
+  listOCRProviders,
+  registerOCRProvider,
+  resolveOCRProviderName,
+} from './ocr-provider';
+export type {
+  OCRFieldHints,
+  OCRImageSource,
+  OCRLine,
+  OCRProvider,
+  OCRRecognition,
+  OCRRecognizeOptions,
+} from './ocr-provider';
+
+export {
+  LOW_CONFIDENCE_THRESHOLD,
+  applyReceiptHints,
+  parseAmount,
+  parseReceiptDate,
+  parseReceiptLines,
+  parseReceiptText,
+} from './receipt-parser';
+export type {
+  ParsedReceipt,
+  ParsedReceiptItem,
+  ReceiptField,
+  ReceiptFieldName,
+} from './receipt-parser';
+
+export { buildReceiptScanResult, scanReceipt, toOCRResult } from './receipt-ocr-service';
+export type { ReceiptScanOptions, ReceiptScanResult } from './receipt-ocr-service';
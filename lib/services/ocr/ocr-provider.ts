@@ -0,0 +1,121 @@
+// ==================== TYPES ====================
+
+/**
+ * Image input accepted by OCR providers: a URL (or data URL), a browser
+ * Blob/File, or raw bytes on the server.
+ */
+export type OCRImageSource = string | Blob | Buffer;
+
+/** A single recognized line of text. Confidence is 0-100. */
+export interface OCRLine {
+  text: string;
+  confidence: number;
+}
+
+/**
+ * Structured values a provider may already know (e.g. a vision model that
+ * returns JSON). They take precedence over values parsed from the text.
+ */
+export interface OCRFieldHints {
+  merchant_name?: string | null;
+  total_amount?: number | null;
+  receipt_date?: string | null;
+  category?: string | null;
+  currency?: string | null;
+}
+
+export interface OCRRecognition {
+  provider: string;
+  text: string;
+  /** Overall recognition confidence, 0-100 */
+  confidence: number;
+  lines: OCRLine[];
+  hints?: OCRFieldHints;
+}
+
+export interface OCRRecognizeOptions {
+  mimeType?: string;
+}
+
+/**
+ * A pluggable OCR engine. Implementations must not throw for unreadable
+ * images; they return empty text with zero confidence instead, and only
+ * throw for configuration or transport failures.
+ */
+export interface OCRProvider {
+  readonly name: string;
+  recognize(image: OCRImageSource, options?: OCRRecognizeOptions): Promise<OCRRecognition>;
+}
+
+/**
+ * Thrown when the provider answered but its output could not be parsed.
+ * Callers can fall back to client-side extraction.
+ */
+export class OCRExtractionError extends Error {
+  constructor(message = 'OCR processing succeeded but data extraction failed') {
+    super(message);
+    this.name = 'OCRExtractionError';
+  }
+}
+
+type OCRProviderFactory = () => Promise<OCRProvider>;
+
+// ==================== REGISTRY ====================
+
+export const DEFAULT_OCR_PROVIDER = 'tesseract';
+
+// Providers are loaded lazily so that client bundles never pull in
+// server-only SDKs for engines they do not use.
+const providerFactories = new Map<string, OCRProviderFactory>([
+  ['tesseract', async () => (await import('./tesseract-provider')).createTesseractProvider()],
+  ['gemini', async () => (await import('./gemini-provider')).createGeminiProvider()],
+]);
+
+const providerCache = new Map<string, Promise<OCRProvider>>();
+
+/**
+ * Registers (or replaces) an OCR provider factory under a name.
+ */
+export function registerOCRProvider(name: string, factory: OCRProviderFactory): void {
+  const key = name.toLowerCase();
+  providerFactories.set(key, factory);
+  providerCache.delete(key);
+}
+
+/**
+ * Lists the names of all registered OCR providers.
+ */
+export function listOCRProviders(): string[] {
+  return Array.from(providerFactories.keys());
+}
+
+/**
+ * Resolves the provider name from an explicit value or the OCR_PROVIDER
+ * environment variable, defaulting to the local Tesseract engine.
+ */
+export function resolveOCRProviderName(name?: string | null): string {
+  return (name || process.env.OCR_PROVIDER || DEFAULT_OCR_PROVIDER).trim().toLowerCase();
+}
+
+/**
+ * Returns an OCR provider instance, creating it on first use.
+ * @param name - Provider name; defaults to OCR_PROVIDER or 'tesseract'
+ * @throws Error if no provider is registered under the name
+ */
+export async function getOCRProvider(name?: string | null): Promise<OCRProvider> {
+  const key = resolveOCRProviderName(name);
+  const factory = providerFactories.get(key);
+
+  if (!factory) {
+    throw new Error(`Unknown OCR provider "${key}". Available: ${listOCRProviders().join(', ')}`);
+  }
+
+  let provider = providerCache.get(key);
+  if (!provider) {
+    provider = factory();
+    providerCache.set(key, provider);
+    // Allow a retry after a failed initialization
+    provider.catch(() => providerCache.delete(key));
+  }
+  return provider;
+}
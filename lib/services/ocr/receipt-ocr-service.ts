@@ -0,0 +1,90 @@
+import type { OCRResult } from '@/lib/services/receipts-service';
+import { getOCRProvider, type OCRImageSource, type OCRRecognition } from './ocr-provider';
+import { applyReceiptHints, parseReceiptLines, type ParsedReceipt, type ReceiptFieldName } from './receipt-parser';
+
+export interface ReceiptScanOptions {
+  /** Provider name; defaults to OCR_PROVIDER or the local Tesseract engine */
+  provider?: string;
+  mimeType?: string;
+}
+
+export interface ReceiptScanResult extends ParsedReceipt {
+  provider: string;
+  text: string;
+  /** Raw recognition confidence reported by the OCR engine, 0-100 */
+  ocr_confidence: number;
+  /** Category suggested by the provider, if any */
+  category: string | null;
+}
+
+/**
+ * Turns a provider recognition into a structured receipt.
+ * Exposed separately so recognitions from other sources (e.g. on-device
+ * OCR in the browser) go through the same parsing and scoring.
+ */
+export function buildReceiptScanResult(recognition: OCRRecognition): ReceiptScanResult {
+  const lines = recognition.lines.length > 0
+    ? recognition.lines
+    : recognition.text.split('\n').map((text) => ({ text, confidence: recognition.confidence }));
+
+  const parsed = applyReceiptHints(parseReceiptLines(lines), recognition.hints, recognition.confidence);
+
+  return {
+    ...parsed,
+    provider: recognition.provider,
+    text: recognition.text,
+    ocr_confidence: recognition.confidence,
+    category: recognition.hints?.category ?? null,
+  };
+}
+
+/**
+ * Recognizes a receipt image and extracts line items, tax, tip, totals and
+ * per-field confidence.
+ * @param image - Image URL, Blob/File or raw bytes
+ * @param options - Provider selection and image MIME type
+ * @throws Error if the provider is unknown or fails to run
+ */
+export async function scanReceipt(image: OCRImageSource, options: ReceiptScanOptions = {}): Promise<ReceiptScanResult> {
+  const provider = await getOCRProvider(options.provider);
+  const recognition = await provider.recognize(image, { mimeType: options.mimeType });
+  return buildReceiptScanResult(recognition);
+}
+
+const FIELD_NAMES: ReceiptFieldName[] = [
+  'merchant_name',
+  'receipt_date',
+  'subtotal',
+  'tax_amount',
+  'tip_amount',
+  'total_amount',
+  'currency',
+];
+
+/**
+ * Flattens a scan result into the OCRResult shape returned by
+ * /api/ocr/scan-receipt, keeping items and per-field confidence for review.
+ */
+export function toOCRResult(scan: ReceiptScanResult): OCRResult {
+  const fieldConfidence: Partial<Record<ReceiptFieldName, number>> = {};
+  for (const field of FIELD_NAMES) {
+    fieldConfidence[field] = scan[field].confidence;
+  }
+
+  return {
+    text: scan.text,
+    merchant_name: scan.merchant_name.value,
+    total_amount: scan.total_amount.value,
+    receipt_date: scan.receipt_date.value,
+    category: scan.category,
+    confidence: scan.confidence,
+    subtotal: scan.subtotal.value,
+    tax_amount: scan.tax_amount.value,
+    tip_amount: scan.tip_amount.value,
+    currency: scan.currency.value,
+    items: scan.items,
+    field_confidence: fieldConfidence,
+    low_confidence_fields: scan.low_confidence_fields,
+    provider: scan.provider,
+  };
+}
@@ -0,0 +1,449 @@
+import type { OCRFieldHints, OCRLine } from './ocr-provider';
+
+// ==================== TYPES ====================
+
+/** A parsed value with its confidence (0-100). Missing values have confidence 0. */
+export interface ReceiptField<T> {
+  value: T | null;
+  confidence: number;
+}
+
+export interface ParsedReceiptItem {
+  name: string;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+  confidence: number;
+  /** Source line, kept so reviewers can compare against the image */
+  raw: string;
+}
+
+export type ReceiptFieldName =
+  | 'merchant_name'
+  | 'receipt_date'
+  | 'subtotal'
+  | 'tax_amount'
+  | 'tip_amount'
+  | 'total_amount'
+  | 'currency';
+
+export interface ParsedReceipt {
+  merchant_name: ReceiptField<string>;
+  receipt_date: ReceiptField<string>;
+  subtotal: ReceiptField<number>;
+  tax_amount: ReceiptField<number>;
+  tip_amount: ReceiptField<number>;
+  total_amount: ReceiptField<number>;
+  currency: ReceiptField<string>;
+  items: ParsedReceiptItem[];
+  /** Overall extraction confidence, 0-100 */
+  confidence: number;
+  /** Fields (and `items[n]` entries) a user should review before saving */
+  low_confidence_fields: string[];
+}
+
+/** Fields scoring below this (0-100) are flagged for review. */
+export const LOW_CONFIDENCE_THRESHOLD = 70;
+
+// ==================== PATTERNS ====================
+
+const AMOUNT = String.raw`(\d{1,3}(?:,\d{3})+\.\d{2}|\d+[.,]\d{2})`;
+const CURRENCY_PREFIX = String.raw`(?:[$€£¥₹]\s?)?`;
+
+const ITEM_PATTERNS: Array<{ regex: RegExp; map: (m: RegExpMatchArray) => [string, number, number | null, number] }> = [
+  // "Apples 2 @ 2.99/lb 5.98" or "Milk 2 x 3.99 7.98"
+  {
+    regex: new RegExp(String.raw`^(.+?)\s+(\d+(?:\.\d+)?)\s*(?:x|×|@)\s*${CURRENCY_PREFIX}${AMOUNT}(?:\s*\/\s*[a-z]+)?\s+${CURRENCY_PREFIX}${AMOUNT}$`, 'i'),
+    map: (m) => [m[1], Number(m[2]), parseAmount(m[3]), parseAmount(m[4])],
+  },
+  // "Milk 2 3.99 7.98"
+  {
+    regex: new RegExp(String.raw`^(.+?)\s+(\d{1,3})\s+${CURRENCY_PREFIX}${AMOUNT}\s+${CURRENCY_PREFIX}${AMOUNT}$`, 'i'),
+    map: (m) => [m[1], Number(m[2]), parseAmount(m[3]), parseAmount(m[4])],
+  },
+  // "2 x Milk 7.98"
+  {
+    regex: new RegExp(String.raw`^(\d+(?:\.\d+)?)\s*(?:x|×)\s+(.+?)\s+${CURRENCY_PREFIX}${AMOUNT}$`, 'i'),
+    map: (m) => [m[2], Number(m[1]), null, parseAmount(m[3])],
+  },
+  // "2 Milk 7.98"
+  {
+    regex: new RegExp(String.raw`^(\d{1,2})\s+([a-z].*?)\s+${CURRENCY_PREFIX}${AMOUNT}$`, 'i'),
+    map: (m) => [m[2], Number(m[1]), null, parseAmount(m[3])],
+  },
+  // "Milk 3.99"
+  {
+    regex: new RegExp(String.raw`^(.+?)\s+${CURRENCY_PREFIX}${AMOUNT}$`, 'i'),
+    map: (m) => [m[1], 1, null, parseAmount(m[2])],
+  },
+];
+
+const SUBTOTAL_PATTERN = /\bsub\s*-?\s*total\b/i;
+const TOTAL_PATTERN = /\b(?:grand\s+total|total|amount\s+due|balance\s+due)\b/i;
+const TAX_PATTERN = /\b(?:sales\s+tax|tax|vat|gst|hst|pst)\b/i;
+const TIP_PATTERN = /\b(?:tip|gratuity|service\s+charge)\b/i;
+const NON_ITEM_PATTERN = /\b(?:change|cash|tender(?:ed)?|visa|mastercard|amex|discover|debit|credit|card|payment|paid|savings|discount|coupon|balance|auth|approval)\b/i;
+const MERCHANT_NOISE_PATTERN = /\b(?:receipt|welcome|thank\s*you|invoice|store\s*#|tel|phone|www\.|\.com)\b/i;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'JPY', 'CHF', 'SEK', 'NOK', 'DKK', 'MXN', 'INR', 'CNY', 'BRL', 'ZAR'];
+const CURRENCY_SYMBOLS: Record<string, string> = { '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR', '$': 'USD' };
+
+// ==================== HELPERS ====================
+
+/**
+ * Parses an amount such as "1,234.56", "3.99" or "3,99" into a number.
+ */
+export function parseAmount(raw: string): number {
+  const cleaned = /,\d{3}/.test(raw) && raw.includes('.')
+    ? raw.replace(/,/g, '')
+    : raw.replace(',', '.');
+  return Math.round(parseFloat(cleaned) * 100) / 100;
+}
+
+function lastAmount(text: string): number | null {
+  const matches = text.match(new RegExp(AMOUNT, 'g'));
+  return matches ? parseAmount(matches[matches.length - 1]) : null;
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+function nearlyEqual(a: number, b: number, tolerance = 0.02): boolean {
+  return Math.abs(a - b) <= tolerance;
+}
+
+function emptyField<T>(): ReceiptField<T> {
+  return { value: null, confidence: 0 };
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString().split('T')[0];
+}
+
+function expandYear(year: string): number {
+  const value = Number(year);
+  return year.length === 2 ? 2000 + value : value;
+}
+
+/**
+ * Extracts a receipt date as YYYY-MM-DD.
+ * Slash dates are read month-first unless the first part exceeds 12;
+ * dotted dates are read day-first as is common outside the US.
+ * @returns The ISO date and a 0-1 factor reflecting how unambiguous it was
+ */
+export function parseReceiptDate(text: string): { date: string; certainty: number } | null {
+  const iso = text.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+  if (iso) {
+    const date = toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    if (date) return { date, certainty: 1 };
+  }
+
+  const named = text.match(/\b(\d{1,2})?\s*(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s*(\d{1,2})?,?\s+(\d{4})\b/i);
+  if (named && (named[1] || named[3])) {
+    const month = MONTHS.indexOf(named[2].toLowerCase()) + 1;
+    const date = toIsoDate(Number(named[4]), month, Number(named[3] ?? named[1]));
+    if (date) return { date, certainty: 1 };
+  }
+
+  const numeric = text.match(/\b(\d{1,2})([-/.])(\d{1,2})\2(\d{2}|\d{4})\b/);
+  if (numeric) {
+    const first = Number(numeric[1]);
+    const second = Number(numeric[3]);
+    const year = expandYear(numeric[4]);
+    const dayFirst = numeric[2] === '.' || first > 12;
+    const date = dayFirst ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+    if (date) {
+      const ambiguous = first <= 12 && second <= 12 && first !== second;
+      return { date, certainty: ambiguous || numeric[4].length === 2 ? 0.8 : 1 };
+    }
+  }
+
+  return null;
+}
+
+function detectCurrency(lines: OCRLine[]): ReceiptField<string> {
+  for (const line of lines) {
+    const code = line.text.toUpperCase().match(new RegExp(String.raw`\b(${CURRENCY_CODES.join('|')})\b`));
+    if (code) return { value: code[1], confidence: clamp(line.confidence) };
+  }
+
+  for (const line of lines) {
+    for (const [symbol, code] of Object.entries(CURRENCY_SYMBOLS)) {
+      if (line.text.includes(symbol)) {
+        // "$" is shared by many currencies, so it is only a weak signal
+        return { value: code, confidence: clamp(line.confidence * (symbol === '$' ? 0.8 : 1)) };
+      }
+    }
+  }
+
+  return emptyField();
+}
+
+function cleanItemName(raw: string): string {
+  return raw
+    .replace(/^\d{5,}\s+/, '') // leading SKU / barcode
+    .replace(/[\s.:·…-]+$/, '')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
+
+function parseItemLine(line: OCRLine): ParsedReceiptItem | null {
+  // Drop trailing tax flags printed after the price, e.g. "4.99 T"
+  const text = line.text.replace(/(\d[.,]\d{2})\s+[A-Z*]{1,2}$/, '$1').trim();
+
+  for (const pattern of ITEM_PATTERNS) {
+    const match = text.match(pattern.regex);
+    if (!match) continue;
+
+    const [rawName, quantity, unitPrice, totalPrice] = pattern.map(match);
+    const name = cleanItemName(rawName);
+
+    if (!/[a-z]{2,}/i.test(name) || !(quantity > 0) || !(totalPrice > 0)) return null;
+
+    let factor = 0.9;
+    let unit = unitPrice ?? totalPrice / quantity;
+    if (unitPrice !== null) {
+      // Quantity and unit price were printed; trust them more when they agree
+      factor = nearlyEqual(unitPrice * quantity, totalPrice, 0.05) ? 1 : 0.6;
+    }
+    unit = Math.round(unit * 100) / 100;
+
+    return {
+      name,
+      quantity,
+      unit_price: unit,
+      total_price: totalPrice,
+      confidence: clamp(line.confidence * factor),
+      raw: line.text,
+    };
+  }
+
+  return null;
+}
+
+function pickMerchant(lines: OCRLine[]): ReceiptField<string> {
+  for (const line of lines.slice(0, 5)) {
+    const text = line.text.trim();
+    if (
+      /[a-z]{3,}/i.test(text) &&
+      !/^\d/.test(text) &&
+      !new RegExp(AMOUNT).test(text) &&
+      !MERCHANT_NOISE_PATTERN.test(text) &&
+      !parseReceiptDate(text) &&
+      text.length <= 50
+    ) {
+      // Header detection is heuristic, so it never scores as high as the OCR itself
+      return { value: text, confidence: clamp(line.confidence * 0.85) };
+    }
+  }
+  return emptyField();
+}
+
+function listLowConfidenceFields(receipt: Omit<ParsedReceipt, 'low_confidence_fields' | 'confidence'>): string[] {
+  const flagged: string[] = [];
+  const required: ReceiptFieldName[] = ['merchant_name', 'receipt_date', 'total_amount'];
+  const optional: ReceiptFieldName[] = ['subtotal', 'tax_amount', 'tip_amount', 'currency'];
+
+  for (const field of required) {
+    if (receipt[field].value === null || receipt[field].confidence < LOW_CONFIDENCE_THRESHOLD) {
+      flagged.push(field);
+    }
+  }
+  for (const field of optional) {
+    if (receipt[field].value !== null && receipt[field].confidence < LOW_CONFIDENCE_THRESHOLD) {
+      flagged.push(field);
+    }
+  }
+  receipt.items.forEach((item, index) => {
+    if (item.confidence < LOW_CONFIDENCE_THRESHOLD) flagged.push(`items[${index}]`);
+  });
+
+  return flagged;
+}
+
+function overallConfidence(receipt: Omit<ParsedReceipt, 'low_confidence_fields' | 'confidence'>): number {
+  const itemConfidence = receipt.items.length > 0
+    ? receipt.items.reduce((sum, item) => sum + item.confidence, 0) / receipt.items.length
+    : 0;
+
+  return clamp(
+    receipt.total_amount.confidence * 0.4 +
+    receipt.merchant_name.confidence * 0.2 +
+    receipt.receipt_date.confidence * 0.15 +
+    itemConfidence * 0.25
+  );
+}
+
+function finalize(receipt: Omit<ParsedReceipt, 'low_confidence_fields' | 'confidence'>): ParsedReceipt {
+  return {
+    ...receipt,
+    confidence: overallConfidence(receipt),
+    low_confidence_fields: listLowConfidenceFields(receipt),
+  };
+}
+
+// ==================== PARSER ====================
+
+/**
+ * Parses recognized receipt lines into structured fields.
+ *
+ * Each field carries a confidence derived from the OCR confidence of the line
+ * it came from, adjusted by how well the receipt adds up: items that sum to the
+ * subtotal and a subtotal + tax + tip that matches the total raise confidence,
+ * while mismatches lower it.
+ *
+ * @param lines - Recognized lines in reading order, with 0-100 confidence
+ * @returns Parsed receipt with per-field confidence and fields needing review
+ */
+export function parseReceiptLines(lines: OCRLine[]): ParsedReceipt {
+  const cleanLines = lines
+    .map((line) => ({ text: line.text.replace(/\s+/g, ' ').trim(), confidence: line.confidence }))
+    .filter((line) => line.text.length > 0);
+
+  const subtotal = emptyField<number>();
+  const tax = emptyField<number>();
+  const tip = emptyField<number>();
+  const total = emptyField<number>();
+  let receiptDate = emptyField<string>();
+  const items: ParsedReceiptItem[] = [];
+  let taxAccumulated = 0;
+  let reachedTotals = false;
+
+  for (const line of cleanLines) {
+    const text = line.text;
+
+    if (!receiptDate.value) {
+      const parsed = parseReceiptDate(text);
+      if (parsed) {
+        receiptDate = { value: parsed.date, confidence: clamp(line.confidence * parsed.certainty) };
+        continue;
+      }
+    }
+
+    const amount = lastAmount(text);
+
+    if (SUBTOTAL_PATTERN.test(text)) {
+      if (amount !== null) Object.assign(subtotal, { value: amount, confidence: clamp(line.confidence) });
+      reachedTotals = true;
+      continue;
+    }
+    if (TIP_PATTERN.test(text)) {
+      if (amount !== null) Object.assign(tip, { value: amount, confidence: clamp(line.confidence) });
+      reachedTotals = true;
+      continue;
+    }
+    if (TAX_PATTERN.test(text) && !TOTAL_PATTERN.test(text)) {
+      if (amount !== null) {
+        // Receipts may list several taxes (e.g. GST + PST); they add up
+        taxAccumulated += amount;
+        tax.value = Math.round(taxAccumulated * 100) / 100;
+        tax.confidence = tax.confidence ? Math.min(tax.confidence, clamp(line.confidence)) : clamp(line.confidence);
+      }
+      reachedTotals = true;
+      continue;
+    }
+    if (TOTAL_PATTERN.test(text)) {
+      // Prefer the first explicit total; later ones are usually "total savings" etc.
+      if (amount !== null && total.value === null) {
+        Object.assign(total, { value: amount, confidence: clamp(line.confidence) });
+      }
+      reachedTotals = true;
+      continue;
+    }
+
+    if (reachedTotals || NON_ITEM_PATTERN.test(text)) continue;
+
+    const item = parseItemLine(line);
+    if (item) items.push(item);
+  }
+
+  // Cross-check the arithmetic
+  const itemsSum = Math.round(items.reduce((sum, item) => sum + item.total_price, 0) * 100) / 100;
+
+  if (subtotal.value === null && items.length > 0 && total.value !== null && tax.value !== null) {
+    if (nearlyEqual(itemsSum + tax.value + (tip.value ?? 0), total.value)) {
+      Object.assign(subtotal, { value: itemsSum, confidence: clamp(Math.min(...items.map((i) => i.confidence))) });
+    }
+  }
+
+  if (subtotal.value !== null && items.length > 0) {
+    const agrees = nearlyEqual(itemsSum, subtotal.value, 0.05);
+    for (const item of items) {
+      item.confidence = clamp(agrees ? item.confidence + 10 : item.confidence * 0.85);
+    }
+  }
+
+  const base = subtotal.value ?? (items.length > 0 ? itemsSum : null);
+  if (base !== null && total.value !== null) {
+    const expected = base + (tax.value ?? 0) + (tip.value ?? 0);
+    if (nearlyEqual(expected, total.value)) {
+      total.confidence = clamp(total.confidence + 15);
+      if (subtotal.value !== null) subtotal.confidence = clamp(subtotal.confidence + 10);
+      if (tax.value !== null) tax.confidence = clamp(tax.confidence + 10);
+      if (tip.value !== null) tip.confidence = clamp(tip.confidence + 10);
+    } else if (subtotal.value !== null) {
+      total.confidence = clamp(total.confidence * 0.75);
+      subtotal.confidence = clamp(subtotal.confidence * 0.75);
+    }
+  } else if (total.value === null && base !== null) {
+    // No readable total: derive it, but always ask the user to confirm
+    const derived = Math.round((base + (tax.value ?? 0) + (tip.value ?? 0)) * 100) / 100;
+    Object.assign(total, { value: derived, confidence: clamp((subtotal.confidence || 60) * 0.6) });
+  }
+
+  return finalize({
+    merchant_name: pickMerchant(cleanLines),
+    receipt_date: receiptDate,
+    subtotal,
+    tax_amount: tax,
+    tip_amount: tip,
+    total_amount: total,
+    currency: detectCurrency(cleanLines),
+    items,
+  });
+}
+
+/**
+ * Parses plain receipt text, assigning every line the same confidence.
+ * @param text - Raw OCR text
+ * @param confidence - OCR confidence for the whole text, 0-100
+ */
+export function parseReceiptText(text: string, confidence = 100): ParsedReceipt {
+  return parseReceiptLines(
+    text.split('\n').map((line) => ({ text: line, confidence }))
+  );
+}
+
+/**
+ * Overrides parsed fields with structured values reported by the provider
+ * (e.g. a vision model), scored with the provider's own confidence.
+ * Values that agree with the parsed text keep the higher confidence.
+ */
+export function applyReceiptHints(receipt: ParsedReceipt, hints: OCRFieldHints | undefined, confidence: number): ParsedReceipt {
+  if (!hints) return receipt;
+
+  const merge = <T>(field: ReceiptField<T>, hint: T | null | undefined): ReceiptField<T> => {
+    if (hint === null || hint === undefined || hint === '') return field;
+    if (field.value === hint) return { value: hint, confidence: Math.max(field.confidence, clamp(confidence)) };
+    return { value: hint, confidence: clamp(confidence) };
+  };
+
+  const total = typeof hints.total_amount === 'number' && hints.total_amount > 0 && hints.total_amount <= 100000
+    ? hints.total_amount
+    : null;
+  const hintedDate = hints.receipt_date ? parseReceiptDate(hints.receipt_date)?.date : null;
+
+  return finalize({
+    ...receipt,
+    merchant_name: merge(receipt.merchant_name, hints.merchant_name?.trim()),
+    receipt_date: merge(receipt.receipt_date, hintedDate),
+    total_amount: merge(receipt.total_amount, total),
+    currency: merge(receipt.currency, hints.currency?.trim().toUpperCase()),
+  });
+}
@@ -0,0 +1,82 @@
+import type { Worker, Page } from 'tesseract.js';
+import type { OCRLine, OCRProvider, OCRRecognition } from './ocr-provider';
+
+export interface TesseractProviderOptions {
+  /** Tesseract language codes, e.g. 'eng' or 'eng+fra' */
+  language?: string;
+  /** Directory or URL holding *.traineddata files for fully offline use */
+  langPath?: string;
+}
+
+/**
+ * Flattens Tesseract's block → paragraph → line hierarchy into lines,
+ * falling back to splitting the plain text when no layout is available.
+ */
+export function extractTesseractLines(page: Pick<Page, 'text' | 'confidence' | 'blocks'>): OCRLine[] {
+  const lines: OCRLine[] = [];
+
+  for (const block of page.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        const text = line.text.trim();
+        if (text) lines.push({ text, confidence: line.confidence });
+      }
+    }
+  }
+
+  if (lines.length > 0) return lines;
+
+  return page.text
+    .split('\n')
+    .map((text) => text.trim())
+    .filter(Boolean)
+    .map((text) => ({ text, confidence: page.confidence }));
+}
+
+/**
+ * Local OCR provider backed by tesseract.js.
+ *
+ * Runs entirely on-device (browser or Node); no image data leaves the
+ * process. A single worker is created on first use and reused.
+ */
+export function createTesseractProvider(options: TesseractProviderOptions = {}): OCRProvider & { terminate(): Promise<void> } {
+  const language = options.language || process.env.OCR_TESSERACT_LANG || 'eng';
+  const langPath = options.langPath || process.env.OCR_TESSERACT_LANG_PATH;
+
+  let workerPromise: Promise<Worker> | null = null;
+
+  const getWorker = (): Promise<Worker> => {
+    if (!workerPromise) {
+      workerPromise = import('tesseract.js').then(({ createWorker }) =>
+        createWorker(language, undefined, langPath ? { langPath } : {})
+      );
+      workerPromise.catch(() => {
+        workerPromise = null;
+      });
+    }
+    return workerPromise;
+  };
+
+  return {
+    name: 'tesseract',
+
+    async recognize(image): Promise<OCRRecognition> {
+      const worker = await getWorker();
+      const { data } = await worker.recognize(image, {}, { text: true, blocks: true });
+
+      return {
+        provider: 'tesseract',
+        text: data.text ?? '',
+        confidence: data.confidence ?? 0,
+        lines: extractTesseractLines(data),
+      };
+    },
+
+    async terminate() {
+      if (!workerPromise) return;
+      const worker = await workerPromise;
+      workerPromise = null;
+      await worker.terminate();
+    },
+  };
+}
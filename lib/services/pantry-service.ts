@@ -0,0 +1,222 @@
+import { createClient } from '@/lib/supabase/client';
+import { getCategoryForItem } from '@/lib/constants/shopping-categories';
+import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+
+export type PantryLocation = 'fridge' | 'freezer' | 'pantry';
+
+export const PANTRY_LOCATIONS: { value: PantryLocation; label: string; icon: string }[] = [
+  { value: 'fridge', label: 'Fridge', icon: '🧊' },
+  { value: 'freezer', label: 'Freezer', icon: '❄️' },
+  { value: 'pantry', label: 'Pantry', icon: '🥫' },
+];
+
+export interface PantryItem {
+  id: string;
+  space_id: string;
+  name: string;
+  /** Amount on hand in `unit`; null when untracked ("some") */
+  quantity: number | null;
+  unit: string | null;
+  location: PantryLocation;
+  category: string | null;
+  /** Best-before date (YYYY-MM-DD) */
+  expires_on: string | null;
+  barcode: string | null;
+  notes: string | null;
+  source: 'manual' | 'shopping' | 'barcode';
+  shopping_item_id: string | null;
+  added_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreatePantryItemInput {
+  space_id: string;
+  name: string;
+  quantity?: number | null;
+  unit?: string | null;
+  location?: PantryLocation;
+  category?: string | null;
+  expires_on?: string | null;
+  barcode?: string | null;
+  notes?: string | null;
+  source?: 'manual' | 'barcode';
+}
+
+export type UpdatePantryItemInput = Partial<Omit<CreatePantryItemInput, 'space_id' | 'source'>>;
+
+/** Product details for a scanned barcode, used to pre-fill a new pantry item */
+export interface BarcodeProduct {
+  barcode: string;
+  name: string;
+  brand?: string;
+  quantity?: number;
+  unit?: string;
+  category?: string;
+  location?: PantryLocation;
+  /** 'pantry' when the space has stocked this barcode before */
+  source: 'pantry' | 'open_food_facts';
+}
+
+const getSupabaseClient = (supabase?: SupabaseClient) => supabase ?? createClient();
+
+/** Shopping categories that are usually kept cold */
+function defaultLocation(category: string): PantryLocation {
+  if (category === 'frozen') return 'freezer';
+  if (category === 'dairy' || category === 'meat') return 'fridge';
+  return 'pantry';
+}
+
+/**
+ * Pantry Service
+ *
+ * Tracks what a space already has at home: quantities, storage location and
+ * expiry. Checked-off shopping items are added by a database trigger.
+ */
+export const pantryService = {
+  /**
+   * Retrieves all pantry items for a space, soonest expiry first.
+   * @param spaceId - The space identifier
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @returns Pantry items; items without an expiry date come last
+   * @throws Error if database query fails
+   */
+  async getItems(spaceId: string, supabaseClient?: SupabaseClient): Promise<PantryItem[]> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const { data, error } = await supabase
+      .from('pantry_items')
+      .select('*')
+      .eq('space_id', spaceId)
+      .order('expires_on', { ascending: true, nullsFirst: false })
+      .order('name', { ascending: true })
+      .limit(1000);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Adds an item to the pantry, defaulting category and location from its name.
+   * @param input - Item data including space_id and name
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @returns The newly created pantry item
+   * @throws Error if database insert fails
+   */
+  async createItem(input: CreatePantryItemInput, supabaseClient?: SupabaseClient): Promise<PantryItem> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const category = input.category || getCategoryForItem(input.name);
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('pantry_items')
+      .insert([{
+        ...input,
+        name: input.name.trim(),
+        category,
+        location: input.location || defaultLocation(category),
+        source: input.source || 'manual',
+        added_by: user?.id ?? null,
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Updates a pantry item.
+   * @param id - The pantry item identifier
+   * @param updates - Fields to change
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @returns The updated pantry item
+   * @throws Error if database update fails
+   */
+  async updateItem(id: string, updates: UpdatePantryItemInput, supabaseClient?: SupabaseClient): Promise<PantryItem> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const { data, error } = await supabase
+      .from('pantry_items')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Removes a pantry item.
+   * @param id - The pantry item identifier
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @throws Error if database delete fails
+   */
+  async deleteItem(id: string, supabaseClient?: SupabaseClient): Promise<void> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const { error } = await supabase
+      .from('pantry_items')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Uses up some or all of an item. Untracked quantities, or using at least
+   * what is left, remove the item.
+   * @param item - The pantry item
+   * @param amount - Amount used, in the item's unit
+   * @returns The updated item, or null if it was removed
+   */
+  async consumeItem(item: PantryItem, amount: number, supabaseClient?: SupabaseClient): Promise<PantryItem | null> {
+    if (item.quantity === null || amount >= item.quantity) {
+      await this.deleteItem(item.id, supabaseClient);
+      return null;
+    }
+    return this.updateItem(item.id, { quantity: Math.round((item.quantity - amount) * 100) / 100 }, supabaseClient);
+  },
+
+  /**
+   * Looks up a scanned barcode: the space's own earlier entry first, then Open Food Facts.
+   * @param spaceId - The space identifier
+   * @param barcode - EAN/UPC code from the scanner
+   * @returns Product details, or null if the barcode is unknown
+   * @throws Error if the lookup request fails
+   */
+  async lookupBarcode(spaceId: string, barcode: string): Promise<BarcodeProduct | null> {
+    const params = new URLSearchParams({ spaceId, code: barcode });
+    const response = await fetch(`/api/pantry/barcode?${params}`);
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.error || 'Failed to look up barcode');
+    }
+
+    const { data } = await response.json();
+    return data;
+  },
+
+  /**
+   * Subscribes to real-time pantry changes for a space.
+   * @param spaceId - The space identifier
+   * @param callback - Called on any insert, update or delete
+   * @returns The realtime channel; remove it with supabase.removeChannel
+   */
+  subscribeToPantry(spaceId: string, callback: () => void): RealtimeChannel {
+    const supabase = createClient();
+    return supabase
+      .channel(`pantry:${spaceId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'pantry_items',
+          filter: `space_id=eq.${spaceId}`,
+        },
+        () => callback()
+      )
+      .subscribe();
+  },
+};
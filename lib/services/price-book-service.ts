@@ -0,0 +1,156 @@
+import { subDays, format } from 'date-fns';
+import { createClient } from '@/lib/supabase/client';
+import { getCurrencyConverter } from '@/lib/services/currency-service';
+import { buildPriceBook, type PriceBook } from '@/lib/utils/price-helpers';
+import { getUnitDimension, normalizeUnit } from '@/lib/utils/units';
+import type { ParsedReceiptItem } from '@/lib/services/ocr';
+import type { Receipt } from '@/lib/services/receipts-service';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface PriceBookEntry {
+  id: string;
+  space_id: string;
+  name: string;
+  /** null when the store is unknown */
+  store_name: string | null;
+  /** Unit the price is for; empty for "each" */
+  unit: string;
+  unit_price: number;
+  /** null means the space base currency */
+  currency: string | null;
+  source: 'receipt' | 'shopping';
+  receipt_id: string | null;
+  shopping_item_id: string | null;
+  /** Purchase date (YYYY-MM-DD) */
+  observed_on: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+/** Prices older than this are ignored when estimating */
+const PRICE_HISTORY_DAYS = 365;
+
+/** Receipt lines read with less confidence than this (0-100) are not learned */
+const MIN_ITEM_CONFIDENCE = 60;
+
+const ENTRY_COLUMNS = 'id, space_id, name, store_name, unit, unit_price, currency, source, receipt_id, shopping_item_id, observed_on, created_by, created_at';
+
+const getSupabaseClient = (supabase?: SupabaseClient) => supabase ?? createClient();
+
+/**
+ * Price Book Service
+ *
+ * Learns what a space pays per item and store from scanned receipts and from
+ * priced shopping items (recorded by a database trigger as they are checked off).
+ */
+export const priceBookService = {
+  /**
+   * Retrieves a space's price history for the past year, newest first.
+   * @param spaceId - The space identifier
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @returns Price book entries
+   * @throws Error if database query fails
+   */
+  async getEntries(spaceId: string, supabaseClient?: SupabaseClient): Promise<PriceBookEntry[]> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const { data, error } = await supabase
+      .from('price_book_entries')
+      .select(ENTRY_COLUMNS)
+      .eq('space_id', spaceId)
+      .gte('observed_on', format(subDays(new Date(), PRICE_HISTORY_DAYS), 'yyyy-MM-dd'))
+      .order('observed_on', { ascending: false })
+      .limit(2000);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Retrieves a space's current prices, converted to its base currency.
+   * Prices in a currency with no exchange rate to the base are left out.
+   * @param spaceId - The space identifier
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @returns Prices by item, store and unit
+   * @throws Error if database query fails
+   */
+  async getPriceBook(spaceId: string, supabaseClient?: SupabaseClient): Promise<PriceBook> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const [entries, converter] = await Promise.all([
+      this.getEntries(spaceId, supabase),
+      getCurrencyConverter(spaceId, supabase),
+    ]);
+
+    return buildPriceBook(entries.flatMap((entry) => {
+      const unitPrice = converter.tryToBase(Number(entry.unit_price), entry.currency, entry.observed_on);
+      return unitPrice === null ? [] : [{ ...entry, unit_price: unitPrice }];
+    }));
+  },
+
+  /**
+   * Learns prices from the line items read off a receipt.
+   * Lines read with low confidence or without a price (discounts) are
+   * skipped. Replaces anything learned from the receipt before, so saving it
+   * again does not double count.
+   * @param receipt - The saved receipt (store, date and currency)
+   * @param items - Line items from the receipt scan
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @returns Number of prices recorded
+   * @throws Error if database insert fails
+   */
+  async recordReceiptItems(
+    receipt: Pick<Receipt, 'id' | 'space_id' | 'merchant_name' | 'receipt_date' | 'currency' | 'created_at'>,
+    items: ParsedReceiptItem[],
+    supabaseClient?: SupabaseClient
+  ): Promise<number> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const rows = items
+      .filter((item) => item.confidence >= MIN_ITEM_CONFIDENCE && item.unit_price > 0 && item.name.trim())
+      .map((item) => {
+        // "Apples 2 @ 2.99/lb 5.98" is priced per lb; other lines per item
+        const per = item.raw.match(/\/\s*([a-z]+)\b/i)?.[1] ?? '';
+        return {
+          space_id: receipt.space_id,
+          name: item.name.trim().slice(0, 200),
+          store_name: receipt.merchant_name?.trim().slice(0, 100) || null,
+          unit: per && getUnitDimension(per) !== 'count' ? normalizeUnit(per) : '',
+          unit_price: item.unit_price,
+          currency: receipt.currency || null,
+          source: 'receipt' as const,
+          receipt_id: receipt.id,
+          observed_on: receipt.receipt_date || receipt.created_at.slice(0, 10),
+        };
+      })
+      .filter((row) => row.name);
+
+    const { error: deleteError } = await supabase
+      .from('price_book_entries')
+      .delete()
+      .eq('receipt_id', receipt.id);
+    if (deleteError) throw deleteError;
+
+    if (rows.length === 0) return 0;
+
+    const { error } = await supabase
+      .from('price_book_entries')
+      .insert(rows);
+
+    if (error) throw error;
+    return rows.length;
+  },
+
+  /**
+   * Deletes a price, e.g. one read wrongly off a receipt.
+   * @param id - The entry identifier
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @throws Error if database delete fails
+   */
+  async deleteEntry(id: string, supabaseClient?: SupabaseClient): Promise<void> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const { error } = await supabase
+      .from('price_book_entries')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,92 @@
+/**
+ * Product Lookup Service
+ * Resolves scanned grocery barcodes to product details via Open Food Facts
+ */
+
+import { logger } from '@/lib/logger';
+import { getCategoryForItem, type ShoppingCategory } from '@/lib/constants/shopping-categories';
+import { splitIngredientLine } from '@/lib/services/ingredient-parser';
+import type { BarcodeProduct, PantryLocation } from '@/lib/services/pantry-service';
+
+const OPEN_FOOD_FACTS_URL = 'https://world.openfoodfacts.org/api/v2/product';
+
+/** Barcodes the scanner produces for groceries: EAN-8, UPC-A/E, EAN-13, GTIN-14 */
+export const PRODUCT_BARCODE_PATTERN = /^\d{6,14}$/;
+
+interface OpenFoodFactsResponse {
+  status?: number;
+  product?: {
+    product_name?: string;
+    generic_name?: string;
+    brands?: string;
+    quantity?: string;
+    categories_tags?: string[];
+  };
+}
+
+/** Open Food Facts category tags that map onto shopping categories */
+const CATEGORY_TAGS: Array<[RegExp, ShoppingCategory]> = [
+  [/frozen/, 'frozen'],
+  [/dairies|dairy|cheeses|yogurts|milks|butters/, 'dairy'],
+  [/meats|poultry|fish|seafood/, 'meat'],
+  [/fruits|vegetables|fresh-foods/, 'produce'],
+  [/breads|bakery|pastries/, 'bakery'],
+  [/beverages|drinks|waters|juices/, 'beverages'],
+  [/snacks|sweets|chocolates|biscuits|crisps/, 'snacks'],
+];
+
+function categoryFromTags(tags: string[], name: string): ShoppingCategory {
+  for (const [pattern, category] of CATEGORY_TAGS) {
+    if (tags.some((tag) => pattern.test(tag))) return category;
+  }
+  const fromName = getCategoryForItem(name);
+  return fromName === 'other' ? 'pantry' : fromName;
+}
+
+function locationForCategory(category: ShoppingCategory): PantryLocation {
+  if (category === 'frozen') return 'freezer';
+  if (category === 'dairy' || category === 'meat') return 'fridge';
+  return 'pantry';
+}
+
+/**
+ * Look up a product by barcode on Open Food Facts
+ * @returns Product details, or null if the product is unknown or the lookup fails
+ */
+export async function lookupOpenFoodFacts(barcode: string): Promise<BarcodeProduct | null> {
+  if (!PRODUCT_BARCODE_PATTERN.test(barcode)) return null;
+
+  try {
+    const response = await fetch(
+      `${OPEN_FOOD_FACTS_URL}/${barcode}.json?fields=product_name,generic_name,brands,quantity,categories_tags`,
+      {
+        headers: { 'User-Agent': 'Rowan-Pantry/1.0 (https://rowanapp.com)' },
+        signal: AbortSignal.timeout(8000),
+      }
+    );
+    if (!response.ok) return null;
+
+    const body = (await response.json()) as OpenFoodFactsResponse;
+    const name = (body.product?.product_name || body.product?.generic_name || '').trim();
+    if (body.status !== 1 || !name) return null;
+
+    // "500 g" → 500 g; pack sizes like "6 x 330 ml" are left to the user
+    const size = splitIngredientLine(body.product?.quantity ?? '');
+    const quantity = size.unit && !size.name ? parseFloat(size.amount) : NaN;
+    const category = categoryFromTags(body.product?.categories_tags ?? [], name);
+
+    return {
+      barcode,
+      name: name.slice(0, 200),
+      brand: body.product?.brands?.split(',')[0]?.trim() || undefined,
+      quantity: Number.isFinite(quantity) ? quantity : undefined,
+      unit: Number.isFinite(quantity) ? size.unit : undefined,
+      category,
+      location: locationForCategory(category),
+      source: 'open_food_facts',
+    };
+  } catch (error) {
+    logger.error('Open Food Facts lookup failed:', error, { component: 'lib-product-lookup-service', action: 'service_call' });
+    return null;
+  }
+}
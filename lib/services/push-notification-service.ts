@@ -72,6 +72,7 @@ export interface NotificationResult {
 export type NotificationType =
   | 'location_arrival'
   | 'location_departure'
+  | 'location_reminder'
   | 'location_emergency'
   | 'task_assigned'
   | 'task_due_soon'
@@ -108,6 +109,7 @@ const sendNotificationSchema = z.object({
   type: z.enum([
     'location_arrival',
     'location_departure',
+    'location_reminder',
     'location_emergency',
     'task_assigned',
     'task_due_soon',
@@ -645,6 +647,7 @@ function getChannelForType(type: NotificationType): string {
       return 'tasks';
     case 'location_arrival':
     case 'location_departure':
+    case 'location_reminder':
       return 'location';
     case 'event_reminder':
       return 'calendar';
@@ -746,6 +749,33 @@ export async function notifyLocationDeparture(
   );
 }
 
+/**
+ * Notifies a member of a location reminder they triggered by arriving at or
+ * leaving its place.
+ *
+ * @param userId - The user ID of the member who moved
+ * @param reminderTitle - The title of the reminder
+ * @param message - Where they are, plus any linked shopping lists
+ * @param actionUrl - Page to open when the notification is tapped
+ */
+export async function notifyLocationReminder(
+  userId: string,
+  reminderTitle: string,
+  message: string,
+  actionUrl: string
+): Promise<void> {
+  await sendPushNotification({
+    userIds: [userId],
+    notification: {
+      title: reminderTitle.slice(0, 100),
+      body: message.slice(0, 500),
+      data: { reminderTitle },
+      actionUrl,
+    },
+    type: 'location_reminder',
+  });
+}
+
 /**
  * Notifies a user when they are assigned a task.
  *
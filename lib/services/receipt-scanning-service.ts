@@ -2,6 +2,13 @@ import { createClient } from '@/lib/supabase/client';
 import { fileUploadService, FileUploadResult } from './file-upload-service';
 import { mapReceiptCategory, getDefaultCategoriesForDomain } from '@/lib/constants/default-categories';
 import { logger } from '@/lib/logger';
+import {
+  getOCRProvider,
+  parseReceiptLines,
+  type OCRImageSource,
+  type OCRLine,
+  type ReceiptFieldName,
+} from './ocr';
 
 export interface ReceiptData {
   id: string;
@@ -34,6 +41,10 @@ export interface ExtractedReceiptData {
   phone?: string;
   items?: ReceiptItem[];
   category_suggestions?: string[];
+  /** OCR confidence (0-100) for each extracted field */
+  field_confidence?: Partial<Record<ReceiptFieldName, number>>;
+  /** Fields (and `items[n]` entries) to review before creating the expense */
+  low_confidence_fields?: string[];
 }
 
 export interface ReceiptItem {
@@ -42,6 +53,8 @@ export interface ReceiptItem {
   unit_price?: number;
   total_price?: number;
   category?: string;
+  /** OCR confidence (0-100) for this line */
+  confidence?: number;
 }
 
 export interface ReceiptProcessingResult {
@@ -148,11 +161,11 @@ export const receiptScanningService = {
         };
       }
 
-      // Process the image with OCR
-      const ocrResult = await this.extractTextFromImage(uploadResult.public_url);
+      // Process the image with OCR (on-device by default)
+      const ocrResult = await this.extractTextFromImage(file);
 
       // Parse the extracted text
-      const extractedData = await this.parseReceiptText(ocrResult.text, options?.category_hint);
+      const extractedData = await this.parseReceiptText(ocrResult.text, options?.category_hint, ocrResult.lines);
 
       // Calculate confidence score
       const confidenceScore = this.calculateConfidenceScore(extractedData, ocrResult.confidence);
@@ -174,7 +187,8 @@ export const receiptScanningService = {
 
       // Auto-create expense if requested and data is reliable
       // TODO: Implement auto expense creation when expense service is available
-      if (options?.auto_create_expense && confidenceScore > 0.7 && suggestion) {
+      const needsReview = extractedData.low_confidence_fields?.includes('total_amount') ?? true;
+      if (options?.auto_create_expense && confidenceScore > 0.7 && suggestion && !needsReview) {
         try {
           // TODO: Import expense service for auto-creation
           // const { expenseService } = await import('./expense-service');
@@ -219,115 +233,69 @@ export const receiptScanningService = {
   },
 
   /**
-   * Extract text from image using OCR
+   * Extract text from image using the configured OCR provider
+   * Confidence is returned on a 0-1 scale; line confidences stay 0-100
    */
-  async extractTextFromImage(imageUrl: string): Promise<{ text: string; confidence: number }> {
+  async extractTextFromImage(image: OCRImageSource): Promise<{ text: string; confidence: number; lines: OCRLine[] }> {
     try {
-      // For now, we'll implement a simple OCR using browser APIs
-      // In production, you might want to use Tesseract.js or a cloud OCR service
-
-      // Placeholder implementation - in real app you'd use:
-      // - Tesseract.js for client-side OCR
-      // - Google Vision API, AWS Textract, or Azure Computer Vision
-      // - Custom OCR service
-
-      // Simulated OCR result for demo purposes
-      const sampleText = await this.simulateOCR(imageUrl);
+      const provider = await getOCRProvider();
+      const recognition = await provider.recognize(image);
 
       return {
-        text: sampleText,
-        confidence: 0.85 // Simulated confidence
+        text: recognition.text,
+        confidence: recognition.confidence / 100,
+        lines: recognition.lines,
       };
 
     } catch (error) {
       logger.error('OCR extraction failed:', error, { component: 'lib-receipt-scanning-service', action: 'service_call' });
       return {
         text: '',
-        confidence: 0
+        confidence: 0,
+        lines: []
       };
     }
   },
 
-  /**
-   * Simulate OCR for demo purposes
-   * In production, replace with actual OCR service
-   */
-  async simulateOCR(_imageUrl: string): Promise<string> {
-    // This would be replaced with actual OCR
-    return `ACME GROCERY STORE
-123 Main Street
-Anytown, ST 12345
-(555) 123-4567
-
-Date: ${new Date().toLocaleDateString()}
-Time: ${new Date().toLocaleTimeString()}
-
-Items:
-Milk              $3.99
-Bread             $2.49
-Eggs              $4.99
-Apples (2 lbs)    $5.98
-
-Subtotal:         $17.45
-Tax (8.5%):       $1.48
-Total:            $18.93
-
-Payment: VISA ****1234
-Reference: TXN123456789
-
-Thank you for shopping with us!`;
-  },
-
   /**
    * Parse extracted text and structure receipt data
+   * Uses per-line OCR confidence when available
    */
-  async parseReceiptText(text: string, categoryHint?: string): Promise<ExtractedReceiptData> {
+  async parseReceiptText(text: string, categoryHint?: string, lines?: OCRLine[]): Promise<ExtractedReceiptData> {
     const extractedData: ExtractedReceiptData = {
       items: [],
       category_suggestions: []
     };
 
     try {
-      const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-
-      // Extract merchant name (usually first few lines)
-      const merchantLine = lines.find(line =>
-        !line.match(/^\d/) &&
-        !line.includes('$') &&
-        line.length > 3 &&
-        line.length < 50
-      );
-      if (merchantLine) {
-        extractedData.merchant_name = merchantLine;
-      }
-
-      // Extract total amount
-      const totalPattern = /(?:total|amount|grand\s*total)[:\s]*\$?(\d+\.?\d*)/i;
-      const totalMatch = text.match(totalPattern);
-      if (totalMatch) {
-        extractedData.total_amount = parseFloat(totalMatch[1]);
-      }
-
-      // Extract subtotal
-      const subtotalPattern = /(?:subtotal|sub\s*total)[:\s]*\$?(\d+\.?\d*)/i;
-      const subtotalMatch = text.match(subtotalPattern);
-      if (subtotalMatch) {
-        extractedData.subtotal = parseFloat(subtotalMatch[1]);
-      }
-
-      // Extract tax
-      const taxPattern = /(?:tax|hst|gst|vat)[:\s]*\$?(\d+\.?\d*)/i;
-      const taxMatch = text.match(taxPattern);
-      if (taxMatch) {
-        extractedData.tax_amount = parseFloat(taxMatch[1]);
-      }
-
-      // Extract date
-      const datePattern = /(\d{1,2}[-\/]\d{1,2}[-\/]\d{2,4})/;
-      const dateMatch = text.match(datePattern);
-      if (dateMatch) {
-        extractedData.date = dateMatch[1];
-      }
+      const ocrLines = lines && lines.length > 0
+        ? lines
+        : text.split('\n').map(line => ({ text: line, confidence: 100 }));
+      const parsed = parseReceiptLines(ocrLines);
+
+      extractedData.merchant_name = parsed.merchant_name.value ?? undefined;
+      extractedData.total_amount = parsed.total_amount.value ?? undefined;
+      extractedData.subtotal = parsed.subtotal.value ?? undefined;
+      extractedData.tax_amount = parsed.tax_amount.value ?? undefined;
+      extractedData.tip_amount = parsed.tip_amount.value ?? undefined;
+      extractedData.date = parsed.receipt_date.value ?? undefined;
+      extractedData.items = parsed.items.map(item => ({
+        name: item.name,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+        total_price: item.total_price,
+        confidence: item.confidence
+      }));
+      extractedData.field_confidence = {
+        merchant_name: parsed.merchant_name.confidence,
+        receipt_date: parsed.receipt_date.confidence,
+        subtotal: parsed.subtotal.confidence,
+        tax_amount: parsed.tax_amount.confidence,
+        tip_amount: parsed.tip_amount.confidence,
+        total_amount: parsed.total_amount.confidence,
+        currency: parsed.currency.confidence,
+      };
+      extractedData.low_confidence_fields = parsed.low_confidence_fields;
 
       // Extract time
       const timePattern = /(\d{1,2}:\d{2}(?::\d{2})?(?:\s*[AP]M)?)/i;
@@ -349,30 +317,11 @@ Thank you for shopping with us!`;
         }
       }
 
-      // Extract items
-      const itemPattern = /^(.+?)\s+\$?(\d+\.?\d*)$/;
-      for (const line of lines) {
-        const itemMatch = line.match(itemPattern);
-        if (itemMatch && !line.toLowerCase().includes('total') && !line.toLowerCase().includes('tax')) {
-          const name = itemMatch[1].replace(/^\d+\s*/, '').trim(); // Remove leading numbers
-          const price = parseFloat(itemMatch[2]);
-
-          if (name.length > 1 && price > 0 && price < 1000) { // Reasonable bounds
-            extractedData.items?.push({
-              name,
-              total_price: price,
-              unit_price: price,
-              quantity: 1
-            });
-          }
-        }
-      }
-
       // Generate category suggestions
       extractedData.category_suggestions = this.suggestCategories(extractedData, categoryHint);
 
       // Set currency (default to USD)
-      extractedData.currency = 'USD';
+      extractedData.currency = parsed.currency.value ?? 'USD';
 
     } catch (error) {
       logger.error('Error parsing receipt text:', error, { component: 'lib-receipt-scanning-service', action: 'service_call' });
@@ -563,13 +512,38 @@ Thank you for shopping with us!`;
 
   /**
    * Link receipt to existing expense
+   * Values the user reviewed replace the OCR output and clear their review flags
    */
-  async linkReceiptToExpense(receiptId: string, expenseId: string): Promise<boolean> {
+  async linkReceiptToExpense(
+    receiptId: string,
+    expenseId: string,
+    reviewedData?: Partial<ExtractedReceiptData>
+  ): Promise<boolean> {
     try {
       const supabase = createClient();
+      const updates: { expense_id: string; extracted_data?: ExtractedReceiptData } = { expense_id: expenseId };
+
+      if (reviewedData && Object.keys(reviewedData).length > 0) {
+        const receipt = await this.getReceipt(receiptId);
+        const current = receipt?.extracted_data ?? {};
+        const reviewedFields = new Set<string>(Object.keys(reviewedData));
+        if (reviewedFields.has('date')) reviewedFields.add('receipt_date');
+        if (reviewedFields.has('items')) {
+          (current.low_confidence_fields ?? [])
+            .filter(field => field.startsWith('items['))
+            .forEach(field => reviewedFields.add(field));
+        }
+
+        updates.extracted_data = {
+          ...current,
+          ...reviewedData,
+          low_confidence_fields: (current.low_confidence_fields ?? []).filter(field => !reviewedFields.has(field)),
+        };
+      }
+
       const { error } = await supabase
         .from('receipts')
-        .update({ expense_id: expenseId })
+        .update(updates)
         .eq('id', receiptId);
 
       if (error) throw error;
@@ -1,6 +1,8 @@
 import { createClient } from '@/lib/supabase/client';
 import { sanitizeSearchInput } from '@/lib/utils/input-sanitization';
 import { logger } from '@/lib/logger';
+import { priceBookService } from '@/lib/services/price-book-service';
+import type { ParsedReceiptItem, ReceiptFieldName } from '@/lib/services/ocr';
 
 // =====================================================
 // TYPES
@@ -35,6 +37,8 @@ export interface CreateReceiptInput {
   total_amount?: number | null;
   receipt_date?: string | null;
   category?: string | null;
+  /** Line items from the scan; their prices are added to the space's price book */
+  items?: ParsedReceiptItem[];
 }
 
 export interface UpdateReceiptInput {
@@ -61,6 +65,16 @@ export interface OCRResult {
   receipt_date: string | null;
   category: string | null;
   confidence: number;
+  subtotal?: number | null;
+  tax_amount?: number | null;
+  tip_amount?: number | null;
+  currency?: string | null;
+  items?: ParsedReceiptItem[];
+  /** Confidence (0-100) for each extracted field */
+  field_confidence?: Partial<Record<ReceiptFieldName, number>>;
+  /** Fields the user should review before the expense is created */
+  low_confidence_fields?: string[];
+  provider?: string;
 }
 
 // =====================================================
@@ -170,6 +184,12 @@ export async function createReceipt(
     throw error;
   }
 
+  if (input.items?.length) {
+    // The receipt is saved either way; a missed price only makes estimates coarser
+    await priceBookService.recordReceiptItems(data, input.items, supabase).catch((error) =>
+      logger.warn('Failed to record receipt prices', { component: 'lib-receipts-service', action: 'service_call', error }));
+  }
+
   return data;
 }
 
@@ -0,0 +1,28 @@
+// ISO 8601 durations (schema.org prepTime, cookTime, totalTime)
+
+const ISO_DURATION = /^P(?:(\d+(?:[.,]\d+)?)W)?(?:(\d+(?:[.,]\d+)?)D)?(?:T(?:(\d+(?:[.,]\d+)?)H)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)S)?)?$/i;
+
+/**
+ * Convert a duration to whole minutes: "PT1H30M" → 90, "P1DT2H" → 1560.
+ * Also accepts the loose text some sites publish instead ("1 hour 15 mins").
+ * @returns null when the value is missing or unreadable
+ */
+export function parseDurationMinutes(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? Math.round(value) : null;
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim();
+  const number = (part: string | undefined) => (part ? parseFloat(part.replace(',', '.')) : 0);
+
+  const iso = ISO_DURATION.exec(text);
+  if (iso && text.length > 1 && text.toUpperCase() !== 'PT') {
+    const [, weeks, days, hours, minutes, seconds] = iso;
+    const total = number(weeks) * 10080 + number(days) * 1440 + number(hours) * 60 + number(minutes) + number(seconds) / 60;
+    return Math.round(total);
+  }
+
+  const hours = /(\d+(?:[.,]\d+)?)\s*(?:h|hrs?|hours?)\b/i.exec(text);
+  const minutes = /(\d+)\s*(?:m|mins?|minutes?)\b/i.exec(text);
+  if (!hours && !minutes) return null;
+  return Math.round(number(hours?.[1]) * 60 + number(minutes?.[1]));
+}
@@ -0,0 +1,169 @@
+// Minimal HTML reader for recipe import
+// Builds a forgiving element tree (enough to read microdata) and converts
+// markup to plain text. Not a full HTML5 parser: unclosed elements are
+// closed by their nearest matching end tag, and stray end tags are ignored.
+
+export interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export type HtmlNode = HtmlElement | string;
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+/** Elements whose end tag is commonly left out; a new one closes the open one */
+const SELF_CLOSING_SIBLINGS = new Set(['p', 'li', 'dt', 'dd', 'tr', 'td', 'th', 'option']);
+
+/** Elements whose content is not markup */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title', 'noscript']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  hellip: '…', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“', deg: '°', frac12: '½',
+  frac14: '¼', frac34: '¾', frac13: '⅓', frac23: '⅔', frac18: '⅛', times: '×', eacute: 'é',
+  egrave: 'è', ecirc: 'ê', agrave: 'à', aacute: 'á', ccedil: 'ç', ntilde: 'ñ', uuml: 'ü',
+  ouml: 'ö', auml: 'ä', iuml: 'ï', oacute: 'ó', iacute: 'í', uacute: 'ú', copy: '©', reg: '®',
+};
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<![^>]*>|<\?[^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+/** Decode character references (&amp;, &#189;, &#x2019;) */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (entity, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[ref.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1].toLowerCase();
+    if (!(name in attrs)) {
+      attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+  }
+  return attrs;
+}
+
+/** Parse a document into an element tree rooted at a synthetic "#document" element */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '#document', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  const lowerHtml = html.toLowerCase();
+
+  let position = 0;
+
+  while (position < html.length) {
+    TOKEN_PATTERN.lastIndex = position;
+    const match = TOKEN_PATTERN.exec(html);
+    const textEnd = match ? match.index : html.length;
+    if (textEnd > position) {
+      current().children.push(decodeEntities(html.slice(position, textEnd)));
+    }
+    if (!match) break;
+    position = match.index + match[0].length;
+
+    const [, endTag, startTag, attributeSource, selfClosing] = match;
+
+    if (endTag) {
+      const tag = endTag.toLowerCase();
+      const index = stack.map((element) => element.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+    if (!startTag) continue; // Comment, doctype or processing instruction
+
+    const element: HtmlElement = {
+      tag: startTag.toLowerCase(),
+      attrs: parseAttributes(attributeSource ?? ''),
+      children: [],
+    };
+    if (SELF_CLOSING_SIBLINGS.has(element.tag) && current().tag === element.tag) {
+      stack.pop();
+    }
+    current().children.push(element);
+
+    if (RAW_TEXT_ELEMENTS.has(element.tag)) {
+      const close = lowerHtml.indexOf(`</${element.tag}`, position);
+      const end = close === -1 ? html.length : close;
+      if (end > position) {
+        const raw = html.slice(position, end);
+        element.children.push(element.tag === 'script' || element.tag === 'style' ? raw : decodeEntities(raw));
+      }
+      position = close === -1 ? html.length : html.indexOf('>', close) + 1 || html.length;
+      continue;
+    }
+
+    if (!selfClosing && !VOID_ELEMENTS.has(element.tag)) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+/** Depth-first search for elements matching a predicate */
+export function findElements(root: HtmlElement, predicate: (element: HtmlElement) => boolean): HtmlElement[] {
+  const found: HtmlElement[] = [];
+  const visit = (element: HtmlElement) => {
+    for (const child of element.children) {
+      if (typeof child === 'string') continue;
+      if (predicate(child)) found.push(child);
+      visit(child);
+    }
+  };
+  visit(root);
+  return found;
+}
+
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'br', 'dd', 'div', 'dl', 'dt', 'figcaption', 'footer',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section',
+  'table', 'tr', 'ul',
+]);
+
+const HIDDEN_ELEMENTS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'head']);
+
+/** Visible text of an element, one line per block element, whitespace collapsed */
+export function textContent(node: HtmlNode): string {
+  const parts: string[] = [];
+  const visit = (current: HtmlNode) => {
+    if (typeof current === 'string') {
+      parts.push(current);
+      return;
+    }
+    if (HIDDEN_ELEMENTS.has(current.tag)) return;
+    const block = BLOCK_ELEMENTS.has(current.tag);
+    if (block) parts.push('\n');
+    current.children.forEach(visit);
+    if (block) parts.push('\n');
+  };
+  visit(node);
+
+  return parts
+    .join('')
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/** Plain text of an HTML fragment (e.g. a JSON-LD description that contains markup), one line per block */
+export function htmlToText(html: string): string {
+  if (/<[a-z!/]/i.test(html)) return textContent(parseHtml(html));
+  return decodeEntities(html)
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
@@ -0,0 +1,77 @@
+// Recipe import: structured data first, LLM only when a page has none
+
+import { fetchRecipePage } from './fetch-page';
+import { parseHtml, textContent } from './html';
+import { extractJsonLdRecipes } from './json-ld';
+import { parseRecipeWithLLM } from './llm-fallback';
+import { mapSchemaRecipe } from './map-recipe';
+import { extractMicrodataRecipes } from './microdata';
+import { RecipeImportError, type RecipeImportResult, type RecipeImportSource, type SchemaNode } from './types';
+
+/** Page text sent to the LLM when a page has no structured data */
+const MAX_LLM_TEXT = 50000;
+
+export interface RecipeImportInput {
+  /** Recipe page to fetch */
+  url?: string;
+  /** Saved page HTML (e.g. from a share sheet); `url` then only resolves relative links */
+  html?: string;
+  /** Pasted recipe text, which may itself be HTML */
+  text?: string;
+  /** Photo of a recipe as a data URL */
+  imageBase64?: string;
+}
+
+function looksLikeHtml(text: string): boolean {
+  return /<(?:html|head|body|script|div|article)\b/i.test(text);
+}
+
+function firstRecipe(nodes: SchemaNode[], source: RecipeImportSource, url?: string): RecipeImportResult | null {
+  for (const node of nodes) {
+    const recipe = mapSchemaRecipe(node, url);
+    if (recipe) return { recipe, source };
+  }
+  return null;
+}
+
+/**
+ * Read a schema.org Recipe published on a page, as JSON-LD or microdata.
+ * @returns null when the page has no usable structured data
+ */
+export function extractStructuredRecipe(html: string, url?: string): RecipeImportResult | null {
+  return firstRecipe(extractJsonLdRecipes(html), 'json-ld', url)
+    ?? firstRecipe(extractMicrodataRecipes(parseHtml(html)), 'microdata', url);
+}
+
+/**
+ * Import a recipe from a URL, saved HTML, pasted text or a photo.
+ * Pages are read from their structured data; the LLM only sees pages
+ * without any, plus plain text and photos.
+ */
+export async function importRecipe(input: RecipeImportInput): Promise<RecipeImportResult> {
+  let html = input.html;
+  let url = input.url;
+
+  if (!html && url) {
+    ({ html, url } = await fetchRecipePage(url));
+  }
+  if (!html && input.text && looksLikeHtml(input.text)) {
+    html = input.text;
+  }
+
+  if (html) {
+    const structured = extractStructuredRecipe(html, url);
+    if (structured) return structured;
+
+    const pageText = textContent(parseHtml(html)).slice(0, MAX_LLM_TEXT);
+    if (!pageText) {
+      throw new RecipeImportError('Could not find a recipe on that page.', 422);
+    }
+    return { recipe: await parseRecipeWithLLM({ text: pageText }), source: 'ai' };
+  }
+
+  if (!input.text && !input.imageBase64) {
+    throw new RecipeImportError('Please provide a URL, text or an image');
+  }
+  return { recipe: await parseRecipeWithLLM({ text: input.text, imageBase64: input.imageBase64 }), source: 'ai' };
+}
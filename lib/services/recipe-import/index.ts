@@ -0,0 +1,21 @@
+// Recipe import
+// Reads schema.org/Recipe JSON-LD or microdata from recipe pages and maps it
+// into the new-recipe form; the LLM is only used when a page has none.
+
+export { RecipeImportError } from './types';
+export type {
+  ImportedIngredient,
+  ImportedRecipe,
+  RecipeImportResult,
+  RecipeImportSource,
+  SchemaNode,
+} from './types';
+
+export { extractStructuredRecipe, importRecipe } from './importer';
+export type { RecipeImportInput } from './importer';
+export { mapSchemaRecipe } from './map-recipe';
+export { extractJsonLdRecipes } from './json-ld';
+export { extractMicrodataRecipes } from './microdata';
+export { fetchRecipePage, validateRecipeUrl } from './fetch-page';
+export { parseRecipeWithLLM } from './llm-fallback';
+export { parseDurationMinutes } from './duration';
@@ -0,0 +1,57 @@
+// schema.org Recipe nodes from JSON-LD <script> blocks
+
+import type { SchemaNode } from './types';
+
+const JSON_LD_SCRIPT = /<script\b[^>]*\btype\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script\s*>/gi;
+
+/** Nesting depth searched for Recipe nodes (@graph, mainEntity, ItemList...) */
+const MAX_DEPTH = 8;
+
+/** True if the node's @type is (or includes) the given schema.org type */
+export function hasSchemaType(node: SchemaNode, type: string): boolean {
+  const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+  return types.some((value) =>
+    typeof value === 'string' && value.replace(/^(?:https?:\/\/schema\.org\/|schema:)/i, '') === type
+  );
+}
+
+function parseJson(source: string): unknown {
+  const text = source.trim().replace(/^<!--|-->$/g, '').replace(/^\/\/\s*<!\[CDATA\[|\/\/\s*\]\]>$/g, '');
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Raw newlines and tabs inside strings are a common publishing mistake
+    try {
+      return JSON.parse(text.replace(/[\u0000-\u001f]+/g, ' '));
+    } catch {
+      return null;
+    }
+  }
+}
+
+function collectRecipes(value: unknown, found: SchemaNode[], depth: number): void {
+  if (depth > MAX_DEPTH || !value || typeof value !== 'object') return;
+
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectRecipes(item, found, depth + 1));
+    return;
+  }
+
+  const node = value as SchemaNode;
+  if (hasSchemaType(node, 'Recipe')) {
+    found.push(node);
+    return;
+  }
+  for (const child of Object.values(node)) {
+    collectRecipes(child, found, depth + 1);
+  }
+}
+
+/** Every Recipe node published as JSON-LD, in document order */
+export function extractJsonLdRecipes(html: string): SchemaNode[] {
+  const found: SchemaNode[] = [];
+  for (const match of html.matchAll(JSON_LD_SCRIPT)) {
+    collectRecipes(parseJson(match[1]), found, 0);
+  }
+  return found;
+}
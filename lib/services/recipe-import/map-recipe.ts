@@ -0,0 +1,198 @@
+// Map a schema.org Recipe node into the recipe form's shape
+
+import { splitIngredientLine } from '@/lib/services/ingredient-parser';
+import type { RecipeNutrition } from '@/lib/services/meals-service';
+import { parseDurationMinutes } from './duration';
+import { hasSchemaType } from './json-ld';
+import { htmlToText } from './html';
+import type { ImportedRecipe, SchemaNode } from './types';
+
+// Same limits the LLM result is validated against
+const MAX_NAME = 500;
+const MAX_DESCRIPTION = 2000;
+const MAX_INGREDIENTS = 200;
+const MAX_INGREDIENT_NAME = 200;
+const MAX_AMOUNT = 50;
+const MAX_CUISINE = 100;
+const MAX_TAGS = 20;
+const MAX_TAG = 50;
+const MAX_INSTRUCTIONS = 20000;
+
+const NUTRIENTS: Array<{ key: keyof RecipeNutrition; property: string; unit: 'kcal' | 'g' | 'mg' }> = [
+  { key: 'calories', property: 'calories', unit: 'kcal' },
+  { key: 'protein_g', property: 'proteinContent', unit: 'g' },
+  { key: 'fat_g', property: 'fatContent', unit: 'g' },
+  { key: 'saturated_fat_g', property: 'saturatedFatContent', unit: 'g' },
+  { key: 'carbohydrate_g', property: 'carbohydrateContent', unit: 'g' },
+  { key: 'sugar_g', property: 'sugarContent', unit: 'g' },
+  { key: 'fiber_g', property: 'fiberContent', unit: 'g' },
+  { key: 'sodium_mg', property: 'sodiumContent', unit: 'mg' },
+  { key: 'cholesterol_mg', property: 'cholesterolContent', unit: 'mg' },
+];
+
+function clip(value: string, max: number): string {
+  return value.length > max ? value.slice(0, max).trimEnd() : value;
+}
+
+function isNode(value: unknown): value is SchemaNode {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** Single-line text of a property value: strings, numbers, the first of a list, or a node's name/text */
+function text(value: unknown): string | undefined {
+  if (typeof value === 'string') return htmlToText(value).replace(/\n/g, ' ') || undefined;
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return value.map(text).find(Boolean);
+  if (isNode(value)) return text(value['@value'] ?? value.text ?? value.name);
+  return undefined;
+}
+
+function texts(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values.map(text).filter((item): item is string => !!item);
+}
+
+/** Instruction steps in order; section names become unnumbered headings */
+function instructionLines(value: unknown): Array<{ heading?: string; step?: string }> {
+  if (typeof value === 'string') {
+    return htmlToText(value)
+      .split('\n')
+      .map((line) => ({ step: line }));
+  }
+  if (Array.isArray(value)) return value.flatMap(instructionLines);
+  if (!isNode(value)) return [];
+
+  if (value.itemListElement !== undefined) {
+    const heading = hasSchemaType(value, 'HowToSection') ? text(value.name) : undefined;
+    return [...(heading ? [{ heading }] : []), ...instructionLines(value.itemListElement)];
+  }
+  const step = text(value.text ?? value.name);
+  return step ? [{ step }] : [];
+}
+
+function formatInstructions(value: unknown): string | undefined {
+  let number = 0;
+  const lines = instructionLines(value).flatMap(({ heading, step }) => {
+    if (heading) return [`${heading}:`];
+    // Steps are renumbered, so drop numbering the site already added
+    const cleaned = step?.replace(/^(?:step\s*)?\d+\s*[.):-]\s*/i, '').trim();
+    return cleaned ? [`${++number}. ${cleaned}`] : [];
+  });
+  return lines.length > 0 ? clip(lines.join('\n'), MAX_INSTRUCTIONS) : undefined;
+}
+
+/** "4 servings", ["4", "4 portions"] or 4 → 4 */
+function servings(value: unknown): number | undefined {
+  for (const item of Array.isArray(value) ? value : [value]) {
+    const match = /\d+/.exec(typeof item === 'number' ? String(item) : text(item) ?? '');
+    const count = match ? parseInt(match[0], 10) : 0;
+    if (count > 0 && count <= 1000) return count;
+  }
+  return undefined;
+}
+
+function imageUrl(value: unknown, sourceUrl?: string): string | undefined {
+  const candidates = (Array.isArray(value) ? value : [value])
+    .map((item) => (isNode(item) ? item.url ?? item.contentUrl ?? item['@id'] : item));
+
+  for (const candidate of candidates) {
+    if (typeof candidate !== 'string' || !candidate.trim()) continue;
+    try {
+      const url = new URL(candidate.trim(), sourceUrl);
+      if (url.protocol === 'https:' || url.protocol === 'http:') return url.toString();
+    } catch {
+      // Not a URL; try the next one
+    }
+  }
+  return undefined;
+}
+
+/** Keywords, categories and diets ("https://schema.org/VeganDiet" → "vegan"), deduplicated */
+function tags(node: SchemaNode): string[] | undefined {
+  const keywords = texts(node.keywords).flatMap((keyword) => keyword.split(','));
+  const diets = texts(node.suitableForDiet).map((diet) =>
+    diet.replace(/^https?:\/\/schema\.org\//i, '').replace(/Diet$/, '').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase()
+  );
+
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of [...texts(node.recipeCategory), ...diets, ...keywords]) {
+    const cleaned = clip(tag.trim(), MAX_TAG);
+    if (!cleaned || seen.has(cleaned.toLowerCase())) continue;
+    seen.add(cleaned.toLowerCase());
+    result.push(cleaned);
+  }
+  return result.length > 0 ? result.slice(0, MAX_TAGS) : undefined;
+}
+
+/** "240 kcal", "1 g", "300 mg" → a number in the nutrient's unit */
+function nutrientAmount(value: unknown, unit: 'kcal' | 'g' | 'mg'): number | undefined {
+  const match = /(\d+(?:[.,]\d+)?)\s*(kcal|calories|cal|kj|mg|milligrams?|g|grams?)?\b/i.exec(text(value) ?? '');
+  if (!match) return undefined;
+
+  let amount = parseFloat(match[1].replace(',', '.'));
+  const given = match[2]?.toLowerCase() ?? unit;
+  if (given === 'kj') amount /= 4.184;
+  else if (unit === 'mg' && given.startsWith('g')) amount *= 1000;
+  else if (unit === 'g' && (given === 'mg' || given.startsWith('milligram'))) amount /= 1000;
+
+  return unit === 'kcal' ? Math.round(amount) : Math.round(amount * 10) / 10;
+}
+
+function nutrition(value: unknown): RecipeNutrition | undefined {
+  const node = Array.isArray(value) ? value.find(isNode) : value;
+  if (!isNode(node)) return undefined;
+
+  const result: RecipeNutrition = {};
+  for (const { key, property, unit } of NUTRIENTS) {
+    const amount = nutrientAmount(node[property], unit);
+    if (amount !== undefined) result[key] = amount;
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Map a schema.org Recipe into an importable recipe.
+ * @param sourceUrl - Page the recipe came from; resolves relative image URLs
+ * @returns null if the node has no name or no ingredients
+ */
+export function mapSchemaRecipe(node: SchemaNode, sourceUrl?: string): ImportedRecipe | null {
+  const name = text(node.name ?? node.headline);
+  const ingredients = texts(node.recipeIngredient ?? node.ingredients)
+    .slice(0, MAX_INGREDIENTS)
+    .map((line) => {
+      const { name: ingredientName, amount, unit } = splitIngredientLine(line);
+      return {
+        name: clip(ingredientName || line, MAX_INGREDIENT_NAME),
+        amount: clip(amount, MAX_AMOUNT),
+        unit,
+      };
+    });
+
+  if (!name || ingredients.length === 0) return null;
+
+  const prepTime = parseDurationMinutes(node.prepTime);
+  const totalTime = parseDurationMinutes(node.totalTime);
+  let cookTime = parseDurationMinutes(node.cookTime);
+  if (cookTime === null && totalTime !== null) {
+    cookTime = Math.max(totalTime - (prepTime ?? 0), 0);
+  }
+
+  const description = text(node.description);
+  const cuisine = text(node.recipeCuisine);
+
+  return {
+    name: clip(name, MAX_NAME),
+    description: description ? clip(description, MAX_DESCRIPTION) : undefined,
+    ingredients,
+    instructions: formatInstructions(node.recipeInstructions),
+    prep_time: prepTime ?? undefined,
+    cook_time: cookTime ?? undefined,
+    servings: servings(node.recipeYield),
+    cuisine_type: cuisine ? clip(cuisine, MAX_CUISINE) : undefined,
+    tags: tags(node),
+    image_url: imageUrl(node.image ?? node.thumbnailUrl, sourceUrl),
+    source_url: sourceUrl,
+    nutrition: nutrition(node.nutrition),
+  };
+}
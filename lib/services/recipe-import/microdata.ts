@@ -0,0 +1,61 @@
+// schema.org Recipe items from HTML microdata (itemscope/itemprop)
+
+import { findElements, textContent, type HtmlElement } from './html';
+import type { SchemaNode } from './types';
+
+/** Elements whose property value is an attribute rather than their text */
+const URL_ATTRIBUTES: Record<string, string> = {
+  a: 'href', area: 'href', link: 'href', audio: 'src', embed: 'src', iframe: 'src',
+  img: 'src', source: 'src', track: 'src', video: 'src', object: 'data',
+};
+
+function itemType(element: HtmlElement): string | null {
+  const type = element.attrs.itemtype?.trim().split(/\s+/)[0];
+  return type ? type.replace(/^https?:\/\/schema\.org\//i, '') : null;
+}
+
+function propertyValue(element: HtmlElement): string {
+  if (element.tag === 'meta') return element.attrs.content ?? '';
+  const urlAttribute = URL_ATTRIBUTES[element.tag];
+  if (urlAttribute) return element.attrs[urlAttribute] ?? '';
+  if (element.tag === 'time' && element.attrs.datetime) return element.attrs.datetime;
+  if ((element.tag === 'data' || element.tag === 'meter') && element.attrs.value) return element.attrs.value;
+  if (element.attrs.content !== undefined) return element.attrs.content;
+  return textContent(element);
+}
+
+/** Read an item's properties; nested items become nested nodes */
+function readItem(scope: HtmlElement): SchemaNode {
+  const properties: Record<string, unknown[]> = {};
+
+  const visit = (element: HtmlElement) => {
+    for (const child of element.children) {
+      if (typeof child === 'string') continue;
+
+      const names = child.attrs.itemprop?.trim().split(/\s+/).filter(Boolean) ?? [];
+      const isItem = 'itemscope' in child.attrs;
+      if (names.length > 0) {
+        const value = isItem ? readItem(child) : propertyValue(child);
+        for (const name of names) (properties[name] ??= []).push(value);
+      }
+      // A nested item's properties belong to it, not to this item
+      if (!isItem) visit(child);
+    }
+  };
+  visit(scope);
+
+  const node: SchemaNode = {};
+  const type = itemType(scope);
+  if (type) node['@type'] = type;
+  for (const [name, values] of Object.entries(properties)) {
+    node[name] = values.length === 1 ? values[0] : values;
+  }
+  return node;
+}
+
+/** Every top-level Recipe item in the document, in document order */
+export function extractMicrodataRecipes(root: HtmlElement): SchemaNode[] {
+  const recipeScopes = findElements(root, (element) => 'itemscope' in element.attrs && itemType(element) === 'Recipe');
+  const nested = new Set(recipeScopes.flatMap((scope) => findElements(scope, (element) => recipeScopes.includes(element))));
+  return recipeScopes.filter((scope) => !nested.has(scope)).map(readItem);
+}
@@ -0,0 +1,33 @@
+// Recipe import types
+
+import type { CreateRecipeInput } from '@/lib/services/meals-service';
+
+/** A schema.org node: a JSON-LD object, or a microdata item read into the same shape */
+export type SchemaNode = Record<string, unknown>;
+
+export interface ImportedIngredient {
+  name: string;
+  amount: string;
+  unit: string;
+}
+
+/** A recipe ready for the new-recipe form, i.e. CreateRecipeInput without the space */
+export type ImportedRecipe = Omit<CreateRecipeInput, 'space_id' | 'ingredients'> & {
+  ingredients: ImportedIngredient[];
+};
+
+/** How the recipe was read: published structured data, or the LLM */
+export type RecipeImportSource = 'json-ld' | 'microdata' | 'ai';
+
+export interface RecipeImportResult {
+  recipe: ImportedRecipe;
+  source: RecipeImportSource;
+}
+
+/** The page could not be fetched or held no recipe; `status` is the HTTP status to return. */
+export class RecipeImportError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'RecipeImportError';
+  }
+}
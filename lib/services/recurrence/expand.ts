@@ -0,0 +1,441 @@
+import { getZonedDateParts, zonedTimeToUtc, type ZonedDateParts } from '@/lib/utils/timezone-utils';
+import {
+  WEEKDAYS,
+  parseICalDateValue,
+  type RecurrenceDate,
+  type RecurrenceRule,
+  type RecurrenceSet,
+} from './rrule';
+
+// ==================== TYPES ====================
+
+export interface RecurrenceInstance {
+  start: Date;
+  /** Position in the series counting excluded dates, so it stays stable when occurrences are deleted */
+  index: number;
+}
+
+export interface ExpandRecurrenceOptions {
+  after?: Date; // Inclusive lower bound
+  before?: Date; // Inclusive upper bound
+  limit?: number; // Defaults to DEFAULT_EXPAND_LIMIT
+}
+
+// ==================== CONSTANTS ====================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_EXPAND_LIMIT = 1000;
+
+/** Safety nets for rules that can never (or no longer) produce an occurrence, e.g. February 30th */
+const MAX_EMPTY_PERIODS = 1_000_000;
+const MAX_SPAN_DAYS = 400 * 366;
+
+// ==================== CALENDAR HELPERS ====================
+// Rules are evaluated on wall-clock time in the series timezone. Days are
+// counted from the Unix epoch so that date arithmetic never crosses a DST change.
+
+interface DayInfo {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const dayNumber = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day) / DAY_MS;
+
+function fromDayNumber(n: number): DayInfo {
+  const date = new Date(n * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/** 0 = Sunday, matching WEEKDAYS */
+const weekdayOf = (n: number) => (((n + 4) % 7) + 7) % 7;
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const daysInYear = (year: number) => dayNumber(year + 1, 1, 1) - dayNumber(year, 1, 1);
+
+/** First day of week 1: the week (starting on wkst) that contains January 4th, i.e. has at least 4 days of the year */
+function firstWeekStart(year: number, wkst: number): number {
+  const jan4 = dayNumber(year, 1, 4);
+  return jan4 - ((weekdayOf(jan4) - wkst + 7) % 7);
+}
+
+function toWall(instant: Date, tzid: string): ZonedDateParts {
+  if (tzid === 'UTC') {
+    return {
+      year: instant.getUTCFullYear(),
+      month: instant.getUTCMonth() + 1,
+      day: instant.getUTCDate(),
+      hour: instant.getUTCHours(),
+      minute: instant.getUTCMinutes(),
+      second: instant.getUTCSeconds(),
+    };
+  }
+  return getZonedDateParts(instant, tzid);
+}
+
+const dateKey = (p: DayInfo) =>
+  `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+
+/**
+ * The 'YYYY-MM-DD' date of an occurrence in the series timezone (UTC for all-day series).
+ */
+export function occurrenceDateKey(instant: Date, tzid?: string | null, allDay?: boolean): string {
+  return dateKey(toWall(instant, allDay ? 'UTC' : tzid || 'UTC'));
+}
+
+// ==================== RULE EXPANSION ====================
+
+interface ExpandedRule {
+  rule: RecurrenceRule;
+  interval: number;
+  wkst: number;
+  byMonth?: number[];
+  byMonthDay?: number[];
+  byDay?: RecurrenceRule['byDay'];
+  untilMs: number | null;
+}
+
+function resolveUntil(until: string | undefined, tzid: string): number | null {
+  if (!until) return null;
+  const value = parseICalDateValue(until, tzid);
+  if (typeof value !== 'string') return value.getTime();
+
+  // A DATE until includes the whole day
+  const [year, month, day] = value.split('-').map(Number);
+  return zonedTimeToUtc({ year, month, day, hour: 23, minute: 59, second: 59 }, tzid).getTime();
+}
+
+/**
+ * Applies the RFC 5545 defaults: a rule without day parts repeats on the
+ * weekday, day of month or date of DTSTART, depending on its frequency.
+ */
+function expandRule(rule: RecurrenceRule, start: ZonedDateParts, tzid: string): ExpandedRule {
+  const startDay = dayNumber(start.year, start.month, start.day);
+  const expanded: ExpandedRule = {
+    rule,
+    interval: rule.interval ?? 1,
+    wkst: WEEKDAYS.indexOf(rule.wkst ?? 'MO'),
+    byMonth: rule.byMonth,
+    byMonthDay: rule.byMonthDay,
+    byDay: rule.byDay,
+    untilMs: resolveUntil(rule.until, tzid),
+  };
+
+  const noDayParts = !rule.byWeekNo && !rule.byYearDay && !rule.byMonthDay && !rule.byDay;
+  if (noDayParts) {
+    if (rule.freq === 'YEARLY') {
+      expanded.byMonth = rule.byMonth ?? [start.month];
+      expanded.byMonthDay = [start.day];
+    } else if (rule.freq === 'MONTHLY') {
+      expanded.byMonthDay = [start.day];
+    } else if (rule.freq === 'WEEKLY') {
+      expanded.byDay = [{ weekday: WEEKDAYS[weekdayOf(startDay)] }];
+    }
+  }
+
+  return expanded;
+}
+
+function dayMatches(n: number, r: ExpandedRule, periodYear: number): boolean {
+  const { rule } = r;
+  const d = fromDayNumber(n);
+
+  if (r.byMonth && !r.byMonth.includes(d.month)) return false;
+
+  if (rule.byWeekNo) {
+    const weekOne = firstWeekStart(periodYear, r.wkst);
+    const weeks = (firstWeekStart(periodYear + 1, r.wkst) - weekOne) / 7;
+    const week = Math.floor((n - weekOne) / 7) + 1;
+    if (!rule.byWeekNo.includes(week) && !rule.byWeekNo.includes(week - weeks - 1)) return false;
+  }
+
+  if (rule.byYearDay) {
+    const yearDay = n - dayNumber(d.year, 1, 1) + 1;
+    if (!rule.byYearDay.includes(yearDay) && !rule.byYearDay.includes(yearDay - daysInYear(d.year) - 1)) return false;
+  }
+
+  if (r.byMonthDay) {
+    const monthDays = daysInMonth(d.year, d.month);
+    if (!r.byMonthDay.includes(d.day) && !r.byMonthDay.includes(d.day - monthDays - 1)) return false;
+  }
+
+  if (r.byDay) {
+    const weekday = WEEKDAYS[weekdayOf(n)];
+    // Ordinals ("2nd Tuesday", "last Friday") count within the month for MONTHLY
+    // rules and YEARLY rules with BYMONTH, otherwise within the year
+    const ordinalScope = rule.freq === 'MONTHLY' || (rule.freq === 'YEARLY' && r.byMonth && !rule.byWeekNo)
+      ? 'month'
+      : rule.freq === 'YEARLY' && !rule.byWeekNo ? 'year' : null;
+
+    const matches = r.byDay.some((entry) => {
+      if (entry.weekday !== weekday) return false;
+      if (entry.n === undefined || !ordinalScope) return true;
+
+      const [position, length] = ordinalScope === 'month'
+        ? [d.day, daysInMonth(d.year, d.month)]
+        : [n - dayNumber(d.year, 1, 1) + 1, daysInYear(d.year)];
+      const fromStart = Math.floor((position - 1) / 7) + 1;
+      const fromEnd = -(Math.floor((length - position) / 7) + 1);
+      return entry.n === fromStart || entry.n === fromEnd;
+    });
+    if (!matches) return false;
+  }
+
+  return true;
+}
+
+interface Period {
+  firstDay: number;
+  days: number[];
+  year: number;
+  hours: number[];
+  minutes: number[];
+  seconds: number[];
+}
+
+const sorted = (values: number[]) => [...new Set(values)].sort((a, b) => a - b);
+
+function buildPeriod(k: number, r: ExpandedRule, start: ZonedDateParts): Period {
+  const { rule } = r;
+  const startDay = dayNumber(start.year, start.month, start.day);
+  const step = k * r.interval;
+  const range = (from: number, to: number) => Array.from({ length: to - from }, (_, i) => from + i);
+
+  const only = (value: number, allowed?: number[]) => (!allowed || allowed.includes(value) ? [value] : []);
+  let days: number[];
+  let year: number;
+  let hours = sorted(rule.byHour ?? [start.hour]);
+  let minutes = sorted(rule.byMinute ?? [start.minute]);
+  let seconds = sorted(rule.bySecond ?? [start.second]);
+
+  switch (rule.freq) {
+    case 'YEARLY': {
+      year = start.year + step;
+      days = rule.byWeekNo
+        ? range(firstWeekStart(year, r.wkst), firstWeekStart(year + 1, r.wkst))
+        : range(dayNumber(year, 1, 1), dayNumber(year + 1, 1, 1));
+      break;
+    }
+    case 'MONTHLY': {
+      const monthIndex = start.year * 12 + (start.month - 1) + step;
+      year = Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      days = range(dayNumber(year, month, 1), dayNumber(year, month, 1) + daysInMonth(year, month));
+      break;
+    }
+    case 'WEEKLY': {
+      const weekStart = startDay - ((weekdayOf(startDay) - r.wkst + 7) % 7) + step * 7;
+      days = range(weekStart, weekStart + 7);
+      year = fromDayNumber(weekStart).year;
+      break;
+    }
+    case 'DAILY': {
+      days = [startDay + step];
+      year = fromDayNumber(days[0]).year;
+      break;
+    }
+    default: {
+      const unit = rule.freq === 'HOURLY' ? 3600 : rule.freq === 'MINUTELY' ? 60 : 1;
+      const total = startDay * 86400 + start.hour * 3600 + start.minute * 60 + start.second + step * unit;
+      const day = Math.floor(total / 86400);
+      const secondOfDay = total - day * 86400;
+      days = [day];
+      year = fromDayNumber(day).year;
+      hours = only(Math.floor(secondOfDay / 3600), rule.byHour);
+      if (rule.freq !== 'HOURLY') minutes = only(Math.floor(secondOfDay / 60) % 60, rule.byMinute);
+      if (rule.freq === 'SECONDLY') seconds = only(secondOfDay % 60, rule.bySecond);
+    }
+  }
+
+  return { firstDay: days[0], days, year, hours, minutes, seconds };
+}
+
+/**
+ * Yields the instants generated by a rule, in order, starting at DTSTART.
+ * Stops at COUNT or UNTIL; callers bound open-ended rules themselves.
+ */
+function* iterateRule(rule: RecurrenceRule, dtstart: Date, tzid: string): Generator<Date> {
+  const start = toWall(dtstart, tzid);
+  const r = expandRule(rule, start, tzid);
+  const startDay = dayNumber(start.year, start.month, start.day);
+  let emitted = 0;
+  let emptyPeriods = 0;
+
+  for (let k = 0; ; k++) {
+    const period = buildPeriod(k, r, start);
+
+    if (period.firstDay - startDay > MAX_SPAN_DAYS || emptyPeriods > MAX_EMPTY_PERIODS) return;
+    // Wall time runs at most ~14 hours ahead of UTC, so this period cannot reach UNTIL
+    if (r.untilMs !== null && period.firstDay * DAY_MS - 14 * 3600 * 1000 > r.untilMs) return;
+
+    const candidates: Date[] = [];
+    for (const n of period.days) {
+      if (!dayMatches(n, r, period.year)) continue;
+      const d = fromDayNumber(n);
+      for (const hour of period.hours) {
+        for (const minute of period.minutes) {
+          for (const second of period.seconds) {
+            candidates.push(zonedTimeToUtc({ ...d, hour, minute, second }, tzid));
+          }
+        }
+      }
+    }
+
+    let selected = candidates;
+    if (rule.bySetPos && candidates.length > 0) {
+      const positions = rule.bySetPos.map((pos) => (pos > 0 ? pos - 1 : candidates.length + pos));
+      selected = candidates.filter((_, index) => positions.includes(index));
+    }
+
+    emptyPeriods = selected.length === 0 ? emptyPeriods + 1 : 0;
+
+    for (const instant of selected) {
+      if (instant.getTime() < dtstart.getTime()) continue;
+      if (r.untilMs !== null && instant.getTime() > r.untilMs) return;
+      yield instant;
+      emitted++;
+      if (rule.count !== undefined && emitted >= rule.count) return;
+    }
+  }
+}
+
+// ==================== RECURRENCE SETS ====================
+
+/**
+ * Resolves an RDATE/EXDATE entry to an instant; 'YYYY-MM-DD' dates take the
+ * time of day of DTSTART.
+ */
+function resolveDate(value: RecurrenceDate, start: ZonedDateParts, tzid: string): Date {
+  if (typeof value !== 'string') return value;
+  const [year, month, day] = value.split('-').map(Number);
+  return zonedTimeToUtc({ year, month, day, hour: start.hour, minute: start.minute, second: start.second }, tzid);
+}
+
+/**
+ * Replaces 'YYYY-MM-DD' RDATEs and EXDATEs with the instant at DTSTART's
+ * local time on that day, as other calendars expect the value type of
+ * RDATE/EXDATE to match a timed DTSTART. All-day series are returned as-is.
+ */
+export function resolveRecurrenceDates(set: RecurrenceSet): RecurrenceSet {
+  if (set.allDay) return set;
+  const tzid = set.tzid || 'UTC';
+  const start = toWall(set.dtstart, tzid);
+  return {
+    ...set,
+    rdates: set.rdates?.map((value) => resolveDate(value, start, tzid)),
+    exdates: set.exdates?.map((value) => resolveDate(value, start, tzid)),
+  };
+}
+
+/**
+ * Yields every occurrence of a recurrence set in order: DTSTART (which always
+ * counts as the first occurrence), the RRULE and any RDATEs, minus EXDATEs.
+ *
+ * COUNT limits the occurrences the rule generates; EXDATEs are removed
+ * afterwards, as RFC 5545 specifies. Open-ended series are infinite, so
+ * consumers must stop pulling (see expandRecurrence and nextOccurrence).
+ *
+ * @param set - DTSTART, timezone, rule and extra/excluded dates
+ */
+export function* iterateRecurrence(set: RecurrenceSet): Generator<RecurrenceInstance> {
+  const tzid = set.allDay ? 'UTC' : set.tzid || 'UTC';
+  const start = toWall(set.dtstart, tzid);
+
+  const exInstants = new Set<number>();
+  const exDates = new Set<string>();
+  for (const exdate of set.exdates ?? []) {
+    if (typeof exdate === 'string') exDates.add(exdate);
+    else exInstants.add(exdate.getTime());
+  }
+
+  const rdates = (set.rdates ?? [])
+    .map((rdate) => resolveDate(rdate, start, tzid))
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  const ruleIterator = set.rrule ? iterateRule(set.rrule, set.dtstart, tzid) : null;
+  const pullRule = () => (ruleIterator ? (ruleIterator.next().value ?? null) : null);
+  let nextRule: Date | null = pullRule();
+  let ruleLimit = set.rrule?.count ?? Infinity;
+
+  // DTSTART is the first occurrence (and counts towards COUNT) even if the rule would not generate it
+  if (nextRule === null || nextRule.getTime() !== set.dtstart.getTime()) {
+    rdates.push(set.dtstart);
+    rdates.sort((a, b) => a.getTime() - b.getTime());
+    ruleLimit -= 1;
+  }
+
+  let ruleTaken = 0;
+  let rdateIndex = 0;
+  let index = 0;
+  let last = -Infinity;
+
+  while ((nextRule !== null && ruleTaken < ruleLimit) || rdateIndex < rdates.length) {
+    let candidate: Date;
+    if (
+      nextRule !== null &&
+      ruleTaken < ruleLimit &&
+      (rdateIndex >= rdates.length || nextRule.getTime() <= rdates[rdateIndex].getTime())
+    ) {
+      candidate = nextRule;
+      ruleTaken++;
+      nextRule = pullRule();
+    } else {
+      candidate = rdates[rdateIndex++];
+    }
+
+    const time = candidate.getTime();
+    if (time === last) continue;
+    last = time;
+
+    const excluded = exInstants.has(time) || exDates.has(dateKey(toWall(candidate, tzid)));
+    if (!excluded) yield { start: candidate, index };
+    index++;
+  }
+}
+
+/**
+ * Lists the occurrences of a recurrence set within optional bounds.
+ * @param set - The recurring series
+ * @param options - Inclusive after/before bounds and a maximum number of results
+ * @returns Occurrence start instants in order
+ */
+export function expandRecurrence(set: RecurrenceSet, options: ExpandRecurrenceOptions = {}): Date[] {
+  const limit = options.limit ?? DEFAULT_EXPAND_LIMIT;
+  const after = options.after?.getTime() ?? -Infinity;
+  const before = options.before?.getTime() ?? Infinity;
+  const result: Date[] = [];
+
+  if (limit <= 0) return result;
+
+  for (const { start } of iterateRecurrence(set)) {
+    const time = start.getTime();
+    if (time > before) break;
+    if (time < after) continue;
+    result.push(start);
+    if (result.length >= limit) break;
+  }
+
+  return result;
+}
+
+/**
+ * Finds the first occurrence after an instant.
+ * @param set - The recurring series
+ * @param after - Reference instant
+ * @param options - Set inclusive to also match an occurrence exactly at `after`
+ * @returns The next occurrence, or null if the series has ended
+ */
+export function nextOccurrence(
+  set: RecurrenceSet,
+  after: Date,
+  options: { inclusive?: boolean } = {}
+): Date | null {
+  const threshold = after.getTime();
+  for (const { start } of iterateRecurrence(set)) {
+    const time = start.getTime();
+    if (time > threshold || (options.inclusive && time === threshold)) return start;
+  }
+  return null;
+}
@@ -0,0 +1,51 @@
+/**
+ * Recurrence
+ *
+ * One RFC 5545 recurrence engine shared by calendar events, tasks, chores and
+ * reminders: RRULE/RDATE/EXDATE parsing and formatting, timezone-aware
+ * expansion, and adapters for the legacy pattern formats.
+ */
+
+export {
+  FREQUENCIES,
+  WEEKDAYS,
+  RecurrenceParseError,
+  formatICalDateValue,
+  formatRRule,
+  formatRecurrence,
+  isICalRecurrence,
+  parseICalDateValue,
+  parseRRule,
+  parseRecurrence,
+} from './rrule';
+
+export {
+  DEFAULT_EXPAND_LIMIT,
+  expandRecurrence,
+  iterateRecurrence,
+  nextOccurrence,
+  occurrenceDateKey,
+  resolveRecurrenceDates,
+} from './expand';
+
+export {
+  frequencyToRule,
+  fromLegacyPattern,
+  parseStoredRecurrence,
+  reminderRecurrence,
+  toStoredRecurrence,
+} from './legacy';
+
+export type {
+  Frequency,
+  ParsedRecurrence,
+  RecurrenceDate,
+  RecurrenceRule,
+  RecurrenceSet,
+  Weekday,
+  WeekdayNum,
+} from './rrule';
+
+export type { ExpandRecurrenceOptions, RecurrenceInstance } from './expand';
+
+export type { LegacyRecurrencePattern } from './legacy';
@@ -0,0 +1,202 @@
+import {
+  RecurrenceParseError,
+  WEEKDAYS,
+  formatRecurrence,
+  isICalRecurrence,
+  parseRecurrence,
+  type Frequency,
+  type ParsedRecurrence,
+  type RecurrenceRule,
+} from './rrule';
+
+/**
+ * Adapters between the recurrence formats stored before the shared engine
+ * existed and RFC 5545 rules:
+ * - simple strings: "daily", "weekly", "biweekly", "monthly", "yearly",
+ *   "weekly:1,3,5" (weekdays, Sunday=0) and "monthly:1,15" (days of month)
+ * - JSON / column-based patterns used by events and tasks
+ * - reminders' repeat_pattern + repeat_days
+ * Values already in iCalendar form are parsed as-is, so stored RRULEs survive untouched.
+ */
+
+// ==================== TYPES ====================
+
+/** The JSON pattern used by recurring events and the column set used by recurring tasks */
+export interface LegacyRecurrencePattern {
+  pattern: string; // daily | weekly | biweekly | monthly | yearly
+  interval?: number;
+  days_of_week?: number[] | null; // 0-6, Sunday=0
+  day_of_month?: number | null; // 1-31
+  week_of_month?: number[] | null; // [1,3] = 1st and 3rd occurrence of days_of_week
+  month?: number | null; // 1-12
+  end_date?: string | null; // ISO date, inclusive
+  end_count?: number | null;
+  exceptions?: string[] | null; // ISO dates to skip
+}
+
+// ==================== CONVERSIONS ====================
+
+const BASE_RULES: Record<string, RecurrenceRule> = {
+  daily: { freq: 'DAILY' },
+  weekly: { freq: 'WEEKLY' },
+  biweekly: { freq: 'WEEKLY', interval: 2 },
+  monthly: { freq: 'MONTHLY' },
+  yearly: { freq: 'YEARLY' },
+};
+
+/**
+ * Stored series repeat at most daily. Series are expanded from DTSTART in the
+ * browser, and an imported minutely rule would mean thousands of occurrences a day.
+ */
+const SUB_DAILY_FREQUENCIES: ReadonlySet<Frequency> = new Set(['SECONDLY', 'MINUTELY', 'HOURLY']);
+
+const toWeekdays = (days: number[]) =>
+  days.filter((d) => Number.isInteger(d) && d >= 0 && d <= 6).map((d) => WEEKDAYS[d]);
+
+const emptyRecurrence = (rrule: RecurrenceRule, tzid?: string | null): ParsedRecurrence => ({
+  tzid: tzid ?? null,
+  rrule,
+  rdates: [],
+  exdates: [],
+});
+
+/**
+ * Converts a frequency name ("daily", "weekly", "biweekly", "monthly", "yearly")
+ * to a rule. "once" and unknown names have no rule.
+ */
+export function frequencyToRule(frequency: string | null | undefined): RecurrenceRule | null {
+  const base = frequency ? BASE_RULES[frequency.trim().toLowerCase()] : undefined;
+  return base ? { ...base } : null;
+}
+
+/**
+ * Converts a JSON event pattern or a task's recurrence columns to a recurrence.
+ * @returns The equivalent rule and exception dates, or null for an unknown pattern
+ */
+export function fromLegacyPattern(
+  legacy: LegacyRecurrencePattern,
+  options: { tzid?: string | null } = {}
+): ParsedRecurrence | null {
+  const rule = frequencyToRule(legacy.pattern);
+  if (!rule) return null;
+
+  const interval = (rule.interval ?? 1) * (legacy.interval && legacy.interval > 0 ? legacy.interval : 1);
+  if (interval > 1) rule.interval = interval;
+
+  const weekdays = legacy.days_of_week ? toWeekdays(legacy.days_of_week) : [];
+
+  if (rule.freq === 'WEEKLY' && weekdays.length > 0) {
+    rule.byDay = weekdays.map((weekday) => ({ weekday }));
+  } else if (rule.freq === 'MONTHLY') {
+    if (weekdays.length > 0) {
+      const weeks = legacy.week_of_month?.filter((n) => n >= -5 && n <= 5 && n !== 0) ?? [];
+      rule.byDay = weeks.length > 0
+        ? weeks.flatMap((n) => weekdays.map((weekday) => ({ weekday, n })))
+        : weekdays.map((weekday) => ({ weekday }));
+    }
+    if (legacy.day_of_month) rule.byMonthDay = [legacy.day_of_month];
+  } else if (rule.freq === 'YEARLY') {
+    if (legacy.month) rule.byMonth = [legacy.month];
+    if (legacy.day_of_month) rule.byMonthDay = [legacy.day_of_month];
+  }
+
+  if (legacy.end_count && legacy.end_count > 0) {
+    rule.count = legacy.end_count;
+  } else if (legacy.end_date) {
+    rule.until = legacy.end_date.substring(0, 10).replace(/-/g, '');
+  }
+
+  const recurrence = emptyRecurrence(rule, options.tzid);
+  recurrence.exdates = (legacy.exceptions ?? []).map((d) => d.substring(0, 10));
+  return recurrence;
+}
+
+/**
+ * Converts a simple pattern string ("weekly:1,3", "monthly:15", "biweekly", ...)
+ * to a rule, or null if it is not one.
+ */
+function fromSimplePattern(value: string): RecurrenceRule | null {
+  const [name, list] = value.split(':');
+  const rule = frequencyToRule(name);
+  if (!rule || list === undefined || list.trim() === '') return rule;
+
+  const numbers = list.split(',').map(Number).filter((n) => Number.isInteger(n));
+  if (rule.freq === 'WEEKLY') {
+    const weekdays = toWeekdays(numbers);
+    if (weekdays.length > 0) rule.byDay = weekdays.map((weekday) => ({ weekday }));
+  } else if (rule.freq === 'MONTHLY') {
+    const days = numbers.filter((n) => n >= 1 && n <= 31);
+    if (days.length > 0) rule.byMonthDay = days;
+  }
+  return rule;
+}
+
+/**
+ * Reads a stored recurrence in any supported format: iCalendar lines or an
+ * RRULE value, a JSON pattern, or a simple pattern string.
+ * @param value - The stored value (e.g. events.recurrence_pattern)
+ * @param options - Timezone the series is evaluated in
+ * @returns The recurrence, or null if the value is empty or not recognised
+ * @throws RecurrenceParseError if the value looks like iCalendar but is malformed
+ *   or repeats more often than daily
+ */
+export function parseStoredRecurrence(
+  value: string | null | undefined,
+  options: { tzid?: string | null } = {}
+): ParsedRecurrence | null {
+  if (!value || !value.trim()) return null;
+
+  if (isICalRecurrence(value)) {
+    const recurrence = parseRecurrence(value, options);
+    if (recurrence.rrule && SUB_DAILY_FREQUENCIES.has(recurrence.rrule.freq)) {
+      throw new RecurrenceParseError(`Stored recurrences cannot repeat ${recurrence.rrule.freq.toLowerCase()}`);
+    }
+    return recurrence;
+  }
+
+  if (value.trim().startsWith('{')) {
+    try {
+      return fromLegacyPattern(JSON.parse(value) as LegacyRecurrencePattern, options);
+    } catch {
+      return null;
+    }
+  }
+
+  const rule = fromSimplePattern(value.trim());
+  return rule ? emptyRecurrence(rule, options.tzid) : null;
+}
+
+/**
+ * Reads a reminder's repeat settings. repeat_days holds weekdays (Sunday=0) for
+ * weekly reminders and days of the month for monthly ones.
+ */
+export function reminderRecurrence(
+  repeatPattern: string | null | undefined,
+  repeatDays?: number[] | null,
+  options: { tzid?: string | null } = {}
+): ParsedRecurrence | null {
+  if (!repeatPattern || isICalRecurrence(repeatPattern) || repeatPattern.includes(':')) {
+    return parseStoredRecurrence(repeatPattern, options);
+  }
+
+  const recurrence = parseStoredRecurrence(repeatPattern, options);
+  const days = repeatDays ?? [];
+  if (!recurrence?.rrule || days.length === 0) return recurrence;
+
+  if (recurrence.rrule.freq === 'WEEKLY') {
+    const weekdays = toWeekdays(days);
+    if (weekdays.length > 0) recurrence.rrule.byDay = weekdays.map((weekday) => ({ weekday }));
+  } else if (recurrence.rrule.freq === 'MONTHLY') {
+    const monthDays = days.filter((d) => Number.isInteger(d) && d >= 1 && d <= 31);
+    if (monthDays.length > 0) recurrence.rrule.byMonthDay = monthDays;
+  }
+  return recurrence;
+}
+
+/**
+ * Serializes a recurrence for a text column: RRULE, RDATE and EXDATE lines
+ * joined by newlines (DTSTART is stored separately by every domain).
+ */
+export function toStoredRecurrence(recurrence: Omit<ParsedRecurrence, 'dtstart'>): string {
+  return formatRecurrence(recurrence).join('\n');
+}
@@ -0,0 +1,384 @@
+import { getZonedDateParts, zonedTimeToUtc } from '@/lib/utils/timezone-utils';
+
+// ==================== TYPES ====================
+
+export type Frequency = 'SECONDLY' | 'MINUTELY' | 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+/** A BYDAY entry: a weekday, optionally the nth (or nth from last, when negative) in the month or year */
+export interface WeekdayNum {
+  weekday: Weekday;
+  n?: number;
+}
+
+/** An RFC 5545 RRULE value */
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval?: number;
+  count?: number;
+  until?: string; // As written in the rule: 20261231, 20261231T235959Z or floating 20261231T235959
+  bySecond?: number[];
+  byMinute?: number[];
+  byHour?: number[];
+  byDay?: WeekdayNum[];
+  byMonthDay?: number[];
+  byYearDay?: number[];
+  byWeekNo?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  wkst?: Weekday;
+}
+
+/**
+ * An RDATE or EXDATE entry: an instant, or a 'YYYY-MM-DD' date meaning the
+ * occurrence on that (local) day
+ */
+export type RecurrenceDate = Date | string;
+
+/** A recurring series: its first start plus the rule and extra/excluded dates */
+export interface RecurrenceSet {
+  dtstart: Date;
+  tzid?: string | null; // IANA timezone the rule is evaluated in; defaults to UTC
+  allDay?: boolean;
+  rrule?: RecurrenceRule | null;
+  rdates?: RecurrenceDate[];
+  exdates?: RecurrenceDate[];
+}
+
+/** Recurrence properties read from iCalendar content lines; DTSTART is optional */
+export type ParsedRecurrence = Omit<RecurrenceSet, 'dtstart'> & {
+  dtstart?: Date;
+  rdates: RecurrenceDate[];
+  exdates: RecurrenceDate[];
+};
+
+export class RecurrenceParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceParseError';
+  }
+}
+
+// ==================== CONSTANTS ====================
+
+export const FREQUENCIES: Frequency[] = ['SECONDLY', 'MINUTELY', 'HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+/** Weekday codes indexed like Date#getDay() (Sunday = 0) */
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const NUMBER_PARTS = {
+  BYSECOND: { key: 'bySecond', min: 0, max: 60, signed: false },
+  BYMINUTE: { key: 'byMinute', min: 0, max: 59, signed: false },
+  BYHOUR: { key: 'byHour', min: 0, max: 23, signed: false },
+  BYMONTHDAY: { key: 'byMonthDay', min: 1, max: 31, signed: true },
+  BYYEARDAY: { key: 'byYearDay', min: 1, max: 366, signed: true },
+  BYWEEKNO: { key: 'byWeekNo', min: 1, max: 53, signed: true },
+  BYMONTH: { key: 'byMonth', min: 1, max: 12, signed: false },
+  BYSETPOS: { key: 'bySetPos', min: 1, max: 366, signed: true },
+} as const;
+
+type NumberPartName = keyof typeof NUMBER_PARTS;
+
+// ==================== RRULE ====================
+
+function parseNumberList(name: NumberPartName, value: string): number[] {
+  const { min, max, signed } = NUMBER_PARTS[name];
+  return value.split(',').map((raw) => {
+    const n = Number(raw);
+    const magnitude = Math.abs(n);
+    if (!Number.isInteger(n) || magnitude < min || magnitude > max || (n < 0 && !signed) || (n === 0 && min > 0)) {
+      throw new RecurrenceParseError(`Invalid ${name} value "${raw}"`);
+    }
+    return n;
+  });
+}
+
+function parseWeekday(value: string): Weekday {
+  const weekday = value.toUpperCase() as Weekday;
+  if (!WEEKDAYS.includes(weekday)) {
+    throw new RecurrenceParseError(`Invalid weekday "${value}"`);
+  }
+  return weekday;
+}
+
+/**
+ * Parses an RRULE value, with or without the "RRULE:" prefix.
+ * @param value - e.g. "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1"
+ * @returns The parsed rule
+ * @throws RecurrenceParseError if the rule is malformed
+ */
+export function parseRRule(value: string): RecurrenceRule {
+  const body = value.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+
+  for (const part of body.split(';')) {
+    if (!part) continue;
+    const [name, partValue] = part.split('=');
+    if (!name || partValue === undefined || partValue === '') {
+      throw new RecurrenceParseError(`Invalid RRULE part "${part}"`);
+    }
+    parts.set(name.toUpperCase(), partValue);
+  }
+
+  const freq = parts.get('FREQ')?.toUpperCase() as Frequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new RecurrenceParseError('RRULE requires a valid FREQ');
+  }
+
+  const rule: RecurrenceRule = { freq };
+
+  for (const [name, partValue] of parts) {
+    switch (name) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+      case 'COUNT': {
+        const n = Number(partValue);
+        if (!Number.isInteger(n) || n < 1) {
+          throw new RecurrenceParseError(`Invalid ${name} value "${partValue}"`);
+        }
+        rule[name === 'INTERVAL' ? 'interval' : 'count'] = n;
+        break;
+      }
+      case 'UNTIL':
+        if (!/^\d{8}(T\d{6}Z?)?$/i.test(partValue)) {
+          throw new RecurrenceParseError(`Invalid UNTIL value "${partValue}"`);
+        }
+        rule.until = partValue.toUpperCase();
+        break;
+      case 'WKST':
+        rule.wkst = parseWeekday(partValue);
+        break;
+      case 'BYDAY':
+        rule.byDay = partValue.split(',').map((raw) => {
+          const match = raw.match(/^([+-]?\d{1,2})?([A-Za-z]{2})$/);
+          if (!match) throw new RecurrenceParseError(`Invalid BYDAY value "${raw}"`);
+          const weekday = parseWeekday(match[2]);
+          if (match[1] === undefined) return { weekday };
+          const n = Number(match[1]);
+          if (n === 0 || Math.abs(n) > 53) throw new RecurrenceParseError(`Invalid BYDAY value "${raw}"`);
+          return { weekday, n };
+        });
+        break;
+      default:
+        if (name in NUMBER_PARTS) {
+          const partName = name as NumberPartName;
+          rule[NUMBER_PARTS[partName].key] = parseNumberList(partName, partValue);
+        } else if (!name.startsWith('X-')) {
+          throw new RecurrenceParseError(`Unsupported RRULE part "${name}"`);
+        }
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new RecurrenceParseError('RRULE cannot have both COUNT and UNTIL');
+  }
+
+  return rule;
+}
+
+/**
+ * Formats a rule as an RRULE value (without the "RRULE:" prefix), in a
+ * stable part order so equal rules always produce the same string.
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval && rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until}`);
+
+  const list = (name: string, values?: number[]) => {
+    if (values && values.length > 0) parts.push(`${name}=${values.join(',')}`);
+  };
+
+  list('BYSECOND', rule.bySecond);
+  list('BYMINUTE', rule.byMinute);
+  list('BYHOUR', rule.byHour);
+  if (rule.byDay && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.n ?? ''}${d.weekday}`).join(',')}`);
+  }
+  list('BYMONTHDAY', rule.byMonthDay);
+  list('BYYEARDAY', rule.byYearDay);
+  list('BYWEEKNO', rule.byWeekNo);
+  list('BYMONTH', rule.byMonth);
+  list('BYSETPOS', rule.bySetPos);
+  if (rule.wkst) parts.push(`WKST=${rule.wkst}`);
+
+  return parts.join(';');
+}
+
+// ==================== DATE VALUES ====================
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+/**
+ * Parses an iCalendar DATE or DATE-TIME value.
+ * Dates return 'YYYY-MM-DD'; date-times return the instant, reading floating
+ * times in the given timezone (UTC if none).
+ */
+export function parseICalDateValue(value: string, tzid?: string | null): RecurrenceDate {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i);
+  if (!match) {
+    throw new RecurrenceParseError(`Invalid date value "${value}"`);
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (hour === undefined) return `${year}-${month}-${day}`;
+
+  const parts = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour),
+    minute: Number(minute),
+    second: Number(second),
+  };
+  return zonedTimeToUtc(parts, utc ? 'UTC' : tzid || 'UTC');
+}
+
+/**
+ * Formats a date for an iCalendar property: 'YYYY-MM-DD' strings and all-day
+ * instants as DATE values, other instants as local time in tzid or as UTC.
+ */
+export function formatICalDateValue(value: RecurrenceDate, options: { tzid?: string | null; allDay?: boolean } = {}): string {
+  if (typeof value === 'string') return value.replace(/-/g, '').substring(0, 8);
+
+  if (options.allDay) {
+    return `${value.getUTCFullYear()}${pad(value.getUTCMonth() + 1)}${pad(value.getUTCDate())}`;
+  }
+
+  const tzid = options.tzid && options.tzid !== 'UTC' ? options.tzid : null;
+  const p = tzid
+    ? getZonedDateParts(value, tzid)
+    : {
+        year: value.getUTCFullYear(),
+        month: value.getUTCMonth() + 1,
+        day: value.getUTCDate(),
+        hour: value.getUTCHours(),
+        minute: value.getUTCMinutes(),
+        second: value.getUTCSeconds(),
+      };
+
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}${tzid ? '' : 'Z'}`;
+}
+
+// ==================== CONTENT LINES ====================
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseContentLines(input: string | string[]): ContentLine[] {
+  const text = Array.isArray(input) ? input.join('\n') : input;
+  // Unfold continuation lines (RFC 5545 §3.1)
+  const unfolded = text.replace(/\r?\n[ \t]/g, '');
+
+  return unfolded
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const colon = line.indexOf(':');
+      // A bare rule without a property name ("FREQ=WEEKLY;...")
+      if (colon < 0) return { name: 'RRULE', params: {}, value: line };
+
+      const [name, ...rawParams] = line.substring(0, colon).split(';');
+      const params: Record<string, string> = {};
+      for (const param of rawParams) {
+        const [key, paramValue] = param.split('=');
+        if (key && paramValue !== undefined) params[key.toUpperCase()] = paramValue.replace(/^"|"$/g, '');
+      }
+      return { name: name.toUpperCase(), params, value: line.substring(colon + 1) };
+    });
+}
+
+/**
+ * Parses the recurrence properties of an event: DTSTART, RRULE, RDATE and EXDATE
+ * content lines (other properties are ignored). Accepts a bare RRULE value too.
+ * @param input - Content lines as one string or an array (e.g. Google's `recurrence` field)
+ * @param defaults - Timezone for floating times when DTSTART has no TZID
+ * @returns The recurrence properties; `rrule` is null if there is none
+ * @throws RecurrenceParseError if a property is malformed
+ */
+export function parseRecurrence(
+  input: string | string[],
+  defaults: { tzid?: string | null } = {}
+): ParsedRecurrence {
+  const result: ParsedRecurrence = { tzid: defaults.tzid ?? null, rrule: null, rdates: [], exdates: [] };
+  const lines = parseContentLines(input);
+
+  const dtstartLine = lines.find((l) => l.name === 'DTSTART');
+  if (dtstartLine) {
+    if (dtstartLine.params.TZID) result.tzid = dtstartLine.params.TZID;
+    const dtstart = parseICalDateValue(dtstartLine.value, result.tzid);
+    if (typeof dtstart === 'string') {
+      result.allDay = true;
+      result.dtstart = new Date(`${dtstart}T00:00:00Z`);
+    } else {
+      result.dtstart = dtstart;
+    }
+  }
+
+  for (const line of lines) {
+    if (line.name === 'RRULE') {
+      result.rrule = parseRRule(line.value);
+    } else if (line.name === 'RDATE' || line.name === 'EXDATE') {
+      const tzid = line.params.TZID ?? result.tzid;
+      const target = line.name === 'RDATE' ? result.rdates : result.exdates;
+      for (const value of line.value.split(',')) {
+        // RDATE periods ("start/end" or "start/duration") recur at their start
+        target.push(parseICalDateValue(value.split('/')[0], tzid));
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Formats recurrence properties as iCalendar content lines.
+ * @param set - The recurrence; DTSTART is only emitted when `includeDtstart` is set
+ * @returns Lines such as "RRULE:FREQ=WEEKLY;BYDAY=MO" and "EXDATE;TZID=Europe/Berlin:20261026T090000"
+ */
+export function formatRecurrence(
+  set: Omit<RecurrenceSet, 'dtstart'> & { dtstart?: Date },
+  options: { includeDtstart?: boolean } = {}
+): string[] {
+  const tzid = set.tzid && set.tzid !== 'UTC' && !set.allDay ? set.tzid : null;
+  const lines: string[] = [];
+
+  const dateLine = (name: string, values: RecurrenceDate[]) => {
+    const dates = values.filter((v) => typeof v === 'string' || set.allDay);
+    const instants = values.filter((v) => typeof v !== 'string' && !set.allDay);
+    if (dates.length > 0) {
+      lines.push(`${name};VALUE=DATE:${dates.map((d) => formatICalDateValue(d, { allDay: true })).join(',')}`);
+    }
+    if (instants.length > 0) {
+      lines.push(`${name}${tzid ? `;TZID=${tzid}` : ''}:${instants.map((d) => formatICalDateValue(d, { tzid })).join(',')}`);
+    }
+  };
+
+  if (options.includeDtstart && set.dtstart) {
+    if (set.allDay) {
+      lines.push(`DTSTART;VALUE=DATE:${formatICalDateValue(set.dtstart, { allDay: true })}`);
+    } else {
+      lines.push(`DTSTART${tzid ? `;TZID=${tzid}` : ''}:${formatICalDateValue(set.dtstart, { tzid })}`);
+    }
+  }
+  if (set.rrule) lines.push(`RRULE:${formatRRule(set.rrule)}`);
+  if (set.rdates && set.rdates.length > 0) dateLine('RDATE', set.rdates);
+  if (set.exdates && set.exdates.length > 0) dateLine('EXDATE', set.exdates);
+
+  return lines;
+}
+
+/**
+ * True if a stored recurrence string is in iCalendar form (an RRULE value or
+ * RRULE/RDATE/EXDATE content lines) rather than one of the legacy formats.
+ */
+export function isICalRecurrence(value: string | null | undefined): boolean {
+  return !!value && /^\s*(RRULE:|FREQ=|RDATE|EXDATE|DTSTART)/i.test(value);
+}
@@ -1,5 +1,17 @@
 import { createClient } from '@/lib/supabase/client';
 import type { CalendarEvent, CreateEventInput } from './calendar-service';
+import { zonedTimeToUtc } from '@/lib/utils/timezone-utils';
+import {
+  expandRecurrence,
+  formatICalDateValue,
+  isICalRecurrence,
+  iterateRecurrence,
+  occurrenceDateKey,
+  parseRecurrence,
+  parseStoredRecurrence,
+  toStoredRecurrence,
+  type ParsedRecurrence,
+} from './recurrence';
 
 /**
  * Enhanced Recurring Events Service
@@ -106,17 +118,18 @@ export const recurringEventsService = {
    * This is the core algorithm that creates virtual event occurrences.
    *
    * Algorithm:
-   * 1. Parse recurrence pattern (try JSON first, fall back to simple format)
-   * 2. Start from event's original date, walk forward in time
-   * 3. For each date, check if it matches the pattern (daily/weekly/monthly/yearly)
-   * 4. Skip dates that are exceptions (user deleted single occurrence)
-   * 5. Create virtual instances with synthetic IDs (masterId-index)
-   * 6. Stop when hitting maxOccurrences, end_count, or end_date
+   * 1. Read the stored pattern (iCalendar RRULE/EXDATE/RDATE lines, JSON, or simple format)
+   * 2. Expand it with the shared recurrence engine in the event's timezone,
+   *    starting from the event's original start
+   * 3. Excluded dates (user deleted single occurrence) are skipped but keep their index
+   * 4. Create virtual instances with synthetic IDs (masterId-index)
+   * 5. Stop when hitting maxOccurrences, COUNT/end_count, UNTIL/end_date or the range end
    *
    * Virtual IDs: We don't store every occurrence in DB. Instead, generate
    * them on-the-fly. Virtual ID format: `{masterId}-{occurrenceIndex}`
    *
-   * Time preservation: Original event's time-of-day is preserved for each occurrence.
+   * Time preservation: the original wall-clock time is kept in the event's
+   * timezone, including across daylight saving changes.
    * Duration is calculated once and applied to each instance.
    */
   generateOccurrences(
@@ -129,198 +142,72 @@ export const recurringEventsService = {
       return [];
     }
 
-    // Parse the recurrence pattern (supports both JSON and simple string formats)
-    let pattern: EnhancedRecurrencePattern | null;
+    const timezone = masterEvent.timezone || 'UTC';
+    let recurrence: ParsedRecurrence | null;
     try {
-      pattern = JSON.parse(masterEvent.recurrence_pattern);
+      recurrence = parseStoredRecurrence(masterEvent.recurrence_pattern, { tzid: timezone });
     } catch {
-      pattern = this.parseSimplePattern(masterEvent.recurrence_pattern);
+      return [];
     }
 
-    if (!pattern) return [];
+    if (!recurrence) return [];
 
     const occurrences: RecurringEventInstance[] = [];
     const eventStart = new Date(masterEvent.start_time);
-    let currentDate = new Date(eventStart);
-    let occurrenceIndex = 0;
 
     // Pre-calculate duration so each occurrence has correct end time
     const duration = masterEvent.end_time
       ? new Date(masterEvent.end_time).getTime() - eventStart.getTime()
       : 0;
 
-    // Walk through dates until we hit a stopping condition
-    while (occurrences.length < maxOccurrences && currentDate <= endDate) {
-      if (this.shouldGenerateOccurrence(currentDate, pattern, eventStart)) {
-        // Only include occurrences within the requested date range
-        if (currentDate >= startDate) {
-          const occurrenceDate = currentDate.toISOString().split('T')[0];
-
-          // Skip if this date is in the exceptions list (deleted occurrence)
-          if (!pattern.exceptions?.includes(occurrenceDate)) {
-            // Preserve time-of-day from original event
-            const occurrenceStart = new Date(currentDate);
-            occurrenceStart.setHours(eventStart.getHours());
-            occurrenceStart.setMinutes(eventStart.getMinutes());
-            occurrenceStart.setSeconds(eventStart.getSeconds());
-
-            let occurrenceEnd: string | undefined;
-            if (duration > 0) {
-              occurrenceEnd = new Date(occurrenceStart.getTime() + duration).toISOString();
-            }
-
-            const occurrence: RecurringEventInstance = {
-              ...masterEvent,
-              id: `${masterEvent.id}-${occurrenceIndex}`, // Virtual ID for this occurrence
-              series_id: masterEvent.id,
-              occurrence_date: occurrenceDate,
-              occurrence_index: occurrenceIndex,
-              start_time: occurrenceStart.toISOString(),
-              end_time: occurrenceEnd,
-              is_exception: false
-            };
-
-            occurrences.push(occurrence);
-          }
-        }
-
-        occurrenceIndex++;
-
-        // Stop if we've generated the specified number of occurrences
-        if (pattern.end_count && occurrenceIndex >= pattern.end_count) {
-          break;
-        }
-
-        // Stop if we've passed the end date for the recurrence
-        if (pattern.end_date && currentDate >= new Date(pattern.end_date)) {
-          break;
-        }
-      }
-
-      // Move to next candidate date
-      currentDate = this.calculateNextDate(currentDate, pattern);
-      if (!currentDate) break;
+    for (const { start, index } of iterateRecurrence({ ...recurrence, dtstart: eventStart })) {
+      if (occurrences.length >= maxOccurrences || start > endDate) break;
+
+      // Only include occurrences within the requested date range
+      if (start < startDate) continue;
+
+      occurrences.push({
+        ...masterEvent,
+        id: `${masterEvent.id}-${index}`, // Virtual ID for this occurrence
+        series_id: masterEvent.id,
+        occurrence_date: occurrenceDateKey(start, recurrence.tzid),
+        occurrence_index: index,
+        start_time: start.toISOString(),
+        end_time: duration > 0 ? new Date(start.getTime() + duration).toISOString() : undefined,
+        is_exception: false
+      });
     }
 
     return occurrences;
   },
 
   /**
-   * Check if an occurrence should be generated for a specific date
+   * Add a skipped date to an iCalendar pattern as an EXDATE. The exact
+   * occurrence instant is used when the date is part of the series, so the
+   * exclusion survives export to other calendars.
    */
-  shouldGenerateOccurrence(
-    date: Date,
-    pattern: EnhancedRecurrencePattern,
-    originalStart: Date
-  ): boolean {
-    switch (pattern.pattern) {
-      case 'daily':
-        // Every N days from original start
-        const daysDiff = Math.floor((date.getTime() - originalStart.getTime()) / (24 * 60 * 60 * 1000));
-        return daysDiff >= 0 && daysDiff % pattern.interval === 0;
-
-      case 'weekly':
-        if (pattern.days_of_week && pattern.days_of_week.length > 0) {
-          const dayOfWeek = date.getDay();
-          if (!pattern.days_of_week.includes(dayOfWeek)) {
-            return false;
-          }
-        }
-
-        // Every N weeks from original start
-        const weeksDiff = Math.floor((date.getTime() - originalStart.getTime()) / (7 * 24 * 60 * 60 * 1000));
-        return weeksDiff >= 0 && weeksDiff % pattern.interval === 0;
-
-      case 'monthly':
-        // Check day of month
-        if (pattern.day_of_month && date.getDate() !== pattern.day_of_month) {
-          return false;
-        }
-
-        // Check week of month (e.g., 1st and 3rd Friday)
-        if (pattern.week_of_month && pattern.days_of_week) {
-          const weekOfMonth = Math.ceil(date.getDate() / 7);
-          const dayOfWeek = date.getDay();
-
-          if (!pattern.week_of_month.includes(weekOfMonth) ||
-              !pattern.days_of_week.includes(dayOfWeek)) {
-            return false;
-          }
-        }
-
-        // Every N months from original start
-        const monthsDiff = (date.getFullYear() - originalStart.getFullYear()) * 12 +
-                          (date.getMonth() - originalStart.getMonth());
-        return monthsDiff >= 0 && monthsDiff % pattern.interval === 0;
-
-      case 'yearly':
-        // Check month
-        if (pattern.month && date.getMonth() + 1 !== pattern.month) {
-          return false;
-        }
-
-        // Check day of month
-        if (pattern.day_of_month && date.getDate() !== pattern.day_of_month) {
-          return false;
-        }
-
-        // Every N years from original start
-        const yearsDiff = date.getFullYear() - originalStart.getFullYear();
-        return yearsDiff >= 0 && yearsDiff % pattern.interval === 0;
-
-      default:
-        return false;
-    }
-  },
-
-  /**
-   * Calculate the next date to check for occurrence generation
-   */
-  calculateNextDate(
-    currentDate: Date,
-    pattern: EnhancedRecurrencePattern
-  ): Date {
-    const next = new Date(currentDate);
-
-    switch (pattern.pattern) {
-      case 'daily':
-        next.setDate(next.getDate() + 1);
-        break;
-
-      case 'weekly':
-        // If specific days of week, advance by 1 day, otherwise by interval weeks
-        if (pattern.days_of_week && pattern.days_of_week.length > 0) {
-          next.setDate(next.getDate() + 1);
-        } else {
-          next.setDate(next.getDate() + 7 * pattern.interval);
-        }
-        break;
-
-      case 'monthly':
-        if (pattern.week_of_month || pattern.days_of_week) {
-          // For complex monthly patterns, advance by day and let shouldGenerate filter
-          next.setDate(next.getDate() + 1);
-        } else {
-          // Simple monthly, advance by month
-          next.setMonth(next.getMonth() + pattern.interval);
-        }
-        break;
-
-      case 'yearly':
-        if (pattern.month || pattern.day_of_month) {
-          // For specific dates, advance by day and let shouldGenerate filter
-          next.setDate(next.getDate() + 1);
-        } else {
-          // Simple yearly
-          next.setFullYear(next.getFullYear() + pattern.interval);
-        }
-        break;
+  addICalException(masterEvent: CalendarEvent, occurrenceDate: string): string {
+    const recurrence = parseRecurrence(masterEvent.recurrence_pattern ?? '', { tzid: masterEvent.timezone || 'UTC' });
+    const timezone = recurrence.tzid || 'UTC';
+    const [year, month, day] = occurrenceDate.split('-').map(Number);
+    const dayStart = zonedTimeToUtc({ year, month, day, hour: 0, minute: 0, second: 0 }, timezone);
+    const dayEnd = zonedTimeToUtc({ year, month, day, hour: 23, minute: 59, second: 59 }, timezone);
+
+    const [occurrence] = expandRecurrence(
+      { ...recurrence, exdates: [], dtstart: new Date(masterEvent.start_time) },
+      { after: dayStart, before: dayEnd, limit: 1 }
+    );
 
-      default:
-        next.setDate(next.getDate() + 1);
+    const alreadyExcluded = recurrence.exdates.some((exdate) =>
+      typeof exdate === 'string'
+        ? exdate === occurrenceDate
+        : occurrence !== undefined && exdate.getTime() === occurrence.getTime()
+    );
+    if (!alreadyExcluded) {
+      recurrence.exdates.push(occurrence ?? occurrenceDate);
     }
 
-    return next;
+    return toStoredRecurrence(recurrence);
   },
 
   /**
@@ -411,6 +298,17 @@ export const recurringEventsService = {
     if (error) throw error;
 
     // Add the exception date to the master event's pattern
+    if (isICalRecurrence(masterEvent.recurrence_pattern)) {
+      await supabase
+        .from('events')
+        .update({
+          recurrence_pattern: this.addICalException(masterEvent, occurrenceDate)
+        })
+        .eq('id', seriesId);
+
+      return data;
+    }
+
     let pattern: EnhancedRecurrencePattern;
     try {
       pattern = JSON.parse(masterEvent.recurrence_pattern);
@@ -453,26 +351,32 @@ export const recurringEventsService = {
     if (masterError) throw masterError;
 
     // Parse and update pattern with exception
-    let pattern: EnhancedRecurrencePattern;
-    try {
-      pattern = JSON.parse(masterEvent.recurrence_pattern);
-    } catch {
-      pattern = this.parseSimplePattern(masterEvent.recurrence_pattern) || {
-        pattern: 'weekly',
-        interval: 1
-      };
-    }
+    let recurrencePattern: string;
+    if (isICalRecurrence(masterEvent.recurrence_pattern)) {
+      recurrencePattern = this.addICalException(masterEvent, occurrenceDate);
+    } else {
+      let pattern: EnhancedRecurrencePattern;
+      try {
+        pattern = JSON.parse(masterEvent.recurrence_pattern);
+      } catch {
+        pattern = this.parseSimplePattern(masterEvent.recurrence_pattern) || {
+          pattern: 'weekly',
+          interval: 1
+        };
+      }
 
-    pattern.exceptions = pattern.exceptions || [];
-    if (!pattern.exceptions.includes(occurrenceDate)) {
-      pattern.exceptions.push(occurrenceDate);
+      pattern.exceptions = pattern.exceptions || [];
+      if (!pattern.exceptions.includes(occurrenceDate)) {
+        pattern.exceptions.push(occurrenceDate);
+      }
+      recurrencePattern = JSON.stringify(pattern);
     }
 
     // Update master event
     const { error } = await supabase
       .from('events')
       .update({
-        recurrence_pattern: JSON.stringify(pattern)
+        recurrence_pattern: recurrencePattern
       })
       .eq('id', seriesId);
 
@@ -518,27 +422,42 @@ export const recurringEventsService = {
 
     if (masterError) throw masterError;
 
-    // End the current series at the day before fromDate
-    const endDate = new Date(fromDate);
-    endDate.setDate(endDate.getDate() - 1);
+    let recurrencePattern: string;
+    if (isICalRecurrence(masterEvent.recurrence_pattern)) {
+      // End the current series just before fromDate; UNTIL replaces any COUNT
+      const recurrence = parseRecurrence(masterEvent.recurrence_pattern, { tzid: masterEvent.timezone || 'UTC' });
+      if (recurrence.rrule) {
+        recurrence.rrule = {
+          ...recurrence.rrule,
+          count: undefined,
+          until: formatICalDateValue(new Date(new Date(fromDate).getTime() - 1000)),
+        };
+      }
+      recurrencePattern = toStoredRecurrence(recurrence);
+    } else {
+      // End the current series at the day before fromDate
+      const endDate = new Date(fromDate);
+      endDate.setDate(endDate.getDate() - 1);
+
+      let pattern: EnhancedRecurrencePattern;
+      try {
+        pattern = JSON.parse(masterEvent.recurrence_pattern);
+      } catch {
+        pattern = this.parseSimplePattern(masterEvent.recurrence_pattern) || {
+          pattern: 'weekly',
+          interval: 1
+        };
+      }
 
-    let pattern: EnhancedRecurrencePattern;
-    try {
-      pattern = JSON.parse(masterEvent.recurrence_pattern);
-    } catch {
-      pattern = this.parseSimplePattern(masterEvent.recurrence_pattern) || {
-        pattern: 'weekly',
-        interval: 1
-      };
+      // Update original series with end date
+      pattern.end_date = endDate.toISOString().split('T')[0];
+      recurrencePattern = JSON.stringify(pattern);
     }
 
-    // Update original series with end date
-    pattern.end_date = endDate.toISOString().split('T')[0];
-
     await supabase
       .from('events')
       .update({
-        recurrence_pattern: JSON.stringify(pattern)
+        recurrence_pattern: recurrencePattern
       })
       .eq('id', seriesId);
 
@@ -19,7 +19,8 @@ export type NotificationType =
   | 'completed'
   | 'snoozed'
   | 'goal_checkin_due'
-  | 'goal_checkin_overdue';
+  | 'goal_checkin_overdue'
+  | 'location';
 
 export type NotificationChannel = 'in_app' | 'email' | 'push';
 
@@ -85,7 +86,7 @@ const CreateNotificationSchema = z.object({
   reminder_id: z.string().uuid().optional().nullable(),
   goal_id: z.string().uuid().optional().nullable(),
   user_id: z.string().uuid(),
-  type: z.enum(['due', 'overdue', 'assigned', 'unassigned', 'mentioned', 'commented', 'completed', 'snoozed', 'goal_checkin_due', 'goal_checkin_overdue']),
+  type: z.enum(['due', 'overdue', 'assigned', 'unassigned', 'mentioned', 'commented', 'completed', 'snoozed', 'goal_checkin_due', 'goal_checkin_overdue', 'location']),
   channel: z.enum(['in_app', 'email', 'push']),
   title: z.string().optional(),
   message: z.string().optional(),
@@ -365,6 +366,7 @@ export const reminderNotificationsService = {
       snoozed: 'Reminder Snoozed',
       goal_checkin_due: 'Goal Check-In Due',
       goal_checkin_overdue: 'Goal Check-In Overdue',
+      location: 'Location Reminder',
     };
 
     return titleMap[type] || 'Notification';
@@ -387,6 +389,7 @@ export const reminderNotificationsService = {
       snoozed: `${emoji} ${entity.title} was snoozed`,
       goal_checkin_due: `${emoji} Time to check in on "${entity.title}"`,
       goal_checkin_overdue: `${emoji} Overdue check-in for "${entity.title}"`,
+      location: `${emoji} ${entity.title}`,
     };
 
     return bodyMap[type] || `${emoji} Update on ${entity.title}`;
@@ -639,6 +642,7 @@ export const reminderNotificationsService = {
       snoozed: 'Clock',
       goal_checkin_due: 'Target',
       goal_checkin_overdue: 'AlertTriangle',
+      location: 'MapPin',
     };
 
     return iconMap[type] || 'Bell';
@@ -659,6 +663,7 @@ export const reminderNotificationsService = {
       snoozed: 'text-purple-400',
       goal_checkin_due: 'text-indigo-400',
       goal_checkin_overdue: 'text-red-400',
+      location: 'text-teal-400',
     };
 
     return colorMap[type] || 'text-gray-400';
@@ -1,6 +1,10 @@
 import { createClient } from '@/lib/supabase/client';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { cacheAside, cacheKeys, CACHE_TTL } from '@/lib/cache';
+import { nextOccurrence, reminderRecurrence } from './recurrence';
+
+/** Whether a location reminder fires on arriving at or leaving its place */
+export type LocationTrigger = 'arrive' | 'leave';
 
 export interface Reminder {
   id: string;
@@ -13,6 +17,17 @@ export interface Reminder {
   reminder_time?: string;
   remind_at?: string; // Database field for reminder time
   location?: string;
+  /** Saved place a location reminder fires at */
+  place_id?: string | null;
+  /** Ad-hoc point and radius, for location reminders without a place */
+  location_latitude?: number | null;
+  location_longitude?: number | null;
+  location_radius_meters?: number | null;
+  location_trigger?: LocationTrigger;
+  /** Members whose movements fire it; empty for the assignee, or anyone */
+  location_member_ids?: string[];
+  location_cooldown_minutes?: number;
+  location_last_triggered_at?: string | null;
   priority?: 'low' | 'medium' | 'high' | 'urgent';
   status: 'active' | 'completed' | 'snoozed';
   completed?: boolean; // Database field for completion status
@@ -55,6 +70,13 @@ export interface CreateReminderInput {
   reminder_type?: 'time' | 'location';
   reminder_time?: string;
   location?: string;
+  place_id?: string | null;
+  location_latitude?: number | null;
+  location_longitude?: number | null;
+  location_radius_meters?: number | null;
+  location_trigger?: LocationTrigger;
+  location_member_ids?: string[];
+  location_cooldown_minutes?: number;
   priority?: 'low' | 'medium' | 'high' | 'urgent';
   status?: 'active' | 'completed' | 'snoozed';
   snooze_until?: string;
@@ -292,6 +314,28 @@ export const remindersService = {
     });
   },
 
+  /**
+   * Calculates when a repeating reminder fires next.
+   * @param reminder - The reminder; repeat_pattern may be a legacy pattern or an RRULE
+   * @param after - Reference instant, defaults to now
+   * @param timezone - IANA timezone the repeat days refer to, defaults to UTC
+   * @returns The next reminder time, or null if the reminder does not repeat or has ended
+   * @throws RecurrenceParseError if repeat_pattern is a malformed RRULE
+   */
+  getNextOccurrence(
+    reminder: Pick<Reminder, 'reminder_time' | 'remind_at' | 'repeat_pattern' | 'repeat_days'>,
+    after: Date = new Date(),
+    timezone?: string
+  ): Date | null {
+    const start = reminder.reminder_time || reminder.remind_at;
+    if (!start) return null;
+
+    const recurrence = reminderRecurrence(reminder.repeat_pattern, reminder.repeat_days, { tzid: timezone });
+    if (!recurrence) return null;
+
+    return nextOccurrence({ ...recurrence, dtstart: new Date(start) }, after);
+  },
+
   // Assignment filtering functions
 
   /**
@@ -1,4 +1,16 @@
 import { createClient } from '@/lib/supabase/client';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FamilyPlace } from '@/lib/services/family-location-service';
+import type { ShoppingList } from '@/lib/services/shopping-service';
+
+type LocationListRow = {
+  list?: {
+    id?: string;
+    title?: string;
+    status?: string;
+    items?: Array<{ checked?: boolean | null }>;
+  } | null;
+};
 
 type LinkedListRow = {
   task_id?: string;
@@ -212,6 +224,63 @@ export const shoppingIntegrationService = {
     if (error) throw error;
   },
 
+  /**
+   * Active lists linked to a location reminder, with how many items are left
+   * Used to show the list when the reminder fires on arriving at the store.
+   */
+  async getLocationReminderLists(reminderId: string, supabaseClient?: SupabaseClient) {
+    const supabase = supabaseClient ?? createClient();
+    const { data, error } = await supabase
+      .from('shopping_reminders')
+      .select('list:shopping_lists(id, title, status, items:shopping_items(checked))')
+      .eq('reminder_id', reminderId)
+      .eq('trigger_type', 'location');
+
+    if (error) throw error;
+
+    const rows = (data ?? []) as LocationListRow[];
+    return rows
+      .filter((row) => row.list?.id && row.list.title && row.list.status === 'active')
+      .map((row) => ({
+        id: row.list!.id!,
+        title: row.list!.title!,
+        items_left: (row.list!.items ?? []).filter((item) => !item.checked).length,
+      }));
+  },
+
+  // Quick helper to remind a member of a list when they arrive at its store
+  async createArrivalReminder(list: Pick<ShoppingList, 'id' | 'title' | 'space_id'>, place: Pick<FamilyPlace, 'id' | 'name'>, userId: string) {
+    const supabase = createClient();
+
+    // Create location reminder
+    const { data: reminder, error: reminderError } = await supabase
+      .from('reminders')
+      .insert([{
+        space_id: list.space_id,
+        title: `Shopping: ${list.title}`,
+        description: `Your shopping list for ${place.name}`,
+        emoji: '🛒',
+        category: 'household',
+        reminder_type: 'location',
+        location: place.name,
+        place_id: place.id,
+        location_trigger: 'arrive',
+        location_member_ids: [userId],
+        priority: 'medium',
+        status: 'active',
+        created_by: userId,
+      }])
+      .select()
+      .single();
+
+    if (reminderError) throw reminderError;
+
+    // Link to shopping list
+    await this.linkToReminder(reminder.id, list.id, undefined, 'location');
+
+    return reminder;
+  },
+
   // Quick helper to create shopping trip with calendar event
   async createShoppingTrip(listId: string, title: string, startTime: string, spaceId: string, reminderMinutes = 60) {
     const supabase = createClient();
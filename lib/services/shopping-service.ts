@@ -22,6 +22,8 @@ export interface ShoppingItem {
   recipe_source_id?: string;
   notes?: string;
   checked: boolean;
+  /** When the item was checked off; used to learn each store's aisle order */
+  checked_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -279,12 +281,28 @@ export const shoppingService = {
 
   /**
    * Toggles the checked status of a shopping item.
+   * Checking an item stamps when it happened, which is how the aisle order
+   * of the list's store is learned.
    * @param id - The shopping item identifier
    * @param checked - The new checked state
    * @returns The updated shopping item
    */
   async toggleItem(id: string, checked: boolean): Promise<ShoppingItem> {
-    return this.updateItem(id, { checked } as Partial<CreateItemInput>);
+    return this.updateItem(id, {
+      checked,
+      checked_at: checked ? new Date().toISOString() : null,
+    } as Partial<CreateItemInput>);
+  },
+
+  /**
+   * Records what was paid for a shopping item.
+   * Checked-off items with a price feed the space's price book.
+   * @param id - The shopping item identifier
+   * @param actualPrice - Price paid for the item's whole quantity, or null to clear it
+   * @returns The updated shopping item
+   */
+  async setItemPrice(id: string, actualPrice: number | null): Promise<ShoppingItem> {
+    return this.updateItem(id, { actual_price: actualPrice } as Partial<CreateItemInput>);
   },
 
   /**
@@ -0,0 +1,160 @@
+import { subMonths } from 'date-fns';
+import { createClient } from '@/lib/supabase/client';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface SavedStoreLayout {
+  id: string;
+  space_id: string;
+  store_name: string;
+  /** Shopping categories in walking order; empty to use the learned order */
+  aisle_order: string[];
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateStoreLayoutInput {
+  space_id: string;
+  store_name: string;
+  aisle_order?: string[];
+}
+
+export type UpdateStoreLayoutInput = Partial<Pick<SavedStoreLayout, 'store_name' | 'aisle_order'>>;
+
+/** A past shopping list at a store, with the items that were checked off */
+export interface StoreTrip {
+  store: string;
+  items: { name: string; category: string | null; checked_at: string }[];
+}
+
+type TripRow = {
+  store_name: string | null;
+  items: { name: string; category: string | null; checked_at: string | null }[] | null;
+};
+
+/** How far back trips are used to learn aisle order */
+const TRIP_HISTORY_MONTHS = 6;
+
+const LAYOUT_COLUMNS = 'id, space_id, store_name, aisle_order, created_by, created_at, updated_at';
+
+const getSupabaseClient = (supabase?: SupabaseClient) => supabase ?? createClient();
+
+/**
+ * Store Layouts Service
+ *
+ * Manages the stores a space shops at and the aisle order shopping lists are
+ * sorted in, and loads past trips so the order can be learned.
+ */
+export const storeLayoutsService = {
+  /**
+   * Retrieves a space's saved store layouts, alphabetically.
+   * @param spaceId - The space identifier
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @returns Saved store layouts
+   * @throws Error if database query fails
+   */
+  async getLayouts(spaceId: string, supabaseClient?: SupabaseClient): Promise<SavedStoreLayout[]> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const { data, error } = await supabase
+      .from('store_layouts')
+      .select(LAYOUT_COLUMNS)
+      .eq('space_id', spaceId)
+      .order('store_name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Saves a store layout.
+   * @param input - Space, store name and optional aisle order
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @returns The new layout
+   * @throws Error if database insert fails (including a duplicate name)
+   */
+  async createLayout(input: CreateStoreLayoutInput, supabaseClient?: SupabaseClient): Promise<SavedStoreLayout> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const { data: { user } } = await supabase.auth.getUser();
+    const { data, error } = await supabase
+      .from('store_layouts')
+      .insert([{
+        space_id: input.space_id,
+        store_name: input.store_name.trim(),
+        aisle_order: input.aisle_order ?? [],
+        created_by: user?.id ?? null,
+      }])
+      .select(LAYOUT_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Renames a store or changes its aisle order.
+   * @param id - The layout identifier
+   * @param updates - New name and/or aisle order (empty to use the learned order)
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @returns The updated layout
+   * @throws Error if database update fails
+   */
+  async updateLayout(id: string, updates: UpdateStoreLayoutInput, supabaseClient?: SupabaseClient): Promise<SavedStoreLayout> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const { data, error } = await supabase
+      .from('store_layouts')
+      .update(updates.store_name !== undefined ? { ...updates, store_name: updates.store_name.trim() } : updates)
+      .eq('id', id)
+      .select(LAYOUT_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Deletes a saved store layout. Lists keep their store name.
+   * @param id - The layout identifier
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @throws Error if database delete fails
+   */
+  async deleteLayout(id: string, supabaseClient?: SupabaseClient): Promise<void> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const { error } = await supabase
+      .from('store_layouts')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Retrieves recent shopping trips: lists with a store set and the items
+   * checked off on them, in the order they were checked.
+   * @param spaceId - The space identifier
+   * @param supabaseClient - Optional Supabase client for server-side usage
+   * @returns Trips from the last six months, newest first
+   * @throws Error if database query fails
+   */
+  async getTrips(spaceId: string, supabaseClient?: SupabaseClient): Promise<StoreTrip[]> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const { data, error } = await supabase
+      .from('shopping_lists')
+      .select('store_name, items:shopping_items(name, category, checked_at)')
+      .eq('space_id', spaceId)
+      .not('store_name', 'is', null)
+      .gte('created_at', subMonths(new Date(), TRIP_HISTORY_MONTHS).toISOString())
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) throw error;
+    return ((data || []) as TripRow[])
+      .filter((row) => row.store_name?.trim())
+      .map((row) => ({
+        store: row.store_name!.trim(),
+        items: (row.items || [])
+          .filter((item): item is StoreTrip['items'][number] => !!item.checked_at)
+          .sort((a, b) => a.checked_at.localeCompare(b.checked_at)),
+      }))
+      .filter((trip) => trip.items.length > 0);
+  },
+};
@@ -1,3 +1,4 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase/client';
 
 interface TaskCalendarEvent {
@@ -9,6 +10,18 @@ interface TaskCalendarEvent {
   updated_at: string;
 }
 
+export interface TaskDueDate {
+  id: string;
+  space_id: string;
+  title: string;
+  description: string | null;
+  due_date: string;
+  status: string;
+  priority: string | null;
+  assigned_to: string | null;
+  updated_at: string;
+}
+
 interface CalendarPreferences {
   auto_sync_tasks: boolean;
   calendar_task_filter?: string;
@@ -53,6 +66,33 @@ export const taskCalendarService = {
     await supabase.from('task_calendar_events').delete().eq('task_id', taskId);
   },
 
+  /**
+   * Open tasks with a due date, optionally only those assigned to one member.
+   * Pass a server client to read tasks outside a browser session (e.g. calendar feeds).
+   */
+  async getTaskDueDates(
+    spaceId: string,
+    options: { assignedTo?: string | null } = {},
+    client?: SupabaseClient
+  ): Promise<TaskDueDate[]> {
+    const supabase = client ?? createClient();
+    let query = supabase
+      .from('tasks')
+      .select('id, space_id, title, description, due_date, status, priority, assigned_to, updated_at')
+      .eq('space_id', spaceId)
+      .not('due_date', 'is', null)
+      .neq('status', 'completed')
+      .order('due_date', { ascending: true });
+
+    if (options.assignedTo) {
+      query = query.eq('assigned_to', options.assignedTo);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  },
+
   async getCalendarPreferences(userId: string): Promise<CalendarPreferences> {
     const supabase = createClient();
     const { data, error } = await supabase.from('users').select('show_tasks_on_calendar, calendar_task_filter').eq('id', userId).single();
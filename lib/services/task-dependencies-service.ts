@@ -1,4 +1,6 @@
 import { createClient } from '@/lib/supabase/client';
+import { taskTimeTrackingService } from './task-time-tracking-service';
+import type { SupabaseClient } from '@supabase/supabase-js';
 
 /**
  * Task Dependencies Service
@@ -7,6 +9,11 @@ import { createClient } from '@/lib/supabase/client';
  * and task blocking functionality. Supports both blocking dependencies
  * (task A must complete before task B) and relation links (related tasks).
  *
+ * Blocking dependencies are checked for cycles before they are stored, and a
+ * space's dependencies can be analysed as a graph with critical path and
+ * slack. Moving tasks between 'pending' and 'blocked' and notifying assignees
+ * when a task is unblocked happens in the database (refresh_task_blocked_state).
+ *
  * @module taskDependenciesService
  */
 
@@ -20,6 +27,212 @@ type TaskDependency = {
   depends_on_task?: Record<string, unknown>;
 };
 
+export type DependencyEdge = Pick<TaskDependency, 'task_id' | 'depends_on_task_id' | 'dependency_type'> & { id?: string };
+
+/** Task fields needed to schedule a dependency graph. */
+export interface DependencyGraphTask {
+  id: string;
+  title: string;
+  status: string;
+  assigned_to: string | null;
+  due_date: string | null;
+  estimated_hours: number | null;
+  estimated_duration: number | null;
+}
+
+/** Minutes are measured from the time the graph was computed. */
+export interface TaskSchedule {
+  earliestStart: string;
+  earliestFinish: string;
+  latestStart: string;
+  latestFinish: string;
+  slackMinutes: number;
+  isCritical: boolean;
+}
+
+export interface DependencyGraphNode {
+  id: string;
+  title: string;
+  status: string;
+  assigned_to: string | null;
+  due_date: string | null;
+  estimatedMinutes: number | null;
+  trackedMinutes: number;
+  remainingMinutes: number;
+  isBlocked: boolean;
+  /** null for tasks caught in a dependency cycle (possible in data stored before cycle checks) */
+  schedule: TaskSchedule | null;
+}
+
+export interface DependencyGraph {
+  nodes: DependencyGraphNode[];
+  edges: DependencyEdge[];
+  /** Task IDs from first to last along the chain with the least slack */
+  criticalPath: string[];
+  projectedFinish: string | null;
+  cycleTaskIds: string[];
+}
+
+/** Thrown when a blocking dependency would make a task wait on itself. */
+export class DependencyCycleError extends Error {
+  /**
+   * @param cyclePath - Task IDs around the loop, starting and ending with the
+   * dependent task; empty when the database rejected the insert
+   */
+  constructor(public readonly cyclePath: string[]) {
+    super('Adding this dependency would create a circular dependency');
+    this.name = 'DependencyCycleError';
+  }
+}
+
+/** Remaining work assumed for incomplete tasks with no estimate. */
+export const DEFAULT_TASK_MINUTES = 60;
+
+const GRAPH_TASK_COLUMNS = 'id, title, status, assigned_to, due_date, estimated_hours, estimated_duration';
+
+const getSupabaseClient = (supabase?: SupabaseClient) => supabase ?? createClient();
+
+function estimateMinutes(task: DependencyGraphTask): number | null {
+  if (task.estimated_hours != null) return Math.round(Number(task.estimated_hours) * 60);
+  if (task.estimated_duration != null) return task.estimated_duration;
+  return null;
+}
+
+/** Due dates are whole days, so a task is on time until the end of that day (UTC). */
+function deadlineMinutes(dueDate: string | null, now: Date): number {
+  if (!dueDate) return Infinity;
+  const deadline = new Date(dueDate.length === 10 ? `${dueDate}T23:59:59.999Z` : dueDate);
+  if (isNaN(deadline.getTime())) return Infinity;
+  return Math.floor((deadline.getTime() - now.getTime()) / 60000);
+}
+
+/**
+ * Schedules a set of tasks with the critical path method.
+ *
+ * Only blocking dependencies between the given tasks are scheduled on. Each
+ * incomplete task needs its estimate (estimated_hours, then
+ * estimated_duration, then DEFAULT_TASK_MINUTES) minus the time already
+ * tracked; completed tasks need nothing. Durations are elapsed time with no
+ * working-hours calendar. Latest finish times come from due dates and from
+ * the latest starts of dependent tasks; tasks with neither must finish by the
+ * projected finish of the whole graph. Slack is latest minus earliest finish
+ * and goes negative for tasks that cannot meet their due date.
+ */
+export function analyzeDependencyGraph(
+  tasks: DependencyGraphTask[],
+  edges: DependencyEdge[],
+  trackedMinutes: Record<string, number> = {},
+  now: Date = new Date()
+): DependencyGraph {
+  const taskIds = new Set(tasks.map(t => t.id));
+  const blocking = edges.filter(e =>
+    e.dependency_type === 'blocks' && taskIds.has(e.task_id) && taskIds.has(e.depends_on_task_id)
+  );
+
+  const predecessors = new Map<string, string[]>(tasks.map(t => [t.id, []]));
+  const successors = new Map<string, string[]>(tasks.map(t => [t.id, []]));
+  for (const edge of blocking) {
+    predecessors.get(edge.task_id)!.push(edge.depends_on_task_id);
+    successors.get(edge.depends_on_task_id)!.push(edge.task_id);
+  }
+
+  const remaining = new Map<string, number>();
+  for (const task of tasks) {
+    const estimate = estimateMinutes(task);
+    const tracked = trackedMinutes[task.id] ?? 0;
+    remaining.set(
+      task.id,
+      task.status === 'completed' ? 0 : estimate === null ? DEFAULT_TASK_MINUTES : Math.max(estimate - tracked, 0)
+    );
+  }
+
+  // Kahn's algorithm; whatever is left over sits on a cycle
+  const inDegree = new Map(tasks.map(t => [t.id, predecessors.get(t.id)!.length]));
+  const order: string[] = [];
+  const queue = tasks.filter(t => inDegree.get(t.id) === 0).map(t => t.id);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const next of successors.get(id)!) {
+      inDegree.set(next, inDegree.get(next)! - 1);
+      if (inDegree.get(next) === 0) queue.push(next);
+    }
+  }
+  const scheduled = new Set(order);
+  const cycleTaskIds = tasks.filter(t => !scheduled.has(t.id)).map(t => t.id);
+
+  // Forward pass
+  const earliestStart = new Map<string, number>();
+  const earliestFinish = new Map<string, number>();
+  for (const id of order) {
+    const start = Math.max(0, ...predecessors.get(id)!.map(p => earliestFinish.get(p)!));
+    earliestStart.set(id, start);
+    earliestFinish.set(id, start + remaining.get(id)!);
+  }
+  const projectEnd = Math.max(0, ...order.map(id => earliestFinish.get(id)!));
+
+  // Backward pass
+  const dueById = new Map(tasks.map(t => [t.id, deadlineMinutes(t.due_date, now)]));
+  const latestFinish = new Map<string, number>();
+  for (const id of [...order].reverse()) {
+    const bound = Math.min(
+      dueById.get(id)!,
+      ...successors.get(id)!.map(s => latestFinish.get(s)! - remaining.get(s)!)
+    );
+    latestFinish.set(id, bound === Infinity ? projectEnd : bound);
+  }
+
+  const slack = new Map(order.map(id => [id, latestFinish.get(id)! - earliestFinish.get(id)!]));
+  const statusById = new Map(tasks.map(t => [t.id, t.status]));
+  const open = order.filter(id => statusById.get(id) !== 'completed');
+  const minSlack = open.length > 0 ? Math.min(...open.map(id => slack.get(id)!)) : null;
+  const critical = new Set(open.filter(id => slack.get(id) === minSlack));
+
+  // Walk the critical tasks from a start with no critical predecessor
+  const criticalPath: string[] = [];
+  let current = order.find(id => critical.has(id) && !predecessors.get(id)!.some(p => critical.has(p)));
+  while (current) {
+    criticalPath.push(current);
+    const finish = earliestFinish.get(current)!;
+    const next = successors.get(current)!;
+    current = order.find(id => critical.has(id) && next.includes(id) && earliestStart.get(id) === finish);
+  }
+
+  const at = (minutes: number) => new Date(now.getTime() + minutes * 60000).toISOString();
+  const incompleteBlockers = (id: string) =>
+    predecessors.get(id)!.some(p => statusById.get(p) !== 'completed');
+
+  const nodes: DependencyGraphNode[] = tasks.map(task => ({
+    id: task.id,
+    title: task.title,
+    status: task.status,
+    assigned_to: task.assigned_to,
+    due_date: task.due_date,
+    estimatedMinutes: estimateMinutes(task),
+    trackedMinutes: trackedMinutes[task.id] ?? 0,
+    remainingMinutes: remaining.get(task.id)!,
+    isBlocked: incompleteBlockers(task.id),
+    schedule: scheduled.has(task.id)
+      ? {
+          earliestStart: at(earliestStart.get(task.id)!),
+          earliestFinish: at(earliestFinish.get(task.id)!),
+          latestStart: at(latestFinish.get(task.id)! - remaining.get(task.id)!),
+          latestFinish: at(latestFinish.get(task.id)!),
+          slackMinutes: slack.get(task.id)!,
+          isCritical: critical.has(task.id),
+        }
+      : null,
+  }));
+
+  return {
+    nodes,
+    edges,
+    criticalPath,
+    projectedFinish: order.length > 0 ? at(projectEnd) : null,
+    cycleTaskIds,
+  };
+}
+
 /** Service for managing task dependency relationships (blocking and related-to links). */
 export const taskDependenciesService = {
   /**
@@ -29,17 +242,70 @@ export const taskDependenciesService = {
    * @param userId - The ID of the user creating the dependency
    * @param type - The dependency type: 'blocks' (default) or 'relates_to'
    * @returns The created dependency record
+   * @throws DependencyCycleError if a blocking dependency would create a cycle
    * @throws Error if the database insert fails
    */
-  async addDependency(taskId: string, dependsOnTaskId: string, userId: string, type: 'blocks' | 'relates_to' = 'blocks'): Promise<TaskDependency> {
-    const supabase = createClient();
+  async addDependency(
+    taskId: string,
+    dependsOnTaskId: string,
+    userId: string,
+    type: 'blocks' | 'relates_to' = 'blocks',
+    supabaseClient?: SupabaseClient
+  ): Promise<TaskDependency> {
+    const supabase = getSupabaseClient(supabaseClient);
+    if (type === 'blocks') {
+      const cycle = await this.findCycle(taskId, dependsOnTaskId, supabase);
+      if (cycle) throw new DependencyCycleError(cycle);
+    }
+
     const { data, error } = await supabase.from('task_dependencies').insert({
       task_id: taskId, depends_on_task_id: dependsOnTaskId, dependency_type: type, created_by: userId
     }).select().single();
-    if (error) throw error;
+    if (error) {
+      // Another insert can close the loop between our check and this one
+      if (error.message?.includes('Circular dependency')) throw new DependencyCycleError([]);
+      throw error;
+    }
     return data;
   },
 
+  /**
+   * Checks whether making `taskId` wait on `dependsOnTaskId` would close a
+   * loop of blocking dependencies, walking upstream from `dependsOnTaskId`.
+   * @returns The loop as task IDs, starting and ending with `taskId`, or null
+   * @throws Error if a database query fails
+   */
+  async findCycle(taskId: string, dependsOnTaskId: string, supabaseClient?: SupabaseClient): Promise<string[] | null> {
+    if (taskId === dependsOnTaskId) return [taskId, taskId];
+
+    const supabase = getSupabaseClient(supabaseClient);
+    const reachedFrom = new Map<string, string | null>([[dependsOnTaskId, null]]);
+    let frontier = [dependsOnTaskId];
+
+    while (frontier.length > 0) {
+      const { data, error } = await supabase
+        .from('task_dependencies')
+        .select('task_id, depends_on_task_id')
+        .in('task_id', frontier)
+        .eq('dependency_type', 'blocks');
+      if (error) throw error;
+
+      const next: string[] = [];
+      for (const edge of data || []) {
+        if (reachedFrom.has(edge.depends_on_task_id)) continue;
+        reachedFrom.set(edge.depends_on_task_id, edge.task_id);
+        if (edge.depends_on_task_id === taskId) {
+          const path: string[] = [];
+          for (let id: string | null = taskId; id; id = reachedFrom.get(id) ?? null) path.unshift(id);
+          return [taskId, ...path];
+        }
+        next.push(edge.depends_on_task_id);
+      }
+      frontier = next;
+    }
+    return null;
+  },
+
   /**
    * Retrieves all dependencies for a task (tasks this task depends on).
    * @param taskId - The ID of the task to get dependencies for
@@ -66,6 +332,67 @@ export const taskDependenciesService = {
     return data || [];
   },
 
+  /**
+   * Builds the dependency graph for a space's linked tasks, with critical
+   * path and slack (see analyzeDependencyGraph). Tasks have no project of
+   * their own, so `rootTaskId` narrows the graph to the tasks connected to
+   * one task, directly or through others.
+   * @param spaceId - The space whose dependencies to load
+   * @param options - rootTaskId to narrow the graph; now to fix the clock
+   * @throws Error if a database query fails
+   */
+  async getDependencyGraph(
+    spaceId: string,
+    options: { rootTaskId?: string; now?: Date } = {},
+    supabaseClient?: SupabaseClient
+  ): Promise<DependencyGraph> {
+    const supabase = getSupabaseClient(supabaseClient);
+    const { data: rows, error } = await supabase
+      .from('task_dependencies')
+      .select('id, task_id, depends_on_task_id, dependency_type, task:task_id!inner(space_id)')
+      .eq('task.space_id', spaceId);
+    if (error) throw error;
+
+    let edges: DependencyEdge[] = (rows || []).map((row: DependencyEdge & { id: string }) => ({
+      id: row.id,
+      task_id: row.task_id,
+      depends_on_task_id: row.depends_on_task_id,
+      dependency_type: row.dependency_type,
+    }));
+
+    if (options.rootTaskId) {
+      const component = new Set([options.rootTaskId]);
+      let grew = true;
+      while (grew) {
+        grew = false;
+        for (const edge of edges) {
+          const hasTask = component.has(edge.task_id);
+          const hasBlocker = component.has(edge.depends_on_task_id);
+          if (hasTask !== hasBlocker) {
+            component.add(edge.task_id).add(edge.depends_on_task_id);
+            grew = true;
+          }
+        }
+      }
+      edges = edges.filter(e => component.has(e.task_id));
+    }
+
+    const taskIds = [...new Set(edges.flatMap(e => [e.task_id, e.depends_on_task_id]))];
+    if (taskIds.length === 0) {
+      return { nodes: [], edges: [], criticalPath: [], projectedFinish: null, cycleTaskIds: [] };
+    }
+
+    const { data: tasks, error: tasksError } = await supabase
+      .from('tasks')
+      .select(GRAPH_TASK_COLUMNS)
+      .eq('space_id', spaceId)
+      .in('id', taskIds);
+    if (tasksError) throw tasksError;
+
+    const tracked = await taskTimeTrackingService.getTotalDurations(taskIds, supabase);
+    return analyzeDependencyGraph(tasks || [], edges, tracked, options.now);
+  },
+
   /**
    * Removes a dependency relationship between tasks.
    * @param dependencyId - The ID of the dependency record to remove
@@ -1,6 +1,13 @@
 import { createClient } from '@/lib/supabase/client';
 import type { Task } from '@/lib/types';
 import { logger } from '@/lib/logger';
+import {
+  fromLegacyPattern,
+  nextOccurrence,
+  occurrenceDateKey,
+  parseStoredRecurrence,
+  type ParsedRecurrence,
+} from './recurrence';
 
 /**
  * Task Recurrence Service
@@ -17,6 +24,7 @@ export interface RecurrencePattern {
   end_date?: string;
   end_count?: number;
   exceptions?: string[]; // ISO date strings to skip
+  recurrence_rule?: string | null; // iCalendar RRULE/RDATE/EXDATE lines; overrides the fields above
 }
 
 export interface RecurringTaskInput {
@@ -54,6 +62,7 @@ export const taskRecurrenceService = {
           recurrence_end_date: recurrence.end_date,
           recurrence_end_count: recurrence.end_count,
           recurrence_exceptions: recurrence.exceptions || [],
+          recurrence_rule: recurrence.recurrence_rule ?? null,
         })
         .select()
         .single();
@@ -117,7 +126,7 @@ export const taskRecurrenceService = {
     try {
       const { data, error } = await supabase
         .from('tasks')
-        .select('id, space_id, title, description, category, priority, status, due_date, assigned_to, created_by, estimated_hours, calendar_sync, quick_note, tags, color, sort_order, archived, archived_at, is_snoozed, snoozed_until, snoozed_by, snooze_count, is_recurring, recurrence_pattern, recurrence_interval, recurrence_days_of_week, recurrence_day_of_month, recurrence_month, recurrence_end_date, recurrence_end_count, parent_recurrence_id, is_recurrence_template, recurrence_exceptions, recurrence_metadata, created_at, updated_at, completed_at')
+        .select('id, space_id, title, description, category, priority, status, due_date, assigned_to, created_by, estimated_hours, calendar_sync, quick_note, tags, color, sort_order, archived, archived_at, is_snoozed, snoozed_until, snoozed_by, snooze_count, is_recurring, recurrence_pattern, recurrence_interval, recurrence_days_of_week, recurrence_day_of_month, recurrence_month, recurrence_end_date, recurrence_end_count, parent_recurrence_id, is_recurrence_template, recurrence_exceptions, recurrence_rule, recurrence_metadata, created_at, updated_at, completed_at')
         .eq('space_id', spaceId)
         .eq('is_recurrence_template', true)
         .order('created_at', { ascending: false });
@@ -138,7 +147,7 @@ export const taskRecurrenceService = {
     try {
       const { data, error } = await supabase
         .from('tasks')
-        .select('id, space_id, title, description, category, priority, status, due_date, assigned_to, created_by, estimated_hours, calendar_sync, quick_note, tags, color, sort_order, archived, archived_at, is_snoozed, snoozed_until, snoozed_by, snooze_count, is_recurring, recurrence_pattern, recurrence_interval, recurrence_days_of_week, recurrence_day_of_month, recurrence_month, recurrence_end_date, recurrence_end_count, parent_recurrence_id, is_recurrence_template, recurrence_exceptions, recurrence_metadata, created_at, updated_at, completed_at')
+        .select('id, space_id, title, description, category, priority, status, due_date, assigned_to, created_by, estimated_hours, calendar_sync, quick_note, tags, color, sort_order, archived, archived_at, is_snoozed, snoozed_until, snoozed_by, snooze_count, is_recurring, recurrence_pattern, recurrence_interval, recurrence_days_of_week, recurrence_day_of_month, recurrence_month, recurrence_end_date, recurrence_end_count, parent_recurrence_id, is_recurrence_template, recurrence_exceptions, recurrence_rule, recurrence_metadata, created_at, updated_at, completed_at')
         .eq('parent_recurrence_id', templateId)
         .order('due_date', { ascending: true });
 
@@ -169,6 +178,7 @@ export const taskRecurrenceService = {
         finalUpdates.recurrence_end_date = recurrence.end_date;
         finalUpdates.recurrence_end_count = recurrence.end_count;
         finalUpdates.recurrence_exceptions = recurrence.exceptions || [];
+        finalUpdates.recurrence_rule = recurrence.recurrence_rule ?? null;
       }
 
       const { data, error } = await supabase
@@ -216,64 +226,41 @@ export const taskRecurrenceService = {
   },
 
   /**
-   * Calculate next due date based on recurrence pattern
+   * Calculate next due date based on recurrence pattern.
+   * An iCalendar rule in recurrence_rule takes precedence over the legacy fields.
+   * @param lastDate - Due date of the latest instance (YYYY-MM-DD)
+   * @param pattern - The template's recurrence
+   * @param seriesStart - First date of the series; anchors COUNT and intervals when given
+   * @returns The next due date (YYYY-MM-DD), or null if the series has ended
    */
-  calculateNextDueDate(lastDate: string, pattern: RecurrencePattern): string | null {
-    const last = new Date(lastDate);
-    let next: Date;
-
-    switch (pattern.pattern) {
-      case 'daily':
-        next = new Date(last);
-        next.setDate(last.getDate() + pattern.interval);
-        break;
-
-      case 'weekly':
-        next = new Date(last);
-        next.setDate(last.getDate() + (7 * pattern.interval));
-        break;
-
-      case 'biweekly':
-        next = new Date(last);
-        next.setDate(last.getDate() + (14 * pattern.interval)); // 2 weeks
-        break;
-
-      case 'monthly':
-        next = new Date(last);
-        next.setMonth(last.getMonth() + pattern.interval);
-        // Handle day of month
-        if (pattern.day_of_month) {
-          next.setDate(Math.min(pattern.day_of_month, new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate()));
-        }
-        break;
-
-      case 'yearly':
-        next = new Date(last);
-        next.setFullYear(last.getFullYear() + pattern.interval);
-        if (pattern.month) {
-          next.setMonth(pattern.month - 1);
-        }
-        if (pattern.day_of_month) {
-          next.setDate(pattern.day_of_month);
-        }
-        break;
-
-      default:
-        return null;
-    }
-
-    // Check end conditions
-    if (pattern.end_date && next > new Date(pattern.end_date)) {
+  calculateNextDueDate(lastDate: string, pattern: RecurrencePattern, seriesStart?: string): string | null {
+    let recurrence: ParsedRecurrence | null;
+    try {
+      recurrence = pattern.recurrence_rule
+        ? parseStoredRecurrence(pattern.recurrence_rule)
+        : fromLegacyPattern(pattern);
+    } catch (error) {
+      logger.error('Invalid task recurrence rule:', error, { component: 'lib-task-recurrence-service', action: 'service_call' });
       return null;
     }
 
-    // Check exceptions
-    const nextDateStr = next.toISOString().split('T')[0];
-    if (pattern.exceptions && pattern.exceptions.includes(nextDateStr)) {
-      // Skip this date and calculate next
-      return this.calculateNextDueDate(nextDateStr, pattern);
+    if (!recurrence?.rrule) return null;
+
+    // Without the series start, COUNT cannot be related to lastDate
+    if (!seriesStart) {
+      recurrence.rrule.count = undefined;
     }
 
-    return nextDateStr;
+    const last = new Date(`${lastDate.substring(0, 10)}T00:00:00Z`);
+    const next = nextOccurrence(
+      {
+        ...recurrence,
+        dtstart: new Date(`${(seriesStart ?? lastDate).substring(0, 10)}T00:00:00Z`),
+        allDay: true,
+      },
+      last
+    );
+
+    return next ? occurrenceDateKey(next, null, true) : null;
   },
 };
@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/client';
 import { logger } from '@/lib/logger';
+import type { SupabaseClient } from '@supabase/supabase-js';
 
 /**
  * Task Time Tracking Service
@@ -197,6 +198,32 @@ export const taskTimeTrackingService = {
     return entries.reduce((total, entry) => total + (entry.duration || 0), 0);
   },
 
+  /**
+   * Get total finished time tracked per task, in minutes. Tasks without
+   * entries are left out; running timers are not counted.
+   */
+  async getTotalDurations(taskIds: string[], supabaseClient?: SupabaseClient): Promise<Record<string, number>> {
+    if (taskIds.length === 0) return {};
+    const supabase = supabaseClient ?? createClient();
+    try {
+      const { data, error } = await supabase
+        .from('task_time_entries')
+        .select('task_id, duration')
+        .in('task_id', taskIds)
+        .not('duration', 'is', null);
+
+      if (error) throw error;
+      const totals: Record<string, number> = {};
+      for (const entry of data || []) {
+        totals[entry.task_id] = (totals[entry.task_id] || 0) + (entry.duration || 0);
+      }
+      return totals;
+    } catch (error) {
+      logger.error('Error fetching task durations:', error, { component: 'lib-task-time-tracking-service', action: 'service_call' });
+      throw error;
+    }
+  },
+
   /**
    * Get time entries for a user within a date range
    */
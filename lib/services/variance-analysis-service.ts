@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/client';
 import { startOfMonth, endOfMonth, subMonths, format } from 'date-fns';
+import { getCurrencyConverter, sumInBaseCurrency, type CurrencyConverter } from './currency-service';
 
 // ==================== TYPES ====================
 
@@ -19,6 +20,8 @@ export interface MonthlyVariance {
   total_actual: number;
   total_variance: number;
   variance_percentage: number;
+  currency: string; // Space base currency all amounts are expressed in
+  unconverted_currencies: string[]; // Currencies left out of the totals for lack of an exchange rate
   categories: BudgetVariance[];
 }
 
@@ -52,21 +55,24 @@ function getVarianceStatus(
 }
 
 /**
- * Calculates budget variance for a specific category
+ * Calculates budget variance for a specific category.
+ * Expenses are converted into the space base currency before summing;
+ * those with no exchange rate are left out and their currencies returned.
  */
 async function calculateCategoryVariance(
   spaceId: string,
   category: string,
   budgetAmount: number,
   startDate: Date,
-  endDate: Date
-): Promise<BudgetVariance> {
+  endDate: Date,
+  converter: CurrencyConverter
+): Promise<{ variance: BudgetVariance; unconverted: string[] }> {
   const supabase = createClient();
 
   // Get actual expenses for the category
   const { data: expenses, error } = await supabase
     .from('expenses')
-    .select('amount')
+    .select('amount, currency, date')
     .eq('space_id', spaceId)
     .eq('category', category)
     .gte('date', format(startDate, 'yyyy-MM-dd'))
@@ -74,19 +80,23 @@ async function calculateCategoryVariance(
 
   if (error) throw error;
 
-  const actualAmount = expenses?.reduce((sum: number, exp: { amount: number }) => sum + parseFloat(exp.amount.toString()), 0) || 0;
+  const actual = sumInBaseCurrency(converter, expenses || []);
+  const actualAmount = actual.total;
   const variance = actualAmount - budgetAmount;
   const variancePercentage = budgetAmount > 0 ? (variance / budgetAmount) * 100 : 0;
   const { status, color } = getVarianceStatus(variancePercentage);
 
   return {
-    category,
-    budgeted_amount: budgetAmount,
-    actual_amount: actualAmount,
-    variance,
-    variance_percentage: variancePercentage,
-    status,
-    color,
+    variance: {
+      category,
+      budgeted_amount: budgetAmount,
+      actual_amount: actualAmount,
+      variance,
+      variance_percentage: variancePercentage,
+      status,
+      color,
+    },
+    unconverted: actual.unconverted,
   };
 }
 
@@ -110,7 +120,8 @@ export async function getMonthVariance(spaceId: string, date: Date): Promise<Mon
   const monthEnd = endOfMonth(date);
 
   // Get all budget categories for the space
-  // budget_categories stores per-category allocations (category_name, allocated_amount)
+  // budget_categories stores per-category allocations (category_name, allocated_amount),
+  // expressed in the space base currency
   // nosemgrep: supabase-missing-space-id-filter — space_id filter is on next line
   const { data: budgetCategories, error } = await supabase
     .from('budget_categories')
@@ -119,6 +130,8 @@ export async function getMonthVariance(spaceId: string, date: Date): Promise<Mon
 
   if (error) throw error;
 
+  const converter = await getCurrencyConverter(spaceId, supabase);
+
   if (!budgetCategories || budgetCategories.length === 0) {
     return {
       month: format(date, 'MMMM yyyy'),
@@ -126,23 +139,29 @@ export async function getMonthVariance(spaceId: string, date: Date): Promise<Mon
       total_actual: 0,
       total_variance: 0,
       variance_percentage: 0,
+      currency: converter.baseCurrency,
+      unconverted_currencies: [],
       categories: [],
     };
   }
 
   // Calculate variance for each category
-  const categoryVariances = await Promise.all(
+  const categoryResults = await Promise.all(
     budgetCategories.map((bc: { category_name: string; allocated_amount: number }) =>
       calculateCategoryVariance(
         spaceId,
         bc.category_name,
         bc.allocated_amount,
         monthStart,
-        monthEnd
+        monthEnd,
+        converter
       )
     )
   );
 
+  const categoryVariances = categoryResults.map((result) => result.variance);
+  const unconvertedCurrencies = Array.from(new Set(categoryResults.flatMap((result) => result.unconverted)));
+
   // Calculate totals
   const totalBudgeted = categoryVariances.reduce((sum, v) => sum + v.budgeted_amount, 0);
   const totalActual = categoryVariances.reduce((sum, v) => sum + v.actual_amount, 0);
@@ -155,6 +174,8 @@ export async function getMonthVariance(spaceId: string, date: Date): Promise<Mon
     total_actual: totalActual,
     total_variance: totalVariance,
     variance_percentage: variancePercentage,
+    currency: converter.baseCurrency,
+    unconverted_currencies: unconvertedCurrencies,
     categories: categoryVariances.sort((a, b) => Math.abs(b.variance) - Math.abs(a.variance)),
   };
 }
@@ -297,6 +318,8 @@ export async function getProjectedMonthEndVariance(
     total_actual: projectedTotalActual,
     total_variance: projectedTotalVariance,
     variance_percentage: projectedPercentage,
+    currency: currentVariance.currency,
+    unconverted_currencies: currentVariance.unconverted_currencies,
     categories: projectedCategories,
   };
 }
@@ -259,6 +259,7 @@ export interface Task {
   parent_recurrence_id?: string;
   is_recurrence_template?: boolean;
   recurrence_exceptions?: string[];
+  recurrence_rule?: string | null; // iCalendar RRULE/RDATE/EXDATE lines
   recurrence_metadata?: Record<string, unknown>;
   created_at: string;
   updated_at: string;
@@ -428,6 +429,7 @@ export interface Chore {
   title: string;
   description?: string;
   frequency: 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'once';
+  recurrence_rule?: string | null; // iCalendar RRULE/RDATE/EXDATE lines; overrides frequency
   assigned_to?: string;
   status: 'pending' | 'in-progress' | 'blocked' | 'on-hold' | 'completed';
   due_date?: string;
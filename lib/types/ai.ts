@@ -2,7 +2,7 @@
  * AI Companion Database Types
  *
  * Maps to the ai_conversations, ai_messages, ai_user_settings,
- * and ai_usage_daily tables. Used by the persistence service layer.
+ * ai_usage_daily and ai_memories tables. Used by the persistence service layer.
  *
  * NOTE: Streaming/event types remain in lib/types/chat.ts
  */
@@ -140,12 +140,106 @@ export interface AIUserSettingsUpdate {
   ai_onboarding_seen?: boolean;
 }
 
+// =============================================
+// AI Memories
+// =============================================
+
+/** Kinds of household facts the assistant remembers */
+export const MEMORY_CATEGORIES = ['dietary', 'allergy', 'preference', 'schedule', 'household', 'other'] as const;
+export type MemoryCategory = (typeof MEMORY_CATEGORIES)[number];
+
+/** 'proposed' memories were extracted from a chat and await approval */
+export type MemoryStatus = 'active' | 'proposed';
+
+/** Row from ai_memories table */
+export interface AIMemory {
+  id: string;
+  space_id: string;
+  created_by: string | null;
+  subject_user_id: string | null;
+  category: MemoryCategory;
+  content: string;
+  status: MemoryStatus;
+  source: 'user' | 'chat';
+  source_conversation_id: string | null;
+  approved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// =============================================
+// AI Routines
+// =============================================
+
+/** 'pending_review' runs hold a draft; 'no_changes' runs proposed nothing */
+export type RoutineRunStatus =
+  | 'pending_review'
+  | 'no_changes'
+  | 'applying'
+  | 'applied'
+  | 'partially_applied'
+  | 'rejected'
+  | 'failed';
+
+/** Row from ai_routines table */
+export interface AIRoutine {
+  id: string;
+  space_id: string;
+  created_by: string;
+  name: string;
+  instructions: string;
+  /** RFC 5545 RRULE value, e.g. FREQ=WEEKLY;BYDAY=SU */
+  rrule: string;
+  dtstart: string;
+  timezone: string;
+  enabled: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A write the assistant wants to make, held until the run is approved */
+export interface ProposedAction {
+  /**
+   * Stands in for the id of the row the action creates, so later actions in
+   * the same draft can refer to it (e.g. adding items to a new shopping list)
+   */
+  ref: string;
+  toolName: string;
+  parameters: Record<string, unknown>;
+  description: string;
+}
+
+/** Outcome of one proposed action after approval */
+export interface AppliedActionResult {
+  ref: string;
+  toolName: string;
+  success: boolean;
+  message: string;
+}
+
+/** Row from ai_routine_runs table */
+export interface AIRoutineRun {
+  id: string;
+  routine_id: string;
+  space_id: string;
+  status: RoutineRunStatus;
+  summary: string | null;
+  proposed_actions: ProposedAction[];
+  results: AppliedActionResult[] | null;
+  error: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
 // =============================================
 // AI Usage (Daily Aggregates)
 // =============================================
 
 /** Valid AI feature source identifiers */
-export type AIFeatureSource = 'chat' | 'briefing' | 'suggestions' | 'event_parser' | 'digest' | 'ocr' | 'recipe_parse';
+export type AIFeatureSource = 'chat' | 'briefing' | 'suggestions' | 'event_parser' | 'digest' | 'ocr' | 'recipe_parse' | 'routine';
 
 /** Row from ai_usage_daily table */
 export interface AIUsageDaily {
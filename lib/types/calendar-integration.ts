@@ -301,6 +301,8 @@ export interface ParsedICalEvent {
   dtend?: string;
   dtstamp: string;
   rrule?: string;
+  rdate?: string[]; // Full RDATE content lines, parameters included
+  exdate?: string[]; // Full EXDATE content lines, parameters included
   recurrenceId?: string;
   status?: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
   organizer?: string;
@@ -476,6 +478,8 @@ export interface ICSFeedEvent {
   dtend?: string;
   dtstamp: string;
   rrule?: string;
+  rdate?: string[]; // Full RDATE content lines, parameters included
+  exdate?: string[]; // Full EXDATE content lines, parameters included
   recurrenceId?: string;
   status?: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
   categories?: string[];
@@ -650,3 +654,23 @@ export interface WebhookRenewalResult {
   new_expiration?: string;
   error?: string;
 }
+
+// =============================================================================
+// CALENDAR FEEDS (ICS EXPORT)
+// =============================================================================
+
+export type CalendarFeedDomain = 'events' | 'chores' | 'bills' | 'tasks';
+
+export interface CalendarFeed {
+  id: string;
+  space_id: string;
+  created_by: string;
+  member_id: string | null;
+  name: string;
+  token: string;
+  domains: CalendarFeedDomain[];
+  revoked_at: string | null;
+  last_accessed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -7,7 +7,7 @@
 export type ChatRole = 'user' | 'assistant' | 'system';
 
 // The types of events that can stream from the server
-export type ChatStreamEventType = 'text' | 'tool_call' | 'result' | 'error' | 'done' | 'conversation_id';
+export type ChatStreamEventType = 'text' | 'tool_call' | 'result' | 'error' | 'done' | 'conversation_id' | 'turn_id';
 
 // A single streamed event from the server
 export interface ChatStreamEvent {
@@ -84,6 +84,10 @@ export interface ChatMessage {
   isStreaming?: boolean;
   // User feedback on assistant messages
   feedback?: 'positive' | 'negative' | null;
+  // Chat turn this assistant reply belongs to; its actions can be undone together
+  turnId?: string;
+  // The actions of this turn have been undone
+  undone?: boolean;
 }
 
 // A conversation session
@@ -113,6 +117,13 @@ export interface ChatState {
   lastToolAction: number;
 }
 
+// Response from POST /api/ai/undo
+export interface UndoResponse {
+  turnId: string;
+  turnFullyUndone: boolean;
+  message: string;
+}
+
 // Space member info passed to AI for context
 export interface ChatSpaceMember {
   id: string;
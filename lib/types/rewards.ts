@@ -29,7 +29,8 @@ export type PointSourceType =
   | 'perfect_week'
   | 'redemption'
   | 'adjustment'
-  | 'bonus';
+  | 'bonus'
+  | 'trade_bounty';
 
 export interface PointTransaction {
   id: string;
@@ -215,6 +216,9 @@ export const POINTS_CONFIG = {
 
   // Streak thresholds for celebrations
   STREAK_MILESTONES: [3, 7, 14, 30, 60, 100],
+
+  // Largest bounty a member can attach to a chore or task trade
+  MAX_TRADE_BOUNTY: 500,
 } as const;
 
 // =============================================================================
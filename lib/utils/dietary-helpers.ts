@@ -0,0 +1,86 @@
+import { tagIngredient, type Allergen, type IngredientTag, type RecipeIngredient } from '@/lib/services/ingredient-parser';
+import { DIETS, type Diet, type MemberDietaryProfile } from '@/lib/services/dietary-profile-service';
+
+/** What each diet rules out */
+const DIET_EXCLUSIONS: Record<Diet, IngredientTag[]> = {
+  vegetarian: ['meat', 'fish', 'shellfish'],
+  vegan: ['meat', 'fish', 'shellfish', 'dairy', 'egg', 'animal_product'],
+  pescatarian: ['meat'],
+  halal: ['pork', 'alcohol'],
+  kosher: ['pork', 'shellfish'],
+  gluten_free: ['gluten'],
+  dairy_free: ['dairy'],
+  low_sodium: ['high_sodium'],
+};
+
+export interface DietaryConflict {
+  user_id: string;
+  member_name: string;
+  kind: 'allergy' | 'intolerance' | 'diet';
+  /** The allergen or diet the recipe breaks */
+  restriction: Allergen | Diet;
+  /** Ingredients responsible, as written in the recipe */
+  ingredients: string[];
+}
+
+function ingredientText(ingredient: RecipeIngredient): string {
+  return typeof ingredient === 'string' ? ingredient : ingredient.name;
+}
+
+/**
+ * Check a recipe's ingredients against household dietary profiles
+ * Allergies and intolerances conflict with any ingredient carrying the
+ * allergen; diets with anything they rule out. Kosher also rules out meat
+ * cooked with dairy.
+ */
+export function findDietaryConflicts(
+  ingredients: RecipeIngredient[],
+  profiles: MemberDietaryProfile[]
+): DietaryConflict[] {
+  const tagged = ingredients
+    .map((ingredient) => ({ text: ingredientText(ingredient), tags: tagIngredient(ingredientText(ingredient)) }))
+    .filter(({ text, tags }) => text && tags.length > 0);
+  if (tagged.length === 0) return [];
+
+  const matching = (tags: IngredientTag[]) =>
+    tagged.filter((ingredient) => ingredient.tags.some((tag) => tags.includes(tag))).map(({ text }) => text);
+
+  const conflicts: DietaryConflict[] = [];
+  for (const profile of profiles) {
+    const add = (kind: DietaryConflict['kind'], restriction: Allergen | Diet, found: string[]) => {
+      if (found.length > 0) {
+        conflicts.push({ user_id: profile.user_id, member_name: profile.name, kind, restriction, ingredients: found });
+      }
+    };
+
+    for (const allergen of profile.allergies) add('allergy', allergen, matching([allergen]));
+    for (const allergen of profile.intolerances) add('intolerance', allergen, matching([allergen]));
+    for (const diet of profile.diets) {
+      let found = matching(DIET_EXCLUSIONS[diet] ?? []);
+      if (diet === 'kosher' && found.length === 0 && matching(['meat']).length > 0) {
+        found = matching(['dairy']);
+      }
+      add('diet', diet, found);
+    }
+  }
+  return conflicts;
+}
+
+/** "Sam: peanut allergy (2 tbsp peanut butter)", "Alex: not vegetarian (chicken stock)" */
+export function formatDietaryConflict(conflict: DietaryConflict): string {
+  const ingredients = conflict.ingredients.slice(0, 3).join(', ');
+  if (conflict.kind === 'diet') {
+    const diet = DIETS.find((d) => d.value === conflict.restriction)?.label ?? conflict.restriction;
+    return `${conflict.member_name}: not ${diet.toLowerCase()} (${ingredients})`;
+  }
+  return `${conflict.member_name}: ${conflict.restriction.replace('_', ' ')} ${conflict.kind} (${ingredients})`;
+}
+
+/** Allergy conflicts first, then intolerances, then diets */
+export function describeDietaryConflicts(conflicts: DietaryConflict[]): string {
+  const order: Record<DietaryConflict['kind'], number> = { allergy: 0, intolerance: 1, diet: 2 };
+  return [...conflicts]
+    .sort((a, b) => order[a.kind] - order[b.kind])
+    .map(formatDietaryConflict)
+    .join('; ');
+}
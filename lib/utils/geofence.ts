@@ -0,0 +1,203 @@
+import type { FamilyPlace } from '@/lib/services/family-location-service';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/** The area a place covers: a circle around its pin, or a drawn polygon */
+export type GeofenceShape =
+  | { kind: 'circle'; center: GeoPoint; radiusMeters: number }
+  | { kind: 'polygon'; vertices: GeoPoint[] };
+
+/** A place's shape and the hysteresis that stops edge jitter firing events */
+export interface Geofence {
+  shape: GeofenceShape;
+  /** How long a member must stay inside before they have arrived */
+  dwellSeconds: number;
+  /** How far past the edge a member must go before they have left */
+  exitBufferMeters: number;
+}
+
+/** One location fix, as recorded by the member's device */
+export interface GeofenceFix extends GeoPoint {
+  accuracy: number | null;
+  recorded_at: string;
+}
+
+/**
+ * Where a member is relative to one place
+ * 'entering' means inside but not yet for the place's dwell time; `since` is
+ * when the current status began.
+ */
+export interface GeofenceState {
+  status: 'outside' | 'entering' | 'inside';
+  since: string;
+}
+
+export interface GeofenceStep {
+  state: GeofenceState | null;
+  event: 'arrival' | 'departure' | null;
+  /** The fix was too inaccurate or older than the state, and was ignored */
+  rejected: boolean;
+}
+
+const EARTH_RADIUS_METERS = 6371e3;
+
+/**
+ * Calculate distance between two points in meters (Haversine formula)
+ */
+export function calculateDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const phi1 = (lat1 * Math.PI) / 180;
+  const phi2 = (lat2 * Math.PI) / 180;
+  const deltaPhi = ((lat2 - lat1) * Math.PI) / 180;
+  const deltaLambda = ((lon2 - lon1) * Math.PI) / 180;
+
+  const a =
+    Math.sin(deltaPhi / 2) * Math.sin(deltaPhi / 2) +
+    Math.cos(phi1) * Math.cos(phi2) * Math.sin(deltaLambda / 2) * Math.sin(deltaLambda / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return EARTH_RADIUS_METERS * c;
+}
+
+/**
+ * Check if a point is within a geofence radius
+ */
+export function isWithinGeofence(point: GeoPoint, center: GeoPoint, radiusMeters: number): boolean {
+  return calculateDistance(point.latitude, point.longitude, center.latitude, center.longitude) <= radiusMeters;
+}
+
+/** A place's geofence: its polygon when it has one, else the circle around its pin */
+export function toGeofence(
+  place: Pick<FamilyPlace, 'latitude' | 'longitude' | 'radius_meters' | 'boundary' | 'dwell_seconds' | 'exit_buffer_meters'>
+): Geofence {
+  const shape: GeofenceShape = place.boundary && place.boundary.length >= 3
+    ? { kind: 'polygon', vertices: place.boundary }
+    : { kind: 'circle', center: { latitude: place.latitude, longitude: place.longitude }, radiusMeters: place.radius_meters };
+
+  return {
+    shape,
+    dwellSeconds: place.dwell_seconds ?? 0,
+    exitBufferMeters: place.exit_buffer_meters ?? 0,
+  };
+}
+
+/** Project a point to meters east and north of an origin; exact enough at place scale */
+function toLocalMeters(point: GeoPoint, origin: GeoPoint): { x: number; y: number } {
+  const metersPerDegree = (EARTH_RADIUS_METERS * Math.PI) / 180;
+  return {
+    x: (point.longitude - origin.longitude) * metersPerDegree * Math.cos((origin.latitude * Math.PI) / 180),
+    y: (point.latitude - origin.latitude) * metersPerDegree,
+  };
+}
+
+/** Distance in meters from the origin to the segment a-b */
+function distanceToSegment(a: { x: number; y: number }, b: { x: number; y: number }): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+  return Math.hypot(a.x + t * dx, a.y + t * dy);
+}
+
+/**
+ * How far a point is outside a shape's edge, in meters
+ * Negative inside the shape, by the distance to the nearest edge.
+ */
+export function distanceOutside(point: GeoPoint, shape: GeofenceShape): number {
+  if (shape.kind === 'circle') {
+    return calculateDistance(point.latitude, point.longitude, shape.center.latitude, shape.center.longitude) - shape.radiusMeters;
+  }
+
+  // Work in meters around the point, so it sits at the origin
+  const vertices = shape.vertices.map((vertex) => toLocalMeters(vertex, point));
+  let inside = false;
+  let nearest = Infinity;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    // Ray cast along +x from the origin
+    if ((a.y > 0) !== (b.y > 0) && a.x - (a.y * (b.x - a.x)) / (b.y - a.y) > 0) {
+      inside = !inside;
+    }
+    nearest = Math.min(nearest, distanceToSegment(a, b));
+  }
+  return inside ? -nearest : nearest;
+}
+
+/** Check if a point is inside a shape */
+export function isInsideShape(point: GeoPoint, shape: GeofenceShape): boolean {
+  return distanceOutside(point, shape) <= 0;
+}
+
+/** A shape's radius: the circle's, or the farthest a polygon's corner is from its middle */
+export function getShapeRadius(shape: GeofenceShape): number {
+  if (shape.kind === 'circle') return shape.radiusMeters;
+
+  const middle = {
+    latitude: shape.vertices.reduce((sum, vertex) => sum + vertex.latitude, 0) / shape.vertices.length,
+    longitude: shape.vertices.reduce((sum, vertex) => sum + vertex.longitude, 0) / shape.vertices.length,
+  };
+  return Math.max(...shape.vertices.map((vertex) =>
+    calculateDistance(vertex.latitude, vertex.longitude, middle.latitude, middle.longitude)));
+}
+
+/**
+ * Advance a member's state at one place by a location fix
+ *
+ * - Fixes less accurate than the place's radius, or older than the current
+ *   state, are rejected and leave the state alone.
+ * - The first fix only establishes where the member is; it fires nothing.
+ * - Arriving needs a fix inside the place at least `dwellSeconds` after the
+ *   first one; going back past the exit buffer meanwhile cancels it.
+ * - Leaving needs a fix more than `exitBufferMeters` outside the edge, so
+ *   fixes wobbling around the edge neither leave nor re-arrive.
+ *
+ * Deterministic: the same fixes always give the same states and events.
+ */
+export function stepGeofence(state: GeofenceState | null, fence: Geofence, fix: GeofenceFix): GeofenceStep {
+  const time = new Date(fix.recorded_at).getTime();
+  if (state && time < new Date(state.since).getTime()) {
+    return { state, event: null, rejected: true };
+  }
+  if (fix.accuracy != null && fix.accuracy > getShapeRadius(fence.shape)) {
+    return { state, event: null, rejected: true };
+  }
+
+  const distance = distanceOutside(fix, fence.shape);
+  const inside = distance <= 0;
+  const beyondBuffer = distance > fence.exitBufferMeters;
+  const at = fix.recorded_at;
+
+  if (!state) {
+    return { state: { status: inside ? 'inside' : 'outside', since: at }, event: null, rejected: false };
+  }
+
+  switch (state.status) {
+    case 'inside':
+      return beyondBuffer
+        ? { state: { status: 'outside', since: at }, event: 'departure', rejected: false }
+        : { state, event: null, rejected: false };
+
+    case 'entering':
+      if (beyondBuffer) {
+        return { state: { status: 'outside', since: at }, event: null, rejected: false };
+      }
+      if (inside && time - new Date(state.since).getTime() >= fence.dwellSeconds * 1000) {
+        return { state: { status: 'inside', since: at }, event: 'arrival', rejected: false };
+      }
+      return { state, event: null, rejected: false };
+
+    case 'outside':
+      if (!inside) return { state, event: null, rejected: false };
+      return fence.dwellSeconds > 0
+        ? { state: { status: 'entering', since: at }, event: null, rejected: false }
+        : { state: { status: 'inside', since: at }, event: 'arrival', rejected: false };
+  }
+}
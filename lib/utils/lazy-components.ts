@@ -107,6 +107,11 @@ export const LazyScheduleTripModal = dynamic(
   { loading: ModalLoading, ssr: false }
 );
 
+export const LazyStoresModal = dynamic(
+  () => import('@/components/shopping/StoresModal').then(mod => ({ default: mod.StoresModal })),
+  { loading: ModalLoading, ssr: false }
+);
+
 // ============================================
 // HEAVY CHARTS / ANALYTICS
 // ============================================
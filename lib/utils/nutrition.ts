@@ -0,0 +1,197 @@
+/**
+ * Nutrition estimates for recipes and meal plans, worked out offline from the
+ * ingredient table in `@/lib/constants/nutrition-data`.
+ */
+
+import { NUTRITION_FOODS, type NutritionFood } from '@/lib/constants/nutrition-data';
+import { measureIngredient, normalizeIngredientName, type RecipeIngredient } from '@/lib/services/ingredient-parser';
+import type { Meal, Recipe, RecipeNutrition } from '@/lib/services/meals-service';
+import { convertAmount, getIngredientDensity, getUnitDimension } from '@/lib/utils/units';
+
+type NutrientKey = keyof RecipeNutrition;
+
+/** Nutrients in the table's column order, with how to show them */
+export const NUTRIENTS: Array<{ key: NutrientKey; label: string; unit: 'kcal' | 'g' | 'mg' }> = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'protein_g', label: 'Protein', unit: 'g' },
+  { key: 'fat_g', label: 'Fat', unit: 'g' },
+  { key: 'saturated_fat_g', label: 'Saturated fat', unit: 'g' },
+  { key: 'carbohydrate_g', label: 'Carbohydrates', unit: 'g' },
+  { key: 'sugar_g', label: 'Sugar', unit: 'g' },
+  { key: 'fiber_g', label: 'Fiber', unit: 'g' },
+  { key: 'sodium_mg', label: 'Sodium', unit: 'mg' },
+  { key: 'cholesterol_mg', label: 'Cholesterol', unit: 'mg' },
+  { key: 'calcium_mg', label: 'Calcium', unit: 'mg' },
+  { key: 'iron_mg', label: 'Iron', unit: 'mg' },
+  { key: 'potassium_mg', label: 'Potassium', unit: 'mg' },
+  { key: 'vitamin_c_mg', label: 'Vitamin C', unit: 'mg' },
+];
+
+export interface NutritionEstimate {
+  /** Per serving, or for the whole recipe when its servings are unknown */
+  nutrition: RecipeNutrition;
+  /** 'published' when the recipe came with nutrition facts */
+  source: 'published' | 'estimated';
+  servings: number | null;
+  /** Measured ingredients missing from the nutrition table */
+  unmatched: string[];
+}
+
+export interface MemberNutrition {
+  /** Member the meals are assigned to; null for unassigned meals */
+  memberId: string | null;
+  name: string;
+  meals: number;
+  nutrition: RecipeNutrition;
+}
+
+export interface MealPlanNutrition {
+  /** Meals with nutrition we could work out */
+  counted: number;
+  /** Meals without a recipe or with no ingredients we recognise */
+  skipped: number;
+  total: RecipeNutrition;
+  byMember: MemberNutrition[];
+}
+
+const FOOD_MATCHERS = Object.entries(NUTRITION_FOODS)
+  .sort(([a], [b]) => b.length - a.length)
+  .map(([key, food]) => ({ key, food }));
+
+/** Count units that mean "one whole item" */
+const WHOLE_ITEM_UNITS = new Set(['', 'whole', 'piece']);
+
+/** Nutrition table entry for an ingredient name ("2 large eggs, beaten" → egg) */
+export function findNutritionFood(ingredientName: string): NutritionFood | null {
+  const name = normalizeIngredientName(ingredientName);
+  if (!name) return null;
+  return FOOD_MATCHERS.find(({ key }) => name === key || name.endsWith(` ${key}`))?.food ?? null;
+}
+
+/** Grams of an ingredient, or null when the unit cannot be weighed */
+function toGrams(amount: number, unit: string, name: string, food: NutritionFood): number | null {
+  const dimension = getUnitDimension(unit);
+  if (dimension === 'weight') return convertAmount(amount, unit, 'g');
+  if (dimension === 'volume') {
+    const millilitres = convertAmount(amount, unit, 'ml');
+    const density = food.density ?? getIngredientDensity(name);
+    return millilitres !== null && density ? millilitres * density : null;
+  }
+  const each = food.gramsPer?.[WHOLE_ITEM_UNITS.has(unit) ? '' : unit];
+  return each !== undefined ? amount * each : null;
+}
+
+function addScaled(total: RecipeNutrition, values: RecipeNutrition | number[], factor: number): void {
+  NUTRIENTS.forEach(({ key }, index) => {
+    const value = Array.isArray(values) ? values[index] : values[key];
+    if (value !== undefined) total[key] = (total[key] ?? 0) + value * factor;
+  });
+}
+
+/** Calories to the nearest whole number, grams to 0.1, milligrams to 1 (iron to 0.1) */
+function roundNutrition(nutrition: RecipeNutrition): RecipeNutrition {
+  const rounded: RecipeNutrition = {};
+  for (const { key, unit } of NUTRIENTS) {
+    const value = nutrition[key];
+    if (value === undefined) continue;
+    rounded[key] = unit === 'g' || key === 'iron_mg' ? Math.round(value * 10) / 10 : Math.round(value);
+  }
+  return rounded;
+}
+
+/** "320 kcal", "12.5 g", "480 mg"; "–" when the value is unknown */
+export function formatNutrient(value: number | undefined, unit: 'kcal' | 'g' | 'mg'): string {
+  if (value === undefined) return '–';
+  return `${value.toLocaleString()} ${unit}`;
+}
+
+/**
+ * Total nutrition of a list of ingredients
+ * Lines without a quantity ("salt to taste") are skipped; measured lines
+ * missing from the table, or in a unit that cannot be weighed, are reported.
+ */
+export function estimateIngredientsNutrition(ingredients: RecipeIngredient[]): {
+  total: RecipeNutrition;
+  matched: number;
+  unmatched: string[];
+} {
+  const total: RecipeNutrition = {};
+  const unmatched: string[] = [];
+  let matched = 0;
+
+  for (const ingredient of ingredients) {
+    const { name, amount, unit } = measureIngredient(ingredient);
+    if (amount === null || !name) continue;
+
+    const food = findNutritionFood(name);
+    const grams = food ? toGrams(amount, unit, name, food) : null;
+    if (!food || grams === null) {
+      unmatched.push(typeof ingredient === 'string' ? ingredient : name);
+      continue;
+    }
+    addScaled(total, food.per100g, grams / 100);
+    matched += 1;
+  }
+
+  return { total, matched, unmatched };
+}
+
+/**
+ * Per-serving nutrition for a recipe: the published facts when it has them,
+ * otherwise an estimate from its ingredients
+ * @returns null when neither is available
+ */
+export function getRecipeNutrition(
+  recipe: Pick<Recipe, 'ingredients' | 'servings' | 'nutrition'>
+): NutritionEstimate | null {
+  const servings = recipe.servings && recipe.servings > 0 ? recipe.servings : null;
+  if (recipe.nutrition && recipe.nutrition.calories !== undefined) {
+    return { nutrition: recipe.nutrition, source: 'published', servings, unmatched: [] };
+  }
+
+  const { total, matched, unmatched } = estimateIngredientsNutrition(recipe.ingredients ?? []);
+  if (matched === 0) return null;
+
+  const perServing: RecipeNutrition = {};
+  addScaled(perServing, total, 1 / (servings ?? 1));
+  return { nutrition: roundNutrition(perServing), source: 'estimated', servings, unmatched };
+}
+
+/**
+ * Nutrition of the meals in a plan, in total and split by the member each
+ * meal is assigned to. A meal counts the servings it cooks (its own servings,
+ * else the recipe's); when the recipe's servings are unknown, the whole recipe.
+ */
+export function summarizeMealPlanNutrition(meals: Meal[]): MealPlanNutrition {
+  const total: RecipeNutrition = {};
+  const members = new Map<string | null, MemberNutrition>();
+  let counted = 0;
+
+  for (const meal of meals) {
+    const estimate = meal.recipe ? getRecipeNutrition(meal.recipe) : null;
+    if (!estimate) continue;
+
+    const portions = estimate.servings ? meal.servings ?? estimate.servings : 1;
+    const memberId = meal.assigned_to ?? null;
+    const member = members.get(memberId) ?? {
+      memberId,
+      name: memberId ? meal.assignee?.name || 'Member' : 'Unassigned',
+      meals: 0,
+      nutrition: {},
+    };
+    addScaled(member.nutrition, estimate.nutrition, portions);
+    addScaled(total, estimate.nutrition, portions);
+    member.meals += 1;
+    members.set(memberId, member);
+    counted += 1;
+  }
+
+  const byMember = Array.from(members.values())
+    .map((member) => ({ ...member, nutrition: roundNutrition(member.nutrition) }))
+    .sort((a, b) => {
+      if (!a.memberId !== !b.memberId) return a.memberId ? -1 : 1;
+      return a.name.localeCompare(b.name);
+    });
+
+  return { counted, skipped: meals.length - counted, total: roundNutrition(total), byMember };
+}
@@ -0,0 +1,79 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { Recipe } from '@/lib/services/meals-service';
+import type { PantryItem } from '@/lib/services/pantry-service';
+import { normalizeIngredientName, parseRecipeIngredients } from '@/lib/services/ingredient-parser';
+
+/** Items expiring within this many days count as "use soon" */
+export const EXPIRING_SOON_DAYS = 3;
+
+export type ExpiryStatus = 'expired' | 'expiring' | 'fresh' | 'none';
+
+export interface RecipeSuggestion {
+  recipe: Recipe;
+  /** Soon-to-expire pantry items the recipe uses, soonest first */
+  expiringItems: PantryItem[];
+}
+
+/**
+ * Days until a pantry item's best-before date (negative once past)
+ * @returns null if the item has no expiry date
+ */
+export function getDaysUntilExpiry(expiresOn: string | null, today: Date = new Date()): number | null {
+  if (!expiresOn) return null;
+  return differenceInCalendarDays(parseISO(expiresOn), today);
+}
+
+/** Whether an item is past its date, due within the "use soon" window, or fine */
+export function getExpiryStatus(
+  item: Pick<PantryItem, 'expires_on'>,
+  today: Date = new Date(),
+  soonDays: number = EXPIRING_SOON_DAYS
+): ExpiryStatus {
+  const days = getDaysUntilExpiry(item.expires_on, today);
+  if (days === null) return 'none';
+  if (days < 0) return 'expired';
+  if (days <= soonDays) return 'expiring';
+  return 'fresh';
+}
+
+/** True when a recipe ingredient is (a kind of) the pantry item: "baby spinach" uses "spinach" */
+function ingredientUses(ingredientName: string, pantryName: string): boolean {
+  return ingredientName === pantryName || ingredientName.endsWith(` ${pantryName}`);
+}
+
+/**
+ * Recipes that use pantry items about to expire, best matches first
+ * Already-expired items are not suggested; ties go to the recipe whose
+ * items expire soonest.
+ */
+export function suggestRecipesForExpiringItems(
+  recipes: Recipe[],
+  pantryItems: PantryItem[],
+  options: { today?: Date; withinDays?: number; limit?: number } = {}
+): RecipeSuggestion[] {
+  const { today = new Date(), withinDays = EXPIRING_SOON_DAYS, limit = 5 } = options;
+
+  const expiring = pantryItems
+    .filter((item) => getExpiryStatus(item, today, withinDays) === 'expiring')
+    .map((item) => ({ item, key: normalizeIngredientName(item.name) }))
+    .filter(({ key }) => key);
+  if (expiring.length === 0) return [];
+
+  const suggestions: RecipeSuggestion[] = [];
+  for (const recipe of recipes) {
+    const ingredientNames = parseRecipeIngredients(recipe).map((ingredient) => normalizeIngredientName(ingredient.name));
+    const used = expiring
+      .filter(({ key }) => ingredientNames.some((name) => ingredientUses(name, key)))
+      .map(({ item }) => item)
+      .sort((a, b) => (a.expires_on ?? '').localeCompare(b.expires_on ?? ''));
+
+    if (used.length > 0) suggestions.push({ recipe, expiringItems: used });
+  }
+
+  return suggestions
+    .sort((a, b) =>
+      b.expiringItems.length - a.expiringItems.length ||
+      (a.expiringItems[0].expires_on ?? '').localeCompare(b.expiringItems[0].expires_on ?? '')
+    )
+    .slice(0, limit);
+}
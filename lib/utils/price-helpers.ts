@@ -0,0 +1,227 @@
+import type { Meal, Recipe } from '@/lib/services/meals-service';
+import type { PriceBookEntry } from '@/lib/services/price-book-service';
+import type { ShoppingItem } from '@/lib/services/shopping-service';
+import {
+  getServingsScale,
+  measureIngredient,
+  normalizeIngredientName,
+  type RecipeIngredient,
+} from '@/lib/services/ingredient-parser';
+import { convertAmount, normalizeUnit } from '@/lib/utils/units';
+
+/** Prices averaged per item, store and unit: the most recent few only */
+const RECENT_PRICES = 3;
+
+/** Count units that all mean "one of it" */
+const EACH_UNITS = new Set(['', 'whole', 'piece', 'each', 'ea', 'item']);
+
+/** What an item costs per unit at one store (null: store unknown) */
+export interface ItemPrice {
+  name: string;
+  store: string | null;
+  /** Canonical unit the price is for; empty for "each" */
+  unit: string;
+  unitPrice: number;
+  /** Most recent purchase behind this price (YYYY-MM-DD) */
+  lastSeen: string;
+}
+
+/** Learned prices keyed by normalized item name */
+export type PriceBook = Map<string, ItemPrice[]>;
+
+export interface CostEstimate {
+  total: number;
+  /** Lines with a price */
+  priced: number;
+  /** Measured lines with no usable price, as written */
+  unpriced: string[];
+}
+
+export interface RecipeCostEstimate extends CostEstimate {
+  /** null when the recipe's servings are unknown */
+  perServing: number | null;
+}
+
+export interface MealPlanCostEstimate {
+  total: number;
+  /** Meals with at least one priced ingredient */
+  counted: number;
+  skipped: number;
+}
+
+function priceUnit(unit: string | null | undefined): string {
+  const normalized = normalizeUnit(unit ?? '');
+  return EACH_UNITS.has(normalized) ? '' : normalized;
+}
+
+function storeKey(store: string | null | undefined): string {
+  return store?.trim().toLowerCase() ?? '';
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Turn price book entries into current prices
+ * Entries for the same item, store and unit are averaged over the most recent
+ * few, so one-off offers don't dominate. Entries must be in the same currency.
+ */
+export function buildPriceBook(entries: Pick<PriceBookEntry, 'name' | 'store_name' | 'unit' | 'unit_price' | 'observed_on'>[]): PriceBook {
+  const groups = new Map<string, { key: string; entries: typeof entries }>();
+  for (const entry of entries) {
+    const key = normalizeIngredientName(entry.name);
+    if (!key) continue;
+    const groupKey = [key, storeKey(entry.store_name), priceUnit(entry.unit)].join('|');
+    const group = groups.get(groupKey) ?? { key, entries: [] };
+    group.entries.push(entry);
+    groups.set(groupKey, group);
+  }
+
+  const book: PriceBook = new Map();
+  for (const { key, entries: group } of groups.values()) {
+    const recent = [...group].sort((a, b) => b.observed_on.localeCompare(a.observed_on)).slice(0, RECENT_PRICES);
+    const latest = recent[0];
+    book.set(key, [...(book.get(key) ?? []), {
+      name: latest.name,
+      store: latest.store_name?.trim() || null,
+      unit: priceUnit(latest.unit),
+      unitPrice: recent.reduce((sum, entry) => sum + Number(entry.unit_price), 0) / recent.length,
+      lastSeen: latest.observed_on,
+    }]);
+  }
+  return book;
+}
+
+/** Prices for an item name, trying "large egg" → "egg" when there's no exact match */
+function findPrices(book: PriceBook, name: string): ItemPrice[] {
+  const key = normalizeIngredientName(name);
+  if (!key) return [];
+  const exact = book.get(key);
+  if (exact) return exact;
+
+  let best: { key: string; prices: ItemPrice[] } | null = null;
+  for (const [candidate, prices] of book) {
+    if (key.endsWith(` ${candidate}`) && (!best || candidate.length > best.key.length)) {
+      best = { key: candidate, prices };
+    }
+  }
+  return best?.prices ?? [];
+}
+
+/**
+ * Estimated cost of an amount of an item
+ * Prices from `store` are preferred; otherwise prices from every store are
+ * averaged. Units convert where they can (cups of flour against a per-kg
+ * price uses the density table).
+ * @returns null when the item has no price in a compatible unit
+ */
+export function priceItem(
+  book: PriceBook,
+  name: string,
+  amount: number,
+  unit: string | null | undefined,
+  store?: string | null
+): number | null {
+  const wanted = priceUnit(unit);
+  const costs = findPrices(book, name)
+    .map((price) => {
+      const inPriceUnit = wanted === price.unit ? amount : convertAmount(amount, wanted, price.unit, name);
+      return inPriceUnit === null ? null : { store: price.store, cost: inPriceUnit * price.unitPrice };
+    })
+    .filter((cost): cost is { store: string | null; cost: number } => cost !== null);
+  if (costs.length === 0) return null;
+
+  const atStore = store ? costs.filter((cost) => storeKey(cost.store) === storeKey(store)) : [];
+  const chosen = atStore.length > 0 ? atStore : costs;
+  return chosen.reduce((sum, cost) => sum + cost.cost, 0) / chosen.length;
+}
+
+/**
+ * Estimated cost of a list of recipe ingredients
+ * Lines without a quantity ("salt to taste") are left out.
+ */
+export function estimateIngredientsCost(
+  ingredients: RecipeIngredient[],
+  book: PriceBook,
+  options: { scale?: number; store?: string | null } = {}
+): CostEstimate {
+  const scale = options.scale ?? 1;
+  const estimate: CostEstimate = { total: 0, priced: 0, unpriced: [] };
+
+  for (const ingredient of ingredients) {
+    const { name, amount, unit } = measureIngredient(ingredient);
+    if (amount === null || !name) continue;
+
+    const cost = priceItem(book, name, amount * scale, unit, options.store);
+    if (cost === null) {
+      estimate.unpriced.push(typeof ingredient === 'string' ? ingredient : name);
+      continue;
+    }
+    estimate.total += cost;
+    estimate.priced += 1;
+  }
+
+  return { ...estimate, total: roundMoney(estimate.total) };
+}
+
+/** Estimated cost of a whole recipe and of one serving */
+export function estimateRecipeCost(
+  recipe: Pick<Recipe, 'ingredients' | 'servings'>,
+  book: PriceBook
+): RecipeCostEstimate {
+  const estimate = estimateIngredientsCost(recipe.ingredients ?? [], book);
+  const servings = recipe.servings && recipe.servings > 0 ? recipe.servings : null;
+  return { ...estimate, perServing: servings ? roundMoney(estimate.total / servings) : null };
+}
+
+/**
+ * Estimated cost of the meals in a plan
+ * Each meal is costed at the servings it cooks; meals without a recipe, or
+ * whose ingredients have no prices yet, are skipped.
+ */
+export function estimateMealPlanCost(
+  meals: Pick<Meal, 'servings' | 'recipe'>[],
+  book: PriceBook
+): MealPlanCostEstimate {
+  let total = 0;
+  let counted = 0;
+
+  for (const meal of meals) {
+    if (!meal.recipe) continue;
+    const estimate = estimateIngredientsCost(meal.recipe.ingredients ?? [], book, {
+      scale: getServingsScale(meal.recipe.servings, meal.servings),
+    });
+    if (estimate.priced === 0) continue;
+    total += estimate.total;
+    counted += 1;
+  }
+
+  return { total: roundMoney(total), counted, skipped: meals.length - counted };
+}
+
+/**
+ * Estimated total of a shopping list at its store
+ * Items already bought count at the price paid.
+ */
+export function estimateShoppingListTotal(
+  items: Pick<ShoppingItem, 'name' | 'quantity' | 'unit' | 'actual_price' | 'checked'>[],
+  book: PriceBook,
+  store?: string | null
+): CostEstimate {
+  const estimate: CostEstimate = { total: 0, priced: 0, unpriced: [] };
+
+  for (const item of items) {
+    const paid = item.checked && item.actual_price != null ? Number(item.actual_price) : null;
+    const quantity = Number(item.quantity) > 0 ? Number(item.quantity) : 1;
+    const cost = paid ?? priceItem(book, item.name, quantity, item.unit, store);
+    if (cost === null) {
+      estimate.unpriced.push(item.name);
+      continue;
+    }
+    estimate.total += cost;
+    estimate.priced += 1;
+  }
+
+  return { ...estimate, total: roundMoney(estimate.total) };
+}
@@ -0,0 +1,178 @@
+import { SHOPPING_CATEGORIES } from '@/lib/constants/shopping-categories';
+import { normalizeIngredientName } from '@/lib/services/ingredient-parser';
+import type { ShoppingItem } from '@/lib/services/shopping-service';
+import type { SavedStoreLayout, StoreTrip } from '@/lib/services/store-layouts-service';
+import type { PriceBook } from '@/lib/utils/price-helpers';
+
+/** How a store's aisles are laid out, for sorting its shopping lists */
+export interface StoreLayout {
+  name: string;
+  /** Saved layout this is built on; null for stores only seen on past lists */
+  savedId: string | null;
+  /** Every shopping category, in walking order */
+  categoryOrder: string[];
+  /** 'custom' when set by hand, 'learned' from past trips, else 'default' */
+  source: 'custom' | 'learned' | 'default';
+  /** Where in the store each item is usually picked up, 0 (first) to 1 (last) */
+  itemPositions: Map<string, number>;
+  /** Items known to be sold here, from past trips and the price book */
+  stocked: Set<string>;
+  trips: number;
+}
+
+export interface ItemGroup<T> {
+  category: string;
+  items: T[];
+}
+
+type ListItem = Pick<ShoppingItem, 'name' | 'category' | 'sort_order'>;
+
+const DEFAULT_CATEGORY_ORDER: string[] = SHOPPING_CATEGORIES.map((category) => category.value);
+
+/** Stores are matched by name, ignoring case and surrounding space */
+export function storeKey(name: string | null | undefined): string {
+  return name?.trim().toLowerCase() ?? '';
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/** Order categories by position, keeping `fallback` order for ties and unseen ones */
+function orderCategories(positions: Map<string, number[]>, fallback: string[]): string[] {
+  const all = Array.from(new Set([...fallback, ...positions.keys()]));
+  const seen = all.filter((category) => positions.has(category));
+  const unseen = all.filter((category) => !positions.has(category));
+  seen.sort((a, b) => average(positions.get(a)!) - average(positions.get(b)!) || all.indexOf(a) - all.indexOf(b));
+  return [...seen, ...unseen];
+}
+
+/**
+ * Learn a store's layout from the order items were checked off on past trips
+ * Each item's place in a trip is scaled to 0-1 so long and short trips count
+ * the same; a category sits where its items are usually picked up. A custom
+ * aisle order saved for the store wins, with categories it leaves out placed
+ * in learned order after it.
+ */
+export function learnStoreLayout(
+  name: string,
+  trips: StoreTrip[],
+  saved?: Pick<SavedStoreLayout, 'id' | 'aisle_order'> | null,
+  priceBook?: PriceBook
+): StoreLayout {
+  const categoryPositions = new Map<string, number[]>();
+  const itemSamples = new Map<string, number[]>();
+  const stocked = new Set<string>();
+  const storeTrips = trips.filter((trip) => storeKey(trip.store) === storeKey(name));
+
+  for (const trip of storeTrips) {
+    const last = Math.max(trip.items.length - 1, 1);
+    trip.items.forEach((item, index) => {
+      const position = trip.items.length > 1 ? index / last : 0.5;
+      const key = normalizeIngredientName(item.name);
+      const category = item.category || 'other';
+      categoryPositions.set(category, [...(categoryPositions.get(category) ?? []), position]);
+      if (!key) return;
+      itemSamples.set(key, [...(itemSamples.get(key) ?? []), position]);
+      stocked.add(key);
+    });
+  }
+
+  if (priceBook) {
+    for (const [key, prices] of priceBook) {
+      if (prices.some((price) => storeKey(price.store) === storeKey(name))) stocked.add(key);
+    }
+  }
+
+  const learned = orderCategories(categoryPositions, DEFAULT_CATEGORY_ORDER);
+  const custom = saved?.aisle_order ?? [];
+  const categoryOrder = custom.length > 0
+    ? Array.from(new Set([...custom, ...learned]))
+    : learned;
+
+  return {
+    name,
+    savedId: saved?.id ?? null,
+    categoryOrder,
+    source: custom.length > 0 ? 'custom' : storeTrips.length > 0 ? 'learned' : 'default',
+    itemPositions: new Map(Array.from(itemSamples, ([key, samples]) => [key, average(samples)])),
+    stocked,
+    trips: storeTrips.length,
+  };
+}
+
+/**
+ * Layouts for every store the space knows: its saved stores, then stores
+ * named on past lists that have not been saved yet
+ */
+export function buildStoreLayouts(
+  saved: Pick<SavedStoreLayout, 'id' | 'store_name' | 'aisle_order'>[],
+  trips: StoreTrip[],
+  priceBook?: PriceBook
+): StoreLayout[] {
+  const layouts = saved.map((layout) => learnStoreLayout(layout.store_name, trips, layout, priceBook));
+  const known = new Set(saved.map((layout) => storeKey(layout.store_name)));
+
+  for (const trip of trips) {
+    if (known.has(storeKey(trip.store))) continue;
+    known.add(storeKey(trip.store));
+    layouts.push(learnStoreLayout(trip.store, trips, null, priceBook));
+  }
+  return layouts;
+}
+
+/** The layout for a store name, if the space has one */
+export function findStoreLayout(layouts: StoreLayout[], name: string | null | undefined): StoreLayout | null {
+  if (!name) return null;
+  return layouts.find((layout) => storeKey(layout.name) === storeKey(name)) ?? null;
+}
+
+/**
+ * Group list items by category in a store's walking order
+ * Within a category, items go where they are usually picked up, then by the
+ * list's own order. Without a layout, categories are alphabetical.
+ */
+export function groupItemsForStore<T extends ListItem>(items: T[], layout: StoreLayout | null): ItemGroup<T>[] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const category = item.category || 'other';
+    groups.set(category, [...(groups.get(category) ?? []), item]);
+  }
+
+  const rank = (category: string) => {
+    const index = layout?.categoryOrder.indexOf(category) ?? -1;
+    return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+  };
+  // Items never picked up at this store sort after those that have been
+  const position = (item: T) => layout?.itemPositions.get(normalizeIngredientName(item.name)) ?? 2;
+
+  return Array.from(groups, ([category, groupItems]) => ({
+    category,
+    items: [...groupItems].sort((a, b) => position(a) - position(b) || (a.sort_order || 0) - (b.sort_order || 0)),
+  })).sort((a, b) => rank(a.category) - rank(b.category) || a.category.localeCompare(b.category));
+}
+
+/**
+ * Split a list between two stores
+ * Items only ever bought at the second store go there; everything else,
+ * including items sold at both or at neither, stays with the first.
+ */
+export function splitItemsBetweenStores<T extends ListItem>(
+  items: T[],
+  first: StoreLayout,
+  second: StoreLayout
+): { first: T[]; second: T[] } {
+  const split: { first: T[]; second: T[] } = { first: [], second: [] };
+  for (const item of items) {
+    const key = normalizeIngredientName(item.name);
+    const onlyAtSecond = second.stocked.has(key) && !first.stocked.has(key);
+    split[onlyAtSecond ? 'second' : 'first'].push(item);
+  }
+  return split;
+}
+
+/** Other stores that sell something on the list the first store is not known to */
+export function findSplitStores(items: ListItem[], first: StoreLayout, layouts: StoreLayout[]): StoreLayout[] {
+  return layouts.filter((layout) =>
+    storeKey(layout.name) !== storeKey(first.name) && splitItemsBetweenStores(items, first, layout).second.length > 0);
+}
@@ -198,6 +198,96 @@ export function getTimezoneOffset(timezone?: string): number {
   return Math.round(offsetMs / (1000 * 60 * 60));
 }
 
+/**
+ * Wall-clock date and time components in a specific timezone
+ */
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+    });
+    zonedFormatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Get the wall-clock components of an instant in a timezone
+ *
+ * @param date - The instant
+ * @param timezone - IANA timezone (e.g., 'Europe/Berlin')
+ * @returns Year, month (1-12), day, hour, minute and second in that timezone
+ */
+export function getZonedDateParts(date: Date, timezone: string): ZonedDateParts {
+  const parts: Record<string, number> = {};
+  for (const part of getZonedFormatter(timezone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+function getZonedOffsetMs(instantMs: number, timezone: string): number {
+  const p = getZonedDateParts(new Date(instantMs), timezone);
+  const wallMs = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallMs - Math.floor(instantMs / 1000) * 1000;
+}
+
+/**
+ * Convert wall-clock components in a timezone to the UTC instant they denote
+ *
+ * DST handling follows RFC 5545: a time that occurs twice (clocks going back)
+ * resolves to the first occurrence, and a time skipped by clocks going forward
+ * moves forward by the length of the gap.
+ *
+ * @param parts - Wall-clock components in the timezone
+ * @param timezone - IANA timezone (e.g., 'Europe/Berlin')
+ * @returns The UTC instant
+ */
+export function zonedTimeToUtc(parts: ZonedDateParts, timezone: string): Date {
+  const wallMs = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  if (timezone === 'UTC') return new Date(wallMs);
+
+  const day = 24 * 60 * 60 * 1000;
+  const offsetBefore = getZonedOffsetMs(wallMs - day, timezone);
+  const offsetAfter = getZonedOffsetMs(wallMs + day, timezone);
+
+  const matches = [wallMs - offsetBefore, wallMs - offsetAfter]
+    .filter((instant) => getZonedOffsetMs(instant, timezone) === wallMs - instant)
+    .sort((a, b) => a - b);
+
+  return new Date(matches[0] ?? wallMs - offsetBefore);
+}
+
 /**
  * Format in specific timezone using Intl API
  */
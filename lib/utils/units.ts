@@ -0,0 +1,344 @@
+/**
+ * Kitchen units: aliases, conversion between metric and imperial volume and
+ * weight, ingredient densities for cup↔gram conversions, and rounding
+ * amounts the way a recipe would print them.
+ */
+
+export type MeasurementSystem = 'metric' | 'imperial';
+
+export type UnitDimension = 'volume' | 'weight' | 'count';
+
+export const MEASUREMENT_SYSTEMS: { value: MeasurementSystem; label: string; example: string }[] = [
+  { value: 'metric', label: 'Metric', example: 'g, ml, L' },
+  { value: 'imperial', label: 'US / Imperial', example: 'oz, lb, cups' },
+];
+
+/**
+ * Spellings found in recipes, mapped to the canonical unit
+ */
+export const UNIT_ALIASES: Record<string, string> = {
+  // Volume
+  'cup': 'cup',
+  'cups': 'cup',
+  'c': 'cup',
+  'tablespoon': 'tbsp',
+  'tablespoons': 'tbsp',
+  'tbsp': 'tbsp',
+  'tbs': 'tbsp',
+  'teaspoon': 'tsp',
+  'teaspoons': 'tsp',
+  'tsp': 'tsp',
+  'fluid ounce': 'fl oz',
+  'fluid ounces': 'fl oz',
+  'fl oz': 'fl oz',
+  'pint': 'pint',
+  'pints': 'pint',
+  'quart': 'quart',
+  'quarts': 'quart',
+  'gallon': 'gallon',
+  'gallons': 'gallon',
+  'milliliter': 'ml',
+  'milliliters': 'ml',
+  'millilitre': 'ml',
+  'millilitres': 'ml',
+  'ml': 'ml',
+  'liter': 'L',
+  'liters': 'L',
+  'litre': 'L',
+  'litres': 'L',
+  'l': 'L',
+
+  // Weight
+  'ounce': 'oz',
+  'ounces': 'oz',
+  'oz': 'oz',
+  'pound': 'lb',
+  'pounds': 'lb',
+  'lb': 'lb',
+  'lbs': 'lb',
+  'gram': 'g',
+  'grams': 'g',
+  'g': 'g',
+  'kilogram': 'kg',
+  'kilograms': 'kg',
+  'kg': 'kg',
+
+  // Count
+  'piece': 'piece',
+  'pieces': 'piece',
+  'whole': 'whole',
+  'slice': 'slice',
+  'slices': 'slice',
+  'clove': 'clove',
+  'cloves': 'clove',
+  'can': 'can',
+  'cans': 'can',
+  'package': 'package',
+  'packages': 'package',
+  'bunch': 'bunch',
+  'bunches': 'bunch',
+  'block': 'block',
+  'blocks': 'block',
+  'stick': 'stick',
+  'sticks': 'stick',
+  'head': 'head',
+  'heads': 'head',
+  'bag': 'bag',
+  'bags': 'bag',
+  'box': 'box',
+  'boxes': 'box',
+  'jar': 'jar',
+  'jars': 'jar',
+  'bottle': 'bottle',
+  'bottles': 'bottle',
+};
+
+interface MeasuredUnit {
+  dimension: 'volume' | 'weight';
+  /** Millilitres or grams in one unit */
+  base: number;
+  /** Spoons are used on both sides of the Atlantic */
+  system: MeasurementSystem | 'both';
+}
+
+const MEASURED_UNITS: Record<string, MeasuredUnit> = {
+  'tsp': { dimension: 'volume', base: 4.92892, system: 'both' },
+  'tbsp': { dimension: 'volume', base: 14.7868, system: 'both' },
+  'fl oz': { dimension: 'volume', base: 29.5735, system: 'imperial' },
+  'cup': { dimension: 'volume', base: 236.588, system: 'imperial' },
+  'pint': { dimension: 'volume', base: 473.176, system: 'imperial' },
+  'quart': { dimension: 'volume', base: 946.353, system: 'imperial' },
+  'gallon': { dimension: 'volume', base: 3785.41, system: 'imperial' },
+  'ml': { dimension: 'volume', base: 1, system: 'metric' },
+  'L': { dimension: 'volume', base: 1000, system: 'metric' },
+  'oz': { dimension: 'weight', base: 28.3495, system: 'imperial' },
+  'lb': { dimension: 'weight', base: 453.592, system: 'imperial' },
+  'g': { dimension: 'weight', base: 1, system: 'metric' },
+  'kg': { dimension: 'weight', base: 1000, system: 'metric' },
+};
+
+/**
+ * Grams per millilitre for ingredients commonly given by volume.
+ * Matched against the end of the ingredient name, longest first, so
+ * "light brown sugar" finds "brown sugar" before "sugar".
+ */
+const INGREDIENT_DENSITIES: Record<string, number> = {
+  'water': 1,
+  'milk': 1.03,
+  'buttermilk': 1.03,
+  'cream': 1.01,
+  'sour cream': 1.02,
+  'yogurt': 1.03,
+  'stock': 1,
+  'broth': 1,
+  'butter': 0.96,
+  'oil': 0.92,
+  'honey': 1.42,
+  'maple syrup': 1.32,
+  'syrup': 1.37,
+  'flour': 0.53,
+  'bread flour': 0.55,
+  'whole wheat flour': 0.51,
+  'sugar': 0.85,
+  'brown sugar': 0.93,
+  'powdered sugar': 0.51,
+  'icing sugar': 0.51,
+  'salt': 1.22,
+  'kosher salt': 0.54,
+  'baking soda': 0.93,
+  'baking powder': 0.81,
+  'cornstarch': 0.54,
+  'cocoa powder': 0.42,
+  'rice': 0.78,
+  'oat': 0.38,
+  'rolled oat': 0.38,
+  'breadcrumb': 0.46,
+  'peanut butter': 1.08,
+  'chocolate chip': 0.72,
+  'parmesan': 0.42,
+  'cheese': 0.47,
+  'almond': 0.6,
+  'walnut': 0.5,
+};
+
+const DENSITY_PATTERNS = Object.entries(INGREDIENT_DENSITIES)
+  .sort(([a], [b]) => b.length - a.length)
+  .map(([name, density]) => ({
+    pattern: new RegExp(`(?:^|\\s)${name.replace(/[-\s]/g, '[-\\s]')}(?:s|es)?$`),
+    density,
+  }));
+
+/** Canonical form of a unit ("Tablespoons" → "tbsp"); unknown units are lowercased */
+export function normalizeUnit(unit: string): string {
+  const normalized = unit.toLowerCase().trim().replace(/\.$/, '');
+  return UNIT_ALIASES[normalized] || normalized;
+}
+
+/** Whether a word is a unit the parser recognises */
+export function isKnownUnit(unit: string): boolean {
+  return unit.toLowerCase() in UNIT_ALIASES;
+}
+
+/** Volume, weight, or count (pieces, cans, or no unit at all) */
+export function getUnitDimension(unit: string): UnitDimension {
+  return MEASURED_UNITS[normalizeUnit(unit)]?.dimension ?? 'count';
+}
+
+/**
+ * Grams per millilitre for an ingredient
+ * @returns null if the ingredient is not in the density table
+ */
+export function getIngredientDensity(ingredientName: string): number | null {
+  const name = ingredientName
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .split(',')[0]
+    .replace(/\s+/g, ' ')
+    .trim();
+  return DENSITY_PATTERNS.find(({ pattern }) => pattern.test(name))?.density ?? null;
+}
+
+/**
+ * Convert an amount between units
+ * Volume and weight convert within their dimension; between them only when
+ * the ingredient's density is known. Count units only "convert" to themselves.
+ * @returns The converted amount, or null if the units are not compatible
+ */
+export function convertAmount(
+  amount: number,
+  fromUnit: string,
+  toUnit: string,
+  ingredientName?: string
+): number | null {
+  const from = normalizeUnit(fromUnit);
+  const to = normalizeUnit(toUnit);
+  if (from === to) return amount;
+
+  const fromUnitDef = MEASURED_UNITS[from];
+  const toUnitDef = MEASURED_UNITS[to];
+  if (!fromUnitDef || !toUnitDef) return null;
+
+  let base = amount * fromUnitDef.base;
+  if (fromUnitDef.dimension !== toUnitDef.dimension) {
+    const density = ingredientName ? getIngredientDensity(ingredientName) : null;
+    if (!density) return null;
+    base = fromUnitDef.dimension === 'volume' ? base * density : base / density;
+  }
+  return base / toUnitDef.base;
+}
+
+/**
+ * Relative slack when comparing an amount against a unit boundary; the unit
+ * table is rounded, so 3 tsp come out a hair under 1 tbsp
+ */
+const UNIT_BOUNDARY_TOLERANCE = 1e-4;
+
+/** Whether an amount in base units reaches a boundary, allowing for float and table rounding */
+function reaches(base: number, boundary: number): boolean {
+  return base >= boundary * (1 - UNIT_BOUNDARY_TOLERANCE);
+}
+
+/** The unit a cook would use for this much of something in the given system */
+function pickUnit(base: number, dimension: 'volume' | 'weight', system: MeasurementSystem): string {
+  if (dimension === 'weight') {
+    if (system === 'metric') return reaches(base, 1000) ? 'kg' : 'g';
+    return reaches(base, MEASURED_UNITS.lb.base) ? 'lb' : 'oz';
+  }
+
+  if (!reaches(base, MEASURED_UNITS.tbsp.base)) return 'tsp';
+  if (system === 'metric') {
+    if (!reaches(base, 60)) return 'tbsp';
+    return reaches(base, 1000) ? 'L' : 'ml';
+  }
+  if (!reaches(base, MEASURED_UNITS.cup.base / 4)) return 'tbsp';
+  return reaches(base, MEASURED_UNITS.gallon.base) ? 'gallon' : 'cup';
+}
+
+/**
+ * Express a measured amount in a measurement system, in the unit a cook would use
+ * ("1000 ml" → "1 L", "16 tbsp" → "1 cup"). Count units are returned unchanged.
+ */
+export function toMeasurementSystem(
+  amount: number,
+  unit: string,
+  system: MeasurementSystem
+): { amount: number; unit: string } {
+  const canonical = normalizeUnit(unit);
+  const definition = MEASURED_UNITS[canonical];
+  if (!definition) return { amount, unit: canonical };
+
+  const base = amount * definition.base;
+  const target = pickUnit(base, definition.dimension, system);
+  // Trim float and table-rounding noise from the round trip through base units
+  return { amount: Math.round((base / MEASURED_UNITS[target].base) * 1e4) / 1e4, unit: target };
+}
+
+// ==================== ROUNDING ====================
+
+/** Fractions a measuring set can hit, with how they print */
+const KITCHEN_FRACTIONS: Array<[number, string]> = [
+  [0, ''],
+  [1 / 8, '1/8'],
+  [1 / 4, '1/4'],
+  [1 / 3, '1/3'],
+  [3 / 8, '3/8'],
+  [1 / 2, '1/2'],
+  [5 / 8, '5/8'],
+  [2 / 3, '2/3'],
+  [3 / 4, '3/4'],
+  [7 / 8, '7/8'],
+  [1, ''],
+];
+
+/** Metric units are printed as decimals; everything else as fractions */
+function usesDecimals(unit: string): boolean {
+  return MEASURED_UNITS[normalizeUnit(unit)]?.system === 'metric';
+}
+
+function nearestFraction(value: number): { whole: number; fraction: string; value: number } {
+  let whole = Math.floor(value);
+  const remainder = value - whole;
+  let [closest, label] = KITCHEN_FRACTIONS[0];
+  for (const [fraction, fractionLabel] of KITCHEN_FRACTIONS) {
+    if (Math.abs(remainder - fraction) < Math.abs(remainder - closest)) {
+      closest = fraction;
+      label = fractionLabel;
+    }
+  }
+  if (closest === 1) whole += 1;
+  // Never round a real amount away to nothing
+  if (whole === 0 && closest === 0 && value > 0) return { whole: 0, fraction: '1/8', value: 1 / 8 };
+  return { whole, fraction: label, value: whole + (closest === 1 ? 0 : closest) };
+}
+
+function roundMetric(amount: number, unit: string): number {
+  const canonical = normalizeUnit(unit);
+  if (canonical === 'kg' || canonical === 'L') return Math.round(amount * 100) / 100;
+  if (amount >= 100) return Math.round(amount / 5) * 5;
+  if (amount >= 10) return Math.round(amount);
+  return Math.round(amount * 10) / 10 || 0.1;
+}
+
+/**
+ * Round an amount to what a recipe would print: kitchen fractions for cups,
+ * spoons and counts, tidy decimals for metric. Large counts become whole numbers.
+ */
+export function roundAmount(amount: number, unit: string = ''): number {
+  if (amount <= 0 || !Number.isFinite(amount)) return 0;
+  if (usesDecimals(unit)) return roundMetric(amount, unit);
+  if (amount >= 10 && getUnitDimension(unit) === 'count') return Math.round(amount);
+  return nearestFraction(amount).value;
+}
+
+/**
+ * Format an amount for display ("1 1/3", "250", "1.5")
+ */
+export function formatAmount(amount: number, unit: string = ''): string {
+  if (amount <= 0 || !Number.isFinite(amount)) return '0';
+  if (usesDecimals(unit)) return String(roundMetric(amount, unit));
+  if (amount >= 10 && getUnitDimension(unit) === 'count') return String(Math.round(amount));
+
+  const { whole, fraction } = nearestFraction(amount);
+  if (!fraction) return String(whole);
+  return whole > 0 ? `${whole} ${fraction}` : fraction;
+}
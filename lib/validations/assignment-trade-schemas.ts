@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { POINTS_CONFIG } from '@/lib/types/rewards';
+
+// Offer a chore or task to another member (or anyone in the space)
+export const createAssignmentTradeSchema = z.object({
+  space_id: z.string().uuid('Invalid space ID'),
+  item_type: z.enum(['chore', 'task']),
+  item_id: z.string().uuid('Invalid item ID'),
+  offered_to: z.string().uuid('Invalid user ID').optional().nullable(),
+  bounty_points: z.number().int().min(0).max(POINTS_CONFIG.MAX_TRADE_BOUNTY).default(0),
+  note: z.string().max(500, 'Note must be less than 500 characters').trim().optional().nullable()
+    .transform(val => val === '' ? null : val),
+  expires_at: z.string().datetime().optional().nullable()
+    .refine(val => !val || new Date(val) > new Date(), 'Expiry must be in the future'),
+});
+
+// Respond to a trade
+export const respondAssignmentTradeSchema = z.object({
+  action: z.enum(['accept', 'decline', 'cancel']),
+});
+
+// List trades
+export const listAssignmentTradesSchema = z.object({
+  space_id: z.string().uuid('Invalid space ID'),
+  status: z.enum(['open', 'accepted', 'declined', 'cancelled']).optional(),
+  mine: z.enum(['true', 'false']).optional(),
+});
+
+export type CreateAssignmentTradeInput = z.infer<typeof createAssignmentTradeSchema>;
+export type RespondAssignmentTradeInput = z.infer<typeof respondAssignmentTradeSchema>;
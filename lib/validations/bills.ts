@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { currencyCodeSchema } from './currency-schemas';
 
 // =====================================================
 // ENUMS
@@ -40,6 +41,7 @@ export const createBillSchema = z.object({
     .positive('Amount must be positive')
     .finite('Amount must be a valid number')
     .max(999999999, 'Amount too large'),
+  currency: currencyCodeSchema.optional(),
   category: z
     .string()
     .max(100, 'Category name too long')
@@ -82,6 +84,7 @@ export const updateBillSchema = z.object({
     .finite('Amount must be a valid number')
     .max(999999999, 'Amount too large')
     .optional(),
+  currency: currencyCodeSchema.optional(),
   category: z
     .string()
     .max(100, 'Category name too long')
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { sanitizePlainText } from '@/lib/sanitize';
+import { currencyCodeSchema } from './currency-schemas';
 
 // Budget category enums (matching expense categories)
 const budgetCategoryEnum = z.enum([
@@ -30,6 +31,7 @@ export const budgetBaseSchema = z.object({
       return parsed;
     })
   ]).refine(val => typeof val === 'number' && val >= 0, 'Budget must be a positive number'),
+  currency: currencyCodeSchema.optional().nullable(),
   period: budgetPeriodEnum.default('monthly'),
   start_date: z.string().optional().nullable()
     .transform(val => val === '' ? null : val)
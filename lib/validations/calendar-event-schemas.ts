@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { sanitizePlainText } from '@/lib/sanitize';
+import { isICalRecurrence, parseStoredRecurrence } from '@/lib/services/recurrence';
 
 /**
  * Calendar Event Validation Schemas
@@ -16,6 +17,18 @@ import { sanitizePlainText } from '@/lib/sanitize';
 // Recurrence pattern values stored in the recurrence_pattern column
 const recurrencePatternEnum = z.enum(['none', 'daily', 'weekly', 'monthly', 'yearly']);
 
+// Full iCalendar recurrences (RRULE/RDATE/EXDATE lines) are stored as-is;
+// sub-daily rules are refused like everywhere a stored recurrence is read
+const icalRecurrenceSchema = z.string().max(2000).refine((val) => {
+  if (!isICalRecurrence(val)) return false;
+  try {
+    parseStoredRecurrence(val);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid recurrence rule');
+
 // Base calendar event schema - field names match DB columns
 export const calendarEventBaseSchema = z.object({
   space_id: z.string().uuid('Invalid space ID'),
@@ -41,7 +54,7 @@ export const calendarEventBaseSchema = z.object({
   is_recurring: z.boolean().default(false),
   recurrence_pattern: z.preprocess(
     (val) => (val === '' || val === null || val === 'none') ? undefined : val,
-    recurrencePatternEnum.optional()
+    z.union([recurrencePatternEnum, icalRecurrenceSchema]).optional()
   ),
   custom_color: z.preprocess(
     (val) => (val === '' || val === null) ? undefined : val,
@@ -59,6 +72,8 @@ export const calendarEventBaseSchema = z.object({
     (val) => (val === '' || val === null) ? undefined : val,
     z.string().uuid().optional()
   ),
+  // Marks the assignee (or creator) as away, e.g. a trip; balanced chore rotations skip them
+  is_away: z.boolean().optional(),
 });
 
 // Create calendar event schema
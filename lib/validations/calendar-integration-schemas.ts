@@ -27,6 +27,8 @@ export const QueueOperationSchema = z.enum(['create', 'update', 'delete']);
 
 export const QueueStatusSchema = z.enum(['pending', 'processing', 'completed', 'failed']);
 
+export const CalendarFeedDomainSchema = z.enum(['events', 'chores', 'bills', 'tasks']);
+
 // =============================================================================
 // API REQUEST SCHEMAS
 // =============================================================================
@@ -207,6 +209,36 @@ export const UpdateConnectionSettingsSchema = z.object({
   sync_enabled: z.boolean().optional(),
 });
 
+// =============================================================================
+// CALENDAR FEED SCHEMAS
+// =============================================================================
+
+const CalendarFeedDomainsSchema = z
+  .array(CalendarFeedDomainSchema)
+  .min(1, 'Select at least one domain')
+  .transform((domains) => Array.from(new Set(domains)));
+
+export const CreateCalendarFeedSchema = z.object({
+  space_id: z.string().uuid('Invalid space ID format'),
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name is too long'),
+  member_id: z.string().uuid('Invalid member ID format').nullable().optional(),
+  domains: CalendarFeedDomainsSchema.optional(),
+});
+
+export const UpdateCalendarFeedSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(100, 'Name is too long').optional(),
+    domains: CalendarFeedDomainsSchema.optional(),
+  })
+  .refine((data) => data.name !== undefined || data.domains !== undefined, {
+    message: 'Nothing to update',
+  });
+
+export const CalendarFeedTokenSchema = z
+  .string()
+  .min(32, 'Feed token must be at least 32 characters')
+  .regex(/^[a-f0-9]+$/, 'Feed token contains invalid characters');
+
 // =============================================================================
 // CRON JOB SCHEMAS
 // =============================================================================
@@ -273,3 +305,5 @@ export type ConnectionListQuery = z.infer<typeof ConnectionListQuerySchema>;
 export type UpdateConnectionSettings = z.infer<typeof UpdateConnectionSettingsSchema>;
 export type CronSyncRequest = z.infer<typeof CronSyncRequestSchema>;
 export type WebhookRenewalRequest = z.infer<typeof WebhookRenewalRequestSchema>;
+export type CreateCalendarFeedInput = z.infer<typeof CreateCalendarFeedSchema>;
+export type UpdateCalendarFeedInput = z.infer<typeof UpdateCalendarFeedSchema>;
@@ -24,6 +24,8 @@ export const choreBaseSchema = z.object({
   category: z.string().max(100).trim().optional().nullable()
     .transform(val => val === '' ? null : val),
   point_value: z.number().int().min(0).max(10000).optional(),
+  effort_weight: z.number().int().min(1).max(5).optional(),
+  estimated_minutes: z.number().int().min(1).max(1440).optional().nullable(),
 });
 
 // Create chore schema
@@ -42,12 +44,35 @@ export const choreRotationSchema = z.object({
   chore_id: z.string().uuid(),
   space_id: z.string().uuid(),
   member_ids: z.array(z.string().uuid()).min(2, 'At least 2 members required for rotation'),
-  rotation_type: z.enum(['round-robin', 'random', 'skill-based']).default('round-robin'),
+  rotation_type: z.enum(['round-robin', 'random', 'skill-based', 'balanced']).default('round-robin'),
   rotation_frequency: z.enum(['daily', 'weekly', 'biweekly', 'monthly']).default('weekly'),
   is_active: z.boolean().default(true),
   created_by: z.string().uuid(),
 });
 
+// Chore rotation swap request schema
+export const choreRotationSwapRequestSchema = z.object({
+  requested_with: z.string().uuid('Invalid user ID'),
+  reason: z.string().max(500).trim().optional().nullable()
+    .transform(val => val === '' ? null : val),
+});
+
+// Chore rotation swap response schema
+export const choreRotationSwapResponseSchema = z.object({
+  action: z.enum(['approve', 'decline', 'cancel']),
+});
+
+// Member unavailability (vacation range) schema
+export const memberUnavailabilitySchema = z.object({
+  starts_on: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format'),
+  ends_on: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format'),
+  reason: z.string().max(200).trim().optional().nullable()
+    .transform(val => val === '' ? null : val),
+}).refine(val => val.ends_on >= val.starts_on, {
+  message: 'End date must be on or after the start date',
+  path: ['ends_on'],
+});
+
 // Chore checklist schema
 export const choreChecklistSchema = z.object({
   chore_id: z.string().uuid(),
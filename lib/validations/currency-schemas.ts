@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+// ISO 4217 currency code (e.g. USD, EUR). Lower-case input is upper-cased.
+export const currencyCodeSchema = z
+  .string()
+  .trim()
+  .transform(val => val.toUpperCase())
+  .refine(val => /^[A-Z]{3}$/.test(val), 'Currency must be a 3-letter ISO 4217 code');
+
+// Manually maintained exchange rate: 1 base_currency = rate quote_currency
+export const upsertExchangeRateSchema = z
+  .object({
+    space_id: z.string().uuid('Invalid space ID'),
+    base_currency: currencyCodeSchema,
+    quote_currency: currencyCodeSchema,
+    rate: z
+      .number()
+      .positive('Rate must be positive')
+      .finite('Rate must be a valid number')
+      .max(1000000, 'Rate too large'),
+    effective_date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)')
+      .optional(),
+  })
+  .refine(data => data.base_currency !== data.quote_currency, {
+    message: 'Currencies must differ',
+    path: ['quote_currency'],
+  });
+
+export const updateBaseCurrencySchema = z.object({
+  space_id: z.string().uuid('Invalid space ID'),
+  base_currency: currencyCodeSchema,
+});
+
+// Type exports
+export type UpsertExchangeRateInput = z.infer<typeof upsertExchangeRateSchema>;
+export type UpdateBaseCurrencyInput = z.infer<typeof updateBaseCurrencySchema>;
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { sanitizePlainText } from '@/lib/sanitize';
+import { currencyCodeSchema } from './currency-schemas';
 
 // Expense status and category enums
 const expenseStatusEnum = z.enum(['pending', 'paid', 'overdue', 'cancelled']);
@@ -28,6 +29,7 @@ export const expenseBaseSchema = z.object({
       return parsed;
     })
   ]).refine(val => typeof val === 'number' && val >= 0, 'Amount must be a positive number'),
+  currency: currencyCodeSchema.optional().nullable(),
   category: expenseCategoryEnum.optional().nullable(),
   payment_method: paymentMethodEnum.optional().nullable(),
   paid_by: z.string().uuid('Invalid user ID').optional().nullable(),
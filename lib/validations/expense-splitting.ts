@@ -1,10 +1,11 @@
 import { z } from 'zod';
+import { currencyCodeSchema } from './currency-schemas';
 
 // =====================================================
 // ENUM SCHEMAS
 // =====================================================
 
-export const splitTypeSchema = z.enum(['equal', 'percentage', 'fixed', 'income-based']);
+export const splitTypeSchema = z.enum(['equal', 'percentage', 'fixed', 'income-based', 'itemized']);
 
 export const ownershipTypeSchema = z.enum(['shared', 'yours', 'theirs']);
 
@@ -70,6 +71,7 @@ export const createSettlementSchema = z.object({
     .refine((val) => Math.round(val * 100) / 100 === val, {
       message: 'Amount can only have 2 decimal places',
     }),
+  currency: currencyCodeSchema.optional(),
   settlement_date: z
     .string()
     .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)')
@@ -86,6 +88,27 @@ export const createSettlementSchema = z.object({
   created_by: z.string().uuid('Invalid creator user ID'),
 });
 
+// =====================================================
+// RECORD SETTLE-UP SCHEMA
+// =====================================================
+
+export const settleUpTransferSchema = z.object({
+  from_user_id: z.string().uuid('Invalid from user ID'),
+  to_user_id: z.string().uuid('Invalid to user ID'),
+  amount: z.number().positive('Amount must be positive').max(999999999, 'Amount too large'),
+});
+
+export const recordSettleUpSchema = z.object({
+  space_id: z.string().uuid('Invalid space ID'),
+  transfers: z.array(settleUpTransferSchema).min(1, 'Nothing to settle').max(100, 'Too many transfers'),
+  settlement_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)')
+    .optional(),
+  payment_method: z.string().max(100, 'Payment method too long').trim().optional(),
+  notes: z.string().max(1000, 'Notes too long').trim().optional(),
+});
+
 // =====================================================
 // UPDATE INCOMES SCHEMA
 // =====================================================
@@ -127,6 +150,40 @@ export const calculateIncomeBasedSplitSchema = z.object({
   user2_income: z.number().min(0, 'Income cannot be negative').max(10000000, 'Income too large'),
 });
 
+// =====================================================
+// ITEMIZED SPLIT SCHEMA
+// =====================================================
+
+export const itemAssigneeSchema = z.union([
+  z.literal('shared'),
+  z.array(z.string().uuid('Invalid assignee ID')).max(50, 'Too many assignees'),
+]);
+
+export const itemizedSplitItemSchema = z.object({
+  name: z.string().min(1, 'Item name is required').max(200, 'Item name too long').trim(),
+  amount: z.number().min(0, 'Amount cannot be negative').max(999999999, 'Amount too large'),
+  quantity: z.number().positive('Quantity must be positive').max(100000, 'Quantity too large').optional().nullable(),
+  assigned_to: itemAssigneeSchema,
+});
+
+export const createItemizedSplitSchema = z
+  .object({
+    participants: z.array(z.string().uuid('Invalid participant ID')).min(1, 'At least one participant is required').max(50, 'Too many participants'),
+    items: z.array(itemizedSplitItemSchema).min(1, 'At least one item is required').max(500, 'Too many items'),
+    tax_amount: z.number().min(0, 'Tax cannot be negative').max(999999999, 'Amount too large').optional().nullable(),
+    tip_amount: z.number().min(0, 'Tip cannot be negative').max(999999999, 'Amount too large').optional().nullable(),
+    receipt_id: z.string().uuid('Invalid receipt ID').optional().nullable(),
+  })
+  .refine(
+    (data) => data.items.every((item) =>
+      item.assigned_to === 'shared' || item.assigned_to.every((userId) => data.participants.includes(userId))
+    ),
+    {
+      message: 'Items can only be assigned to participants',
+      path: ['items'],
+    }
+  );
+
 // =====================================================
 // SAFE VALIDATION FUNCTIONS
 // =====================================================
@@ -139,6 +196,10 @@ export function safeValidateCreateSettlement(data: unknown) {
   return createSettlementSchema.safeParse(data);
 }
 
+export function safeValidateRecordSettleUp(data: unknown) {
+  return recordSettleUpSchema.safeParse(data);
+}
+
 export function safeValidateUpdateIncomes(data: unknown) {
   return updateIncomesSchema.safeParse(data);
 }
@@ -151,15 +212,21 @@ export function safeValidateCalculateIncomeBasedSplit(data: unknown) {
   return calculateIncomeBasedSplitSchema.safeParse(data);
 }
 
+export function safeValidateCreateItemizedSplit(data: unknown) {
+  return createItemizedSplitSchema.safeParse(data);
+}
+
 // =====================================================
 // TYPE EXPORTS
 // =====================================================
 
 export type UpdateSplitExpenseInput = z.infer<typeof updateSplitExpenseSchema>;
 export type CreateSettlementInput = z.infer<typeof createSettlementSchema>;
+export type RecordSettleUpRequest = z.infer<typeof recordSettleUpSchema>;
 export type UpdateIncomesInput = z.infer<typeof updateIncomesSchema>;
 export type SettleSplitInput = z.infer<typeof settleSplitSchema>;
 export type CalculateIncomeBasedSplitInput = z.infer<typeof calculateIncomeBasedSplitSchema>;
+export type CreateItemizedSplitInput = z.infer<typeof createItemizedSplitSchema>;
 export type SplitType = z.infer<typeof splitTypeSchema>;
 export type OwnershipType = z.infer<typeof ownershipTypeSchema>;
 export type SplitStatus = z.infer<typeof splitStatusSchema>;
@@ -1,6 +1,17 @@
 import { z } from 'zod';
 import { sanitizePlainText } from '@/lib/sanitize';
 
+const geoPointSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+/** Polygon corners of a place; null switches it back to a circle */
+const boundarySchema = z.array(geoPointSchema)
+  .min(3, 'A boundary needs at least 3 points')
+  .max(50, 'A boundary can have at most 50 points')
+  .nullable();
+
 export const createPlaceRouteSchema = z.object({
   space_id: z.string().uuid('Invalid space ID'),
   name: z.string().min(1, 'Name is required').max(100, 'Name must be less than 100 characters').trim()
@@ -12,6 +23,9 @@ export const createPlaceRouteSchema = z.object({
   address: z.string().max(500).optional()
     .transform(val => val ? sanitizePlainText(val) : val),
   radius_meters: z.number().min(50, 'Radius must be at least 50m').max(5000, 'Radius must be at most 5000m').default(150),
+  boundary: boundarySchema.optional(),
+  dwell_seconds: z.number().int().min(0).max(1800, 'Dwell time must be at most 30 minutes').optional(),
+  exit_buffer_meters: z.number().int().min(0).max(1000, 'Exit buffer must be at most 1000m').optional(),
   notify_on_arrival: z.boolean().default(true),
   notify_on_departure: z.boolean().default(true),
 });
@@ -29,6 +43,9 @@ export const updatePlaceRouteSchema = z.object({
   address: z.string().max(500).optional()
     .transform(val => val ? sanitizePlainText(val) : val),
   radius_meters: z.number().min(50).max(5000).optional(),
+  boundary: boundarySchema.optional(),
+  dwell_seconds: z.number().int().min(0).max(1800).optional(),
+  exit_buffer_meters: z.number().int().min(0).max(1000).optional(),
   notify_on_arrival: z.boolean().optional(),
   notify_on_departure: z.boolean().optional(),
 });
@@ -59,6 +59,14 @@ export const reminderBaseSchema = z.object({
     (val) => (val === '' || val === null) ? undefined : val,
     z.string().max(500).optional()
   ),
+  // Location reminders fire at a saved place, or an ad-hoc point and radius
+  place_id: z.string().uuid().optional().nullable(),
+  location_latitude: z.number().min(-90).max(90).optional().nullable(),
+  location_longitude: z.number().min(-180).max(180).optional().nullable(),
+  location_radius_meters: z.number().int().min(50).max(5000).optional().nullable(),
+  location_trigger: z.enum(['arrive', 'leave']).optional(),
+  location_member_ids: z.array(z.string().uuid()).max(50).optional(),
+  location_cooldown_minutes: z.number().int().min(0).max(10080).optional(),
   repeat_pattern: z.preprocess(
     (val) => (val === '' || val === null) ? undefined : val,
     z.string().optional()
@@ -144,6 +144,12 @@ export const createDependencySchema = z.object({
   message: 'Task cannot depend on itself',
 });
 
+// Dependency graph query schema
+export const dependencyGraphQuerySchema = z.object({
+  space_id: z.string().uuid('Invalid space ID'),
+  task_id: z.string().uuid('Invalid task ID').optional(),
+});
+
 // Category schema
 export const createCategorySchema = z.object({
   space_id: z.string().uuid(),
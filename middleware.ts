@@ -20,6 +20,8 @@ import type { NextRequest } from 'next/server';
 import { decryptSessionData, validateSessionData, encryptSessionData } from '@/lib/utils/session-crypto-edge';
 import { logger } from '@/lib/logger-edge';
 import { CSRF_EXEMPT_ROUTES, CSRF_HEADER_NAME, generateCsrfToken } from '@/lib/security/csrf';
+import { DAV_BASE_PATH, DAV_EXTENSION_METHODS, DAV_METHOD_HEADER } from '@/lib/services/caldav/constants';
+import { MCP_PATH } from '@/lib/services/mcp/constants';
 
 /** Admin session duration in seconds (24 hours) - must match login route */
 const ADMIN_SESSION_DURATION = 24 * 60 * 60;
@@ -108,6 +110,30 @@ export async function middleware(req: NextRequest) {
   sanitizedHeaders.delete('x-admin-verified');
   sanitizedHeaders.delete('x-admin-id');
 
+  // CalDAV/CardDAV: clients authenticate with app passwords (no session or CSRF cookie).
+  // Route handlers cannot export WebDAV methods, so PROPFIND/REPORT/etc. are
+  // forwarded to the route as POST with the original method in a header.
+  if (pathname === DAV_BASE_PATH || pathname.startsWith(`${DAV_BASE_PATH}/`)) {
+    if (DAV_EXTENSION_METHODS.includes(req.method.toUpperCase())) {
+      const headers = new Headers(sanitizedHeaders);
+      headers.set(DAV_METHOD_HEADER, req.method.toUpperCase());
+      headers.delete('content-length');
+      return fetch(req.url, {
+        method: 'POST',
+        headers,
+        body: await req.text(),
+        redirect: 'manual',
+      });
+    }
+    return NextResponse.next({ request: { headers: sanitizedHeaders } });
+  }
+
+  // MCP: agents authenticate with bearer tokens (no session or CSRF cookie),
+  // and desktop clients may send an Origin that is not ours.
+  if (pathname === MCP_PATH) {
+    return NextResponse.next({ request: { headers: sanitizedHeaders } });
+  }
+
   let response = NextResponse.next({
     request: {
       headers: sanitizedHeaders,
@@ -362,6 +388,7 @@ export async function middleware(req: NextRequest) {
     '/messages',
     '/reminders',
     '/shopping',
+    '/pantry',
     '/meals',
     '/projects',
     '/recipes',
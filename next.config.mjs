@@ -116,6 +116,14 @@ const nextConfig = {
     // Note: Requires explicit placeholder="blur" on Image components
   },
 
+  // CalDAV/CardDAV service discovery (RFC 6764)
+  async redirects() {
+    return [
+      { source: '/.well-known/caldav', destination: '/api/caldav/', permanent: true },
+      { source: '/.well-known/carddav', destination: '/api/caldav/', permanent: true },
+    ];
+  },
+
   // Security headers and CSP
   async headers() {
     // In development: Enable basic security headers but skip CSP (breaks hot reload)
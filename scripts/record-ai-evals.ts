@@ -0,0 +1,38 @@
+/**
+ * Assistant Eval Recording Script
+ *
+ * Re-records the model responses of the assistant eval fixtures with the
+ * configured LLM provider (LLM_PROVIDER and its API key), keeping each case's
+ * messages and expected tool calls. Run after changing the system prompt or
+ * tool definitions, then review the diff and the eval test results:
+ *
+ *   npx tsx scripts/record-ai-evals.ts [case-id ...]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getLLMProvider } from '@/lib/services/ai/llm';
+import { recordEvalCase, type EvalCase } from '@/lib/services/ai/evals';
+
+const FIXTURES_DIR = path.join(process.cwd(), '__tests__/lib/services/ai/evals/fixtures');
+
+async function main() {
+  const only = new Set(process.argv.slice(2));
+  const provider = await getLLMProvider();
+  const files = fs.readdirSync(FIXTURES_DIR).filter((file) => file.endsWith('.json')).sort();
+
+  for (const file of files) {
+    const filePath = path.join(FIXTURES_DIR, file);
+    const evalCase = JSON.parse(fs.readFileSync(filePath, 'utf8')) as EvalCase;
+    if (only.size > 0 && !only.has(evalCase.id)) continue;
+
+    console.log(`Recording ${evalCase.id} with ${provider.name}...`);
+    const recorded = await recordEvalCase(evalCase, provider);
+    fs.writeFileSync(filePath, `${JSON.stringify(recorded, null, 2)}\n`);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Recording failed:', error);
+  process.exit(1);
+});
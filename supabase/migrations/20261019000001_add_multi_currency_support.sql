@@ -0,0 +1,269 @@
+-- Multi-Currency Support for Expenses, Bills, Budgets and Settlements
+-- Adds a currency code to every money record, a per-space base currency,
+-- and a manually maintained exchange rate table used for base-currency reporting.
+-- Original amounts are never rewritten; conversion happens at read time.
+
+-- ============================================================================
+-- SPACE BASE CURRENCY
+-- ============================================================================
+
+ALTER TABLE spaces
+ADD COLUMN IF NOT EXISTS base_currency TEXT NOT NULL DEFAULT 'USD'
+  CHECK (base_currency ~ '^[A-Z]{3}$');
+
+COMMENT ON COLUMN spaces.base_currency IS 'ISO 4217 currency that balances, budgets and reports are expressed in';
+
+-- ============================================================================
+-- CURRENCY COLUMNS
+-- ============================================================================
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS currency TEXT;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS currency TEXT;
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS currency TEXT;
+ALTER TABLE settlements ADD COLUMN IF NOT EXISTS currency TEXT;
+
+-- Backfill existing rows with their space's base currency
+UPDATE expenses e SET currency = s.base_currency FROM spaces s WHERE e.space_id = s.id AND e.currency IS NULL;
+UPDATE bills b SET currency = s.base_currency FROM spaces s WHERE b.space_id = s.id AND b.currency IS NULL;
+UPDATE budgets b SET currency = s.base_currency FROM spaces s WHERE b.space_id = s.id AND b.currency IS NULL;
+UPDATE settlements st SET currency = s.base_currency FROM spaces s WHERE st.space_id = s.id AND st.currency IS NULL;
+
+UPDATE expenses SET currency = 'USD' WHERE currency IS NULL;
+UPDATE bills SET currency = 'USD' WHERE currency IS NULL;
+UPDATE budgets SET currency = 'USD' WHERE currency IS NULL;
+UPDATE settlements SET currency = 'USD' WHERE currency IS NULL;
+
+ALTER TABLE expenses ALTER COLUMN currency SET NOT NULL;
+ALTER TABLE bills ALTER COLUMN currency SET NOT NULL;
+ALTER TABLE budgets ALTER COLUMN currency SET NOT NULL;
+ALTER TABLE settlements ALTER COLUMN currency SET NOT NULL;
+
+ALTER TABLE expenses ADD CONSTRAINT expenses_currency_check CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE bills ADD CONSTRAINT bills_currency_check CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE budgets ADD CONSTRAINT budgets_currency_check CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE settlements ADD CONSTRAINT settlements_currency_check CHECK (currency ~ '^[A-Z]{3}$');
+
+COMMENT ON COLUMN expenses.currency IS 'ISO 4217 currency of amount (defaults to space base currency)';
+COMMENT ON COLUMN bills.currency IS 'ISO 4217 currency of amount (defaults to space base currency)';
+COMMENT ON COLUMN budgets.currency IS 'ISO 4217 currency of monthly_budget (defaults to space base currency)';
+COMMENT ON COLUMN settlements.currency IS 'ISO 4217 currency of amount (defaults to space base currency)';
+
+-- Default a missing currency to the space's base currency on insert
+CREATE OR REPLACE FUNCTION set_default_currency_from_space()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.currency IS NULL THEN
+    SELECT base_currency INTO NEW.currency FROM spaces WHERE id = NEW.space_id;
+    NEW.currency := COALESCE(NEW.currency, 'USD');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_expenses_default_currency
+  BEFORE INSERT ON expenses
+  FOR EACH ROW EXECUTE FUNCTION set_default_currency_from_space();
+
+CREATE TRIGGER trigger_bills_default_currency
+  BEFORE INSERT ON bills
+  FOR EACH ROW EXECUTE FUNCTION set_default_currency_from_space();
+
+CREATE TRIGGER trigger_budgets_default_currency
+  BEFORE INSERT ON budgets
+  FOR EACH ROW EXECUTE FUNCTION set_default_currency_from_space();
+
+CREATE TRIGGER trigger_settlements_default_currency
+  BEFORE INSERT ON settlements
+  FOR EACH ROW EXECUTE FUNCTION set_default_currency_from_space();
+
+-- ============================================================================
+-- EXCHANGE RATES
+-- ============================================================================
+
+-- 1 unit of base_currency = rate units of quote_currency, from effective_date on
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  base_currency TEXT NOT NULL CHECK (base_currency ~ '^[A-Z]{3}$'),
+  quote_currency TEXT NOT NULL CHECK (quote_currency ~ '^[A-Z]{3}$'),
+  rate NUMERIC(18, 8) NOT NULL CHECK (rate > 0),
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT exchange_rates_distinct_currencies CHECK (base_currency <> quote_currency),
+  CONSTRAINT exchange_rates_unique_pair_per_day UNIQUE (space_id, base_currency, quote_currency, effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_space ON exchange_rates(space_id);
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_created_by ON exchange_rates(created_by);
+
+CREATE OR REPLACE FUNCTION update_exchange_rates_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_exchange_rates_updated_at
+  BEFORE UPDATE ON exchange_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_exchange_rates_updated_at();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Space members can view exchange rates"
+  ON exchange_rates FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM space_members
+      WHERE space_members.space_id = exchange_rates.space_id
+      AND space_members.user_id = (SELECT auth.uid())
+    )
+  );
+
+CREATE POLICY "Space members can insert exchange rates"
+  ON exchange_rates FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM space_members
+      WHERE space_members.space_id = exchange_rates.space_id
+      AND space_members.user_id = (SELECT auth.uid())
+    )
+  );
+
+CREATE POLICY "Space members can update exchange rates"
+  ON exchange_rates FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM space_members
+      WHERE space_members.space_id = exchange_rates.space_id
+      AND space_members.user_id = (SELECT auth.uid())
+    )
+  );
+
+CREATE POLICY "Space members can delete exchange rates"
+  ON exchange_rates FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM space_members
+      WHERE space_members.space_id = exchange_rates.space_id
+      AND space_members.user_id = (SELECT auth.uid())
+    )
+  );
+
+-- ============================================================================
+-- FINANCIAL REPORT DATA: INCLUDE ORIGINAL CURRENCIES
+-- ============================================================================
+
+-- Amounts are returned in their original currency; the application converts
+-- them to the space base currency and recomputes the money metrics.
+CREATE OR REPLACE FUNCTION get_financial_report_data(
+    p_space_id UUID,
+    p_start_date DATE,
+    p_end_date DATE,
+    p_config JSONB DEFAULT '{}'::JSONB
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    result JSONB := '{}';
+    expense_data JSONB;
+    budget_data JSONB;
+    goal_data JSONB;
+    metrics JSONB;
+BEGIN
+    -- Runs as definer, so only members of the space may read its report data
+    IF NOT EXISTS (
+        SELECT 1 FROM space_members WHERE space_id = p_space_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Not a member of this space' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(
+        jsonb_build_object(
+            'id', id,
+            'amount', amount,
+            'currency', currency,
+            'category', category,
+            'subcategory', subcategory,
+            'vendor', vendor,
+            'description', description,
+            'date', date,
+            'is_recurring', is_recurring
+        )
+    ), '[]'::jsonb) INTO expense_data
+    FROM expenses
+    WHERE space_id = p_space_id
+    AND date BETWEEN p_start_date AND p_end_date;
+
+    SELECT COALESCE(jsonb_agg(
+        jsonb_build_object(
+            'category', category,
+            'budgeted_amount', amount,
+            'currency', currency,
+            'period', period
+        )
+    ), '[]'::jsonb) INTO budget_data
+    FROM budgets
+    WHERE space_id = p_space_id
+    AND is_active = true;
+
+    IF (p_config->>'includeGoals')::boolean = true THEN
+        SELECT COALESCE(jsonb_agg(
+            jsonb_build_object(
+                'id', id,
+                'title', title,
+                'category', category,
+                'status', status,
+                'progress', progress,
+                'target_date', target_date
+            )
+        ), '[]'::jsonb) INTO goal_data
+        FROM goals
+        WHERE space_id = p_space_id
+        AND created_at BETWEEN p_start_date::timestamp AND p_end_date::timestamp;
+    END IF;
+
+    SELECT jsonb_build_object(
+        'total_expenses', COALESCE(SUM(amount), 0),
+        'expense_count', COUNT(*),
+        'avg_expense', COALESCE(AVG(amount), 0),
+        'max_expense', COALESCE(MAX(amount), 0),
+        'categories_count', COUNT(DISTINCT category),
+        'vendors_count', COUNT(DISTINCT vendor)
+    ) INTO metrics
+    FROM expenses
+    WHERE space_id = p_space_id
+    AND date BETWEEN p_start_date AND p_end_date;
+
+    result := jsonb_build_object(
+        'expenses', expense_data,
+        'budgets', budget_data,
+        'goals', COALESCE(goal_data, '[]'::jsonb),
+        'metrics', metrics,
+        'date_range', jsonb_build_object(
+            'start', p_start_date,
+            'end', p_end_date
+        ),
+        'generated_at', NOW()
+    );
+
+    RETURN result;
+END;
+$$;
@@ -0,0 +1,257 @@
+-- Itemized Expense Splits
+-- Lets a scanned receipt's line items be assigned to individual household
+-- members (or shared), with tax and tip allocated in proportion to each
+-- person's items. Split rows for itemized expenses are written by the
+-- application, so the automatic split calculation leaves them alone.
+
+-- ============================================================================
+-- SPLIT TYPE
+-- ============================================================================
+
+ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expenses_split_type_check;
+ALTER TABLE expenses ADD CONSTRAINT expenses_split_type_check
+  CHECK (split_type IN ('equal', 'percentage', 'fixed', 'income-based', 'itemized'));
+
+-- ============================================================================
+-- SPLIT BREAKDOWN
+-- ============================================================================
+
+ALTER TABLE expense_splits ADD COLUMN IF NOT EXISTS item_subtotal DECIMAL(10, 2);
+ALTER TABLE expense_splits ADD COLUMN IF NOT EXISTS tax_share DECIMAL(10, 2);
+ALTER TABLE expense_splits ADD COLUMN IF NOT EXISTS tip_share DECIMAL(10, 2);
+
+COMMENT ON COLUMN expense_splits.item_subtotal IS 'Itemized splits: sum of the line items assigned to this user';
+COMMENT ON COLUMN expense_splits.tax_share IS 'Itemized splits: tax allocated in proportion to item_subtotal';
+COMMENT ON COLUMN expense_splits.tip_share IS 'Itemized splits: tip allocated in proportion to item_subtotal';
+
+-- ============================================================================
+-- LINE ITEM ASSIGNMENTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS expense_split_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  expense_id UUID NOT NULL REFERENCES expenses(id) ON DELETE CASCADE,
+  receipt_id UUID REFERENCES receipts(id) ON DELETE SET NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 200),
+  quantity DECIMAL(10, 3),
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount >= 0),
+  -- Empty array = shared equally by every participant
+  assigned_user_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_expense_split_items_expense ON expense_split_items(expense_id);
+CREATE INDEX IF NOT EXISTS idx_expense_split_items_receipt ON expense_split_items(receipt_id);
+
+ALTER TABLE expense_split_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Space members can view expense split items"
+  ON expense_split_items FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM expenses
+      JOIN space_members ON space_members.space_id = expenses.space_id
+      WHERE expenses.id = expense_split_items.expense_id
+      AND space_members.user_id = (SELECT auth.uid())
+    )
+  );
+
+CREATE POLICY "Space members can manage expense split items"
+  ON expense_split_items FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM expenses
+      JOIN space_members ON space_members.space_id = expenses.space_id
+      WHERE expenses.id = expense_split_items.expense_id
+      AND space_members.user_id = (SELECT auth.uid())
+    )
+  );
+
+-- ============================================================================
+-- AUTOMATIC SPLIT CALCULATION: SKIP ITEMIZED EXPENSES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION calculate_expense_splits(p_expense_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_expense RECORD;
+  v_space_id UUID;
+  v_users UUID[];
+  v_user1_id UUID;
+  v_user2_id UUID;
+  v_amount DECIMAL(10, 2);
+  v_split_type TEXT;
+  v_user1_amount DECIMAL(10, 2);
+  v_user2_amount DECIMAL(10, 2);
+  v_user1_income DECIMAL(12, 2);
+  v_user2_income DECIMAL(12, 2);
+  v_total_income DECIMAL(12, 2);
+BEGIN
+  -- Get expense details
+  SELECT * INTO v_expense FROM expenses WHERE id = p_expense_id;
+
+  IF NOT FOUND OR v_expense.is_split = false THEN
+    RETURN;
+  END IF;
+
+  -- Itemized splits are computed from line item assignments by the application
+  IF v_expense.split_type = 'itemized' THEN
+    RETURN;
+  END IF;
+
+  v_space_id := v_expense.space_id;
+  v_amount := v_expense.amount;
+  v_split_type := v_expense.split_type;
+
+  -- Get the two users in the space
+  SELECT ARRAY_AGG(user_id) INTO v_users
+  FROM space_members
+  WHERE space_id = v_space_id
+  LIMIT 2;
+
+  IF ARRAY_LENGTH(v_users, 1) < 2 THEN
+    RETURN; -- Need at least 2 users to split
+  END IF;
+
+  v_user1_id := v_users[1];
+  v_user2_id := v_users[2];
+
+  -- Calculate split amounts based on type
+  CASE v_split_type
+    WHEN 'equal' THEN
+      v_user1_amount := v_amount / 2;
+      v_user2_amount := v_amount / 2;
+
+    WHEN 'percentage' THEN
+      v_user1_amount := (v_amount * COALESCE(v_expense.split_percentage_user1, 50)) / 100;
+      v_user2_amount := (v_amount * COALESCE(v_expense.split_percentage_user2, 50)) / 100;
+
+    WHEN 'fixed' THEN
+      v_user1_amount := COALESCE(v_expense.split_amount_user1, v_amount / 2);
+      v_user2_amount := COALESCE(v_expense.split_amount_user2, v_amount / 2);
+
+    WHEN 'income-based' THEN
+      -- Get incomes from partnership_balances
+      SELECT user1_income, user2_income INTO v_user1_income, v_user2_income
+      FROM partnership_balances pb
+      INNER JOIN spaces s ON pb.space_id = s.id
+      WHERE s.id = v_space_id
+      LIMIT 1;
+
+      IF v_user1_income IS NOT NULL AND v_user2_income IS NOT NULL THEN
+        v_total_income := v_user1_income + v_user2_income;
+        IF v_total_income > 0 THEN
+          v_user1_amount := (v_amount * v_user1_income) / v_total_income;
+          v_user2_amount := (v_amount * v_user2_income) / v_total_income;
+        ELSE
+          -- Fallback to equal split if no income data
+          v_user1_amount := v_amount / 2;
+          v_user2_amount := v_amount / 2;
+        END IF;
+      ELSE
+        -- Fallback to equal split if no income data
+        v_user1_amount := v_amount / 2;
+        v_user2_amount := v_amount / 2;
+      END IF;
+
+    ELSE
+      -- Default to equal split
+      v_user1_amount := v_amount / 2;
+      v_user2_amount := v_amount / 2;
+  END CASE;
+
+  -- Delete existing splits for this expense
+  DELETE FROM expense_splits WHERE expense_id = p_expense_id;
+
+  -- Create new splits
+  INSERT INTO expense_splits (expense_id, user_id, amount_owed, percentage, is_payer)
+  VALUES
+    (p_expense_id, v_user1_id, v_user1_amount, (v_user1_amount / v_amount) * 100, v_expense.paid_by = v_user1_id),
+    (p_expense_id, v_user2_id, v_user2_amount, (v_user2_amount / v_amount) * 100, v_expense.paid_by = v_user2_id);
+
+  -- Update amount_paid for the payer
+  IF v_expense.paid_by IS NOT NULL THEN
+    UPDATE expense_splits
+    SET amount_paid = amount_owed, status = 'settled'
+    WHERE expense_id = p_expense_id AND user_id = v_expense.paid_by;
+  END IF;
+
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- REPLACE ITEMIZED SPLITS
+-- ============================================================================
+
+-- Swaps an expense's item assignments and split rows in one transaction, so
+-- a failed write never leaves the expense with its old splits deleted. The
+-- application computes the shares; p_items and p_splits are JSON arrays of
+-- expense_split_items and expense_splits columns.
+CREATE OR REPLACE FUNCTION replace_itemized_expense_splits(
+  p_expense_id UUID,
+  p_receipt_id UUID,
+  p_items JSONB,
+  p_splits JSONB
+)
+RETURNS SETOF expense_splits
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_space_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT space_id INTO v_space_id FROM expenses WHERE id = p_expense_id FOR UPDATE;
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM space_members WHERE space_id = v_space_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Expense not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_splits) AS s(user_id UUID)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM space_members WHERE space_id = v_space_id AND user_id = s.user_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Every participant must be a member of the space' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE expenses SET is_split = true, split_type = 'itemized' WHERE id = p_expense_id;
+
+  DELETE FROM expense_split_items WHERE expense_id = p_expense_id;
+  INSERT INTO expense_split_items (expense_id, receipt_id, position, name, quantity, amount, assigned_user_ids)
+  SELECT p_expense_id, p_receipt_id, i.position, i.name, i.quantity, i.amount, i.assigned_user_ids
+  FROM jsonb_to_recordset(p_items) AS i(
+    position INTEGER, name TEXT, quantity DECIMAL(10, 3), amount DECIMAL(10, 2), assigned_user_ids UUID[]
+  );
+
+  DELETE FROM expense_splits WHERE expense_id = p_expense_id;
+  RETURN QUERY
+  WITH inserted AS (
+    INSERT INTO expense_splits (
+      expense_id, user_id, amount_owed, amount_paid, percentage, is_payer, status, settled_at,
+      item_subtotal, tax_share, tip_share
+    )
+    SELECT
+      p_expense_id, s.user_id, s.amount_owed, s.amount_paid, s.percentage, s.is_payer, s.status, s.settled_at,
+      s.item_subtotal, s.tax_share, s.tip_share
+    FROM jsonb_to_recordset(p_splits) AS s(
+      user_id UUID, amount_owed DECIMAL(10, 2), amount_paid DECIMAL(10, 2), percentage DECIMAL(5, 2),
+      is_payer BOOLEAN, status TEXT, settled_at TIMESTAMPTZ,
+      item_subtotal DECIMAL(10, 2), tax_share DECIMAL(10, 2), tip_share DECIMAL(10, 2)
+    )
+    RETURNING *
+  )
+  SELECT * FROM inserted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION replace_itemized_expense_splits(UUID, UUID, JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION replace_itemized_expense_splits(UUID, UUID, JSONB, JSONB) TO authenticated;
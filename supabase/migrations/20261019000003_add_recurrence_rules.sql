@@ -0,0 +1,24 @@
+-- Shared Recurrence Rules
+-- Tasks and chores can carry a full RFC 5545 recurrence (RRULE, RDATE and
+-- EXDATE lines) so rules imported from or synced with other calendars keep
+-- details such as BYSETPOS, COUNT/UNTIL and excluded dates. The existing
+-- frequency columns stay as a coarse summary for filtering and the UI.
+-- Events and reminders already store free-text patterns and need no change.
+
+-- ============================================================================
+-- TASKS
+-- ============================================================================
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurrence_rule TEXT
+  CHECK (recurrence_rule IS NULL OR char_length(recurrence_rule) <= 2000);
+
+COMMENT ON COLUMN tasks.recurrence_rule IS 'iCalendar RRULE/RDATE/EXDATE lines; overrides the recurrence_* pattern columns when set';
+
+-- ============================================================================
+-- CHORES
+-- ============================================================================
+
+ALTER TABLE chores ADD COLUMN IF NOT EXISTS recurrence_rule TEXT
+  CHECK (recurrence_rule IS NULL OR char_length(recurrence_rule) <= 2000);
+
+COMMENT ON COLUMN chores.recurrence_rule IS 'iCalendar RRULE/RDATE/EXDATE lines; overrides frequency when set';
@@ -0,0 +1,132 @@
+-- Calendar Feeds
+-- Tokenized, revocable iCalendar subscriptions (webcal://) so household
+-- members on other calendar apps can follow Rowan read-only. A feed covers a
+-- whole space or, when member_id is set, only the items assigned to that
+-- member, and lists which domains (events, chores, bills, tasks) it includes.
+-- The token is the only credential a calendar app sends, so feeds are only
+-- visible to the member who created them and to space admins, who can revoke
+-- them, and are served via the admin client. A feed stops serving once its
+-- creator or member leaves the space.
+
+-- ============================================================================
+-- TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL = everything in the space
+  member_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  token TEXT NOT NULL UNIQUE CHECK (char_length(token) >= 32),
+  domains TEXT[] NOT NULL DEFAULT ARRAY['events', 'chores', 'bills', 'tasks']
+    CHECK (
+      cardinality(domains) > 0
+      AND domains <@ ARRAY['events', 'chores', 'bills', 'tasks']
+    ),
+  revoked_at TIMESTAMPTZ,
+  last_accessed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_space ON calendar_feeds(space_id);
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_created_by ON calendar_feeds(created_by);
+
+CREATE TRIGGER update_calendar_feeds_updated_at
+  BEFORE UPDATE ON calendar_feeds
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN calendar_feeds.member_id IS 'Limit the feed to items assigned to this member; NULL for the whole space';
+COMMENT ON COLUMN calendar_feeds.token IS 'Secret used in the webcal:// URL; revoke the feed rather than reusing it';
+COMMENT ON COLUMN calendar_feeds.domains IS 'Which of events, chores, bills and tasks the feed includes';
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar feeds"
+  ON calendar_feeds FOR SELECT
+  USING (created_by = (SELECT auth.uid()));
+
+CREATE POLICY "Space admins can view calendar feeds in their space"
+  ON calendar_feeds FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM space_members
+      WHERE space_members.space_id = calendar_feeds.space_id
+      AND space_members.user_id = (SELECT auth.uid())
+      AND space_members.role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Space members can create calendar feeds"
+  ON calendar_feeds FOR INSERT
+  WITH CHECK (
+    created_by = (SELECT auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM space_members
+      WHERE space_members.space_id = calendar_feeds.space_id
+      AND space_members.user_id = (SELECT auth.uid())
+    )
+    AND (
+      member_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM space_members
+        WHERE space_members.space_id = calendar_feeds.space_id
+        AND space_members.user_id = calendar_feeds.member_id
+      )
+    )
+  );
+
+-- The updated row must still be the caller's, in a space they belong to,
+-- following a member of that space (the same rules as creating a feed).
+-- Revoked feeds are final, so an admin's revocation cannot be undone.
+CREATE POLICY "Users can update their own calendar feeds"
+  ON calendar_feeds FOR UPDATE
+  USING (created_by = (SELECT auth.uid()) AND revoked_at IS NULL)
+  WITH CHECK (
+    created_by = (SELECT auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM space_members
+      WHERE space_members.space_id = calendar_feeds.space_id
+      AND space_members.user_id = (SELECT auth.uid())
+    )
+    AND (
+      member_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM space_members
+        WHERE space_members.space_id = calendar_feeds.space_id
+        AND space_members.user_id = calendar_feeds.member_id
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete their own calendar feeds"
+  ON calendar_feeds FOR DELETE
+  USING (created_by = (SELECT auth.uid()));
+
+-- Admins can only revoke: the row must come out of the update revoked
+CREATE POLICY "Space admins can revoke calendar feeds in their space"
+  ON calendar_feeds FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM space_members
+      WHERE space_members.space_id = calendar_feeds.space_id
+      AND space_members.user_id = (SELECT auth.uid())
+      AND space_members.role IN ('owner', 'admin')
+    )
+  )
+  WITH CHECK (
+    revoked_at IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM space_members
+      WHERE space_members.space_id = calendar_feeds.space_id
+      AND space_members.user_id = (SELECT auth.uid())
+      AND space_members.role IN ('owner', 'admin')
+    )
+  );
@@ -0,0 +1,54 @@
+-- CalDAV / CardDAV Server
+-- Native calendar and contacts apps sync with Rowan over CalDAV/CardDAV at
+-- /api/caldav/, authenticating with per-device app passwords instead of the
+-- account password. Events keep the client's UID and resource name so
+-- objects created on a device round-trip unchanged.
+
+-- ============================================================================
+-- APP PASSWORDS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dav_app_passwords (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  label TEXT NOT NULL CHECK (char_length(label) BETWEEN 1 AND 100),
+  -- SHA-256 of the normalized password; the password itself is shown once
+  password_hash TEXT NOT NULL UNIQUE,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dav_app_passwords_user ON dav_app_passwords(user_id);
+
+ALTER TABLE dav_app_passwords ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own app passwords"
+  ON dav_app_passwords FOR SELECT
+  USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own app passwords"
+  ON dav_app_passwords FOR INSERT
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can revoke their own app passwords"
+  ON dav_app_passwords FOR UPDATE
+  USING (user_id = (SELECT auth.uid()));
+
+-- ============================================================================
+-- EVENTS: CALDAV OBJECT IDENTITY
+-- ============================================================================
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS ical_uid TEXT
+  CHECK (ical_uid IS NULL OR char_length(ical_uid) <= 255);
+ALTER TABLE events ADD COLUMN IF NOT EXISTS dav_resource_name TEXT
+  CHECK (dav_resource_name IS NULL OR char_length(dav_resource_name) <= 255);
+ALTER TABLE events ADD COLUMN IF NOT EXISTS is_all_day BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_dav_resource_name
+  ON events(space_id, dav_resource_name)
+  WHERE dav_resource_name IS NOT NULL AND deleted_at IS NULL;
+
+COMMENT ON COLUMN events.ical_uid IS 'iCalendar UID supplied by a CalDAV client; NULL for events created in Rowan';
+COMMENT ON COLUMN events.dav_resource_name IS 'CalDAV resource name (without .ics) chosen by the client; NULL means the event ID is used';
+COMMENT ON COLUMN events.is_all_day IS 'TRUE for date-only events (DTSTART;VALUE=DATE)';
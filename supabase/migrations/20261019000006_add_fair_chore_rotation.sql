@@ -0,0 +1,309 @@
+-- Fair Chore Rotation
+-- Adds a 'balanced' rotation mode that hands the next turn to the member with
+-- the least accumulated effort, member unavailability (vacation ranges and
+-- calendar events marked as away), and turn swaps between rotation members
+-- that take effect once the other member approves.
+
+-- ============================================================================
+-- ROTATION MODE
+-- ============================================================================
+
+-- The UI has always written 'round-robin'; keep accepting both spellings
+ALTER TABLE chore_rotations DROP CONSTRAINT IF EXISTS chore_rotations_rotation_type_check;
+ALTER TABLE chore_rotations ADD CONSTRAINT chore_rotations_rotation_type_check
+  CHECK (rotation_type IN ('round_robin', 'round-robin', 'random', 'custom', 'balanced'));
+
+COMMENT ON COLUMN chore_rotations.rotation_type IS
+  'round_robin = sequential, random = random selection, balanced = least accumulated effort (processed by the app, not process_chore_rotations)';
+
+-- Same as before, but treats 'round-robin' like 'round_robin' instead of raising
+CREATE OR REPLACE FUNCTION get_next_rotation_user(rotation_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  rotation_record RECORD;
+  next_user_id UUID;
+  user_list JSONB;
+  list_length INTEGER;
+BEGIN
+  SELECT * INTO rotation_record
+  FROM chore_rotations
+  WHERE id = rotation_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rotation not found: %', rotation_id;
+  END IF;
+
+  user_list := rotation_record.user_order;
+  list_length := jsonb_array_length(user_list);
+
+  IF list_length = 0 THEN
+    RAISE EXCEPTION 'No users in rotation: %', rotation_id;
+  END IF;
+
+  IF rotation_record.rotation_type IN ('round_robin', 'round-robin') THEN
+    next_user_id := (user_list->>(rotation_record.current_index % list_length))::UUID;
+
+    UPDATE chore_rotations
+    SET current_index = (current_index + 1) % list_length
+    WHERE id = rotation_id;
+
+  ELSIF rotation_record.rotation_type = 'random' THEN
+    next_user_id := (user_list->>floor(random() * list_length)::INTEGER)::UUID;
+
+  ELSE
+    RAISE EXCEPTION 'Unsupported rotation type: %', rotation_record.rotation_type;
+  END IF;
+
+  RETURN next_user_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Balanced rotations need points, penalties and availability, so the app
+-- processes them; the SQL job only handles the positional modes
+CREATE OR REPLACE FUNCTION process_chore_rotations()
+RETURNS void AS $$
+DECLARE
+  rotation_record RECORD;
+  next_user_id UUID;
+BEGIN
+  FOR rotation_record IN
+    SELECT * FROM chore_rotations
+    WHERE is_active = TRUE
+      AND rotation_type <> 'balanced'
+      AND next_rotation_date <= CURRENT_DATE
+  LOOP
+    next_user_id := get_next_rotation_user(rotation_record.id);
+
+    UPDATE chores
+    SET assigned_to = next_user_id
+    WHERE id = rotation_record.chore_id;
+
+    UPDATE chore_rotations
+    SET
+      last_rotation_date = CURRENT_DATE,
+      last_assigned_to = next_user_id,
+      next_rotation_date = CASE rotation_frequency
+        WHEN 'daily' THEN CURRENT_DATE + INTERVAL '1 day'
+        WHEN 'weekly' THEN CURRENT_DATE + INTERVAL '1 week'
+        WHEN 'biweekly' THEN CURRENT_DATE + INTERVAL '2 weeks'
+        WHEN 'monthly' THEN CURRENT_DATE + INTERVAL '1 month'
+        ELSE CURRENT_DATE + INTERVAL '1 week'
+      END
+    WHERE id = rotation_record.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- CHORE EFFORT
+-- ============================================================================
+
+ALTER TABLE chores ADD COLUMN IF NOT EXISTS effort_weight SMALLINT NOT NULL DEFAULT 1
+  CHECK (effort_weight BETWEEN 1 AND 5);
+ALTER TABLE chores ADD COLUMN IF NOT EXISTS estimated_minutes INTEGER
+  CHECK (estimated_minutes IS NULL OR estimated_minutes BETWEEN 1 AND 1440);
+
+COMMENT ON COLUMN chores.effort_weight IS 'Relative difficulty from 1 (easy) to 5 (hard), used by balanced rotations';
+COMMENT ON COLUMN chores.estimated_minutes IS 'Typical time to complete; NULL counts as 30 minutes in balanced rotations';
+
+-- ============================================================================
+-- MEMBER UNAVAILABILITY
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS member_unavailability (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  reason TEXT CHECK (reason IS NULL OR char_length(reason) <= 200),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_member_unavailability_space_dates
+  ON member_unavailability(space_id, starts_on, ends_on);
+
+ALTER TABLE member_unavailability ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Space members can view unavailability"
+  ON member_unavailability FOR SELECT
+  USING (
+    space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid()))
+  );
+
+CREATE POLICY "Members can add their own unavailability"
+  ON member_unavailability FOR INSERT
+  WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid()))
+  );
+
+CREATE POLICY "Members can remove their own unavailability"
+  ON member_unavailability FOR DELETE
+  USING (user_id = (SELECT auth.uid()));
+
+-- Calendar events can mark their assignee (or creator) as away
+ALTER TABLE events ADD COLUMN IF NOT EXISTS is_away BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN events.is_away IS 'TRUE when the assignee (or creator, if unassigned) is away and should be skipped by balanced chore rotations';
+
+-- ============================================================================
+-- ROTATION SWAPS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS chore_rotation_swaps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rotation_id UUID NOT NULL REFERENCES chore_rotations(id) ON DELETE CASCADE,
+  requested_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  requested_with UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'declined', 'cancelled')),
+  reason TEXT CHECK (reason IS NULL OR char_length(reason) <= 500),
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (requested_by <> requested_with)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chore_rotation_swaps_rotation ON chore_rotation_swaps(rotation_id, status);
+CREATE INDEX IF NOT EXISTS idx_chore_rotation_swaps_requested_with ON chore_rotation_swaps(requested_with, status);
+
+-- One open request per pair and rotation
+CREATE UNIQUE INDEX IF NOT EXISTS idx_chore_rotation_swaps_pending
+  ON chore_rotation_swaps(rotation_id, requested_by, requested_with)
+  WHERE status = 'pending';
+
+ALTER TABLE chore_rotation_swaps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Swap participants can view swaps"
+  ON chore_rotation_swaps FOR SELECT
+  USING (requested_by = (SELECT auth.uid()) OR requested_with = (SELECT auth.uid()));
+
+CREATE POLICY "Members can request swaps"
+  ON chore_rotation_swaps FOR INSERT
+  WITH CHECK (
+    requested_by = (SELECT auth.uid())
+    AND status = 'pending'
+    AND EXISTS (
+      SELECT 1
+      FROM chore_rotations
+      JOIN chores ON chores.id = chore_rotations.chore_id
+      JOIN space_members ON space_members.space_id = chores.space_id
+      WHERE chore_rotations.id = chore_rotation_swaps.rotation_id
+      AND space_members.user_id = (SELECT auth.uid())
+    )
+  );
+
+-- Declining and cancelling are plain updates; approving goes through
+-- approve_chore_rotation_swap so it cannot be done without applying the swap.
+-- Only the requester cancels and only the requested member declines.
+CREATE POLICY "Swap participants can respond"
+  ON chore_rotation_swaps FOR UPDATE
+  USING (
+    status = 'pending'
+    AND (requested_by = (SELECT auth.uid()) OR requested_with = (SELECT auth.uid()))
+  )
+  WITH CHECK (
+    (status = 'cancelled' AND requested_by = (SELECT auth.uid()))
+    OR (status = 'declined' AND requested_with = (SELECT auth.uid()))
+  );
+
+COMMENT ON TABLE chore_rotation_swaps IS 'Requests to trade rotation turns; approved swaps exchange the two members'' positions and the current assignment';
+
+-- ============================================================================
+-- APPROVE SWAP
+-- ============================================================================
+
+-- Approves a pending swap as the requested member in one transaction: the
+-- rotation is locked, the two members trade places in its order (and the
+-- current turn), and the chore moves to the other member if either holds it.
+-- Errors use SQLSTATE P0002 (not found), 42501 (not allowed) and P0001
+-- (conflict) so callers can map them to HTTP statuses
+CREATE OR REPLACE FUNCTION approve_chore_rotation_swap(p_swap_id UUID)
+RETURNS chore_rotation_swaps
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_swap chore_rotation_swaps%ROWTYPE;
+  v_rotation chore_rotations%ROWTYPE;
+  v_space_id UUID;
+  v_by_index INTEGER;
+  v_with_index INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_swap FROM chore_rotation_swaps WHERE id = p_swap_id;
+  IF NOT FOUND OR v_user_id NOT IN (v_swap.requested_by, v_swap.requested_with) THEN
+    RAISE EXCEPTION 'Swap request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the rotation before the swap so concurrent approvals in the same
+  -- rotation apply one after the other, each to the order the last one left
+  SELECT * INTO v_rotation FROM chore_rotations WHERE id = v_swap.rotation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This chore has no rotation' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT space_id INTO v_space_id FROM chores WHERE id = v_rotation.chore_id FOR UPDATE;
+  IF NOT EXISTS (
+    SELECT 1 FROM space_members WHERE space_id = v_space_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Swap request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_swap FROM chore_rotation_swaps WHERE id = p_swap_id FOR UPDATE;
+  IF v_swap.status <> 'pending' THEN
+    RAISE EXCEPTION 'Swap request is already %', v_swap.status USING ERRCODE = 'P0001';
+  END IF;
+  IF v_swap.requested_with <> v_user_id THEN
+    RAISE EXCEPTION 'Only the requested member can respond to a swap' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT e.idx - 1 INTO v_by_index
+  FROM jsonb_array_elements_text(v_rotation.user_order) WITH ORDINALITY AS e(uid, idx)
+  WHERE e.uid = v_swap.requested_by::TEXT;
+  SELECT e.idx - 1 INTO v_with_index
+  FROM jsonb_array_elements_text(v_rotation.user_order) WITH ORDINALITY AS e(uid, idx)
+  WHERE e.uid = v_swap.requested_with::TEXT;
+
+  UPDATE chore_rotations
+  SET
+    user_order = CASE
+      WHEN v_by_index IS NOT NULL AND v_with_index IS NOT NULL THEN
+        jsonb_set(
+          jsonb_set(user_order, ARRAY[v_by_index::TEXT], to_jsonb(v_swap.requested_with::TEXT)),
+          ARRAY[v_with_index::TEXT], to_jsonb(v_swap.requested_by::TEXT)
+        )
+      ELSE user_order
+    END,
+    last_assigned_to = CASE
+      WHEN last_assigned_to = v_swap.requested_by THEN v_swap.requested_with
+      WHEN last_assigned_to = v_swap.requested_with THEN v_swap.requested_by
+      ELSE last_assigned_to
+    END
+  WHERE id = v_rotation.id;
+
+  UPDATE chores
+  SET assigned_to = CASE
+    WHEN assigned_to = v_swap.requested_by THEN v_swap.requested_with
+    ELSE v_swap.requested_by
+  END
+  WHERE id = v_rotation.chore_id
+    AND assigned_to IN (v_swap.requested_by, v_swap.requested_with);
+
+  UPDATE chore_rotation_swaps
+  SET status = 'approved', responded_at = NOW()
+  WHERE id = v_swap.id
+  RETURNING * INTO v_swap;
+
+  RETURN v_swap;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION approve_chore_rotation_swap(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION approve_chore_rotation_swap(UUID) TO authenticated;
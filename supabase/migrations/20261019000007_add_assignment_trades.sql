@@ -0,0 +1,244 @@
+-- Assignment Trades
+-- A member offers one of their chores or tasks to another member (or to anyone
+-- in the space), optionally with a points bounty. Accepting runs in a single
+-- transaction: the assignment moves, rotation positions swap, the bounty moves
+-- between point balances with matching ledger rows, and both members get an
+-- audit log entry.
+
+-- ============================================================================
+-- TRADES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS assignment_trades (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL CHECK (item_type IN ('chore', 'task')),
+  item_id UUID NOT NULL,
+  offered_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL = open to any space member
+  offered_to UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  bounty_points INTEGER NOT NULL DEFAULT 0 CHECK (bounty_points BETWEEN 0 AND 500),
+  note TEXT CHECK (note IS NULL OR char_length(note) <= 500),
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'accepted', 'declined', 'cancelled')),
+  expires_at TIMESTAMPTZ,
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (offered_to IS NULL OR offered_to <> offered_by)
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignment_trades_space_status ON assignment_trades(space_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_assignment_trades_offered_to ON assignment_trades(offered_to, status);
+
+-- One open offer per item
+CREATE UNIQUE INDEX IF NOT EXISTS idx_assignment_trades_open_item
+  ON assignment_trades(item_type, item_id)
+  WHERE status = 'open';
+
+CREATE TRIGGER update_assignment_trades_updated_at
+  BEFORE UPDATE ON assignment_trades
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE assignment_trades ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Space members can view trades"
+  ON assignment_trades FOR SELECT
+  USING (
+    space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid()))
+  );
+
+CREATE POLICY "Members can offer their own items"
+  ON assignment_trades FOR INSERT
+  WITH CHECK (
+    offered_by = (SELECT auth.uid())
+    AND status = 'open'
+    AND space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid()))
+  );
+
+-- Declining and cancelling are plain updates; accepting goes through
+-- accept_assignment_trade so it cannot be done without moving the assignment.
+-- Only the offering member cancels and only the offered member declines.
+CREATE POLICY "Participants can decline or cancel open trades"
+  ON assignment_trades FOR UPDATE
+  USING (
+    status = 'open'
+    AND (offered_by = (SELECT auth.uid()) OR offered_to = (SELECT auth.uid()))
+  )
+  WITH CHECK (
+    (status = 'cancelled' AND offered_by = (SELECT auth.uid()))
+    OR (status = 'declined' AND offered_to = (SELECT auth.uid()))
+  );
+
+COMMENT ON TABLE assignment_trades IS 'Offers to hand a chore or task to another member, optionally paid with a points bounty';
+COMMENT ON COLUMN assignment_trades.bounty_points IS 'Points moved from offered_by to the accepting member when the trade is accepted';
+
+-- ============================================================================
+-- POINT LEDGER
+-- ============================================================================
+
+ALTER TABLE point_transactions DROP CONSTRAINT IF EXISTS point_transactions_source_type_check;
+ALTER TABLE point_transactions ADD CONSTRAINT point_transactions_source_type_check
+  CHECK (source_type IN (
+    'chore', 'task', 'streak_bonus', 'weekly_goal', 'perfect_week',
+    'redemption', 'adjustment', 'bonus', 'late_penalty', 'penalty_forgiven',
+    'trade_bounty'
+  ));
+
+-- ============================================================================
+-- ACCEPT
+-- ============================================================================
+
+-- Errors use SQLSTATE P0002 (not found), 42501 (not allowed) and P0001
+-- (conflict) so callers can map them to HTTP statuses
+CREATE OR REPLACE FUNCTION accept_assignment_trade(p_trade_id UUID)
+RETURNS assignment_trades
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_trade assignment_trades%ROWTYPE;
+  v_assignee UUID;
+  v_title TEXT;
+  v_balance INTEGER;
+  v_rotation chore_rotations%ROWTYPE;
+  v_from_index INTEGER;
+  v_to_index INTEGER;
+  v_details JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_trade FROM assignment_trades WHERE id = p_trade_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trade not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM space_members WHERE space_id = v_trade.space_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Trade not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_trade.status <> 'open' THEN
+    RAISE EXCEPTION 'Trade is already %', v_trade.status USING ERRCODE = 'P0001';
+  END IF;
+  IF v_trade.expires_at IS NOT NULL AND v_trade.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Trade has expired' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_trade.offered_by = v_user_id THEN
+    RAISE EXCEPTION 'You cannot accept your own trade' USING ERRCODE = '42501';
+  END IF;
+  IF v_trade.offered_to IS NOT NULL AND v_trade.offered_to <> v_user_id THEN
+    RAISE EXCEPTION 'This trade was offered to someone else' USING ERRCODE = '42501';
+  END IF;
+
+  -- Move the assignment, but only if the offering member still holds it
+  IF v_trade.item_type = 'chore' THEN
+    SELECT assigned_to, title INTO v_assignee, v_title
+    FROM chores WHERE id = v_trade.item_id AND space_id = v_trade.space_id
+    FOR UPDATE;
+  ELSE
+    SELECT assigned_to, title INTO v_assignee, v_title
+    FROM tasks WHERE id = v_trade.item_id AND space_id = v_trade.space_id
+    FOR UPDATE;
+  END IF;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The traded % no longer exists', v_trade.item_type USING ERRCODE = 'P0002';
+  END IF;
+  IF v_assignee IS DISTINCT FROM v_trade.offered_by THEN
+    RAISE EXCEPTION 'The % is no longer assigned to the member who offered it', v_trade.item_type USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_trade.item_type = 'chore' THEN
+    UPDATE chores SET assigned_to = v_user_id WHERE id = v_trade.item_id;
+
+    -- Trade places in the rotation so the offering member takes the next
+    -- turn that would have been the accepting member's
+    SELECT * INTO v_rotation FROM chore_rotations WHERE chore_id = v_trade.item_id FOR UPDATE;
+    IF FOUND THEN
+      SELECT e.idx - 1 INTO v_from_index
+      FROM jsonb_array_elements_text(v_rotation.user_order) WITH ORDINALITY AS e(uid, idx)
+      WHERE e.uid = v_trade.offered_by::TEXT;
+      SELECT e.idx - 1 INTO v_to_index
+      FROM jsonb_array_elements_text(v_rotation.user_order) WITH ORDINALITY AS e(uid, idx)
+      WHERE e.uid = v_user_id::TEXT;
+
+      UPDATE chore_rotations
+      SET
+        user_order = CASE
+          WHEN v_from_index IS NOT NULL AND v_to_index IS NOT NULL THEN
+            jsonb_set(
+              jsonb_set(user_order, ARRAY[v_from_index::TEXT], to_jsonb(v_user_id::TEXT)),
+              ARRAY[v_to_index::TEXT], to_jsonb(v_trade.offered_by::TEXT)
+            )
+          ELSE user_order
+        END,
+        last_assigned_to = CASE
+          WHEN last_assigned_to = v_trade.offered_by THEN v_user_id
+          ELSE last_assigned_to
+        END
+      WHERE id = v_rotation.id;
+    END IF;
+  ELSE
+    UPDATE tasks SET assigned_to = v_user_id WHERE id = v_trade.item_id;
+  END IF;
+
+  -- Pay the bounty
+  IF v_trade.bounty_points > 0 THEN
+    SELECT points INTO v_balance
+    FROM reward_points
+    WHERE user_id = v_trade.offered_by AND space_id = v_trade.space_id
+    FOR UPDATE;
+
+    IF COALESCE(v_balance, 0) < v_trade.bounty_points THEN
+      RAISE EXCEPTION 'The offering member no longer has enough points for the bounty' USING ERRCODE = 'P0001';
+    END IF;
+
+    UPDATE reward_points
+    SET points = points - v_trade.bounty_points, updated_at = NOW()
+    WHERE user_id = v_trade.offered_by AND space_id = v_trade.space_id;
+
+    INSERT INTO reward_points (user_id, space_id, points)
+    VALUES (v_user_id, v_trade.space_id, v_trade.bounty_points)
+    ON CONFLICT (user_id, space_id)
+    DO UPDATE SET points = reward_points.points + EXCLUDED.points, updated_at = NOW();
+
+    INSERT INTO point_transactions (user_id, space_id, source_type, source_id, points, reason, metadata)
+    VALUES
+      (v_trade.offered_by, v_trade.space_id, 'trade_bounty', v_trade.id, -v_trade.bounty_points,
+       'Bounty paid for trading: ' || v_title,
+       jsonb_build_object('item_type', v_trade.item_type, 'item_id', v_trade.item_id, 'counterparty', v_user_id)),
+      (v_user_id, v_trade.space_id, 'trade_bounty', v_trade.id, v_trade.bounty_points,
+       'Bounty earned for taking over: ' || v_title,
+       jsonb_build_object('item_type', v_trade.item_type, 'item_id', v_trade.item_id, 'counterparty', v_trade.offered_by));
+  END IF;
+
+  UPDATE assignment_trades
+  SET status = 'accepted', accepted_by = v_user_id, responded_at = NOW()
+  WHERE id = v_trade.id
+  RETURNING * INTO v_trade;
+
+  v_details := jsonb_build_object(
+    'trade_id', v_trade.id,
+    'item_title', v_title,
+    'from_user', v_trade.offered_by,
+    'to_user', v_user_id,
+    'bounty_points', v_trade.bounty_points
+  );
+
+  INSERT INTO user_audit_log (user_id, action, action_category, resource_type, resource_id, details)
+  VALUES
+    (v_trade.offered_by, 'assignment_trade_accepted', 'account', v_trade.item_type, v_trade.item_id::TEXT, v_details),
+    (v_user_id, 'assignment_trade_accepted', 'account', v_trade.item_type, v_trade.item_id::TEXT, v_details);
+
+  RETURN v_trade;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION accept_assignment_trade(UUID) TO authenticated;
@@ -0,0 +1,221 @@
+-- Task Dependency Automation
+-- Replaces the depth-limited cycle check with a full traversal of blocking
+-- dependencies, moves tasks between 'pending' and 'blocked' as their blockers
+-- open and complete, and notifies the assignee when a task becomes unblocked.
+
+-- ============================================================================
+-- CYCLE CHECK
+-- ============================================================================
+
+-- The original check stopped after 20 hops and also treated 'relates_to' links
+-- as edges. UNION makes the walk terminate on its own, and only blocking
+-- dependencies can form a cycle.
+CREATE OR REPLACE FUNCTION check_circular_dependency()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.dependency_type IS DISTINCT FROM 'blocks' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE upstream AS (
+      SELECT NEW.depends_on_task_id AS task_id
+      UNION
+      SELECT td.depends_on_task_id
+      FROM task_dependencies td
+      JOIN upstream u ON td.task_id = u.task_id
+      WHERE td.dependency_type = 'blocks'
+        AND td.id IS DISTINCT FROM NEW.id
+    )
+    SELECT 1 FROM upstream WHERE task_id = NEW.task_id
+  ) THEN
+    RAISE EXCEPTION 'Circular dependency detected: Task % cannot depend on Task % (would create a cycle)', NEW.task_id, NEW.depends_on_task_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- BLOCKED STATE
+-- ============================================================================
+
+-- Recomputes is_blocked for one task. A pending task with open blockers becomes
+-- 'blocked'; a task that was blocked by dependencies goes back to 'pending'
+-- once they are all done, and its assignee is notified. Runs as definer so the
+-- notification can be written for another member. The dependency triggers call
+-- it as the member making the change, so callers must belong to the task's
+-- space; calls without a user (service role) are trusted.
+CREATE OR REPLACE FUNCTION refresh_task_blocked_state(p_task_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task RECORD;
+  v_now_blocked BOOLEAN;
+  v_space_name TEXT;
+BEGIN
+  SELECT id, space_id, title, status, assigned_to, COALESCE(is_blocked, FALSE) AS was_blocked
+  INTO v_task
+  FROM tasks
+  WHERE id = p_task_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM space_members
+    WHERE space_id = v_task.space_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this space' USING ERRCODE = '42501';
+  END IF;
+
+  v_now_blocked := EXISTS (
+    SELECT 1
+    FROM task_dependencies td
+    JOIN tasks t ON t.id = td.depends_on_task_id
+    WHERE td.task_id = p_task_id
+      AND td.dependency_type = 'blocks'
+      AND t.status IS DISTINCT FROM 'completed'
+  );
+
+  UPDATE tasks
+  SET
+    is_blocked = v_now_blocked,
+    status = CASE
+      WHEN v_now_blocked AND status = 'pending' THEN 'blocked'
+      WHEN NOT v_now_blocked AND v_task.was_blocked AND status = 'blocked' THEN 'pending'
+      ELSE status
+    END
+  WHERE id = p_task_id;
+
+  IF v_task.was_blocked
+    AND NOT v_now_blocked
+    AND v_task.status IS DISTINCT FROM 'completed'
+    AND v_task.assigned_to IS NOT NULL
+    AND v_task.assigned_to IS DISTINCT FROM auth.uid()
+  THEN
+    SELECT name INTO v_space_name FROM spaces WHERE id = v_task.space_id;
+
+    PERFORM create_in_app_notification(
+      p_user_id := v_task.assigned_to,
+      p_type := 'task',
+      p_title := 'Task unblocked',
+      p_content := '"' || v_task.title || '" is ready to start - everything it was waiting on is done',
+      p_space_id := v_task.space_id,
+      p_space_name := v_space_name,
+      p_related_item_id := v_task.id,
+      p_related_item_type := 'task',
+      p_action_url := '/tasks?space_id=' || v_task.space_id,
+      p_emoji := '🔓',
+      p_metadata := jsonb_build_object('reason', 'dependencies_completed')
+    );
+  END IF;
+END;
+$$;
+
+-- Dependency added or removed
+CREATE OR REPLACE FUNCTION update_task_blocked_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_task_blocked_state(COALESCE(NEW.task_id, OLD.task_id));
+
+  IF TG_OP = 'INSERT' THEN
+    UPDATE tasks
+    SET blocking_count = blocking_count + 1
+    WHERE id = NEW.depends_on_task_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE tasks
+    SET blocking_count = GREATEST(blocking_count - 1, 0)
+    WHERE id = OLD.depends_on_task_id;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Blocker completed or reopened. Dependents in spaces the member completing
+-- the blocker does not belong to are skipped rather than refreshed, so such a
+-- dependency can never stop the blocker from being completed.
+CREATE OR REPLACE FUNCTION update_blocked_tasks_on_completion()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_dependent_id UUID;
+BEGIN
+  FOR v_dependent_id IN
+    SELECT DISTINCT td.task_id
+    FROM task_dependencies td
+    JOIN tasks t ON t.id = td.task_id
+    WHERE td.depends_on_task_id = NEW.id
+      AND td.dependency_type = 'blocks'
+      AND (
+        auth.uid() IS NULL
+        OR EXISTS (
+          SELECT 1 FROM space_members
+          WHERE space_id = t.space_id AND user_id = auth.uid()
+        )
+      )
+  LOOP
+    PERFORM refresh_task_blocked_state(v_dependent_id);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tasks_completion_update_blocked_trigger ON tasks;
+CREATE TRIGGER tasks_completion_update_blocked_trigger
+  AFTER UPDATE OF status ON tasks
+  FOR EACH ROW
+  WHEN (
+    OLD.status IS DISTINCT FROM NEW.status
+    AND (NEW.status = 'completed' OR OLD.status = 'completed')
+  )
+  EXECUTE FUNCTION update_blocked_tasks_on_completion();
+
+-- ============================================================================
+-- DEPENDENCY POLICIES
+-- ============================================================================
+
+-- A task can only depend on another task in the same space, and only members
+-- of that space can link them
+DROP POLICY IF EXISTS "task_dependencies_insert" ON task_dependencies;
+CREATE POLICY "task_dependencies_insert" ON task_dependencies FOR INSERT TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1
+    FROM tasks t
+    JOIN tasks blocker ON blocker.id = task_dependencies.depends_on_task_id
+    WHERE t.id = task_dependencies.task_id
+      AND blocker.space_id = t.space_id
+      AND t.space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid()))
+  )
+);
+
+DROP POLICY IF EXISTS "task_dependencies_update" ON task_dependencies;
+CREATE POLICY "task_dependencies_update" ON task_dependencies FOR UPDATE TO authenticated
+USING (task_id IN (SELECT id FROM tasks WHERE space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid()))))
+WITH CHECK (
+  EXISTS (
+    SELECT 1
+    FROM tasks t
+    JOIN tasks blocker ON blocker.id = task_dependencies.depends_on_task_id
+    WHERE t.id = task_dependencies.task_id
+      AND blocker.space_id = t.space_id
+      AND t.space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid()))
+  )
+);
+
+-- ============================================================================
+-- PERMISSIONS
+-- ============================================================================
+
+-- Anonymous callers have no auth.uid() either, so they must not reach it
+REVOKE EXECUTE ON FUNCTION refresh_task_blocked_state(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION refresh_task_blocked_state(UUID) TO authenticated, service_role;
+
+COMMENT ON FUNCTION refresh_task_blocked_state(UUID) IS
+  'Recomputes is_blocked, moves the task between pending and blocked, and notifies the assignee when it becomes unblocked';
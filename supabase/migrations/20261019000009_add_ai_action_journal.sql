@@ -0,0 +1,109 @@
+-- AI Action Journal
+-- Every write the chat assistant makes is recorded with before/after row
+-- snapshots, grouped by the chat turn that made it, so the user can undo the
+-- last action or a whole turn from the chat panel.
+
+-- ============================================================================
+-- JOURNAL
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_action_journal (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID NOT NULL REFERENCES ai_conversations(id) ON DELETE CASCADE,
+  -- One user message and everything the assistant did in response to it
+  turn_id UUID NOT NULL,
+  space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tool_name TEXT NOT NULL,
+  parameters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- [{ "table": ..., "id": ..., "before": {...} | null, "after": {...} | null }]
+  changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  reversible BOOLEAN NOT NULL DEFAULT TRUE,
+  undone_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_action_journal_conversation
+  ON ai_action_journal(conversation_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_action_journal_turn
+  ON ai_action_journal(turn_id);
+
+ALTER TABLE ai_action_journal ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own AI actions"
+  ON ai_action_journal FOR SELECT
+  USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can record their own AI actions"
+  ON ai_action_journal FOR INSERT
+  WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid()))
+  );
+
+-- No UPDATE policy: entries are only marked undone (or released again)
+-- through the functions below, which touch nothing but undone_at.
+
+-- ============================================================================
+-- UNDO CLAIMS
+-- ============================================================================
+
+-- Marks the caller's entries undone before they are reverted, so two undo
+-- requests racing each other never both apply the same entry: every entry of
+-- p_turn_id, or the most recent one still in effect when no turn is given.
+CREATE OR REPLACE FUNCTION claim_ai_actions_for_undo(
+  p_conversation_id UUID,
+  p_turn_id UUID DEFAULT NULL
+)
+RETURNS SETOF ai_action_journal
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  UPDATE ai_action_journal j
+  SET undone_at = NOW()
+  WHERE j.undone_at IS NULL
+    AND j.id IN (
+      SELECT id FROM ai_action_journal
+      WHERE conversation_id = p_conversation_id
+        AND user_id = v_user_id
+        AND undone_at IS NULL
+        AND (p_turn_id IS NULL OR turn_id = p_turn_id)
+      ORDER BY created_at DESC
+      LIMIT CASE WHEN p_turn_id IS NULL THEN 1 ELSE 100 END
+    )
+  RETURNING j.*;
+END;
+$$;
+
+-- Puts claimed entries back in effect when reverting them failed, so the
+-- undo can be retried.
+CREATE OR REPLACE FUNCTION release_ai_action_claims(p_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE ai_action_journal
+  SET undone_at = NULL
+  WHERE id = ANY(p_ids) AND user_id = auth.uid();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_ai_actions_for_undo(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION claim_ai_actions_for_undo(UUID, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION release_ai_action_claims(UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION release_ai_action_claims(UUID[]) TO authenticated;
+
+COMMENT ON TABLE ai_action_journal IS 'Before/after snapshots of rows changed by AI assistant tool calls, used to undo them';
+COMMENT ON COLUMN ai_action_journal.turn_id IS 'Groups the tool calls made in response to one user message';
+COMMENT ON COLUMN ai_action_journal.reversible IS 'FALSE for tools whose effects are not captured (e.g. sent messages)';
@@ -0,0 +1,43 @@
+-- MCP Server Tokens
+-- MCP-capable agents call the assistant's tools at /api/mcp with per-user
+-- bearer tokens. Each token is scoped to one space and is either read-only
+-- or read-write; tool calls run as the token's owner, so RLS still applies.
+
+-- ============================================================================
+-- MCP TOKENS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS mcp_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  label TEXT NOT NULL CHECK (char_length(label) BETWEEN 1 AND 100),
+  scope TEXT NOT NULL DEFAULT 'read' CHECK (scope IN ('read', 'read_write')),
+  -- SHA-256 of the token; the token itself is shown once
+  token_hash TEXT NOT NULL UNIQUE,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mcp_tokens_user ON mcp_tokens(user_id);
+
+ALTER TABLE mcp_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own MCP tokens"
+  ON mcp_tokens FOR SELECT
+  USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create MCP tokens for their spaces"
+  ON mcp_tokens FOR INSERT
+  WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid()))
+  );
+
+CREATE POLICY "Users can revoke their own MCP tokens"
+  ON mcp_tokens FOR UPDATE
+  USING (user_id = (SELECT auth.uid()));
+
+COMMENT ON TABLE mcp_tokens IS 'Bearer tokens for MCP clients, each scoped to one space';
+COMMENT ON COLUMN mcp_tokens.scope IS 'read: only tools that do not change data; read_write: every assistant tool';
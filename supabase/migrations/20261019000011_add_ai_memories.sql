@@ -0,0 +1,69 @@
+-- AI Household Memory
+-- Long-lived facts the assistant keeps about a space ("we're vegetarian on
+-- Mondays", "Sam is allergic to peanuts"). Members add and edit them in
+-- settings; facts the assistant picks up in chat start as proposals that
+-- only the member who chatted can see until they approve them.
+
+-- ============================================================================
+-- MEMORIES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_memories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Member the fact is about; NULL for the whole household
+  subject_user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  category TEXT NOT NULL DEFAULT 'other'
+    CHECK (category IN ('dietary', 'allergy', 'preference', 'schedule', 'household', 'other')),
+  content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 500),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'proposed')),
+  source TEXT NOT NULL DEFAULT 'user' CHECK (source IN ('user', 'chat')),
+  source_conversation_id UUID REFERENCES ai_conversations(id) ON DELETE SET NULL,
+  approved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_memories_space ON ai_memories(space_id, status);
+CREATE INDEX IF NOT EXISTS idx_ai_memories_created_by ON ai_memories(created_by);
+CREATE INDEX IF NOT EXISTS idx_ai_memories_subject ON ai_memories(subject_user_id) WHERE subject_user_id IS NOT NULL;
+
+ALTER TABLE ai_memories ENABLE ROW LEVEL SECURITY;
+
+-- Active memories are shared with the space; proposals stay with the member
+-- whose chat produced them
+CREATE POLICY "Members can view space memories and their own proposals"
+  ON ai_memories FOR SELECT
+  USING (
+    space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid()))
+    AND (status = 'active' OR created_by = (SELECT auth.uid()))
+  );
+
+CREATE POLICY "Members can add memories to their spaces"
+  ON ai_memories FOR INSERT
+  WITH CHECK (
+    created_by = (SELECT auth.uid())
+    AND space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid()))
+  );
+
+CREATE POLICY "Members can edit space memories and their own proposals"
+  ON ai_memories FOR UPDATE
+  USING (
+    space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid()))
+    AND (status = 'active' OR created_by = (SELECT auth.uid()))
+  )
+  WITH CHECK (
+    space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid()))
+  );
+
+CREATE POLICY "Members can delete space memories and their own proposals"
+  ON ai_memories FOR DELETE
+  USING (
+    space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid()))
+    AND (status = 'active' OR created_by = (SELECT auth.uid()))
+  );
+
+COMMENT ON TABLE ai_memories IS 'Household facts the AI assistant remembers across chats';
+COMMENT ON COLUMN ai_memories.status IS 'proposed: extracted from a chat and awaiting approval; active: used in the system prompt';
+COMMENT ON COLUMN ai_memories.subject_user_id IS 'Member the fact is about; removed with that member''s account';
@@ -0,0 +1,195 @@
+-- AI Assistant Routines
+-- Scheduled instructions the assistant carries out on its own ("every Sunday
+-- at 6pm plan next week's meals and build the shopping list"). A cron job
+-- runs due routines; the assistant can look things up, but anything it wants
+-- to change is saved as a draft that a space member approves or rejects.
+
+-- ============================================================================
+-- ROUTINES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_routines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  -- Routines run with this member's access
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  instructions TEXT NOT NULL CHECK (char_length(instructions) BETWEEN 1 AND 2000),
+  -- RFC 5545 RRULE value, e.g. FREQ=WEEKLY;BYDAY=SU
+  rrule TEXT NOT NULL,
+  -- First run; also sets the time of day of later runs
+  dtstart TIMESTAMPTZ NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_routines_space ON ai_routines(space_id);
+CREATE INDEX IF NOT EXISTS idx_ai_routines_due ON ai_routines(next_run_at) WHERE enabled = TRUE;
+
+ALTER TABLE ai_routines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their spaces' routines"
+  ON ai_routines FOR SELECT
+  USING (space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid())));
+
+CREATE POLICY "Members can create routines in their spaces"
+  ON ai_routines FOR INSERT
+  WITH CHECK (
+    created_by = (SELECT auth.uid())
+    AND space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid()))
+  );
+
+-- Only the member a routine runs as may change what it does
+CREATE POLICY "Creators can update their routines"
+  ON ai_routines FOR UPDATE
+  USING (created_by = (SELECT auth.uid()))
+  WITH CHECK (created_by = (SELECT auth.uid()));
+
+-- Creators remove their own routines; space admins can remove anyone's
+CREATE POLICY "Creators and space admins can delete routines"
+  ON ai_routines FOR DELETE
+  USING (
+    created_by = (SELECT auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM space_members
+      WHERE space_members.space_id = ai_routines.space_id
+      AND space_members.user_id = (SELECT auth.uid())
+      AND space_members.role IN ('owner', 'admin')
+    )
+  );
+
+-- ============================================================================
+-- ROUTINE RUNS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_routine_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  routine_id UUID NOT NULL REFERENCES ai_routines(id) ON DELETE CASCADE,
+  space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  status TEXT NOT NULL
+    CHECK (status IN ('pending_review', 'no_changes', 'applying', 'applied', 'partially_applied', 'rejected', 'failed')),
+  -- The assistant's write-up of what it found and what it proposes
+  summary TEXT,
+  -- Tool calls to make on approval: [{ ref, toolName, parameters, description }]
+  proposed_actions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Outcome of each action after approval: [{ ref, toolName, success, message }]
+  results JSONB,
+  error TEXT,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_routine_runs_space ON ai_routine_runs(space_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_routine_runs_routine ON ai_routine_runs(routine_id, created_at DESC);
+
+ALTER TABLE ai_routine_runs ENABLE ROW LEVEL SECURITY;
+
+-- Runs are created by the cron job (service role); members review them
+CREATE POLICY "Members can view their spaces' routine runs"
+  ON ai_routine_runs FOR SELECT
+  USING (space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid())));
+
+-- There is no UPDATE policy: a member able to rewrite proposed_actions could
+-- have the approver run calls the routine never drafted. Reviews go through
+-- the functions below, which only ever touch status, results and reviewed_*.
+
+-- ============================================================================
+-- REVIEW
+-- ============================================================================
+
+-- Errors use SQLSTATE P0002 (not found), 42501 (not allowed) and P0001
+-- (conflict) so callers can map them to HTTP statuses
+CREATE OR REPLACE FUNCTION review_ai_routine_run(p_run_id UUID, p_status TEXT)
+RETURNS ai_routine_runs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_run ai_routine_runs%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+  IF p_status NOT IN ('applying', 'rejected') THEN
+    RAISE EXCEPTION 'A draft can only be approved or rejected' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_run FROM ai_routine_runs WHERE id = p_run_id FOR UPDATE;
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM space_members WHERE space_id = v_run.space_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Draft not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Only one reviewer can win
+  IF v_run.status <> 'pending_review' THEN
+    RAISE EXCEPTION 'This draft was already reviewed' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE ai_routine_runs
+  SET status = p_status, reviewed_by = v_user_id, reviewed_at = NOW()
+  WHERE id = p_run_id
+  RETURNING * INTO v_run;
+
+  RETURN v_run;
+END;
+$$;
+
+-- Record the outcome of an approved run; only its reviewer can, and only once
+CREATE OR REPLACE FUNCTION finish_ai_routine_run(p_run_id UUID, p_results JSONB)
+RETURNS ai_routine_runs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_run ai_routine_runs%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+  IF jsonb_typeof(p_results) <> 'array' THEN
+    RAISE EXCEPTION 'Results must be an array' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_run FROM ai_routine_runs WHERE id = p_run_id FOR UPDATE;
+  IF NOT FOUND OR v_run.reviewed_by IS DISTINCT FROM v_user_id THEN
+    RAISE EXCEPTION 'Draft not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_run.status <> 'applying' THEN
+    RAISE EXCEPTION 'This draft is not being applied' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE ai_routine_runs
+  SET
+    status = CASE
+      WHEN EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_results) AS r
+        WHERE (r ->> 'success')::BOOLEAN IS NOT TRUE
+      ) THEN 'partially_applied'
+      ELSE 'applied'
+    END,
+    results = p_results
+  WHERE id = p_run_id
+  RETURNING * INTO v_run;
+
+  RETURN v_run;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION review_ai_routine_run(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION finish_ai_routine_run(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION review_ai_routine_run(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION finish_ai_routine_run(UUID, JSONB) TO authenticated;
+
+COMMENT ON TABLE ai_routines IS 'Scheduled AI assistant instructions, run by /api/cron/ai-routines';
+COMMENT ON TABLE ai_routine_runs IS 'Drafts produced by AI routine runs; proposed changes are applied only after a member approves';
+COMMENT ON COLUMN ai_routine_runs.proposed_actions IS 'Write tool calls drafted during the run; ref ids stand in for rows created by earlier actions';
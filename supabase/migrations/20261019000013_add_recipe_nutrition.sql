@@ -0,0 +1,6 @@
+-- Add per-serving nutrition to recipes
+-- Filled from schema.org NutritionInformation when a recipe is imported from a web page
+
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS nutrition JSONB;
+
+COMMENT ON COLUMN recipes.nutrition IS 'Nutrition per serving: calories, protein_g, fat_g, saturated_fat_g, carbohydrate_g, sugar_g, fiber_g, sodium_mg, cholesterol_mg';
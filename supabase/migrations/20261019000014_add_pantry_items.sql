@@ -0,0 +1,138 @@
+-- Pantry Inventory
+-- What a household already has at home: quantities, where it is kept and
+-- when it expires. Checked-off shopping items are stocked automatically,
+-- and shopping lists generated from meals subtract what is in stock.
+
+-- ============================================================================
+-- PANTRY ITEMS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS pantry_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 200),
+  -- NULL means "some": enough to cover a recipe whatever it asks for
+  quantity NUMERIC(10, 2) CHECK (quantity IS NULL OR quantity >= 0),
+  unit TEXT CHECK (unit IS NULL OR char_length(unit) <= 50),
+  location TEXT NOT NULL DEFAULT 'pantry' CHECK (location IN ('fridge', 'freezer', 'pantry')),
+  category TEXT,
+  expires_on DATE,
+  barcode TEXT CHECK (barcode IS NULL OR barcode ~ '^[0-9A-Za-z-]{4,64}$'),
+  notes TEXT CHECK (notes IS NULL OR char_length(notes) <= 500),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'shopping', 'barcode')),
+  shopping_item_id UUID REFERENCES shopping_items(id) ON DELETE SET NULL,
+  added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pantry_items_space ON pantry_items(space_id, location);
+CREATE INDEX IF NOT EXISTS idx_pantry_items_expiry ON pantry_items(space_id, expires_on) WHERE expires_on IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_pantry_items_barcode ON pantry_items(space_id, barcode) WHERE barcode IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_pantry_items_shopping_item ON pantry_items(shopping_item_id) WHERE shopping_item_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_pantry_items_added_by ON pantry_items(added_by);
+
+DROP TRIGGER IF EXISTS update_pantry_items_updated_at ON pantry_items;
+CREATE TRIGGER update_pantry_items_updated_at
+  BEFORE UPDATE ON pantry_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE pantry_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their space pantry"
+  ON pantry_items FOR SELECT
+  USING (space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid())));
+
+CREATE POLICY "Members can add to their space pantry"
+  ON pantry_items FOR INSERT
+  WITH CHECK (space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid())));
+
+CREATE POLICY "Members can update their space pantry"
+  ON pantry_items FOR UPDATE
+  USING (space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid())))
+  WITH CHECK (space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid())));
+
+CREATE POLICY "Members can delete from their space pantry"
+  ON pantry_items FOR DELETE
+  USING (space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid())));
+
+-- ============================================================================
+-- STOCK FROM SHOPPING
+-- ============================================================================
+
+-- Checking off a shopping item (in the app or on a shared list, which sets
+-- is_purchased) adds it to the pantry; unchecking it removes that entry again.
+-- Non-food categories are skipped. Runs as definer because shared lists are
+-- checked off without a signed-in member.
+CREATE OR REPLACE FUNCTION stock_pantry_from_shopping_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_was_bought BOOLEAN := COALESCE(OLD.checked, FALSE) OR COALESCE(OLD.is_purchased, FALSE);
+  v_is_bought BOOLEAN := COALESCE(NEW.checked, FALSE) OR COALESCE(NEW.is_purchased, FALSE);
+  v_space_id UUID;
+  v_category TEXT := lower(COALESCE(NEW.category, ''));
+  v_quantity TEXT := btrim(COALESCE(NEW.quantity::TEXT, ''));
+  v_amount NUMERIC;
+BEGIN
+  IF v_is_bought = v_was_bought THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT v_is_bought THEN
+    DELETE FROM pantry_items WHERE shopping_item_id = NEW.id AND source = 'shopping';
+    RETURN NEW;
+  END IF;
+
+  IF v_category IN ('household', 'personal', 'personal care') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT space_id INTO v_space_id FROM shopping_lists WHERE id = NEW.list_id;
+  IF v_space_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Plain numbers become the pantry amount; anything else, or anything too
+  -- big for pantry_items.quantity, is stocked as untracked
+  IF v_quantity ~ '^\d+(\.\d+)?$' THEN
+    v_amount := round(v_quantity::NUMERIC, 2);
+    IF v_amount >= 100000000 THEN
+      v_amount := NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO pantry_items (space_id, name, quantity, unit, location, category, source, shopping_item_id, added_by)
+  VALUES (
+    v_space_id,
+    left(NEW.name, 200),
+    v_amount,
+    NULLIF(left(NEW.unit, 50), ''),
+    CASE
+      WHEN v_category = 'frozen' THEN 'freezer'
+      WHEN v_category IN ('dairy', 'dairy & eggs', 'meat', 'meat & seafood') THEN 'fridge'
+      ELSE 'pantry'
+    END,
+    NEW.category,
+    'shopping',
+    NEW.id,
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS shopping_items_stock_pantry_trigger ON shopping_items;
+CREATE TRIGGER shopping_items_stock_pantry_trigger
+  AFTER UPDATE OF checked, is_purchased ON shopping_items
+  FOR EACH ROW
+  EXECUTE FUNCTION stock_pantry_from_shopping_item();
+
+COMMENT ON TABLE pantry_items IS 'Food a space has at home, with storage location and expiry';
+COMMENT ON COLUMN pantry_items.quantity IS 'Amount in stock in the given unit; NULL when untracked ("some")';
+COMMENT ON COLUMN pantry_items.shopping_item_id IS 'Shopping item that stocked this entry; unchecking it removes the entry';
@@ -0,0 +1,23 @@
+-- Measurement preferences for recipes and shopping lists
+-- Each space picks metric or imperial for scaled recipes and generated shopping
+-- lists, and a planned meal can cook a recipe for a different number of servings.
+
+-- ============================================================================
+-- SPACE MEASUREMENT SYSTEM
+-- ============================================================================
+
+ALTER TABLE spaces
+ADD COLUMN IF NOT EXISTS measurement_system TEXT NOT NULL DEFAULT 'imperial'
+  CHECK (measurement_system IN ('metric', 'imperial'));
+
+COMMENT ON COLUMN spaces.measurement_system IS 'Units used when scaling recipes and totalling shopping lists: metric (g, ml) or imperial (oz, cups)';
+
+-- ============================================================================
+-- MEAL SERVINGS
+-- ============================================================================
+
+ALTER TABLE meals
+ADD COLUMN IF NOT EXISTS servings INTEGER
+  CHECK (servings IS NULL OR servings BETWEEN 1 AND 100);
+
+COMMENT ON COLUMN meals.servings IS 'Servings to cook; ingredients are scaled from the recipe''s servings. NULL cooks the recipe as written';
@@ -0,0 +1,64 @@
+-- Dietary Profiles
+-- Each member records their allergies, intolerances and diets once; planned
+-- meals and recipe searches are checked against the profiles of everyone in
+-- the space. Members can read the profiles of people they share a space with
+-- but only edit their own.
+
+-- ============================================================================
+-- DIETARY PROFILES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dietary_profiles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  allergies TEXT[] NOT NULL DEFAULT '{}',
+  intolerances TEXT[] NOT NULL DEFAULT '{}',
+  diets TEXT[] NOT NULL DEFAULT '{}',
+  notes TEXT CHECK (notes IS NULL OR char_length(notes) <= 500),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT dietary_profiles_allergies_check CHECK (
+    allergies <@ ARRAY['gluten', 'dairy', 'egg', 'peanut', 'tree_nut', 'soy', 'fish', 'shellfish', 'sesame']
+  ),
+  CONSTRAINT dietary_profiles_intolerances_check CHECK (
+    intolerances <@ ARRAY['gluten', 'dairy', 'egg', 'peanut', 'tree_nut', 'soy', 'fish', 'shellfish', 'sesame']
+  ),
+  CONSTRAINT dietary_profiles_diets_check CHECK (
+    diets <@ ARRAY['vegetarian', 'vegan', 'pescatarian', 'halal', 'kosher', 'gluten_free', 'dairy_free', 'low_sodium']
+  )
+);
+
+ALTER TABLE dietary_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view profiles of people they share a space with"
+  ON dietary_profiles FOR SELECT
+  USING (
+    user_id = (SELECT auth.uid())
+    OR user_id IN (
+      SELECT sm.user_id FROM space_members sm
+      WHERE sm.space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid()))
+    )
+  );
+
+CREATE POLICY "Users can create their own profile"
+  ON dietary_profiles FOR INSERT
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can update their own profile"
+  ON dietary_profiles FOR UPDATE
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can delete their own profile"
+  ON dietary_profiles FOR DELETE
+  USING (user_id = (SELECT auth.uid()));
+
+DROP TRIGGER IF EXISTS update_dietary_profiles_updated_at ON dietary_profiles;
+CREATE TRIGGER update_dietary_profiles_updated_at
+  BEFORE UPDATE ON dietary_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE dietary_profiles IS 'Per-member allergies, intolerances and diets used to flag conflicting meals and recipes';
+COMMENT ON COLUMN dietary_profiles.allergies IS 'Allergens the member must avoid entirely';
+COMMENT ON COLUMN dietary_profiles.intolerances IS 'Allergens the member prefers to avoid; flagged as a softer warning';
+COMMENT ON COLUMN dietary_profiles.diets IS 'Diets the member follows, e.g. vegetarian, halal, low_sodium';
@@ -0,0 +1,113 @@
+-- Price Book
+-- What a household pays for each item at each store, learned from scanned
+-- receipt lines and from priced shopping items as they are checked off.
+-- Used to estimate recipe, meal plan and shopping list costs.
+
+-- ============================================================================
+-- PRICE BOOK ENTRIES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS price_book_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 200),
+  -- NULL when the store is unknown (a list without a store set)
+  store_name TEXT CHECK (store_name IS NULL OR char_length(store_name) <= 100),
+  -- Unit the price is for; empty means "each"
+  unit TEXT NOT NULL DEFAULT '' CHECK (char_length(unit) <= 50),
+  unit_price NUMERIC(12, 4) NOT NULL CHECK (unit_price >= 0),
+  currency TEXT CHECK (currency IS NULL OR currency ~ '^[A-Z]{3}$'),
+  source TEXT NOT NULL CHECK (source IN ('receipt', 'shopping')),
+  receipt_id UUID REFERENCES receipts(id) ON DELETE CASCADE,
+  shopping_item_id UUID REFERENCES shopping_items(id) ON DELETE CASCADE,
+  observed_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_book_entries_space ON price_book_entries(space_id, observed_on DESC);
+CREATE INDEX IF NOT EXISTS idx_price_book_entries_receipt ON price_book_entries(receipt_id) WHERE receipt_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_book_entries_shopping_item
+  ON price_book_entries(shopping_item_id) WHERE shopping_item_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_price_book_entries_created_by ON price_book_entries(created_by);
+
+ALTER TABLE price_book_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their space price book"
+  ON price_book_entries FOR SELECT
+  USING (space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid())));
+
+CREATE POLICY "Members can add to their space price book"
+  ON price_book_entries FOR INSERT
+  WITH CHECK (space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid())));
+
+CREATE POLICY "Members can delete from their space price book"
+  ON price_book_entries FOR DELETE
+  USING (space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid())));
+
+-- ============================================================================
+-- PRICES FROM SHOPPING
+-- ============================================================================
+
+-- A checked-off shopping item with an actual price records what it cost per
+-- unit at the list's store; correcting the price updates that entry, and
+-- unchecking the item or clearing its price removes it. actual_price is the
+-- price paid for the item's whole quantity.
+CREATE OR REPLACE FUNCTION record_price_from_shopping_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_bought BOOLEAN := COALESCE(NEW.checked, FALSE) OR COALESCE(NEW.is_purchased, FALSE);
+  v_quantity TEXT := btrim(COALESCE(NEW.quantity::TEXT, ''));
+  v_amount NUMERIC := 1;
+  v_list RECORD;
+BEGIN
+  IF NOT v_is_bought OR NEW.actual_price IS NULL THEN
+    DELETE FROM price_book_entries WHERE shopping_item_id = NEW.id;
+    RETURN NEW;
+  END IF;
+
+  SELECT space_id, store_name INTO v_list FROM shopping_lists WHERE id = NEW.list_id;
+  IF v_list.space_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_quantity ~ '^\d+(\.\d+)?$' AND v_quantity::NUMERIC > 0 THEN
+    v_amount := v_quantity::NUMERIC;
+  END IF;
+
+  INSERT INTO price_book_entries (space_id, name, store_name, unit, unit_price, source, shopping_item_id, created_by)
+  VALUES (
+    v_list.space_id,
+    left(NEW.name, 200),
+    NULLIF(left(btrim(COALESCE(v_list.store_name, '')), 100), ''),
+    left(lower(btrim(COALESCE(NEW.unit, ''))), 50),
+    round(NEW.actual_price / v_amount, 4),
+    'shopping',
+    NEW.id,
+    auth.uid()
+  )
+  ON CONFLICT (shopping_item_id) WHERE shopping_item_id IS NOT NULL DO UPDATE SET
+    name = EXCLUDED.name,
+    store_name = EXCLUDED.store_name,
+    unit = EXCLUDED.unit,
+    unit_price = EXCLUDED.unit_price,
+    observed_on = CURRENT_DATE;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS shopping_items_record_price_trigger ON shopping_items;
+CREATE TRIGGER shopping_items_record_price_trigger
+  AFTER UPDATE OF checked, is_purchased, actual_price, quantity, unit ON shopping_items
+  FOR EACH ROW
+  EXECUTE FUNCTION record_price_from_shopping_item();
+
+COMMENT ON TABLE price_book_entries IS 'Unit prices a space has paid per item and store, from receipts and checked-off shopping items';
+COMMENT ON COLUMN price_book_entries.unit IS 'Unit the price is for (kg, lb, l, ...); empty for "each"';
+COMMENT ON COLUMN price_book_entries.currency IS 'Receipt currency; NULL means the space base currency';
+COMMENT ON COLUMN price_book_entries.shopping_item_id IS 'Shopping item this price came from; unchecking it removes the entry';
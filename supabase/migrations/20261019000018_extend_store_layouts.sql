@@ -0,0 +1,65 @@
+-- Store Layouts
+-- Puts store_layouts (20251012000006) to use: the stores a household shops
+-- at, each with the order its aisles are walked in. The order can be set by
+-- hand or learned from the order items were checked off on past trips, so
+-- shopping_items now records when each item was checked.
+
+-- ============================================================================
+-- CHECK-OFF TIMES
+-- ============================================================================
+
+ALTER TABLE shopping_items
+  ADD COLUMN IF NOT EXISTS checked_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_shopping_items_checked_at
+  ON shopping_items(list_id, checked_at) WHERE checked_at IS NOT NULL;
+
+COMMENT ON COLUMN shopping_items.checked_at IS 'When the item was last checked off; NULL while unchecked';
+
+-- ============================================================================
+-- STORE LAYOUTS
+-- ============================================================================
+
+-- aisle_order holds shopping categories in walking order; empty means "use
+-- the learned order"
+ALTER TABLE store_layouts
+  ADD CONSTRAINT store_layouts_store_name_length
+    CHECK (char_length(btrim(store_name)) BETWEEN 1 AND 100),
+  ADD CONSTRAINT store_layouts_aisle_order_array
+    CHECK (jsonb_typeof(aisle_order) = 'array' AND jsonb_array_length(aisle_order) <= 50);
+
+-- Lists refer to stores by name, so names are unique per space whatever
+-- their case or surrounding space
+ALTER TABLE store_layouts DROP CONSTRAINT IF EXISTS store_layouts_space_id_store_name_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_store_layouts_space_name
+  ON store_layouts(space_id, lower(btrim(store_name)));
+
+DROP TRIGGER IF EXISTS update_store_layouts_updated_at ON store_layouts;
+CREATE TRIGGER update_store_layouts_updated_at
+  BEFORE UPDATE ON store_layouts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Replace the original catch-all policies with one per command
+DROP POLICY IF EXISTS "Users can view layouts in their space" ON store_layouts;
+DROP POLICY IF EXISTS "Users can manage layouts in their space" ON store_layouts;
+
+CREATE POLICY "Members can view their space stores"
+  ON store_layouts FOR SELECT
+  USING (space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid())));
+
+CREATE POLICY "Members can add stores to their space"
+  ON store_layouts FOR INSERT
+  WITH CHECK (space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid())));
+
+CREATE POLICY "Members can update their space stores"
+  ON store_layouts FOR UPDATE
+  USING (space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid())))
+  WITH CHECK (space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid())));
+
+CREATE POLICY "Members can delete their space stores"
+  ON store_layouts FOR DELETE
+  USING (space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid())));
+
+COMMENT ON TABLE store_layouts IS 'Stores a space shops at, with the aisle order its lists are sorted in';
+COMMENT ON COLUMN store_layouts.aisle_order IS 'Shopping categories in walking order; empty to use the order learned from past trips';
@@ -0,0 +1,68 @@
+-- Location Reminders
+-- Reminders with reminder_type = 'location' only had a free-text location and
+-- never fired. They now bind to a saved family place, or to an ad-hoc point
+-- and radius, and fire when one of their members arrives or leaves. A
+-- cooldown stops a reminder firing again on every trip past the door.
+
+-- ============================================================================
+-- REMINDER TRIGGERS
+-- ============================================================================
+
+ALTER TABLE reminders
+  ADD COLUMN IF NOT EXISTS place_id UUID REFERENCES family_places(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS location_latitude DOUBLE PRECISION
+    CHECK (location_latitude IS NULL OR location_latitude BETWEEN -90 AND 90),
+  ADD COLUMN IF NOT EXISTS location_longitude DOUBLE PRECISION
+    CHECK (location_longitude IS NULL OR location_longitude BETWEEN -180 AND 180),
+  ADD COLUMN IF NOT EXISTS location_radius_meters INTEGER
+    CHECK (location_radius_meters IS NULL OR location_radius_meters BETWEEN 50 AND 5000),
+  ADD COLUMN IF NOT EXISTS location_trigger TEXT NOT NULL DEFAULT 'arrive'
+    CHECK (location_trigger IN ('arrive', 'leave')),
+  -- Members whose movements fire the reminder; empty means the assignee, or
+  -- anyone in the space when unassigned
+  ADD COLUMN IF NOT EXISTS location_member_ids UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS location_cooldown_minutes INTEGER NOT NULL DEFAULT 60
+    CHECK (location_cooldown_minutes BETWEEN 0 AND 10080),
+  ADD COLUMN IF NOT EXISTS location_last_triggered_at TIMESTAMPTZ;
+
+-- An ad-hoc point needs all three of its columns
+ALTER TABLE reminders
+  DROP CONSTRAINT IF EXISTS reminders_location_point_check;
+ALTER TABLE reminders
+  ADD CONSTRAINT reminders_location_point_check CHECK (
+    (location_latitude IS NULL AND location_longitude IS NULL AND location_radius_meters IS NULL)
+    OR (location_latitude IS NOT NULL AND location_longitude IS NOT NULL AND location_radius_meters IS NOT NULL)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_reminders_place_id ON reminders(place_id) WHERE place_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_reminders_active_location
+  ON reminders(space_id) WHERE reminder_type = 'location' AND status = 'active';
+
+COMMENT ON COLUMN reminders.place_id IS 'Saved place a location reminder fires at; takes precedence over an ad-hoc point';
+COMMENT ON COLUMN reminders.location_trigger IS 'Fire on arriving at or leaving the place';
+COMMENT ON COLUMN reminders.location_member_ids IS 'Members whose movements fire the reminder; empty for the assignee, or anyone when unassigned';
+COMMENT ON COLUMN reminders.location_cooldown_minutes IS 'Minimum time between two firings of a location reminder';
+COMMENT ON COLUMN reminders.location_last_triggered_at IS 'When the location reminder last fired';
+
+-- ============================================================================
+-- NOTIFICATION TYPE
+-- ============================================================================
+
+ALTER TABLE reminder_notifications
+  DROP CONSTRAINT IF EXISTS valid_notification_type;
+ALTER TABLE reminder_notifications
+  ADD CONSTRAINT valid_notification_type CHECK (
+    type IN (
+      'due',
+      'overdue',
+      'assigned',
+      'unassigned',
+      'mentioned',
+      'commented',
+      'completed',
+      'snoozed',
+      'goal_checkin_due',
+      'goal_checkin_overdue',
+      'location'
+    )
+  );
@@ -0,0 +1,78 @@
+-- Geofence Hysteresis and Polygon Places
+-- Arrivals and departures were a plain radius check against the previous
+-- fix, so GPS jitter at a place's edge fired storms of both. Places can now
+-- be drawn as polygons, and each has a dwell time before an arrival counts
+-- and an exit buffer a member must pass before a departure does. Where each
+-- member stands relative to each place is kept in geofence_states so the
+-- state machine survives between location updates.
+
+-- ============================================================================
+-- PLACE SHAPES AND HYSTERESIS
+-- ============================================================================
+
+ALTER TABLE family_places
+  -- Polygon corners as [{"latitude": ..., "longitude": ...}]; NULL for a
+  -- circle of radius_meters around the pin
+  ADD COLUMN IF NOT EXISTS boundary JSONB
+    CHECK (
+      boundary IS NULL
+      OR (jsonb_typeof(boundary) = 'array' AND jsonb_array_length(boundary) BETWEEN 3 AND 50)
+    ),
+  ADD COLUMN IF NOT EXISTS dwell_seconds INTEGER NOT NULL DEFAULT 60
+    CHECK (dwell_seconds BETWEEN 0 AND 1800),
+  ADD COLUMN IF NOT EXISTS exit_buffer_meters INTEGER NOT NULL DEFAULT 50
+    CHECK (exit_buffer_meters BETWEEN 0 AND 1000);
+
+COMMENT ON COLUMN family_places.boundary IS 'Polygon corners as latitude/longitude objects; NULL for a circle of radius_meters';
+COMMENT ON COLUMN family_places.dwell_seconds IS 'How long a member must stay inside before an arrival fires';
+COMMENT ON COLUMN family_places.exit_buffer_meters IS 'How far past the edge a member must go before a departure fires';
+
+-- ============================================================================
+-- GEOFENCE STATES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS geofence_states (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  place_id UUID NOT NULL REFERENCES family_places(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('outside', 'entering', 'inside')),
+  -- When the current status began; fixes recorded earlier are ignored
+  since TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, place_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_geofence_states_user_space ON geofence_states(user_id, space_id);
+CREATE INDEX IF NOT EXISTS idx_geofence_states_place ON geofence_states(place_id);
+
+DROP TRIGGER IF EXISTS update_geofence_states_updated_at ON geofence_states;
+CREATE TRIGGER update_geofence_states_updated_at
+  BEFORE UPDATE ON geofence_states
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE geofence_states ENABLE ROW LEVEL SECURITY;
+
+-- States are written from the member's own location updates
+CREATE POLICY "Users can view own geofence states"
+  ON geofence_states FOR SELECT
+  USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can add own geofence states"
+  ON geofence_states FOR INSERT
+  WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND space_id IN (SELECT space_id FROM space_members WHERE user_id = (SELECT auth.uid()))
+  );
+
+CREATE POLICY "Users can update own geofence states"
+  ON geofence_states FOR UPDATE
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can delete own geofence states"
+  ON geofence_states FOR DELETE
+  USING (user_id = (SELECT auth.uid()));
+
+COMMENT ON TABLE geofence_states IS 'Where each member is relative to each family place, for geofence hysteresis';
+COMMENT ON COLUMN geofence_states.status IS 'outside, entering (inside but still dwelling) or inside';
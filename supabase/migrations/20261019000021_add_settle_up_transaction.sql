@@ -0,0 +1,85 @@
+-- Settle-Up Transaction
+-- Recording a settle-up inserted the settlements and then marked the splits
+-- settled in a second call, so a failure in between left paid debts still
+-- open. Both writes now happen in one function, which only the server may
+-- call after checking the transfers against a plan it computed itself.
+
+-- ============================================================================
+-- RECORD SETTLE-UP
+-- ============================================================================
+
+-- Records a settle-up plan in one transaction: one settlement per transfer,
+-- and the plan's splits marked settled, so a failed write never leaves
+-- settlements without their splits settled (or the other way round).
+-- The plan is computed and checked by the application server, which calls
+-- this with the service role; p_transfers is a JSON array of
+-- { from_user_id, to_user_id, amount }.
+CREATE OR REPLACE FUNCTION record_settle_up(
+  p_space_id UUID,
+  p_created_by UUID,
+  p_transfers JSONB,
+  p_split_ids UUID[],
+  p_expense_ids UUID[],
+  p_currency TEXT,
+  p_settlement_date DATE,
+  p_payment_method TEXT,
+  p_notes TEXT
+)
+RETURNS SETOF settlements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_locked INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM space_members WHERE space_id = p_space_id AND user_id = p_created_by
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this space' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_transfers) AS t(from_user_id UUID, to_user_id UUID)
+    WHERE NOT EXISTS (SELECT 1 FROM space_members WHERE space_id = p_space_id AND user_id = t.from_user_id)
+       OR NOT EXISTS (SELECT 1 FROM space_members WHERE space_id = p_space_id AND user_id = t.to_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Every transfer must be between members of the space' USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock the planned splits; if any was settled in the meantime the plan is stale
+  SELECT COUNT(*) INTO v_locked
+  FROM (
+    SELECT es.id
+    FROM expense_splits es
+    JOIN expenses e ON e.id = es.expense_id
+    WHERE es.id = ANY(p_split_ids)
+      AND e.space_id = p_space_id
+      AND es.is_payer = false
+      AND es.status <> 'settled'
+    FOR UPDATE OF es
+  ) locked;
+
+  IF v_locked <> COALESCE(cardinality(p_split_ids), 0) THEN
+    RAISE EXCEPTION 'Balances changed since the settle-up plan was made' USING ERRCODE = '40001';
+  END IF;
+
+  UPDATE expense_splits
+  SET status = 'settled', settled_at = NOW()
+  WHERE id = ANY(p_split_ids);
+
+  RETURN QUERY
+  INSERT INTO settlements (
+    space_id, from_user_id, to_user_id, amount, currency, settlement_date,
+    payment_method, notes, expense_ids, created_by
+  )
+  SELECT
+    p_space_id, t.from_user_id, t.to_user_id, t.amount, p_currency, p_settlement_date,
+    p_payment_method, p_notes, p_expense_ids, p_created_by
+  FROM jsonb_to_recordset(p_transfers) AS t(from_user_id UUID, to_user_id UUID, amount DECIMAL(10, 2))
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_settle_up(UUID, UUID, JSONB, UUID[], UUID[], TEXT, DATE, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_settle_up(UUID, UUID, JSONB, UUID[], UUID[], TEXT, DATE, TEXT, TEXT) TO service_role;